@@ -0,0 +1,72 @@
+/**
+ * /api/checkpoint/sign と透明性ログ (ADR-0046) を自前ホストの置き場 (ファイル / SQLite) で回す。
+ *
+ * テスト本体は Workers と共通のスイート (`@typedcode/workers/testing`)。KV と同じ結果になることが
+ * 「Workers と等価」の根拠になる。ここでは置き場固有の TTL (期限切れの不可視化と掃除) だけを足す。
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describeCheckpointSigning, describeTransparencyLog } from '@typedcode/workers/testing';
+import { FileSessionStore } from '../fileSessionStore.js';
+import { SqliteSessionStore } from '../sqliteSessionStore.js';
+
+let root: string;
+let serial = 0;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'typedcode-anchor-'));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describeCheckpointSigning(
+  'handleSignCheckpoint (FileSessionStore)',
+  () => new FileSessionStore(join(root, `s${serial++}`))
+);
+describeCheckpointSigning('handleSignCheckpoint (SqliteSessionStore)', () => new SqliteSessionStore(':memory:'));
+describeTransparencyLog(
+  'KeyValueTransparencyLog (FileSessionStore)',
+  () => new FileSessionStore(join(root, `log${serial++}`))
+);
+describeTransparencyLog('KeyValueTransparencyLog (SqliteSessionStore)', () => new SqliteSessionStore(':memory:'));
+
+describe('session store TTL', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const stores = [
+    ['FileSessionStore', () => new FileSessionStore(join(root, `ttl${serial++}`))],
+    ['SqliteSessionStore', () => new SqliteSessionStore(':memory:')],
+  ] as const;
+
+  for (const [name, create] of stores) {
+    it(`${name} hides an expired record and purges it`, async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T00:00:00.000Z'));
+      const store = create();
+      await store.put('session:a:tab-1', JSON.stringify({ signedCount: 1 }), { expirationTtl: 60 });
+      await store.put('session:a:tabs', JSON.stringify(['tab-1']), { expirationTtl: 3600 });
+      expect(await store.get('session:a:tab-1', 'json')).toEqual({ signedCount: 1 });
+
+      vi.setSystemTime(new Date('2026-10-19T00:01:00.000Z'));
+      expect(await store.get('session:a:tab-1', 'json')).toBeNull();
+      expect(await store.get('session:a:tabs', 'json')).toEqual(['tab-1']);
+
+      vi.setSystemTime(new Date('2026-10-19T01:00:00.000Z'));
+      expect(await store.purgeExpired()).toBe(1);
+      expect(await store.get('session:a:tabs', 'json')).toBeNull();
+    });
+  }
+
+  it('FileSessionStore keeps client-chosen keys out of file names', async () => {
+    const directory = join(root, `names${serial++}`);
+    await new FileSessionStore(directory).put('session:../../etc:tab/1', '{}');
+    expect(await readdir(directory)).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * http 越しの往復 (editor と同じ順序: session/start → checkpoint/sign → 透明性ログの evidence) と、橋渡し固有の挙動
+ * (body 上限・404・CORS・human check の差し替え)、環境変数の解釈を固定する。
+ *
+ * 署名鍵は ECDSA-P256 で都度生成し、本番 registry の keyId に紐付ける (getSigningKey が registry を引く)。
+ * 発行した token を sign 側で実検証させるため、同じ keyId に生成した公開鍵を載せた registry を注入する。
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import {
+  hashSessionStartTokenPayload,
+  hashSignedCheckpointPayload,
+  verifyTransparencyLogEvidence,
+  type CheckpointPublicKey,
+  type SessionStartToken,
+  type SignedCheckpointEnvelope,
+  type TransparencyLogEntry,
+  type TransparencyLogEvidence,
+} from '@typedcode/shared/checkpoint';
+import {
+  DISABLED_HUMAN_CHECK,
+  KeyValueTransparencyLog,
+  type AnchorEnv,
+  type HumanCheck,
+  type TransparencyLog,
+} from '@typedcode/workers/anchor';
+import { loadAnchorServerConfig, parseSessionStoreSpec } from '../config.js';
+import { createAnchorServer } from '../server.js';
+import { SqliteSessionStore } from '../sqliteSessionStore.js';
+
+const REGISTERED_KEY_ID = 'tcp-202605-fd6d42';
+const ORIGIN = 'https://exam.example.ac.jp';
+
+let env: AnchorEnv;
+let registry: readonly CheckpointPublicKey[];
+const servers: Server[] = [];
+
+beforeAll(async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  registry = [
+    {
+      keyId: REGISTERED_KEY_ID,
+      algorithm: 'ECDSA-P256',
+      publicKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      status: 'active',
+      validFrom: '2026-01-01T00:00:00.000Z',
+    },
+  ];
+  env = {
+    CHECKPOINT_SESSIONS: new SqliteSessionStore(':memory:'),
+    CHECKPOINT_SIGNING_KEY_JWK: JSON.stringify(await crypto.subtle.exportKey('jwk', keyPair.privateKey)),
+    CHECKPOINT_SIGNING_KEY_ID: REGISTERED_KEY_ID,
+    ALLOWED_ORIGINS: ORIGIN,
+    ENVIRONMENT: 'production',
+  };
+});
+
+afterAll(async () => {
+  await Promise.all(servers.map((s) => new Promise((resolve) => s.close(resolve))));
+});
+
+/** port 0 で起動し base URL を返す */
+async function start(
+  humanCheck: HumanCheck = DISABLED_HUMAN_CHECK,
+  maxBodyBytes?: number,
+  transparencyLog?: TransparencyLog
+): Promise<string> {
+  const server = createAnchorServer({ env, humanCheck, tokenKeyRegistry: registry, maxBodyBytes, transparencyLog });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function post(url: string, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json', Origin: ORIGIN },
+  });
+}
+
+describe('createAnchorServer', () => {
+  it('issues a session token without a human check and signs a checkpoint with it', async () => {
+    const base = await start();
+
+    const started = await post(`${base}/api/session/start`, {
+      sessionId: 'self-hosted',
+      fingerprintHash: 'f'.repeat(64),
+    });
+    expect(started.status).toBe(200);
+    expect(started.headers.get('Access-Control-Allow-Origin')).toBe(ORIGIN);
+    const { token } = (await started.json()) as { token: SessionStartToken };
+    expect(token.keyId).toBe(REGISTERED_KEY_ID);
+    expect(token.payload).toMatchObject({ sessionId: 'self-hosted', turnstileVerified: false, hostname: null });
+
+    const signed = await post(`${base}/api/checkpoint/sign`, {
+      sessionId: 'self-hosted',
+      tabId: 'tab-1',
+      checkpointIndex: 0,
+      eventIndex: 99,
+      initialEventChainHash: 'a'.repeat(64),
+      chainHash: 'b'.repeat(64),
+      contentHash: 'c'.repeat(64),
+      previousSignedCheckpointHash: null,
+      totalEventsSincePrevious: 100,
+      clientTimestamp: '2026-10-19T00:00:00.000Z',
+      sessionStartToken: token,
+    });
+    expect(signed.status).toBe(200);
+    const { envelope } = (await signed.json()) as { envelope: { keyId: string; signature: string } };
+    expect(envelope.keyId).toBe(REGISTERED_KEY_ID);
+    expect(envelope.signature).toMatch(/^[0-9a-f]+$/);
+
+    const keys = await fetch(`${base}/api/checkpoint/public-keys`);
+    expect(keys.status).toBe(200);
+    expect(keys.headers.get('Cache-Control')).toBe('public, max-age=3600');
+  });
+
+  it('records the token and the signed checkpoint in the transparency log and proves both', async () => {
+    const base = await start(
+      DISABLED_HUMAN_CHECK,
+      undefined,
+      new KeyValueTransparencyLog(new SqliteSessionStore(':memory:'))
+    );
+
+    const started = await post(`${base}/api/session/start`, { sessionId: 'logged', fingerprintHash: 'f'.repeat(64) });
+    const { token } = (await started.json()) as { token: SessionStartToken };
+    const signed = await post(`${base}/api/checkpoint/sign`, {
+      sessionId: 'logged',
+      tabId: 'tab-1',
+      checkpointIndex: 0,
+      eventIndex: 9,
+      initialEventChainHash: 'a'.repeat(64),
+      chainHash: 'b'.repeat(64),
+      contentHash: 'c'.repeat(64),
+      previousSignedCheckpointHash: null,
+      totalEventsSincePrevious: 10,
+      clientTimestamp: '2026-10-19T00:00:00.000Z',
+      sessionStartToken: token,
+    });
+    const { envelope } = (await signed.json()) as { envelope: SignedCheckpointEnvelope };
+
+    const entries: TransparencyLogEntry[] = [
+      { kind: 'session-start-token', payloadHash: await hashSessionStartTokenPayload(token.payload) },
+      { kind: 'signed-checkpoint', payloadHash: await hashSignedCheckpointPayload(envelope.payload) },
+    ];
+    const res = await post(`${base}/api/log/evidence`, { entries });
+    expect(res.status).toBe(200);
+    const evidence = (await res.json()) as TransparencyLogEvidence;
+    expect(evidence.treeHead.payload.treeSize).toBe(2);
+    expect((await verifyTransparencyLogEvidence(evidence, entries, registry)).valid).toBe(true);
+  });
+
+  it('passes a rejection from a pluggable human check through to the client', async () => {
+    const base = await start({ verify: async () => ({ ok: false, status: 403, message: 'SSO session required' }) });
+    const res = await post(`${base}/api/session/start`, { sessionId: 's', fingerprintHash: 'f'.repeat(64) });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ success: false, message: 'SSO session required' });
+  });
+
+  it('answers preflight, unknown paths and oversized bodies without reaching the handlers', async () => {
+    const base = await start(DISABLED_HUMAN_CHECK, 1024);
+
+    const preflight = await fetch(`${base}/api/checkpoint/sign`, { method: 'OPTIONS', headers: { Origin: ORIGIN } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe(ORIGIN);
+
+    expect((await fetch(`${base}/api/verify-captcha`, { method: 'POST' })).status).toBe(404);
+    expect((await post(`${base}/api/session/start`, { pad: 'x'.repeat(2048) })).status).toBe(413);
+  });
+});
+
+describe('loadAnchorServerConfig', () => {
+  const key = { CHECKPOINT_SIGNING_KEY_JWK: '{}', CHECKPOINT_SIGNING_KEY_ID: REGISTERED_KEY_ID };
+
+  it('defaults to Turnstile and a file store, and requires the Turnstile secret', () => {
+    const config = loadAnchorServerConfig({ ...key, TURNSTILE_SECRET_KEY: 'secret' });
+    expect(config).toMatchObject({
+      port: 8787,
+      host: '127.0.0.1',
+      humanCheck: 'turnstile',
+      store: { kind: 'file', directory: './anchor-sessions' },
+      env: { ENVIRONMENT: 'production' },
+    });
+    expect(() => loadAnchorServerConfig(key)).toThrow('TURNSTILE_SECRET_KEY');
+    expect(loadAnchorServerConfig({ ...key, ANCHOR_HUMAN_CHECK: 'none' }).humanCheck).toBe('none');
+  });
+
+  it('rejects a missing signing key and malformed selectors', () => {
+    expect(() => loadAnchorServerConfig({ ANCHOR_HUMAN_CHECK: 'none' })).toThrow('CHECKPOINT_SIGNING_KEY_JWK');
+    const rotating = loadAnchorServerConfig({ ANCHOR_HUMAN_CHECK: 'none', CHECKPOINT_SIGNING_KEYS: '[]' });
+    expect(rotating.env.CHECKPOINT_SIGNING_KEYS).toBe('[]');
+    expect(() => loadAnchorServerConfig({ ...key, ANCHOR_HUMAN_CHECK: 'captcha' })).toThrow('ANCHOR_HUMAN_CHECK');
+    expect(parseSessionStoreSpec('sqlite:/var/lib/typedcode/anchor.db')).toEqual({
+      kind: 'sqlite',
+      path: '/var/lib/typedcode/anchor.db',
+    });
+    expect(() => parseSessionStoreSpec('redis://localhost')).toThrow('ANCHOR_SESSION_STORE');
+  });
+});
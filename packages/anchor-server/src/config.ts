@@ -0,0 +1,85 @@
+/**
+ * 環境変数からサーバ設定を読む。
+ *
+ * 署名鍵・CORS・Turnstile は Cloudflare Workers と同じ変数名 (`CHECKPOINT_SIGNING_KEY_JWK` 等) を使い、
+ * 同じ secret をどちらにも流用できるようにする。自前ホスト固有の設定 (置き場・human check・listen 先) は
+ * `ANCHOR_` 接頭辞で分ける。不正な値はここで throw し、起動前に止める。
+ */
+
+/** セッション状態の置き場 */
+export type SessionStoreSpec = { kind: 'file'; directory: string } | { kind: 'sqlite'; path: string };
+
+/** `/api/session/start` の human check。`none` は無効 (閉じたネットワーク向け) */
+export type HumanCheckKind = 'turnstile' | 'none';
+
+export interface AnchorServerConfig {
+  port: number;
+  host: string;
+  store: SessionStoreSpec;
+  humanCheck: HumanCheckKind;
+  /** アンカー API に渡す env (CHECKPOINT_SESSIONS は起動時に store から作る) */
+  env: {
+    CHECKPOINT_SIGNING_KEY_JWK?: string;
+    CHECKPOINT_SIGNING_KEY_ID?: string;
+    CHECKPOINT_SIGNING_KEYS?: string;
+    CHECKPOINT_KEY_SET?: string;
+    ALLOWED_ORIGINS?: string;
+    ENVIRONMENT: string;
+    TURNSTILE_SECRET_KEY: string;
+  };
+}
+
+export const DEFAULT_PORT = 8787;
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_SESSION_STORE = 'file:./anchor-sessions';
+
+/** `file:<dir>` / `sqlite:<path>` を解釈する */
+export function parseSessionStoreSpec(value: string): SessionStoreSpec {
+  const sep = value.indexOf(':');
+  const kind = sep === -1 ? '' : value.slice(0, sep);
+  const location = sep === -1 ? '' : value.slice(sep + 1);
+  if (location.length > 0) {
+    if (kind === 'file') return { kind: 'file', directory: location };
+    if (kind === 'sqlite') return { kind: 'sqlite', path: location };
+  }
+  throw new Error(`Invalid ANCHOR_SESSION_STORE value: ${value}. Use file:<directory> | sqlite:<path>.`);
+}
+
+export function loadAnchorServerConfig(vars: Record<string, string | undefined>): AnchorServerConfig {
+  const port = Number(vars.PORT ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid PORT value: ${vars.PORT}.`);
+  }
+
+  const humanCheck = vars.ANCHOR_HUMAN_CHECK ?? 'turnstile';
+  if (humanCheck !== 'turnstile' && humanCheck !== 'none') {
+    throw new Error(`Invalid ANCHOR_HUMAN_CHECK value: ${humanCheck}. Use turnstile | none.`);
+  }
+  if (humanCheck === 'turnstile' && !vars.TURNSTILE_SECRET_KEY) {
+    throw new Error('TURNSTILE_SECRET_KEY is required unless ANCHOR_HUMAN_CHECK=none.');
+  }
+
+  // 署名鍵は単一鍵 (_JWK / _ID の組) か複数鍵 (CHECKPOINT_SIGNING_KEYS、ADR-0048) の少なくとも一方。
+  const singleKey = Boolean(vars.CHECKPOINT_SIGNING_KEY_JWK && vars.CHECKPOINT_SIGNING_KEY_ID);
+  if (!singleKey && !vars.CHECKPOINT_SIGNING_KEYS) {
+    throw new Error(
+      'CHECKPOINT_SIGNING_KEY_JWK and CHECKPOINT_SIGNING_KEY_ID (or CHECKPOINT_SIGNING_KEYS) are required.'
+    );
+  }
+
+  return {
+    port,
+    host: vars.HOST ?? DEFAULT_HOST,
+    store: parseSessionStoreSpec(vars.ANCHOR_SESSION_STORE ?? DEFAULT_SESSION_STORE),
+    humanCheck,
+    env: {
+      CHECKPOINT_SIGNING_KEY_JWK: vars.CHECKPOINT_SIGNING_KEY_JWK,
+      CHECKPOINT_SIGNING_KEY_ID: vars.CHECKPOINT_SIGNING_KEY_ID,
+      CHECKPOINT_SIGNING_KEYS: vars.CHECKPOINT_SIGNING_KEYS,
+      CHECKPOINT_KEY_SET: vars.CHECKPOINT_KEY_SET,
+      ALLOWED_ORIGINS: vars.ALLOWED_ORIGINS,
+      ENVIRONMENT: vars.ENVIRONMENT ?? 'production',
+      TURNSTILE_SECRET_KEY: vars.TURNSTILE_SECRET_KEY ?? '',
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * ファイルベースのセッション状態の置き場 (1 キー = 1 ファイル)。
+ *
+ * 依存ゼロで動く既定の置き場。キーは SHA-256 でファイル名にする (`session:{id}:{tab}` の `:` や
+ * クライアント任意の tabId をそのままパスに使わない)。書き込みは一時ファイル + rename で原子的に行い、
+ * 書きかけのファイルを読まない。期限切れは読んだときに消し、`purgeExpired()` でまとめて掃除する。
+ * 単一プロセスでの運用を前提とする (複数プロセスで共有するなら SqliteSessionStore を使う)。
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { SessionStore } from '@typedcode/workers/anchor';
+
+/** ファイルの中身。value は put に渡された JSON 文字列そのまま */
+interface StoredEntry {
+  value: string;
+  /** 期限 (epoch ms)。null は無期限 */
+  expiresAt: number | null;
+}
+
+export class FileSessionStore implements SessionStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  async get<T = unknown>(key: string, _type: 'json'): Promise<T | null> {
+    const entry = await this.readEntry(this.pathFor(key));
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await rm(this.pathFor(key), { force: true });
+      return null;
+    }
+    return JSON.parse(entry.value) as T;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    await this.ensureDirectory();
+    const entry: StoredEntry = {
+      value,
+      expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null,
+    };
+    const target = this.pathFor(key);
+    const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+    await writeFile(temp, JSON.stringify(entry), 'utf-8');
+    await rename(temp, target);
+  }
+
+  /** 期限切れのエントリを消す。消した数を返す */
+  async purgeExpired(now = Date.now()): Promise<number> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw err;
+    }
+    let removed = 0;
+    for (const name of names.filter((n) => n.endsWith('.json'))) {
+      const path = join(this.directory, name);
+      const entry = await this.readEntry(path);
+      if (entry && entry.expiresAt !== null && entry.expiresAt <= now) {
+        await rm(path, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  /** 無いファイルは null。それ以外の読み取り失敗は throw する (checkpoint.ts が 503 にする) */
+  private async readEntry(path: string): Promise<StoredEntry | null> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+    return JSON.parse(text) as StoredEntry;
+  }
+
+  private ensureDirectory(): Promise<void> {
+    this.ready ??= mkdir(this.directory, { recursive: true }).then(() => undefined);
+    return this.ready;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @typedcode/anchor-server のプログラム用エントリ。
+ *
+ * 独自の human check (学内 SSO 等) を差し込むときは、main.ts の代わりにここから
+ * `createAnchorServer({ env, humanCheck, transparencyLog })` を組み立てる。
+ */
+
+export {
+  DISABLED_HUMAN_CHECK,
+  KeyValueTransparencyLog,
+  createTurnstileHumanCheck,
+  type AnchorContext,
+  type AnchorEnv,
+  type HumanCheck,
+  type HumanCheckResult,
+  type SessionStore,
+  type TransparencyLog,
+} from '@typedcode/workers/anchor';
+export {
+  DEFAULT_HOST,
+  DEFAULT_PORT,
+  DEFAULT_SESSION_STORE,
+  loadAnchorServerConfig,
+  parseSessionStoreSpec,
+  type AnchorServerConfig,
+  type HumanCheckKind,
+  type SessionStoreSpec,
+} from './config.js';
+export { FileSessionStore } from './fileSessionStore.js';
+export { SqliteSessionStore } from './sqliteSessionStore.js';
+export {
+  MAX_REQUEST_BODY_BYTES,
+  createAnchorServer,
+  openSessionStore,
+  type AnchorServerOptions,
+  type PurgeableSessionStore,
+} from './server.js';
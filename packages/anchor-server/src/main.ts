@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * @typedcode/anchor-server - 自前ホスト用のアンカー API サーバ
+ *
+ * Usage: typedcode-anchor-server
+ *
+ * 設定は環境変数で渡す (README の表を参照):
+ *   CHECKPOINT_SIGNING_KEY_JWK / CHECKPOINT_SIGNING_KEY_ID  署名鍵 (Workers と同じ)
+ *   CHECKPOINT_SIGNING_KEYS / CHECKPOINT_KEY_SET            鍵のローテーション (ADR-0048、任意)
+ *   ALLOWED_ORIGINS / ENVIRONMENT                            CORS (Workers と同じ)
+ *   ANCHOR_HUMAN_CHECK=turnstile|none, TURNSTILE_SECRET_KEY  session/start の human check
+ *   ANCHOR_SESSION_STORE=file:<dir>|sqlite:<path>            セッション状態の置き場
+ *   PORT / HOST                                              listen 先 (既定 127.0.0.1:8787)
+ */
+
+import { DISABLED_HUMAN_CHECK, KeyValueTransparencyLog, createTurnstileHumanCheck } from '@typedcode/workers/anchor';
+import { loadAnchorServerConfig, type AnchorServerConfig } from './config.js';
+import { createAnchorServer, openSessionStore } from './server.js';
+
+/** 期限切れセッションを掃除する間隔 (TTL は 7 日なので 1 時間毎で十分) */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function main(): void {
+  let config: AnchorServerConfig;
+  try {
+    config = loadAnchorServerConfig(process.env);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  if (config.humanCheck === 'none') {
+    console.warn(
+      'Warning: ANCHOR_HUMAN_CHECK=none. Session start tokens are issued without a human check ' +
+        '(turnstileVerified: false). Do not expose this server to the public internet.'
+    );
+  }
+
+  const store = openSessionStore(config.store);
+  const server = createAnchorServer({
+    env: { ...config.env, CHECKPOINT_SESSIONS: store },
+    humanCheck: config.humanCheck === 'none' ? DISABLED_HUMAN_CHECK : createTurnstileHumanCheck(config.env),
+    // 透明性ログ (ADR-0046) はセッション状態と同じ置き場に TTL 無しで積む。追記の直列化は
+    // プロセス内なので、同じ置き場を複数プロセスで共有しないこと (README)。
+    transparencyLog: new KeyValueTransparencyLog(store),
+  });
+
+  const purge = setInterval(() => {
+    store.purgeExpired().catch((err) => console.error('[anchor-server] purge failed:', err));
+  }, PURGE_INTERVAL_MS);
+  purge.unref();
+
+  server.listen(config.port, config.host, () => {
+    const where = config.store.kind === 'sqlite' ? config.store.path : config.store.directory;
+    console.log(`Anchor API listening on http://${config.host}:${config.port} (${config.store.kind}: ${where})`);
+  });
+
+  const shutdown = () => {
+    clearInterval(purge);
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
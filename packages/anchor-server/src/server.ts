@@ -0,0 +1,101 @@
+/**
+ * Node の `http` サーバとアンカー API (`@typedcode/workers/anchor`) の橋渡し。
+ *
+ * ハンドラは Web 標準の Request / Response で書かれているので (Workers と共通)、ここでは
+ * IncomingMessage → Request、Response → ServerResponse の変換だけを行う。エンドポイントの挙動・
+ * エラーコード・CORS 方針は Workers と同一で、違いは SessionStore と human check の差し替えだけ。
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createAnchorHandler, type AnchorContext, type SessionStore } from '@typedcode/workers/anchor';
+import type { SessionStoreSpec } from './config.js';
+import { FileSessionStore } from './fileSessionStore.js';
+import { SqliteSessionStore } from './sqliteSessionStore.js';
+
+/**
+ * 読み込む request body の上限 (bytes)。署名 API 自体も 8KB で弾くが (checkpoint.ts)、そこへ渡す前に
+ * 巨大 body をメモリに溜めないための蓋。超えた分は読み捨てて 413 を返す。
+ */
+export const MAX_REQUEST_BODY_BYTES = 64 * 1024;
+
+export interface AnchorServerOptions extends AnchorContext {
+  /** request body の上限 (既定 MAX_REQUEST_BODY_BYTES) */
+  maxBodyBytes?: number;
+}
+
+/** 期限切れの掃除ができる置き場 (FileSessionStore / SqliteSessionStore) */
+export interface PurgeableSessionStore extends SessionStore {
+  purgeExpired(now?: number): Promise<number>;
+}
+
+export function openSessionStore(spec: SessionStoreSpec): PurgeableSessionStore {
+  return spec.kind === 'sqlite' ? new SqliteSessionStore(spec.path) : new FileSessionStore(spec.directory);
+}
+
+export function createAnchorServer(options: AnchorServerOptions): Server {
+  const handle = createAnchorHandler(options);
+  const maxBodyBytes = options.maxBodyBytes ?? MAX_REQUEST_BODY_BYTES;
+
+  return createServer((req, res) => {
+    void serve(req, res, handle, maxBodyBytes);
+  });
+}
+
+async function serve(
+  req: IncomingMessage,
+  res: ServerResponse,
+  handle: (request: Request) => Promise<Response>,
+  maxBodyBytes: number
+): Promise<void> {
+  try {
+    const request = await toRequest(req, maxBodyBytes);
+    const response = request
+      ? await handle(request)
+      : new Response(JSON.stringify({ success: false, message: `Request body exceeds ${maxBodyBytes} bytes` }), {
+          status: 413,
+          headers: { 'Content-Type': 'application/json' },
+        });
+    await writeResponse(res, response);
+  } catch (err) {
+    // createAnchorHandler は throw しないので、ここに来るのは変換 (ソケット切断等) の失敗だけ
+    console.error('[anchor-server] request failed:', err);
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+    }
+    res.end(JSON.stringify({ success: false, message: 'Internal server error' }));
+  }
+}
+
+/** body が上限を超えたら null (超えた分も最後まで読み捨て、応答を書けるようにする) */
+async function toRequest(req: IncomingMessage, maxBodyBytes: number): Promise<Request | null> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+
+  const method = req.method ?? 'GET';
+  if (method === 'GET' || method === 'HEAD') {
+    return new Request(url, { method, headers });
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size <= maxBodyBytes) chunks.push(chunk);
+  }
+  if (size > maxBodyBytes) return null;
+  return new Request(url, { method, headers, body: Buffer.concat(chunks) });
+}
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  const body = Buffer.from(await response.arrayBuffer());
+  res.writeHead(response.status, headers);
+  res.end(body);
+}
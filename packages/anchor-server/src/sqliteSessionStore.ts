@@ -0,0 +1,61 @@
+/**
+ * SQLite ベースのセッション状態の置き場 (Node 組込みの `node:sqlite`)。
+ *
+ * 1 テーブル (key / value / expires_at) に KV をそのまま写す。書き込みは upsert 1 文なので
+ * 原子的で、WAL モードにして同じファイルを複数プロセスから読み書きできる。期限切れは読んだときに
+ * 消し、`purgeExpired()` でまとめて掃除する。
+ */
+
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import type { SessionStore } from '@typedcode/workers/anchor';
+
+interface SessionRow {
+  value: string;
+  expires_at: number | null;
+}
+
+export class SqliteSessionStore implements SessionStore {
+  private readonly db: DatabaseSync;
+  private readonly selectStmt: StatementSync;
+  private readonly upsertStmt: StatementSync;
+  private readonly deleteStmt: StatementSync;
+  private readonly purgeStmt: StatementSync;
+
+  /** `path` は DB ファイル (無ければ作る)。テストでは ':memory:' も使える */
+  constructor(path: string) {
+    this.db = new DatabaseSync(path);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('CREATE TABLE IF NOT EXISTS sessions (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER)');
+    this.selectStmt = this.db.prepare('SELECT value, expires_at FROM sessions WHERE key = ?');
+    this.upsertStmt = this.db.prepare(
+      'INSERT INTO sessions (key, value, expires_at) VALUES (?, ?, ?) ' +
+        'ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at'
+    );
+    this.deleteStmt = this.db.prepare('DELETE FROM sessions WHERE key = ?');
+    this.purgeStmt = this.db.prepare('DELETE FROM sessions WHERE expires_at IS NOT NULL AND expires_at <= ?');
+  }
+
+  async get<T = unknown>(key: string, _type: 'json'): Promise<T | null> {
+    const row = this.selectStmt.get(key) as SessionRow | undefined;
+    if (!row) return null;
+    if (row.expires_at !== null && row.expires_at <= Date.now()) {
+      this.deleteStmt.run(key);
+      return null;
+    }
+    return JSON.parse(row.value) as T;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    const expiresAt = options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null;
+    this.upsertStmt.run(key, value, expiresAt);
+  }
+
+  /** 期限切れのエントリを消す。消した数を返す */
+  async purgeExpired(now = Date.now()): Promise<number> {
+    return Number(this.purgeStmt.run(now).changes);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // 置き場 (ファイル / SQLite) と http 橋渡しを実体で動かす。DOM 非依存なので node 環境で十分。
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    globals: true,
+  },
+});
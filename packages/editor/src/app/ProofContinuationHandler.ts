@@ -0,0 +1,131 @@
+/**
+ * ProofContinuationHandler - 前の proof からの継続 (ADR-0041)
+ *
+ * 書き出した proof (JSON / `.tcproof` / ZIP) を読み込み、その最終内容から記録を再開するタブを作る。
+ * 新しいタブの root は前の proof の最終状態に束ねられる (TabManager の `continueFrom`)。
+ */
+
+import {
+  BINARY_PROOF_EXTENSION,
+  createProofContinuation,
+  extractAllProofsFromZip,
+  migrateProof,
+  parseBinaryProofBuffer,
+  parseJsonString,
+  verifyProofFile,
+  type LegacyProofFile,
+  type MigratedProof,
+} from '@typedcode/shared';
+import type { AppContext } from '../core/AppContext.js';
+import { t } from '../i18n/index.js';
+import { showNotification } from './AppHelpers.js';
+
+/**
+ * proof ファイルを選択
+ */
+function selectProofFile(): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `.json,${BINARY_PROOF_EXTENSION},.zip`;
+
+    input.addEventListener('change', () => {
+      resolve(input.files?.[0] ?? null);
+    });
+
+    // キャンセル時
+    input.addEventListener('cancel', () => {
+      resolve(null);
+    });
+
+    input.click();
+  });
+}
+
+/**
+ * ファイルから proof を読み出す。ZIP は中のすべての proof。`migrateProof` で現行の形にそろえる
+ * (対応しない format version は throw)。
+ */
+async function readProofs(file: File): Promise<Array<{ filename: string; proof: MigratedProof }>> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.zip')) {
+    const entries = await extractAllProofsFromZip(await file.arrayBuffer());
+    return entries.map(({ filename, proof }) => ({ filename, proof: migrateProof(proof as LegacyProofFile).proof }));
+  }
+  const parsed = name.endsWith(BINARY_PROOF_EXTENSION)
+    ? parseBinaryProofBuffer(await file.arrayBuffer(), file.name)
+    : parseJsonString(await file.text(), file.name);
+  return parsed?.proofData
+    ? [{ filename: file.name, proof: migrateProof(parsed.proofData as LegacyProofFile).proof }]
+    : [];
+}
+
+/**
+ * 継続先のタブ名。proof が記録したファイル名を優先し、無ければ `<name>_proof.json` から戻す。
+ */
+function sourceFilename(filename: string, proof: MigratedProof): string {
+  if (proof.filename) return proof.filename;
+  const base = filename.split('/').pop() ?? filename;
+  return base.replace(/_proof(_\d+)?\.(json|tcproof)$/, '') || 'untitled';
+}
+
+/**
+ * 前の proof から継続するタブを作る。
+ *
+ * - 各 proof は取り込み前に `verifyProofFile` (fast) を通す。通らない proof からは継続しない
+ *   (壊れた proof の最終状態に束ねても、列の検証で必ず落ちるため)。
+ * - exam proof は継続できない (root が監督コードに束縛されている)。
+ * - ZIP に継続済みの列が入っているときは、他の proof に継続されていない末尾だけを続ける。
+ */
+export async function handleContinueFromProof(ctx: AppContext): Promise<void> {
+  if (!ctx.tabManager) return;
+
+  // 1. ファイル選択
+  const file = await selectProofFile();
+  if (!file) return;
+
+  // 2. proof を読み出す
+  let entries: Array<{ filename: string; proof: MigratedProof }>;
+  try {
+    entries = await readProofs(file);
+  } catch (error) {
+    console.error('[ProofContinuation] Read error:', error);
+    showNotification(t('continuation.readError'));
+    return;
+  }
+  if (entries.length === 0) {
+    showNotification(t('continuation.noProof'));
+    return;
+  }
+
+  const continued = new Set(entries.map((e) => e.proof.continuation?.previousFinalEventChainHash));
+  const heads = entries.filter((e) => !continued.has(e.proof.typingProofData?.finalEventChainHash));
+
+  // 3. 検証して継続タブを作る
+  let created = 0;
+  for (const { filename, proof } of heads) {
+    if (proof.exam) {
+      showNotification(t('continuation.exam', { filename }));
+      continue;
+    }
+    const result = await verifyProofFile(proof, undefined, { mode: 'fast' });
+    if (!result.valid) {
+      console.warn('[ProofContinuation] Invalid proof:', filename, result.errorMessage);
+      showNotification(t('continuation.invalid', { filename }));
+      continue;
+    }
+
+    const tab = await ctx.tabManager.createTab(sourceFilename(filename, proof), proof.language, proof.content, {
+      continueFrom: { continuation: createProofContinuation(proof), content: proof.content },
+    });
+    if (!tab) continue;
+    await ctx.tabManager.switchTab(tab.id);
+    created++;
+  }
+
+  // 4. 結果表示
+  if (created > 0) {
+    ctx.tabUIController?.updateUI();
+    showNotification(t('continuation.success', { count: created }));
+  }
+}
@@ -366,6 +366,19 @@ export function setupStaticEventListeners(ctx: AppContext): void {
     void ctx.proofExporter.exportCurrentTab();
   });
 
+  // 現在のタブの伏せ字バンドル (ADR-0043): 分析のみ / 分析 + 伏せ字の events
+  const exportAnalysisBundleBtn = document.getElementById('export-analysis-bundle-btn');
+  exportAnalysisBundleBtn?.addEventListener('click', () => {
+    ctx.downloadDropdown.close();
+    void ctx.proofExporter.exportRedactedBundle(false);
+  });
+
+  const exportRedactedBundleBtn = document.getElementById('export-redacted-bundle-btn');
+  exportRedactedBundleBtn?.addEventListener('click', () => {
+    ctx.downloadDropdown.close();
+    void ctx.proofExporter.exportRedactedBundle(true);
+  });
+
   const exportZipBtn = document.getElementById('export-zip-btn');
   exportZipBtn?.addEventListener('click', (e) => {
     // 無効時は何もしない
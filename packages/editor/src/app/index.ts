@@ -6,6 +6,7 @@
 export { hasAcceptedTerms, markTermsAccepted, showTermsModal } from './TermsHandler.js';
 export { showNotification, initializeLogViewer, updateProofStatus, handleTemplateImport } from './AppHelpers.js';
 export { isTemplateFile, importTemplateContent, handleTemplateDrop } from './TemplateHandler.js';
+export { handleContinueFromProof } from './ProofContinuationHandler.js';
 export { showLanguageDescriptionInTerminal } from './TerminalHandler.js';
 export { handleTabChange } from './TabChangeHandler.js';
 export { setupStaticEventListeners } from './StaticEventListeners.js';
@@ -15,7 +15,7 @@
  */
 
 import * as monaco from 'monaco-editor';
-import { escapeHtml, type ExamBundleProblem } from '@typedcode/shared';
+import { ARGON2ID_POSW_SUITE, escapeHtml, type ExamBundleProblem } from '@typedcode/shared';
 import { t, getI18n } from '../i18n/index.js';
 import {
   createExamBundlePackage,
@@ -461,6 +461,7 @@ export class AuthorPage {
           releaseTime: new Date().toISOString(),
           deadline: OPEN_DEADLINE,
           proctorToken: this.input('author-token').value,
+          hashSuite: this.input('author-memory-hard-posw').checked ? ARGON2ID_POSW_SUITE : undefined,
         },
         signer
       );
@@ -646,6 +647,10 @@ export class AuthorPage {
                 <input type="checkbox" id="author-embed-pubkey">
                 <span>${escapeHtml(t('author.token.embedPubkey'))}</span>
               </label>
+              <label class="author-check">
+                <input type="checkbox" id="author-memory-hard-posw">
+                <span>${escapeHtml(t('author.build.memoryHardPosw'))}</span>
+              </label>
             </div>
             <div class="author-settings-foot">
               <p class="author-error" id="author-build-error" hidden></p>
@@ -27,6 +27,7 @@ import {
   type ExamPackageBuildInput,
   type ExamPackageManifest,
   type ExamPackageSigner,
+  type HashSuiteId,
   type ExamBundle,
   type ExamBundleProblem,
 } from '@typedcode/shared';
@@ -122,6 +123,8 @@ export interface CreateExamPackageParams {
   proctorToken: string;
   /** Argon2id パラメータ。既定は ADR-0006 の 64MiB/3iters/1lane。 */
   kdfParams?: ExamKdfParams;
+  /** 答案の PoSW の suite (ADR-0044)。省略 = 既定 suite (package に書かない)。 */
+  hashSuite?: HashSuiteId;
 }
 
 /** `createExamPackage` の結果。manifest + 確認用 packageHash + 実際に使った正準監督コード。 */
@@ -193,6 +196,7 @@ export async function createExamPackage(
     allowed: { languages },
     keyId: signer.keyId,
     algorithm: 'ECDSA-P256',
+    ...(params.hashSuite !== undefined ? { hashSuite: params.hashSuite } : {}),
   };
 
   const manifest = await buildExamPackage(input, problemText, proctorToken, signer);
@@ -211,6 +215,7 @@ export interface CreateExamBundleParams {
   deadline: string;
   proctorToken: string;
   kdfParams?: ExamKdfParams;
+  hashSuite?: HashSuiteId;
 }
 
 /**
@@ -261,6 +266,7 @@ export async function createExamBundlePackage(
       deadline: params.deadline,
       proctorToken: params.proctorToken,
       kdfParams: params.kdfParams,
+      hashSuite: params.hashSuite,
     },
     signer
   );
@@ -141,6 +141,11 @@ describe('capabilitiesFor', () => {
     const withBestEffort = ALL_EDITOR_MODES.filter((m) => capabilitiesFor(m).preExportBestEffort);
     expect(withBestEffort).toEqual(['class', 'exam']);
   });
+
+  it('writes binary proofs only for the LMS-submitted modes (class, exam; ADR-0038)', () => {
+    const binary = ALL_EDITOR_MODES.filter((m) => capabilitiesFor(m).binaryProof);
+    expect(binary).toEqual(['class', 'exam']);
+  });
 });
 
 describe('mode model invariants', () => {
@@ -51,6 +51,11 @@ export interface ModeCapabilities {
    * exam は時間圧迫を避けて off (記録自体は他モードと同一フォーマット)。
    */
   selfReview: boolean;
+  /**
+   * proof をコンパクトなバイナリ (`*_proof.tcproof`, ADR-0038) で書き出すか。
+   * 長時間・多人数で LMS へ提出する class / exam で有効。casual / assignment は人が読める JSON のまま。
+   */
+  binaryProof: boolean;
 }
 
 /**
@@ -69,6 +74,7 @@ const CASUAL: ModeCapabilities = {
   problemPanel: false,
   preExportBestEffort: false,
   selfReview: true,
+  binaryProof: false,
 };
 
 const EXAM: ModeCapabilities = {
@@ -82,6 +88,7 @@ const EXAM: ModeCapabilities = {
   problemPanel: true,
   preExportBestEffort: true,
   selfReview: false,
+  binaryProof: true,
 };
 
 /**
@@ -102,6 +109,7 @@ const CLASS: ModeCapabilities = {
   problemPanel: true,
   preExportBestEffort: true,
   selfReview: true,
+  binaryProof: true,
 };
 
 /**
@@ -18,7 +18,17 @@ import { getLanguageDefinition } from '../config/SupportedLanguages.js';
 import { t } from '../i18n/index.js';
 import { generateReadmeEn } from './readme-template-en.js';
 import { generateReadmeJa } from './readme-template-ja.js';
-import { summarizeProcess } from '@typedcode/shared';
+import {
+  BINARY_PROOF_EXTENSION,
+  SUBMISSION_RECEIPT_FILENAME,
+  createRedactedBundle,
+  encodeBinaryProof,
+  hashSubmissionReceiptPayload,
+  redactedBundleFiles,
+  summarizeProcess,
+  type ExportedProof,
+} from '@typedcode/shared';
+import { isSubmissionReceiptConfigured, requestSubmissionReceipt } from '../services/SubmissionReceiptService.js';
 import { SelfReviewDialog } from '../ui/components/SelfReviewDialog.js';
 
 export interface ExportCallbacks {
@@ -47,6 +57,8 @@ export class ProofExporter {
   /** 提出前セルフレビュー (ADR-0022, `capabilities.selfReview` で駆動)。 */
   private selfReviewEnabled = false;
   private selfReviewDialog = new SelfReviewDialog();
+  /** proof をバイナリ (`tcproof/1`, ADR-0038) で書くか (`capabilities.binaryProof` で駆動)。 */
+  private binaryProof = false;
 
   constructor() {
     this.exportProgressDialog = new ExportProgressDialog();
@@ -72,6 +84,24 @@ export class ProofExporter {
     this.selfReviewEnabled = enabled;
   }
 
+  /**
+   * proof のバイナリ書き出し (ADR-0038) の有効化 (`capabilities.binaryProof` で駆動)。
+   * 有効時は `*_proof.json` の代わりに同じ値を符号化した `*_proof.tcproof` を ZIP に入れる。
+   */
+  setBinaryProof(enabled: boolean): void {
+    this.binaryProof = enabled;
+  }
+
+  /** proof エントリの拡張子 (`.json` / `.tcproof`)。 */
+  private get proofExtension(): string {
+    return this.binaryProof ? BINARY_PROOF_EXTENSION : '.json';
+  }
+
+  /** proof エントリの中身。バイナリは JSON と同じ値に復号される (検証側は区別しない)。 */
+  private serializeProof(proofWithContent: object): string | Uint8Array {
+    return this.binaryProof ? encodeBinaryProof(proofWithContent) : JSON.stringify(proofWithContent, null, 2);
+  }
+
   /**
    * 提出前セルフレビュー (ADR-0022): アクティブタブのプロセス要約を見せ、任意の
    * 振り返りノートを reflectionNote イベントとしてチェーンへ記録する。
@@ -337,6 +367,32 @@ export class ProofExporter {
   /**
    * タイムスタンプ文字列を生成
    */
+  /**
+   * 提出レシート (ADR-0047) を best-effort で取得し、ZIP 直下に `submission-receipt.json` として同梱する。
+   * 取れなければ何も同梱せず null (レシート無しの ZIP は従来どおり検証できる)。
+   * 返り値は README と受領通知に使う受領時刻と受領番号 (payload hash の先頭 12 桁)。
+   */
+  private async addSubmissionReceiptToZip(
+    zip: JSZip,
+    tabs: ReadonlyArray<{ tabId: string; proof: ExportedProof }>
+  ): Promise<{ serverTime: string; receiptId: string } | null> {
+    if (!isSubmissionReceiptConfigured()) return null;
+    const credential = this.tabManager?.getSubmissionCredential();
+    if (!credential) return null;
+    const receipt = await requestSubmissionReceipt({
+      ...credential,
+      tabs: tabs.map(({ tabId, proof }) => ({
+        tabId,
+        finalChainHash: proof.typingProofData.finalEventChainHash,
+        finalContentHash: proof.typingProofData.finalContentHash,
+      })),
+    });
+    if (!receipt) return null;
+    zip.file(SUBMISSION_RECEIPT_FILENAME, JSON.stringify(receipt, null, 2));
+    const receiptHash = await hashSubmissionReceiptPayload(receipt.payload);
+    return { serverTime: receipt.payload.serverTime, receiptId: receiptHash.slice(0, 12) };
+  }
+
   private generateTimestamp(): string {
     const now = new Date();
     return `${String(now.getFullYear()).slice(2)}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`;
@@ -424,11 +480,11 @@ export class ProofExporter {
       // ソースコードを追加
       zip.file(sourceFilename, content);
 
-      // ログファイル名を生成（ファイル名_proof.json形式）
+      // ログファイル名を生成（ファイル名_proof.json / .tcproof 形式）
       const baseFilename = activeTab.filename.replace(/\.[^.]+$/, ''); // 拡張子を除去
-      const logFilename = `${baseFilename}_proof.json`;
+      const logFilename = `${baseFilename}_proof${this.proofExtension}`;
 
-      // 証明JSONを追加
+      // 証明 (JSON またはバイナリ) を追加
       const proofWithContent = {
         ...proof,
         mode: this.mode,
@@ -436,7 +492,10 @@ export class ProofExporter {
         content,
         language: activeTab.language,
       };
-      zip.file(logFilename, JSON.stringify(proofWithContent, null, 2));
+      zip.file(logFilename, this.serializeProof(proofWithContent));
+
+      // 提出レシート (ADR-0047): 署名 flush 後の最終 hash に受領時刻を付けてもらう (best-effort)
+      const submissionReceipt = await this.addSubmissionReceiptToZip(zip, [{ tabId: activeTab.id, proof }]);
 
       // スクリーンショットを追加
       this.exportProgressDialog.updatePhase('screenshots');
@@ -449,6 +508,7 @@ export class ProofExporter {
         totalScreenshots: screenshotCount,
         sourceFiles: [sourceFilename],
         proofFiles: [logFilename],
+        submissionReceipt: submissionReceipt ?? undefined,
       };
       zip.file('README.md', generateReadmeEn(readmeParams));
       zip.file('README.ja.md', generateReadmeJa(readmeParams));
@@ -483,6 +543,11 @@ export class ProofExporter {
       } else {
         this.callbacks.onNotification?.(t('export.verifyFailed'));
       }
+      if (submissionReceipt) {
+        this.callbacks.onNotification?.(
+          t('export.receiptIssued', { time: submissionReceipt.serverTime, id: submissionReceipt.receiptId })
+        );
+      }
     } catch (error) {
       console.error('[TypedCode] Export failed:', error);
       this.exportProgressDialog.hide();
@@ -492,6 +557,81 @@ export class ProofExporter {
     }
   }
 
+  /**
+   * 現在のタブの伏せ字バンドルを書き出す (ADR-0043)
+   *
+   * コードも打鍵の中身も含まない分析バンドル (Tier A) と、求められれば伏せ字の events (未検証のメタデータ) だけを
+   * 書き出す。proof はその場で検証してから渡すが、PoSW の再計算はメインスレッドでは重いので fast で検証する
+   * (三層保証の整合性は partial になる)。提出物ではないので、セルフレビューとエクスポート前認証は行わない。
+   * 伏せ字の events は検証できず (型・時刻・長さが hash に束縛されない)、打鍵の中身も秘匿しない
+   * (event の hash から総当たりで復元できる) ので、書き出す前に確認する。
+   *
+   * @param includeRedactedEvents 伏せ字の events も添えるか (2 ファイルになるので ZIP で渡す)
+   */
+  async exportRedactedBundle(includeRedactedEvents: boolean): Promise<void> {
+    if (this.isExporting) {
+      console.warn('[Export] Export already in progress; ignoring re-entrant call');
+      return;
+    }
+    if (includeRedactedEvents && !confirm(t('export.redactedEventsConfirm'))) {
+      return;
+    }
+    this.isExporting = true;
+
+    try {
+      const activeTab = this.tabManager?.getActiveTab();
+      if (!activeTab) return;
+
+      const completed = await this.waitForProcessingComplete();
+      if (!completed) {
+        this.callbacks.onNotification?.(t('export.cancelled'));
+        return;
+      }
+      if (!(await this.drainQueueOrAbort(activeTab))) {
+        return;
+      }
+      this.exportProgressDialog.hide();
+
+      const content = activeTab.model.getValue();
+      const proof = await activeTab.typingProof.exportProof(content);
+      const proofWithContent = {
+        ...proof,
+        mode: this.mode,
+        filename: activeTab.filename,
+        content,
+        language: activeTab.language,
+      };
+      const bundle = await createRedactedBundle(proofWithContent, { mode: 'fast', includeRedactedEvents });
+
+      const timestamp = this.generateTimestamp();
+      const baseFilename = activeTab.filename.replace(/\.[^.]+$/, '');
+      const files = redactedBundleFiles(baseFilename, bundle);
+      if (files.length === 1) {
+        const blob = new Blob([files[0]!.content], { type: 'application/json' });
+        this.downloadBlob(blob, files[0]!.name);
+      } else {
+        const zip = new JSZip();
+        for (const file of files) zip.file(file.name, file.content);
+        const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+        this.downloadBlob(blob, `${baseFilename}_redacted_TC${timestamp}.zip`);
+      }
+
+      this.callbacks.onNotification?.(
+        !bundle.verification.valid
+          ? t('export.redactedVerifyFailed')
+          : includeRedactedEvents
+            ? t('export.redactedEventsSuccess')
+            : t('export.redactedSuccess')
+      );
+    } catch (error) {
+      console.error('[TypedCode] Redacted bundle export failed:', error);
+      this.exportProgressDialog.hide();
+      this.callbacks.onNotification?.(t('export.failed'));
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
   /**
    * 全タブをZIPでエクスポート
    */
@@ -560,6 +700,7 @@ export class ProofExporter {
       // 各タブをエクスポート
       const fileList: string[] = [];
       const logList: string[] = [];
+      const receiptTabs: Array<{ tabId: string; proof: ExportedProof }> = [];
 
       let tabIndex = 0;
       for (const tab of allTabs) {
@@ -607,18 +748,19 @@ export class ProofExporter {
         zip.file(uniqueSourceFilename, content);
         fileList.push(uniqueSourceFilename);
 
-        // ログファイル名を生成（ファイル名_proof.json形式）
+        // ログファイル名を生成（ファイル名_proof.json / .tcproof 形式）
         const baseFilename = tab.filename.replace(/\.[^.]+$/, ''); // 拡張子を除去
-        let logFilename = `${baseFilename}_proof.json`;
+        const proofExtension = this.proofExtension;
+        let logFilename = `${baseFilename}_proof${proofExtension}`;
 
         // ログファイル名の重複を処理
         const logCount = usedLogFilenames.get(logFilename) ?? 0;
         if (logCount > 0) {
-          logFilename = `${baseFilename}_proof_${logCount}.json`;
+          logFilename = `${baseFilename}_proof_${logCount}${proofExtension}`;
         }
-        usedLogFilenames.set(`${baseFilename}_proof.json`, logCount + 1);
+        usedLogFilenames.set(`${baseFilename}_proof${proofExtension}`, logCount + 1);
 
-        // 証明JSONを追加（フラット）
+        // 証明 (JSON またはバイナリ) を追加（フラット）
         const proofWithContent = {
           ...proof,
           mode: this.mode,
@@ -626,11 +768,15 @@ export class ProofExporter {
           content,
           language: tab.language,
         };
-        zip.file(logFilename, JSON.stringify(proofWithContent, null, 2));
+        zip.file(logFilename, this.serializeProof(proofWithContent));
         logList.push(logFilename);
+        receiptTabs.push({ tabId: tab.id, proof });
         tabIndex++;
       }
 
+      // 提出レシート (ADR-0047): 全タブの最終 hash を 1 枚のレシートにまとめる (best-effort)
+      const submissionReceipt = await this.addSubmissionReceiptToZip(zip, receiptTabs);
+
       // スクリーンショットを追加
       this.exportProgressDialog.updatePhase('screenshots');
       const screenshotCount = await this.addScreenshotsToZip(zip);
@@ -642,6 +788,7 @@ export class ProofExporter {
         totalScreenshots: screenshotCount,
         sourceFiles: fileList,
         proofFiles: logList,
+        submissionReceipt: submissionReceipt ?? undefined,
       };
       zip.file('README.md', generateReadmeEn(readmeParams));
       zip.file('README.ja.md', generateReadmeJa(readmeParams));
@@ -676,6 +823,11 @@ export class ProofExporter {
       console.log('[Export] Download triggered:', zipFilename);
 
       this.callbacks.onNotification?.(t('export.zipSuccess', { count: allTabs.length }));
+      if (submissionReceipt) {
+        this.callbacks.onNotification?.(
+          t('export.receiptIssued', { time: submissionReceipt.serverTime, id: submissionReceipt.receiptId })
+        );
+      }
     } catch (error) {
       console.error('[TypedCode] ZIP export failed:', error);
       this.exportProgressDialog.hide();
@@ -11,7 +11,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import JSZip from 'jszip';
-import { TypingProof, computeHash, verifyContentReplay } from '@typedcode/shared';
+import { TypingProof, computeHash, decodeBinaryProof, verifyContentReplay } from '@typedcode/shared';
 import type { FingerprintComponents, QueueDrainResult } from '@typedcode/shared';
 import type { TabManager, TabState } from '../../ui/tabs/TabManager.js';
 
@@ -231,3 +231,27 @@ describe('ProofExporter.exportAllTabsAsZip drain consistency (#225)', () => {
     expect(downloads).toHaveLength(1);
   });
 });
+
+describe('ProofExporter binary proof entries (ADR-0038)', () => {
+  it('writes *_proof.tcproof that decodes to the same proof the JSON export holds', async () => {
+    const tab = await makeTab('tab-1', 'abc', 'abc');
+    const { exporter, downloads } = createExporter([tab]);
+
+    await exporter.exportAllTabsAsZip();
+    exporter.setBinaryProof(true);
+    await exporter.exportAllTabsAsZip();
+
+    const [jsonZip, binaryZip] = await Promise.all(
+      downloads.map(async (d) => JSZip.loadAsync(await d.blob.arrayBuffer()))
+    );
+    const binaryName = Object.keys(binaryZip!.files).find((f) => f.endsWith('_proof.tcproof'));
+    expect(Object.keys(binaryZip!.files).some((f) => f.endsWith('_proof.json'))).toBe(false);
+
+    const decoded = decodeBinaryProof(await binaryZip!.file(binaryName!)!.async('uint8array'));
+    const json = JSON.parse(
+      await jsonZip!.file(Object.keys(jsonZip!.files).find((f) => f.endsWith('_proof.json'))!)!.async('string')
+    );
+    expect((decoded as { proof: { events: unknown[] } }).proof.events).toEqual(json.proof.events);
+    expect(await binaryZip!.file('README.md')!.async('string')).toContain(binaryName!);
+  });
+});
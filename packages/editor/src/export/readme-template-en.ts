@@ -9,13 +9,21 @@ export interface ReadmeTemplateParams {
   totalScreenshots: number;
   sourceFiles: string[];
   proofFiles: string[];
+  /** 提出レシート (ADR-0047) を同梱したときの受領時刻と受領番号 */
+  submissionReceipt?: { serverTime: string; receiptId: string };
 }
 
 export function generateReadmeEn(params: ReadmeTemplateParams): string {
-  const { timestamp, totalFiles, totalScreenshots, sourceFiles, proofFiles } = params;
+  const { timestamp, totalFiles, totalScreenshots, sourceFiles, proofFiles, submissionReceipt } = params;
 
   const sourceFilesList = sourceFiles.map((f) => `- \`${f}\``).join('\n');
   const proofFilesList = proofFiles.map((f) => `- \`${f}\``).join('\n');
+  const receiptSection = submissionReceipt
+    ? `### Submission Receipt
+- \`submission-receipt.json\` - Server-signed receipt of the final proof hashes (received at ${submissionReceipt.serverTime}, receipt ${submissionReceipt.receiptId})
+
+`
+    : '';
 
   return `# TypedCode Proof Archive
 
@@ -37,7 +45,7 @@ ${sourceFilesList}
 ### Proof Files
 ${proofFilesList}
 
-### Screenshots
+${receiptSection}### Screenshots
 - \`screenshots/\` - Periodic screen captures
 - \`screenshots/manifest.json\` - Screenshot metadata and hash mappings
 
@@ -174,7 +182,7 @@ The manifest links screenshot files to hash chain events:
 
 ## Proof File Structure
 
-Each \`*_proof.json\` file contains:
+Each \`*_proof.json\` file contains the following. Class and exam exports write the same proof as a compact binary \`*_proof.tcproof\` (\`tcproof/1\`) instead; the verification page and CLI read it directly.
 
 \`\`\`json
 {
@@ -9,13 +9,21 @@ export interface ReadmeTemplateParams {
   totalScreenshots: number;
   sourceFiles: string[];
   proofFiles: string[];
+  /** 提出レシート (ADR-0047) を同梱したときの受領時刻と受領番号 */
+  submissionReceipt?: { serverTime: string; receiptId: string };
 }
 
 export function generateReadmeJa(params: ReadmeTemplateParams): string {
-  const { timestamp, totalFiles, totalScreenshots, sourceFiles, proofFiles } = params;
+  const { timestamp, totalFiles, totalScreenshots, sourceFiles, proofFiles, submissionReceipt } = params;
 
   const sourceFilesList = sourceFiles.map((f) => `- \`${f}\``).join('\n');
   const proofFilesList = proofFiles.map((f) => `- \`${f}\``).join('\n');
+  const receiptSection = submissionReceipt
+    ? `### 提出レシート
+- \`submission-receipt.json\` - 最終 proof hash のサーバ署名付き受領証（受領時刻 ${submissionReceipt.serverTime}、受領番号 ${submissionReceipt.receiptId}）
+
+`
+    : '';
 
   return `# TypedCode 証明アーカイブ
 
@@ -37,7 +45,7 @@ ${sourceFilesList}
 ### 証明ファイル
 ${proofFilesList}
 
-### スクリーンショット
+${receiptSection}### スクリーンショット
 - \`screenshots/\` - 定期的な画面キャプチャ
 - \`screenshots/manifest.json\` - スクリーンショットのメタデータとハッシュマッピング
 
@@ -174,7 +182,7 @@ Event[N] ─┴─► Hash[N] = SHA-256(Event[N] + Hash[N-1] + PoSW[N])
 
 ## 証明ファイルの構造
 
-各\`*_proof.json\`ファイルには以下が含まれます：
+各\`*_proof.json\`ファイルには以下が含まれます（授業・試験モードでは同じ証明をコンパクトなバイナリ \`*_proof.tcproof\`（\`tcproof/1\`）として書き出します。検証ページと CLI はそのまま読み込めます）：
 
 \`\`\`json
 {
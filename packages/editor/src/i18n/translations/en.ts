@@ -83,6 +83,7 @@ export const en: TranslationKeys = {
     newFile: 'New File',
     newWindow: 'New Window',
     importTemplate: 'Import Template',
+    continueFromProof: 'Continue from Proof',
     toggleTerminal: 'Toggle Terminal',
     toggleLogPanel: 'Toggle Log Panel',
     togglePreview: 'Toggle Preview',
@@ -91,6 +92,8 @@ export const en: TranslationKeys = {
     download: 'Download',
     downloadAll: 'Download All (ZIP)',
     exportCurrentTab: 'Download Current Tab',
+    exportAnalysisBundle: 'Download Analysis Only (no code)',
+    exportRedactedBundle: 'Download Analysis + Unverified Redacted Events (ZIP)',
     settings: 'Settings',
     newTab: 'New Tab',
     closeTab: 'Close',
@@ -408,6 +411,13 @@ export const en: TranslationKeys = {
     statusDraining: 'Recording your keystrokes... (${count} left)',
     queueNotDrained:
       'Export cancelled because your keystrokes are still being recorded (a proof that omits them cannot be verified). Your code is untouched — please wait a few seconds and download again.',
+    redactedSuccess: 'Redacted bundle downloaded (no code or keystroke content included)',
+    redactedEventsSuccess:
+      'Redacted bundle downloaded (the redacted events are unverified metadata, and keystroke content can be recovered from them)',
+    redactedEventsConfirm:
+      'Redacted events are unverified metadata. Their types, times and lengths are not bound to the hashes, so recipients cannot check them. They also do not keep keystrokes confidential: short keystrokes can be brute-forced from the event hashes, which reveals the code. Only share them with people allowed to see the code. Export anyway?',
+    redactedVerifyFailed: 'Warning: proof verification failed (the redacted bundle records the failure)',
+    receiptIssued: 'Submission receipt received from the server at ${time} (receipt ${id})',
   },
 
   terminal: {
@@ -585,6 +595,14 @@ export const en: TranslationKeys = {
     dropHint: 'Drop a YAML file here to import',
   },
 
+  continuation: {
+    success: 'Continuing ${count} file(s) from the previous proof',
+    invalid: '${filename} did not pass verification and cannot be continued',
+    exam: '${filename} is an exam proof and cannot be continued in another session',
+    readError: 'Failed to read the proof file',
+    noProof: 'No proof found in the file',
+  },
+
   sessionRecovery: {
     title: 'Previous Session Found',
     message: 'Your previous session data has been saved. Would you like to resume?',
@@ -710,6 +728,8 @@ export const en: TranslationKeys = {
       working: 'Generating…',
       errorNoKey: 'Please enter the keyId and the private signing key (JWK).',
       errorGeneric: 'Generation failed. Please check your inputs.',
+      memoryHardPosw:
+        'Require memory-hard PoSW (Argon2id) in answers (harder to forge with GPUs; recording uses more CPU)',
     },
     result: {
       title: 'Package created',
@@ -83,6 +83,7 @@ export const ja: TranslationKeys = {
     newFile: '新規ファイル',
     newWindow: '新規ウィンドウ',
     importTemplate: 'テンプレート読込',
+    continueFromProof: 'proof から続ける',
     toggleTerminal: 'ターミナルの表示切替',
     toggleLogPanel: 'ログパネルの表示切替',
     togglePreview: 'プレビューの表示切替',
@@ -91,6 +92,8 @@ export const ja: TranslationKeys = {
     download: 'ダウンロード',
     downloadAll: 'すべてをダウンロード',
     exportCurrentTab: '現在のタブをダウンロード',
+    exportAnalysisBundle: '分析のみダウンロード（コードを含まない）',
+    exportRedactedBundle: '分析 + 伏せ字の記録（未検証）をダウンロード（ZIP）',
     settings: '設定',
     newTab: '新しいタブ',
     closeTab: '閉じる',
@@ -407,6 +410,13 @@ export const ja: TranslationKeys = {
     statusDraining: '打鍵の記録を処理しています...（残り${count}件）',
     queueNotDrained:
       '打鍵の記録が完了していないため、エクスポートを中止しました（未処理の打鍵を含む証明は検証できなくなるため）。コードはそのまま残っています。数秒待ってから、もう一度ダウンロードしてください。',
+    redactedSuccess: '伏せ字バンドルをダウンロードしました（コードと打鍵の中身は含まれません）',
+    redactedEventsSuccess:
+      '伏せ字バンドルをダウンロードしました（伏せ字の記録は未検証のメタデータで、打鍵の中身を復元できます）',
+    redactedEventsConfirm:
+      '伏せ字の記録は未検証のメタデータです。記録の種類・時刻・長さは hash に束縛されないため、受け取った側は本物か確かめられません。また打鍵の中身も秘匿しません。短い打鍵は記録の hash から総当たりで復元でき、コードの内容も分かります。コードを見せてよい相手にだけ渡してください。書き出しますか？',
+    redactedVerifyFailed: '警告: 証明の検証に失敗しました（伏せ字バンドルには検証失敗が注記されます）',
+    receiptIssued: '提出レシートを受領しました（受領時刻 ${time}、受領番号 ${id}）',
   },
 
   terminal: {
@@ -584,6 +594,14 @@ export const ja: TranslationKeys = {
     dropHint: 'YAMLファイルをここにドロップして読み込み',
   },
 
+  continuation: {
+    success: '前の proof から ${count} 件のファイルを続けます',
+    invalid: '${filename} は検証に通らないため続けられません',
+    exam: '${filename} は試験の proof のため別セッションで続けられません',
+    readError: 'proof ファイルの読み込みに失敗しました',
+    noProof: 'ファイルに proof が見つかりません',
+  },
+
   sessionRecovery: {
     title: '前回のセッションが見つかりました',
     message: '前回のセッションのデータが保存されています。続きから再開しますか？',
@@ -706,6 +724,7 @@ export const ja: TranslationKeys = {
       working: '生成中…',
       errorNoKey: 'keyId と私的署名鍵（JWK）を入力してください。',
       errorGeneric: '生成に失敗しました。入力を確認してください。',
+      memoryHardPosw: '答案の PoSW を memory-hard (Argon2id) にする（GPU での偽造が難しくなる。記録の負荷は上がる）',
     },
     result: {
       title: '生成しました',
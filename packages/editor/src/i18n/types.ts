@@ -100,6 +100,7 @@ export interface TranslationKeys {
     newFile: string;
     newWindow: string;
     importTemplate: string;
+    continueFromProof: string;
     toggleTerminal: string;
     toggleLogPanel: string;
     togglePreview: string;
@@ -108,6 +109,8 @@ export interface TranslationKeys {
     download: string;
     downloadAll: string;
     exportCurrentTab: string;
+    exportAnalysisBundle: string;
+    exportRedactedBundle: string;
     settings: string;
     newTab: string;
     closeTab: string;
@@ -415,6 +418,12 @@ export interface TranslationKeys {
     statusDraining: string;
     /** 排出できず export を中止したときの通知 (#225) */
     queueNotDrained: string;
+    redactedSuccess: string;
+    redactedEventsSuccess: string;
+    redactedEventsConfirm: string;
+    redactedVerifyFailed: string;
+    /** 提出レシート (ADR-0047) の受領通知。`${time}` = サーバ受領時刻, `${id}` = 受領番号 (payload hash の先頭 12 桁) */
+    receiptIssued: string;
   };
 
   // Terminal / Runtime
@@ -596,6 +605,15 @@ export interface TranslationKeys {
     dropHint: string;
   };
 
+  // Proof continuation (ADR-0041)
+  continuation: {
+    success: string;
+    invalid: string;
+    exam: string;
+    readError: string;
+    noProof: string;
+  };
+
   // Session recovery dialog
   sessionRecovery: {
     title: string;
@@ -711,6 +729,7 @@ export interface TranslationKeys {
       working: string;
       errorNoKey: string;
       errorGeneric: string;
+      memoryHardPosw: string;
     };
     result: {
       title: string;
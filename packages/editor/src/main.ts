@@ -166,6 +166,7 @@ import {
   hasAcceptedTerms,
   showTermsModal,
   handleTemplateImport,
+  handleContinueFromProof,
 } from './app/index.js';
 import type { WelcomeScreen } from './ui/components/WelcomeScreen.js';
 
@@ -346,6 +347,7 @@ ctx.proofExporter.setMode(ctx.mode);
 ctx.proofExporter.setPreExportBestEffort(ctx.capabilities.preExportBestEffort);
 // 提出前セルフレビュー (ADR-0022): 自分の過程を確認し任意の振り返りを残す (exam は off)。
 ctx.proofExporter.setSelfReviewEnabled(ctx.capabilities.selfReview);
+ctx.proofExporter.setBinaryProof(ctx.capabilities.binaryProof);
 
 // exam 固有のクロム (タブ追加/削除・汎用DLメニューの非表示、unify) は body.exam-mode が駆動する。
 if (ctx.examMode) {
@@ -628,6 +630,20 @@ function initializeTerminal(): void {
     }
   });
 
+  // 前の proof から続けるボタン (ADR-0041)
+  const continueProofBtn = document.getElementById('continue-proof-btn');
+  continueProofBtn?.addEventListener('click', async () => {
+    ctx.mainMenuDropdown.close();
+    if (!ctx.tabManager) return;
+
+    try {
+      await handleContinueFromProof(ctx);
+    } catch (error) {
+      console.error('[ProofContinuation] Error:', error);
+      showNotification(t('continuation.readError'));
+    }
+  });
+
   const themeToggleBtn = document.getElementById('theme-toggle-btn');
   if (themeToggleBtn) {
     const updateThemeIcon = (): void => {
@@ -935,6 +951,7 @@ async function openLegacyExamTab(
     packageHash,
     problemContentHash,
     startToken,
+    ...(manifest.hashSuite !== undefined ? { hashSuite: manifest.hashSuite } : {}),
   };
   await appCtx.tabManager?.createTab(filename, language, '', { examContext });
   appCtx.problemPanel.setProblemText(statement);
@@ -971,6 +988,8 @@ async function openBundleTabs(
       problemContentHash,
       startToken,
       rootBinding: 'v2',
+      // ADR-0044: package が指定した PoSW の suite で記録する
+      ...(manifest.hashSuite !== undefined ? { hashSuite: manifest.hashSuite } : {}),
     };
 
     const tab: TabState | null =
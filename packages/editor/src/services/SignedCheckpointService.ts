@@ -7,6 +7,8 @@
  * - 取得した envelope を TypingProof.attachSignedCheckpoint で書き戻す。
  * - オフライン/失敗時は指数バックオフで再送。
  * - 1 tab につき 1 インスタンス。`tabId` は constructor で固定。
+ * - `tsaUrl` を渡すと Workers の代わりに RFC 3161 の TSA へ checkpoint hash のタイムスタンプを
+ *   要求し、トークンを書き戻す (ADR-0049)。このモードは sessionStartToken を要らない。
  *
  * スコープ外 (将来):
  * - IndexedDB への queue 永続化。現状は in-memory + 既存の TypingProof.checkpoints
@@ -16,6 +18,7 @@
 
 import type {
   CheckpointData,
+  CheckpointSignature,
   SessionStartToken,
   SignedCheckpointEnvelope,
   SignedCheckpointInput,
@@ -23,6 +26,12 @@ import type {
 
 export interface SignedCheckpointServiceOptions {
   apiUrl: string;
+  /**
+   * RFC 3161 の TSA の URL (ADR-0049)。指定すると /api/checkpoint/sign ではなく TSA に
+   * `application/timestamp-query` を POST し、トークンを checkpoint に付ける (apiUrl は使わない)。
+   * ブラウザから直接呼ぶので、TSA (またはその前段のプロキシ) が CORS を許可している必要がある。
+   */
+  tsaUrl?: string;
   sessionId: string;
   tabId: string;
   /** 現在の typingProof から initialEventChainHash を取り出す関数 */
@@ -33,8 +42,8 @@ export interface SignedCheckpointServiceOptions {
    * 毎回引く)。sessionId が token.payload.sessionId と一致している必要がある。
    */
   getSessionStartToken: () => SessionStartToken | null;
-  /** 署名取得後、checkpoint に envelope を反映する callback */
-  attachSignature: (eventIndex: number, envelope: SignedCheckpointEnvelope) => boolean;
+  /** 署名取得後、checkpoint に envelope (TSA モードではトークン) を反映する callback */
+  attachSignature: (eventIndex: number, envelope: CheckpointSignature) => boolean;
   /** デフォルト: navigator.onLine 連動 */
   isOnline?: () => boolean;
   /** デフォルト: window.fetch */
@@ -51,6 +60,8 @@ interface QueuedEntry {
     eventIndex: number;
     chainHash: string;
     contentHash: string;
+    /** events[0..eventIndex] の Merkle 根 (ADR-0040)。導入前に保存された checkpoint には無い */
+    merkleRoot?: string;
     clientTimestamp: string;
   };
   attempts: number;
@@ -62,15 +73,17 @@ const DEFAULT_BACKOFF_MS = [1000, 2000, 4000, 8000, 16000, 30000, 60000];
 const DEFAULT_MAX_ATTEMPTS = 10;
 
 /**
- * VITE_API_URL が設定されていれば SignedCheckpointService を返す。
- * 未設定 (開発環境などで Workers が起動していない) の場合は null。
+ * VITE_API_URL か VITE_TSA_URL が設定されていれば SignedCheckpointService を返す。
+ * VITE_TSA_URL があれば TSA のタイムスタンプを使う (ADR-0049)。
+ * どちらも未設定 (開発環境などで Workers が起動していない) の場合は null。
  */
 export function createSignedCheckpointServiceIfEnabled(
-  params: Omit<SignedCheckpointServiceOptions, 'apiUrl'>
+  params: Omit<SignedCheckpointServiceOptions, 'apiUrl' | 'tsaUrl'>
 ): SignedCheckpointService | null {
   const apiUrl = import.meta.env?.VITE_API_URL;
-  if (!apiUrl) return null;
-  return new SignedCheckpointService({ apiUrl, ...params });
+  const tsaUrl = import.meta.env?.VITE_TSA_URL;
+  if (!apiUrl && !tsaUrl) return null;
+  return new SignedCheckpointService({ apiUrl: apiUrl ?? '', tsaUrl: tsaUrl || undefined, ...params });
 }
 
 /**
@@ -81,11 +94,12 @@ export function createSignedCheckpointServiceIfEnabled(
  */
 export class SignedCheckpointService {
   private readonly apiUrl: string;
+  private readonly tsaUrl: string | null;
   private readonly sessionId: string;
   private readonly tabId: string;
   private readonly getInitialEventChainHash: () => string | null;
   private readonly getSessionStartToken: () => SessionStartToken | null;
-  private readonly attachSignature: (eventIndex: number, envelope: SignedCheckpointEnvelope) => boolean;
+  private readonly attachSignature: (eventIndex: number, envelope: CheckpointSignature) => boolean;
   private readonly isOnline: () => boolean;
   private readonly fetchImpl: typeof fetch;
   private readonly backoffSchedule: number[];
@@ -132,6 +146,7 @@ export class SignedCheckpointService {
 
   constructor(options: SignedCheckpointServiceOptions) {
     this.apiUrl = options.apiUrl.replace(/\/$/, '');
+    this.tsaUrl = options.tsaUrl ?? null;
     this.sessionId = options.sessionId;
     this.tabId = options.tabId;
     this.getInitialEventChainHash = options.getInitialEventChainHash;
@@ -160,23 +175,23 @@ export class SignedCheckpointService {
 
   /**
    * 既存 (restore された) checkpoints から chain state を再構築。
-   * - signed なものは previousSignedCheckpointHash を更新
+   * - signed なものは previousSignedCheckpointHash を更新 (RFC 3161 のトークンは連鎖を持たないので見ない)
    * - unsigned なものは queue に再 enqueue (ただし対応 event hash 等の context は外から
    *   流入する形ではなく checkpoint そのものから組み立てる)
    *
    * このメソッドは tab restore 時に 1 度だけ呼ぶ。
    */
   async restore(checkpoints: readonly CheckpointData[]): Promise<void> {
+    const { hashSignedCheckpointPayload, isSignedCheckpointEnvelope } = await import('@typedcode/shared/checkpoint');
     // signed checkpoint のうち、payload.sessionId / tabId が一致するものだけ chain state に
     // 取り込む (他セッションの遺物は無視)
-    const ourSigned = checkpoints.filter(
-      (cp) =>
-        cp.signature && cp.signature.payload.sessionId === this.sessionId && cp.signature.payload.tabId === this.tabId
-    );
+    const ourSigned = checkpoints
+      .map((cp) => cp.signature)
+      .filter(isSignedCheckpointEnvelope)
+      .filter((envelope) => envelope.payload.sessionId === this.sessionId && envelope.payload.tabId === this.tabId);
 
     if (ourSigned.length > 0) {
-      const last = ourSigned[ourSigned.length - 1]!.signature!;
-      const { hashSignedCheckpointPayload } = await import('@typedcode/shared/checkpoint');
+      const last = ourSigned[ourSigned.length - 1]!;
       this.previousSignedCheckpointHash = await hashSignedCheckpointPayload(last.payload);
       this.lastCheckpointIndex = last.payload.checkpointIndex;
       this.lastEventIndex = last.payload.eventIndex;
@@ -217,8 +232,8 @@ export class SignedCheckpointService {
     const startedAt = Date.now();
     while (this.queue.size > 0 && Date.now() - startedAt < timeoutMs) {
       // 署名クレデンシャルが無い / 恒久拒否された間は進展しないので timeout まで待たない
-      // (ADR-0027 の劣化モード: 署名なしで export を続行する)。
-      if (this.tokenRejected || !this.getSessionStartToken()) break;
+      // (ADR-0027 の劣化モード: 署名なしで export を続行する)。TSA モードはトークンを使わない。
+      if (!this.tsaUrl && (this.tokenRejected || !this.getSessionStartToken())) break;
       // online であれば即時 flush を試みる
       if (this.isOnline()) {
         await this.flush();
@@ -260,6 +275,7 @@ export class SignedCheckpointService {
         eventIndex,
         chainHash: cp.hash,
         contentHash: cp.contentHash,
+        merkleRoot: cp.merkleRoot,
         clientTimestamp: new Date().toISOString(),
       },
       attempts: 0,
@@ -272,7 +288,7 @@ export class SignedCheckpointService {
   private buildInput(entry: QueuedEntry): SignedCheckpointInput | null {
     const initialHash = this.getInitialEventChainHash();
     if (!initialHash) return null;
-    return {
+    const input: SignedCheckpointInput = {
       sessionId: this.sessionId,
       tabId: this.tabId,
       checkpointIndex: this.lastCheckpointIndex + 1,
@@ -284,6 +300,8 @@ export class SignedCheckpointService {
       totalEventsSincePrevious: entry.base.eventIndex - this.lastEventIndex,
       clientTimestamp: entry.base.clientTimestamp,
     };
+    if (entry.base.merkleRoot) input.merkleRoot = entry.base.merkleRoot;
+    return input;
   }
 
   private async flush(): Promise<void> {
@@ -298,8 +316,8 @@ export class SignedCheckpointService {
       while (!this.disposed && this.queue.size > 0) {
         if (!this.isOnline()) return;
         // ADR-0027: sign は sessionStartToken 前提。token が無い間は送っても 401 なので
-        // 待機する (次の handleNewCheckpoint / retryPendingSignatures で再開)。
-        if (this.tokenRejected || !this.getSessionStartToken()) return;
+        // 待機する (次の handleNewCheckpoint / retryPendingSignatures で再開)。TSA モードは対象外。
+        if (!this.tsaUrl && (this.tokenRejected || !this.getSessionStartToken())) return;
         // 連鎖整合を保つため eventIndex の昇順で処理
         let nextEventIndex: number | null = null;
         for (const k of this.queue.keys()) {
@@ -308,7 +326,9 @@ export class SignedCheckpointService {
         if (nextEventIndex === null) return;
         const entry = this.queue.get(nextEventIndex);
         if (!entry) continue;
-        const ok = await this.signOne(nextEventIndex, entry);
+        const ok = this.tsaUrl
+          ? await this.timestampOne(this.tsaUrl, nextEventIndex, entry)
+          : await this.signOne(nextEventIndex, entry);
         if (!ok) return; // 失敗時は backoff 再試行 / online 復帰 / 次の handleNewCheckpoint に委ねる
       }
     } finally {
@@ -387,6 +407,47 @@ export class SignedCheckpointService {
     }
   }
 
+  /**
+   * ADR-0049: checkpoint hash の TimeStampReq を TSA に送り、応答のトークンを書き戻す。
+   * 応答は要求した hash と nonce に対するものかだけを見る (署名と証明書は検証器が確かめる)。
+   * トークンは ECDSA の連鎖を持たないので、chain state は更新しない。
+   */
+  private async timestampOne(tsaUrl: string, eventIndex: number, entry: QueuedEntry): Promise<boolean> {
+    if (this.disposed) return false;
+    if (!this.fetchImpl) return false;
+    entry.attempts++;
+    try {
+      const { createTimestampRequest, readTimestampResponse } = await import('@typedcode/shared/checkpoint');
+      const request = createTimestampRequest(entry.base.chainHash);
+      const res = await this.fetchImpl(tsaUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/timestamp-query' },
+        body: request.der as unknown as ArrayBuffer,
+      });
+      if (!res.ok) {
+        return this.handleFailure(eventIndex, entry, `TSA HTTP ${res.status}`);
+      }
+      const response = readTimestampResponse(new Uint8Array(await res.arrayBuffer()), {
+        hash: entry.base.chainHash,
+        nonce: request.nonce,
+      });
+      if (!response.ok) {
+        return this.handleFailure(eventIndex, entry, response.reason);
+      }
+      this.attachSignature(eventIndex, {
+        algorithm: 'RFC3161',
+        token: response.token,
+        clientTimestamp: entry.base.clientTimestamp,
+        tsaUrl,
+      });
+      // attach できなかった (checkpoint が cleanup 済み等) ときも queue から外すだけ
+      this.queue.delete(eventIndex);
+      return true;
+    } catch (err) {
+      return this.handleFailure(eventIndex, entry, err instanceof Error ? err.message : String(err));
+    }
+  }
+
   private handleFailure(eventIndex: number, entry: QueuedEntry, reason: string): boolean {
     if (entry.attempts >= this.maxAttempts) {
       console.warn(
@@ -0,0 +1,67 @@
+/**
+ * SubmissionReceiptService - アンカー API の /api/submission/receipt クライアント (ADR-0047).
+ *
+ * export 時に全タブの最終 hash を送り、サーバ署名付きの提出レシートを受け取る。
+ * レシートは best-effort: API 未設定・トークン無し・オフライン・失敗のいずれでも null を返し、
+ * export 自体は止めない (ADR-0027 の劣化モードと同じ方針)。
+ */
+
+import { parseSubmissionReceipt, type SessionStartToken, type SubmissionReceipt } from '@typedcode/shared';
+
+/** レシート要求の待ち時間上限。export の待ちを長引かせない */
+const RECEIPT_TIMEOUT_MS = 5000;
+
+export interface SubmissionReceiptRequest {
+  sessionId: string;
+  /** 署名クレデンシャル (ADR-0027)。receipt も署名 cp と同じく token 前提 */
+  sessionStartToken: SessionStartToken;
+  /** 各タブの tabId と最終 hash (同じ index が同じタブ) */
+  tabs: ReadonlyArray<{ tabId: string; finalChainHash: string; finalContentHash: string }>;
+}
+
+/** VITE_API_URL が設定され、レシートを要求できる構成か */
+export function isSubmissionReceiptConfigured(): boolean {
+  return Boolean(import.meta.env?.VITE_API_URL);
+}
+
+/**
+ * 提出レシートを要求する。取得できなければ null (理由は console.warn のみ)。
+ * 返すのはレシートの形をしたものだけで、署名の検証は verify 側が registry で行う。
+ */
+export async function requestSubmissionReceipt(
+  request: SubmissionReceiptRequest,
+  fetchImpl: typeof fetch = globalThis.fetch.bind(globalThis)
+): Promise<SubmissionReceipt | null> {
+  const apiUrl = import.meta.env?.VITE_API_URL as string | undefined;
+  if (!apiUrl || request.tabs.length === 0) return null;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), RECEIPT_TIMEOUT_MS);
+  try {
+    const response = await fetchImpl(`${apiUrl}/api/submission/receipt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId: request.sessionId,
+        tabIds: request.tabs.map((tab) => tab.tabId),
+        finalChainHashes: request.tabs.map((tab) => tab.finalChainHash),
+        finalContentHashes: request.tabs.map((tab) => tab.finalContentHash),
+        sessionStartToken: request.sessionStartToken,
+      }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.warn(`[SubmissionReceipt] receipt request failed: HTTP ${response.status}`);
+      return null;
+    }
+    const data = (await response.json()) as { receipt?: unknown };
+    const receipt = parseSubmissionReceipt(data?.receipt);
+    if (!receipt) console.warn('[SubmissionReceipt] server returned a malformed receipt');
+    return receipt;
+  } catch (error) {
+    console.warn('[SubmissionReceipt] receipt request failed:', error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -33,6 +33,11 @@ interface TurnstileOptions {
 // Environment variables (set via Vite)
 const TURNSTILE_SITE_KEY = import.meta.env.VITE_TURNSTILE_SITE_KEY as string;
 const API_URL = import.meta.env.VITE_API_URL as string;
+/**
+ * `none` のとき session/start を human check 無しで呼ぶ (human check を無効にした自前ホストの
+ * `@typedcode/anchor-server` 向け)。Turnstile のチャレンジを出さず、root アンカーと checkpoint 署名だけ使う。
+ */
+const API_HUMAN_CHECK = import.meta.env.VITE_API_HUMAN_CHECK as string | undefined;
 
 // Turnstile script loading state
 let scriptLoaded = false;
@@ -46,6 +51,19 @@ export function isTurnstileConfigured(): boolean {
   return Boolean(TURNSTILE_SITE_KEY && API_URL);
 }
 
+/** 接続先のアンカー API が human check 無しで session/start を受け付ける構成か */
+function isHumanCheckDisabled(): boolean {
+  return Boolean(API_URL) && API_HUMAN_CHECK === 'none';
+}
+
+/**
+ * session/start (root アンカー + 署名用トークン, ADR-0017/0027) を呼べる構成か。
+ * Turnstile が構成済みか、human check を無効にした自前ホストの API が設定されているとき true。
+ */
+export function isSessionStartConfigured(): boolean {
+  return isTurnstileConfigured() || isHumanCheckDisabled();
+}
+
 /** Timeout for script loading (10 seconds) */
 const SCRIPT_LOAD_TIMEOUT_MS = 10000;
 
@@ -498,9 +516,10 @@ export interface TurnstileVerificationOptions {
 /**
  * Turnstile トークンを `/api/session/start` に送り、ECDSA 署名トークンを取得する (ADR-0017)。
  * single attempt: 失敗時は呼び出し側が degraded fallback (root 未アンカー) する (ADR-0017 (b))。
+ * `turnstileToken` が null のときは送らない (human check を無効にした自前ホスト)。
  */
 async function requestSessionStart(
-  turnstileToken: string,
+  turnstileToken: string | null,
   input: { sessionId: string; fingerprintHash: string }
 ): Promise<VerificationResult> {
   if (!API_URL) {
@@ -511,7 +530,7 @@ async function requestSessionStart(
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        turnstileToken,
+        ...(turnstileToken ? { turnstileToken } : {}),
         sessionId: input.sessionId,
         fingerprintHash: input.fingerprintHash,
       }),
@@ -553,6 +572,16 @@ export async function performTurnstileVerification(
   action: string,
   options?: TurnstileVerificationOptions
 ): Promise<VerificationResult> {
+  // human check を無効にした自前ホスト: チャレンジを出さず session/start だけ呼ぶ
+  if (options?.sessionStart && isHumanCheckDisabled()) {
+    phaseCallback?.('prepare', 'done');
+    phaseCallback?.('challenge', 'done');
+    phaseCallback?.('verify', 'active');
+    const result = await requestSessionStart(null, options.sessionStart);
+    phaseCallback?.('verify', result.success ? 'done' : 'error');
+    return result;
+  }
+
   // If Turnstile is not configured, allow the action (development mode)
   if (!isTurnstileConfigured()) {
     console.log('[Turnstile] Not configured, allowing action');
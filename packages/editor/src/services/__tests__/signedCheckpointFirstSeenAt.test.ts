@@ -83,7 +83,7 @@ function createService(
     getInitialEventChainHash: () => 'a'.repeat(64),
     getSessionStartToken: options.getSessionStartToken ?? (() => makeToken()),
     attachSignature: (eventIndex, envelope) => {
-      attached.push({ eventIndex, firstSeenAt: envelope.payload.firstSeenAt });
+      attached.push({ eventIndex, firstSeenAt: (envelope as SignedCheckpointEnvelope).payload.firstSeenAt });
       return true;
     },
     isOnline: () => true,
@@ -0,0 +1,75 @@
+/**
+ * SignedCheckpointService の TSA モード (ADR-0049) のテスト。
+ *
+ * `tsaUrl` を渡すと /api/checkpoint/sign ではなく TSA に checkpoint hash の TimeStampReq を送り、
+ * 応答のトークンを checkpoint に付ける。TSA は shared の一時 TSA (fixtures/localTsa.ts) を
+ * fetch として差し込むので、ネットワークも sessionStartToken も要らない。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { SignedCheckpointService } from '../SignedCheckpointService.js';
+import { verifyTimestampToken, type CheckpointData, type CheckpointSignature } from '@typedcode/shared';
+import { createLocalTsa } from '../../../../shared/src/__tests__/fixtures/localTsa.js';
+
+function makeCheckpoint(eventIndex: number, hash: string): CheckpointData {
+  return { eventIndex, hash, timestamp: eventIndex * 1000, contentHash: 'c'.repeat(64) };
+}
+
+async function createService(fetchImpl: typeof fetch, tsaUrl: string) {
+  const attached: Array<{ eventIndex: number; signature: CheckpointSignature }> = [];
+  const service = new SignedCheckpointService({
+    apiUrl: '',
+    tsaUrl,
+    sessionId: 'session-1',
+    tabId: 'tab-1',
+    getInitialEventChainHash: () => 'a'.repeat(64),
+    getSessionStartToken: () => null,
+    attachSignature: (eventIndex, signature) => {
+      attached.push({ eventIndex, signature });
+      return true;
+    },
+    isOnline: () => true,
+    fetchImpl,
+    backoffSchedule: [10],
+    maxAttemptsPerCheckpoint: 3,
+  });
+  return { service, attached };
+}
+
+describe('SignedCheckpointService with a timestamp authority (ADR-0049)', () => {
+  it('attaches a token over the checkpoint hash without a session start token', async () => {
+    const tsa = await createLocalTsa();
+    const { service, attached } = await createService(tsa.fetch, tsa.url);
+
+    service.handleNewCheckpoint(makeCheckpoint(0, '1'.repeat(64)));
+    service.handleNewCheckpoint(makeCheckpoint(4, '2'.repeat(64)));
+    await vi.waitFor(() => expect(attached).toHaveLength(2), { timeout: 2000 });
+    await expect(service.waitForFlush(1000)).resolves.toEqual({ flushed: true, remaining: 0 });
+
+    expect(attached.map((a) => a.eventIndex)).toEqual([0, 4]);
+    expect(tsa.requests).toHaveLength(2);
+    const token = attached[1]!.signature;
+    expect(token).toMatchObject({ algorithm: 'RFC3161', tsaUrl: tsa.url });
+    if (token.algorithm !== 'RFC3161') return;
+    const result = await verifyTimestampToken(token, '2'.repeat(64), [tsa.rootPem]);
+    expect(result).toMatchObject({ valid: true, tsaName: 'Test TSA' });
+    service.dispose();
+  });
+
+  it('retries and then gives up when the TSA rejects the request', async () => {
+    const tsa = await createLocalTsa({ reject: 'unaccepted policy' });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { service, attached } = await createService(tsa.fetch, tsa.url);
+
+    service.handleNewCheckpoint(makeCheckpoint(0, '1'.repeat(64)));
+    await vi.waitFor(() => expect(service.pendingCount()).toBe(0), { timeout: 2000 });
+
+    expect(attached).toHaveLength(0);
+    expect(tsa.requests).toHaveLength(3);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('TSA rejected the request (status 2: unaccepted policy)')
+    );
+    warn.mockRestore();
+    service.dispose();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * SubmissionReceiptService (ADR-0047) のテスト。
+ *
+ * レシートは best-effort なので、失敗はすべて null になり例外を投げないこと、
+ * タブごとの最終 hash が index を揃えて送られることを固定する。
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { requestSubmissionReceipt } from '../SubmissionReceiptService.js';
+import type { SessionStartToken, SubmissionReceipt } from '@typedcode/shared';
+
+const TOKEN = { payload: { sessionId: 'session-1' }, signature: 'sig', keyId: 'k' } as unknown as SessionStartToken;
+
+const REQUEST = {
+  sessionId: 'session-1',
+  sessionStartToken: TOKEN,
+  tabs: [
+    { tabId: 'tab-1', finalChainHash: 'a'.repeat(64), finalContentHash: 'b'.repeat(64) },
+    { tabId: 'tab-2', finalChainHash: 'c'.repeat(64), finalContentHash: 'd'.repeat(64) },
+  ],
+};
+
+const RECEIPT: SubmissionReceipt = {
+  payload: {
+    version: 1,
+    sessionId: 'session-1',
+    tabIds: ['tab-1', 'tab-2'],
+    finalChainHashes: ['a'.repeat(64), 'c'.repeat(64)],
+    finalContentHashes: ['b'.repeat(64), 'd'.repeat(64)],
+    serverTime: '2026-10-19T09:00:00.000Z',
+  },
+  signature: 'ab',
+  keyId: 'k',
+  algorithm: 'ECDSA-P256',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('requestSubmissionReceipt', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns null without calling the API when VITE_API_URL is not set', async () => {
+    vi.stubEnv('VITE_API_URL', '');
+    const fetchImpl = vi.fn();
+    expect(await requestSubmissionReceipt(REQUEST, fetchImpl)).toBeNull();
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('sends index-aligned tabs with the session token and returns the receipt', async () => {
+    vi.stubEnv('VITE_API_URL', 'https://api.test');
+    const fetchImpl = vi.fn(async () => jsonResponse({ receipt: RECEIPT }));
+    expect(await requestSubmissionReceipt(REQUEST, fetchImpl)).toEqual(RECEIPT);
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.test/api/submission/receipt');
+    expect(JSON.parse(init.body as string)).toEqual({
+      sessionId: 'session-1',
+      tabIds: ['tab-1', 'tab-2'],
+      finalChainHashes: ['a'.repeat(64), 'c'.repeat(64)],
+      finalContentHashes: ['b'.repeat(64), 'd'.repeat(64)],
+      sessionStartToken: TOKEN,
+    });
+  });
+
+  it('returns null on HTTP errors, malformed receipts and network failures', async () => {
+    vi.stubEnv('VITE_API_URL', 'https://api.test');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(
+      await requestSubmissionReceipt(REQUEST, async () => jsonResponse({ code: 'TOKEN_INVALID' }, 401))
+    ).toBeNull();
+    expect(await requestSubmissionReceipt(REQUEST, async () => jsonResponse({ receipt: { payload: 1 } }))).toBeNull();
+    expect(
+      await requestSubmissionReceipt(REQUEST, async () => {
+        throw new TypeError('Failed to fetch');
+      })
+    ).toBeNull();
+  });
+});
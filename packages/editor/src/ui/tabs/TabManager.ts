@@ -25,9 +25,10 @@ import type {
   VerificationDetails,
   StoredTabData,
   ExamSessionContext,
+  ProofContinuation,
 } from '@typedcode/shared';
 import {
-  isTurnstileConfigured,
+  isSessionStartConfigured,
   performTurnstileVerification,
   type VerificationResult,
 } from '../../services/TurnstileService.js';
@@ -59,7 +60,7 @@ export interface TabState {
   createdAt: number;
   verificationState: VerificationState;
   verificationDetails?: VerificationDetails;
-  /** Workers 署名サービス (VITE_API_URL 未設定時は null) */
+  /** Workers 署名サービス (VITE_API_URL / VITE_TSA_URL が両方未設定なら null) */
   signedCheckpointService?: SignedCheckpointService | null;
 }
 
@@ -95,6 +96,12 @@ export interface CreateTabOptions {
    * (TemplateImporter の共有 attestation と同じ発想)。
    */
   sharedAttestation?: HumanAttestationEventData;
+  /**
+   * 前の proof からの継続 (ADR-0041)。指定されると root を前の proof の最終状態に束ね
+   * (`bindContinuation`)、#0 humanAttestation の直後に `sessionContinued` で前の最終内容を記録する。
+   * `content` は呼び出し側で前の proof の最終内容を渡すこと (examContext とは併用できない)。
+   */
+  continueFrom?: { continuation: ProofContinuation; content: string };
 }
 
 /** 言語IDから拡張子を取得 */
@@ -301,7 +308,12 @@ export class TabManager {
     // session/start の sessionId は署名 cp と一致させる必要があるので getCurrentSessionId() を使う
     // (verifier が token.sessionId ↔ 署名 cp sessionId の一致を要求する)。失敗時は非アンカーで継続。
     let interactiveAuth: Awaited<ReturnType<typeof performVerificationWithUI>> | null = null;
-    if (!options?.examContext && !options?.sharedAttestation && !options?.skipAttestation && isTurnstileConfigured()) {
+    if (
+      !options?.examContext &&
+      !options?.sharedAttestation &&
+      !options?.skipAttestation &&
+      isSessionStartConfigured()
+    ) {
       debugLog('[TabManager] Performing Turnstile + session/start for new tab...');
       const apiSessionId = this.sessionService.getCurrentSessionId();
       const sessionStart =
@@ -325,6 +337,10 @@ export class TabManager {
     } else {
       await typingProof.initialize(this.fingerprint!, this.fingerprintComponents!, poswWorker);
     }
+    // 継続 (ADR-0041): どの root 式でも、その上に前の proof の最終状態を束ねる。
+    if (options?.continueFrom) {
+      await typingProof.bindContinuation(options.continueFrom.continuation);
+    }
 
     // Pending Event変更コールバックを設定（即時保存用）
     typingProof.setOnPendingEventChange(() => {
@@ -372,6 +388,15 @@ export class TabManager {
       });
     }
 
+    // 継続 (ADR-0041): 前の proof の最終内容を replay の起点として記録する。
+    if (options?.continueFrom) {
+      await typingProof.recordSessionContinued(options.continueFrom.content);
+    }
+
+    // ADR-0042: 記録端末の PoSW 速度を較正して chain に焼く。検証側はこれで申告 timestamp が
+    // PoSW の逐次計算に追いつけるかを確かめる (root 未アンカーの proof の時刻の手がかり)。
+    await typingProof.recordPoswCalibration();
+
     // Monacoモデルを作成
     const model = monaco.editor.createModel(content, language);
 
@@ -418,7 +443,7 @@ export class TabManager {
 
   /**
    * Signed checkpoint service を tab に attach する共通処理。
-   * - VITE_API_URL 未設定なら null を返す
+   * - VITE_API_URL も VITE_TSA_URL も未設定なら null を返す
    * - typingProof に onCheckpointCreated hook を仕掛け、新規 checkpoint を service へ流す
    * - 既存 checkpoints (restore 時に流入) があれば restore() で chain state を復元
    */
@@ -475,6 +500,17 @@ export class TabManager {
     return null;
   }
 
+  /**
+   * 提出レシート (ADR-0047) を要求するためのクレデンシャル。現在の sessionId と、
+   * それに発行された署名クレデンシャル (findSigningToken) の組。token が無ければ null。
+   */
+  getSubmissionCredential(): { sessionId: string; sessionStartToken: SessionStartToken } | null {
+    const sessionId = this.sessionService.getCurrentSessionId();
+    const sessionStartToken = this.findSigningToken();
+    if (!sessionId || !sessionStartToken) return null;
+    return { sessionId, sessionStartToken };
+  }
+
   /**
    * exam 用の署名専用 token を非ブロッキングで取得する (ADR-0027)。
    * - UI は出さない (performTurnstileVerification を直接呼ぶ)。試験開始をブロックしない
@@ -483,7 +519,7 @@ export class TabManager {
    */
   private async acquireSigningTokenBestEffort(): Promise<void> {
     if (this.acquiringSigningToken || this.findSigningToken()) return;
-    if (!isTurnstileConfigured()) return;
+    if (!isSessionStartConfigured()) return;
     const sessionId = this.sessionService.getCurrentSessionId();
     if (!sessionId || !this.fingerprint) return;
     this.acquiringSigningToken = true;
@@ -1061,6 +1097,7 @@ export class TabManager {
         checkpoints: proofState.checkpoints,
         examContext: proofState.examContext,
         sessionStartToken: proofState.sessionStartToken,
+        continuation: proofState.continuation,
       };
       await this.sessionService.saveTab(tabData);
     }
@@ -1322,6 +1359,8 @@ export class TabManager {
         checkpoints: lightweightTab.proofState.checkpoints,
         examContext: lightweightTab.proofState.examContext,
         sessionStartToken: lightweightTab.proofState.sessionStartToken ?? null,
+        // continuation (ADR-0041) も root に焼かれているので同様に引き継ぐ。
+        continuation: lightweightTab.proofState.continuation ?? null,
       };
 
       // 4. TypingProofを復元
@@ -1446,6 +1485,7 @@ export class TabManager {
             // sessionStartToken (ADR-0017) を必ず引き継ぐ。落とすと casual/class の
             // サーバアンカーが失われ、復旧後の proof が root 不一致で検証不能になる。
             sessionStartToken: storedTab.sessionStartToken ?? null,
+            continuation: storedTab.continuation ?? null,
           },
           this.fingerprint,
           this.fingerprintComponents,
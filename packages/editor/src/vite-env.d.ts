@@ -51,6 +51,10 @@ interface ImportMetaEnv {
   // reCAPTCHA v3 configuration
   readonly VITE_RECAPTCHA_SITE_KEY?: string;
   readonly VITE_API_URL?: string;
+  /** `none`: human check を無効にした自前ホストの anchor-server に session/start を送る */
+  readonly VITE_API_HUMAN_CHECK?: string;
+  /** RFC 3161 の TSA の URL。設定すると checkpoint の時刻アンカーにタイムスタンプトークンを使う (ADR-0049) */
+  readonly VITE_TSA_URL?: string;
 }
 
 interface ImportMeta {
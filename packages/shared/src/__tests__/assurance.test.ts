@@ -18,6 +18,7 @@ function healthyInput(): AssuranceInput {
     analysis: { reviewPriority: 0, notableSignals: 0 },
     // 既定は full モード相当 (PoSW を実際に再計算した)。
     poswSkipped: false,
+    poswSampled: false,
   };
 }
 
@@ -88,6 +89,17 @@ describe('deriveAssurance — integrity (PoSW 未再計算)', () => {
   });
 });
 
+describe('deriveAssurance — integrity (PoSW 標本再計算)', () => {
+  it('reports sampled rather than proven when only an audit sample of PoSW was recomputed', () => {
+    expect(deriveAssurance({ ...healthyInput(), poswSampled: true }).integrity).toBe('sampled');
+  });
+
+  it('still fails integrity when the chain is broken in audit mode', () => {
+    const input: AssuranceInput = { ...healthyInput(), poswSampled: true, chainValid: false };
+    expect(deriveAssurance(input).integrity).toBe('failed');
+  });
+});
+
 describe('deriveAssurance — temporal', () => {
   it('reports anchored when root is server-anchored and checkpoints are dense and clean', () => {
     expect(deriveAssurance(healthyInput()).temporal).toBe('anchored');
@@ -123,6 +135,29 @@ describe('deriveAssurance — temporal', () => {
     expect(deriveAssurance(input).temporal).toBe('unanchored');
   });
 
+  it('reports posw-bounded for an offline proof whose timestamps match the calibrated PoSW (ADR-0042)', () => {
+    const offline: AssuranceInput = { ...healthyInput(), rootAnchored: false, signedCheckpoints: undefined };
+    expect(deriveAssurance({ ...offline, poswTiming: 'consistent' }).temporal).toBe('posw-bounded');
+    // PoSW を全件再計算していない (標本だけ / スキップ) / 較正が無い / 速度が信じられないときは上げない
+    expect(deriveAssurance({ ...offline, poswTiming: 'consistent', poswSampled: true }).temporal).toBe('unanchored');
+    expect(deriveAssurance({ ...offline, poswTiming: 'consistent', poswSkipped: true }).temporal).toBe('unanchored');
+    expect(deriveAssurance({ ...offline, poswTiming: 'uncalibrated' }).temporal).toBe('unanchored');
+    expect(deriveAssurance({ ...offline, poswTiming: 'implausible' }).temporal).toBe('unanchored');
+    // サーバ証拠があればそちらが優先する
+    expect(deriveAssurance({ ...healthyInput(), poswTiming: 'inconsistent' }).temporal).toBe('anchored');
+  });
+
+  it('flags an offline proof whose timestamps contradict its own calibrated PoSW (ADR-0042)', () => {
+    const offline: AssuranceInput = { ...healthyInput(), rootAnchored: false, signedCheckpoints: undefined };
+    expect(deriveAssurance({ ...offline, poswTiming: 'inconsistent' }).temporal).toBe('posw-inconsistent');
+    // 申告どうしの矛盾なので、PoSW を再計算していなくても出す
+    expect(deriveAssurance({ ...offline, poswTiming: 'inconsistent', poswSkipped: true }).temporal).toBe(
+      'posw-inconsistent'
+    );
+    // 改ざんが見つかった proof は integrity が failed を出すので、時刻の信号は足さない
+    expect(deriveAssurance({ ...offline, poswTiming: 'inconsistent', chainValid: false }).temporal).toBe('unanchored');
+  });
+
   it('does not count an invalid checkpoint chain as time evidence', () => {
     const input: AssuranceInput = {
       ...healthyInput(),
@@ -0,0 +1,143 @@
+/**
+ * proof のバイナリ符号化 (`tcproof/1`、ADR-0038)。
+ *
+ * 復号した値が JSON を経由した値とキーの順序まで一致すること (= 同じ proof を JSON で出しても
+ * バイナリで出しても検証器には区別が付かない) と、壊れた入力を黙って読まないことを固定する。
+ */
+
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import {
+  computeHash,
+  extractAllProofsFromZip,
+  TypingProof,
+  verifyChain,
+  type FingerprintComponents,
+} from '../index.js';
+import { decodeBinaryProof, encodeBinaryProof, isBinaryProof } from '../fileProcessing/binaryProof.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (BinaryProof Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+async function exportSample(text: string) {
+  const proof = new TypingProof();
+  await proof.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+  let content = '';
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  await proof.recordEvent({ type: 'cursorPositionChange', data: { lineNumber: 1, column: content.length + 1 } });
+  return { ...(await proof.exportProof(content)), content, language: 'c' };
+}
+
+function viaJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('encodeBinaryProof / decodeBinaryProof', () => {
+  it('round-trips an exported proof to the same JSON, key order included, and the chain still verifies', async () => {
+    const exported = await exportSample('int main(void) { return 0; }\n');
+    const bytes = encodeBinaryProof(exported);
+    const decoded = decodeBinaryProof(bytes) as typeof exported;
+
+    expect(isBinaryProof(bytes)).toBe(true);
+    expect(JSON.stringify(decoded)).toBe(JSON.stringify(exported));
+    expect(bytes.length).toBeLessThan(JSON.stringify(exported).length / 2);
+    // PoSW はテスト用の mock なので fast モード (hash 鎖・sequence・timestamp) で確かめる
+    await expect(verifyChain(decoded.proof.events, undefined, { skipPosw: true })).resolves.toMatchObject({
+      valid: true,
+    });
+  });
+
+  it('follows JSON semantics for undefined, non-finite numbers, -0 and toJSON', () => {
+    const value = {
+      a: undefined,
+      b: [undefined, Number.NaN, -0, 1.5, -7, 2 ** 60],
+      c: new Date('2026-06-06T00:00:00Z'),
+      d: { e: null, f: false },
+    };
+    const decoded = decodeBinaryProof(encodeBinaryProof(value));
+    expect(decoded).toEqual(viaJson(value));
+    expect(Object.is((decoded as { b: number[] }).b[2], 0)).toBe(true);
+  });
+
+  it('keeps lone surrogates, non-ASCII text, hex-looking strings and an own __proto__ key intact', () => {
+    const value = JSON.parse(
+      '{"s":"\\ud83d","t":"日本語 😀","u":"ABCDEF0123456789","v":"0123456789abcdef","__proto__":{"x":1}}'
+    );
+    const decoded = decodeBinaryProof(encodeBinaryProof(value)) as Record<string, unknown>;
+    expect(JSON.stringify(decoded)).toBe(JSON.stringify(value));
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+  });
+
+  it('uses the previous element as context for repeats, deltas and the previous hash', () => {
+    const events = Array.from({ length: 50 }, (_, i) => ({
+      sequence: i,
+      timestamp: 1000 + i * 137,
+      type: 'contentChange',
+      previousHash: i === 0 ? null : (i - 1).toString(16).padStart(64, '0'),
+      hash: i.toString(16).padStart(64, '0'),
+    }));
+    const bytes = encodeBinaryProof(events);
+    expect(decodeBinaryProof(bytes)).toEqual(events);
+    // 2 件目以降は hash の 34 バイト + 10 バイト未満 (shape・差分・繰り返し・previousHash の参照)
+    expect(bytes.length).toBeLessThan(50 * 44 + 100);
+  });
+
+  it('rejects other data, other versions, truncation and trailing bytes', () => {
+    const bytes = encodeBinaryProof({ proof: { events: [1, 2, 3] } });
+    expect(() => decodeBinaryProof(new TextEncoder().encode('{"proof":{}}'))).toThrow('TCPB');
+    expect(() => decodeBinaryProof(Uint8Array.of(...bytes.subarray(0, 4), 2, ...bytes.subarray(5)))).toThrow(
+      'version 2'
+    );
+    expect(() => decodeBinaryProof(bytes.subarray(0, bytes.length - 1))).toThrow('unexpected end');
+    expect(() => decodeBinaryProof(Uint8Array.of(...bytes, 0))).toThrow('trailing');
+  });
+});
+
+describe('extractAllProofsFromZip with .tcproof tabs', () => {
+  it('reads binary and JSON tabs alike, and refuses a corrupt binary tab instead of skipping it', async () => {
+    const exported = await exportSample('x');
+    const zip = new JSZip();
+    zip.file('a_proof.json', JSON.stringify(exported));
+    zip.file('b_proof.tcproof', encodeBinaryProof(exported));
+    const proofs = await extractAllProofsFromZip(await zip.generateAsync({ type: 'arraybuffer' }));
+    expect(proofs.map((p) => p.filename)).toEqual(['a_proof.json', 'b_proof.tcproof']);
+    expect(proofs[1]!.proof).toEqual(proofs[0]!.proof);
+
+    zip.file('b_proof.tcproof', encodeBinaryProof(exported).subarray(0, 40));
+    await expect(extractAllProofsFromZip(await zip.generateAsync({ type: 'arraybuffer' }))).rejects.toThrow(
+      'Invalid binary proof in b_proof.tcproof'
+    );
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * 署名鍵の key set (ADR-0048) のテスト。
+ *
+ * - verifyCheckpointKeySetChain: 組み込み registry からの裏書きの連鎖、append-only、緩めの拒否
+ * - 組み込み registry との重ね合わせ (同じ鍵は厳しい方、足した鍵は裏書きした鍵の失効を引き継ぐ)
+ * - selectSigningKeyId: 重なった有効期間での予定した切り替え
+ * - parseCheckpointKeySetChain: API 応答 / キャッシュの形の検査
+ *
+ * テスト鍵はファイル内で都度生成し、registry 引数でだけ注入する (グローバル registry に触れない)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  createCheckpointKeySetPayload,
+  endorseCheckpointKeySet,
+  parseCheckpointKeySetChain,
+  selectSigningKeyId,
+  verifyCheckpointKeySetChain,
+  type CheckpointPublicKey,
+  type SignedCheckpointKeySet,
+} from '../index.js';
+import { createTestKey, type TestKey } from './fixtures/signedCheckpointFixtures.js';
+
+let rootKey: TestKey;
+let nextKey: TestKey;
+let thirdKey: TestKey;
+let baseRegistry: CheckpointPublicKey[];
+
+beforeAll(async () => {
+  rootKey = await createTestKey({ keyId: 'tcp-root', validFrom: '2026-01-01T00:00:00.000Z' });
+  nextKey = await createTestKey({ keyId: 'tcp-next', validFrom: '2026-11-01T00:00:00.000Z' });
+  thirdKey = await createTestKey({ keyId: 'tcp-third', validFrom: '2027-05-01T00:00:00.000Z' });
+  baseRegistry = [rootKey.registryEntry];
+});
+
+function signerOf(key: TestKey) {
+  return { keyId: key.keyId, privateKey: key.privateKey };
+}
+
+/** root が next を足し (予定した有効化)、next が third を足して root を退役させる 2 段の連鎖 */
+async function twoStepChain(): Promise<SignedCheckpointKeySet[]> {
+  const first = await endorseCheckpointKeySet(
+    await createCheckpointKeySetPayload(null, [nextKey.registryEntry], '2026-10-01T00:00:00.000Z'),
+    [signerOf(rootKey), signerOf(nextKey)]
+  );
+  const second = await endorseCheckpointKeySet(
+    await createCheckpointKeySetPayload(
+      first,
+      [
+        { ...rootKey.registryEntry, validUntil: '2026-12-01T00:00:00.000Z' },
+        nextKey.registryEntry,
+        thirdKey.registryEntry,
+      ],
+      '2026-12-15T00:00:00.000Z'
+    ),
+    [signerOf(nextKey)]
+  );
+  return [first, second];
+}
+
+describe('verifyCheckpointKeySetChain', () => {
+  it('trusts keys endorsed along the chain and applies scheduled retirement', async () => {
+    const chain = parseCheckpointKeySetChain(JSON.parse(JSON.stringify({ chain: await twoStepChain() })))!;
+    const result = await verifyCheckpointKeySetChain(chain, baseRegistry);
+    expect(result.valid).toBe(true);
+    expect(result.sequence).toBe(1);
+    expect(result.addedKeyIds).toEqual(['tcp-next', 'tcp-third']);
+    expect(result.registry.map((k) => k.keyId)).toEqual(['tcp-root', 'tcp-next', 'tcp-third']);
+    expect(result.registry[0]!.validUntil).toBe('2026-12-01T00:00:00.000Z');
+  });
+
+  it('treats an empty chain as the built-in registry', async () => {
+    expect(await verifyCheckpointKeySetChain([], baseRegistry)).toEqual({
+      valid: true,
+      sequence: null,
+      registry: baseRegistry,
+      addedKeyIds: [],
+    });
+  });
+
+  it('rejects key sets not endorsed by a key trusted at issuedAt', async () => {
+    const selfSigned = await endorseCheckpointKeySet(
+      await createCheckpointKeySetPayload(null, [nextKey.registryEntry], '2026-10-01T00:00:00.000Z'),
+      [signerOf(nextKey)]
+    );
+    const result = await verifyCheckpointKeySetChain([selfSigned], baseRegistry);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('key set 0 is not endorsed by a key that was trusted at issuedAt');
+    expect(result.registry).toEqual(baseRegistry);
+
+    // next は 2026-11-01 からなので、それより前の発行を裏書きできない。
+    const [first] = await twoStepChain();
+    const early = await endorseCheckpointKeySet(
+      await createCheckpointKeySetPayload(first!, first!.payload.keys, '2026-10-15T00:00:00.000Z'),
+      [signerOf(nextKey)]
+    );
+    expect((await verifyCheckpointKeySetChain([first!, early], baseRegistry)).reason).toBe(
+      'key set 1 is not endorsed by a key that was trusted at issuedAt'
+    );
+  });
+
+  it('rejects tampered, reordered or unlinked key sets', async () => {
+    const [first, second] = await twoStepChain();
+    const tampered: SignedCheckpointKeySet = {
+      ...first!,
+      payload: { ...first!.payload, issuedAt: '2026-10-02T00:00:00.000Z' },
+    };
+    expect((await verifyCheckpointKeySetChain([tampered], baseRegistry)).reason).toBe(
+      'key set 0 endorsement by tcp-root is invalid'
+    );
+    expect((await verifyCheckpointKeySetChain([second!], baseRegistry)).reason).toBe('key set 0 has sequence 1');
+    expect((await verifyCheckpointKeySetChain([second!, first!], baseRegistry)).reason).toBe(
+      'key set 0 has sequence 1'
+    );
+  });
+
+  it('rejects dropping or loosening keys between key sets', async () => {
+    const [first, second] = await twoStepChain();
+    const cases: Array<[CheckpointPublicKey[], string]> = [
+      [second!.payload.keys.filter((k) => k.keyId !== 'tcp-third'), 'key set 2 drops key tcp-third'],
+      [
+        second!.payload.keys.map((k) => (k.keyId === 'tcp-root' ? { ...k, validUntil: undefined } : k)),
+        'key set 2: key tcp-root validUntil was extended',
+      ],
+      [
+        second!.payload.keys.map((k) =>
+          k.keyId === 'tcp-third' ? { ...k, validFrom: '2027-01-01T00:00:00.000Z' } : k
+        ),
+        'key set 2: key tcp-third validFrom changed',
+      ],
+    ];
+    for (const [keys, reason] of cases) {
+      const third = await endorseCheckpointKeySet(
+        await createCheckpointKeySetPayload(second!, keys, '2026-12-20T00:00:00.000Z'),
+        [signerOf(nextKey)]
+      );
+      expect((await verifyCheckpointKeySetChain([first!, second!, third], baseRegistry)).reason).toBe(reason);
+    }
+  });
+
+  it('rejects a key set that redefines a built-in keyId', async () => {
+    const impostor = { ...nextKey.registryEntry, keyId: 'tcp-root' };
+    const set = await endorseCheckpointKeySet(
+      await createCheckpointKeySetPayload(null, [impostor], '2026-10-01T00:00:00.000Z'),
+      [signerOf(rootKey)]
+    );
+    expect((await verifyCheckpointKeySetChain([set], baseRegistry)).reason).toBe(
+      'key set 0: key tcp-root conflicts with the built-in registry'
+    );
+  });
+
+  it('keeps the stricter entry when the built-in registry revokes a key later', async () => {
+    const revokedBase: CheckpointPublicKey[] = [
+      { ...rootKey.registryEntry, status: 'revoked', revokedAt: '2026-12-10T00:00:00.000Z' },
+    ];
+    const [first] = await twoStepChain();
+    const result = await verifyCheckpointKeySetChain([first!], revokedBase);
+    expect(result.valid).toBe(true);
+    expect(result.registry[0]).toMatchObject({ status: 'revoked', revokedAt: '2026-12-10T00:00:00.000Z' });
+    // root だけが裏書きした next は root の失効を引き継ぐ
+    expect(result.registry[1]).toMatchObject({ keyId: 'tcp-next', revokedAt: '2026-12-10T00:00:00.000Z' });
+  });
+
+  it('limits keys added by a revoked key to before its revocation, even with a backdated issuedAt', async () => {
+    const revokedBase: CheckpointPublicKey[] = [
+      { ...rootKey.registryEntry, status: 'revoked', revokedAt: '2026-12-10T00:00:00.000Z' },
+    ];
+    // 漏れた root で、失効より前の issuedAt を名乗る分岐の key set を作り、いつでも使える鍵を足す
+    const forged = await createTestKey({ keyId: 'tcp-forged', validFrom: '2026-01-01T00:00:00.000Z' });
+    const fork = await endorseCheckpointKeySet(
+      await createCheckpointKeySetPayload(null, [forged.registryEntry], '2026-12-01T00:00:00.000Z'),
+      [signerOf(rootKey)]
+    );
+    // 偽の鍵がさらに足した鍵も、同じ失効を引き継ぐ
+    const onward = await endorseCheckpointKeySet(
+      await createCheckpointKeySetPayload(
+        fork,
+        [forged.registryEntry, thirdKey.registryEntry],
+        '2026-12-05T00:00:00.000Z'
+      ),
+      [signerOf(forged)]
+    );
+    const result = await verifyCheckpointKeySetChain([fork, onward], revokedBase);
+    expect(result.valid).toBe(true);
+    expect(result.registry.slice(1)).toEqual([
+      { ...forged.registryEntry, status: 'revoked', revokedAt: '2026-12-10T00:00:00.000Z' },
+      { ...thirdKey.registryEntry, status: 'revoked', revokedAt: '2026-12-10T00:00:00.000Z' },
+    ]);
+    expect(selectSigningKeyId(result.registry, ['tcp-forged'], new Date('2026-12-09T00:00:00.000Z'))).toBe(
+      'tcp-forged'
+    );
+    expect(selectSigningKeyId(result.registry, ['tcp-forged'], new Date('2027-01-01T00:00:00.000Z'))).toBeNull();
+
+    // 失効していない鍵も裏書きしていれば、引き継ぐ失効は無い
+    const coSigned = await endorseCheckpointKeySet(fork.payload, [signerOf(rootKey), signerOf(nextKey)]);
+    const withNext = await verifyCheckpointKeySetChain([coSigned], [...revokedBase, nextKey.registryEntry]);
+    expect(withNext.registry.find((k) => k.keyId === 'tcp-forged')).toEqual(forged.registryEntry);
+  });
+});
+
+describe('selectSigningKeyId', () => {
+  it('switches to the newest key once its validFrom passes and drops retired keys', async () => {
+    const { registry } = await verifyCheckpointKeySetChain(await twoStepChain(), baseRegistry);
+    const configured = ['tcp-root', 'tcp-next', 'tcp-third'];
+    expect(selectSigningKeyId(registry, configured, new Date('2026-10-20T00:00:00.000Z'))).toBe('tcp-root');
+    expect(selectSigningKeyId(registry, configured, new Date('2026-11-15T00:00:00.000Z'))).toBe('tcp-next');
+    expect(selectSigningKeyId(registry, configured, new Date('2027-06-01T00:00:00.000Z'))).toBe('tcp-third');
+    expect(selectSigningKeyId(registry, ['tcp-root'], new Date('2026-12-02T00:00:00.000Z'))).toBeNull();
+    expect(selectSigningKeyId(registry, ['tcp-unknown'], new Date('2026-10-20T00:00:00.000Z'))).toBeNull();
+  });
+});
+
+describe('parseCheckpointKeySetChain', () => {
+  it('accepts the API response or a bare chain and rejects other shapes', async () => {
+    const chain = JSON.parse(JSON.stringify(await twoStepChain()));
+    expect(parseCheckpointKeySetChain(chain)).toHaveLength(2);
+    expect(parseCheckpointKeySetChain({ chain, cacheTtlSec: 3600 })).toHaveLength(2);
+    expect(parseCheckpointKeySetChain({ chain: [{ payload: {} }] })).toBeNull();
+    expect(parseCheckpointKeySetChain('chain')).toBeNull();
+  });
+});
@@ -6,7 +6,7 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { computeCohortBaseline, positionInCohort, COHORT_MIN_N } from '../analysis/cohort.js';
+import { computeCohortBaseline, positionInCohort, deviationFromMedian, COHORT_MIN_N } from '../analysis/cohort.js';
 import type { AnalysisBundle } from '../analysis/bundle.js';
 import type { ProcessSummary } from '../processSummary.js';
 import type { AnalysisReport, AnalysisDimension, AnalysisSeverity } from '../analysis/types.js';
@@ -169,3 +169,31 @@ describe('positionInCohort', () => {
     expect(pos.dimensions['automation']!.baseRate).toBe(0); // base コホートは automation を出していない
   });
 });
+
+describe('deviationFromMedian', () => {
+  const cohort = [100, 200, 300, 400, 500, 600, 700, 800, 900].map((d) =>
+    bundle(summary({ durationMs: d * 1000 }), report(0))
+  );
+  const base = computeCohortBaseline(cohort);
+
+  it('is zero for a submission sitting on every median', () => {
+    const dev = deviationFromMedian(positionInCohort(bundle(summary({ durationMs: 500000 }), report(0)), base), base);
+    expect(dev.score).toBe(0);
+  });
+
+  it('measures the largest IQR-scaled distance from the median and names its metric', () => {
+    // median=500k, iqr=400k → |1500k-500k|/400k = 2.5
+    const dev = deviationFromMedian(positionInCohort(bundle(summary({ durationMs: 1500000 }), report(0)), base), base);
+    expect(dev.score).toBeCloseTo(2.5);
+    expect(dev.metric).toBe('durationMs');
+  });
+
+  it('ignores metrics with zero IQR (no scale to compare against)', () => {
+    const flat = computeCohortBaseline(
+      Array.from({ length: 6 }, () => bundle(summary({ focusLossCount: 0 }), report(0)))
+    );
+    const dev = deviationFromMedian(positionInCohort(bundle(summary({ focusLossCount: 9 }), report(0)), flat), flat);
+    expect(dev.score).toBe(0);
+    expect(dev.metric).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * 提出物間類似 (ADR-0035) のテスト。
+ *
+ * 同じ答えの打ち直しを変数名の付け替え越しに拾うこと、独立に書いたコードや課題の雛形では
+ * 出さないこと、証拠が両側の event を指すこと、構築順序の違いが score に効くことを固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { crossSubmissionSimilarityAnalyzer } from '../analysis/analyzers/crossSubmissionSimilarityAnalyzer.js';
+import { COHORT_ANALYSIS_SCHEMA, runCohortAnalysis } from '../analysis/orchestrator.js';
+import type { CohortAnalysisMember, CohortAnalyzer } from '../analysis/types.js';
+import type { StoredEvent } from '../types/proof.js';
+
+function event(type: string, rangeOffset: number, data: string): StoredEvent {
+  return {
+    type,
+    inputType: 'insertText',
+    data,
+    rangeOffset,
+    rangeLength: 0,
+  } as unknown as StoredEvent;
+}
+
+/** 各チャンクを (末尾ではなく) 指定位置へ 1 行ずつ打つ proof。template は先頭に雛形を注入する。 */
+function member(label: string, lines: readonly string[], options: { template?: string; order?: number[] } = {}) {
+  const events: StoredEvent[] = [];
+  let content = '';
+  if (options.template) {
+    events.push(event('templateInjection', 0, options.template));
+    content = options.template;
+  }
+  const placed: number[] = [];
+  for (const index of options.order ?? lines.map((_, i) => i)) {
+    // 先に置いた行のうち index より前のものの後ろへ挿入する (順不同に組み立てた軌跡)。
+    const before = placed.filter((p) => p < index).length;
+    let offset = options.template?.length ?? 0;
+    const sorted = [...placed].sort((x, y) => x - y);
+    for (let k = 0; k < before; k++) offset += lines[sorted[k]!]!.length + 1;
+    const text = `${lines[index]}\n`;
+    events.push(event('contentChange', offset, text));
+    content = content.slice(0, offset) + text + content.slice(offset);
+    placed.push(index);
+  }
+  return { label, proof: { proof: { events }, content } } as unknown as CohortAnalysisMember;
+}
+
+const SOLUTION = [
+  'def merge_intervals(intervals):',
+  '    intervals.sort(key=lambda iv: iv[0])',
+  '    merged = [intervals[0]]',
+  '    for start, end in intervals[1:]:',
+  '        last = merged[-1]',
+  '        if start <= last[1]:',
+  '            last[1] = max(last[1], end)',
+  '        else:',
+  '            merged.append([start, end])',
+  '    return merged',
+  'def total_covered(intervals):',
+  '    return sum(hi - lo for lo, hi in merge_intervals(intervals))',
+];
+
+const RENAMED = SOLUTION.map((line) =>
+  line
+    .replace(/merged/g, 'result')
+    .replace(/intervals/g, 'spans')
+    .replace(/last/g, 'prev')
+);
+
+const OTHER = [
+  '#include <stdio.h>',
+  'int main(void) {',
+  '    int n, total = 0;',
+  '    scanf("%d", &n);',
+  '    while (n > 0) {',
+  '        total += n % 10;',
+  '        n /= 10;',
+  '    }',
+  '    printf("%d\\n", total);',
+  '    return 0;',
+  '}',
+];
+
+describe('crossSubmissionSimilarityAnalyzer', () => {
+  it('flags the same answer typed twice even with renamed identifiers, with evidence on both sides', async () => {
+    const signals = await crossSubmissionSimilarityAnalyzer.analyze([member('a', SOLUTION), member('b', RENAMED)]);
+    expect(signals).toHaveLength(1);
+    const [signal] = signals;
+    expect(signal).toMatchObject({ a: 'a', b: 'b', dimension: 'cross-submission-similarity', severity: 'notice' });
+    expect(signal!.summaryParams?.similarity).toBe(100);
+    expect(signal!.summaryParams?.order).toBe(100);
+    expect(signal!.evidenceA.length).toBeGreaterThan(0);
+    expect(signal!.evidenceB.length).toBeGreaterThan(0);
+    expect(signal!.evidenceB.every((e) => e.fromEventIndex < RENAMED.length)).toBe(true);
+  });
+
+  it('stays silent on independently written code', async () => {
+    const signals = await crossSubmissionSimilarityAnalyzer.analyze([member('a', SOLUTION), member('c', OTHER)]);
+    expect(signals).toEqual([]);
+  });
+
+  it('does not count a shared assignment template as similarity', async () => {
+    const template = `${SOLUTION.join('\n')}\n`;
+    const signals = await crossSubmissionSimilarityAnalyzer.analyze([
+      member('a', ['print(total_covered([[1, 3], [2, 6]]))'], { template }),
+      member('b', ['x = input()'], { template }),
+    ]);
+    expect(signals).toEqual([]);
+  });
+
+  it('scores a different construction order lower than the same order', async () => {
+    const reversed = SOLUTION.map((_, i) => SOLUTION.length - 1 - i);
+    const [same] = await crossSubmissionSimilarityAnalyzer.analyze([member('a', SOLUTION), member('b', RENAMED)]);
+    const [shuffled] = await crossSubmissionSimilarityAnalyzer.analyze([
+      member('a', SOLUTION),
+      member('b', RENAMED, { order: reversed }),
+    ]);
+    expect(shuffled!.summaryParams?.similarity).toBe(100);
+    expect(shuffled!.summaryParams?.order as number).toBeLessThan(50);
+    expect(shuffled!.score).toBeLessThan(same!.score);
+  });
+
+  it('reports unusual identifiers shared only by the pair once the cohort is large enough to judge rarity', async () => {
+    const quirky = [
+      'frobnicate_count = 0',
+      'zebra_offset = 3',
+      'def quuxify(v):',
+      '    return v * zebra_offset + frobnicate_count',
+    ];
+    const a = member('a', [...OTHER, ...quirky.map((l) => `// ${l}`), ...quirky]);
+    const b = member('b', [...quirky, 'print(quuxify(4))', 'for i in range(10): print(i * i, i + 1, i - 1)']);
+    const signals = await crossSubmissionSimilarityAnalyzer.analyze([a, b, member('c', SOLUTION)]);
+    const pair = signals.find((s) => s.a === 'a' && s.b === 'b');
+    expect(pair?.summaryParams?.identifiers).toBe(3);
+    expect(pair?.evidenceA.filter((e) => e.note?.startsWith('identifier'))).toHaveLength(3);
+
+    const twoOnly = await crossSubmissionSimilarityAnalyzer.analyze([a, b]);
+    expect(twoOnly).toEqual([]);
+  });
+});
+
+describe('runCohortAnalysis', () => {
+  it('orders pairs by score, records versions and survives a failing analyzer', async () => {
+    const failing: CohortAnalyzer = {
+      id: 'broken',
+      version: '0.0.1',
+      analyze() {
+        throw new Error('boom');
+      },
+    };
+    const report = await runCohortAnalysis(
+      [member('a', SOLUTION), member('b', RENAMED), member('c', SOLUTION, { order: [...SOLUTION.keys()].reverse() })],
+      [crossSubmissionSimilarityAnalyzer, failing]
+    );
+    expect(report.schema).toBe(COHORT_ANALYSIS_SCHEMA);
+    expect(report.members).toEqual(['a', 'b', 'c']);
+    expect(report.analyzerVersions).toEqual({ 'cross-submission-similarity': '0.1.0', broken: '0.0.1' });
+    expect(report.signals.map((s) => `${s.a}-${s.b}`)).toEqual(['a-b', 'a-c', 'b-c']);
+    expect(report.signals[0]!.score).toBeGreaterThanOrEqual(report.signals[1]!.score);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * events の Merkle 根と区間の選択的開示 (ADR-0040)
+ *
+ * - `MerkleAccumulator` の根は RFC 6962 の定義 (再帰) と一致し、範囲証明は任意の区間で往復する。
+ * - `TypingProof` の checkpoint は events[0..eventIndex] の根を持ち、proof 検証がそれを照合する。
+ * - 開示物は区間の events だけで検証でき、区間の改ざん・他の根へのすり替え・署名の不一致を弾く。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すため、chain は PoSW を省いて検証する
+ * (verifyChainModes.test.ts と同じ理由)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  MerkleAccumulator,
+  TypingProof,
+  computeHash,
+  computeMerkleRangeRoot,
+  computeMerkleRoot,
+  createEventRangeDisclosure,
+  createMerkleRangeProof,
+  merkleLeafHash,
+  merkleNodeHash,
+  verifyEventRangeDisclosure,
+  verifyProofFile,
+  verifySignedCheckpoints,
+  type FingerprintComponents,
+  type MigratedProof,
+  type SignedCheckpointEnvelope,
+} from '../index.js';
+import { buildSignedCheckpoints, createTestKey, type TestKey } from './fixtures/signedCheckpointFixtures.js';
+
+const createMockFingerprintComponents = (): FingerprintComponents => ({
+  userAgent: 'Mozilla/5.0 (Event Disclosure Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+});
+
+/** RFC 6962 の Merkle Tree Hash をそのまま再帰で書いたもの (比較用) */
+async function referenceRoot(leaves: string[]): Promise<string> {
+  if (leaves.length === 1) return merkleLeafHash(leaves[0]!);
+  let k = 1;
+  while (k * 2 < leaves.length) k *= 2;
+  return merkleNodeHash(await referenceRoot(leaves.slice(0, k)), await referenceRoot(leaves.slice(k)));
+}
+
+/** 12 文字を打った proof。maxEventsPerCheckpoint を下げる代わりに export 時の最終 cp を使う */
+async function buildProof(text = 'int x = 42;\n'): Promise<MigratedProof> {
+  const components = createMockFingerprintComponents();
+  const fingerprintHash = await computeHash(JSON.stringify(components, null, 0));
+  const proof = new TypingProof();
+  await proof.initialize(fingerprintHash, components);
+
+  let content = '';
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  return { ...(await proof.exportProof(content)), content, language: 'c' };
+}
+
+const leaves = Array.from({ length: 9 }, (_, i) => `leaf-${i}`);
+
+describe('Merkle tree', () => {
+  it('accumulates the same root as the RFC 6962 recursive definition', async () => {
+    const accumulator = new MerkleAccumulator();
+    expect(await accumulator.root()).toBeNull();
+    for (let n = 1; n <= leaves.length; n++) {
+      await accumulator.append(leaves[n - 1]!);
+      expect(await accumulator.root()).toBe(await referenceRoot(leaves.slice(0, n)));
+    }
+    expect(await computeMerkleRoot(leaves)).toBe(await referenceRoot(leaves));
+  });
+
+  it('round-trips a range proof for every range of every tree size', async () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const root = await computeMerkleRoot(leaves.slice(0, size));
+      for (let first = 0; first < size; first++) {
+        for (let last = first; last < size; last++) {
+          const proof = await createMerkleRangeProof(leaves, size, first, last);
+          expect(await computeMerkleRangeRoot(proof, leaves.slice(first, last + 1))).toBe(root);
+        }
+      }
+    }
+  });
+
+  it('does not reproduce the root from a changed leaf or a padded proof', async () => {
+    const root = await computeMerkleRoot(leaves);
+    const proof = await createMerkleRangeProof(leaves, leaves.length, 3, 4);
+
+    expect(await computeMerkleRangeRoot(proof, ['leaf-3', 'leaf-X'])).not.toBe(root);
+    expect(await computeMerkleRangeRoot({ ...proof, siblings: [...proof.siblings, root!] }, leaves.slice(3, 5))).toBe(
+      null
+    );
+    expect(await computeMerkleRangeRoot({ ...proof, last: 5 }, leaves.slice(3, 5))).toBeNull();
+  });
+});
+
+describe('checkpoint Merkle roots', () => {
+  let proof: MigratedProof;
+
+  beforeAll(async () => {
+    proof = await buildProof();
+  });
+
+  it('commits each checkpoint to the root of the events up to it', async () => {
+    const hashes = proof.proof.events.map((e) => e.hash);
+    expect(proof.checkpoints.length).toBeGreaterThan(0);
+    for (const cp of proof.checkpoints) {
+      expect(cp.merkleRoot).toBe(await computeMerkleRoot(hashes.slice(0, cp.eventIndex + 1)));
+    }
+    expect((await verifyProofFile(proof, undefined, { mode: 'fast' })).valid).toBe(true);
+  });
+
+  it('fails checkpoint verification when a Merkle root is rewritten', async () => {
+    const checkpoints = proof.checkpoints.map((cp) => ({ ...cp, merkleRoot: '0'.repeat(64) }));
+    const result = await verifyProofFile({ ...proof, checkpoints }, undefined, { mode: 'fast' });
+
+    expect(result.checkpointValid).toBe(false);
+    expect(result.errorMessage).toMatch(/^Checkpoint Merkle root mismatch at event \d+$/);
+  });
+});
+
+describe('event range disclosure', () => {
+  let key: TestKey;
+  let proof: MigratedProof;
+  let signed: MigratedProof;
+
+  beforeAll(async () => {
+    key = await createTestKey();
+    proof = await buildProof();
+    const events = proof.proof.events;
+    const checkpoints = await buildSignedCheckpoints({
+      events,
+      initialEventChainHash: events[0]!.previousHash!,
+      key,
+      eventIndexes: [5, events.length - 1],
+      withMerkleRoot: true,
+    });
+    signed = { ...proof, checkpoints };
+  });
+
+  it('verifies a signed range without the rest of the events and anchors it in time', async () => {
+    const disclosure = await createEventRangeDisclosure(signed, 2, 4);
+
+    expect(disclosure.events.map((e) => e.sequence)).toEqual([2, 3, 4]);
+    expect(disclosure.checkpoint.eventIndex).toBe(5);
+    expect(JSON.stringify(disclosure)).not.toContain(proof.content);
+
+    const result = await verifyEventRangeDisclosure(JSON.parse(JSON.stringify(disclosure)), {
+      registry: [key.registryEntry],
+      skipPosw: true,
+    });
+    expect(result).toMatchObject({
+      valid: true,
+      anchored: true,
+      firstEventIndex: 2,
+      lastEventIndex: 4,
+      serverTimestamp: (disclosure.checkpoint.signature as SignedCheckpointEnvelope).payload.serverTimestamp,
+    });
+  });
+
+  it('rejects a disclosed event whose data was edited', async () => {
+    const disclosure = await createEventRangeDisclosure(signed, 2, 4);
+    disclosure.events[1] = { ...disclosure.events[1]!, data: 'Z' };
+
+    const result = await verifyEventRangeDisclosure(disclosure, { registry: [key.registryEntry], skipPosw: true });
+    expect(result.valid).toBe(false);
+    expect(result.errorAt).toBe(3);
+  });
+
+  it('rejects a self-consistent segment that is not under the signed root', async () => {
+    const other = await buildProof('int y = 41;\n');
+    const disclosure = await createEventRangeDisclosure(signed, 2, 4);
+    const forged = {
+      ...disclosure,
+      events: other.proof.events.slice(2, 5),
+    };
+
+    const result = await verifyEventRangeDisclosure(forged, { registry: [key.registryEntry], skipPosw: true });
+    expect(result).toMatchObject({
+      valid: false,
+      reason: 'Disclosed events are not included in the checkpoint Merkle root',
+    });
+  });
+
+  it('rejects a checkpoint root that differs from the signed payload', async () => {
+    const disclosure = await createEventRangeDisclosure(signed, 2, 4);
+    const rerooted = { ...disclosure, checkpoint: { ...disclosure.checkpoint, merkleRoot: '0'.repeat(64) } };
+
+    const result = await verifyEventRangeDisclosure(rerooted, { registry: [key.registryEntry], skipPosw: true });
+    expect(result.valid).toBe(false);
+
+    const proofResult = await verifySignedCheckpoints(signed.proof.events, [rerooted.checkpoint], null, {
+      registry: [key.registryEntry],
+    });
+    expect(proofResult.details[0]?.reason).toBe('merkleRoot mismatch with enclosing checkpoint');
+  });
+
+  it('reports an unsigned checkpoint as consistent but not anchored', async () => {
+    const disclosure = await createEventRangeDisclosure(proof, 0, proof.proof.events.length - 1);
+
+    const result = await verifyEventRangeDisclosure(disclosure, { skipPosw: true });
+    expect(result).toMatchObject({ valid: true, anchored: false });
+  });
+
+  it('refuses to disclose from a proof without Merkle roots', async () => {
+    const legacy = { ...proof, checkpoints: proof.checkpoints.map(({ merkleRoot: _root, ...cp }) => cp) };
+
+    await expect(createEventRangeDisclosure(legacy, 0, 1)).rejects.toThrow(/No checkpoint with a Merkle root/);
+  });
+});
@@ -14,12 +14,14 @@ import { beforeAll, describe, expect, it } from 'vitest';
 import {
   TypingProof,
   computeHash,
+  migrateProof,
   verifyEventArrayStructure,
   verifyProofFile,
   verifyProofMetadata,
+  type CheckpointData,
   type ExportedProof,
   type FingerprintComponents,
-  type ProofFile,
+  type MigratedProof,
   type StoredEvent,
 } from '../index.js';
 
@@ -50,7 +52,9 @@ const createMockFingerprintComponents = (): FingerprintComponents => ({
 });
 
 /** 正規の (改ざんされていない) proof を 1 つ作る。 */
-async function buildGenuineProof(charCount = 3): Promise<{ exported: ExportedProof; content: string }> {
+async function buildGenuineProof(
+  charCount = 3
+): Promise<{ exported: ExportedProof & { checkpoints: CheckpointData[] }; content: string }> {
   const components = createMockFingerprintComponents();
   const fingerprintHash = await computeHash(JSON.stringify(components, null, 0));
   const proof = new TypingProof();
@@ -80,18 +84,18 @@ async function buildGenuineProof(charCount = 3): Promise<{ exported: ExportedPro
  * 秘密情報は要らず、sequence / previousHash / finalHash は実イベントのみで整合したままになる。
  */
 async function forgeInflatedProof(
-  base: { exported: ExportedProof; content: string },
+  base: { exported: ExportedProof & { checkpoints: CheckpointData[] }; content: string },
   filler: unknown
-): Promise<ProofFile> {
+): Promise<MigratedProof> {
   // 実際の攻撃と同じく JSON を経由する (undefined は落ち、null はそのまま残る)。
   const forged = JSON.parse(JSON.stringify(base.exported)) as ExportedProof;
   (forged.proof.events as unknown[]).push(filler);
   forged.typingProofData.metadata.totalEvents = forged.proof.events.length;
   forged.typingProofHash = await computeHash(JSON.stringify(forged.typingProofData));
-  return { ...forged, content: base.content, language: 'text' };
+  return migrateProof({ ...forged, content: base.content, language: 'text' }).proof;
 }
 
-let genuine: { exported: ExportedProof; content: string };
+let genuine: { exported: ExportedProof & { checkpoints: CheckpointData[] }; content: string };
 
 beforeAll(async () => {
   genuine = await buildGenuineProof(3);
@@ -99,7 +103,7 @@ beforeAll(async () => {
 
 describe('event array structure gate', () => {
   it('accepts an untampered proof', async () => {
-    const proofFile: ProofFile = { ...genuine.exported, content: genuine.content, language: 'text' };
+    const proofFile: MigratedProof = { ...genuine.exported, content: genuine.content, language: 'text' };
     const result = await verifyProofFile(proofFile, undefined, { mode: 'fast' });
 
     expect(result.valid).toBe(true);
@@ -0,0 +1,83 @@
+/**
+ * 証拠 (event 範囲) → 最終コードの行 の写像テスト。
+ *
+ * SARIF などで「どの行を見ればよいか」を示すための advisory な表示補助。後の編集で行がずれても
+ * 最終コードに残った文字の行を指すこと、消された証拠には場所をでっち上げないことを固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { evidenceLineRanges, locateEvidence, traceContentOrigins } from '../analysis/evidenceLocation.js';
+import type { StoredEvent } from '../types/proof.js';
+
+let seq = 0;
+
+function change(rangeOffset: number, data: string, rangeLength = 0): StoredEvent {
+  return {
+    sequence: seq++,
+    timestamp: seq * 100,
+    type: 'contentChange',
+    inputType: rangeLength > 0 && data === '' ? 'deleteContentBackward' : 'insertText',
+    data,
+    rangeOffset,
+    rangeLength,
+    range: null,
+    previousHash: null,
+    hash: '0'.repeat(64),
+    description: null,
+    isMultiLine: null,
+    deletedLength: null,
+    insertedText: null,
+    insertLength: null,
+    deleteDirection: null,
+    selectedText: null,
+  } as StoredEvent;
+}
+
+describe('traceContentOrigins', () => {
+  it('replays to the final content and records which event wrote each character', () => {
+    const trace = traceContentOrigins([change(0, 'ab'), change(1, 'X'), change(3, '', 0), change(0, '', 1)]);
+    expect(trace.content).toBe('Xb');
+    expect(trace.origins).toEqual([1, 0]);
+  });
+
+  it('attributes a template injection to every character it wrote', () => {
+    const template = { ...change(0, ''), type: 'templateInjection', data: { content: 'int main;' } } as StoredEvent;
+    const trace = traceContentOrigins([change(0, 'old'), template]);
+    expect(trace.content).toBe('int main;');
+    expect(new Set(trace.origins)).toEqual(new Set([1]));
+  });
+});
+
+describe('evidenceLineRanges', () => {
+  it('follows the evidence to its final line even after lines are inserted above it', () => {
+    // event 0: 1 行目を書く / event 1: 2 行目 (証拠) / event 2: 先頭に 2 行足して証拠を 4 行目へ押し下げる
+    const trace = traceContentOrigins([change(0, 'a\n'), change(2, 'pasted\n'), change(0, 'x\ny\n')]);
+    expect(evidenceLineRanges(trace, { fromEventIndex: 1 })).toEqual([{ startLine: 4, endLine: 4 }]);
+  });
+
+  it('merges adjacent lines and keeps separate runs apart', () => {
+    const trace = traceContentOrigins([change(0, 'one\ntwo\n'), change(8, 'mid\n'), change(12, 'four\n')]);
+    expect(evidenceLineRanges(trace, { fromEventIndex: 0, toEventIndex: 0 })).toEqual([{ startLine: 1, endLine: 2 }]);
+    expect(evidenceLineRanges(trace, { fromEventIndex: 0, toEventIndex: 2 })).toEqual([{ startLine: 1, endLine: 4 }]);
+    expect(evidenceLineRanges(trace, { fromEventIndex: 2 })).toEqual([{ startLine: 4, endLine: 4 }]);
+  });
+
+  it('returns no lines when everything the evidence wrote was deleted later', () => {
+    const trace = traceContentOrigins([change(0, 'keep\n'), change(5, 'gone'), change(5, '', 4)]);
+    expect(evidenceLineRanges(trace, { fromEventIndex: 1 })).toEqual([]);
+  });
+});
+
+describe('locateEvidence', () => {
+  it('indexes locations by signal and evidence position', () => {
+    const events = [change(0, 'a\n'), change(2, 'b\n')];
+    const locations = locateEvidence(events, [
+      { evidence: [] },
+      { evidence: [{ fromEventIndex: 1 }, { fromEventIndex: 0 }] },
+    ]);
+    expect(locations).toEqual([
+      { signalIndex: 1, evidenceIndex: 0, lines: [{ startLine: 2, endLine: 2 }] },
+      { signalIndex: 1, evidenceIndex: 1, lines: [{ startLine: 1, endLine: 1 }] },
+    ]);
+  });
+});
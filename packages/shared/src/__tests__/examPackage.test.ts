@@ -297,10 +297,12 @@ describe('exam authority registry', () => {
 });
 
 describe('exam version constants', () => {
-  it('tracks the current proof format version (1.2.0 after the ADR-0017 session anchor)', () => {
-    // 1.1.0 = exam root 束縛 (ADR-0006)、1.2.0 = セッション開始トークンによる root アンカー (ADR-0017)。
-    // どちらも加算的で MIN_SUPPORTED は 1.0.0 据え置き。
-    expect(PROOF_FORMAT_VERSION).toBe('1.2.0');
+  it('tracks the current proof format version (1.6.0 after the ADR-0049 timestamp tokens)', () => {
+    // 1.1.0 = exam root 束縛 (ADR-0006)、1.2.0 = セッション開始トークンによる root アンカー (ADR-0017)、
+    // 1.3.0 = 前の proof からの継続 (ADR-0041)、1.4.0 = PoSW 速度の較正 (ADR-0042)、
+    // 1.5.0 = PoSW の suite (ADR-0044)、1.6.0 = RFC 3161 のタイムスタンプトークン (ADR-0049)。
+    // いずれも加算的で MIN_SUPPORTED は 1.0.0 据え置き。
+    expect(PROOF_FORMAT_VERSION).toBe('1.6.0');
   });
 
   it('exposes the exam package/proof/root-binding versions', () => {
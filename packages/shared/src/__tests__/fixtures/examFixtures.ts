@@ -10,6 +10,7 @@ import {
   type ExamPackageBuildInput,
   type ExamPackageManifest,
   type ExamPackageSigner,
+  type HashSuiteId,
 } from '../../index.js';
 import type { ExamAuthorityKey } from '../../examAuthorityKeys/index.js';
 
@@ -50,6 +51,8 @@ export interface SamplePackageOptions {
   embedPubkey?: boolean;
   releaseTime?: string;
   deadline?: string;
+  /** 答案の PoSW の suite (ADR-0044)。省略時は package に書かない */
+  hashSuite?: HashSuiteId;
 }
 
 /** テスト用の封印問題パッケージを 1 つ作る */
@@ -70,6 +73,7 @@ export async function buildSamplePackage(
     allowed: { languages: ['c'] },
     keyId: signer.keyId,
     algorithm: 'ECDSA-P256',
+    ...(opts.hashSuite !== undefined ? { hashSuite: opts.hashSuite } : {}),
   };
   const buildSigner: ExamPackageSigner = opts.embedPubkey
     ? signer
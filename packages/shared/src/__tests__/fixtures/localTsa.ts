@@ -0,0 +1,263 @@
+/**
+ * RFC 3161 タイムスタンプトークン (ADR-0049) のテスト用 TSA
+ *
+ * - ECDSA-P256 のルート CA と、それが発行した TSA 証明書 (extendedKeyUsage = critical timeStamping) を生成
+ * - TimeStampReq (DER) に TimeStampResp (DER) を返す。トークンは contentType / messageDigest /
+ *   signingCertificateV2 の signedAttrs に TSA の鍵で署名した SignedData
+ * - `fetch` を差し込めば、editor の SignedCheckpointService からもネットワークなしで呼べる
+ *
+ * 注: 鍵と証明書はテスト中だけ存在する一時物。ルートは `rootPem` を検証器の
+ * `tsaRootCertificates` に注入して使う (組み込みの TSA_ROOT_CERTIFICATES には入れない)。
+ */
+
+import {
+  DER_TAG,
+  derContextTag,
+  encodeDer,
+  encodeDerBoolean,
+  encodeDerCertificateTime,
+  encodeDerGeneralizedTime,
+  encodeDerInteger,
+  encodeDerOctetString,
+  encodeDerOid,
+  encodeDerBitString,
+  encodeDerSequence,
+  encodeDerSet,
+  encodeDerUtf8String,
+  readDer,
+  readDerChildren,
+} from '../../utils/der.js';
+
+const OID = {
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  policy: '1.3.6.1.4.1.99999.1',
+} as const;
+
+export interface LocalTsaOptions {
+  /** TSA 証明書の CN */
+  name?: string;
+  /** genTime に使う時刻 (既定は現在時刻) */
+  now?: () => Date;
+  /** TSA 証明書に timeStamping の extendedKeyUsage を付けない (RFC 3161 §2.3 違反の TSA) */
+  withoutTimeStampingEku?: boolean;
+  /** 応答の nonce を要求と変える (取り違えた応答) */
+  wrongNonce?: boolean;
+  /** 要求を拒否する (PKIStatus 2 = rejection と statusString) */
+  reject?: string;
+}
+
+export interface LocalTsa {
+  /** fetch の宛先にする URL */
+  url: string;
+  /** ルート CA の証明書 (PEM)。検証器の `tsaRootCertificates` に渡す */
+  rootPem: string;
+  /** `url` への POST (application/timestamp-query) に応答する fetch。受け取った要求は `requests` に積む */
+  fetch: typeof fetch;
+  requests: Uint8Array[];
+  /** TimeStampReq (DER) に TimeStampResp (DER) を返す */
+  respond(request: Uint8Array): Promise<Uint8Array>;
+  /** hash (SHA-256 hex) のトークン (base64) を直接作る */
+  stamp(hash: string): Promise<string>;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!);
+  }
+  return btoa(binary);
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data as unknown as ArrayBuffer));
+}
+
+function encodeName(commonName: string): Uint8Array {
+  return encodeDerSequence(
+    encodeDerSet(encodeDerSequence(encodeDerOid(OID.commonName), encodeDerUtf8String(commonName)))
+  );
+}
+
+function encodeExtension(oid: string, critical: boolean, value: Uint8Array): Uint8Array {
+  return critical
+    ? encodeDerSequence(encodeDerOid(oid), encodeDerBoolean(true), encodeDerOctetString(value))
+    : encodeDerSequence(encodeDerOid(oid), encodeDerOctetString(value));
+}
+
+/** WebCrypto の ECDSA 署名 (r ‖ s) を DER の ECDSA-Sig-Value にする */
+async function signEcdsa(privateKey: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const raw = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, data as unknown as ArrayBuffer)
+  );
+  return encodeDerSequence(encodeDerInteger(raw.subarray(0, 32)), encodeDerInteger(raw.subarray(32)));
+}
+
+async function createCertificate(options: {
+  serialNumber: number;
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  publicKey: CryptoKey;
+  issuerKey: CryptoKey;
+  extensions: Uint8Array[];
+}): Promise<Uint8Array> {
+  const algorithm = encodeDerSequence(encodeDerOid(OID.ecdsaWithSha256));
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', options.publicKey));
+  const tbs = encodeDerSequence(
+    encodeDer(derContextTag(0, true), encodeDerInteger(2)),
+    encodeDerInteger(options.serialNumber),
+    algorithm,
+    options.issuer,
+    encodeDerSequence(
+      encodeDerCertificateTime(new Date('2020-01-01T00:00:00Z')),
+      encodeDerCertificateTime(new Date('2049-12-31T23:59:59Z'))
+    ),
+    options.subject,
+    spki,
+    encodeDer(derContextTag(3, true), encodeDerSequence(...options.extensions))
+  );
+  return encodeDerSequence(tbs, algorithm, encodeDerBitString(await signEcdsa(options.issuerKey, tbs)));
+}
+
+function toPem(der: Uint8Array): string {
+  const lines = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+  return ['-----BEGIN CERTIFICATE-----', ...lines, '-----END CERTIFICATE-----', ''].join('\n');
+}
+
+export async function createLocalTsa(options: LocalTsaOptions = {}): Promise<LocalTsa> {
+  const { name = 'Test TSA', now = () => new Date(), withoutTimeStampingEku = false, wrongNonce = false } = options;
+  const generate = async () =>
+    (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+  const rootKey = await generate();
+  const tsaKey = await generate();
+
+  const rootName = encodeName('Test TSA Root');
+  const root = await createCertificate({
+    serialNumber: 1,
+    issuer: rootName,
+    subject: rootName,
+    publicKey: rootKey.publicKey,
+    issuerKey: rootKey.privateKey,
+    extensions: [
+      encodeExtension(OID.basicConstraints, true, encodeDerSequence(encodeDerBoolean(true))),
+      // keyCertSign | cRLSign
+      encodeExtension(OID.keyUsage, true, encodeDer(DER_TAG.BIT_STRING, Uint8Array.of(1, 0x06))),
+    ],
+  });
+  const tsaSerialNumber = 2;
+  const tsa = await createCertificate({
+    serialNumber: tsaSerialNumber,
+    issuer: rootName,
+    subject: encodeName(name),
+    publicKey: tsaKey.publicKey,
+    issuerKey: rootKey.privateKey,
+    extensions: [
+      encodeExtension(OID.basicConstraints, true, encodeDerSequence()),
+      ...(withoutTimeStampingEku
+        ? []
+        : [encodeExtension(OID.extKeyUsage, true, encodeDerSequence(encodeDerOid(OID.timeStamping)))]),
+    ],
+  });
+
+  let serial = 0;
+  const requests: Uint8Array[] = [];
+
+  async function createToken(messageImprint: Uint8Array, nonce: Uint8Array | null): Promise<Uint8Array> {
+    const tstInfo = encodeDerSequence(
+      encodeDerInteger(1),
+      encodeDerOid(OID.policy),
+      messageImprint,
+      encodeDerInteger(++serial),
+      encodeDerGeneralizedTime(now()),
+      ...(nonce ? [encodeDerInteger(nonce)] : [])
+    );
+    const attributes = encodeDerSet(
+      encodeDerSequence(encodeDerOid(OID.contentType), encodeDerSet(encodeDerOid(OID.tstInfo))),
+      encodeDerSequence(encodeDerOid(OID.messageDigest), encodeDerSet(encodeDerOctetString(await sha256(tstInfo)))),
+      encodeDerSequence(
+        encodeDerOid(OID.signingCertificateV2),
+        encodeDerSet(encodeDerSequence(encodeDerSequence(encodeDerSequence(encodeDerOctetString(await sha256(tsa))))))
+      )
+    );
+    // 署名は SET OF の符号化に対して行い、SignerInfo には [0] IMPLICIT に付け替えて入れる (RFC 5652 §5.4)
+    const signedAttrs = Uint8Array.from(attributes);
+    signedAttrs[0] = derContextTag(0, true);
+    const signerInfo = encodeDerSequence(
+      encodeDerInteger(1),
+      encodeDerSequence(rootName, encodeDerInteger(tsaSerialNumber)),
+      encodeDerSequence(encodeDerOid(OID.sha256)),
+      signedAttrs,
+      encodeDerSequence(encodeDerOid(OID.ecdsaWithSha256)),
+      encodeDerOctetString(await signEcdsa(tsaKey.privateKey, attributes))
+    );
+    const signedData = encodeDerSequence(
+      encodeDerInteger(3),
+      encodeDerSet(encodeDerSequence(encodeDerOid(OID.sha256))),
+      encodeDerSequence(encodeDerOid(OID.tstInfo), encodeDer(derContextTag(0, true), encodeDerOctetString(tstInfo))),
+      encodeDer(derContextTag(0, true), tsa),
+      encodeDerSet(signerInfo)
+    );
+    return encodeDerSequence(encodeDerOid(OID.signedData), encodeDer(derContextTag(0, true), signedData));
+  }
+
+  async function respond(request: Uint8Array): Promise<Uint8Array> {
+    if (options.reject) {
+      return encodeDerSequence(
+        encodeDerSequence(encodeDerInteger(2), encodeDerSequence(encodeDerUtf8String(options.reject)))
+      );
+    }
+    const fields = readDerChildren(readDer(request));
+    const messageImprint = fields[1]!.raw;
+    const nonceField = fields.slice(2).find((f) => f.tag === DER_TAG.INTEGER);
+    let nonce = nonceField ? nonceField.value : null;
+    if (nonce && wrongNonce) nonce = Uint8Array.from(nonce, (b) => b ^ 0xff);
+    return encodeDerSequence(encodeDerSequence(encodeDerInteger(0)), await createToken(messageImprint, nonce));
+  }
+
+  const url = 'https://tsa.test/tsr';
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input) !== url || init?.method !== 'POST') return new Response('not found', { status: 404 });
+    const body = new Uint8Array(await new Response(init.body).arrayBuffer());
+    requests.push(body);
+    return new Response((await respond(body)) as unknown as ArrayBuffer, {
+      status: 200,
+      headers: { 'Content-Type': 'application/timestamp-reply' },
+    });
+  }) as typeof fetch;
+
+  return {
+    url,
+    rootPem: toPem(root),
+    fetch: fetchImpl,
+    requests,
+    respond,
+    async stamp(hash: string) {
+      const imprint = encodeDerSequence(
+        encodeDerSequence(encodeDerOid(OID.sha256)),
+        encodeDerOctetString(hexToBytes(hash))
+      );
+      return bytesToBase64(await createToken(imprint, null));
+    },
+  };
+}
@@ -12,6 +12,7 @@ import {
   POSW_ITERATIONS,
   SIGNED_CHECKPOINT_FORMAT_VERSION,
   computeHash,
+  computeMerkleRoot,
   deterministicStringify,
   hashSignedCheckpointPayload,
   type CheckpointData,
@@ -106,13 +107,18 @@ export interface BuildSignedCheckpointsOptions {
   serverStepMs?: number;
   /** envelope に公開鍵を同梱するか */
   embedPublicKey?: boolean;
+  /** checkpoint と payload に events[0..eventIndex] の Merkle 根 (ADR-0040) を入れるか */
+  withMerkleRoot?: boolean;
 }
 
+/** ECDSA の envelope が必ず付いた checkpoint (テストで payload を直接いじるため) */
+export type SignedTestCheckpoint = CheckpointData & { signature: SignedCheckpointEnvelope };
+
 /**
  * 指定 event 列に対して整合のとれた signed checkpoint データを構築。
  * 戻り値の CheckpointData をそのまま ExportedProof.checkpoints に入れて使える。
  */
-export async function buildSignedCheckpoints(options: BuildSignedCheckpointsOptions): Promise<CheckpointData[]> {
+export async function buildSignedCheckpoints(options: BuildSignedCheckpointsOptions): Promise<SignedTestCheckpoint[]> {
   const {
     events,
     initialEventChainHash,
@@ -126,9 +132,10 @@ export async function buildSignedCheckpoints(options: BuildSignedCheckpointsOpti
     startServerMs = Date.parse('2026-05-28T12:00:01.000Z'),
     serverStepMs = 1000,
     embedPublicKey = false,
+    withMerkleRoot = false,
   } = options;
 
-  const out: CheckpointData[] = [];
+  const out: SignedTestCheckpoint[] = [];
   let previousSignedCheckpointHash: string | null = null;
   let previousEventIndexCounted = -1;
 
@@ -153,12 +160,17 @@ export async function buildSignedCheckpoints(options: BuildSignedCheckpointsOpti
       serverTimestamp: new Date(startServerMs + i * serverStepMs).toISOString(),
       firstSeenAt,
     };
+    const merkleRoot = withMerkleRoot
+      ? ((await computeMerkleRoot(events.slice(0, eventIndex + 1).map((e) => e.hash))) ?? undefined)
+      : undefined;
+    if (merkleRoot) payload.merkleRoot = merkleRoot;
     const envelope = await signCheckpoint(payload, key, { embedPublicKey });
     out.push({
       eventIndex,
       hash: event.hash,
       timestamp: event.timestamp,
       contentHash,
+      ...(merkleRoot ? { merkleRoot } : {}),
       signature: envelope,
     });
     previousSignedCheckpointHash = await hashSignedCheckpointPayload(payload);
@@ -0,0 +1,154 @@
+/**
+ * ゲートポリシー (ADR-0036) のテスト。
+ *
+ * 「コースごとの組み合わせを宣言できるか」「タイポ・型違いを parse で止めるか」「heuristic を
+ * fail に使わせないか」「未検査 (null) の事実で発火しないか」を固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { evaluateGatePolicy, gatePolicyFacts, parseGatePolicy, type GatePolicyInput } from '../gatePolicy.js';
+import type { ProcessSummary } from '../processSummary.js';
+
+function input(overrides: Partial<GatePolicyInput> = {}): GatePolicyInput {
+  const processSummary: ProcessSummary = {
+    totalEvents: 100,
+    durationMs: 600_000,
+    contentChangeCount: 80,
+    insertedChars: 400,
+    deletedChars: 40,
+    deletionRatio: 0.1,
+    executionCount: 2,
+    hasRunResults: false,
+    runSuccessCount: 0,
+    runFailureCount: 0,
+    pauseCount: 1,
+    longestPauseMs: 30_000,
+    focusLossCount: 0,
+    externalInputCount: 0,
+    reflectionNotes: [],
+    moments: [],
+  };
+  return {
+    assurance: {
+      integrity: 'proven',
+      temporal: 'anchored',
+      provenance: { pureTyping: true, notableSignals: 0, reviewPriority: 0 },
+    },
+    processSummary,
+    rootAnchored: true,
+    anchorsSparse: false,
+    ...overrides,
+  };
+}
+
+const COURSE_POLICY = {
+  schema: 'gate-policy/1',
+  name: 'CS101 final',
+  rules: [
+    { id: 'screenshots-intact', when: { 'screenshots.tampered': { gt: 0 } }, action: 'fail' },
+    { id: 'anchored', when: { 'assurance.temporal': 'unanchored' }, action: 'fail', message: 'Work offline only' },
+    { id: 'time-box', when: { 'exam.withinWindow': false }, action: 'fail' },
+    { id: 'no-paste', when: { 'process.externalInputCount': { gt: 0 } }, action: 'warn' },
+    { id: 'review', when: { 'assurance.provenance.reviewPriority': { gte: 0.5 } }, action: 'warn' },
+  ],
+};
+
+describe('parseGatePolicy', () => {
+  it('reads rules with operator objects and the eq shorthand', () => {
+    const policy = parseGatePolicy(COURSE_POLICY);
+    expect(policy.name).toBe('CS101 final');
+    expect(policy.rules.map((r) => r.id)).toEqual(['screenshots-intact', 'anchored', 'time-box', 'no-paste', 'review']);
+    expect(policy.rules[1]!.conditions).toEqual([{ fact: 'assurance.temporal', op: 'eq', value: 'unanchored' }]);
+    expect(policy.rules[1]!.message).toBe('Work offline only');
+  });
+
+  it('rejects typos and mistyped values instead of silently disabling a gate', () => {
+    const rule = (r: object) => ({ schema: 'gate-policy/1', rules: [{ id: 'r', action: 'fail', ...r }] });
+    expect(() => parseGatePolicy({ ...COURSE_POLICY, schema: 'gate-policy/2' })).toThrow(/Unsupported gate policy/);
+    expect(() => parseGatePolicy(rule({ when: { 'screenshot.tampered': { gt: 0 } } }))).toThrow(/unknown fact/);
+    expect(() => parseGatePolicy(rule({ when: { 'screenshots.tampered': { more: 0 } } }))).toThrow(/unknown operator/);
+    expect(() => parseGatePolicy(rule({ when: { 'assurance.temporal': 'offline' } }))).toThrow(/not a valid value/);
+    expect(() => parseGatePolicy(rule({ when: { 'anchors.rootAnchored': { gt: 0 } } }))).toThrow(/needs a number/);
+    expect(() => parseGatePolicy(rule({ when: {} }))).toThrow(/"when"/);
+    expect(() => parseGatePolicy(rule({ action: 'block', when: { 'exam.present': true } }))).toThrow(/"action"/);
+    expect(() =>
+      parseGatePolicy({
+        schema: 'gate-policy/1',
+        rules: [
+          { id: 'r', action: 'warn', when: { 'exam.present': true } },
+          { id: 'r', action: 'warn', when: { 'exam.present': false } },
+        ],
+      })
+    ).toThrow(/duplicate id/);
+  });
+
+  it('keeps heuristic analysis facts out of fail rules', () => {
+    expect(() =>
+      parseGatePolicy({
+        schema: 'gate-policy/1',
+        rules: [{ id: 'r', action: 'fail', when: { 'assurance.provenance.reviewPriority': { gte: 0.9 } } }],
+      })
+    ).toThrow(/only be used in "warn" rules/);
+  });
+});
+
+describe('evaluateGatePolicy', () => {
+  const policy = parseGatePolicy(COURSE_POLICY);
+
+  it('passes a clean proof', () => {
+    expect(evaluateGatePolicy(policy, gatePolicyFacts(input()))).toEqual({ outcome: 'pass', tripped: [] });
+  });
+
+  it('reports every tripped rule with the facts that tripped it, fail outranking warn', () => {
+    const facts = gatePolicyFacts(
+      input({
+        screenshots: { total: 4, verified: 2, missing: 0, tampered: 2, chainOnly: 0 },
+        processSummary: { ...input().processSummary, externalInputCount: 3 },
+      })
+    );
+    const result = evaluateGatePolicy(policy, facts);
+    expect(result.outcome).toBe('fail');
+    expect(result.tripped).toEqual([
+      { id: 'screenshots-intact', action: 'fail', facts: { 'screenshots.tampered': 2 } },
+      { id: 'no-paste', action: 'warn', facts: { 'process.externalInputCount': 3 } },
+    ]);
+  });
+
+  it('only warns when only warn rules trip', () => {
+    const facts = gatePolicyFacts(
+      input({
+        assurance: { ...input().assurance, provenance: { pureTyping: true, notableSignals: 2, reviewPriority: 0.7 } },
+      })
+    );
+    expect(evaluateGatePolicy(policy, facts)).toMatchObject({ outcome: 'warn', tripped: [{ id: 'review' }] });
+  });
+
+  it('does not trip on facts that were not checked', () => {
+    // JSON 単体入力 (スクショ未検査) と exam でない proof: 比較対象の事実は null。
+    const facts = gatePolicyFacts(input());
+    expect(facts['screenshots.tampered']).toBeNull();
+    expect(facts['exam.withinWindow']).toBeNull();
+    expect(evaluateGatePolicy(policy, facts).outcome).toBe('pass');
+  });
+
+  it('reads the exam time-box from a verified binding', () => {
+    const binding = {
+      valid: true,
+      packageSignatureValid: true,
+      packageHashMatches: true,
+      rootMatches: true,
+      problemContentHashMatches: true,
+      timeBox: {
+        releaseTime: '2026-06-06T00:00:00Z',
+        deadline: '2026-06-06T01:00:00Z',
+        windowCoherent: true,
+        withinWindow: false,
+      },
+    };
+    const result = evaluateGatePolicy(policy, gatePolicyFacts(input({ exam: { packageProvided: true, binding } })));
+    expect(result).toMatchObject({
+      outcome: 'fail',
+      tripped: [{ id: 'time-box', facts: { 'exam.withinWindow': false } }],
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * PoSW の suite の registry (ADR-0044)
+ *
+ * - proof の `hashSuite` で検証器が suite を選ぶ。持たない proof は既定 suite、未知の suite は fail-closed。
+ * - exam package が memory-hard な suite を指定すると、答案はその suite で記録され、束縛検証は
+ *   suite の一致を要求する (既定 suite へのダウングレードを弾く)。
+ *
+ * 注: TypingProof の PoSW は setup.ts の MockWorker が偽データを返すので、proof 全体は fast で検証する。
+ * PoSW の計算そのものは registry の suite を直接呼んで確かめる。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ARGON2ID_POSW_PARAMS,
+  ARGON2ID_POSW_SUITE,
+  DEFAULT_HASH_SUITE,
+  POSW_ITERATIONS,
+  TypingProof,
+  computeExamPackageHash,
+  computeHash,
+  computeProblemContentHash,
+  getHashSuite,
+  resolveProofHashSuite,
+  verifyExamBinding,
+  verifyPoSW,
+  verifyProofFile,
+  type ExamPackageManifest,
+  type FingerprintComponents,
+  type HashSuiteId,
+  type MigratedProof,
+} from '../index.js';
+import { buildSamplePackage, makeExamAuthority } from './fixtures/examFixtures.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (Hash Suite Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+/** package の答案を 'abc' と打って書き出す */
+async function answer(manifest: ExamPackageManifest, plaintext: string, token: string, hashSuite?: HashSuiteId) {
+  const proof = new TypingProof();
+  await proof.initializeExam(await computeHash(JSON.stringify(components, null, 0)), components, {
+    examId: manifest.examId,
+    problemId: manifest.problemId,
+    variant: manifest.variant,
+    packageHash: await computeExamPackageHash(manifest),
+    problemContentHash: await computeProblemContentHash(plaintext),
+    startToken: token,
+    ...(hashSuite ? { hashSuite } : {}),
+  });
+  let content = '';
+  for (const ch of 'abc') {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  const file: MigratedProof = { ...(await proof.exportProof(content)), content, language: 'c' };
+  return { proof, file };
+}
+
+describe('hash suite registry', () => {
+  it('resolves the default suite for proofs without hashSuite and rejects unknown suites', async () => {
+    expect(resolveProofHashSuite({})?.id).toBe(DEFAULT_HASH_SUITE);
+    expect(resolveProofHashSuite({})?.poswIterations).toBe(POSW_ITERATIONS);
+    expect(resolveProofHashSuite({ hashSuite: ARGON2ID_POSW_SUITE })?.poswMemoryKiB).toBe(ARGON2ID_POSW_PARAMS.memKiB);
+    expect(resolveProofHashSuite({ hashSuite: 'md5-posw-v1' })).toBeNull();
+
+    // 同じ seed でも suite ごとに別の結果になり、検証は proof の suite で行う
+    const argon = getHashSuite(ARGON2ID_POSW_SUITE)!;
+    const seed = 'prev' + '{"sequence":0}' + 'nonce';
+    const intermediateHash = await argon.computePoswHash(seed);
+    const posw = { iterations: argon.poswIterations, nonce: 'nonce', intermediateHash, computeTimeMs: 0 };
+    expect(await verifyPoSW('prev', '{"sequence":0}', posw, ARGON2ID_POSW_SUITE)).toBe(true);
+    expect(await verifyPoSW('prev', '{"sequence":0}', posw)).toBe(false);
+    expect(await verifyPoSW('prev', '{"sequence":1}', posw, ARGON2ID_POSW_SUITE)).toBe(false);
+  });
+});
+
+describe('exam proofs with a memory-hard suite', () => {
+  it('records with the package suite and verifies with the suite the proof declares', async () => {
+    const { signer, registry } = await makeExamAuthority();
+    const { manifest, token, plaintext } = await buildSamplePackage(signer, { hashSuite: ARGON2ID_POSW_SUITE });
+    const { proof, file } = await answer(manifest, plaintext, token, manifest.hashSuite);
+
+    expect(proof.hashSuite).toBe(ARGON2ID_POSW_SUITE);
+    expect(file.hashSuite).toBe(ARGON2ID_POSW_SUITE);
+    expect(file.proof.events.every((e) => e.posw.iterations === ARGON2ID_POSW_PARAMS.iterations)).toBe(true);
+    expect((await verifyProofFile(file, undefined, { mode: 'fast' })).valid).toBe(true);
+    expect((await verifyExamBinding(file, manifest, { examAuthorityRegistry: registry })).valid).toBe(true);
+
+    // suite の名乗りを落とす / 未知にすると、既定 suite の反復回数と合わず fail-closed
+    const { hashSuite: _dropped, ...relabelled } = file;
+    const dropped = await verifyProofFile(relabelled, undefined, { mode: 'fast' });
+    expect(dropped.valid).toBe(false);
+    expect(dropped.errorMessage).toMatch(/PoSW iterations mismatch at event 0/);
+    const unknown = await verifyProofFile({ ...file, hashSuite: 'md5-posw-v1' as HashSuiteId }, undefined, {
+      mode: 'fast',
+    });
+    expect(unknown.errorMessage).toBe('Unsupported hash suite: md5-posw-v1');
+  });
+
+  it('rejects a default-suite answer to a package that requires the memory-hard suite', async () => {
+    const { signer, registry } = await makeExamAuthority();
+    const { manifest, token, plaintext } = await buildSamplePackage(signer, { hashSuite: ARGON2ID_POSW_SUITE });
+    const { file } = await answer(manifest, plaintext, token);
+
+    expect(file.hashSuite).toBeUndefined();
+    expect((await verifyProofFile(file, undefined, { mode: 'fast' })).valid).toBe(true);
+    const binding = await verifyExamBinding(file, manifest, { examAuthorityRegistry: registry });
+    expect(binding.valid).toBe(false);
+    expect(binding.reason).toMatch(/hash suite sha256-posw-v1 does not match the package hash suite/);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * audit モードの決定的 PoSW サンプリング (ADR-0034)。
+ *
+ * 標本は最終 hash だけから決まり、誰が検証しても同じになること、標本サイズと統計的上限が
+ * 目標信頼度を満たすことを固定する。PoSW の再計算そのものは verifyChainModes.test.ts で見る。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  POSW_AUDIT_DETECT_FRACTION,
+  planPoswAudit,
+  poswAuditSampleSize,
+  poswAuditSeed,
+  poswAuditUpperBound,
+  selectPoswAuditSample,
+} from '../poswAudit.js';
+
+function fakeEvents(count: number, finalHash = 'f'.repeat(64)): Array<{ hash: string }> {
+  return Array.from({ length: count }, (_, i) => ({ hash: i === count - 1 ? finalHash : i.toString(16) }));
+}
+
+describe('poswAuditSampleSize', () => {
+  it('picks the smallest n that detects a 1% forgery with the target confidence', () => {
+    const n = poswAuditSampleSize(100_000, 0.95);
+    expect(n).toBe(299);
+    expect(1 - (1 - POSW_AUDIT_DETECT_FRACTION) ** n).toBeGreaterThanOrEqual(0.95);
+    expect(1 - (1 - POSW_AUDIT_DETECT_FRACTION) ** (n - 1)).toBeLessThan(0.95);
+  });
+
+  it('grows with the confidence target and never exceeds the population', () => {
+    expect(poswAuditSampleSize(100_000, 0.99)).toBeGreaterThan(poswAuditSampleSize(100_000, 0.95));
+    expect(poswAuditSampleSize(50, 0.95)).toBe(50);
+  });
+
+  it('rejects confidence targets outside (0, 1)', () => {
+    expect(() => poswAuditSampleSize(10, 1)).toThrow(/between 0 and 1/);
+    expect(() => poswAuditSampleSize(10, 0)).toThrow(/between 0 and 1/);
+  });
+});
+
+describe('poswAuditUpperBound', () => {
+  it('is zero when every event was recomputed', () => {
+    expect(poswAuditUpperBound(50, 50, 0.95)).toBe(0);
+  });
+
+  it('bounds the undetected forged fraction at the target confidence', () => {
+    const bound = poswAuditUpperBound(299, 100_000, 0.95);
+    expect(bound).toBeLessThanOrEqual(POSW_AUDIT_DETECT_FRACTION);
+    expect((1 - bound) ** 299).toBeCloseTo(0.05, 10);
+  });
+});
+
+describe('selectPoswAuditSample', () => {
+  it('is reproducible from the seed alone and returns distinct sorted indices', async () => {
+    const seed = await poswAuditSeed('a'.repeat(64));
+    const first = await selectPoswAuditSample(seed, 1000, 40);
+    const second = await selectPoswAuditSample(seed, 1000, 40);
+    expect(first).toEqual(second);
+    expect(new Set(first).size).toBe(40);
+    expect(first).toEqual([...first].sort((a, b) => a - b));
+    expect(first.every((i) => i >= 0 && i < 1000)).toBe(true);
+  });
+
+  it('changes when the final hash changes', async () => {
+    const a = await selectPoswAuditSample(await poswAuditSeed('a'.repeat(64)), 1000, 40);
+    const b = await selectPoswAuditSample(await poswAuditSeed('b'.repeat(64)), 1000, 40);
+    expect(a).not.toEqual(b);
+  });
+});
+
+describe('planPoswAudit', () => {
+  it('derives the seed from the claimed final event hash and reports the bound', async () => {
+    const plan = await planPoswAudit(fakeEvents(5000), 0.95);
+    expect(plan.summary.seed).toBe(await poswAuditSeed('f'.repeat(64)));
+    expect(plan.summary).toMatchObject({ population: 5000, sampleSize: 299, confidence: 0.95 });
+    expect(plan.sample).toHaveLength(299);
+    expect(plan.summary.maxUndetectedFraction).toBeGreaterThan(0);
+  });
+});
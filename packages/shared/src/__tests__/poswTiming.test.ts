@@ -0,0 +1,156 @@
+/**
+ * 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)
+ *
+ * - 較正 event の速度 (× 許容倍率) で PoSW を逐次に計算したとみなし、計算が申告 timestamp に遅れる
+ *   下限を積む。遅れが上限を超えれば inconsistent。
+ * - 較正が無ければ uncalibrated、壊れているか suite の上限を超える速度なら implausible。
+ * - editor の記録 (`recordPoswCalibration`) から export した proof は、ストリーム検証で consistent になる。
+ *
+ * 注: 記録側の PoSW は setup.ts の MockWorker が返す (computeTimeMs = 5ms)。検証は fast モード。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ARGON2ID_POSW_SUITE,
+  POSW_CALIBRATION_MAX_EVENT_INDEX,
+  POSW_TIMING_MAX_LAG_MS,
+  TypingProof,
+  analyzePoswTiming,
+  computeHash,
+  verifyProofFile,
+  type FingerprintComponents,
+  type StoredEvent,
+} from '../index.js';
+
+const ITERATIONS = 10_000;
+
+/** 10,000 反復を 50ms で計算する端末 (許容倍率 2 で 1 event 25ms) */
+const calibration = { iterations: ITERATIONS, elapsedMs: 50, samples: 3 };
+
+function event(type: string, timestamp: number, data: unknown = null): StoredEvent {
+  return { type, timestamp, data, posw: { iterations: ITERATIONS } } as unknown as StoredEvent;
+}
+
+/** #0 attestation、#1 較正、以降 count 件を intervalMs 間隔で */
+function session(count: number, intervalMs: number, data: unknown = calibration): StoredEvent[] {
+  const events = [event('humanAttestation', 0), event('poswCalibration', 1, data)];
+  for (let i = 0; i < count; i++) events.push(event('contentChange', 100 + i * intervalMs));
+  return events;
+}
+
+describe('analyzePoswTiming', () => {
+  it('accepts timestamps the calibrated PoSW can keep up with and reports the minimum duration', () => {
+    const result = analyzePoswTiming(session(100, 100), [{ eventIndex: 51 }, { eventIndex: 101 }]);
+
+    expect(result.status).toBe('consistent');
+    expect(result.iterationsPerSecond).toBe(200_000);
+    expect(result.totalIterations).toBe(102 * ITERATIONS);
+    expect(result.minimumDurationMs).toBeCloseTo(102 * 25);
+    // #1 (較正) は #0 の 1ms 後なので、#0 の計算を待って 49ms 遅れる
+    expect(result.maxLagMs).toBeCloseTo(49);
+    expect(result.maxLagEventIndex).toBe(1);
+    expect(result.windows).toEqual([
+      { eventIndex: 51, claimedMs: 5000, minimumMs: 52 * 25, lagMs: 25 },
+      { eventIndex: 101, claimedMs: 5000, minimumMs: 50 * 25, lagMs: 25 },
+    ]);
+  });
+
+  it('flags timestamps that outrun the calibrated PoSW beyond the queue allowance', () => {
+    // 2,000 events を 1 秒に詰めた申告: 計算には 50 秒かかる
+    const result = analyzePoswTiming(session(2000, 0.5));
+
+    expect(result.status).toBe('inconsistent');
+    expect(result.maxLagMs).toBeGreaterThan(POSW_TIMING_MAX_LAG_MS);
+    expect(result.maxLagEventIndex).toBe(2001);
+    expect(result.reason).toMatch(/^Claimed timestamps outrun the calibrated PoSW rate by \d+ s at event 2001$/);
+
+    // 短い連打は記録キューの滞留として許す
+    expect(analyzePoswTiming(session(200, 0.5)).status).toBe('consistent');
+  });
+
+  it('reports uncalibrated, implausible and malformed calibrations', () => {
+    const uncalibrated = analyzePoswTiming(session(10, 100).filter((e) => e.type !== 'poswCalibration'));
+    expect(uncalibrated).toMatchObject({ status: 'uncalibrated', minimumDurationMs: null, windows: [] });
+    expect(uncalibrated.floorDurationMs).toBeGreaterThan(0);
+
+    const late = [...session(POSW_CALIBRATION_MAX_EVENT_INDEX, 100).filter((e) => e.type !== 'poswCalibration')];
+    late.push(event('poswCalibration', 10_000, calibration));
+    expect(analyzePoswTiming(late).status).toBe('uncalibrated');
+
+    const fast = analyzePoswTiming(session(10, 100, { ...calibration, elapsedMs: 0.0001 }));
+    expect(fast.status).toBe('implausible');
+    expect(fast.reason).toMatch(/above the plausible maximum/);
+
+    expect(analyzePoswTiming(session(10, 100, { iterations: ITERATIONS })).reason).toBe(
+      'PoSW calibration at event 1 is malformed'
+    );
+  });
+
+  it('caps the plausible rate per hash suite (ADR-0044)', () => {
+    // Argon2id の suite は 1 event 4 段。1 秒に 40,000 段は既定 suite なら遅すぎるくらいだが、Argon2id では届かない
+    const argon = (elapsedMs: number) =>
+      session(10, 100, { iterations: 4, elapsedMs, samples: 3 }).map(
+        (e) => ({ ...e, posw: { iterations: 4 } }) as StoredEvent
+      );
+    const claimed = analyzePoswTiming(argon(0.1), undefined, ARGON2ID_POSW_SUITE);
+    expect(claimed.status).toBe('implausible');
+    expect(claimed.reason).toBe('PoSW calibration claims 40000 iterations/s, above the plausible maximum 10000');
+    expect(analyzePoswTiming(argon(0.1)).status).toBe('consistent');
+
+    expect(analyzePoswTiming(argon(4), undefined, ARGON2ID_POSW_SUITE).status).toBe('consistent');
+    expect(analyzePoswTiming(argon(4), undefined, 'unknown-suite' as typeof ARGON2ID_POSW_SUITE).reason).toBe(
+      'PoSW calibration cannot be checked for an unsupported hash suite'
+    );
+  });
+});
+
+describe('recordPoswCalibration', () => {
+  const components: FingerprintComponents = {
+    userAgent: 'Mozilla/5.0 (PoSW Timing Test)',
+    language: 'en',
+    languages: ['en'],
+    platform: 'TestOS',
+    hardwareConcurrency: 4,
+    deviceMemory: 8,
+    screen: {
+      width: 1440,
+      height: 900,
+      availWidth: 1440,
+      availHeight: 860,
+      colorDepth: 24,
+      pixelDepth: 24,
+      devicePixelRatio: 2,
+    },
+    timezone: 'UTC',
+    timezoneOffset: 0,
+    canvas: 'mock-canvas',
+    webgl: { vendor: 'Mock', renderer: 'Mock' },
+    fonts: ['Arial'],
+    cookieEnabled: true,
+    doNotTrack: 'unspecified',
+    maxTouchPoints: 0,
+  };
+
+  it('records the calibration in the chain and the verifier derives a consistent timing', async () => {
+    const proof = new TypingProof();
+    await proof.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+    await proof.recordPoswCalibration();
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: 'a',
+      rangeOffset: 0,
+      rangeLength: 0,
+    });
+
+    const exported = { ...(await proof.exportProof('a')), content: 'a', language: 'c' };
+    expect(exported.proof.events[0]).toMatchObject({
+      type: 'poswCalibration',
+      data: { iterations: ITERATIONS, elapsedMs: 5, samples: 3 },
+    });
+
+    const result = await verifyProofFile(exported, undefined, { mode: 'fast' });
+    expect(result.valid).toBe(true);
+    expect(result.poswTiming).toMatchObject({ status: 'consistent', iterationsPerSecond: 2_000_000 });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * 前の proof からの継続と proof の列 (ADR-0041)
+ *
+ * - 継続した proof の root は前の proof の最終 chain hash と最終内容の hash にコミットし、単独で検証に通る。
+ * - continuation の差し替え・`sessionContinued` の欠落や内容の食い違いは検証で落ちる。
+ * - 列は link を確かめて検証でき、並べ直し・たどり直し・timeline の統合ができる。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すため fast モードで検証する
+ * (verifyChainModes.test.ts と同じ理由)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  TypingProof,
+  checkProofSeriesLinks,
+  collectProofSeries,
+  computeContinuationChainRoot,
+  computeHash,
+  createProofContinuation,
+  mergeProofSeries,
+  orderProofSeries,
+  summarizeProcess,
+  verifyProofFile,
+  verifyProofSeries,
+  type FingerprintComponents,
+  type ProofContinuation,
+  type MigratedProof,
+} from '../index.js';
+
+const createMockFingerprintComponents = (): FingerprintComponents => ({
+  userAgent: 'Mozilla/5.0 (Proof Continuation Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+});
+
+async function startSession(continuation?: ProofContinuation): Promise<TypingProof> {
+  const components = createMockFingerprintComponents();
+  const proof = new TypingProof();
+  await proof.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+  if (continuation) await proof.bindContinuation(continuation);
+  return proof;
+}
+
+async function type(proof: TypingProof, content: string, text: string): Promise<string> {
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  return content;
+}
+
+async function finish(proof: TypingProof, content: string): Promise<MigratedProof> {
+  return { ...(await proof.exportProof(content)), content, language: 'c' };
+}
+
+/** 前の proof に続けて text を打った proof */
+async function continueProof(previous: MigratedProof, text: string): Promise<MigratedProof> {
+  const proof = await startSession(createProofContinuation(previous));
+  await proof.recordSessionContinued(previous.content);
+  return finish(proof, await type(proof, previous.content, text));
+}
+
+describe('proof continuation', () => {
+  let first: MigratedProof;
+  let second: MigratedProof;
+
+  beforeAll(async () => {
+    const proof = await startSession();
+    first = await finish(proof, await type(proof, '', 'int a;\n'));
+    second = await continueProof(first, 'int b;\n');
+  });
+
+  it('commits the root to the previous final chain hash and content hash', async () => {
+    expect(second.continuation).toEqual({
+      previousFinalEventChainHash: first.typingProofData.finalEventChainHash,
+      previousContentHash: first.typingProofData.finalContentHash,
+    });
+    const baseRoot = await computeHash(second.fingerprint.hash + second.typingProofData.initialHashNonce);
+    expect(second.typingProofData.initialEventChainHash).toBe(
+      await computeContinuationChainRoot(baseRoot, second.continuation!)
+    );
+    expect(second.proof.events.map((e) => e.type).slice(0, 1)).toEqual(['sessionContinued']);
+
+    const result = await verifyProofFile(second, undefined, { mode: 'fast' });
+    expect(result.valid).toBe(true);
+    expect(second.content).toBe('int a;\nint b;\n');
+  });
+
+  it('fails the root when the continuation is removed or points at another proof', async () => {
+    const { continuation: _continuation, ...stripped } = second;
+    const strippedResult = await verifyProofFile(stripped, undefined, { mode: 'fast' });
+    expect(strippedResult.rootValid).toBe(false);
+    expect(strippedResult.contentValid).toBe(false);
+
+    const other = await continueProof(second, 'x');
+    const swapped = await verifyProofFile({ ...second, continuation: other.continuation }, undefined, {
+      mode: 'fast',
+    });
+    expect(swapped.rootValid).toBe(false);
+    expect(swapped.errorMessage).toBe(
+      'Initial event chain hash does not match fingerprint and nonce with the declared continuation'
+    );
+  });
+
+  it('fails replay when sessionContinued is missing or carries other content', async () => {
+    const missing = await startSession(createProofContinuation(first));
+    const missingResult = await verifyProofFile(await finish(missing, await type(missing, '', 'x')), undefined, {
+      mode: 'fast',
+    });
+    expect(missingResult.contentValid).toBe(false);
+    expect(missingResult.errorMessage).toBe('Continued proof has no sessionContinued event');
+
+    const forged = await startSession(createProofContinuation(first));
+    await forged.recordEvent({
+      type: 'sessionContinued',
+      data: { ...createProofContinuation(first), content: 'int z;\n', contentLength: 7 },
+    });
+    const forgedResult = await verifyProofFile(await finish(forged, 'int z;\n'), undefined, { mode: 'fast' });
+    expect(forgedResult.contentValid).toBe(false);
+    expect(forgedResult.errorMessage).toBe('sessionContinued content does not match the previous content hash');
+  });
+
+  it('rejects continuing from other content or from an exam proof', async () => {
+    const proof = await startSession(createProofContinuation(first));
+    await expect(proof.recordSessionContinued('int z;\n')).rejects.toThrow(/does not match/);
+    expect(() => createProofContinuation({ ...first, exam: {} as MigratedProof['exam'] })).toThrow(/exam proof/);
+  });
+});
+
+describe('proof series', () => {
+  let parts: MigratedProof[];
+
+  beforeAll(async () => {
+    const proof = await startSession();
+    const a = await finish(proof, await type(proof, '', 'int a;\n'));
+    const b = await continueProof(a, 'int b;\n');
+    const c = await continueProof(b, 'int c;\n');
+    parts = [a, b, c];
+  });
+
+  it('verifies the parts and the links between them', async () => {
+    const result = await verifyProofSeries(parts, { mode: 'fast' });
+    expect(result.valid).toBe(true);
+    expect(result.parts.map((p) => p.link.status)).toEqual(['start', 'linked', 'linked']);
+
+    const reordered = await verifyProofSeries([parts[0]!, parts[2]!, parts[1]!], { mode: 'fast' });
+    expect(reordered.valid).toBe(false);
+    expect(reordered.reason).toBe('Part 2: Continuation does not match the previous final event chain hash');
+    expect(checkProofSeriesLinks(parts.slice(1))[0]).toMatchObject({ status: 'broken' });
+  });
+
+  it('orders a shuffled series and collects the parts before a proof', () => {
+    expect(orderProofSeries([parts[2]!, parts[0]!, parts[1]!])).toEqual(parts);
+    expect(() => orderProofSeries([parts[0]!, parts[2]!])).toThrow(/exactly one first proof \(found 2\)/);
+
+    expect(collectProofSeries(parts[2]!, parts)).toEqual({ proofs: parts, complete: true });
+    expect(collectProofSeries(parts[2]!, [parts[1]!])).toEqual({ proofs: parts.slice(1), complete: false });
+  });
+
+  it('merges the events into one timeline for the process summary', () => {
+    const merged = mergeProofSeries(parts);
+    const total = parts.reduce((sum, p) => sum + p.proof.events.length, 0);
+
+    expect(merged.events).toHaveLength(total);
+    expect(merged.events.map((e) => e.sequence)).toEqual([...Array(total).keys()]);
+    for (let i = 1; i < merged.events.length; i++) {
+      expect(merged.events[i]!.timestamp).toBeGreaterThanOrEqual(merged.events[i - 1]!.timestamp);
+    }
+    expect(merged.parts.map((p) => [p.firstEventIndex, p.lastEventIndex])).toEqual([
+      [0, 6],
+      [7, 14],
+      [15, 22],
+    ]);
+    expect(merged.content).toBe('int a;\nint b;\nint c;\n');
+
+    const summary = summarizeProcess(merged.events);
+    expect(summary.totalEvents).toBe(total);
+    expect(summary.insertedChars).toBe(21);
+  });
+});
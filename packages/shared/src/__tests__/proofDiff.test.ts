@@ -0,0 +1,128 @@
+/**
+ * 2 つの proof の構造的な差分
+ *
+ * - 同じ session から途中と最後に書き出した proof は root と先頭の events を共有し、短い方の長さで分かれる。
+ * - 同じ打鍵を別 session で作り直した proof は root も hash も食い違うが、編集内容は最後までそろう。
+ * - 打鍵が分かれた proof は、replay した文書が食い違う sequence と文字位置を返す。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返す (差分は PoSW を見ない)。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  PROOF_DIFF_SCHEMA,
+  TypingProof,
+  computeHash,
+  diffProofs,
+  replayContentAt,
+  type FingerprintComponents,
+  type ProofFile,
+} from '../index.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (Proof Diff Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+async function startSession(): Promise<TypingProof> {
+  const proof = new TypingProof();
+  await proof.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+  return proof;
+}
+
+/** 末尾に 1 文字ずつ打つ */
+async function type(proof: TypingProof, content: string, text: string): Promise<string> {
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  return content;
+}
+
+async function exportProof(proof: TypingProof, content: string): Promise<ProofFile> {
+  return { ...(await proof.exportProof(content)), content, language: 'c' };
+}
+
+describe('diffProofs', () => {
+  it('reports the shared prefix of two exports from the same session', async () => {
+    const session = await startSession();
+    const draft = await type(session, '', 'int x;');
+    const first = await exportProof(session, draft);
+    const final = await type(session, draft, '\nint y;');
+    const second = await exportProof(session, final);
+
+    const diff = diffProofs(first, second);
+    expect(diff).toMatchObject({
+      schema: PROOF_DIFF_SCHEMA,
+      identical: false,
+      sameInitialEventChainHash: true,
+      sharedPrefixLength: first.proof.events.length,
+      firstDivergentSequence: first.proof.events.length,
+      divergentEvents: { a: null, b: { sequence: first.proof.events.length, type: 'contentChange' } },
+      contentDivergence: { sequence: first.proof.events.length, offset: 6, line: 1, column: 7 },
+      sameFinalContent: false,
+    });
+
+    expect(diffProofs(second, second)).toMatchObject({
+      identical: true,
+      firstDivergentSequence: null,
+      divergentEvents: null,
+      contentDivergence: null,
+    });
+  });
+
+  it('separates a regenerated proof (same edits, new chain) from a diverging one', async () => {
+    const original = await startSession();
+    const a = await exportProof(original, await type(original, '', 'abc'));
+
+    const regenerated = await startSession();
+    const b = await exportProof(regenerated, await type(regenerated, '', 'abc'));
+
+    const diff = diffProofs(a, b);
+    expect(diff).toMatchObject({
+      sameInitialEventChainHash: false,
+      sharedPrefixLength: 0,
+      firstDivergentSequence: 0,
+      sameEditsPrefixLength: a.proof.events.length,
+      contentDivergence: null,
+      sameFinalContent: true,
+    });
+
+    const diverging = await startSession();
+    const c = await exportProof(diverging, await type(diverging, '', 'abd'));
+    const third = a.proof.events.findIndex((e) => e.data === 'c');
+    expect(diffProofs(a, c)).toMatchObject({
+      sameEditsPrefixLength: third,
+      contentDivergence: { sequence: third, offset: 2, line: 1, column: 3 },
+    });
+    expect(replayContentAt(c.proof.events, third)).toBe('abd');
+    expect(replayContentAt(c.proof.events, -1)).toBe('');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * 旧形式の proof の migration
+ *
+ * - 旧形式の特徴 (最上位の humanAttestation・rootAnchored / checkpoints の欠落・data: null の codeExecution) を
+ *   報告し、hash に入らないものだけを現行の形にそろえる。
+ * - そろえた proof の検証結果は元の proof と同じ (hash に入るフィールドに触れない)。
+ * - ストリーム検証のヘッダ (`migrateProofHeader`) も同じ形にそろえる。
+ * - `MIN_SUPPORTED_VERSION` より古い・version の無い proof は migrate しない。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すので、検証は fast で行う。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  PROOF_FORMAT_VERSION,
+  PROOF_VERSION_REPORT_SCHEMA,
+  TypingProof,
+  computeHash,
+  inspectProofVersion,
+  migrateProof,
+  migrateProofHeader,
+  verifyProofFile,
+  type FingerprintComponents,
+  type HumanAttestation,
+  type LegacyProofFile,
+} from '../index.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (Proof Migration Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+const legacyAttestation: HumanAttestation = {
+  verified: true,
+  score: 0.9,
+  action: 'create_proof',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  hostname: 'localhost',
+  signature: 'legacy-signature',
+};
+
+/** 'ab' を打ち、旧ビルドと同じ data: null の codeExecution を 1 件記録した proof */
+async function currentProof(): Promise<LegacyProofFile> {
+  const session = new TypingProof();
+  await session.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+  let content = '';
+  for (const ch of 'ab') {
+    await session.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  await session.recordEvent({ type: 'codeExecution', data: null });
+  return { ...(await session.exportProof(content)), content, language: 'c', filename: 'main.c' };
+}
+
+/** 1.0.0 の頃の形: rootAnchored / checkpoints / mode が無く、人間性の証明は最上位にある */
+function asLegacy(proof: LegacyProofFile): LegacyProofFile {
+  const { rootAnchored: _rootAnchored, checkpoints: _checkpoints, filename: _filename, ...rest } = proof;
+  return { ...rest, version: '1.0.0', humanAttestation: legacyAttestation };
+}
+
+describe('inspectProofVersion', () => {
+  it('reports only the hashed legacy features of a current proof', async () => {
+    const report = inspectProofVersion(await currentProof());
+
+    expect(report).toMatchObject({
+      schema: PROOF_VERSION_REPORT_SCHEMA,
+      declaredVersion: PROOF_FORMAT_VERSION,
+      currentVersion: PROOF_FORMAT_VERSION,
+      supported: true,
+      newerThanCurrent: false,
+    });
+    expect(report.features).toEqual([
+      { feature: 'code-execution-without-data', occurrences: 1, normalized: false },
+      { feature: 'mode-missing', occurrences: 1, normalized: false },
+    ]);
+    expect(inspectProofVersion({ ...(await currentProof()), version: '9.0.0' }).newerThanCurrent).toBe(true);
+  });
+});
+
+describe('migrateProof', () => {
+  it('normalizes the unhashed legacy fields without changing the verification result', async () => {
+    const current = await currentProof();
+    const legacy = asLegacy(current);
+    const { proof, report, legacyHumanAttestation } = migrateProof(legacy);
+
+    expect(report.declaredVersion).toBe('1.0.0');
+    expect(report.features.map((f) => [f.feature, f.normalized])).toEqual([
+      ['top-level-human-attestation', true],
+      ['code-execution-without-data', false],
+      ['root-anchored-flag-missing', true],
+      ['checkpoints-missing', true],
+      ['mode-missing', false],
+      ['filename-missing', false],
+    ]);
+    expect(legacyHumanAttestation).toEqual(legacyAttestation);
+    expect(proof).not.toHaveProperty('humanAttestation');
+    expect(proof.rootAnchored).toBe(false);
+    expect(proof.checkpoints).toEqual([]);
+    expect(proof.proof).toBe(legacy.proof);
+    expect(legacy).toHaveProperty('humanAttestation');
+
+    const before = await verifyProofFile(migrateProof(current).proof, undefined, { mode: 'fast' });
+    const after = await verifyProofFile(proof, undefined, { mode: 'fast' });
+    expect(before.valid).toBe(true);
+    expect(after).toMatchObject({ valid: true, rootAnchored: before.rootAnchored, chainValid: true });
+  });
+
+  it('normalizes a stream header the same way', async () => {
+    const {
+      proof: { events: _events, ...signature },
+      ...legacy
+    } = asLegacy(await currentProof());
+    const { header, legacyHumanAttestation } = migrateProofHeader({ ...legacy, proof: signature });
+
+    expect(legacyHumanAttestation).toEqual(legacyAttestation);
+    expect(header).not.toHaveProperty('humanAttestation');
+    expect(header).toMatchObject({ rootAnchored: false, checkpoints: [] });
+    expect(() => migrateProofHeader({ ...legacy, version: '0.9.0', proof: signature })).toThrow(
+      'Unsupported proof format version: 0.9.0 (minimum 1.0.0)'
+    );
+  });
+
+  it('refuses a proof older than the minimum supported version or without a version', async () => {
+    const proof = await currentProof();
+
+    expect(() => migrateProof({ ...proof, version: '0.9.0' })).toThrow(
+      'Unsupported proof format version: 0.9.0 (minimum 1.0.0)'
+    );
+    expect(() => migrateProof({ ...proof, version: undefined as unknown as string })).toThrow(
+      'Unsupported proof format version: (missing) (minimum 1.0.0)'
+    );
+  });
+});
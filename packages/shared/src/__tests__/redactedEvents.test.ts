@@ -0,0 +1,221 @@
+/**
+ * 伏せ字の events (未検証のメタデータ) と伏せ字バンドル (ADR-0043)
+ *
+ * - 打った文字を持つフィールドは長さとコミットメントに置き換わる。単独で検証できるのは hash の列
+ *   (hash chain・checkpoint の Merkle 根・署名 cp) だけで、成果物は `eventMetadata: 'unverified'` を名乗る。
+ * - 伏せた events の型・時刻は hash に束縛されないので、単独の検証では書き換えを検出できない。
+ *   Tier F と突き合わせる `checkRedactedEventsAgainstProof` が検出する。
+ * - `createRedactedBundle` は proof を検証してから Tier A (+ 伏せ字の events) を作る。
+ * - 伏せ字は秘匿ではない。短いテキストは公開された `hash` から総当たりで復元できる (それを固定する)。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すため、検証は fast モード。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  ANALYSIS_BUNDLE_SCHEMA,
+  REDACTED_EVENTS_SCHEMA,
+  TypingProof,
+  checkRedactedEventsAgainstProof,
+  computeHash,
+  createRedactedBundle,
+  createRedactedEvents,
+  deterministicStringify,
+  redactedBundleFiles,
+  verifyRedactedEventHashes,
+  type FingerprintComponents,
+  type MigratedProof,
+  type RedactedEventsArtifact,
+} from '../index.js';
+import { buildSignedCheckpoints, createTestKey, type TestKey } from './fixtures/signedCheckpointFixtures.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (Redaction Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+/** text を 1 文字ずつ打ち、途中でタブを離れた proof */
+async function buildProof(text = 'secret();\n'): Promise<MigratedProof> {
+  const proof = new TypingProof();
+  await proof.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+
+  let content = '';
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+      description: `typed ${ch}`,
+    });
+    content += ch;
+    if (content.length === 3) {
+      await proof.recordEvent({ type: 'visibilityChange', data: { visible: false, visibilityState: 'hidden' } });
+    }
+  }
+  return { ...(await proof.exportProof(content)), content, language: 'c', filename: 'main.c' };
+}
+
+describe('redacted events', () => {
+  let key: TestKey;
+  let proof: MigratedProof;
+
+  beforeAll(async () => {
+    key = await createTestKey();
+    const unsigned = await buildProof();
+    const events = unsigned.proof.events;
+    const checkpoints = await buildSignedCheckpoints({
+      events,
+      initialEventChainHash: events[0]!.previousHash!,
+      key,
+      eventIndexes: [4, events.length - 1],
+      withMerkleRoot: true,
+    });
+    proof = { ...unsigned, checkpoints };
+  });
+
+  it('replaces typed text with lengths and commitments and keeps content-free data', async () => {
+    const artifact = await createRedactedEvents(proof);
+    const typed = artifact.events.filter((e) => e.type === 'contentChange');
+
+    expect(artifact.schema).toBe(REDACTED_EVENTS_SCHEMA);
+    expect(artifact.eventMetadata).toBe('unverified');
+    expect(typed).toHaveLength(proof.content.length);
+    for (const event of typed) {
+      expect(event).toMatchObject({ data: null, description: null, redacted: { data: { length: 1 } } });
+      expect(event.redacted.description!.length).toBe(7);
+    }
+    expect(artifact.events.find((e) => e.type === 'visibilityChange')!.data).toEqual({
+      visible: false,
+      visibilityState: 'hidden',
+    });
+    expect(JSON.stringify(artifact)).not.toContain('secret');
+
+    // 同じ文字でも位置ごとに違うコミットメントになり、素の SHA-256 でもない
+    // ('secret' の 2 つの 'e')
+    expect(typed[1]!.redacted.data!.commitment).not.toBe(typed[4]!.redacted.data!.commitment);
+    expect(typed.map((e) => e.redacted.data!.commitment)).not.toContain(await computeHash(JSON.stringify('s')));
+  });
+
+  it('verifies the hash chain, checkpoint roots and signatures without the text', async () => {
+    const artifact = JSON.parse(JSON.stringify(await createRedactedEvents(proof)));
+
+    const result = await verifyRedactedEventHashes(artifact, { registry: [key.registryEntry] });
+    expect(result).toMatchObject({ valid: true, anchored: true, eventCount: proof.proof.events.length });
+
+    const unsigned = await verifyRedactedEventHashes(await createRedactedEvents(await buildProof()));
+    expect(unsigned).toMatchObject({ valid: true, anchored: false });
+  });
+
+  it('rejects a broken hash chain, an unredacted field or a forged checkpoint root', async () => {
+    const artifact = await createRedactedEvents(proof);
+
+    const relinked = structuredClone(artifact);
+    relinked.events[2]!.hash = '0'.repeat(64);
+    expect(await verifyRedactedEventHashes(relinked, { registry: [key.registryEntry] })).toMatchObject({
+      valid: false,
+      reason: 'Previous hash mismatch at event 3',
+    });
+
+    const leaked = structuredClone(artifact);
+    leaked.events[1]!.data = 'e';
+    expect((await verifyRedactedEventHashes(leaked)).reason).toBe('Unredacted data at event 1');
+
+    const rerooted = structuredClone(artifact);
+    rerooted.checkpoints[0]!.merkleRoot = '0'.repeat(64);
+    expect((await verifyRedactedEventHashes(rerooted, { registry: [key.registryEntry] })).reason).toBe(
+      'Checkpoint Merkle root mismatch at event 4'
+    );
+  });
+
+  it('detects rewritten metadata only against the full proof', async () => {
+    const artifact = await createRedactedEvents(proof);
+    expect(await checkRedactedEventsAgainstProof(artifact, proof)).toEqual({ valid: true });
+
+    const retimed = structuredClone(artifact);
+    retimed.events[6]!.timestamp += 60_000;
+    expect((await verifyRedactedEventHashes(retimed, { registry: [key.registryEntry] })).valid).toBe(true);
+    expect(await checkRedactedEventsAgainstProof(retimed, proof)).toEqual({
+      valid: false,
+      reason: 'Redacted event 6 does not match the proof',
+      errorAt: 6,
+    });
+  });
+  it('does not hide short typed text: a 1-char insert is recovered from the published hash', async () => {
+    // event の hash の入力は、伏せた data 以外すべて伏せ字の events に載っている (previousHash・range・PoSW)。
+    // redacted.length で候補を絞り、印字可能な 1 文字を総当たりすれば hash が一致する。
+    const artifact = JSON.parse(JSON.stringify(await createRedactedEvents(proof))) as RedactedEventsArtifact;
+    const candidates = [...Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)), '\n', '\t'];
+
+    let recovered = '';
+    for (const event of artifact.events.filter((e) => e.type === 'contentChange')) {
+      const { sequence, timestamp, type, inputType, rangeOffset, rangeLength, range, previousHash, posw } = event;
+      for (const data of candidates.filter((c) => c.length === event.redacted.data!.length)) {
+        const hashed = deterministicStringify({
+          sequence,
+          timestamp,
+          type,
+          inputType,
+          data,
+          rangeOffset,
+          rangeLength,
+          range,
+          previousHash,
+          posw,
+        });
+        if ((await computeHash(`${previousHash}${hashed}`)) === event.hash) {
+          recovered += data;
+          break;
+        }
+      }
+    }
+
+    expect(recovered).toBe(proof.content);
+  });
+});
+
+describe('createRedactedBundle', () => {
+  it('verifies the proof and emits a content-free analysis bundle with optional redacted events', async () => {
+    const proof = await buildProof();
+
+    const bundle = await createRedactedBundle(proof, { mode: 'fast', includeRedactedEvents: true });
+    expect(bundle.verification.valid).toBe(true);
+    expect(bundle.analysisBundle).toMatchObject({
+      schema: ANALYSIS_BUNDLE_SCHEMA,
+      filename: 'main.c',
+      integrityValid: true,
+      assurance: { integrity: 'partial' },
+    });
+    expect(await checkRedactedEventsAgainstProof(bundle.redactedEvents!, proof)).toEqual({ valid: true });
+
+    const files = redactedBundleFiles('main', bundle);
+    expect(files.map((f) => f.name)).toEqual(['main_analysis.json', 'main_events.redacted.json']);
+    for (const file of files) expect(file.content).not.toContain('secret');
+
+    const analysisOnly = await createRedactedBundle(proof, { mode: 'fast' });
+    expect(analysisOnly.redactedEvents).toBeUndefined();
+    expect(redactedBundleFiles('main', analysisOnly)).toHaveLength(1);
+  });
+});
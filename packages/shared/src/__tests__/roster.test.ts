@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { parseRosterCsv, reconcileRoster, type RosterEntry, type RosterSubmission } from '../exam/index.js';
+
+function submission(source: string, overrides: Partial<RosterSubmission> = {}): RosterSubmission {
+  return {
+    source,
+    label: source,
+    exam: { examId: 'final-2026', problemId: 'p1', variant: 'A' },
+    deviceId: 'dev-1',
+    ...overrides,
+  };
+}
+
+const manifest = { examId: 'final-2026', releaseTime: '2026-06-06T00:00:00Z', deadline: '2026-06-06T01:00:00Z' };
+
+describe('parseRosterCsv', () => {
+  it('reads the known columns by header name and ignores the others', () => {
+    const csv =
+      '\uFEFFStudent_ID,name,variant,pattern,submitted_at\r\n' +
+      's001,"Smith, Alice",A,,2026-06-06T00:40:00Z\r\n' +
+      's002,Bob,B,bob_*.zip,\r\n' +
+      '\r\n';
+    expect(parseRosterCsv(csv)).toEqual([
+      { studentId: 's001', variant: 'A', submittedAt: '2026-06-06T00:40:00Z' },
+      { studentId: 's002', variant: 'B', pattern: 'bob_*.zip' },
+    ]);
+  });
+
+  it('rejects a roster without a student_id column, or with an empty / duplicate id', () => {
+    expect(() => parseRosterCsv('id,variant\ns001,A\n')).toThrow('student_id');
+    expect(() => parseRosterCsv('student_id,variant\n,A\n')).toThrow('line 2');
+    expect(() => parseRosterCsv('student_id\ns001\ns001\n')).toThrow('duplicate');
+    expect(() => parseRosterCsv('student_id,submitted_at\ns001,yesterday\n')).toThrow('submitted_at');
+  });
+});
+
+describe('reconcileRoster', () => {
+  const roster: RosterEntry[] = [
+    { studentId: 's001', variant: 'A' },
+    { studentId: 's002', variant: 'B' },
+    { studentId: 's003' },
+  ];
+
+  it('matches submissions by student id token and reports who is missing', () => {
+    const report = reconcileRoster(roster, [submission('alice_s001_ALL_TC.zip'), submission('stray.zip')]);
+
+    expect(report.students[0]).toEqual({ studentId: 's001', sources: ['alice_s001_ALL_TC.zip'], issues: [] });
+    expect(report.students[1]!.issues).toEqual([{ kind: 'missing' }]);
+    expect(report.students[2]!.issues).toEqual([{ kind: 'missing' }]);
+    expect(report.unmatched).toEqual(['stray.zip']);
+    expect(report.counts).toEqual({ students: 3, submitted: 1, missing: 2, withIssues: 0 });
+  });
+
+  it('does not count the tabs of one ZIP as duplicates, but does count a second file', () => {
+    const tabs = [
+      submission('s001.zip', { label: 's001.zip#q1_proof.json' }),
+      submission('s001.zip', { label: 's001.zip#q2_proof.json' }),
+    ];
+    expect(reconcileRoster(roster, tabs).students[0]!.issues).toEqual([]);
+
+    const twice = reconcileRoster(roster, [...tabs, submission('s001_resubmit.zip')]);
+    expect(twice.students[0]!.issues).toContainEqual({
+      kind: 'duplicate',
+      sources: ['s001.zip', 's001_resubmit.zip'],
+    });
+  });
+
+  it('flags a wrong variant, a wrong package and a non-exam proof', () => {
+    const report = reconcileRoster(
+      roster,
+      [
+        submission('s001.zip', { exam: { examId: 'final-2026', problemId: 'p1', variant: 'B' } }),
+        submission('s002.zip', { exam: { examId: 'midterm', problemId: 'p1', variant: 'B' } }),
+        submission('s003.zip', { exam: null }),
+      ],
+      { manifest }
+    );
+    expect(report.students[0]!.issues).toEqual([
+      { kind: 'mismatch', label: 's001.zip', field: 'variant', expected: 'A', actual: 'B' },
+    ]);
+    expect(report.students[1]!.issues).toEqual([
+      { kind: 'mismatch', label: 's002.zip', field: 'examId', expected: 'final-2026', actual: 'midterm' },
+    ]);
+    expect(report.students[2]!.issues).toEqual([
+      { kind: 'mismatch', label: 's003.zip', field: 'exam', expected: 'final-2026', actual: null },
+    ]);
+  });
+
+  it('checks the roster submission time against the package window, else the verified time-box', () => {
+    const late = reconcileRoster(
+      [{ studentId: 's001', submittedAt: '2026-06-06T01:05:00Z' }],
+      [submission('s001.zip')],
+      {
+        manifest,
+      }
+    );
+    expect(late.students[0]!.issues).toEqual([
+      { kind: 'out-of-time-box', source: 's001.zip', submittedAt: '2026-06-06T01:05:00Z' },
+    ]);
+
+    const verified = reconcileRoster([{ studentId: 's001' }], [submission('s001.zip', { withinWindow: false })]);
+    expect(verified.students[0]!.issues).toEqual([{ kind: 'out-of-time-box', source: 's001.zip' }]);
+  });
+
+  it('flags proofs of one student made on more than one device', () => {
+    const report = reconcileRoster(roster, [
+      submission('s001.zip', { label: 's001.zip#q1_proof.json', deviceId: 'dev-1' }),
+      submission('s001.zip', { label: 's001.zip#q2_proof.json', deviceId: 'dev-2' }),
+    ]);
+    expect(report.students[0]!.issues).toEqual([{ kind: 'multiple-devices', deviceIds: ['dev-1', 'dev-2'] }]);
+    expect(report.counts.withIssues).toBe(1);
+  });
+
+  it('uses the glob pattern when given and keeps a submission matching two students aside', () => {
+    const report = reconcileRoster(
+      [
+        { studentId: 's001', pattern: 'Alice*' },
+        { studentId: 's002', pattern: '*smith*' },
+      ],
+      [submission('alice_smith.zip'), submission('ALICE_jones.zip')]
+    );
+    expect(report.students[0]!.sources).toEqual(['ALICE_jones.zip']);
+    expect(report.ambiguous).toEqual([{ source: 'alice_smith.zip', studentIds: ['s001', 's002'] }]);
+    expect(report.students[1]!.issues).toEqual([{ kind: 'missing' }]);
+  });
+});
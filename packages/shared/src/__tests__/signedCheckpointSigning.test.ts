@@ -105,6 +105,13 @@ describe('validateSignedCheckpointInput', () => {
     expect(r.ok).toBe(false);
   });
 
+  it('accepts an optional merkleRoot and rejects a non-hex one (ADR-0040)', () => {
+    const ok = validateSignedCheckpointInput({ ...baseInputRaw, merkleRoot: 'd'.repeat(64) });
+    expect(ok.ok && ok.input.merkleRoot).toBe('d'.repeat(64));
+    expect(validateSignedCheckpointInput({ ...baseInputRaw, merkleRoot: 'D'.repeat(64) }).ok).toBe(false);
+    expect(validateSignedCheckpointInput({ ...baseInputRaw, merkleRoot: null }).ok).toBe(false);
+  });
+
   it('rejects an over-long sessionId', () => {
     const r = validateSignedCheckpointInput({ ...baseInputRaw, sessionId: 'x'.repeat(201) });
     expect(r.ok).toBe(false);
@@ -138,6 +145,21 @@ describe('createSignedCheckpointEnvelope', () => {
     expect(envelope.signature).toMatch(/^[0-9a-f]+$/);
   });
 
+  it('signs merkleRoot only when the input carries one (ADR-0040)', async () => {
+    const server = { serverTimestamp: '2026-05-28T12:00:01.000Z', firstSeenAt: '2026-05-28T12:00:00.500Z' };
+    const signer = { keyId: key.keyId, privateKey: key.privateKey };
+    const v = validateSignedCheckpointInput({ ...baseInputRaw, merkleRoot: 'd'.repeat(64) });
+    const legacy = validateSignedCheckpointInput(baseInputRaw);
+    if (!v.ok || !legacy.ok) throw new Error('input invalid');
+
+    const withRoot = await createSignedCheckpointEnvelope(v.input, server, signer);
+    const withoutRoot = await createSignedCheckpointEnvelope(legacy.input, server, signer);
+
+    expect(withRoot.payload.merkleRoot).toBe('d'.repeat(64));
+    expect(await verifyCheckpointSignature(withRoot, [key.registryEntry])).toMatchObject({ valid: true });
+    expect('merkleRoot' in withoutRoot.payload).toBe(false);
+  });
+
   it('produces a signature that verifyCheckpointSignature accepts', async () => {
     const v = validateSignedCheckpointInput(baseInputRaw);
     if (!v.ok) throw new Error('input invalid');
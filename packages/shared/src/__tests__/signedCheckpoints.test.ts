@@ -66,7 +66,7 @@ const createMockFingerprintComponents = (): FingerprintComponents => ({
 
 async function buildSmallProof(charCount = 4): Promise<{
   proof: TypingProof;
-  exported: ExportedProof;
+  exported: ExportedProof & { checkpoints: CheckpointData[] };
   events: StoredEvent[];
   initialEventChainHash: string;
   content: string;
@@ -896,6 +896,12 @@ describe('isIdempotentSigningRetry', () => {
     expect(isIdempotentSigningRetry(input, cachedPayload)).toBe(false);
   });
 
+  it('returns false when only one side carries a merkleRoot (ADR-0040)', () => {
+    const input = { ...baseInput, merkleRoot: 'bb'.repeat(32) };
+    expect(isIdempotentSigningRetry(input, cachedPayload)).toBe(false);
+    expect(isIdempotentSigningRetry(input, { ...cachedPayload, merkleRoot: 'bb'.repeat(32) })).toBe(true);
+  });
+
   it('treats null === null for previousSignedCheckpointHash', () => {
     const input = { ...baseInput, previousSignedCheckpointHash: null };
     const cached = { ...cachedPayload, previousSignedCheckpointHash: null };
@@ -0,0 +1,237 @@
+/**
+ * ストリーム検証 (ADR-0039)
+ *
+ * - `verifyProofStream` は events を 1 件ずつ読むだけで `verifyProofFile` と同じ結果を返す
+ *   (`verifyProofFile` 自体がこれに委譲するので、既存の検証テストもこの経路を通る)。
+ * - `readProofEventStream` は JSON テキストを chunk で読み、キー順・chunk 境界・エスケープに
+ *   関わらず `JSON.parse` と同じヘッダと events を返す。
+ * - `openProofEntriesFromZip` は ZIP の JSON エントリを解凍しながら、何度でも先頭から読ませる。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すため、検証は 'fast' / 'audit' で呼ぶ
+ * (verifyChainModes.test.ts と同じ理由)。
+ */
+
+import JSZip from 'jszip';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  TypingProof,
+  computeHash,
+  encodeBinaryProof,
+  openProofEntriesFromZip,
+  readProofEventStream,
+  textChunks,
+  toProofEventStream,
+  verifyProofFile,
+  verifyProofStream,
+  type FingerprintComponents,
+  type ProofEventStream,
+  type MigratedProof,
+  type StoredEvent,
+} from '../index.js';
+
+const createMockFingerprintComponents = (): FingerprintComponents => ({
+  userAgent: 'Mozilla/5.0 (Streaming Verification Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+});
+
+/** JSON の区切り文字・エスケープ・マルチバイト文字を含む内容を打った正規の proof */
+async function buildGenuineProof(text = 'a"]}\\{[,あ'): Promise<MigratedProof> {
+  const components = createMockFingerprintComponents();
+  const fingerprintHash = await computeHash(JSON.stringify(components, null, 0));
+  const proof = new TypingProof();
+  await proof.initialize(fingerprintHash, components);
+
+  let content = '';
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+
+  return { ...(await proof.exportProof(content)), content, language: 'text' };
+}
+
+async function collect(stream: ProofEventStream): Promise<unknown[]> {
+  const events: unknown[] = [];
+  for await (const event of stream.events ?? []) events.push(event);
+  return events;
+}
+
+function withoutEvents(proof: MigratedProof): unknown {
+  const { events: _events, ...signature } = proof.proof;
+  return { ...proof, proof: signature };
+}
+
+let genuine: MigratedProof;
+
+beforeAll(async () => {
+  genuine = await buildGenuineProof();
+});
+
+describe('readProofEventStream', () => {
+  it('returns the same header and events as JSON.parse across small chunks', async () => {
+    const stream = await readProofEventStream(textChunks(JSON.stringify(genuine), 7));
+
+    expect(stream.header).toEqual(withoutEvents(genuine));
+    expect(stream.eventCount).toBe(genuine.proof.events.length);
+    expect(stream.lastEventHash).toBe(genuine.proof.events.at(-1)?.hash);
+    expect(await collect(stream)).toEqual(genuine.proof.events);
+  });
+
+  it('reads events that come before the rest of the header, with whitespace', async () => {
+    const { events, ...signature } = genuine.proof;
+    const { proof: _proof, ...rest } = genuine;
+    const text = JSON.stringify({ proof: { events, ...signature }, ...rest }, null, 2);
+
+    const stream = await readProofEventStream(textChunks(text, 5));
+
+    expect(stream.header).toEqual(withoutEvents(genuine));
+    expect(await collect(stream)).toEqual(events);
+  });
+
+  it('decodes UTF-8 bytes split inside a multibyte character', async () => {
+    const bytes = new TextEncoder().encode(JSON.stringify(genuine));
+    const source = function* () {
+      for (let i = 0; i < bytes.length; i += 3) yield bytes.subarray(i, i + 3);
+    };
+
+    const stream = await readProofEventStream(source);
+
+    expect(stream.header.content).toBe(genuine.content);
+    expect(await collect(stream)).toEqual(genuine.proof.events);
+  });
+
+  it('leaves events null when proof.events is not an array', async () => {
+    const text = JSON.stringify({ ...genuine, proof: { ...genuine.proof, events: { length: 3 } } });
+
+    const stream = await readProofEventStream(textChunks(text));
+
+    expect(stream.events).toBeNull();
+    expect(stream.eventCount).toBe(0);
+  });
+
+  it('rejects truncated JSON and a missing comma between events', async () => {
+    const text = JSON.stringify(genuine);
+    await expect(readProofEventStream(textChunks(text.slice(0, -10)))).rejects.toThrow();
+
+    const [first, second] = genuine.proof.events;
+    const joined = `${JSON.stringify(first)} ${JSON.stringify(second)}`;
+    const broken = JSON.stringify({ ...genuine, proof: { ...genuine.proof, events: [] } }).replace(
+      '"events":[]',
+      `"events":[${joined}]`
+    );
+    await expect(readProofEventStream(textChunks(broken))).rejects.toThrow(/missing comma/);
+  });
+});
+
+describe('openProofEntriesFromZip', () => {
+  it('streams deflated JSON entries and decodes binary ones, skipping screenshots', async () => {
+    const zip = new JSZip();
+    zip.file('b_proof.tcproof', encodeBinaryProof(genuine));
+    zip.file('a_proof.json', JSON.stringify(genuine));
+    zip.file('screenshots/manifest.json', '[]');
+    const buffer = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+
+    const entries = await openProofEntriesFromZip(buffer);
+
+    expect(entries.map((e) => e.filename)).toEqual(['a_proof.json', 'b_proof.tcproof']);
+    const [json, binary] = entries;
+    if (!json || !('text' in json) || !binary || !('decoded' in binary)) throw new Error('unexpected entry kinds');
+    // readProofEventStream は text を 2 回読む (ヘッダの走査 → events)。2 回目も先頭から返ること
+    const stream = await readProofEventStream(json.text);
+    expect(stream.header).toEqual(withoutEvents(genuine));
+    expect(await collect(stream)).toEqual(genuine.proof.events);
+    expect(binary.decoded).toEqual(genuine);
+  });
+});
+
+describe('verifyProofStream', () => {
+  async function bothWays(proof: MigratedProof, options: Parameters<typeof verifyProofFile>[2]) {
+    const expected = await verifyProofFile(structuredClone(proof), undefined, options);
+    const stream = await readProofEventStream(textChunks(JSON.stringify(proof), 64));
+    return { expected, actual: await verifyProofStream(stream, undefined, options) };
+  }
+
+  it('matches verifyProofFile for a genuine proof read from JSON', async () => {
+    const { expected, actual } = await bothWays(genuine, { mode: 'fast' });
+
+    expect(actual.valid).toBe(true);
+    expect(actual).toEqual(expected);
+  });
+
+  it('matches verifyProofFile in audit mode (same sample from the tail hash)', async () => {
+    const { expected, actual } = await bothWays(genuine, { mode: 'audit', auditConfidence: 0.5 });
+
+    expect(actual.poswAudit).toBeDefined();
+    expect(actual).toEqual(expected);
+  });
+
+  it('matches verifyProofFile for a tampered event hash', async () => {
+    const events = genuine.proof.events.map((e, i) => (i === 1 ? { ...e, hash: '0'.repeat(64) } : e));
+    const { expected, actual } = await bothWays({ ...genuine, proof: { ...genuine.proof, events } }, { mode: 'fast' });
+
+    expect(actual.valid).toBe(false);
+    expect(actual).toEqual(expected);
+  });
+
+  it('matches verifyProofFile for null padding at the end of events (#221)', async () => {
+    const events = [...genuine.proof.events, null] as unknown as StoredEvent[];
+    const { expected, actual } = await bothWays({ ...genuine, proof: { ...genuine.proof, events } }, { mode: 'fast' });
+
+    expect(actual.metadataValid).toBe(false);
+    expect(actual).toEqual(expected);
+  });
+
+  it('checks exported checkpoints against the events it kept', async () => {
+    const event = genuine.proof.events[2]!;
+    const checkpoint = {
+      eventIndex: 2,
+      hash: event.hash,
+      timestamp: event.timestamp,
+      contentHash: await computeHash(typeof event.data === 'string' ? event.data : JSON.stringify(event.data)),
+    };
+
+    const good = await bothWays({ ...genuine, checkpoints: [checkpoint] }, { mode: 'fast' });
+    expect(good.actual.checkpointValid).toBe(true);
+    expect(good.actual).toEqual(good.expected);
+
+    const bad = await bothWays({ ...genuine, checkpoints: [{ ...checkpoint, timestamp: 0 }] }, { mode: 'fast' });
+    expect(bad.actual.errorMessage).toBe('Checkpoint timestamp mismatch at event 2');
+    expect(bad.actual).toEqual(bad.expected);
+  });
+
+  it('throws when the stream yields a different number of events than declared', async () => {
+    const stream = toProofEventStream(genuine);
+
+    await expect(verifyProofStream({ ...stream, eventCount: stream.eventCount + 1 })).rejects.toThrow(
+      /yielded \d+ of the declared/
+    );
+    await expect(verifyProofStream({ ...stream, eventCount: 1 })).rejects.toThrow(/more than the declared 1/);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * 提出レシート (ADR-0047) のテスト。
+ *
+ * - validateSubmissionReceiptInput: untrusted な要求 body の検査
+ * - createSubmissionReceipt / verifySubmissionReceipt (registry-only = C1、鍵の有効期間は serverTime で判定)
+ * - verifySubmissionReceiptForProof: レシートと proof の最終状態・セッション・タブの突合
+ * - verifyProofFile の `submissionReceipt`: 無効なレシートは全体を fail させる
+ * - extractSubmissionReceiptFromZip: ZIP 同梱のレシートの取り出し
+ *
+ * テスト鍵はファイル内で都度生成し、registry 引数でだけ注入する (グローバル registry に触れない)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import {
+  SUBMISSION_RECEIPT_FORMAT_VERSION,
+  TypingProof,
+  computeHash,
+  createSubmissionReceipt,
+  extractFirstProofFromZip,
+  extractSubmissionReceiptFromZip,
+  hashSubmissionReceiptPayload,
+  parseSubmissionReceipt,
+  validateSubmissionReceiptInput,
+  verifyProofFile,
+  verifySubmissionReceipt,
+  verifySubmissionReceiptForProof,
+  type CheckpointPublicKey,
+  type FingerprintComponents,
+  type MigratedProof,
+  type SubmissionReceipt,
+  type SubmissionReceiptInput,
+} from '../index.js';
+import { buildSignedCheckpoints, createTestKey, type TestKey } from './fixtures/signedCheckpointFixtures.js';
+
+const SERVER_TIME = '2026-10-19T09:00:00.000Z';
+const SESSION_ID = 'session-receipt';
+const TAB_ID = 'tab-main';
+
+const createMockFingerprintComponents = (): FingerprintComponents => ({
+  userAgent: 'Mozilla/5.0 (Submission Receipt Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+});
+
+async function buildProof(text: string): Promise<MigratedProof> {
+  const components = createMockFingerprintComponents();
+  const fingerprintHash = await computeHash(JSON.stringify(components, null, 0));
+  const proof = new TypingProof();
+  await proof.initialize(fingerprintHash, components);
+  let content = '';
+  for (const ch of text) {
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  const exported = await proof.exportProof(content);
+  return { ...exported, content, language: 'text' };
+}
+
+function inputFor(proofs: readonly MigratedProof[], tabIds: readonly string[]): SubmissionReceiptInput {
+  return {
+    sessionId: SESSION_ID,
+    tabIds: [...tabIds],
+    finalChainHashes: proofs.map((p) => p.typingProofData.finalEventChainHash),
+    finalContentHashes: proofs.map((p) => p.typingProofData.finalContentHash),
+  };
+}
+
+let testKey: TestKey;
+let registry: CheckpointPublicKey[];
+let signed: MigratedProof;
+let other: MigratedProof;
+
+beforeAll(async () => {
+  testKey = await createTestKey();
+  registry = [testKey.registryEntry];
+  signed = await buildProof('abc');
+  signed.checkpoints = await buildSignedCheckpoints({
+    events: signed.proof.events,
+    initialEventChainHash: signed.typingProofData.initialEventChainHash!,
+    key: testKey,
+    sessionId: SESSION_ID,
+    tabId: TAB_ID,
+  });
+  other = await buildProof('xyz');
+});
+
+async function receiptFor(proofs: readonly MigratedProof[], tabIds: readonly string[]): Promise<SubmissionReceipt> {
+  return createSubmissionReceipt(inputFor(proofs, tabIds), SERVER_TIME, {
+    keyId: testKey.keyId,
+    privateKey: testKey.privateKey,
+  });
+}
+
+describe('validateSubmissionReceiptInput', () => {
+  const valid = {
+    sessionId: SESSION_ID,
+    tabIds: ['t1', 't2'],
+    finalChainHashes: ['a'.repeat(64), 'b'.repeat(64)],
+    finalContentHashes: ['c'.repeat(64), 'd'.repeat(64)],
+  };
+
+  it('accepts index-aligned tabs and hashes', () => {
+    expect(validateSubmissionReceiptInput({ ...valid, extra: 1 })).toEqual({ ok: true, input: valid });
+  });
+
+  it('rejects misaligned, duplicated, empty or malformed entries', () => {
+    const cases: unknown[] = [
+      null,
+      { ...valid, sessionId: '' },
+      { ...valid, tabIds: [] },
+      { ...valid, tabIds: ['t1'] },
+      { ...valid, tabIds: ['t1', 't1'] },
+      { ...valid, finalChainHashes: ['a'.repeat(64), 'XYZ'] },
+      { ...valid, finalContentHashes: 'c'.repeat(64) },
+      { ...valid, tabIds: Array.from({ length: 65 }, (_, i) => `t${i}`) },
+    ];
+    for (const raw of cases) {
+      expect(validateSubmissionReceiptInput(raw).ok).toBe(false);
+    }
+  });
+});
+
+describe('submission receipt signature (registry-only)', () => {
+  it('verifies a freshly signed receipt and carries the current format version', async () => {
+    const receipt = await receiptFor([signed], [TAB_ID]);
+    expect(receipt.payload.version).toBe(SUBMISSION_RECEIPT_FORMAT_VERSION);
+    expect(receipt.payload.serverTime).toBe(SERVER_TIME);
+    expect(await verifySubmissionReceipt(receipt, registry)).toEqual({ valid: true, keyId: testKey.keyId });
+  });
+
+  it('rejects unknown keys, tampered payloads and keys revoked before serverTime', async () => {
+    const receipt = await receiptFor([signed], [TAB_ID]);
+    expect((await verifySubmissionReceipt(receipt, [])).reason).toMatch(/Unknown keyId/);
+
+    const tampered: SubmissionReceipt = {
+      ...receipt,
+      payload: { ...receipt.payload, serverTime: '2026-10-20T00:00:00.000Z' },
+    };
+    expect((await verifySubmissionReceipt(tampered, registry)).reason).toMatch(/signature is invalid/);
+
+    const revoked: CheckpointPublicKey = { ...testKey.registryEntry, status: 'revoked', revokedAt: SERVER_TIME };
+    expect((await verifySubmissionReceipt(receipt, [revoked])).reason).toMatch(/revoked at or before serverTime/);
+  });
+
+  it('parses only receipt-shaped JSON', async () => {
+    const receipt = await receiptFor([signed], [TAB_ID]);
+    expect(parseSubmissionReceipt(JSON.parse(JSON.stringify(receipt)))).toEqual(receipt);
+    expect(parseSubmissionReceipt({ payload: {}, signature: 'x', keyId: 'k', algorithm: 'ECDSA-P256' })).toBeNull();
+    expect(parseSubmissionReceipt([])).toBeNull();
+  });
+});
+
+describe('verifySubmissionReceiptForProof', () => {
+  it('finds the proof among the receipt tabs', async () => {
+    const receipt = await receiptFor([other, signed], ['tab-other', TAB_ID]);
+    const result = await verifySubmissionReceiptForProof(receipt, signed, { registry });
+    expect(result).toEqual({
+      valid: true,
+      keyId: testKey.keyId,
+      serverTime: SERVER_TIME,
+      tabId: TAB_ID,
+      receiptHash: await hashSubmissionReceiptPayload(receipt.payload),
+    });
+  });
+
+  it('fails a proof whose final state the receipt does not cover', async () => {
+    const receipt = await receiptFor([other], ['tab-other']);
+    const result = await verifySubmissionReceiptForProof(receipt, signed, { registry });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('Submission receipt does not cover this proof');
+    expect(result.serverTime).toBe(SERVER_TIME);
+  });
+
+  it('fails when the final content differs for the same chain hash', async () => {
+    const input = inputFor([signed], [TAB_ID]);
+    input.finalContentHashes = ['0'.repeat(64)];
+    const receipt = await createSubmissionReceipt(input, SERVER_TIME, {
+      keyId: testKey.keyId,
+      privateKey: testKey.privateKey,
+    });
+    const result = await verifySubmissionReceiptForProof(receipt, signed, { registry });
+    expect(result.reason).toBe('Submission receipt final content hash does not match the proof');
+  });
+
+  it('binds the receipt to the session and tab of the signed checkpoints', async () => {
+    const wrongTab = await receiptFor([signed], ['tab-elsewhere']);
+    expect((await verifySubmissionReceiptForProof(wrongTab, signed, { registry })).reason).toBe(
+      'Submission receipt tabId does not match signed checkpoints'
+    );
+
+    const otherSession = await createSubmissionReceipt(
+      { ...inputFor([signed], [TAB_ID]), sessionId: 'session-elsewhere' },
+      SERVER_TIME,
+      { keyId: testKey.keyId, privateKey: testKey.privateKey }
+    );
+    expect((await verifySubmissionReceiptForProof(otherSession, signed, { registry })).reason).toBe(
+      'Submission receipt sessionId does not match the proof session'
+    );
+
+    // 署名 cp もトークンも無い proof はセッションを突き合わせられないので、最終 hash だけで束縛する。
+    const unsigned = await receiptFor([other], ['any-tab']);
+    expect((await verifySubmissionReceiptForProof(unsigned, other, { registry })).valid).toBe(true);
+  });
+});
+
+describe('verifyProofFile with a submission receipt', () => {
+  it('reports the receipt and keeps the proof valid when it matches', async () => {
+    const receipt = await receiptFor([signed], [TAB_ID]);
+    const result = await verifyProofFile(signed, undefined, {
+      mode: 'fast',
+      signedCheckpointKeyRegistry: registry,
+      submissionReceipt: receipt,
+    });
+    expect(result.valid).toBe(true);
+    expect(result.submissionReceipt).toMatchObject({ valid: true, serverTime: SERVER_TIME, tabId: TAB_ID });
+  });
+
+  it('fails the proof when the receipt does not match it', async () => {
+    const receipt = await receiptFor([other], [TAB_ID]);
+    const result = await verifyProofFile(signed, undefined, {
+      mode: 'fast',
+      signedCheckpointKeyRegistry: registry,
+      submissionReceipt: receipt,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.chainValid).toBe(true);
+    expect(result.errorMessage).toBe('Submission receipt does not cover this proof');
+  });
+
+  it('does not look for a receipt unless one is given', async () => {
+    const result = await verifyProofFile(signed, undefined, { mode: 'fast', signedCheckpointKeyRegistry: registry });
+    expect(result.valid).toBe(true);
+    expect(result.submissionReceipt).toBeUndefined();
+  });
+});
+
+describe('extractSubmissionReceiptFromZip', () => {
+  async function zipWith(files: Record<string, string>): Promise<ArrayBuffer> {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    return zip.generateAsync({ type: 'arraybuffer' });
+  }
+
+  it('reads the receipt at the ZIP root and never mistakes it for a proof', async () => {
+    const receipt = await receiptFor([signed], [TAB_ID]);
+    const buffer = await zipWith({
+      'submission-receipt.json': JSON.stringify(receipt),
+      'main_proof.json': JSON.stringify(signed),
+    });
+    expect(await extractSubmissionReceiptFromZip(buffer)).toEqual(receipt);
+    expect((await extractFirstProofFromZip(buffer)).typingProofHash).toBe(signed.typingProofHash);
+  });
+
+  it('returns null without a receipt and throws on a malformed one', async () => {
+    expect(await extractSubmissionReceiptFromZip(await zipWith({ 'main_proof.json': '{}' }))).toBeNull();
+    await expect(
+      extractSubmissionReceiptFromZip(await zipWith({ 'submission-receipt.json': '{"payload":1}' }))
+    ).rejects.toThrow('Malformed submission-receipt.json in ZIP');
+  });
+});
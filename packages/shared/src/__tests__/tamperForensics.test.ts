@@ -0,0 +1,172 @@
+/**
+ * 改ざんのフォレンジクス (検証に落ちた proof の書き換えの推定)
+ *
+ * - event の書き換え・挿入・削除は、自己 hash・連結・sequence の食い違いで位置まで分かる。
+ * - 連結を閉じたまま作り直した区間は、checkpoint に挟まれた区間を contentSnapshot で絞り込む。
+ * - 最終内容の差し替えと checkpoint の書き換えは、events の外の食い違いとして分類する。
+ *
+ * 注: PoSW は setup.ts の MockWorker が偽データを返すので、検証は fast で行い、分析も PoSW を見ない
+ * (`poswBudget: 0`)。
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  TAMPER_FORENSICS_SCHEMA,
+  TypingProof,
+  analyzeTampering,
+  computeHash,
+  deterministicStringify,
+  eventHashFields,
+  shouldAnalyzeTampering,
+  verifyProofFile,
+  type FingerprintComponents,
+  type MigratedProof,
+  type StoredEvent,
+} from '../index.js';
+
+const components: FingerprintComponents = {
+  userAgent: 'Mozilla/5.0 (Tamper Forensics Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+};
+
+/** 'abc' を打って snapshot、'def' を打って snapshot、'ghi' を打った proof (events 0–10) */
+async function typedProof(): Promise<MigratedProof> {
+  const session = new TypingProof();
+  await session.initialize(await computeHash(JSON.stringify(components, null, 0)), components);
+  let content = '';
+  for (const part of ['abc', 'def', 'ghi']) {
+    if (content) await session.recordContentSnapshot(content);
+    for (const ch of part) {
+      await session.recordEvent({
+        type: 'contentChange',
+        inputType: 'insertText',
+        data: ch,
+        rangeOffset: content.length,
+        rangeLength: 0,
+      });
+      content += ch;
+    }
+  }
+  return structuredClone({ ...(await session.exportProof(content)), content, language: 'c' });
+}
+
+function events(proof: MigratedProof): StoredEvent[] {
+  return proof.proof.events;
+}
+
+async function eventHash(event: StoredEvent): Promise<string> {
+  return computeHash(`${event.previousHash}${deterministicStringify({ ...eventHashFields(event), posw: event.posw })}`);
+}
+
+/** #from 以降の連結と hash を計算し直す (PoSW は作り直さない) */
+async function rehashFrom(proof: MigratedProof, from: number): Promise<void> {
+  const list = events(proof);
+  for (let i = from; i < list.length; i++) {
+    if (i > 0) list[i]!.previousHash = list[i - 1]!.hash;
+    list[i]!.hash = await eventHash(list[i]!);
+  }
+}
+
+describe('analyzeTampering', () => {
+  it('locates an edited event and leaves a valid proof without findings', async () => {
+    const intact = await typedProof();
+    const verified = await verifyProofFile(intact, undefined, { mode: 'fast' });
+    expect(shouldAnalyzeTampering(verified)).toBe(false);
+    expect(await analyzeTampering(intact, { poswBudget: 0 })).toEqual({
+      schema: TAMPER_FORENSICS_SCHEMA,
+      eventCount: 11,
+      findings: [],
+      poswChecked: 0,
+    });
+
+    const edited = await typedProof();
+    events(edited)[1]!.data = 'X';
+    events(edited)[2]!.data = 'Y';
+    expect(shouldAnalyzeTampering(await verifyProofFile(edited, undefined, { mode: 'fast' }))).toBe(true);
+
+    const report = await analyzeTampering(edited, { poswBudget: 0 });
+    expect(report.findings).toEqual([
+      expect.objectContaining({ kind: 'event-data-edited', fromEvent: 1, toEvent: 2, evidence: ['event-hash'] }),
+    ]);
+  });
+
+  it('tells an inserted event from a deleted one', async () => {
+    const inserted = await typedProof();
+    const list = events(inserted);
+    const extra: StoredEvent = { ...list[2]!, data: 'Z', previousHash: list[2]!.hash };
+    extra.hash = await eventHash(extra);
+    list.splice(3, 0, extra);
+
+    expect((await analyzeTampering(inserted, { poswBudget: 0 })).findings).toEqual([
+      expect.objectContaining({ kind: 'event-inserted', fromEvent: 3, toEvent: 3, eventCount: 1 }),
+    ]);
+
+    const deleted = await typedProof();
+    events(deleted).splice(5, 2);
+
+    expect((await analyzeTampering(deleted, { poswBudget: 0 })).findings).toEqual([
+      expect.objectContaining({
+        kind: 'event-deleted',
+        fromEvent: 4,
+        toEvent: 5,
+        eventCount: 2,
+        evidence: ['previous-hash-link', 'sequence'],
+      }),
+    ]);
+  });
+
+  it('narrows a regenerated chain to the snapshots around the rewrite', async () => {
+    const regenerated = await typedProof();
+    // 'def' の 'e' (#5) を書き換えて以降を作り直す: #7 の snapshot ('abcdef') が replay ('abcdXf') と合わなくなる
+    events(regenerated)[5]!.data = 'X';
+    await rehashFrom(regenerated, 5);
+
+    const report = await analyzeTampering(regenerated, { poswBudget: 0 });
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        kind: 'chain-regenerated',
+        fromEvent: 4,
+        toEvent: 7,
+        evidence: ['checkpoint', 'content-snapshot'],
+      }),
+    ]);
+  });
+
+  it('classifies a swapped final content and a rewritten checkpoint', async () => {
+    const swapped = await typedProof();
+    swapped.content = 'abcdefgh!';
+
+    expect((await analyzeTampering(swapped, { poswBudget: 0 })).findings).toEqual([
+      expect.objectContaining({ kind: 'final-content-swapped', fromEvent: null, evidence: ['final-content'] }),
+    ]);
+    expect((await analyzeTampering(swapped, { poswBudget: 0 })).findings[0]!.detail).toContain('offset 8');
+
+    const rewritten = await typedProof();
+    rewritten.checkpoints![0]!.contentHash = '0'.repeat(64);
+
+    expect((await analyzeTampering(rewritten, { poswBudget: 0 })).findings).toEqual([
+      expect.objectContaining({ kind: 'checkpoints-rewritten', fromEvent: 10, evidence: ['checkpoint'] }),
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * RFC 3161 タイムスタンプトークン (ADR-0049) のテスト。
+ *
+ * 構成:
+ * - fixtures/localTsa.ts の一時 TSA (ECDSA-P256 のルート CA + TSA 証明書) がトークンを発行する
+ * - 要求の作成と応答の照合 (editor 側)、トークンの検証 (検証器側) を往復で確かめる
+ * - verifySignedCheckpoints が TSA のアンカーを ECDSA 署名 cp と同じ枠で数えること
+ *
+ * 外部コマンドに頼らないので、実在の TSA や OpenSSL (`openssl ts -reply`) のトークンとの相互運用はここでは確かめない。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  TypingProof,
+  computeHash,
+  createTimestampRequest,
+  describeCertificate,
+  parseCertificatesPem,
+  parseTimestampToken,
+  readTimestampResponse,
+  verifySignedCheckpoints,
+  verifyTimestampToken,
+  type CheckpointData,
+  type FingerprintComponents,
+  type StoredEvent,
+  type TimestampTokenEnvelope,
+} from '../index.js';
+import { deriveAssurance } from '../assurance.js';
+import { createLocalTsa, type LocalTsa } from './fixtures/localTsa.js';
+
+const HASH = 'a'.repeat(64);
+
+function envelope(token: string): TimestampTokenEnvelope {
+  return { algorithm: 'RFC3161', token, clientTimestamp: '2026-10-19T09:00:00.000Z' };
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+let tsa: LocalTsa;
+let otherTsa: LocalTsa;
+
+beforeAll(async () => {
+  tsa = await createLocalTsa({ now: () => new Date('2026-10-19T09:00:01.250Z') });
+  otherTsa = await createLocalTsa({ name: 'Other TSA' });
+});
+
+describe('timestamp request and response', () => {
+  it('round-trips a request through the TSA and verifies the token against its root', async () => {
+    const request = createTimestampRequest(HASH);
+    const response = readTimestampResponse(await tsa.respond(request.der), { hash: HASH, nonce: request.nonce });
+    expect(response.ok).toBe(true);
+    if (!response.ok) return;
+    expect(response.info).toMatchObject({
+      genTime: '2026-10-19T09:00:01.250Z',
+      hashedMessage: HASH,
+      nonce: request.nonce,
+    });
+
+    const result = await verifyTimestampToken(envelope(response.token), HASH, [tsa.rootPem]);
+    expect(result).toMatchObject({ valid: true, tsaName: 'Test TSA', info: { genTime: '2026-10-19T09:00:01.250Z' } });
+    expect(parseTimestampToken(response.token)?.hashedMessage).toBe(HASH);
+  });
+
+  it('rejects responses for another request and TSA rejections', async () => {
+    const request = createTimestampRequest(HASH);
+    const response = await tsa.respond(request.der);
+    expect(readTimestampResponse(response, { hash: 'b'.repeat(64), nonce: request.nonce })).toEqual({
+      ok: false,
+      reason: 'TSA response is for a different hash',
+    });
+
+    const swapped = await createLocalTsa({ wrongNonce: true });
+    expect(readTimestampResponse(await swapped.respond(request.der), { hash: HASH, nonce: request.nonce })).toEqual({
+      ok: false,
+      reason: 'TSA response nonce does not match the request',
+    });
+
+    const rejecting = await createLocalTsa({ reject: 'bad request' });
+    expect(readTimestampResponse(await rejecting.respond(request.der), { hash: HASH, nonce: request.nonce })).toEqual({
+      ok: false,
+      reason: 'TSA rejected the request (status 2: bad request)',
+    });
+    expect(() => createTimestampRequest('not-a-hash')).toThrow(/SHA-256/);
+  });
+
+  it('reads the subject and validity of a root certificate', () => {
+    const [root] = parseCertificatesPem(tsa.rootPem);
+    expect(describeCertificate(root!)).toEqual({
+      subject: 'Test TSA Root',
+      notBefore: '2020-01-01T00:00:00.000Z',
+      notAfter: '2049-12-31T23:59:59.000Z',
+    });
+    expect(parseCertificatesPem('no certificates here')).toEqual([]);
+  });
+});
+
+describe('verifyTimestampToken', () => {
+  it('requires a configured root that the signer chains to', async () => {
+    const token = await tsa.stamp(HASH);
+    expect((await verifyTimestampToken(envelope(token), HASH, [])).reason).toBe(
+      'No TSA root certificates are configured to verify the timestamp token'
+    );
+    expect((await verifyTimestampToken(envelope(token), HASH, [otherTsa.rootPem])).reason).toBe(
+      'Timestamp token certificate Test TSA does not chain to a trusted TSA root'
+    );
+    expect(
+      (
+        await verifyTimestampToken(envelope(token), HASH, [
+          '-----BEGIN CERTIFICATE-----\nAAAA\n-----END CERTIFICATE-----',
+        ])
+      ).reason
+    ).toMatch(/^TSA root certificate cannot be parsed/);
+  });
+
+  it('rejects a token over another hash', async () => {
+    const token = await tsa.stamp(HASH);
+    const result = await verifyTimestampToken(envelope(token), 'b'.repeat(64), [tsa.rootPem]);
+    expect(result).toMatchObject({
+      valid: false,
+      reason: 'Timestamp token messageImprint does not match the checkpoint hash',
+    });
+  });
+
+  it('rejects a token whose TSTInfo was edited after signing', async () => {
+    const token = decodeBase64(await tsa.stamp(HASH));
+    // genTime の秒の桁を書き換える (TSTInfo は signedAttrs の messageDigest で束縛されている)
+    const text = new TextDecoder('latin1').decode(token);
+    const at = text.indexOf('20261019') + 13;
+    token[at] = token[at] === 0x30 ? 0x31 : 0x30;
+    const result = await verifyTimestampToken(envelope(encodeBase64(token)), HASH, [tsa.rootPem]);
+    expect(result).toMatchObject({ valid: false, reason: 'Timestamp token messageDigest does not match its TSTInfo' });
+  });
+
+  it('rejects a signer certificate without the timeStamping extended key usage', async () => {
+    const noEku = await createLocalTsa({ withoutTimeStampingEku: true });
+    const result = await verifyTimestampToken(envelope(await noEku.stamp(HASH)), HASH, [noEku.rootPem]);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toMatch(/not a TSA certificate/);
+  });
+
+  it('rejects malformed and oversized tokens', async () => {
+    expect((await verifyTimestampToken(envelope('AAAA'), HASH, [tsa.rootPem])).reason).toMatch(
+      /^Malformed timestamp token/
+    );
+    expect((await verifyTimestampToken(envelope('A'.repeat(70_000)), HASH, [tsa.rootPem])).reason).toBe(
+      'Timestamp token is missing or too large'
+    );
+  });
+});
+
+async function buildEvents(charCount: number): Promise<{ events: StoredEvent[]; initialEventChainHash: string }> {
+  const components = { userAgent: 'Mozilla/5.0 (Timestamp Token Test)' } as FingerprintComponents;
+  const proof = new TypingProof();
+  await proof.initialize(await computeHash(JSON.stringify(components)), components);
+  let content = '';
+  for (let i = 0; i < charCount; i++) {
+    const ch = String.fromCharCode('a'.charCodeAt(0) + i);
+    await proof.recordEvent({
+      type: 'contentChange',
+      inputType: 'insertText',
+      data: ch,
+      rangeOffset: content.length,
+      rangeLength: 0,
+    });
+    content += ch;
+  }
+  const exported = await proof.exportProof(content);
+  return { events: exported.proof.events, initialEventChainHash: exported.typingProofData.initialEventChainHash! };
+}
+
+describe('verifySignedCheckpoints with timestamp token anchors', () => {
+  let events: StoredEvent[];
+  let initialEventChainHash: string;
+
+  beforeAll(async () => {
+    ({ events, initialEventChainHash } = await buildEvents(4));
+  });
+
+  async function stampedCheckpoints(at: LocalTsa, indexes: number[]): Promise<CheckpointData[]> {
+    const out: CheckpointData[] = [];
+    for (const eventIndex of indexes) {
+      const event = events[eventIndex]!;
+      out.push({
+        eventIndex,
+        hash: event.hash,
+        timestamp: event.timestamp,
+        contentHash: 'c'.repeat(64),
+        signature: { ...envelope(await at.stamp(event.hash)), tsaUrl: at.url },
+      });
+    }
+    return out;
+  }
+
+  it('counts verified tokens as anchors', async () => {
+    let now = Date.parse('2026-10-19T09:00:00Z');
+    const ticking = await createLocalTsa({
+      now: () => {
+        now += 1000;
+        return new Date(now);
+      },
+    });
+    const checkpoints = await stampedCheckpoints(ticking, [1, 3]);
+    const result = await verifySignedCheckpoints(events, checkpoints, initialEventChainHash, {
+      tsaRootCertificates: [ticking.rootPem],
+    });
+    expect(result).toMatchObject({
+      valid: true,
+      anchored: true,
+      coverage: { signedCount: 2, lastSignedEventIndex: 3 },
+    });
+    expect(result.details.map((d) => d.timestampToken)).toEqual([
+      { genTime: '2026-10-19T09:00:01.000Z', tsaName: 'Test TSA' },
+      { genTime: '2026-10-19T09:00:02.000Z', tsaName: 'Test TSA' },
+    ]);
+
+    const assurance = deriveAssurance({
+      metadataValid: true,
+      chainValid: true,
+      rootAnchored: false,
+      signedCheckpoints: { anchored: result.anchored, valid: result.valid },
+      poswSkipped: false,
+      poswSampled: false,
+      isPureTyping: true,
+    });
+    expect(assurance.temporal).toBe('partial');
+  });
+
+  it('fails when the token cannot be verified or points elsewhere', async () => {
+    const checkpoints = await stampedCheckpoints(tsa, [1, 3]);
+    const untrusted = await verifySignedCheckpoints(events, checkpoints, initialEventChainHash);
+    expect(untrusted).toMatchObject({
+      valid: false,
+      anchored: true,
+      errorAt: 1,
+      reason: 'No TSA root certificates are configured to verify the timestamp token at event 1',
+    });
+
+    checkpoints[1]!.hash = events[2]!.hash;
+    const moved = await verifySignedCheckpoints(events, checkpoints, initialEventChainHash, {
+      tsaRootCertificates: [tsa.rootPem],
+    });
+    expect(moved).toMatchObject({ valid: false, errorAt: 3 });
+    expect(moved.reason).toMatch(/hash does not match event hash/);
+  });
+
+  it('rejects genTime going backwards between token anchors', async () => {
+    let now = Date.parse('2026-10-19T09:00:00Z');
+    const rewinding = await createLocalTsa({
+      now: () => {
+        now -= 1000;
+        return new Date(now);
+      },
+    });
+    const result = await verifySignedCheckpoints(
+      events,
+      await stampedCheckpoints(rewinding, [1, 3]),
+      initialEventChainHash,
+      { tsaRootCertificates: [rewinding.rootPem] }
+    );
+    expect(result).toMatchObject({
+      valid: false,
+      errorAt: 3,
+      reason: 'Timestamp token genTime goes backwards at event 3',
+    });
+  });
+});
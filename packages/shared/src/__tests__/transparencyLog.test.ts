@@ -0,0 +1,294 @@
+/**
+ * 透明性ログ (ADR-0046) のテスト。
+ *
+ * - Merkle の一貫性証明 (RFC 9162 §2.1.4) の作成と検証、節の取得関数から作る証明
+ * - 署名済みツリーヘッドの作成と registry-only の検証
+ * - 証拠 (ツリーヘッド + 含有証明) によるエントリの含有検証と、verifyProofSignedCheckpoints の opt-in
+ *
+ * テスト鍵はファイル内で都度生成し、registry 引数でだけ注入する (グローバル registry に触れない)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  EMPTY_TREE_ROOT,
+  TypingProof,
+  collectMerkleRangeProof,
+  computeHash,
+  computeMerkleRoot,
+  createMerkleConsistencyProof,
+  createMerkleRangeProof,
+  createSessionStartToken,
+  createSignedTreeHead,
+  hashSessionStartTokenPayload,
+  hashSignedCheckpointPayload,
+  merkleLeafHash,
+  merkleNodeHash,
+  transparencyLogLeafData,
+  verifyMerkleConsistency,
+  verifyProofSignedCheckpoints,
+  verifySignedTreeHead,
+  verifyTransparencyLogConsistency,
+  verifyTransparencyLogEvidence,
+  type CheckpointData,
+  type ExportedProof,
+  type FingerprintComponents,
+  type SignedCheckpointEnvelope,
+  type SignedTreeHead,
+  type TransparencyLogEntry,
+  type TransparencyLogEvidence,
+} from '../index.js';
+import { buildSignedCheckpoints, createTestKey, type TestKey } from './fixtures/signedCheckpointFixtures.js';
+
+const leaves = Array.from({ length: 9 }, (_, i) => `leaf-${i}`);
+
+const TIMESTAMP = '2026-10-19T00:00:00.000Z';
+
+const createMockFingerprintComponents = (): FingerprintComponents => ({
+  userAgent: 'Mozilla/5.0 (Transparency Log Test)',
+  language: 'en',
+  languages: ['en'],
+  platform: 'TestOS',
+  hardwareConcurrency: 4,
+  deviceMemory: 8,
+  screen: {
+    width: 1440,
+    height: 900,
+    availWidth: 1440,
+    availHeight: 860,
+    colorDepth: 24,
+    pixelDepth: 24,
+    devicePixelRatio: 2,
+  },
+  timezone: 'UTC',
+  timezoneOffset: 0,
+  canvas: 'mock-canvas',
+  webgl: { vendor: 'Mock', renderer: 'Mock' },
+  fonts: ['Arial'],
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  maxTouchPoints: 0,
+});
+
+function entry(i: number): TransparencyLogEntry {
+  return {
+    kind: i % 2 === 0 ? 'signed-checkpoint' : 'session-start-token',
+    payloadHash: i.toString(16).padStart(64, '0'),
+  };
+}
+
+/** テスト用のログ: エントリ列と、その先頭 treeSize 枚のツリーヘッド・証拠を作る */
+async function buildLog(key: TestKey, entries: readonly TransparencyLogEntry[], treeSize = entries.length) {
+  const leafData = entries.map(transparencyLogLeafData);
+  const rootHash = (await computeMerkleRoot(leafData.slice(0, treeSize))) ?? EMPTY_TREE_ROOT;
+  const treeHead = await createSignedTreeHead(
+    { treeSize, rootHash, timestamp: TIMESTAMP },
+    { keyId: key.keyId, privateKey: key.privateKey }
+  );
+  const inclusions = [];
+  for (let i = 0; i < treeSize; i++) {
+    const proof = await createMerkleRangeProof(leafData, treeSize, i, i);
+    inclusions.push({ entry: entries[i]!, leafIndex: i, siblings: proof.siblings });
+  }
+  return { leafData, treeHead, evidence: { treeHead, inclusions } satisfies TransparencyLogEvidence };
+}
+
+let testKey: TestKey;
+
+beforeAll(async () => {
+  testKey = await createTestKey();
+});
+
+describe('Merkle consistency proofs', () => {
+  it('round-trips for every pair of tree sizes', async () => {
+    for (let newSize = 1; newSize <= leaves.length; newSize++) {
+      const newRoot = (await computeMerkleRoot(leaves.slice(0, newSize)))!;
+      for (let oldSize = 1; oldSize <= newSize; oldSize++) {
+        const oldRoot = (await computeMerkleRoot(leaves.slice(0, oldSize)))!;
+        const proof = await createMerkleConsistencyProof(leaves, oldSize, newSize);
+        expect(await verifyMerkleConsistency(proof, oldRoot, newRoot)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects a rewritten old leaf, swapped roots and truncated proofs', async () => {
+    const oldRoot = (await computeMerkleRoot(leaves.slice(0, 5)))!;
+    const newRoot = (await computeMerkleRoot(leaves))!;
+    const proof = await createMerkleConsistencyProof(leaves, 5, leaves.length);
+
+    const rewritten = ['leaf-0', 'leaf-1', 'leaf-X', ...leaves.slice(3)];
+    expect(await verifyMerkleConsistency(proof, oldRoot, (await computeMerkleRoot(rewritten))!)).toBe(false);
+    expect(await verifyMerkleConsistency(proof, newRoot, oldRoot)).toBe(false);
+    expect(await verifyMerkleConsistency({ ...proof, hashes: proof.hashes.slice(1) }, oldRoot, newRoot)).toBe(false);
+    expect(await verifyMerkleConsistency({ ...proof, hashes: [] }, oldRoot, newRoot)).toBe(false);
+    expect(await verifyMerkleConsistency({ ...proof, oldSize: 6 }, oldRoot, newRoot)).toBe(false);
+  });
+
+  it('builds the same proofs from stored subtree roots as from the leaves', async () => {
+    const leafHashes = await Promise.all(leaves.map(merkleLeafHash));
+    const root = async (from: number, to: number): Promise<string> => {
+      if (to - from === 1) return leafHashes[from]!;
+      let k = 1;
+      while (k * 2 < to - from) k *= 2;
+      return merkleNodeHash(await root(from, from + k), await root(from + k, to));
+    };
+    for (let first = 0; first < leaves.length; first++) {
+      expect(await collectMerkleRangeProof(leaves.length, first, first, root)).toEqual(
+        await createMerkleRangeProof(leaves, leaves.length, first, first)
+      );
+    }
+  });
+});
+
+describe('signed tree heads', () => {
+  it('verifies against the registry and rejects a changed root or an unknown key', async () => {
+    const { treeHead } = await buildLog(testKey, [entry(0), entry(1)]);
+    expect(await verifySignedTreeHead(treeHead, [testKey.registryEntry])).toEqual({
+      valid: true,
+      keyId: testKey.keyId,
+    });
+
+    const tampered: SignedTreeHead = { ...treeHead, payload: { ...treeHead.payload, treeSize: 3 } };
+    expect((await verifySignedTreeHead(tampered, [testKey.registryEntry])).reason).toBe(
+      'Tree head signature is invalid'
+    );
+    expect((await verifySignedTreeHead(treeHead, [])).reason).toBe(`Unknown keyId: ${testKey.keyId}`);
+  });
+
+  it('rejects a tree head signed after the key was revoked', async () => {
+    const revoked = await createTestKey({ status: 'revoked', revokedAt: '2026-01-01T00:00:00Z' });
+    const { treeHead } = await buildLog(revoked, [entry(0)]);
+    const result = await verifySignedTreeHead(treeHead, [revoked.registryEntry]);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('revoked');
+  });
+
+  it('checks consistency between two tree heads', async () => {
+    const entries = Array.from({ length: 7 }, (_, i) => entry(i));
+    const older = await buildLog(testKey, entries, 3);
+    const newer = await buildLog(testKey, entries);
+    const proof = await createMerkleConsistencyProof(newer.leafData, 3, 7);
+
+    expect(await verifyTransparencyLogConsistency(proof, older.treeHead.payload, newer.treeHead.payload)).toBe(true);
+    expect(await verifyTransparencyLogConsistency(proof, newer.treeHead.payload, older.treeHead.payload)).toBe(false);
+
+    const empty = { treeSize: 0, rootHash: EMPTY_TREE_ROOT };
+    expect(
+      await verifyTransparencyLogConsistency({ oldSize: 0, newSize: 7, hashes: [] }, empty, newer.treeHead.payload)
+    ).toBe(true);
+    expect(EMPTY_TREE_ROOT).toBe(await computeHash(''));
+  });
+});
+
+describe('transparency log evidence', () => {
+  it('accepts entries that are all in the signed tree', async () => {
+    const entries = Array.from({ length: 6 }, (_, i) => entry(i));
+    const { evidence } = await buildLog(testKey, entries);
+    const result = await verifyTransparencyLogEvidence(evidence, [entries[4]!, entries[1]!], [testKey.registryEntry]);
+    expect(result).toMatchObject({ valid: true, checkedCount: 2, missing: [] });
+    expect(result.treeHead?.treeSize).toBe(6);
+  });
+
+  it('reports entries without a matching inclusion proof as missing', async () => {
+    const entries = Array.from({ length: 6 }, (_, i) => entry(i));
+    const { evidence } = await buildLog(testKey, entries);
+    const forged = { kind: 'signed-checkpoint' as const, payloadHash: 'f'.repeat(64) };
+    // 別の葉の含有証明をすり替えても根は合わない。
+    const swapped = { ...evidence, inclusions: [{ ...evidence.inclusions[2]!, entry: forged }] };
+
+    const result = await verifyTransparencyLogEvidence(swapped, [forged, entries[3]!], [testKey.registryEntry]);
+    expect(result.valid).toBe(false);
+    expect(result.missing).toEqual([forged, entries[3]]);
+    expect(result.reason).toBe('2 of 2 entries are not in the transparency log (tree size 6)');
+  });
+
+  it('fails every entry when the tree head is not trusted', async () => {
+    const { evidence } = await buildLog(testKey, [entry(0)]);
+    const result = await verifyTransparencyLogEvidence(evidence, [entry(0)], []);
+    expect(result).toMatchObject({ valid: false, treeHead: null, missing: [entry(0)] });
+  });
+});
+
+describe('verifyProofSignedCheckpoints with a transparency log', () => {
+  let exported: ExportedProof & { checkpoints: CheckpointData[] };
+
+  beforeAll(async () => {
+    const proof = new TypingProof();
+    await proof.initialize('a'.repeat(64), createMockFingerprintComponents());
+    for (const ch of 'abc') {
+      await proof.recordEvent({
+        type: 'contentChange',
+        inputType: 'insertText',
+        data: ch,
+        rangeOffset: 0,
+        rangeLength: 0,
+      });
+    }
+    exported = await proof.exportProof('cba');
+    exported.checkpoints = await buildSignedCheckpoints({
+      events: exported.proof.events,
+      initialEventChainHash: exported.typingProofData.initialEventChainHash!,
+      key: testKey,
+    });
+    exported.sessionStartToken = await createSessionStartToken(
+      {
+        sessionId: (exported.checkpoints[0]!.signature as SignedCheckpointEnvelope).payload.sessionId,
+        fingerprintHash: 'a'.repeat(64),
+      },
+      {
+        serverNonce: 'b'.repeat(64),
+        issuedAt: TIMESTAMP,
+        turnstileVerified: true,
+        hostname: 'typedcode.dev',
+        action: 'create_tab',
+      },
+      { keyId: testKey.keyId, privateKey: testKey.privateKey }
+    );
+  });
+
+  async function proofEntries(): Promise<TransparencyLogEntry[]> {
+    const entries: TransparencyLogEntry[] = [
+      {
+        kind: 'session-start-token',
+        payloadHash: await hashSessionStartTokenPayload(exported.sessionStartToken!.payload),
+      },
+    ];
+    for (const cp of exported.checkpoints!) {
+      entries.push({
+        kind: 'signed-checkpoint',
+        payloadHash: await hashSignedCheckpointPayload((cp.signature as SignedCheckpointEnvelope).payload),
+      });
+    }
+    return entries;
+  }
+
+  it('does not look at the log unless evidence is given', async () => {
+    const result = await verifyProofSignedCheckpoints(exported, { registry: [testKey.registryEntry] });
+    expect(result.valid).toBe(true);
+    expect(result.transparencyLog).toBeUndefined();
+  });
+
+  it('passes when the token and every signed checkpoint are logged', async () => {
+    const entries = [entry(100), ...(await proofEntries()), entry(101)];
+    const { evidence } = await buildLog(testKey, entries);
+    const result = await verifyProofSignedCheckpoints(exported, {
+      registry: [testKey.registryEntry],
+      transparencyLog: evidence,
+    });
+    expect(result.valid).toBe(true);
+    expect(result.transparencyLog).toMatchObject({ valid: true, checkedCount: 4, missing: [] });
+  });
+
+  it('fails when a signed checkpoint was never logged', async () => {
+    const entries = await proofEntries();
+    const unlogged = entries.splice(2, 1)[0]!;
+    const { evidence } = await buildLog(testKey, entries);
+    const result = await verifyProofSignedCheckpoints(exported, {
+      registry: [testKey.registryEntry],
+      transparencyLog: evidence,
+    });
+    expect(result.valid).toBe(false);
+    expect(result.anchored).toBe(true);
+    expect(result.transparencyLog?.missing).toEqual([unlogged]);
+    expect(result.reason).toBe('1 of 4 entries are not in the transparency log (tree size 3)');
+  });
+});
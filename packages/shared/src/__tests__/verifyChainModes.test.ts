@@ -16,6 +16,7 @@ import {
   computeHash,
   verifyChain,
   verifyProofFile,
+  type CheckpointData,
   type ExportedProof,
   type FingerprintComponents,
   type StoredEvent,
@@ -49,7 +50,7 @@ const createMockFingerprintComponents = (): FingerprintComponents => ({
 });
 
 async function buildSmallProof(charCount = 3): Promise<{
-  exported: ExportedProof;
+  exported: ExportedProof & { checkpoints: CheckpointData[] };
   events: StoredEvent[];
   initialEventChainHash: string;
   content: string;
@@ -141,6 +142,19 @@ describe('verifyChain skipPosw', () => {
     expect(result.message).toMatch(/PoSW skipped/);
   });
 
+  it('recomputes PoSW only for the sampled events in audit mode', async () => {
+    const { events } = await buildSmallProof(3);
+    // MockWorker の PoSW は実計算と一致しないので、標本に入った event だけが落ちる。
+    const unsampled = await verifyChain(events, undefined, { poswSample: new Set() });
+    expect(unsampled.valid).toBe(true);
+    expect(unsampled.message).toMatch(/PoSW sampled 0\/3/);
+
+    const sampled = await verifyChain(events, undefined, { poswSample: new Set([2]) });
+    expect(sampled.valid).toBe(false);
+    expect(sampled.errorAt).toBe(2);
+    expect(sampled.message).toMatch(/PoSW verification failed/);
+  });
+
   // 注: full モードでの「正常系成功」テストは省略している。テスト環境の MockWorker が
   // PoSW を偽データ (mock-intermediate-hash-...) で返すため、verifyChain が real SHA-256 で
   // 再計算すると常に不一致になる。本番の Web Worker 環境では正しく通過する。
@@ -164,6 +178,15 @@ describe('verifyProofFile mode plumbing', () => {
     expect(result.poswSkipped).toBe(true);
   });
 
+  it('audit mode reports the PoSW sample and is not marked as skipped', async () => {
+    const { exported, content } = await buildSmallProof(2);
+    const proofFile = { ...exported, content, language: 'text' };
+    const result = await verifyProofFile(proofFile, undefined, { mode: 'audit', auditConfidence: 0.9 });
+    expect(result.poswSkipped).toBe(false);
+    // 2 event しかないので標本は全件 (= full と同じ保証)。
+    expect(result.poswAudit).toMatchObject({ population: 2, sampleSize: 2, confidence: 0.9, maxUndetectedFraction: 0 });
+  });
+
   it('fast mode still detects tampered event hash', async () => {
     const { exported, content, events } = await buildSmallProof(2);
     events[0] = { ...events[0]!, hash: '0'.repeat(64) };
@@ -0,0 +1,284 @@
+/**
+ * cross-submission-similarity 分析器 (ADR-0035)。
+ *
+ * [第一次ヒューリスティック] 同じ答え (AI 出力など) を 2 人がそれぞれ手で打ち直すと、各 proof は
+ * 単独では人間らしく見える。ここではコホートの proof を対ごとに比べ、次の 3 つを見る。
+ *
+ * - **正規化トークン類似**: 最終コードをトークン化し、識別子・数値・文字列を記号に置き換えた
+ *   5-gram (shingle) 集合の Jaccard 係数。変数名の付け替えやリテラルの差し替えでは下がらない。
+ * - **珍しい識別子の共有**: コホート内でこの 2 件にしか現れない識別子 (4 文字以上・予約語以外)。
+ *   珍しさは母集団があって初めて言えるので、3 件以上のコホートでだけ数える。
+ * - **構築順序の一致**: 共有 shingle を A で書かれた順に並べたとき、B でも同じ順に書かれた割合
+ *   (最長非減少部分列の比)。content-change の軌跡が同じ順序で組み上がったかを見る。
+ *
+ * 課題の雛形やコホートの大半が共有する定型 (テンプレート注入で入った文字だけの shingle、
+ * 5 件以上のコホートで過半のメンバーに現れる shingle) は比較から除く。各文字を書いた event は
+ * `traceContentOrigins` で追跡し、証拠は両側の event 範囲で返す。
+ *
+ * 似た課題では独立に書いても似る (短い課題・定番の解法)。severity は notice 止まり、
+ * 出力は advisory のみ — 判定はしない。
+ */
+
+import type { StoredEvent } from '../../types.js';
+import { traceContentOrigins } from '../evidenceLocation.js';
+import type { CohortAnalysisMember, CohortAnalyzer, EvidenceRef, PairwiseSignal } from '../types.js';
+
+const ID = 'cross-submission-similarity';
+/** shingle の長さ (トークン数)。 */
+const SHINGLE_SIZE = 5;
+/** 除外後の shingle がこれ未満の提出物は短すぎて比べない。 */
+const MIN_SHINGLES = 20;
+/** 共有 shingle がこれ未満の対は類似を言わない。 */
+const MIN_SHARED_SHINGLES = 15;
+/** Jaccard がこれ以上の対に signal を出す。 */
+const SIMILARITY_THRESHOLD = 0.5;
+/** 珍しい識別子をこれ以上共有していれば Jaccard が低くても signal を出す。 */
+const RARE_IDENTIFIER_THRESHOLD = 3;
+/** 珍しい識別子とみなす最短の長さ。 */
+const MIN_RARE_IDENTIFIER_LENGTH = 4;
+/** 珍しい識別子を数えるのに必要な最小コホート (2 件では「この 2 件だけ」が常に成り立つ)。 */
+const MIN_COHORT_FOR_RARITY = 3;
+/**
+ * 「過半のメンバーが共有する shingle = 課題の定型」とみなす最小コホート。小さいコホートでは
+ * 全員が同じ答えを写した場合と区別できないので除かない。
+ */
+const MIN_COHORT_FOR_COMMON = 5;
+/** 証拠の event をこの間隔以内なら 1 つの範囲にまとめる (間に keyDown 等が挟まるため)。 */
+const EVIDENCE_MERGE_GAP = 20;
+/** 片側あたりの証拠範囲の上限 (大きい順に残す)。 */
+const MAX_EVIDENCE_RANGES = 5;
+/** summary / 証拠に載せる珍しい識別子の上限。 */
+const MAX_LISTED_IDENTIFIERS = 3;
+
+/** 言語共通でよく出る予約語・組込み名。正規化で記号にせず、珍しい識別子にも数えない。 */
+const KEYWORDS = new Set(
+  (
+    'and as auto bool boolean break case catch char class const continue def default define del delete do ' +
+    'double elif else enum except export extends extern false False finally float for from function ' +
+    'global if import in include input int is lambda len let long main new None not null or pass print ' +
+    'printf private protected public raise range return scanf self short signed sizeof static std string ' +
+    'struct switch this throw true True try typedef undefined unsigned var void while with yield'
+  ).split(' ')
+);
+
+// 文字列・コメント・識別子・数値・その他の記号 1 文字。コメントは比較から外す (後から足しやすいため)。
+const TOKEN_PATTERN =
+  /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)|([A-Za-z_$][\w$]*)|(\d[\w.]*)|(\S)/g;
+
+interface Token {
+  /** 比較用の正規化形 (`I` = 識別子, `N` = 数値, `S` = 文字列)。 */
+  norm: string;
+  /** 識別子なら元の綴り。 */
+  identifier?: string;
+  /** 先頭文字を書いた event index (`-1` = 不明)。 */
+  origin: number;
+  /** 雛形 (templateInjection) で入った文字か。 */
+  template: boolean;
+}
+
+/** 1 メンバーの比較用の特徴 (除外前)。 */
+interface MemberFeatures {
+  label: string;
+  /** shingle → 出現位置 (token index) の先頭。 */
+  shingles: Map<string, number>;
+  tokens: Token[];
+  /** 雛形由来でない識別子 → 最初に書いた event。 */
+  identifiers: Map<string, number>;
+}
+
+function tokenize(events: readonly StoredEvent[]): Token[] {
+  const { content, origins } = traceContentOrigins(events);
+  const tokens: Token[] = [];
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const [, str, comment, ident, num] = match;
+    if (comment !== undefined) continue;
+    const origin = origins[match.index] ?? -1;
+    const token: Token = {
+      norm: match[0],
+      origin,
+      template: events[origin]?.type === 'templateInjection',
+    };
+    if (str !== undefined) token.norm = 'S';
+    else if (num !== undefined) token.norm = 'N';
+    else if (ident !== undefined && !KEYWORDS.has(ident)) {
+      token.norm = 'I';
+      token.identifier = ident;
+    }
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+function extractFeatures(member: CohortAnalysisMember): MemberFeatures {
+  const tokens = tokenize(member.proof.proof.events);
+  const shingles = new Map<string, number>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const window = tokens.slice(i, i + SHINGLE_SIZE);
+    // 雛形だけでできた shingle は全員が共有するので比べない。
+    if (window.every((t) => t.template)) continue;
+    const key = window.map((t) => t.norm).join(' ');
+    if (!shingles.has(key)) shingles.set(key, i);
+  }
+  const identifiers = new Map<string, number>();
+  for (const token of tokens) {
+    if (token.identifier === undefined || token.template) continue;
+    if (token.identifier.length < MIN_RARE_IDENTIFIER_LENGTH) continue;
+    if (!identifiers.has(token.identifier)) identifiers.set(token.identifier, token.origin);
+  }
+  return { label: member.label, shingles, tokens, identifiers };
+}
+
+function documentFrequency(keysPerMember: Iterable<Iterable<string>>): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const keys of keysPerMember) {
+    for (const key of keys) df.set(key, (df.get(key) ?? 0) + 1);
+  }
+  return df;
+}
+
+/** 最長非減少部分列の長さ (patience sorting、O(n log n))。 */
+function longestNonDecreasing(values: readonly number[]): number {
+  const tails: number[] = [];
+  for (const v of values) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tails[mid]! <= v) lo = mid + 1;
+      else hi = mid;
+    }
+    tails[lo] = v;
+  }
+  return tails.length;
+}
+
+/** 共有 shingle が書かれた順序の一致度 (0..1)。 */
+function orderAgreement(shared: readonly string[], a: MemberFeatures, b: MemberFeatures): number {
+  const firstOrigin = (f: MemberFeatures, key: string) => f.tokens[f.shingles.get(key)!]!.origin;
+  const byA = [...shared].sort(
+    (x, y) => firstOrigin(a, x) - firstOrigin(a, y) || a.shingles.get(x)! - a.shingles.get(y)!
+  );
+  return longestNonDecreasing(byA.map((key) => firstOrigin(b, key))) / shared.length;
+}
+
+/** 共有 shingle を書いた event を範囲にまとめる (近接をまとめ、event 数の多い順に上限まで、index 順で返す)。 */
+function sharedEvidence(shared: readonly string[], features: MemberFeatures): EvidenceRef[] {
+  const events = new Set<number>();
+  for (const key of shared) {
+    const start = features.shingles.get(key)!;
+    for (let i = start; i < start + SHINGLE_SIZE; i++) {
+      const origin = features.tokens[i]!.origin;
+      if (origin >= 0) events.add(origin);
+    }
+  }
+  const sorted = [...events].sort((x, y) => x - y);
+  const ranges: Array<{ from: number; to: number; count: number }> = [];
+  for (const index of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last.to <= EVIDENCE_MERGE_GAP) {
+      last.to = index;
+      last.count++;
+    } else {
+      ranges.push({ from: index, to: index, count: 1 });
+    }
+  }
+  return ranges
+    .sort((x, y) => y.count - x.count || x.from - y.from)
+    .slice(0, MAX_EVIDENCE_RANGES)
+    .sort((x, y) => x.from - y.from)
+    .map((r) => ({
+      fromEventIndex: r.from,
+      ...(r.to !== r.from ? { toEventIndex: r.to } : {}),
+      note: 'shared code',
+    }));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function comparePair(
+  a: MemberFeatures,
+  b: MemberFeatures,
+  commonShingles: ReadonlySet<string>,
+  rareIdentifiers: ReadonlySet<string>
+): PairwiseSignal | null {
+  const usable = (f: MemberFeatures) => [...f.shingles.keys()].filter((k) => !commonShingles.has(k));
+  const shinglesA = usable(a);
+  const shinglesB = usable(b);
+  if (shinglesA.length < MIN_SHINGLES || shinglesB.length < MIN_SHINGLES) return null;
+
+  const setB = new Set(shinglesB);
+  const shared = shinglesA.filter((k) => setB.has(k));
+  const jaccard = shared.length / (shinglesA.length + shinglesB.length - shared.length);
+  const sharedIdentifiers = [...a.identifiers.keys()]
+    .filter((id) => rareIdentifiers.has(id) && b.identifiers.has(id))
+    .sort();
+
+  const similar = jaccard >= SIMILARITY_THRESHOLD && shared.length >= MIN_SHARED_SHINGLES;
+  if (!similar && sharedIdentifiers.length < RARE_IDENTIFIER_THRESHOLD) return null;
+
+  const order = shared.length >= MIN_SHARED_SHINGLES ? orderAgreement(shared, a, b) : 0;
+  const score = round2(Math.min(1, 0.7 * jaccard + 0.15 * order + 0.15 * Math.min(1, sharedIdentifiers.length / 5)));
+  // 共有した量が多いほど偶然の一致では説明しにくい。ヒューリスティックなので 0.5 で頭打ち。
+  const confidence = round2(Math.max(0.1, 0.5 * Math.min(1, (shared.length + 10 * sharedIdentifiers.length) / 100)));
+
+  const listed = sharedIdentifiers.slice(0, MAX_LISTED_IDENTIFIERS);
+  const identifierEvidence = (f: MemberFeatures): EvidenceRef[] =>
+    listed.map((id) => ({ fromEventIndex: f.identifiers.get(id)!, note: `identifier "${id}"` }));
+  const similarity = Math.round(jaccard * 100);
+  const orderPct = Math.round(order * 100);
+
+  return {
+    analyzerId: ID,
+    dimension: 'cross-submission-similarity',
+    a: a.label,
+    b: b.label,
+    score,
+    confidence,
+    severity: 'notice',
+    evidenceA: [...(shared.length > 0 ? sharedEvidence(shared, a) : []), ...identifierEvidence(a)],
+    evidenceB: [...(shared.length > 0 ? sharedEvidence(shared, b) : []), ...identifierEvidence(b)],
+    summary:
+      `Similar code: ${similarity}% normalized token overlap (${shared.length} shared 5-grams), ` +
+      `${sharedIdentifiers.length} shared unusual identifier(s)` +
+      (listed.length > 0 ? ` (${listed.join(', ')})` : '') +
+      `, ${orderPct}% same construction order`,
+    summaryKey: 'analysis.summary.crossSubmissionSimilarity',
+    summaryParams: {
+      similarity,
+      shared: shared.length,
+      identifiers: sharedIdentifiers.length,
+      order: orderPct,
+    },
+  };
+}
+
+export const crossSubmissionSimilarityAnalyzer: CohortAnalyzer = {
+  id: ID,
+  version: '0.1.0',
+  analyze(members: readonly CohortAnalysisMember[]): PairwiseSignal[] {
+    const features = members.map(extractFeatures);
+
+    // 過半のメンバーが共有する shingle は課題の定型とみなす。
+    const shingleDf = documentFrequency(features.map((f) => f.shingles.keys()));
+    const commonShingles = new Set(
+      features.length >= MIN_COHORT_FOR_COMMON
+        ? [...shingleDf].filter(([, n]) => n > features.length / 2).map(([key]) => key)
+        : []
+    );
+    const identifierDf = documentFrequency(features.map((f) => f.identifiers.keys()));
+    const rareIdentifiers = new Set(
+      features.length >= MIN_COHORT_FOR_RARITY ? [...identifierDf].filter(([, n]) => n === 2).map(([id]) => id) : []
+    );
+
+    const signals: PairwiseSignal[] = [];
+    for (let i = 0; i < features.length; i++) {
+      for (let j = i + 1; j < features.length; j++) {
+        const signal = comparePair(features[i]!, features[j]!, commonShingles, rareIdentifiers);
+        if (signal) signals.push(signal);
+      }
+    }
+    return signals;
+  },
+};
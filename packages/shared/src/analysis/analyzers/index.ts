@@ -12,6 +12,9 @@
  * (重み/閾値を秘匿したいもの) は採点者側に private で足す想定。
  * 差し替え方: `runAnalysis(input, [myAnalyzer, ...defaultAnalyzers])`。
  *
+ * コホート分析器 (`runCohortAnalysis`、ADR-0035):
+ * - `cross-submission-similarity`  : 提出物間の正規化トークン類似・珍しい識別子の共有・構築順序の一致
+ *
  * NOTE: keystroke↔content 整合の「挿入文字数 ÷ 打鍵数」比率版は IME 予測変換/補完を測ってしまい
  * 日本語ユーザを誤検知するため依然見送り。`typing-pattern` は**タイミングベース**の旧
  * `TypingPatternAnalyzer` を framework に折り込んだもの (旧 TypingPatternCard を廃止・ADR-0009
@@ -19,12 +22,13 @@
  * 誤検知しうるため severity は notice 止まり (★6b・docs/accessibility-accommodation-policy.md)。
  */
 
-import type { Analyzer } from '../types.js';
+import type { Analyzer, CohortAnalyzer } from '../types.js';
 import { automationAnalyzer } from './automationAnalyzer.js';
 import { transcriptionTopologyAnalyzer } from './transcriptionTopologyAnalyzer.js';
 import { focusBurstAnalyzer } from './focusBurstAnalyzer.js';
 import { pureTypingAnalyzer } from './pureTypingAnalyzer.js';
 import { typingPatternAnalyzer } from './typingPatternAnalyzer.js';
+import { crossSubmissionSimilarityAnalyzer } from './crossSubmissionSimilarityAnalyzer.js';
 
 export const defaultAnalyzers: readonly Analyzer[] = [
   automationAnalyzer,
@@ -34,8 +38,11 @@ export const defaultAnalyzers: readonly Analyzer[] = [
   typingPatternAnalyzer,
 ];
 
+export const defaultCohortAnalyzers: readonly CohortAnalyzer[] = [crossSubmissionSimilarityAnalyzer];
+
 export { automationAnalyzer } from './automationAnalyzer.js';
 export { transcriptionTopologyAnalyzer } from './transcriptionTopologyAnalyzer.js';
 export { focusBurstAnalyzer } from './focusBurstAnalyzer.js';
 export { pureTypingAnalyzer } from './pureTypingAnalyzer.js';
 export { typingPatternAnalyzer } from './typingPatternAnalyzer.js';
+export { crossSubmissionSimilarityAnalyzer } from './crossSubmissionSimilarityAnalyzer.js';
@@ -100,6 +100,14 @@ export interface CohortPosition {
   dimensions: Record<string, { fired: boolean; baseRate: number }>;
 }
 
+/** ある提出の、コホート中央値からの隔たり (triage の並べ替えキー)。advisory のみ。 */
+export interface CohortDeviation {
+  /** メトリクスごとの |value − median| / IQR の最大値。比較可能なメトリクスが無いとき 0。 */
+  score: number;
+  /** score を与えたメトリクス。比較可能なメトリクスが無いとき null。 */
+  metric: CohortMetricKey | null;
+}
+
 // ============================================================================
 // 抽出
 // ============================================================================
@@ -275,3 +283,26 @@ export function positionInCohort(bundle: AnalysisBundle, baseline: CohortBaselin
     dimensions,
   };
 }
+
+/**
+ * 提出の位置を「コホート中央値からどれだけ離れているか」の 1 数値に畳む (純粋・決定的)。
+ * 採点者が N 件を注意配分の順に並べるためのキーであって、違反度ではない (ADR-0025 不変条件 1)。
+ *
+ * IQR 単位の中央値距離をメトリクスごとに取り、その最大を採る (どれか 1 軸が大きく外れていれば
+ * 上位に来る)。IQR=0 のメトリクスは尺度が無いので比較しない (positionInCohort の iqrPosition=null と同じ扱い)。
+ */
+export function deviationFromMedian(position: CohortPosition, baseline: CohortBaseline): CohortDeviation {
+  let score = 0;
+  let metric: CohortMetricKey | null = null;
+  for (const key of METRIC_KEYS) {
+    const pos = position.metrics[key];
+    const dist = baseline.metrics[key];
+    if (pos === undefined || dist === undefined || dist.iqr === 0) continue;
+    const distance = Math.abs(pos.value - dist.median) / dist.iqr;
+    if (metric === null || distance > score) {
+      score = distance;
+      metric = key;
+    }
+  }
+  return { score, metric };
+}
@@ -0,0 +1,107 @@
+/**
+ * 分析 signal の証拠 (`EvidenceRef` = event 範囲) を最終コードの行へ写す。
+ *
+ * 証拠は「何番目の event か」で書かれているが、CI の SARIF ビューアや採点者が見るのは
+ * 最終コードの行。event 時点の Monaco range はその後の編集で行がずれるので使えない。
+ * ここでは content を replay しながら「各文字をどの event が書いたか」を追跡し、
+ * 最終コードに**生き残った**文字のうち証拠範囲の event が書いたものの行を返す。
+ *
+ * - replay の適用規則は `typingProof/replay.ts` の tolerant 版そのもの (分類用途と同じ規則。
+ *   ここで独自に解釈すると replay とずれる)。
+ * - 証拠範囲の文字がすべて後で消された場合は行を返さない (空配列) — 「最終コードのどこ」とは
+ *   言えないので、場所をでっち上げない。
+ * - advisory な表示補助であって判定ではない。
+ */
+
+import type { StoredEvent } from '../types.js';
+import { applyReplayEventTolerant, offsetFromRange } from '../typingProof/replay.js';
+import type { AnalysisSignal, EvidenceRef } from './types.js';
+
+/** 最終コードの行範囲 (1-origin、両端含む)。 */
+export interface SourceLineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/** replay 後の最終コードと、各文字を書いた event index (`-1` = 不明)。 */
+export interface ContentOriginTrace {
+  content: string;
+  origins: number[];
+}
+
+/** signal の 1 証拠が最終コードのどの行に残っているか。index は `report.signals` / `signal.evidence` の添字。 */
+export interface EvidenceLocation {
+  signalIndex: number;
+  evidenceIndex: number;
+  lines: SourceLineRange[];
+}
+
+/**
+ * events を replay して、最終コードの各文字を書いた event index を追跡する (純粋・決定的)。
+ * 文書を丸ごと差し替える event (templateInjection / sessionContinued / 乖離した contentSnapshot) は全文字の書き手になる。
+ */
+export function traceContentOrigins(events: readonly StoredEvent[]): ContentOriginTrace {
+  let content = '';
+  let origins: number[] = [];
+
+  events.forEach((event, index) => {
+    const next = applyReplayEventTolerant(content, event);
+    if (next === content) return;
+
+    if (event.type === 'contentChange') {
+      // tolerant 版が適用できた = offset と範囲は有効。
+      const offset = offsetFromRange(content, event)!;
+      const rangeLength = event.rangeLength ?? 0;
+      const inserted = (event.data as string).length;
+      origins.splice(offset, rangeLength, ...new Array<number>(inserted).fill(index));
+    } else {
+      origins = new Array<number>(next.length).fill(index);
+    }
+    content = next;
+  });
+
+  return { content, origins };
+}
+
+/** 証拠範囲 (両端含む) の event が書き、最終コードに残った文字の行を連続範囲にまとめて返す。 */
+export function evidenceLineRanges(trace: ContentOriginTrace, ref: EvidenceRef): SourceLineRange[] {
+  const from = ref.fromEventIndex;
+  const to = ref.toEventIndex ?? ref.fromEventIndex;
+
+  const hitLines: number[] = [];
+  let line = 1;
+  for (let i = 0; i < trace.content.length; i++) {
+    const origin = trace.origins[i] ?? -1;
+    if (origin >= from && origin <= to && hitLines[hitLines.length - 1] !== line) {
+      hitLines.push(line);
+    }
+    if (trace.content[i] === '\n') line++;
+  }
+
+  const ranges: SourceLineRange[] = [];
+  for (const l of hitLines) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.endLine === l - 1) {
+      last.endLine = l;
+    } else {
+      ranges.push({ startLine: l, endLine: l });
+    }
+  }
+  return ranges;
+}
+
+/** signal 群の全証拠を最終コードの行へ写す。replay は 1 回だけ行う。 */
+export function locateEvidence(
+  events: readonly StoredEvent[],
+  signals: readonly Pick<AnalysisSignal, 'evidence'>[]
+): EvidenceLocation[] {
+  if (signals.every((s) => s.evidence.length === 0)) return [];
+  const trace = traceContentOrigins(events);
+  return signals.flatMap((signal, signalIndex) =>
+    signal.evidence.map((ref, evidenceIndex) => ({
+      signalIndex,
+      evidenceIndex,
+      lines: evidenceLineRanges(trace, ref),
+    }))
+  );
+}
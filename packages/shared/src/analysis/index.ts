@@ -13,11 +13,18 @@ export type {
   AnalysisInput,
   Analyzer,
   AnalysisReport,
+  CohortAnalysisDimension,
+  CohortAnalysisMember,
+  PairwiseSignal,
+  CohortAnalyzer,
+  CohortAnalysisReport,
 } from './types.js';
 
-export { runAnalysis } from './orchestrator.js';
+export { runAnalysis, runCohortAnalysis, ANALYSIS_MAX_EVENTS, COHORT_ANALYSIS_SCHEMA } from './orchestrator.js';
 export {
   defaultAnalyzers,
+  defaultCohortAnalyzers,
+  crossSubmissionSimilarityAnalyzer,
   automationAnalyzer,
   transcriptionTopologyAnalyzer,
   focusBurstAnalyzer,
@@ -31,6 +38,7 @@ export type { AnalysisBundle } from './bundle.js';
 export {
   computeCohortBaseline,
   positionInCohort,
+  deviationFromMedian,
   COHORT_MIN_N,
   COHORT_BASELINE_SCHEMA,
   COHORT_POSITION_SCHEMA,
@@ -41,8 +49,12 @@ export type {
   CohortBaseline,
   MetricPosition,
   CohortPosition,
+  CohortDeviation,
 } from './cohort.js';
 
+export { traceContentOrigins, evidenceLineRanges, locateEvidence } from './evidenceLocation.js';
+export type { SourceLineRange, ContentOriginTrace, EvidenceLocation } from './evidenceLocation.js';
+
 export { evaluateAnalysis, formatEvalReportMarkdown } from './eval.js';
 export type {
   EvalLabel,
@@ -5,8 +5,27 @@
  * 分析器を差し替えれば分析内容を丸ごと入れ替えられる (既定は `defaultAnalyzers`)。
  */
 
-import type { AnalysisInput, AnalysisReport, AnalysisSeverity, AnalysisSignal, Analyzer } from './types.js';
-import { defaultAnalyzers } from './analyzers/index.js';
+import type {
+  AnalysisInput,
+  AnalysisReport,
+  AnalysisSeverity,
+  AnalysisSignal,
+  Analyzer,
+  CohortAnalysisMember,
+  CohortAnalysisReport,
+  CohortAnalyzer,
+  PairwiseSignal,
+} from './types.js';
+import { defaultAnalyzers, defaultCohortAnalyzers } from './analyzers/index.js';
+
+export const COHORT_ANALYSIS_SCHEMA = 'cohort-analysis/1' as const;
+
+/**
+ * proof 全体を読む分析 (runAnalysis / 改竄推定) を行う events 数の既定の上限 (ADR-0039)。
+ * 検証は events を 1 件ずつ読むので件数に依らないが、分析は parse 済みの proof 全体を要る。
+ * 数時間分の proof で verify の Worker や verify-cli が落ちないよう、これを超えたら分析を省く (分析は advisory)。
+ */
+export const ANALYSIS_MAX_EVENTS = 100_000;
 
 /** severity 別の要確認寄与の重み。`info` は寄与しない。 */
 const SEVERITY_WEIGHT: Record<AnalysisSeverity, number> = {
@@ -60,3 +79,37 @@ export async function runAnalysis(
 
   return { analyzerVersions, signals, reviewPriority };
 }
+
+/**
+ * コホート分析器群を走らせて `CohortAnalysisReport` を組み立てる (ADR-0035)。
+ *
+ * `runAnalysis` のコホート版。分析器の失敗を握り潰す点も同じ。対ごとの signal を score の降順
+ * (同点は label 順) に並べるだけで、要確認度の集約はしない — 対の所見は個々の提出物の
+ * `reviewPriority` に混ぜず、採点者が対として見る。
+ */
+export async function runCohortAnalysis(
+  members: readonly CohortAnalysisMember[],
+  analyzers: readonly CohortAnalyzer[] = defaultCohortAnalyzers
+): Promise<CohortAnalysisReport> {
+  const signals: PairwiseSignal[] = [];
+  const analyzerVersions: Record<string, string> = {};
+
+  for (const analyzer of analyzers) {
+    analyzerVersions[analyzer.id] = analyzer.version;
+    try {
+      const produced = await analyzer.analyze(members);
+      for (const signal of produced) signals.push(signal);
+    } catch {
+      // best-effort (runAnalysis と同じ)。
+    }
+  }
+
+  signals.sort((x, y) => y.score - x.score || x.a.localeCompare(y.a) || x.b.localeCompare(y.b));
+
+  return {
+    schema: COHORT_ANALYSIS_SCHEMA,
+    analyzerVersions,
+    members: members.map((m) => m.label),
+    signals,
+  };
+}
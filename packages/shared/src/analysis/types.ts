@@ -81,3 +81,58 @@ export interface AnalysisReport {
   /** 0..1 の「要確認」優先度。**判定ではない**。 */
   reviewPriority: number;
 }
+
+/**
+ * コホート (複数 proof) 横断の観点。単一 proof の `AnalysisDimension` とは入力の形が違うので別系統にする
+ * (1 proof だけを見る分析器・表示には現れない)。
+ */
+export type CohortAnalysisDimension = 'cross-submission-similarity'; // 提出物間の類似 (同じ答えの打ち直し)
+
+/** コホート分析の 1 メンバー。`label` は表示・証拠の参照名 (ファイル名など)。 */
+export interface CohortAnalysisMember {
+  label: string;
+  proof: ExportedProof;
+}
+
+/**
+ * 2 提出物間の所見。判定ではなく「この 2 件を並べて見るべき」という手掛かり。
+ * 証拠は両側それぞれの event 範囲 (`evidenceA` は `a` の、`evidenceB` は `b` の event index)。
+ */
+export interface PairwiseSignal {
+  analyzerId: string;
+  dimension: CohortAnalysisDimension;
+  /** 1 件目のメンバー label (入力順で先の方)。 */
+  a: string;
+  /** 2 件目のメンバー label。 */
+  b: string;
+  /** 類似度 0..1。 */
+  score: number;
+  /** 確信度 0..1。 */
+  confidence: number;
+  severity: AnalysisSeverity;
+  evidenceA: EvidenceRef[];
+  evidenceB: EvidenceRef[];
+  summary: string;
+  summaryKey?: string;
+  summaryParams?: Record<string, string | number>;
+}
+
+/**
+ * コホート全体を受け取る分析器。`Analyzer` と同じく純粋・冪等で、throw しても
+ * orchestrator (`runCohortAnalysis`) が握り潰す。
+ */
+export interface CohortAnalyzer {
+  readonly id: string;
+  readonly version: string;
+  analyze(members: readonly CohortAnalysisMember[]): PairwiseSignal[] | Promise<PairwiseSignal[]>;
+}
+
+/** コホート分析レポート。判定 (pass/fail) も要確認度の集約も含めない (対ごとの手掛かりのみ)。 */
+export interface CohortAnalysisReport {
+  schema: 'cohort-analysis/1';
+  analyzerVersions: Record<string, string>;
+  /** 分析したメンバーの label (入力順)。 */
+  members: string[];
+  /** score の降順。 */
+  signals: PairwiseSignal[];
+}
@@ -15,6 +15,8 @@
  * - 本導出は verifyProofFile の valid を置き換えない (表示語彙の導出であって判定ではない)
  */
 
+import type { PoswTimingStatus } from './poswTiming.js';
+
 /**
  * 整合性: 暗号検証の結果 (決定的)。
  *
@@ -23,23 +25,33 @@
  *            (PoSW の反復再計算をスキップする)。spec §8.2 のとおり fast で保証されるのは
  *            「申告 PoSW 値が proof 全体とハッシュ的に一貫している」ことまでで、
  *            「実際に 10,000 回反復したか」は確認していない。改ざんの疑いという意味ではない
+ * - sampled: `audit` モード。PoSW を決定的な標本についてだけ再計算し、すべて通った (ADR-0034)。
+ *            保証は統計的 (「偽った event が一定割合以上あれば高確率で検出」) で、seed を作るのが
+ *            偽造者自身なので grinding の余地も残る。partial より強いが proven ではない
  * - failed:  暗号検査のどれかが破れた (改ざん検出)
  *
  * `partial` を `proven` に丸めないこと (#214)。ADR-0020 は保証語彙を**実際に得た証拠から**
  * 導出することを求めており、未実施の検査を「証明済み」と表示するのは overclaim にあたる。
  */
-export type IntegrityLevel = 'proven' | 'partial' | 'failed';
+export type IntegrityLevel = 'proven' | 'sampled' | 'partial' | 'failed';
 
 /**
  * 時刻アンカー: 記録の存在時刻がどの程度固定されているか。
- * - anchored:   root サーバアンカー + 署名 cp が密 (申告セッション全体が時刻固定)
+ * - anchored:   root サーバアンカー + 署名 cp が密 (申告セッション全体が時刻固定)。
+ *               cp のアンカーは ECDSA 署名 (ADR-0002) でも RFC 3161 のタイムスタンプトークン (ADR-0049) でもよい
  * - partial:    何らかのサーバアンカーはあるが弱い (疎 / post-hoc 疑い / root か cp の片方のみ)
+ * - posw-bounded: サーバ由来の時刻証拠は無いが、申告 timestamp が記録端末の較正した PoSW 速度と
+ *               矛盾しない (ADR-0042)。PoSW を全件再計算した (integrity が proven の) ときのみ。
+ *               時刻のアンカーではなく、「申告どおりの速さで記録できた」ことの整合にとどまる (較正値も記録側の申告)
+ * - posw-inconsistent: サーバ由来の時刻証拠が無く、申告 timestamp が proof 自身の較正速度の PoSW では
+ *               追いつけない速さで進んでいる (ADR-0042)。proof が自分の申告と矛盾している = 捏造の疑いとして
+ *               unanchored と区別して出す (unanchored より下)
  * - unanchored: サーバ由来の時刻証拠なし (完全オフライン捏造の余地)
  * - exam-t0:    試験 proof。T0 束縛 (封印 + 監督コード) が時刻の regime を担う (ADR-0006)。
  *               **束縛が実際に検証済み (package 提供 + verifyExamBinding 合格) のときのみ** —
  *               自己申告の exam ブロックだけでは名乗れない (#131、ADR-0020)
  */
-export type TemporalLevel = 'anchored' | 'partial' | 'unanchored' | 'exam-t0';
+export type TemporalLevel = 'anchored' | 'partial' | 'posw-bounded' | 'unanchored' | 'posw-inconsistent' | 'exam-t0';
 
 /** 著述性: レベルを持たない advisory サマリ。判定に使ってはならない。 */
 export interface ProvenanceAdvisory {
@@ -74,7 +86,7 @@ export interface AssuranceInput {
   };
   /** root がサーバアンカーされているか (ADR-0017)。 */
   rootAnchored: boolean;
-  /** 署名チェックポイント (ADR-0002/0016)。無ければ省略。 */
+  /** 署名チェックポイント (ADR-0002/0016)。RFC 3161 のトークン (ADR-0049) のアンカーも含む。無ければ省略。 */
   signedCheckpoints?: {
     anchored: boolean;
     valid?: boolean;
@@ -88,6 +100,16 @@ export interface AssuranceInput {
    * 検証側は常に自分のモードを知っているので「不明」という第三の状態は存在しない。
    */
   poswSkipped: boolean;
+  /**
+   * PoSW を標本だけ再計算したか (`audit` モードで標本が母集団より小さいとき。ADR-0034)。
+   * 全件を覆った標本は `full` と同じ保証なので false。`poswSkipped` と同じ理由で optional にしない。
+   */
+  poswSampled: boolean;
+  /**
+   * 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042。`FullVerificationResult.poswTiming.status`)。
+   * 省略は「検査していない」で、temporal を上げない側に倒れる。
+   */
+  poswTiming?: PoswTimingStatus;
   /** ピュアタイピング (外部入力なし)。 */
   isPureTyping: boolean;
   /** 分析レポートのサマリ (ADR-0009)。分析未実行は省略。 */
@@ -108,11 +130,17 @@ export function deriveAssurance(input: AssuranceInput): AssuranceResult {
   const cryptoChecksPassed =
     input.metadataValid && input.chainValid && (input.screenshotsTampered ?? 0) === 0 && !examBindingFailed;
   // 改ざん検出は fast モードでも成立する (hash 連鎖・content 再生・metadata は実施済み) ので、
-  // failed が partial に優先する。
-  const integrity: IntegrityLevel = !cryptoChecksPassed ? 'failed' : input.poswSkipped ? 'partial' : 'proven';
+  // failed が partial / sampled に優先する。
+  const integrity: IntegrityLevel = !cryptoChecksPassed
+    ? 'failed'
+    : input.poswSkipped
+      ? 'partial'
+      : input.poswSampled
+        ? 'sampled'
+        : 'proven';
 
   // --- 時刻アンカー
-  const temporal = deriveTemporal(input);
+  const temporal = deriveTemporal(input, integrity);
 
   // --- 著述性: 常に advisory。レベル化しない。
   const provenance: ProvenanceAdvisory = {
@@ -124,7 +152,7 @@ export function deriveAssurance(input: AssuranceInput): AssuranceResult {
   return { integrity, temporal, provenance };
 }
 
-function deriveTemporal(input: AssuranceInput): TemporalLevel {
+function deriveTemporal(input: AssuranceInput, integrity: IntegrityLevel): TemporalLevel {
   // 試験 proof は T0 束縛 (封印 + 監督コード = proctor) が時刻 regime を担う (ADR-0006)。
   // 署名 cp は best-effort の補強であり、有無で regime は変わらない。
   // ただし exam-t0 を名乗れるのは束縛が**実際に検証済み**のときだけ (#131)。exam ブロックは
@@ -136,7 +164,8 @@ function deriveTemporal(input: AssuranceInput): TemporalLevel {
   }
 
   const sc = input.signedCheckpoints;
-  // 有効な署名 cp 連鎖があるか (anchored だが invalid は時刻証拠として数えない)
+  // 有効な署名 cp 連鎖があるか (anchored だが invalid は時刻証拠として数えない)。
+  // TSA のトークンも verifySignedCheckpoints が同じ結果に数えるので、どちらのアンカーでもここで効く。
   const hasValidCheckpoints = sc?.anchored === true && sc.valid !== false;
   const checkpointsClean = hasValidCheckpoints && sc?.sparse !== true && sc?.postHocSuspected !== true;
 
@@ -147,6 +176,17 @@ function deriveTemporal(input: AssuranceInput): TemporalLevel {
     // 片方のみ / 疎 / post-hoc 疑い — 何らかのサーバ時刻証拠はある
     return 'partial';
   }
+  // ADR-0042: サーバ証拠が無い proof だけの信号。申告 iterations の計算時間を根拠にするので、
+  // PoSW を全件再計算した (proven) proof に限る。partial は再計算しておらず、sampled も標本外の
+  // event の PoSW は計算していない。改ざんが見つかった proof も対象外。
+  if (input.poswTiming === 'consistent' && integrity === 'proven') {
+    return 'posw-bounded';
+  }
+  // 矛盾は申告どうしの比較なので、再計算の有無によらず proof 自身の申告と食い違っている。
+  // unanchored に丸めず、区別して出す (ゲートポリシーで fail にできるように)。
+  if (input.poswTiming === 'inconsistent' && integrity !== 'failed') {
+    return 'posw-inconsistent';
+  }
   return 'unanchored';
 }
 
@@ -16,6 +16,7 @@ export {
   createSignedCheckpointEnvelope,
   validateSignedCheckpointInput,
   isIdempotentSigningRetry,
+  isSignedCheckpointEnvelope,
 } from './signedCheckpoints.js';
 
 export type {
@@ -24,11 +25,29 @@ export type {
   SignedCheckpointSigner,
 } from './signedCheckpoints.js';
 
+export {
+  isTimestampTokenEnvelope,
+  createTimestampRequest,
+  readTimestampResponse,
+  parseTimestampToken,
+  verifyTimestampToken,
+  parseCertificatesPem,
+  describeCertificate,
+} from './timestampToken.js';
+
+export type {
+  TimestampTokenAlgorithm,
+  TimestampTokenEnvelope,
+  TimestampTokenInfo,
+  TimestampTokenVerificationResult,
+} from './types/timestampToken.js';
+
 export {
   createSessionStartToken,
   validateSessionStartInput,
   verifySessionStartToken,
   computeAnchoredChainRoot,
+  hashSessionStartTokenPayload,
 } from './sessionStartToken.js';
 
 export type {
@@ -44,8 +63,88 @@ export type {
   SessionStartTokenAlgorithm,
 } from './types/sessionStartToken.js';
 
+export {
+  EMPTY_TREE_ROOT,
+  transparencyLogLeafData,
+  isTransparencyLogEntry,
+  createSignedTreeHead,
+  verifySignedTreeHead,
+  verifyTransparencyLogInclusion,
+  verifyTransparencyLogConsistency,
+  verifyTransparencyLogEvidence,
+} from './transparencyLog.js';
+
+export type { SignedTreeHeadSigner } from './transparencyLog.js';
+
+export type {
+  TransparencyLogEntryKind,
+  TransparencyLogEntry,
+  TreeHeadPayload,
+  SignedTreeHead,
+  SignedTreeHeadAlgorithm,
+  TransparencyLogInclusion,
+  TransparencyLogEvidence,
+  TransparencyLogVerificationResult,
+} from './types/transparencyLog.js';
+
+export {
+  SUBMISSION_RECEIPT_FILENAME,
+  MAX_SUBMISSION_RECEIPT_TABS,
+  validateSubmissionReceiptInput,
+  createSubmissionReceipt,
+  hashSubmissionReceiptPayload,
+  parseSubmissionReceipt,
+  verifySubmissionReceipt,
+  verifySubmissionReceiptForProof,
+} from './submissionReceipt.js';
+
+export type {
+  SubmissionReceiptInput,
+  SubmissionReceiptSigner,
+  VerifySubmissionReceiptForProofOptions,
+} from './submissionReceipt.js';
+
+export type {
+  SubmissionReceiptPayload,
+  SubmissionReceipt,
+  SubmissionReceiptAlgorithm,
+  SubmissionReceiptVerificationResult,
+  SubmissionReceiptCheckResult,
+} from './types/submissionReceipt.js';
+
+export {
+  MAX_CHECKPOINT_KEY_SET_KEYS,
+  parseCheckpointKeySetChain,
+  hashCheckpointKeySetPayload,
+  createCheckpointKeySetPayload,
+  endorseCheckpointKeySet,
+  verifyCheckpointKeySetChain,
+  selectSigningKeyId,
+} from './checkpointKeySet.js';
+
+export type { CheckpointKeySetSigner } from './checkpointKeySet.js';
+
+export type {
+  CheckpointKeySetPayload,
+  CheckpointKeySetAlgorithm,
+  CheckpointKeySetEndorsement,
+  SignedCheckpointKeySet,
+  CheckpointKeySetVerificationResult,
+} from './types/checkpointKeySet.js';
+
+export {
+  computeMerkleRoot,
+  merkleLeafHash,
+  merkleNodeHash,
+  collectMerkleRangeProof,
+  collectMerkleConsistencyProof,
+} from './merkle.js';
+
+export type { MerkleRangeProof, MerkleConsistencyProof, MerkleSubtreeRootFn } from './merkle.js';
+
 export {
   CHECKPOINT_PUBLIC_KEYS,
+  TSA_ROOT_CERTIFICATES,
   findCheckpointPublicKey,
 } from './checkpointKeys/index.js';
 
@@ -58,6 +157,9 @@ export {
   POSW_ITERATIONS,
   SIGNED_CHECKPOINT_FORMAT_VERSION,
   SESSION_TOKEN_FORMAT_VERSION,
+  TREE_HEAD_FORMAT_VERSION,
+  SUBMISSION_RECEIPT_FORMAT_VERSION,
+  CHECKPOINT_KEY_SET_FORMAT_VERSION,
 } from './version.js';
 
 export {
@@ -67,6 +169,7 @@ export {
 } from './utils/hashUtils.js';
 
 export type {
+  CheckpointSignature,
   SignedCheckpointPayload,
   SignedCheckpointEnvelope,
   SignedCheckpointVerificationDetail,
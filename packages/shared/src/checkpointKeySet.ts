@@ -0,0 +1,410 @@
+/**
+ * 署名鍵の key set (ADR-0048) の作成・検証ロジック。
+ *
+ * 役割:
+ * - createCheckpointKeySetPayload / endorseCheckpointKeySet: 直前の key set に続く key set を作り、鍵で裏書きする
+ * - verifyCheckpointKeySetChain: 組み込み registry を起点に裏書きの連鎖を辿り、信頼できる registry を組み立てる
+ * - parseCheckpointKeySetChain: `/api/checkpoint/key-set` の応答やキャッシュ (untrusted) の形の検査
+ * - selectSigningKeyId: 設定済みの署名鍵から、ある時刻に使う鍵を選ぶ (予定した有効化・退役)
+ *
+ * 信頼の起点は常に組み込み registry (C1)。key set が足せるのは「前の鍵が裏書きした鍵」だけで、
+ * 既存の鍵の公開鍵・有効化時刻は変えられず、退役・失効は締める方向にしか変えられない。
+ * key set で足した鍵は裏書きした鍵の失効を引き継ぐ (漏れた鍵で発行時刻を遡らせた key set を作っても、
+ * 足した鍵は失効時刻より後に使えない)。
+ */
+
+import type {
+  CheckpointKeySetPayload,
+  CheckpointKeySetVerificationResult,
+  SignedCheckpointKeySet,
+} from './types/checkpointKeySet.js';
+import { CHECKPOINT_KEY_SET_FORMAT_VERSION } from './version.js';
+import { computeHash, deterministicStringify } from './utils/hashUtils.js';
+import { CHECKPOINT_PUBLIC_KEYS, findCheckpointPublicKey, type CheckpointPublicKey } from './checkpointKeys/index.js';
+
+/** 1 つの key set に載せられる鍵の上限 (鍵は消さないので、年数回のローテーションで十分な値) */
+export const MAX_CHECKPOINT_KEY_SET_KEYS = 256;
+
+export interface CheckpointKeySetSigner {
+  keyId: string;
+  privateKey: CryptoKey;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    out += bytes[i]!.toString(16).padStart(2, '0');
+  }
+  return out;
+}
+
+function hexToUint8Array(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) {
+    throw new Error('Invalid hex string length');
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+/** 時刻 `ts` にその鍵で署名してよいか (署名 cp の検証と同じ規約: validFrom・validUntil・revokedAt)。 */
+function keyUsableAt(entry: CheckpointPublicKey, ts: number): boolean {
+  const validFromTs = Date.parse(entry.validFrom);
+  if (Number.isFinite(validFromTs) && ts < validFromTs) return false;
+  if (entry.validUntil && Date.parse(entry.validUntil) < ts) return false;
+  if (entry.revokedAt) {
+    const revokedTs = Date.parse(entry.revokedAt);
+    return !(Number.isFinite(revokedTs) && ts >= revokedTs);
+  }
+  // revokedAt が無いまま status='revoked' は安全側で使えない扱い
+  return entry.status !== 'revoked';
+}
+
+/** 2 つの entry が同じ公開鍵を指すか (JWK の付随フィールド key_ops 等は比べない) */
+function sameKeyMaterial(a: CheckpointPublicKey, b: CheckpointPublicKey): boolean {
+  const ja = a.publicKeyJwk;
+  const jb = b.publicKeyJwk;
+  return a.algorithm === b.algorithm && ja.kty === jb.kty && ja.crv === jb.crv && ja.x === jb.x && ja.y === jb.y;
+}
+
+/** 先に来る ISO 時刻 (どちらかが無ければもう一方) */
+function earlierTime(a: string | undefined, b: string | undefined): string | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Date.parse(b) < Date.parse(a) ? b : a;
+}
+
+/**
+ * 前の key set から次の key set への entry の変化が「緩めて」いないか。緩めていれば理由を返す。
+ * 有効化時刻は変えられず、退役・失効は付けるか早めるだけ、失効は取り消せない。
+ */
+function looseningReason(prev: CheckpointPublicKey, next: CheckpointPublicKey): string | null {
+  if (!sameKeyMaterial(prev, next)) return `key ${prev.keyId} public key changed`;
+  if (Date.parse(next.validFrom) !== Date.parse(prev.validFrom)) return `key ${prev.keyId} validFrom changed`;
+  if (prev.validUntil && (!next.validUntil || Date.parse(next.validUntil) > Date.parse(prev.validUntil))) {
+    return `key ${prev.keyId} validUntil was extended`;
+  }
+  if (prev.status === 'revoked' && next.status !== 'revoked') return `key ${prev.keyId} was un-revoked`;
+  if (prev.revokedAt && (!next.revokedAt || Date.parse(next.revokedAt) > Date.parse(prev.revokedAt))) {
+    return `key ${prev.keyId} revokedAt was moved later`;
+  }
+  return null;
+}
+
+/**
+ * 同じ鍵の 2 つの entry を、厳しい方にそろえて 1 つにする (組み込み registry と key set の重ね合わせ)。
+ * 組み込み registry で後から失効させた鍵を、古い key set が有効に戻さないようにする。
+ */
+function stricterEntry(base: CheckpointPublicKey, other: CheckpointPublicKey): CheckpointPublicKey {
+  const merged: CheckpointPublicKey = { ...base };
+  if (Date.parse(other.validFrom) > Date.parse(base.validFrom)) merged.validFrom = other.validFrom;
+  const validUntil = earlierTime(base.validUntil, other.validUntil);
+  if (validUntil !== undefined) merged.validUntil = validUntil;
+  const revokedAt = earlierTime(base.revokedAt, other.revokedAt);
+  if (revokedAt !== undefined) merged.revokedAt = revokedAt;
+  if (base.status === 'revoked' || other.status === 'revoked') merged.status = 'revoked';
+  return merged;
+}
+
+/** 組み込み registry に key set の鍵を重ねる。同じ keyId は厳しい方、新しい keyId は末尾に足す */
+function overlayRegistry(
+  base: readonly CheckpointPublicKey[],
+  keys: readonly CheckpointPublicKey[]
+): CheckpointPublicKey[] {
+  const byId = new Map(keys.map((k) => [k.keyId, k]));
+  const merged = base.map((entry) => {
+    const other = byId.get(entry.keyId);
+    return other ? stricterEntry(entry, other) : entry;
+  });
+  const baseIds = new Set(base.map((k) => k.keyId));
+  return [...merged, ...keys.filter((k) => !baseIds.has(k.keyId))];
+}
+
+/**
+ * key set で足した鍵に、裏書きした鍵の失効を引き継がせる。`introducedBy` は keyId → 足したときの信頼済みの裏書き鍵。
+ *
+ * key set の `issuedAt` は署名者が決める値なので、漏れた鍵は失効前の時刻を名乗って新しい鍵を足せる。
+ * 裏書き鍵がすべて失効していれば、足した鍵もそのうち最も遅い `revokedAt` で失効扱いにし、
+ * 偽の鍵が使える期間を漏れた鍵の失効時刻までに抑える。裏書き鍵の失効は、その裏書き鍵自身が
+ * 引き継いだものも含む (連鎖の順に解決する)。退役 (`validUntil`) は引き継がない: 裏書きした鍵が後継より
+ * 先に退役するのは通常のローテーションそのもの。
+ */
+function inheritRevocation(
+  registry: readonly CheckpointPublicKey[],
+  introducedBy: ReadonlyMap<string, readonly string[]>
+): CheckpointPublicKey[] {
+  const resolved = new Map<string, CheckpointPublicKey>();
+  const resolve = (entry: CheckpointPublicKey): CheckpointPublicKey => {
+    const cached = resolved.get(entry.keyId);
+    if (cached) return cached;
+    let result = entry;
+    const endorsers = introducedBy.get(entry.keyId);
+    if (endorsers && endorsers.length > 0) {
+      let revokedAt: string | undefined;
+      for (const endorserId of endorsers) {
+        const endorser = findCheckpointPublicKey(endorserId, registry);
+        const endorserRevokedAt = endorser ? resolve(endorser).revokedAt : undefined;
+        if (endorserRevokedAt === undefined) {
+          revokedAt = undefined;
+          break;
+        }
+        if (revokedAt === undefined || Date.parse(endorserRevokedAt) > Date.parse(revokedAt)) {
+          revokedAt = endorserRevokedAt;
+        }
+      }
+      if (revokedAt !== undefined) result = stricterEntry(entry, { ...entry, status: 'revoked', revokedAt });
+    }
+    resolved.set(entry.keyId, result);
+    return result;
+  };
+  return registry.map(resolve);
+}
+
+function isCheckpointPublicKey(raw: unknown): raw is CheckpointPublicKey {
+  if (!raw || typeof raw !== 'object') return false;
+  const k = raw as Record<string, unknown>;
+  const jwk = k.publicKeyJwk as Record<string, unknown> | null | undefined;
+  return (
+    typeof k.keyId === 'string' &&
+    k.keyId.length > 0 &&
+    k.algorithm === 'ECDSA-P256' &&
+    !!jwk &&
+    typeof jwk === 'object' &&
+    typeof jwk.x === 'string' &&
+    typeof jwk.y === 'string' &&
+    (k.status === 'active' || k.status === 'revoked') &&
+    typeof k.validFrom === 'string' &&
+    Number.isFinite(Date.parse(k.validFrom)) &&
+    (k.validUntil === undefined || (typeof k.validUntil === 'string' && Number.isFinite(Date.parse(k.validUntil)))) &&
+    (k.revokedAt === undefined || (typeof k.revokedAt === 'string' && Number.isFinite(Date.parse(k.revokedAt))))
+  );
+}
+
+function isSignedCheckpointKeySet(raw: unknown): raw is SignedCheckpointKeySet {
+  if (!raw || typeof raw !== 'object') return false;
+  const set = raw as Record<string, unknown>;
+  const payload = set.payload as Record<string, unknown> | null | undefined;
+  if (!payload || typeof payload !== 'object') return false;
+  if (typeof payload.sequence !== 'number' || typeof payload.issuedAt !== 'string') return false;
+  if (payload.previousKeySetHash !== null && typeof payload.previousKeySetHash !== 'string') return false;
+  if (!Array.isArray(payload.keys) || !payload.keys.every(isCheckpointPublicKey)) return false;
+  return (
+    Array.isArray(set.endorsements) &&
+    set.endorsements.every(
+      (e) =>
+        !!e &&
+        typeof e === 'object' &&
+        typeof (e as Record<string, unknown>).keyId === 'string' &&
+        typeof (e as Record<string, unknown>).signature === 'string' &&
+        typeof (e as Record<string, unknown>).algorithm === 'string'
+    )
+  );
+}
+
+/**
+ * key set の連鎖 (untrusted) の形の検査。裏書きは見ない (verifyCheckpointKeySetChain が見る)。
+ * `/api/checkpoint/key-set` の応答 `{ chain }` と、連鎖の配列そのものの両方を受け付ける。形が合わなければ null。
+ */
+export function parseCheckpointKeySetChain(raw: unknown): SignedCheckpointKeySet[] | null {
+  const chain = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>).chain : raw;
+  if (!Array.isArray(chain) || !chain.every(isSignedCheckpointKeySet)) return null;
+  return chain as SignedCheckpointKeySet[];
+}
+
+/** key set payload の決定的ハッシュ。次の key set の `previousKeySetHash` になる */
+export async function hashCheckpointKeySetPayload(payload: CheckpointKeySetPayload): Promise<string> {
+  return computeHash(deterministicStringify(payload));
+}
+
+/**
+ * `previous` に続く key set の payload を作る (sequence と previousKeySetHash を埋める)。
+ * `keys` は前の key set の鍵をすべて含めること (含めなければ検証で落ちる)。
+ */
+export async function createCheckpointKeySetPayload(
+  previous: SignedCheckpointKeySet | null,
+  keys: readonly CheckpointPublicKey[],
+  issuedAt: string
+): Promise<CheckpointKeySetPayload> {
+  return {
+    version: CHECKPOINT_KEY_SET_FORMAT_VERSION,
+    sequence: previous ? previous.payload.sequence + 1 : 0,
+    previousKeySetHash: previous ? await hashCheckpointKeySetPayload(previous.payload) : null,
+    issuedAt,
+    keys: keys.map((k) => ({ ...k })),
+  };
+}
+
+/** key set payload に裏書きする (canonical form を各鍵で署名)。 */
+export async function endorseCheckpointKeySet(
+  payload: CheckpointKeySetPayload,
+  signers: readonly CheckpointKeySetSigner[]
+): Promise<SignedCheckpointKeySet> {
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  const endorsements = [];
+  for (const signer of signers) {
+    const sigBuffer = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      signer.privateKey,
+      signingInput as unknown as ArrayBuffer
+    );
+    endorsements.push({
+      keyId: signer.keyId,
+      signature: bytesToHex(new Uint8Array(sigBuffer)),
+      algorithm: 'ECDSA-P256' as const,
+    });
+  }
+  return { payload, endorsements };
+}
+
+async function verifyEndorsement(
+  entry: CheckpointPublicKey,
+  signature: string,
+  payload: CheckpointKeySetPayload
+): Promise<boolean> {
+  try {
+    const cryptoKey = await crypto.subtle.importKey(
+      'jwk',
+      entry.publicKeyJwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      cryptoKey,
+      hexToUint8Array(signature) as unknown as ArrayBuffer,
+      signingInput as unknown as ArrayBuffer
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** 1 つの key set を、それまでに信頼した鍵 (`trusted`) と直前の key set に照らして検査する。 */
+async function checkKeySet(
+  set: SignedCheckpointKeySet,
+  index: number,
+  previous: SignedCheckpointKeySet | null,
+  trusted: readonly CheckpointPublicKey[],
+  baseRegistry: readonly CheckpointPublicKey[]
+): Promise<string | null> {
+  const { payload } = set;
+  const label = `key set ${index}`;
+  if (payload.version !== CHECKPOINT_KEY_SET_FORMAT_VERSION) {
+    return `Unsupported ${label} version: ${payload.version}`;
+  }
+  if (payload.sequence !== index) return `${label} has sequence ${payload.sequence}`;
+  const expectedPrevious = previous ? await hashCheckpointKeySetPayload(previous.payload) : null;
+  if (payload.previousKeySetHash !== expectedPrevious) return `${label} does not link to the previous key set`;
+
+  const issuedTs = Date.parse(payload.issuedAt);
+  if (!Number.isFinite(issuedTs)) return `${label} issuedAt is not a valid ISO date`;
+  if (previous && issuedTs < Date.parse(previous.payload.issuedAt)) {
+    return `${label} issuedAt is before the previous key set`;
+  }
+
+  if (payload.keys.length > MAX_CHECKPOINT_KEY_SET_KEYS) {
+    return `${label} has more than ${MAX_CHECKPOINT_KEY_SET_KEYS} keys`;
+  }
+  const keyIds = new Set(payload.keys.map((k) => k.keyId));
+  if (keyIds.size !== payload.keys.length) return `${label} lists a keyId more than once`;
+
+  // append-only: 前の鍵はすべて引き継ぎ、緩めない。組み込み registry と同じ keyId は同じ公開鍵であること。
+  for (const prev of previous?.payload.keys ?? []) {
+    const next = payload.keys.find((k) => k.keyId === prev.keyId);
+    if (!next) return `${label} drops key ${prev.keyId}`;
+    const reason = looseningReason(prev, next);
+    if (reason) return `${label}: ${reason}`;
+  }
+  for (const key of payload.keys) {
+    const builtIn = findCheckpointPublicKey(key.keyId, baseRegistry);
+    if (builtIn && !sameKeyMaterial(builtIn, key)) {
+      return `${label}: key ${key.keyId} conflicts with the built-in registry`;
+    }
+  }
+
+  // 裏書き: すべて有効で、少なくとも 1 つは信頼済みの鍵 (発行時刻に有効) によるもの。
+  if (set.endorsements.length === 0) return `${label} has no endorsement`;
+  let endorsedByTrusted = false;
+  for (const endorsement of set.endorsements) {
+    if (endorsement.algorithm !== 'ECDSA-P256') {
+      return `${label} endorsement uses unsupported algorithm: ${endorsement.algorithm}`;
+    }
+    const trustedEntry = findCheckpointPublicKey(endorsement.keyId, trusted);
+    const entry = trustedEntry ?? payload.keys.find((k) => k.keyId === endorsement.keyId);
+    if (!entry) return `${label} is endorsed by unknown key ${endorsement.keyId}`;
+    if (!(await verifyEndorsement(entry, endorsement.signature, payload))) {
+      return `${label} endorsement by ${endorsement.keyId} is invalid`;
+    }
+    if (trustedEntry && keyUsableAt(trustedEntry, issuedTs)) endorsedByTrusted = true;
+  }
+  if (!endorsedByTrusted) return `${label} is not endorsed by a key that was trusted at issuedAt`;
+  return null;
+}
+
+/**
+ * key set の連鎖を組み込み registry から辿って検証し、信頼できる registry を返す (オフラインで完結)。
+ *
+ * key set i は、組み込み registry に key set i-1 までの鍵を重ねた registry のうち、
+ * `issuedAt` に有効だった鍵の裏書きを要する。連鎖のどこかが壊れていれば invalid で、
+ * registry は組み込み registry のまま (壊れた key set の鍵は一切信頼しない)。
+ * 足した鍵は裏書きした鍵の失効を引き継ぐ (inheritRevocation)。
+ */
+export async function verifyCheckpointKeySetChain(
+  chain: readonly SignedCheckpointKeySet[],
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<CheckpointKeySetVerificationResult> {
+  let trusted: readonly CheckpointPublicKey[] = baseRegistry;
+  let previous: SignedCheckpointKeySet | null = null;
+  const introducedBy = new Map<string, string[]>();
+  for (let i = 0; i < chain.length; i++) {
+    const set = chain[i]!;
+    const reason = await checkKeySet(set, i, previous, trusted, baseRegistry);
+    if (reason) {
+      return { valid: false, reason, sequence: null, registry: [...baseRegistry], addedKeyIds: [] };
+    }
+    // この key set で初めて信頼する鍵と、それを裏書きした信頼済みの鍵 (署名は checkKeySet で検証済み)
+    const issuedTs = Date.parse(set.payload.issuedAt);
+    const endorsers = set.endorsements
+      .filter((e) => {
+        const entry = findCheckpointPublicKey(e.keyId, trusted);
+        return entry !== undefined && keyUsableAt(entry, issuedTs);
+      })
+      .map((e) => e.keyId);
+    for (const key of set.payload.keys) {
+      if (!findCheckpointPublicKey(key.keyId, trusted)) introducedBy.set(key.keyId, endorsers);
+    }
+    trusted = inheritRevocation(overlayRegistry(baseRegistry, set.payload.keys), introducedBy);
+    previous = set;
+  }
+
+  const baseIds = new Set(baseRegistry.map((k) => k.keyId));
+  return {
+    valid: true,
+    sequence: previous ? previous.payload.sequence : null,
+    registry: [...trusted],
+    addedKeyIds: (previous?.payload.keys ?? []).map((k) => k.keyId).filter((id) => !baseIds.has(id)),
+  };
+}
+
+/**
+ * 設定済みの署名鍵 (`keyIds`) から、時刻 `at` に使う鍵を選ぶ。registry 上でその時刻に有効な鍵のうち
+ * `validFrom` が最も新しいもの (予定した有効化時刻を過ぎた新しい鍵へ自動で切り替わる)。無ければ null。
+ */
+export function selectSigningKeyId(
+  registry: readonly CheckpointPublicKey[],
+  keyIds: readonly string[],
+  at: Date
+): string | null {
+  const ts = at.getTime();
+  let selected: CheckpointPublicKey | null = null;
+  for (const keyId of keyIds) {
+    const entry = findCheckpointPublicKey(keyId, registry);
+    if (!entry || !keyUsableAt(entry, ts)) continue;
+    if (!selected || Date.parse(entry.validFrom) > Date.parse(selected.validFrom)) selected = entry;
+  }
+  return selected ? selected.keyId : null;
+}
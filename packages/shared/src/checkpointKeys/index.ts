@@ -26,6 +26,8 @@ export function findCheckpointPublicKey(
   return findInRegistry(keyId, registry);
 }
 
+export { TSA_ROOT_CERTIFICATES } from './tsaRoots.js';
+
 export type {
   CheckpointPublicKey,
   CheckpointPublicKeyStatus,
@@ -40,6 +40,7 @@ export interface CheckpointPublicKey {
  * 運用ルール:
  * - 一度追加した鍵は revoke しても配列から削除しない (`status: 'revoked'` + `revokedAt` で残す)
  * - 過去 proof の検証可能性を維持するため historical commit から鍵を辿れることが重要
+ * - ローテーションで足した鍵は key set の連鎖 (ADR-0048) で届く。ここはその連鎖の信頼の起点でもある
  */
 export const CHECKPOINT_PUBLIC_KEYS: readonly CheckpointPublicKey[] = [
   // 本番環境
@@ -0,0 +1,11 @@
+/**
+ * RFC 3161 タイムスタンプ (ADR-0049) で信頼する TSA のルート証明書
+ *
+ * registry.ts と同じくレビュー必須の一覧で、ここに載せた証明書 (PEM) までトークンの署名者の
+ * 証明書を辿れたときだけ、TSA のアンカーを有効と数える。
+ * - 既定は空。認定 TSA を使う機関は、自分の配る verify のビルドでここに足すか、
+ *   verify-cli の `--tsa-root <pem>` (検証オプション `tsaRootCertificates`) で渡す
+ * - 過去 proof の検証可能性を維持するため、一度足した証明書は期限が切れても消さない
+ *   (トークンは genTime の時点で有効だった証明書で検証する)
+ */
+export const TSA_ROOT_CERTIFICATES: readonly string[] = [];
@@ -33,6 +33,8 @@ export type TypingProofErrorCode =
   | 'HASH_MISMATCH'
   | 'PREVIOUS_HASH_MISMATCH'
   | 'POSW_VERIFICATION_FAILED'
+  // 読込関連
+  | 'UNSUPPORTED_PROOF_VERSION'
   // イベント記録関連
   | 'RECORD_EVENT_FAILED'
   | 'ATTESTATION_FAILED'
@@ -0,0 +1,256 @@
+/**
+ * events の区間の選択的開示 (ADR-0040)。
+ *
+ * ADR-0024 のとおり、整合性の検証には Tier F (全 events + content) が要る。だが「10:32 の貼り付けは
+ * 本当にあったか」のような 1 区間についての問いに、学生のソース全文を渡したくない。ここでは
+ * proof から連続した events `[firstEventIndex, lastEventIndex]` だけを切り出し、
+ *
+ * 1. 区間の中の hash chain と PoSW (区間の先頭 event の `previousHash` から再計算)
+ * 2. 区間の events の `hash` が、ある checkpoint の Merkle 根 (events[0..eventIndex] の木) に含まれること
+ * 3. その Merkle 根がサーバ署名 cp の payload に入っていること
+ *
+ * を、区間外の events なしに検証できる開示物を作る。
+ *
+ * 不変条件:
+ * - 開示物は proof の改変ではなく派生物 (ADR-0024 不変条件 2)。proof 本体の検証は変わらない。
+ * - 区間外の events・`content`・fingerprint は開示物に入れない。区間の events の `data` は打った文字
+ *   そのものなので、区間の中のソースは見える (それが開示の目的)。
+ * - 署名の無い checkpoint に対する開示は「自己整合している」以上を言わない (`anchored: false`)。
+ *   Merkle 根ごと作り直せるので、時刻と存在の主張はサーバ署名があるときだけ成り立つ。
+ * - RFC 3161 のタイムスタンプトークン (ADR-0049) は checkpoint hash にだけ押されていて Merkle 根を
+ *   束縛しないので、トークンしか無い checkpoint への開示も `anchored: false` になる。
+ */
+
+import type { CheckpointData, StoredEvent } from './types.js';
+import type { MigratedProof } from './proofMigration.js';
+import { computeMerkleRangeRoot, computeMerkleRoot, createMerkleRangeProof, type MerkleRangeProof } from './merkle.js';
+import { verifyChainSegment } from './verification.js';
+import {
+  checkCheckpointKeyValidity,
+  isSignedCheckpointEnvelope,
+  verifyCheckpointSignature,
+} from './signedCheckpoints.js';
+import { CHECKPOINT_PUBLIC_KEYS, type CheckpointPublicKey } from './checkpointKeys/index.js';
+import { SIGNED_CHECKPOINT_FORMAT_VERSION } from './version.js';
+import type { HashSuiteId } from './hashSuite.js';
+
+/** 区間開示の schema 識別子。 */
+export const EVENT_RANGE_DISCLOSURE_SCHEMA = 'event-range-disclosure/1' as const;
+
+/** proof の events の区間と、それを署名 cp に結びつける Merkle 証明。 */
+export interface EventRangeDisclosure {
+  schema: typeof EVENT_RANGE_DISCLOSURE_SCHEMA;
+  firstEventIndex: number;
+  lastEventIndex: number;
+  /** 開示する events (`firstEventIndex` 番目から `lastEventIndex` 番目まで) */
+  events: StoredEvent[];
+  /** 区間を含む checkpoint (`merkleRoot` を持つ。署名があれば envelope ごと) */
+  checkpoint: CheckpointData;
+  /** 区間外の部分木の根。木は checkpoint.eventIndex + 1 枚の葉 */
+  siblings: string[];
+  /** proof の PoSW の suite (ADR-0044)。既定 suite の proof では持たない */
+  hashSuite?: HashSuiteId;
+}
+
+export interface CreateEventRangeDisclosureOptions {
+  /**
+   * 使う checkpoint の eventIndex。省略時は区間を含む (eventIndex >= lastEventIndex) checkpoint のうち、
+   * ECDSA 署名付きで最も早いもの、無ければ署名なしで最も早いもの (木が小さいほど証明も小さい)。
+   */
+  checkpointEventIndex?: number;
+}
+
+export interface EventRangeDisclosureVerificationResult {
+  /** 区間の hash chain・Merkle 証明・(あれば) 署名がすべて合格 */
+  valid: boolean;
+  /** 区間の Merkle 根がサーバ署名 cp に入っていて、署名が検証できた */
+  anchored: boolean;
+  reason?: string;
+  /** chain の不正が見つかった event の index (proof 全体での位置) */
+  errorAt?: number;
+  firstEventIndex?: number;
+  lastEventIndex?: number;
+  /** anchored のとき、区間の存在をサーバが確認した時刻 (署名 cp の serverTimestamp) */
+  serverTimestamp?: string;
+  sessionId?: string;
+  warning?: 'key-revoked-but-trusted-by-time';
+  poswSkipped: boolean;
+}
+
+export interface VerifyEventRangeDisclosureOptions {
+  /** 公開鍵レジストリ (テスト/CLI から注入) */
+  registry?: readonly CheckpointPublicKey[];
+  /** 区間の PoSW 再計算を省く (区間は短いので既定は全件再計算) */
+  skipPosw?: boolean;
+}
+
+function pickCheckpoint(
+  checkpoints: readonly CheckpointData[],
+  lastEventIndex: number,
+  checkpointEventIndex: number | undefined
+): CheckpointData | undefined {
+  const candidates = checkpoints.filter((cp) => cp.merkleRoot !== undefined && cp.eventIndex >= lastEventIndex);
+  if (checkpointEventIndex !== undefined) {
+    return candidates.find((cp) => cp.eventIndex === checkpointEventIndex);
+  }
+  const earliest = (list: CheckpointData[]) =>
+    list.reduce<CheckpointData | undefined>(
+      (best, cp) => (!best || cp.eventIndex < best.eventIndex ? cp : best),
+      undefined
+    );
+  return earliest(candidates.filter((cp) => isSignedCheckpointEnvelope(cp.signature))) ?? earliest(candidates);
+}
+
+/**
+ * proof (Tier F) から events `[firstEventIndex, lastEventIndex]` の開示物を作る。
+ *
+ * 選んだ checkpoint の `merkleRoot` を events から再計算して確かめてから作る (通らない開示物は
+ * 作らない)。区間を含む `merkleRoot` 付きの checkpoint が無い (ADR-0040 導入前の proof など)、
+ * 区間が events の外、根が合わないときは throw する。
+ */
+export async function createEventRangeDisclosure(
+  proof: Pick<MigratedProof, 'proof' | 'checkpoints' | 'hashSuite'>,
+  firstEventIndex: number,
+  lastEventIndex: number,
+  options: CreateEventRangeDisclosureOptions = {}
+): Promise<EventRangeDisclosure> {
+  const events = proof.proof.events;
+  if (
+    !Number.isInteger(firstEventIndex) ||
+    !Number.isInteger(lastEventIndex) ||
+    firstEventIndex < 0 ||
+    firstEventIndex > lastEventIndex ||
+    lastEventIndex >= events.length
+  ) {
+    throw new Error(
+      `Event range [${firstEventIndex}, ${lastEventIndex}] is outside the proof's ${events.length} events`
+    );
+  }
+
+  const checkpoint = pickCheckpoint(proof.checkpoints, lastEventIndex, options.checkpointEventIndex);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint with a Merkle root covers event ${lastEventIndex}`);
+  }
+
+  const hashes = events.slice(0, checkpoint.eventIndex + 1).map((event) => event.hash);
+  if ((await computeMerkleRoot(hashes)) !== checkpoint.merkleRoot) {
+    throw new Error(`Checkpoint Merkle root does not match the events at event ${checkpoint.eventIndex}`);
+  }
+  const inclusion = await createMerkleRangeProof(hashes, hashes.length, firstEventIndex, lastEventIndex);
+
+  return {
+    schema: EVENT_RANGE_DISCLOSURE_SCHEMA,
+    firstEventIndex,
+    lastEventIndex,
+    events: events.slice(firstEventIndex, lastEventIndex + 1),
+    checkpoint,
+    siblings: inclusion.siblings,
+    ...(proof.hashSuite !== undefined ? { hashSuite: proof.hashSuite } : {}),
+  };
+}
+
+/**
+ * 区間開示を検証する。入力は untrusted (JSON から読んだまま) でよい。
+ *
+ * 署名の無い checkpoint に対する開示は、chain と Merkle 証明が通れば `valid: true, anchored: false`。
+ * それは「開示物が自己整合している」だけで、区間が実在した証拠にはならない (呼び出し側で表示を分ける)。
+ * 署名があるのに検証できないときは `valid: false`。
+ */
+export async function verifyEventRangeDisclosure(
+  disclosure: unknown,
+  options: VerifyEventRangeDisclosureOptions = {}
+): Promise<EventRangeDisclosureVerificationResult> {
+  const poswSkipped = !!options.skipPosw;
+  const fail = (reason: string, errorAt?: number): EventRangeDisclosureVerificationResult => ({
+    valid: false,
+    anchored: false,
+    reason,
+    errorAt,
+    poswSkipped,
+  });
+
+  if (!disclosure || typeof disclosure !== 'object') return fail('Disclosure must be an object');
+  const d = disclosure as Partial<EventRangeDisclosure>;
+  if (d.schema !== EVENT_RANGE_DISCLOSURE_SCHEMA) return fail(`Unsupported disclosure schema: ${String(d.schema)}`);
+
+  const { firstEventIndex, lastEventIndex, events, checkpoint, siblings } = d;
+  if (!Number.isInteger(firstEventIndex) || !Number.isInteger(lastEventIndex)) {
+    return fail('Disclosure event range is missing');
+  }
+  const first = firstEventIndex!;
+  const last = lastEventIndex!;
+  const range = { firstEventIndex: first, lastEventIndex: last };
+  if (!Array.isArray(events) || events.length !== last - first + 1) {
+    return { ...fail('Disclosed events do not match the declared range'), ...range };
+  }
+  if (!checkpoint || typeof checkpoint !== 'object' || typeof checkpoint.merkleRoot !== 'string') {
+    return { ...fail('Disclosure checkpoint has no Merkle root'), ...range };
+  }
+  if (!Number.isInteger(checkpoint.eventIndex) || checkpoint.eventIndex < last) {
+    return { ...fail('Disclosure checkpoint does not cover the disclosed range'), ...range };
+  }
+
+  // 1. 区間の中の hash chain (PoSW を含む)
+  const chain = await verifyChainSegment(events, first, { skipPosw: poswSkipped, hashSuite: d.hashSuite });
+  if (!chain.valid) return { ...fail(chain.message, chain.errorAt), ...range };
+  if (last === checkpoint.eventIndex && events[events.length - 1]!.hash !== checkpoint.hash) {
+    return { ...fail('Disclosed last event hash does not match the checkpoint hash', last), ...range };
+  }
+
+  // 2. Merkle 証明: 区間の葉 + siblings から checkpoint の根を再計算する
+  const inclusion: MerkleRangeProof = {
+    treeSize: checkpoint.eventIndex + 1,
+    first,
+    last,
+    siblings: Array.isArray(siblings) ? siblings : [],
+  };
+  const root = await computeMerkleRangeRoot(
+    inclusion,
+    events.map((event) => event.hash)
+  );
+  if (root === null) return { ...fail('Malformed Merkle inclusion proof'), ...range };
+  if (root !== checkpoint.merkleRoot) {
+    return { ...fail('Disclosed events are not included in the checkpoint Merkle root'), ...range };
+  }
+
+  // 3. 署名 cp: payload の根と index が checkpoint と一致し、registry の鍵で署名が通ること
+  const envelope = checkpoint.signature;
+  if (!isSignedCheckpointEnvelope(envelope)) {
+    return { valid: true, anchored: false, ...range, poswSkipped };
+  }
+  const payload = envelope.payload;
+  if (payload?.version !== SIGNED_CHECKPOINT_FORMAT_VERSION) {
+    return { ...fail(`Unsupported signed checkpoint payload version: ${String(payload?.version)}`), ...range };
+  }
+  if (
+    payload.eventIndex !== checkpoint.eventIndex ||
+    payload.chainHash !== checkpoint.hash ||
+    payload.merkleRoot !== checkpoint.merkleRoot
+  ) {
+    return { ...fail('Signed checkpoint payload does not match the disclosure checkpoint'), ...range };
+  }
+  const signature = await verifyCheckpointSignature(envelope, options.registry ?? CHECKPOINT_PUBLIC_KEYS);
+  if (!signature.valid) {
+    return { ...fail(signature.reason ?? 'Signed checkpoint signature invalid'), ...range };
+  }
+  const serverTs = Date.parse(payload.serverTimestamp);
+  if (!Number.isFinite(serverTs)) {
+    return { ...fail('Signed checkpoint serverTimestamp is not a valid ISO date'), ...range };
+  }
+  let warning: EventRangeDisclosureVerificationResult['warning'];
+  if (signature.registryEntry) {
+    const validity = checkCheckpointKeyValidity(signature.registryEntry, serverTs, payload.eventIndex);
+    if (!validity.ok) return { ...fail(validity.message), ...range };
+    warning = validity.warning;
+  }
+
+  return {
+    valid: true,
+    anchored: true,
+    ...range,
+    serverTimestamp: payload.serverTimestamp,
+    sessionId: payload.sessionId,
+    ...(warning ? { warning } : {}),
+    poswSkipped,
+  };
+}
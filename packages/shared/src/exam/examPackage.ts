@@ -28,6 +28,7 @@ import type {
 } from '../types/exam.js';
 import type { ExportedProof } from '../types/proof.js';
 import { computeHash, deterministicStringify, arrayBufferToHex } from '../utils/hashUtils.js';
+import { DEFAULT_HASH_SUITE, isHashSuiteId } from '../hashSuite.js';
 import { EXAM_AUTHORITY_KEYS, findExamAuthorityKey, type ExamAuthorityKey } from '../examAuthorityKeys/index.js';
 import {
   EXAM_PACKAGE_FORMAT_VERSION,
@@ -128,6 +129,8 @@ export function parseExamPackageManifest(input: unknown): ExamPackageManifest |
 
   // publicKeyJwk は任意 (long-term verifiability の同梱)。あれば object。
   if (m.publicKeyJwk !== undefined && !isObj(m.publicKeyJwk)) return null;
+  // hashSuite は任意 (ADR-0044)。あれば登録済みの suite。
+  if (m.hashSuite !== undefined && !isHashSuiteId(m.hashSuite)) return null;
 
   return input as ExamPackageManifest;
 }
@@ -154,6 +157,8 @@ export function examPackageSigningCore(manifest: ExamPackageManifest): ExamPacka
     allowed: manifest.allowed,
     keyId: manifest.keyId,
     algorithm: manifest.algorithm,
+    // ADR-0044: 指定した package だけが持つ (省略した package の packageHash は従来と同じ)
+    ...(manifest.hashSuite !== undefined ? { hashSuite: manifest.hashSuite } : {}),
   };
 }
 
@@ -299,6 +304,7 @@ export async function buildExamPackage(
     allowed: input.allowed,
     keyId: signer.keyId,
     algorithm: input.algorithm,
+    ...(input.hashSuite !== undefined ? { hashSuite: input.hashSuite } : {}),
   };
 
   // 4. canonical core を ECDSA-P256 署名
@@ -497,7 +503,7 @@ export interface VerifyExamBindingOptions {
  * チェーン / PoSW / 署名 cp の検証は verifyProofFile が別途担う (本関数は exam 束縛のみ)。
  */
 export async function verifyExamBinding(
-  proof: Pick<ExportedProof, 'exam' | 'typingProofData' | 'fingerprint'>,
+  proof: Pick<ExportedProof, 'exam' | 'typingProofData' | 'fingerprint' | 'hashSuite'>,
   manifest: ExamPackageManifest,
   options: VerifyExamBindingOptions = {}
 ): Promise<ExamBindingVerificationResult> {
@@ -540,6 +546,17 @@ export async function verifyExamBinding(
     return { ...result, reason: 'Recomputed packageHash does not match proof.exam.packageHash' };
   }
 
+  // PoSW の suite (ADR-0044): package が指定した suite で記録したか。既定 suite の答案を
+  // memory-hard を指定した試験に出す (= 軽い PoSW で作る) ダウングレードを弾く。
+  const requiredSuite = manifest.hashSuite ?? DEFAULT_HASH_SUITE;
+  const proofSuite = proof.hashSuite ?? DEFAULT_HASH_SUITE;
+  if (proofSuite !== requiredSuite) {
+    return {
+      ...result,
+      reason: `Proof hash suite ${proofSuite} does not match the package hash suite ${requiredSuite}`,
+    };
+  }
+
   // root 束縛バージョン: v2 (ADR-0012, N問バンドル) は root と内容ハッシュを per-problem で検証する。
   // 旧 proof は rootBinding 未設定 = v1 とみなし、従来どおり (whole-plaintext) で検証する。
   const isV2 = exam.rootBinding === EXAM_ROOT_BINDING_V2;
@@ -32,6 +32,8 @@ export {
   encodeClassPackage,
 } from './classPackage.js';
 
+export { ROSTER_RECONCILIATION_SCHEMA, parseRosterCsv, reconcileRoster } from './roster.js';
+
 export type {
   ExamDecryptResult,
   ExamPackageSigner,
@@ -42,3 +44,12 @@ export type {
   VerifyExamBindingOptions,
   BuildExamProofBlockInput,
 } from './examPackage.js';
+
+export type {
+  RosterEntry,
+  RosterSubmission,
+  RosterReconcileOptions,
+  RosterIssue,
+  RosterStudentResult,
+  RosterReconciliation,
+} from './roster.js';
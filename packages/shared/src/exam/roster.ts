@@ -0,0 +1,329 @@
+/**
+ * 試験の名簿突合 (ADR-0037)。
+ *
+ * `verifyExamBinding` は 1 proof が package に束縛されているかを見るが、「誰が出していないか」
+ * 「誰が 2 回出したか」「誰が違う problemId / variant で出したか」は proof を 1 件ずつ見ても分からない。
+ * ここでは名簿 CSV (学籍番号 → 期待する variant・提出物の名前パターン) と提出物の集まりを突き合わせ、
+ * 学生ごとの所見を返す。
+ *
+ * 不変条件:
+ * - 材料は proof が既に持っているもの (`ExamProofBlock` の examId / problemId / variant と、
+ *   fingerprint 由来の `deviceId`) と名簿だけ。proof の valid・exit code には関与しない
+ *   (名簿の不備は検証の失敗ではない。事務処理の手掛かり)。
+ * - 学生と提出物の対応は**名前**で取る (proof は学生を名乗らない)。曖昧な対応 (複数の学生に当たる
+ *   提出物) はどちらにも数えず、`ambiguous` として別に返す (黙ってどちらかに寄せない)。
+ */
+
+import type { ExamPackageManifest, ExamProofBlock } from '../types/exam.js';
+
+/** 突合レポートの schema 識別子。 */
+export const ROSTER_RECONCILIATION_SCHEMA = 'roster-reconciliation/1' as const;
+
+/** 名簿の 1 行。空欄の列は検査しない (undefined)。 */
+export interface RosterEntry {
+  studentId: string;
+  /** 期待する variant (per-student variant)。 */
+  variant?: string;
+  /** 期待する problemId。 */
+  problemId?: string;
+  /**
+   * 提出物の名前パターン (`*` / `?` の glob、大文字小文字は区別しない)。未指定なら、学籍番号を
+   * 区切り文字で挟まれたトークンとして含む名前に当てる (`alice_s1234567_ALL_TC.zip` など)。
+   */
+  pattern?: string;
+  /** LMS の提出時刻 (ISO 8601)。問題パッケージの時間窓と比べる。 */
+  submittedAt?: string;
+}
+
+/** 突き合わせる提出物の proof 1 件 (マルチタブ ZIP はタブごと)。 */
+export interface RosterSubmission {
+  /** 提出物の名前 (CLI は入力ファイル名、web はフォルダ直下の項目名)。学生との照合に使う。 */
+  source: string;
+  /** proof の表示ラベル (マルチタブ ZIP は `file#tab`)。 */
+  label: string;
+  /** proof の exam ブロック。exam proof でなければ null。 */
+  exam: Pick<ExamProofBlock, 'examId' | 'problemId' | 'variant'> | null;
+  /** fingerprint 由来の端末 ID (`typingProofData.deviceId`)。 */
+  deviceId: string | null;
+  /** 検証側で判定済みの time-box (exam 束縛の `timeBox.withinWindow`)。名簿に提出時刻が無いときに使う。 */
+  withinWindow?: boolean | null;
+}
+
+export interface RosterReconcileOptions {
+  /** 問題パッケージ。examId の突合と時間窓 (名簿の提出時刻と比べる) の出所。 */
+  manifest?: Pick<ExamPackageManifest, 'examId' | 'releaseTime' | 'deadline'>;
+}
+
+/** 学生 1 人についての所見。 */
+export type RosterIssue =
+  | { kind: 'missing' }
+  | { kind: 'duplicate'; sources: string[] }
+  | {
+      kind: 'mismatch';
+      label: string;
+      /** `exam` = exam ブロックが無い (試験外で作った proof)。 */
+      field: 'exam' | 'examId' | 'problemId' | 'variant';
+      expected: string | null;
+      actual: string | null;
+    }
+  | { kind: 'out-of-time-box'; source: string; submittedAt?: string }
+  | { kind: 'multiple-devices'; deviceIds: string[] };
+
+export interface RosterStudentResult {
+  studentId: string;
+  /** この学生に当たった提出物 (名前順)。 */
+  sources: string[];
+  issues: RosterIssue[];
+}
+
+export interface RosterReconciliation {
+  schema: typeof ROSTER_RECONCILIATION_SCHEMA;
+  /** 名簿の順。 */
+  students: RosterStudentResult[];
+  /** どの学生にも当たらなかった提出物。 */
+  unmatched: string[];
+  /** 複数の学生に当たった提出物 (どちらにも数えない)。 */
+  ambiguous: Array<{ source: string; studentIds: string[] }>;
+  counts: {
+    students: number;
+    submitted: number;
+    missing: number;
+    /** 所見がある学生 (missing を除く)。 */
+    withIssues: number;
+  };
+}
+
+// ============================================================================
+// 名簿 CSV
+// ============================================================================
+
+/** CSV を行と列に割る (RFC 4180 の引用符: `"a,b"` / `""` のエスケープ、引用符内の改行)。 */
+function splitCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // 空行 (Excel が末尾に足すものを含む) は読み飛ばす
+  return records.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+const ROSTER_COLUMNS = {
+  student_id: 'studentId',
+  variant: 'variant',
+  problem_id: 'problemId',
+  pattern: 'pattern',
+  submitted_at: 'submittedAt',
+} as const satisfies Record<string, keyof RosterEntry>;
+
+/**
+ * 名簿 CSV を読む。1 行目はヘッダで、`student_id` 列が必須、`variant` / `problem_id` / `pattern` /
+ * `submitted_at` は任意 (氏名・メールなど他の列は無視する)。列名の大文字小文字は区別しない。
+ *
+ * @throws `student_id` 列が無い / 学籍番号が空・重複 / `submitted_at` が時刻として読めないとき
+ *   (名簿の誤りを黙って読み飛ばすと、その学生が「未提出」に見える)
+ */
+export function parseRosterCsv(text: string): RosterEntry[] {
+  const records = splitCsvRecords(text.replace(/^\uFEFF/, ''));
+  const header = records[0]?.map((h) => h.trim().toLowerCase());
+  if (!header?.includes('student_id')) {
+    throw new Error('Roster CSV needs a header row with a "student_id" column.');
+  }
+
+  const entries: RosterEntry[] = [];
+  const seen = new Set<string>();
+  for (const [i, record] of records.slice(1).entries()) {
+    const where = `Roster CSV line ${i + 2}`;
+    const entry: Partial<RosterEntry> = {};
+    for (const [column, key] of Object.entries(ROSTER_COLUMNS)) {
+      const index = header.indexOf(column);
+      const value = index === -1 ? '' : (record[index] ?? '').trim();
+      if (value !== '') entry[key] = value;
+    }
+    if (entry.studentId === undefined) {
+      throw new Error(`${where}: "student_id" is empty.`);
+    }
+    if (seen.has(entry.studentId)) {
+      throw new Error(`${where}: duplicate student_id "${entry.studentId}".`);
+    }
+    if (entry.submittedAt !== undefined && Number.isNaN(Date.parse(entry.submittedAt))) {
+      throw new Error(`${where}: "submitted_at" is not an ISO 8601 timestamp (got: ${entry.submittedAt}).`);
+    }
+    seen.add(entry.studentId);
+    entries.push(entry as RosterEntry);
+  }
+  if (entries.length === 0) {
+    throw new Error('Roster CSV has no students.');
+  }
+  return entries;
+}
+
+// ============================================================================
+// 突合
+// ============================================================================
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** 学生に当たる提出物の名前か。 */
+function matchesStudent(entry: RosterEntry, source: string): boolean {
+  if (entry.pattern !== undefined) {
+    const glob = entry.pattern
+      .split(/([*?])/)
+      .map((part) => (part === '*' ? '.*' : part === '?' ? '.' : escapeRegExp(part)));
+    return new RegExp(`^${glob.join('')}$`, 'i').test(source);
+  }
+  return new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(entry.studentId)}([^A-Za-z0-9]|$)`, 'i').test(source);
+}
+
+/** 提出時刻が時間窓の外か (どちらかが読めなければ null = 判定しない)。 */
+function outsideWindow(submittedAt: string, manifest: RosterReconcileOptions['manifest']): boolean | null {
+  if (!manifest) return null;
+  const t = Date.parse(submittedAt);
+  const release = Date.parse(manifest.releaseTime);
+  const deadline = Date.parse(manifest.deadline);
+  if ([t, release, deadline].some(Number.isNaN)) return null;
+  return t < release || t > deadline;
+}
+
+function studentIssues(
+  entry: RosterEntry,
+  mine: readonly RosterSubmission[],
+  options: RosterReconcileOptions
+): RosterIssue[] {
+  const sources = [...new Set(mine.map((s) => s.source))].sort();
+  if (sources.length === 0) return [{ kind: 'missing' }];
+
+  const issues: RosterIssue[] = [];
+  if (sources.length > 1) issues.push({ kind: 'duplicate', sources });
+
+  const expectedExamId = options.manifest?.examId;
+  for (const s of mine) {
+    if (s.exam === null) {
+      issues.push({ kind: 'mismatch', label: s.label, field: 'exam', expected: expectedExamId ?? null, actual: null });
+      continue;
+    }
+    if (expectedExamId !== undefined && s.exam.examId !== expectedExamId) {
+      issues.push({
+        kind: 'mismatch',
+        label: s.label,
+        field: 'examId',
+        expected: expectedExamId,
+        actual: s.exam.examId,
+      });
+    }
+    if (entry.problemId !== undefined && s.exam.problemId !== entry.problemId) {
+      issues.push({
+        kind: 'mismatch',
+        label: s.label,
+        field: 'problemId',
+        expected: entry.problemId,
+        actual: s.exam.problemId,
+      });
+    }
+    if (entry.variant !== undefined && s.exam.variant !== entry.variant) {
+      issues.push({
+        kind: 'mismatch',
+        label: s.label,
+        field: 'variant',
+        expected: entry.variant,
+        actual: s.exam.variant,
+      });
+    }
+  }
+
+  // 名簿の提出時刻 (学生単位) が時間窓と比べられればそれを使い、無ければ検証側の判定 (proof 単位) を使う。
+  const late = entry.submittedAt !== undefined ? outsideWindow(entry.submittedAt, options.manifest) : null;
+  if (late === true) {
+    issues.push({ kind: 'out-of-time-box', source: sources[0]!, submittedAt: entry.submittedAt });
+  } else if (late === null) {
+    const lateSources = new Set(mine.filter((s) => s.withinWindow === false).map((s) => s.source));
+    for (const source of [...lateSources].sort()) issues.push({ kind: 'out-of-time-box', source });
+  }
+
+  const deviceIds = [...new Set(mine.map((s) => s.deviceId).filter((d): d is string => d !== null))].sort();
+  if (deviceIds.length > 1) issues.push({ kind: 'multiple-devices', deviceIds });
+
+  return issues;
+}
+
+/**
+ * 名簿と提出物を突き合わせる (純関数・決定的)。
+ *
+ * 各提出物を名前で学生に当て、学生ごとに未提出・重複提出 (別の提出物が 2 つ以上)・examId / problemId /
+ * variant の食い違い・時間窓の外・複数端末 (proof の deviceId が 2 種類以上) を所見にする。
+ * マルチタブ ZIP の各タブは同じ提出物なので、重複には数えない。
+ */
+export function reconcileRoster(
+  roster: readonly RosterEntry[],
+  submissions: readonly RosterSubmission[],
+  options: RosterReconcileOptions = {}
+): RosterReconciliation {
+  const bySource = new Map<string, RosterSubmission[]>();
+  for (const s of submissions) {
+    bySource.set(s.source, [...(bySource.get(s.source) ?? []), s]);
+  }
+
+  const assigned = new Map<string, RosterSubmission[]>(roster.map((e) => [e.studentId, []]));
+  const unmatched: string[] = [];
+  const ambiguous: RosterReconciliation['ambiguous'] = [];
+  for (const source of [...bySource.keys()].sort()) {
+    const owners = roster.filter((e) => matchesStudent(e, source)).map((e) => e.studentId);
+    if (owners.length === 0) unmatched.push(source);
+    else if (owners.length > 1) ambiguous.push({ source, studentIds: owners });
+    else assigned.get(owners[0]!)!.push(...bySource.get(source)!);
+  }
+
+  const students = roster.map((entry) => {
+    const mine = assigned.get(entry.studentId)!;
+    return {
+      studentId: entry.studentId,
+      sources: [...new Set(mine.map((s) => s.source))].sort(),
+      issues: studentIssues(entry, mine, options),
+    };
+  });
+
+  const missing = students.filter((s) => s.issues.some((i) => i.kind === 'missing')).length;
+  return {
+    schema: ROSTER_RECONCILIATION_SCHEMA,
+    students,
+    unmatched,
+    ambiguous,
+    counts: {
+      students: students.length,
+      submitted: students.length - missing,
+      missing,
+      withIssues: students.filter((s) => s.issues.length > 0 && s.issues[0]!.kind !== 'missing').length,
+    },
+  };
+}
@@ -0,0 +1,497 @@
+/**
+ * proof のバイナリ符号化 (`tcproof/1`、ADR-0038)。
+ *
+ * 90 分の試験セッションの proof は数十万件の `StoredEvent` を持ち、JSON ではイベントごとに
+ * フィールド名と 64 桁 hex のハッシュ (hash / previousHash / PoSW の intermediateHash) を繰り返すため
+ * タブあたり数十 MB になる。ここでは JSON と同じ値の木を、型タグ付きの小さな符号で書く。
+ *
+ * - 文字列: 32 文字以下は初出で辞書に入れ、以後は番号で参照する (`type` / `inputType` / 1 文字の挿入など)。
+ *   小文字 hex (16 桁以上・偶数桁) はバイト列で書く。
+ * - オブジェクト: キー列 (shape) を辞書に入れ、以後は shape 番号と値だけを書く。
+ * - 配列の要素は直前の要素を文脈にする: 同じ位置の値と同じなら 1 バイト、整数は差分 (timestamp /
+ *   sequence / rangeOffset)、直前の要素の `hash` と同じ文字列 (`previousHash`) は 1 バイト。
+ *
+ * 不変条件: `decodeBinaryProof(encodeBinaryProof(x))` は `JSON.parse(JSON.stringify(x))` と
+ * キーの順序まで同じ値を返す (undefined の省略・-0・lone surrogate を含め JSON と同じ意味論)。
+ * イベントのハッシュは `deterministicStringify` で再計算されるので、バイナリ経由でも `verifyChain`
+ * の結論は変わらない。圧縮はしない (提出 ZIP の DEFLATE に任せる)。
+ */
+
+/** 符号化形式の識別子。 */
+export const BINARY_PROOF_FORMAT = 'tcproof/1' as const;
+
+/** バイナリ proof の拡張子 (`<name>_proof.tcproof`)。 */
+export const BINARY_PROOF_EXTENSION = '.tcproof';
+
+/** 先頭 4 バイト (`TCPB`) + 版 1 バイト。 */
+const MAGIC = [0x54, 0x43, 0x50, 0x42] as const;
+const VERSION = 1;
+
+/** 辞書に入れる文字列の最大長 (UTF-16 単位)。 */
+const MAX_DICTIONARY_STRING = 32;
+/** 入れ子の上限 (壊れた / 悪意ある入力でスタックを使い切らないように)。 */
+const MAX_DEPTH = 64;
+
+// 型タグ
+const TAG_NULL = 0;
+const TAG_FALSE = 1;
+const TAG_TRUE = 2;
+const TAG_UINT = 3;
+const TAG_NEGINT = 4;
+const TAG_FLOAT64 = 5;
+const TAG_STRING = 6;
+/** lone surrogate を含む文字列 (UTF-8 にすると U+FFFD に化けるので UTF-16 のまま書く)。 */
+const TAG_STRING16 = 7;
+const TAG_STRING_REF = 8;
+const TAG_HEX = 9;
+const TAG_ARRAY = 10;
+const TAG_OBJECT = 11;
+const TAG_OBJECT_REF = 12;
+/** 直前の要素の同じ位置の値と同じ (文字列・数値・真偽値)。 */
+const TAG_SAME = 13;
+/** 直前の要素の同じ位置の整数との差分 (zigzag varint)。 */
+const TAG_DELTA = 14;
+/** 直前の要素の `hash` と同じ文字列。 */
+const TAG_PREV_HASH = 15;
+
+/** 差分で書く整数の上限 (zigzag が安全整数に収まる範囲)。 */
+const MAX_DELTA = 2 ** 48;
+
+const HEX_PATTERN = /^(?:[0-9a-f]{2}){8,}$/;
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+type Context = Record<string, unknown> | undefined;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIntegral(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && !Object.is(value, -0);
+}
+
+/** 文脈 (直前の要素) の同じキーの値。自前のプロパティだけを見る。 */
+function contextValue(context: Context, key: string): unknown {
+  return context !== undefined && Object.hasOwn(context, key) ? context[key] : undefined;
+}
+
+function contextHash(context: Context): string | undefined {
+  const hash = contextValue(context, 'hash');
+  return typeof hash === 'string' ? hash : undefined;
+}
+
+function varintLength(n: number): number {
+  let length = 1;
+  while (n >= 0x80) {
+    n = Math.floor(n / 0x80);
+    length++;
+  }
+  return length;
+}
+
+function zigzag(n: number): number {
+  return n >= 0 ? n * 2 : -n * 2 - 1;
+}
+
+function unzigzag(n: number): number {
+  return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+}
+
+// ============================================================================
+// 符号化
+// ============================================================================
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(b: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = b;
+  }
+
+  varint(n: number): void {
+    this.ensure(8);
+    while (n >= 0x80) {
+      this.buffer[this.length++] = (n % 0x80) | 0x80;
+      n = Math.floor(n / 0x80);
+    }
+    this.buffer[this.length++] = n;
+  }
+
+  float64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class Encoder {
+  private readonly writer = new ByteWriter();
+  private readonly strings = new Map<string, number>();
+  private readonly shapes = new Map<string, number>();
+  private readonly utf8 = new TextEncoder();
+
+  encode(root: unknown): Uint8Array {
+    for (const b of MAGIC) this.writer.byte(b);
+    this.writer.byte(VERSION);
+    this.value(toJsonValue(root, ''), undefined, 0);
+    return this.writer.finish();
+  }
+
+  /** 1 つの値。`previous` は直前の要素の同じ位置の値 (無ければ undefined)。 */
+  private value(value: unknown, previous: unknown, depth: number, previousHash?: string): void {
+    if (depth > MAX_DEPTH) throw new Error(`Binary proof nesting exceeds ${MAX_DEPTH} levels`);
+    const w = this.writer;
+
+    if (previousHash !== undefined && value === previousHash) {
+      w.byte(TAG_PREV_HASH);
+      return;
+    }
+    if (previous !== undefined && typeof value !== 'object' && Object.is(value, previous)) {
+      w.byte(TAG_SAME);
+      return;
+    }
+
+    if (value === null) {
+      w.byte(TAG_NULL);
+    } else if (value === true || value === false) {
+      w.byte(value ? TAG_TRUE : TAG_FALSE);
+    } else if (typeof value === 'number') {
+      this.number(value, previous);
+    } else if (typeof value === 'string') {
+      this.string(value);
+    } else if (Array.isArray(value)) {
+      w.byte(TAG_ARRAY);
+      w.varint(value.length);
+      let prevItem: unknown;
+      for (const [index, item] of value.entries()) {
+        let json = toJsonValue(item, String(index));
+        if (json === undefined || typeof json === 'function' || typeof json === 'symbol') json = null;
+        this.value(json, prevItem, depth + 1, contextHash(isPlainObject(prevItem) ? prevItem : undefined));
+        prevItem = json;
+      }
+    } else {
+      this.object(value as Record<string, unknown>, isPlainObject(previous) ? previous : undefined, depth);
+    }
+  }
+
+  private number(value: number, previous: unknown): void {
+    const w = this.writer;
+    if (!isIntegral(value)) {
+      w.byte(TAG_FLOAT64);
+      w.float64(value);
+      return;
+    }
+    const plain = varintLength(Math.abs(value));
+    if (isIntegral(previous) && Math.abs(value - previous) <= MAX_DELTA) {
+      const delta = zigzag(value - previous);
+      if (varintLength(delta) < plain) {
+        w.byte(TAG_DELTA);
+        w.varint(delta);
+        return;
+      }
+    }
+    w.byte(value >= 0 ? TAG_UINT : TAG_NEGINT);
+    w.varint(Math.abs(value));
+  }
+
+  private string(value: string): void {
+    const w = this.writer;
+    const ref = this.strings.get(value);
+    if (ref !== undefined) {
+      w.byte(TAG_STRING_REF);
+      w.varint(ref);
+      return;
+    }
+    if (HEX_PATTERN.test(value)) {
+      w.byte(TAG_HEX);
+      w.varint(value.length / 2);
+      w.bytes(hexToBytes(value));
+      return;
+    }
+    if (LONE_SURROGATE.test(value)) {
+      w.byte(TAG_STRING16);
+      w.varint(value.length);
+      for (let i = 0; i < value.length; i++) {
+        const unit = value.charCodeAt(i);
+        w.byte(unit & 0xff);
+        w.byte(unit >> 8);
+      }
+    } else {
+      const bytes = this.utf8.encode(value);
+      w.byte(TAG_STRING);
+      w.varint(bytes.length);
+      w.bytes(bytes);
+    }
+    if (value.length <= MAX_DICTIONARY_STRING) this.strings.set(value, this.strings.size);
+  }
+
+  private object(value: Record<string, unknown>, previous: Context, depth: number): void {
+    const w = this.writer;
+    const entries: Array<[string, unknown]> = [];
+    for (const key of Object.keys(value)) {
+      const json = toJsonValue(value[key], key);
+      if (json === undefined || typeof json === 'function' || typeof json === 'symbol') continue;
+      entries.push([key, json]);
+    }
+    const keys = entries.map(([key]) => key);
+    const shapeKey = JSON.stringify(keys);
+    const shape = this.shapes.get(shapeKey);
+    if (shape !== undefined) {
+      w.byte(TAG_OBJECT_REF);
+      w.varint(shape);
+    } else {
+      w.byte(TAG_OBJECT);
+      w.varint(keys.length);
+      for (const key of keys) this.string(key);
+      this.shapes.set(shapeKey, this.shapes.size);
+    }
+    const previousHash = contextHash(previous);
+    for (const [key, json] of entries) {
+      this.value(json, contextValue(previous, key), depth + 1, previousHash);
+    }
+  }
+}
+
+/** `JSON.stringify` と同じく toJSON を通し、有限でない数値は null、-0 は 0 にする。 */
+function toJsonValue(value: unknown, key: string): unknown {
+  if (typeof value === 'object' && value !== null) {
+    const toJSON = (value as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function') return toJsonValue(toJSON.call(value, key), key);
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) return null;
+  if (Object.is(value, -0)) return 0;
+  if (typeof value === 'bigint') throw new TypeError('Binary proof cannot encode a BigInt');
+  return value;
+}
+
+/** 小文字 hex 1 桁の値 (HEX_PATTERN を通った文字だけが来る)。 */
+function hexDigit(code: number): number {
+  return code <= 0x39 ? code - 0x30 : code - 0x57;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = (hexDigit(hex.charCodeAt(i * 2)) << 4) | hexDigit(hex.charCodeAt(i * 2 + 1));
+  }
+  return bytes;
+}
+
+const HEX_DIGITS = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, '0'));
+
+// ============================================================================
+// 復号
+// ============================================================================
+
+class Decoder {
+  private offset = MAGIC.length + 1;
+  private readonly view: DataView;
+  private readonly strings: string[] = [];
+  private readonly shapes: string[][] = [];
+  private readonly utf8 = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  decode(): unknown {
+    const root = this.value(undefined, 0);
+    if (this.offset !== this.bytes.length) {
+      throw new Error(`Invalid binary proof: ${this.bytes.length - this.offset} trailing byte(s)`);
+    }
+    return root;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid binary proof at byte ${this.offset}: ${message}`);
+  }
+
+  private byte(): number {
+    if (this.offset >= this.bytes.length) this.fail('unexpected end of data');
+    return this.bytes[this.offset++]!;
+  }
+
+  private varint(): number {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      result += (b & 0x7f) * scale;
+      if (b < 0x80) break;
+      scale *= 0x80;
+      if (scale > 2 ** 56) this.fail('varint too long');
+    }
+    return result;
+  }
+
+  /** 長さ・要素数。残りのバイト数を超える値は壊れた入力 (巨大な確保をしない)。 */
+  private count(bytesPerItem: number): number {
+    const n = this.varint();
+    if (n * bytesPerItem > this.bytes.length - this.offset) this.fail(`length ${n} exceeds the remaining data`);
+    return n;
+  }
+
+  private value(previous: unknown, depth: number, previousHash?: string): unknown {
+    if (depth > MAX_DEPTH) this.fail(`nesting exceeds ${MAX_DEPTH} levels`);
+    const tag = this.byte();
+    switch (tag) {
+      case TAG_NULL:
+        return null;
+      case TAG_FALSE:
+        return false;
+      case TAG_TRUE:
+        return true;
+      case TAG_UINT:
+        return this.varint();
+      case TAG_NEGINT:
+        return -this.varint();
+      case TAG_FLOAT64: {
+        if (this.offset + 8 > this.bytes.length) this.fail('unexpected end of data');
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+      }
+      case TAG_STRING: {
+        const length = this.count(1);
+        const value = this.utf8.decode(this.bytes.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return this.remember(value);
+      }
+      case TAG_STRING16: {
+        const length = this.count(2);
+        let value = '';
+        for (let i = 0; i < length; i++) {
+          value += String.fromCharCode(this.bytes[this.offset]! | (this.bytes[this.offset + 1]! << 8));
+          this.offset += 2;
+        }
+        return this.remember(value);
+      }
+      case TAG_STRING_REF: {
+        const ref = this.varint();
+        if (ref >= this.strings.length) this.fail(`unknown string reference ${ref}`);
+        return this.strings[ref]!;
+      }
+      case TAG_HEX: {
+        const length = this.count(1);
+        const digits = new Array<string>(length);
+        for (let i = 0; i < length; i++) digits[i] = HEX_DIGITS[this.bytes[this.offset + i]!]!;
+        this.offset += length;
+        return digits.join('');
+      }
+      case TAG_ARRAY: {
+        const length = this.count(1);
+        const items: unknown[] = [];
+        let prevItem: unknown;
+        for (let i = 0; i < length; i++) {
+          prevItem = this.value(prevItem, depth + 1, contextHash(isPlainObject(prevItem) ? prevItem : undefined));
+          items.push(prevItem);
+        }
+        return items;
+      }
+      case TAG_OBJECT: {
+        const keyCount = this.count(1);
+        const keys: string[] = [];
+        for (let i = 0; i < keyCount; i++) {
+          const key = this.value(undefined, depth + 1);
+          if (typeof key !== 'string') this.fail('object key is not a string');
+          keys.push(key);
+        }
+        this.shapes.push(keys);
+        return this.object(keys, isPlainObject(previous) ? previous : undefined, depth);
+      }
+      case TAG_OBJECT_REF: {
+        const ref = this.varint();
+        if (ref >= this.shapes.length) this.fail(`unknown object shape ${ref}`);
+        return this.object(this.shapes[ref]!, isPlainObject(previous) ? previous : undefined, depth);
+      }
+      case TAG_SAME:
+        if (previous === undefined || typeof previous === 'object') this.fail('no previous value to repeat');
+        return previous;
+      case TAG_DELTA:
+        if (!isIntegral(previous)) this.fail('no previous integer for a delta');
+        return previous + unzigzag(this.varint());
+      case TAG_PREV_HASH:
+        if (previousHash === undefined) this.fail('no previous hash to reference');
+        return previousHash;
+      default:
+        return this.fail(`unknown tag ${tag}`);
+    }
+  }
+
+  private remember(value: string): string {
+    if (value.length <= MAX_DICTIONARY_STRING) this.strings.push(value);
+    return value;
+  }
+
+  private object(keys: string[], previous: Context, depth: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const previousHash = contextHash(previous);
+    for (const key of keys) {
+      const value = this.value(contextValue(previous, key), depth + 1, previousHash);
+      if (key === '__proto__') {
+        // JSON.parse と同じく自前のプロパティにする (プロトタイプを差し替えない)
+        Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+}
+
+// ============================================================================
+// 公開 API
+// ============================================================================
+
+function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/** 先頭が `tcproof` のマジックか (版は問わない)。拡張子に頼らず中身で判定したいとき用。 */
+export function isBinaryProof(data: Uint8Array | ArrayBuffer): boolean {
+  const bytes = toBytes(data);
+  return bytes.length > MAGIC.length && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * proof (JSON にできる値) を `tcproof/1` に符号化する。
+ * @throws BigInt や循環参照など、JSON にできない値を含むとき
+ */
+export function encodeBinaryProof(proof: unknown): Uint8Array {
+  return new Encoder().encode(proof);
+}
+
+/**
+ * `tcproof/1` を復号する。proof の構造 (`isProofFile`) は呼び出し側で確かめる。
+ * @throws マジック・版が違う / 壊れている / 末尾に余りがあるとき
+ */
+export function decodeBinaryProof(data: Uint8Array | ArrayBuffer): unknown {
+  const bytes = toBytes(data);
+  if (!isBinaryProof(bytes)) throw new Error('Not a binary proof (missing TCPB header)');
+  const version = bytes[MAGIC.length];
+  if (version !== VERSION) throw new Error(`Unsupported binary proof version ${version} (expected ${VERSION})`);
+  return new Decoder(bytes).decode();
+}
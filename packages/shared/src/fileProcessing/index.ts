@@ -9,6 +9,7 @@ export type {
   ParsedFileData,
   ProofFileCore,
   ZipParseResult,
+  ZipProofEntry,
   FileParseCallbacks,
   ScreenshotManifest,
   ScreenshotManifestEntry,
@@ -29,6 +30,22 @@ export {
   parseZipBuffer,
   extractFirstProofFromZip,
   extractAllProofsFromZip,
+  openProofEntriesFromZip,
   extractScreenshotArtifactsFromZip,
+  extractSubmissionReceiptFromZip,
   assertZipWithinBudget,
+  parseBinaryProofBuffer,
 } from './parser.js';
+
+// Binary proof encoding (tcproof/1, ADR-0038)
+export {
+  BINARY_PROOF_FORMAT,
+  BINARY_PROOF_EXTENSION,
+  isBinaryProof,
+  encodeBinaryProof,
+  decodeBinaryProof,
+} from './binaryProof.js';
+
+// Streaming proof reader (ADR-0039)
+export { readProofEventStream, textChunks } from './proofEventStream.js';
+export type { ProofTextSource } from './proofEventStream.js';
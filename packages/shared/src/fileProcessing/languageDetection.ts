@@ -121,10 +121,10 @@ export function getFileType(filename: string): 'json' | 'zip' | 'unknown' {
 }
 
 /**
- * Check if filename matches proof file pattern
+ * Check if filename matches proof file pattern (JSON or binary `.tcproof`, ADR-0038)
  * @param filename - Filename to check
  * @returns True if file could be a proof file
  */
 export function isProofFilename(filename: string): boolean {
-  return filename.endsWith('.json');
+  return filename.endsWith('.json') || filename.endsWith('.tcproof');
 }
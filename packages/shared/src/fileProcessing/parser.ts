@@ -12,8 +12,13 @@ import type {
   FileParseCallbacks,
   ScreenshotManifest,
   ScreenshotManifestEntry,
+  ZipProofEntry,
 } from './types.js';
+import type { ProofTextSource } from './proofEventStream.js';
 import { getLanguageFromExtension, isBinaryFile } from './languageDetection.js';
+import { BINARY_PROOF_EXTENSION, decodeBinaryProof } from './binaryProof.js';
+import { SUBMISSION_RECEIPT_FILENAME, parseSubmissionReceipt } from '../submissionReceipt.js';
+import type { SubmissionReceipt } from '../types/submissionReceipt.js';
 
 // ============================================================================
 // ZIP 展開の DoS ガード (zip bomb)
@@ -98,6 +103,104 @@ export function parseJsonString(content: string, filename: string): ParsedFileDa
   }
 }
 
+/**
+ * バイナリ proof (`.tcproof`、ADR-0038) を解析する。`rawData` には JSON 文字列を入れる
+ * (JSON の proof と同じ経路で検証・表示できるように)。
+ * @returns proof でなければ null
+ * @throws 符号が壊れているとき (拡張子で proof と名乗っているので、黙って読み飛ばさない)
+ */
+export function parseBinaryProofBuffer(buffer: ArrayBuffer | Uint8Array, filename: string): ParsedFileData | null {
+  const decoded = decodeBinaryProof(buffer);
+  if (!isProofFile(decoded)) return null;
+  return {
+    filename,
+    type: 'proof',
+    language: decoded.language ?? 'unknown',
+    rawData: JSON.stringify(decoded),
+    proofData: decoded,
+  };
+}
+
+/** ZIP のエントリ名が proof の候補か (`.json` / `.tcproof`)。提出レシート (ADR-0047) は除く。 */
+function isProofEntryName(name: string): boolean {
+  if (name === SUBMISSION_RECEIPT_FILENAME) return false;
+  return name.endsWith('.json') || name.endsWith(BINARY_PROOF_EXTENSION);
+}
+
+/** ZIP の proof 候補 1 件を読む。JSON が壊れていれば null、バイナリが壊れていれば throw。 */
+async function readProofEntry(zip: JSZip, name: string): Promise<unknown> {
+  const file = zip.files[name];
+  if (!file) return null;
+  if (name.endsWith(BINARY_PROOF_EXTENSION)) {
+    try {
+      return decodeBinaryProof(await file.async('uint8array'));
+    } catch (e) {
+      throw new Error(`Invalid binary proof in ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  try {
+    return JSON.parse(await file.async('string'));
+  } catch {
+    return null;
+  }
+}
+
+/** JSZip の stream (`internalStream`)。公開 API だが型定義に載っていないので、使う分だけ書く。 */
+interface ZipEntryStream {
+  on(event: 'data', callback: (chunk: Uint8Array) => void): ZipEntryStream;
+  on(event: 'end', callback: () => void): ZipEntryStream;
+  on(event: 'error', callback: (error: Error) => void): ZipEntryStream;
+  pause(): ZipEntryStream;
+  resume(): ZipEntryStream;
+}
+
+/**
+ * ZIP エントリを解凍しながら chunk で返す。Node / ブラウザのどちらの stream にも依らないよう JSZip の
+ * stream を使い、読み手が chunk を受け取るまで解凍を止める (解凍済みの全文を持たない)。
+ */
+async function* streamZipEntry(file: JSZip.JSZipObject): AsyncGenerator<Uint8Array> {
+  const stream = (file as unknown as { internalStream(type: 'uint8array'): ZipEntryStream }).internalStream(
+    'uint8array'
+  );
+  const queue: Uint8Array[] = [];
+  let ended = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = (): void => {
+    wake?.();
+    wake = null;
+  };
+  stream
+    .on('data', (chunk) => {
+      queue.push(chunk);
+      stream.pause();
+      notify();
+    })
+    .on('end', () => {
+      ended = true;
+      notify();
+    })
+    .on('error', (error) => {
+      failure = error;
+      notify();
+    });
+  stream.resume();
+
+  for (;;) {
+    const chunk = queue.shift();
+    if (chunk) {
+      yield chunk;
+      if (queue.length === 0 && !ended) stream.resume();
+      continue;
+    }
+    if (failure) throw failure;
+    if (ended) return;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  }
+}
+
 // ============================================================================
 // ZIP parsing
 // ============================================================================
@@ -145,6 +248,13 @@ export async function parseZipBuffer(
       // Skip files in screenshots/ folder (processed separately)
       if (path.startsWith('screenshots/')) continue;
 
+      // Binary proof (.tcproof)
+      if (filename.endsWith(BINARY_PROOF_EXTENSION)) {
+        const parsed = parseBinaryProofBuffer(await zipEntry.async('uint8array'), filename);
+        if (parsed) files.push({ ...parsed, relativePath: path });
+        continue;
+      }
+
       // Skip binary files (text files only)
       if (isBinaryFile(filename)) continue;
 
@@ -339,6 +449,33 @@ export async function extractScreenshotArtifactsFromZip(buffer: ArrayBuffer): Pr
   return { entries, images };
 }
 
+/**
+ * ZIP のルートから提出レシート (`submission-receipt.json`, ADR-0047) を取り出す。
+ *
+ * ここでは署名も proof との突合も見ない (verifyProofFile の `submissionReceipt` が見る)。
+ * - レシートが無い → null (オフライン export / 旧 export / JSON 単体)
+ * - あるのに JSON / 形が壊れている → throw。同梱された証拠を「無かった」と同一視しない
+ */
+export async function extractSubmissionReceiptFromZip(buffer: ArrayBuffer): Promise<SubmissionReceipt | null> {
+  const zip = await JSZip.loadAsync(buffer);
+  assertZipWithinBudget(zip);
+
+  const file = zip.file(SUBMISSION_RECEIPT_FILENAME);
+  if (!file) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.async('string'));
+  } catch {
+    parsed = null;
+  }
+  const receipt = parseSubmissionReceipt(parsed);
+  if (!receipt) {
+    throw new Error(`Malformed ${SUBMISSION_RECEIPT_FILENAME} in ZIP`);
+  }
+  return receipt;
+}
+
 /**
  * Extract first proof file from ZIP buffer
  * Simplified function for CLI use
@@ -349,7 +486,7 @@ export async function extractFirstProofFromZip(buffer: ArrayBuffer): Promise<Pro
   const zip = await JSZip.loadAsync(buffer);
   assertZipWithinBudget(zip);
 
-  const jsonFiles = Object.keys(zip.files).filter((name) => name.endsWith('.json') && !zip.files[name]?.dir);
+  const jsonFiles = Object.keys(zip.files).filter((name) => isProofEntryName(name) && !zip.files[name]?.dir);
 
   if (jsonFiles.length === 0) {
     throw new Error('No JSON proof file found in ZIP');
@@ -362,6 +499,14 @@ export async function extractFirstProofFromZip(buffer: ArrayBuffer): Promise<Pro
     throw new Error(`Cannot read file: ${jsonFileName}`);
   }
 
+  if (jsonFileName.endsWith(BINARY_PROOF_EXTENSION)) {
+    const proof = (await readProofEntry(zip, jsonFileName)) as ProofFileCore | null;
+    if (!proof?.proof || !proof.typingProofHash) {
+      throw new Error('Invalid proof file structure');
+    }
+    return proof;
+  }
+
   const jsonContent = await jsonFile.async('string');
 
   try {
@@ -381,7 +526,7 @@ export async function extractFirstProofFromZip(buffer: ArrayBuffer): Promise<Pro
 }
 
 /**
- * ZIP 内の **すべて** の proof JSON を構造で選別して返す (verify-cli の offline grader 用)。
+ * ZIP 内の **すべて** の proof (JSON / バイナリ `.tcproof`) を構造で選別して返す (verify-cli の offline grader 用)。
  *
  * exam/class モードはタブ毎に独立した `<name>_proof.json` を N 個出力するため、grader は
  * 全件を検証しなければならない。最初の 1 件だけ見る `extractFirstProofFromZip` では、
@@ -390,6 +535,8 @@ export async function extractFirstProofFromZip(buffer: ArrayBuffer): Promise<Pro
  * - proof 判定は **構造** (`isProofFile`) で行う (ファイル名順や位置に依存しない。
  *   `screenshots/manifest.json` のような非 proof JSON が先頭に来ても誤選択しない)。
  * - `screenshots/` 配下は除外する。
+ * - 壊れた JSON は proof ではないとして飛ばすが、壊れた `.tcproof` は throw する
+ *   (拡張子で proof と名乗るタブを黙って検証対象から外さない)。
  * - ファイル名昇順で決定的に返す。
  */
 export async function extractAllProofsFromZip(
@@ -397,24 +544,46 @@ export async function extractAllProofsFromZip(
 ): Promise<Array<{ filename: string; proof: ProofFileCore }>> {
   const zip = await JSZip.loadAsync(buffer);
   assertZipWithinBudget(zip);
-  const jsonNames = Object.keys(zip.files)
-    .filter((name) => name.endsWith('.json') && !zip.files[name]?.dir && !name.startsWith('screenshots/'))
+  const proofNames = Object.keys(zip.files)
+    .filter((name) => isProofEntryName(name) && !zip.files[name]?.dir && !name.startsWith('screenshots/'))
     .sort();
 
   const proofs: Array<{ filename: string; proof: ProofFileCore }> = [];
-  for (const name of jsonNames) {
-    const file = zip.files[name];
-    if (!file) continue;
-    const content = await file.async('string');
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(content);
-    } catch {
-      continue; // 壊れた / 非 JSON はスキップ (proof ではない)
-    }
+  for (const name of proofNames) {
+    const parsed = await readProofEntry(zip, name);
     if (isProofFile(parsed)) {
       proofs.push({ filename: name, proof: parsed as ProofFileCore });
     }
   }
   return proofs;
 }
+
+/**
+ * ZIP 内の proof 候補 (JSON / バイナリ `.tcproof`) を、proof 全体を parse せずに読める形で返す
+ * (verify-cli のストリーム検証用、ADR-0039)。
+ *
+ * - JSON エントリは `text` を呼ぶたびに先頭から解凍し直す (`readProofEventStream` は 2 回読む)。
+ *   proof の形かどうかの選別はしない — 呼び出し側が `readProofEventStream` でヘッダを読んで判定する。
+ * - `.tcproof` はここで復号する。壊れていれば throw する (`extractAllProofsFromZip` と同じ)。
+ * - `screenshots/` 配下は除外し、ファイル名昇順で返す。
+ */
+export async function openProofEntriesFromZip(buffer: ArrayBuffer): Promise<ZipProofEntry[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  assertZipWithinBudget(zip);
+  const proofNames = Object.keys(zip.files)
+    .filter((name) => isProofEntryName(name) && !zip.files[name]?.dir && !name.startsWith('screenshots/'))
+    .sort();
+
+  const entries: ZipProofEntry[] = [];
+  for (const name of proofNames) {
+    const file = zip.files[name];
+    if (!file) continue;
+    if (name.endsWith(BINARY_PROOF_EXTENSION)) {
+      entries.push({ filename: name, decoded: await readProofEntry(zip, name) });
+    } else {
+      const text: ProofTextSource = () => streamZipEntry(file);
+      entries.push({ filename: name, text });
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,304 @@
+/**
+ * proof JSON を events 配列を丸ごと持たずに読む (ストリーム検証の入力、ADR-0039)。
+ *
+ * `JSON.parse` は events 全件の object graph を一度に作る。ここでは JSON テキストを chunk 単位で
+ * 走査し、`proof.events` の要素だけを 1 件ずつ切り出して parse する。JSON のキー順は決まって
+ * いない (events がヘッダの前に来ることもある) ため、テキストを 2 回読む:
+ *
+ * 1. events の要素を飛ばしてヘッダを組み立て、要素数と最終要素の `hash` を数える
+ * 2. events の要素を先頭から 1 件ずつ parse して返す
+ *
+ * 保持するのはヘッダと、いま切り出している要素 1 件分のテキストだけ。
+ */
+
+import { migrateProofHeader, type LegacyProofHeader } from '../proofMigration.js';
+import type { ProofEventStream } from '../verification.js';
+
+/** proof JSON のテキストを chunk で返す関数。2 回呼ばれるので、呼ぶたびに先頭から返すこと */
+export type ProofTextSource = () => AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+
+/** `textChunks` の既定の chunk 長 (文字数) */
+const DEFAULT_TEXT_CHUNK_LENGTH = 1024 * 1024;
+
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COMMA = 0x2c; // ,
+const COLON = 0x3a; // :
+const OPEN_OBJECT = 0x7b; // {
+const CLOSE_OBJECT = 0x7d; // }
+const OPEN_ARRAY = 0x5b; // [
+const CLOSE_ARRAY = 0x5d; // ]
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+/**
+ * JSON テキストの走査器。`proof.events` (ルート object → `proof` → `events`) の配列だけを特別扱いし、
+ * その要素のテキストを `onElement` に渡す。それ以外の部分は `collectHeader` のとき蓄えて、
+ * events を空配列にした JSON テキストとして `header()` で返す。
+ *
+ * JSON としての妥当性は最終的に `JSON.parse` (ヘッダと各要素) が判定する。走査器自身は
+ * 括弧の対応と、events の要素の区切り (`,`) だけを確かめる。
+ */
+class ProofJsonScanner {
+  /** 開いている括弧 (OPEN_OBJECT / OPEN_ARRAY) */
+  private readonly stack: number[] = [];
+  /** 深さ 1 (ルート) と 2 (`proof`) の object で最後に読んだキー */
+  private readonly keys: Array<string | null> = [null, null, null];
+  private expectKey = false;
+  private inString = false;
+  private escaped = false;
+  private keyParts: string[] | null = null;
+  private keyFrom = -1;
+
+  /** events 配列の中にいるときの配列の深さ (stack の長さ)。外なら -1 */
+  private eventsDepth = -1;
+  private eventsSeen = false;
+  private elementCount = 0;
+  /** 直前の要素の後に `,` がまだ来ていない */
+  private awaitingComma = false;
+  private elementParts: string[] | null = null;
+  private elementFrom = -1;
+  /** 切り出し中の要素が object / array / 文字列 (= 閉じ括弧か閉じ引用符で終わる) か */
+  private elementIsContainer = false;
+
+  private readonly headerParts: string[] = [];
+  private headerFrom = 0;
+
+  constructor(
+    private readonly onElement: (text: string) => void,
+    private readonly collectHeader: boolean
+  ) {}
+
+  /** `proof.events` が配列として現れたか */
+  get foundEvents(): boolean {
+    return this.eventsSeen;
+  }
+
+  feed(text: string): void {
+    this.headerFrom = this.eventsDepth === -1 ? 0 : -1;
+    this.keyFrom = this.keyParts ? 0 : -1;
+    this.elementFrom = this.elementParts ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (code === BACKSLASH) {
+          this.escaped = true;
+        } else if (code === QUOTE) {
+          this.inString = false;
+          if (this.keyParts) this.finishKey(text, i);
+          else if (this.elementParts && this.stack.length === this.eventsDepth) this.finishElement(text, i + 1);
+        }
+        continue;
+      }
+
+      if (isWhitespace(code)) continue;
+
+      const inEventsArray = this.stack.length === this.eventsDepth;
+      if (inEventsArray && this.elementParts && !this.elementIsContainer) {
+        // 数値・true/false/null の要素は次の `,` か `]` で終わる
+        if (code === COMMA || code === CLOSE_ARRAY) this.finishElement(text, i);
+        else continue;
+      }
+
+      switch (code) {
+        case QUOTE:
+          if (inEventsArray) this.startElement(i, true);
+          this.inString = true;
+          // キーはルートと `proof` の object のものだけ読む (events の中のキーは見ない)
+          if (this.expectKey && this.stack.length <= 2 && this.stack[this.stack.length - 1] === OPEN_OBJECT) {
+            this.keyParts = [];
+            this.keyFrom = i;
+          }
+          break;
+        case OPEN_OBJECT:
+        case OPEN_ARRAY:
+          if (inEventsArray) this.startElement(i, true);
+          if (code === OPEN_ARRAY && this.isEventsValue()) {
+            this.openEvents(text, i);
+            break;
+          }
+          this.stack.push(code);
+          this.expectKey = code === OPEN_OBJECT;
+          break;
+        case CLOSE_OBJECT:
+        case CLOSE_ARRAY:
+          if (this.stack.pop() !== (code === CLOSE_OBJECT ? OPEN_OBJECT : OPEN_ARRAY)) {
+            throw new Error('Invalid JSON: mismatched brackets');
+          }
+          if (this.stack.length + 1 === this.eventsDepth) {
+            this.closeEvents(i);
+          } else if (this.elementParts && this.stack.length === this.eventsDepth) {
+            this.finishElement(text, i + 1);
+          }
+          this.expectKey = false;
+          break;
+        case COLON:
+          this.expectKey = false;
+          break;
+        case COMMA:
+          if (inEventsArray) {
+            if (!this.awaitingComma) throw new Error('Invalid JSON: unexpected comma in proof events');
+            this.awaitingComma = false;
+          }
+          this.expectKey = this.stack[this.stack.length - 1] === OPEN_OBJECT;
+          break;
+        default:
+          if (inEventsArray) this.startElement(i, false);
+      }
+    }
+
+    if (this.collectHeader && this.headerFrom >= 0) this.headerParts.push(text.slice(this.headerFrom));
+    if (this.keyParts) this.keyParts.push(text.slice(this.keyFrom));
+    if (this.elementParts) this.elementParts.push(text.slice(this.elementFrom));
+  }
+
+  /** 走査を終える。JSON が途中で切れていれば throw */
+  end(): void {
+    if (this.inString || this.stack.length > 0 || this.elementParts) {
+      throw new Error('Invalid JSON: unexpected end of proof');
+    }
+  }
+
+  /** events を空配列にしたヘッダの JSON テキスト */
+  header(): string {
+    return this.headerParts.join('');
+  }
+
+  /** いま読む値が ルート → `proof` → `events` の値か */
+  private isEventsValue(): boolean {
+    return (
+      this.stack.length === 2 &&
+      this.stack[0] === OPEN_OBJECT &&
+      this.stack[1] === OPEN_OBJECT &&
+      this.keys[1] === 'proof' &&
+      this.keys[2] === 'events'
+    );
+  }
+
+  private openEvents(text: string, i: number): void {
+    if (this.eventsSeen) throw new Error('Invalid proof: duplicate proof.events');
+    this.eventsSeen = true;
+    this.stack.push(OPEN_ARRAY);
+    this.eventsDepth = this.stack.length;
+    this.awaitingComma = false;
+    if (this.collectHeader) this.headerParts.push(text.slice(this.headerFrom, i + 1));
+    this.headerFrom = -1;
+  }
+
+  private closeEvents(i: number): void {
+    if (!this.awaitingComma && this.elementCount > 0) {
+      throw new Error('Invalid JSON: trailing comma in proof events');
+    }
+    this.eventsDepth = -1;
+    this.headerFrom = i;
+  }
+
+  private startElement(i: number, container: boolean): void {
+    if (this.awaitingComma) throw new Error('Invalid JSON: missing comma in proof events');
+    this.elementParts = [];
+    this.elementFrom = i;
+    this.elementIsContainer = container;
+  }
+
+  private finishElement(text: string, end: number): void {
+    const parts = this.elementParts ?? [];
+    parts.push(text.slice(this.elementFrom, end));
+    this.elementParts = null;
+    this.elementFrom = -1;
+    this.awaitingComma = true;
+    this.elementCount++;
+    this.onElement(parts.join(''));
+  }
+
+  private finishKey(text: string, i: number): void {
+    const parts = this.keyParts ?? [];
+    parts.push(text.slice(this.keyFrom, i + 1));
+    this.keyParts = null;
+    this.keyFrom = -1;
+    const depth = this.stack.length;
+    if (depth <= 2) this.keys[depth] = JSON.parse(parts.join('')) as string;
+  }
+}
+
+/** source を読み切るまで chunk ごとに文字列を返す (バイト列は UTF-8 として逐次復号する) */
+async function* decodeChunks(source: ProofTextSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const chunk of source()) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/**
+ * proof JSON のテキストから `ProofEventStream` を作る (ADR-0039)。
+ *
+ * ここでヘッダの parse と events の計数まで済ませる (テキストの 1 回目の走査)。返した stream の
+ * `events` を回すとテキストを先頭から読み直し、要素を 1 件ずつ parse して返す (2 回目)。
+ * ヘッダは `migrateProofHeader` で現行の形にそろえる。JSON として壊れている・proof の形をしていない・
+ * 対応しない format version のときは throw する。
+ */
+export async function readProofEventStream(source: ProofTextSource): Promise<ProofEventStream> {
+  let eventCount = 0;
+  let lastElement: string | undefined;
+  const scanner = new ProofJsonScanner((text) => {
+    eventCount++;
+    lastElement = text;
+  }, true);
+  for await (const text of decodeChunks(source)) scanner.feed(text);
+  scanner.end();
+
+  const parsed: unknown = JSON.parse(scanner.header());
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid proof file structure');
+  }
+  const raw = parsed as LegacyProofHeader;
+  if (!raw.proof || typeof raw.proof !== 'object') {
+    throw new Error('Invalid proof file structure');
+  }
+  delete (raw.proof as { events?: unknown }).events;
+  const { header } = migrateProofHeader(raw);
+
+  if (!scanner.foundEvents) {
+    // `proof.events` が配列でない (欠落を含む)。構造検証で "not an array" として弾かせる。
+    return { header, eventCount: 0, events: null };
+  }
+
+  const last: unknown = lastElement === undefined ? undefined : JSON.parse(lastElement);
+  const lastHash = (last as { hash?: unknown } | null | undefined)?.hash;
+
+  return {
+    header,
+    eventCount,
+    lastEventHash: typeof lastHash === 'string' ? lastHash : undefined,
+    events: readProofEvents(source),
+  };
+}
+
+async function* readProofEvents(source: ProofTextSource): AsyncGenerator<unknown> {
+  const pending: string[] = [];
+  const scanner = new ProofJsonScanner((text) => pending.push(text), false);
+
+  for await (const text of decodeChunks(source)) {
+    scanner.feed(text);
+    for (const element of pending.splice(0)) yield JSON.parse(element);
+  }
+  scanner.end();
+}
+
+/**
+ * メモリ上の文字列を `readProofEventStream` の入力にする (`chunkLength` 文字ずつ)。
+ */
+export function textChunks(text: string, chunkLength: number = DEFAULT_TEXT_CHUNK_LENGTH): ProofTextSource {
+  return function* () {
+    for (let i = 0; i < text.length; i += chunkLength) {
+      yield text.slice(i, i + chunkLength);
+    }
+  };
+}
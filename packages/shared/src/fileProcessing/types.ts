@@ -4,6 +4,7 @@
  */
 
 import type { DisplayInfo, ScreenshotCaptureType } from '../types.js';
+import type { ProofTextSource } from './proofEventStream.js';
 
 // ============================================================================
 // File types
@@ -45,6 +46,12 @@ export interface ProofFileCore {
 // ZIP processing types
 // ============================================================================
 
+/**
+ * ZIP 内の proof 候補 1 件 (ADR-0039)。JSON は解凍しながら chunk で返す `text`
+ * (`readProofEventStream` の入力)、`.tcproof` は途中から読めない形式なので復号済みの `decoded`。
+ */
+export type ZipProofEntry = { filename: string; text: ProofTextSource } | { filename: string; decoded: unknown };
+
 /** ZIP parse result */
 export interface ZipParseResult {
   /** Success flag */
@@ -0,0 +1,326 @@
+/**
+ * ゲートポリシー (ADR-0036)
+ *
+ * 採点のゲート (何を fail / warn にするか) を、CLI の個別 boolean フラグではなく版付きの
+ * ポリシーファイル (`gate-policy/1`) で宣言する。ポリシーは検証結果から取り出した**事実**
+ * (三層保証・スクリーンショット突合・試験束縛・プロセス要約・アンカー) の上の述語を並べたもので、
+ * どの規則が発火したかを理由つきで返す。
+ *
+ * 不変条件:
+ * - ポリシーは検証そのもの (`verifyProofFile` の valid・三層保証の導出) を変えない。評価は後段で、
+ *   結果を「このコースの基準で通すか」に写すだけ。
+ * - 事実名は下のホワイトリストに限る。未知の事実名・演算子・型違いの値は parse で throw する
+ *   (タイポでゲートが黙って無効になるのを防ぐ。#148 と同じ理由)。
+ * - 分析由来の事実 (`assurance.provenance.reviewPriority` / `notableSignals`) は `warn` にしか
+ *   使えない。heuristic を判定に昇格させない (ADR-0009 / ADR-0020 の著述性は常に advisory)。
+ */
+
+import type { AssuranceResult, IntegrityLevel, TemporalLevel } from './assurance.js';
+import type { ExamBindingVerificationResult } from './exam/examPackage.js';
+import type { PoswTimingStatus } from './poswTiming.js';
+import type { ProcessSummary } from './processSummary.js';
+import type { ScreenshotVerificationSummary } from './screenshotVerification.js';
+
+/** ポリシーファイルの schema 識別子。事実の削除・意味の変更で版を上げる (追加だけなら据え置き)。 */
+export const GATE_POLICY_SCHEMA = 'gate-policy/1' as const;
+
+/** 規則が発火したときの扱い。fail は検証全体を落とし、warn は表示だけ。 */
+export type GatePolicyAction = 'fail' | 'warn';
+
+/** 述語の比較演算子。大小比較は数値の事実にだけ使える。 */
+export type GatePolicyOperator = 'eq' | 'ne' | 'in' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/** 事実の値。null は「検査していない / 該当しない」(例: JSON 単体入力のスクリーンショット)。 */
+export type GatePolicyFactValue = string | number | boolean | null;
+
+interface FactSpec {
+  kind: 'boolean' | 'number' | 'enum';
+  /** enum の取りうる値。 */
+  values?: readonly string[];
+  /** 分析由来 (heuristic)。fail 規則には使えない。 */
+  advisory?: boolean;
+}
+
+const INTEGRITY_LEVELS: readonly IntegrityLevel[] = ['proven', 'sampled', 'partial', 'failed'];
+const TEMPORAL_LEVELS: readonly TemporalLevel[] = [
+  'anchored',
+  'partial',
+  'posw-bounded',
+  'unanchored',
+  'posw-inconsistent',
+  'exam-t0',
+];
+const POSW_TIMING_STATUSES: readonly PoswTimingStatus[] = ['uncalibrated', 'implausible', 'consistent', 'inconsistent'];
+
+/** 述語に使える事実のホワイトリスト。 */
+const FACTS = {
+  'assurance.integrity': { kind: 'enum', values: INTEGRITY_LEVELS },
+  'assurance.temporal': { kind: 'enum', values: TEMPORAL_LEVELS },
+  'assurance.provenance.pureTyping': { kind: 'boolean' },
+  'assurance.provenance.notableSignals': { kind: 'number', advisory: true },
+  'assurance.provenance.reviewPriority': { kind: 'number', advisory: true },
+  'screenshots.checked': { kind: 'boolean' },
+  'screenshots.total': { kind: 'number' },
+  'screenshots.verified': { kind: 'number' },
+  'screenshots.missing': { kind: 'number' },
+  'screenshots.tampered': { kind: 'number' },
+  'screenshots.chainOnly': { kind: 'number' },
+  'exam.present': { kind: 'boolean' },
+  'exam.packageProvided': { kind: 'boolean' },
+  'exam.bindingValid': { kind: 'boolean' },
+  'exam.withinWindow': { kind: 'boolean' },
+  'process.externalInputCount': { kind: 'number' },
+  'process.focusLossCount': { kind: 'number' },
+  'process.durationMs': { kind: 'number' },
+  'anchors.rootAnchored': { kind: 'boolean' },
+  'anchors.sparse': { kind: 'boolean' },
+  'anchors.poswTiming': { kind: 'enum', values: POSW_TIMING_STATUSES },
+} as const satisfies Record<string, FactSpec>;
+
+/** 述語に使える事実名。 */
+export type GatePolicyFact = keyof typeof FACTS;
+
+/** 述語に使える事実名の一覧 (エラーメッセージ・ドキュメント用)。 */
+export const GATE_POLICY_FACTS = Object.keys(FACTS) as GatePolicyFact[];
+
+/** 事実 1 つに対する条件 (1 演算子)。 */
+export interface GatePolicyCondition {
+  fact: GatePolicyFact;
+  op: GatePolicyOperator;
+  /** `in` は配列、それ以外は単一値。 */
+  value: GatePolicyFactValue | GatePolicyFactValue[];
+}
+
+/** 規則 1 つ。条件はすべて満たしたとき (AND) に発火する。 */
+export interface GatePolicyRule {
+  id: string;
+  action: GatePolicyAction;
+  conditions: GatePolicyCondition[];
+  /** 発火時に出す説明 (採点者向け)。 */
+  message?: string;
+}
+
+/** 検証済みのポリシー。 */
+export interface GatePolicy {
+  schema: typeof GATE_POLICY_SCHEMA;
+  name?: string;
+  rules: GatePolicyRule[];
+}
+
+/** 発火した規則 1 つと、発火させた事実の値。 */
+export interface GatePolicyRuleResult {
+  id: string;
+  action: GatePolicyAction;
+  message?: string;
+  facts: Partial<Record<GatePolicyFact, GatePolicyFactValue>>;
+}
+
+/** ポリシー評価の結果。outcome は発火した規則の最も重い action (無ければ pass)。 */
+export interface GatePolicyEvaluation {
+  outcome: 'pass' | 'warn' | 'fail';
+  tripped: GatePolicyRuleResult[];
+}
+
+/** 事実を取り出す元の検証結果 (verify / verify-cli 両方から渡せる最小の形)。 */
+export interface GatePolicyInput {
+  assurance: AssuranceResult;
+  /** undefined = 未検査 (JSON 単体入力)。 */
+  screenshots?: ScreenshotVerificationSummary;
+  /** exam proof でないときは undefined。 */
+  exam?: { packageProvided: boolean; binding?: ExamBindingVerificationResult };
+  processSummary: ProcessSummary;
+  rootAnchored: boolean;
+  /** 署名 cp の密度が疎か (ADR-0016)。署名 cp が無ければ undefined。 */
+  anchorsSparse?: boolean;
+  /** 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)。検証していなければ undefined。 */
+  poswTiming?: PoswTimingStatus;
+}
+
+const OPERATORS: readonly GatePolicyOperator[] = ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte'];
+
+function isFact(name: string): name is GatePolicyFact {
+  return Object.hasOwn(FACTS, name);
+}
+
+/** 値が事実の型に合うか。null はどの事実とも比べられる (未検査との一致)。 */
+function valueFits(spec: FactSpec, value: unknown): value is GatePolicyFactValue {
+  if (value === null) return true;
+  if (spec.kind === 'boolean') return typeof value === 'boolean';
+  if (spec.kind === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === 'string' && (spec.values ?? []).includes(value);
+}
+
+function describeKind(spec: FactSpec): string {
+  return spec.kind === 'enum' ? (spec.values ?? []).map((v) => `"${v}"`).join(' | ') : spec.kind;
+}
+
+function parseCondition(fact: string, raw: unknown, where: string): GatePolicyCondition[] {
+  if (!isFact(fact)) {
+    throw new Error(`${where}: unknown fact "${fact}". Known facts: ${GATE_POLICY_FACTS.join(', ')}`);
+  }
+  const spec: FactSpec = FACTS[fact];
+  // `"fact": value` は `"fact": { "eq": value }` の略記。
+  const ops: Array<[string, unknown]> =
+    raw !== null && typeof raw === 'object' && !Array.isArray(raw) ? Object.entries(raw) : [['eq', raw]];
+  if (ops.length === 0) {
+    throw new Error(`${where}: "${fact}" has no operator.`);
+  }
+  return ops.map(([op, value]) => {
+    if (!OPERATORS.includes(op as GatePolicyOperator)) {
+      throw new Error(`${where}: unknown operator "${op}" on "${fact}". Use ${OPERATORS.join(' | ')}.`);
+    }
+    if ((op === 'gt' || op === 'gte' || op === 'lt' || op === 'lte') && spec.kind !== 'number') {
+      throw new Error(`${where}: "${op}" needs a number fact, but "${fact}" is ${describeKind(spec)}.`);
+    }
+    const values = op === 'in' ? value : [value];
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(`${where}: "in" on "${fact}" needs a non-empty array.`);
+    }
+    for (const v of values) {
+      if (!valueFits(spec, v) || ((op === 'gt' || op === 'gte' || op === 'lt' || op === 'lte') && v === null)) {
+        throw new Error(`${where}: ${JSON.stringify(v)} is not a valid value for "${fact}" (${describeKind(spec)}).`);
+      }
+    }
+    return {
+      fact,
+      op: op as GatePolicyOperator,
+      value: op === 'in' ? (values as GatePolicyFactValue[]) : (value as GatePolicyFactValue),
+    };
+  });
+}
+
+/**
+ * ポリシーファイルの JSON を検証して `GatePolicy` にする。
+ *
+ * ```json
+ * { "schema": "gate-policy/1", "name": "CS101 final",
+ *   "rules": [{ "id": "no-paste", "when": { "process.externalInputCount": { "gt": 0 } }, "action": "fail" }] }
+ * ```
+ *
+ * @throws schema 違い / 未知の事実・演算子 / 型違いの値 / id の重複 / advisory な事実を使う fail 規則
+ */
+export function parseGatePolicy(value: unknown): GatePolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Gate policy must be a JSON object.');
+  }
+  const v = value as Record<string, unknown>;
+  if (v['schema'] !== GATE_POLICY_SCHEMA) {
+    throw new Error(`Unsupported gate policy schema: ${String(v['schema'])} (expected "${GATE_POLICY_SCHEMA}").`);
+  }
+  const name = v['name'];
+  if (name !== undefined && typeof name !== 'string') {
+    throw new Error('Gate policy "name" must be a string.');
+  }
+  if (!Array.isArray(v['rules']) || v['rules'].length === 0) {
+    throw new Error('Gate policy needs a non-empty "rules" array.');
+  }
+
+  const seen = new Set<string>();
+  const rules = v['rules'].map((raw, i): GatePolicyRule => {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    const id = r['id'];
+    if (typeof id !== 'string' || id === '') {
+      throw new Error(`Gate policy rule ${i}: "id" must be a non-empty string.`);
+    }
+    const where = `Gate policy rule "${id}"`;
+    if (seen.has(id)) throw new Error(`${where}: duplicate id.`);
+    seen.add(id);
+
+    const action = r['action'];
+    if (action !== 'fail' && action !== 'warn') {
+      throw new Error(`${where}: "action" must be "fail" or "warn" (got: ${String(action)}).`);
+    }
+    const message = r['message'];
+    if (message !== undefined && typeof message !== 'string') {
+      throw new Error(`${where}: "message" must be a string.`);
+    }
+    const when = r['when'];
+    if (!when || typeof when !== 'object' || Array.isArray(when) || Object.keys(when).length === 0) {
+      throw new Error(`${where}: "when" must be a non-empty object of { fact: condition }.`);
+    }
+    const conditions = Object.entries(when).flatMap(([fact, cond]) => parseCondition(fact, cond, where));
+    if (action === 'fail') {
+      const advisory = conditions.find((cond) => (FACTS[cond.fact] as FactSpec).advisory);
+      if (advisory) {
+        throw new Error(
+          `${where}: "${advisory.fact}" comes from heuristic analysis and can only be used in "warn" rules (ADR-0009).`
+        );
+      }
+    }
+    return { id, action, conditions, ...(message !== undefined ? { message } : {}) };
+  });
+
+  return { schema: GATE_POLICY_SCHEMA, ...(name !== undefined ? { name } : {}), rules };
+}
+
+/** 検証結果から述語に使う事実を取り出す。 */
+export function gatePolicyFacts(input: GatePolicyInput): Record<GatePolicyFact, GatePolicyFactValue> {
+  const ss = input.screenshots;
+  const p = input.processSummary;
+  return {
+    'assurance.integrity': input.assurance.integrity,
+    'assurance.temporal': input.assurance.temporal,
+    'assurance.provenance.pureTyping': input.assurance.provenance.pureTyping,
+    'assurance.provenance.notableSignals': input.assurance.provenance.notableSignals,
+    'assurance.provenance.reviewPriority': input.assurance.provenance.reviewPriority,
+    'screenshots.checked': ss !== undefined,
+    'screenshots.total': ss?.total ?? null,
+    'screenshots.verified': ss?.verified ?? null,
+    'screenshots.missing': ss?.missing ?? null,
+    'screenshots.tampered': ss?.tampered ?? null,
+    'screenshots.chainOnly': ss?.chainOnly ?? null,
+    'exam.present': input.exam !== undefined,
+    'exam.packageProvided': input.exam?.packageProvided ?? false,
+    // 束縛は package が渡されたときだけ検証される。未検証は null (false = 検証して不合格)。
+    'exam.bindingValid': input.exam?.binding?.valid ?? null,
+    'exam.withinWindow': input.exam?.binding?.timeBox?.withinWindow ?? null,
+    'process.externalInputCount': p.externalInputCount,
+    'process.focusLossCount': p.focusLossCount,
+    'process.durationMs': p.durationMs,
+    'anchors.rootAnchored': input.rootAnchored,
+    'anchors.sparse': input.anchorsSparse ?? null,
+    'anchors.poswTiming': input.poswTiming ?? null,
+  };
+}
+
+function conditionHolds(actual: GatePolicyFactValue, op: GatePolicyOperator, expected: GatePolicyCondition['value']) {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return (expected as GatePolicyFactValue[]).includes(actual);
+    default: {
+      // 大小比較: 未検査 (null) の事実は満たさない (検査していないものを発火理由にしない)。
+      if (typeof actual !== 'number') return false;
+      const n = expected as number;
+      return op === 'gt' ? actual > n : op === 'gte' ? actual >= n : op === 'lt' ? actual < n : actual <= n;
+    }
+  }
+}
+
+/** ポリシーを事実に当てはめる (純関数)。発火した規則はポリシーの並び順で返す。 */
+export function evaluateGatePolicy(
+  policy: GatePolicy,
+  facts: Record<GatePolicyFact, GatePolicyFactValue>
+): GatePolicyEvaluation {
+  const tripped: GatePolicyRuleResult[] = [];
+  for (const rule of policy.rules) {
+    if (!rule.conditions.every((cond) => conditionHolds(facts[cond.fact], cond.op, cond.value))) continue;
+    const matched: GatePolicyRuleResult['facts'] = {};
+    for (const cond of rule.conditions) matched[cond.fact] = facts[cond.fact];
+    tripped.push({
+      id: rule.id,
+      action: rule.action,
+      ...(rule.message !== undefined ? { message: rule.message } : {}),
+      facts: matched,
+    });
+  }
+  const outcome = tripped.some((r) => r.action === 'fail')
+    ? 'fail'
+    : tripped.some((r) => r.action === 'warn')
+      ? 'warn'
+      : 'pass';
+  return { outcome, tripped };
+}
@@ -0,0 +1,120 @@
+/**
+ * ハッシュ suite の registry (ADR-0044)。
+ *
+ * proof の PoSW をどのアルゴリズムで計算したかを proof の `hashSuite` で示し、検証器はそれを見て
+ * suite を選ぶ。`hashSuite` を持たない proof (従来の proof すべて) は既定 suite
+ * (`sha256-posw-v1` = SHA-256 を `POSW_ITERATIONS` 回) とみなす。
+ *
+ * - suite が決めるのは PoSW の逐次計算 (seed = previousHash ‖ eventDataString ‖ nonce から
+ *   `intermediateHash` まで) と反復回数。event の hash chain・root・内容 hash・Merkle 根・署名の
+ *   digest は全 suite で SHA-256 のまま (サーバや旧検証器と共有する形式なので suite に含めない)。
+ * - registry は静的。proof が未知の suite を名乗ったら検証は fail-closed にする (任意の suite を
+ *   外から登録させると、検証器が計算の軽い PoSW を受け入れてしまう)。
+ * - `posw.iterations` は suite ごとに固定で、検証は一致を要求する。suite の名乗りを書き換えても
+ *   iterations と `intermediateHash` が合わないので、別 suite の PoSW として通ることはない。
+ *
+ * Worker (`poswWorker.ts` と editor の複製) からも import するので、DOM に依存しない。
+ */
+
+import { argon2id } from '@noble/hashes/argon2.js';
+import { arrayBufferToHex, computeHash } from './utils/hashUtils.js';
+import { POSW_ITERATIONS } from './version.js';
+
+/** SHA-256 を逐次に反復する従来の PoSW (既定)。 */
+export const SHA256_POSW_SUITE = 'sha256-posw-v1' as const;
+
+/** Argon2id を逐次に連ねる memory-hard な PoSW (試験向けの opt-in)。 */
+export const ARGON2ID_POSW_SUITE = 'sha256-argon2id-posw-v1' as const;
+
+export type HashSuiteId = typeof SHA256_POSW_SUITE | typeof ARGON2ID_POSW_SUITE;
+
+/** `hashSuite` を持たない proof の suite。 */
+export const DEFAULT_HASH_SUITE: HashSuiteId = SHA256_POSW_SUITE;
+
+/**
+ * `sha256-argon2id-posw-v1` のパラメータ。1 段が 1 MiB を使う Argon2id (t=1, p=1) なので、GPU / ASIC で
+ * 並列に安く計算しにくい。4 段で 1 event あたり既定 suite と同程度の時間になる。
+ * 変えると既存の proof を検証できなくなるので、変えるときは suite の版を上げる。
+ */
+export const ARGON2ID_POSW_PARAMS = {
+  iterations: 4,
+  memKiB: 1024,
+  timeCost: 1,
+  parallelism: 1,
+  /** 各段の salt (ドメイン分離) */
+  salt: 'typedcode-posw/argon2id-v1',
+} as const;
+
+export interface HashSuite {
+  id: HashSuiteId;
+  /** PoSW の反復回数。proof の `posw.iterations` はこれと一致しなければならない */
+  poswIterations: number;
+  /** 1 段あたりのメモリ (KiB)。メモリに依存しない suite は 0 */
+  poswMemoryKiB: number;
+  /**
+   * 較正 (ADR-0042) で申告を信じてよい段数の上限 (段 / 秒)。1 段の重さが suite ごとに違うので suite が持つ。
+   * 逐次計算なので並列化では上がらず、ネイティブ実装の単一コアでも届かない値にする
+   */
+  poswMaxPlausibleRate: number;
+  /** seed から `poswIterations` 段の逐次計算をした結果 (= `posw.intermediateHash`、hex) */
+  computePoswHash(seed: string): Promise<string>;
+}
+
+async function sha256Chain(seed: string): Promise<string> {
+  let hash = await computeHash(seed);
+  for (let i = 1; i < POSW_ITERATIONS; i++) {
+    hash = await computeHash(hash);
+  }
+  return hash;
+}
+
+async function argon2idChain(seed: string): Promise<string> {
+  // 1 段目は既定 suite と同じく seed の SHA-256。以降は直前の hex を password にした Argon2id
+  let hash = await computeHash(seed);
+  for (let i = 1; i < ARGON2ID_POSW_PARAMS.iterations; i++) {
+    const digest = argon2id(hash, ARGON2ID_POSW_PARAMS.salt, {
+      t: ARGON2ID_POSW_PARAMS.timeCost,
+      m: ARGON2ID_POSW_PARAMS.memKiB,
+      p: ARGON2ID_POSW_PARAMS.parallelism,
+      dkLen: 32,
+    });
+    hash = arrayBufferToHex(digest);
+  }
+  return hash;
+}
+
+const HASH_SUITES: Readonly<Record<HashSuiteId, HashSuite>> = Object.freeze({
+  [SHA256_POSW_SUITE]: {
+    id: SHA256_POSW_SUITE,
+    poswIterations: POSW_ITERATIONS,
+    poswMemoryKiB: 0,
+    // SHA-256 1 回はネイティブでも 50ns 程度より速くならない
+    poswMaxPlausibleRate: 20_000_000,
+    computePoswHash: sha256Chain,
+  },
+  [ARGON2ID_POSW_SUITE]: {
+    id: ARGON2ID_POSW_SUITE,
+    poswIterations: ARGON2ID_POSW_PARAMS.iterations,
+    poswMemoryKiB: ARGON2ID_POSW_PARAMS.memKiB,
+    // 1 MiB の Argon2id 1 段はネイティブの単一コアで 1ms 前後。その 10 倍の余裕を取る
+    poswMaxPlausibleRate: 10_000,
+    computePoswHash: argon2idChain,
+  },
+});
+
+/** 登録済みの suite の識別子 */
+export function isHashSuiteId(value: unknown): value is HashSuiteId {
+  return typeof value === 'string' && Object.hasOwn(HASH_SUITES, value);
+}
+
+/** 識別子から suite を引く。未知なら null */
+export function getHashSuite(id: unknown): HashSuite | null {
+  return isHashSuiteId(id) ? HASH_SUITES[id] : null;
+}
+
+/**
+ * proof の suite。`hashSuite` が無ければ既定 suite、未知の識別子なら null (検証は fail-closed)。
+ */
+export function resolveProofHashSuite(proof: { hashSuite?: unknown }): HashSuite | null {
+  return proof.hashSuite === undefined ? HASH_SUITES[DEFAULT_HASH_SUITE] : getHashSuite(proof.hashSuite);
+}
@@ -25,6 +25,7 @@ export { setSharedDebug, isSharedDebugEnabled } from './utils/debug.js';
 // プロセス要約 (Phase 8 W3) — 制作過程の見どころを決定的に抽出 (中立な記述、疑い指標ではない)
 export {
   summarizeProcess,
+  ProcessSummaryAccumulator,
   PROCESS_PAUSE_THRESHOLD_MS,
   PROCESS_FOCUS_BURST_WINDOW_MS,
   PROCESS_FOCUS_BURST_MIN_CHARS,
@@ -42,6 +43,27 @@ export type {
   ProvenanceAdvisory,
 } from './assurance.js';
 
+// ゲートポリシー (ADR-0036) — 検証結果の事実に対する述語で fail / warn を宣言する
+export {
+  GATE_POLICY_SCHEMA,
+  GATE_POLICY_FACTS,
+  parseGatePolicy,
+  gatePolicyFacts,
+  evaluateGatePolicy,
+} from './gatePolicy.js';
+export type {
+  GatePolicy,
+  GatePolicyAction,
+  GatePolicyCondition,
+  GatePolicyEvaluation,
+  GatePolicyFact,
+  GatePolicyFactValue,
+  GatePolicyInput,
+  GatePolicyOperator,
+  GatePolicyRule,
+  GatePolicyRuleResult,
+} from './gatePolicy.js';
+
 // 検証ユーティリティ
 export {
   deterministicStringify,
@@ -56,8 +78,12 @@ export {
   verifyProofMetadata,
   verifyTypingProofHash,
   verifyChain,
+  verifyChainSegment,
   verifyProofFile,
+  verifyProofStream,
+  toProofEventStream,
   calculatePoswStats,
+  eventHashFields,
 } from './verification.js';
 
 export type {
@@ -68,8 +94,36 @@ export type {
   VerificationMode,
   VerifyProofFileOptions,
   EventArrayStructureResult,
+  ProofHeader,
+  ProofEventStream,
 } from './verification.js';
 
+// audit モードの決定的 PoSW サンプリング (ADR-0034)
+export {
+  POSW_AUDIT_DEFAULT_CONFIDENCE,
+  POSW_AUDIT_DETECT_FRACTION,
+  isValidAuditConfidence,
+  poswAuditSampleSize,
+  poswAuditUpperBound,
+  poswAuditSeed,
+  selectPoswAuditSample,
+  planPoswAudit,
+  planPoswAuditFromTail,
+} from './poswAudit.js';
+export type { PoswAuditSummary } from './poswAudit.js';
+
+// 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)
+export {
+  POSW_TIMING_RATE_TOLERANCE,
+  POSW_TIMING_MAX_LAG_MS,
+  POSW_TIMING_MAX_PLAUSIBLE_RATE,
+  POSW_CALIBRATION_MAX_EVENT_INDEX,
+  POSW_CALIBRATION_SAMPLES,
+  PoswTimingAccumulator,
+  analyzePoswTiming,
+} from './poswTiming.js';
+export type { PoswTimingStatus, PoswTimingWindow, PoswTimingResult } from './poswTiming.js';
+
 // Signed checkpoints (long-term verifiability)
 export {
   hashSignedCheckpointPayload,
@@ -80,6 +134,8 @@ export {
   createSignedCheckpointEnvelope,
   validateSignedCheckpointInput,
   isIdempotentSigningRetry,
+  checkCheckpointKeyValidity,
+  isSignedCheckpointEnvelope,
 } from './signedCheckpoints.js';
 
 export type {
@@ -88,11 +144,183 @@ export type {
   SignedCheckpointSigner,
 } from './signedCheckpoints.js';
 
+// RFC 3161 タイムスタンプトークン (ADR-0049)
+export {
+  isTimestampTokenEnvelope,
+  createTimestampRequest,
+  readTimestampResponse,
+  parseTimestampToken,
+  verifyTimestampToken,
+  parseCertificatesPem,
+  describeCertificate,
+} from './timestampToken.js';
+
+// events の Merkle 根と区間の選択的開示 (ADR-0040)
+export {
+  MerkleAccumulator,
+  merkleLeafHash,
+  merkleNodeHash,
+  computeMerkleRoot,
+  createMerkleRangeProof,
+  collectMerkleRangeProof,
+  computeMerkleRangeRoot,
+  createMerkleConsistencyProof,
+  collectMerkleConsistencyProof,
+  verifyMerkleConsistency,
+} from './merkle.js';
+export type { MerkleRangeProof, MerkleConsistencyProof, MerkleSubtreeRootFn } from './merkle.js';
+
+// 発行したトークンと署名 cp の透明性ログ (ADR-0046)
+export {
+  EMPTY_TREE_ROOT,
+  transparencyLogLeafData,
+  isTransparencyLogEntry,
+  createSignedTreeHead,
+  verifySignedTreeHead,
+  verifyTransparencyLogInclusion,
+  verifyTransparencyLogConsistency,
+  verifyTransparencyLogEvidence,
+} from './transparencyLog.js';
+export type { SignedTreeHeadSigner } from './transparencyLog.js';
+
+// 提出レシート (ADR-0047)
+export {
+  SUBMISSION_RECEIPT_FILENAME,
+  MAX_SUBMISSION_RECEIPT_TABS,
+  validateSubmissionReceiptInput,
+  createSubmissionReceipt,
+  hashSubmissionReceiptPayload,
+  parseSubmissionReceipt,
+  verifySubmissionReceipt,
+  verifySubmissionReceiptForProof,
+} from './submissionReceipt.js';
+export type {
+  SubmissionReceiptInput,
+  SubmissionReceiptSigner,
+  VerifySubmissionReceiptForProofOptions,
+} from './submissionReceipt.js';
+
+// 署名鍵の key set と鍵のローテーション (ADR-0048)
+export {
+  MAX_CHECKPOINT_KEY_SET_KEYS,
+  parseCheckpointKeySetChain,
+  hashCheckpointKeySetPayload,
+  createCheckpointKeySetPayload,
+  endorseCheckpointKeySet,
+  verifyCheckpointKeySetChain,
+  selectSigningKeyId,
+} from './checkpointKeySet.js';
+export type { CheckpointKeySetSigner } from './checkpointKeySet.js';
+export {
+  EVENT_RANGE_DISCLOSURE_SCHEMA,
+  createEventRangeDisclosure,
+  verifyEventRangeDisclosure,
+} from './eventDisclosure.js';
+export type {
+  EventRangeDisclosure,
+  CreateEventRangeDisclosureOptions,
+  EventRangeDisclosureVerificationResult,
+  VerifyEventRangeDisclosureOptions,
+} from './eventDisclosure.js';
+
+// 前の proof からの継続と proof の列 (ADR-0041)
+export { computeContinuationChainRoot, isProofContinuation, createProofContinuation } from './proofContinuation.js';
+export {
+  checkProofSeriesLinks,
+  orderProofSeries,
+  collectProofSeries,
+  verifyProofSeries,
+  mergeProofSeries,
+} from './proofSeries.js';
+export type {
+  ProofSeriesLink,
+  ProofSeriesPartResult,
+  ProofSeriesVerificationResult,
+  MergedProofPart,
+  MergedProofTimeline,
+} from './proofSeries.js';
+
+// 伏せ字の events (未検証のメタデータ) と伏せ字バンドルの書き出し (ADR-0043)
+export {
+  REDACTED_EVENTS_SCHEMA,
+  REDACTION_KEPT_DATA_TYPES,
+  createRedactedEvents,
+  verifyRedactedEventHashes,
+  checkRedactedEventsAgainstProof,
+} from './redactedEvents.js';
+export type {
+  RedactedEventField,
+  RedactedValue,
+  RedactedEvent,
+  RedactedEventsArtifact,
+  RedactedEventHashesVerificationResult,
+  VerifyRedactedEventHashesOptions,
+  RedactableProof,
+} from './redactedEvents.js';
+export { createRedactedBundle, redactedBundleFiles } from './redactedBundle.js';
+export type { CreateRedactedBundleOptions, RedactedBundle } from './redactedBundle.js';
+
+// 2 つの proof の構造的な差分 (共通の prefix・最初の食い違い・内容の食い違い)
+export { PROOF_DIFF_SCHEMA, diffProofs, replayContentAt } from './proofDiff.js';
+export type {
+  DiffableProof,
+  ProofContentDivergence,
+  ProofDiff,
+  ProofDiffEvent,
+  ProofDiffSide,
+} from './proofDiff.js';
+
+// PoSW の suite の registry (proof の hashSuite で検証器が選ぶ)
+export {
+  ARGON2ID_POSW_PARAMS,
+  ARGON2ID_POSW_SUITE,
+  DEFAULT_HASH_SUITE,
+  SHA256_POSW_SUITE,
+  getHashSuite,
+  isHashSuiteId,
+  resolveProofHashSuite,
+} from './hashSuite.js';
+export type { HashSuite, HashSuiteId } from './hashSuite.js';
+
+// 旧形式の proof を現行の形にそろえる migration と、旧形式の特徴の報告
+export {
+  PROOF_VERSION_REPORT_SCHEMA,
+  inspectProofVersion,
+  migrateProof,
+  migrateProofHeader,
+} from './proofMigration.js';
+export type {
+  LegacyProofFeature,
+  LegacyProofFeatureRecord,
+  LegacyProofFile,
+  LegacyProofHeader,
+  MigratedProof,
+  MigratedProofHeaderResult,
+  MigratedProofResult,
+  ProofVersionReport,
+} from './proofMigration.js';
+
+// 検証に落ちた proof の書き換えの推定 (改ざんのフォレンジクス)
+export {
+  TAMPER_FORENSICS_POSW_BUDGET,
+  TAMPER_FORENSICS_SCHEMA,
+  analyzeTampering,
+  shouldAnalyzeTampering,
+} from './tamperForensics.js';
+export type {
+  TamperClass,
+  TamperEvidence,
+  TamperFinding,
+  TamperForensicsOptions,
+  TamperForensicsReport,
+} from './tamperForensics.js';
+
 export {
   createSessionStartToken,
   validateSessionStartInput,
   verifySessionStartToken,
   computeAnchoredChainRoot,
+  hashSessionStartTokenPayload,
 } from './sessionStartToken.js';
 
 export type {
@@ -103,6 +331,7 @@ export type {
 
 export {
   CHECKPOINT_PUBLIC_KEYS,
+  TSA_ROOT_CERTIFICATES,
   findCheckpointPublicKey,
 } from './checkpointKeys/index.js';
 
@@ -144,6 +373,9 @@ export {
   CLASS_PACKAGE_SCHEMA,
   parseClassPackage,
   encodeClassPackage,
+  ROSTER_RECONCILIATION_SCHEMA,
+  parseRosterCsv,
+  reconcileRoster,
 } from './exam/index.js';
 
 export type {
@@ -155,6 +387,12 @@ export type {
   ExamBindingVerificationResult,
   VerifyExamBindingOptions,
   BuildExamProofBlockInput,
+  RosterEntry,
+  RosterSubmission,
+  RosterReconcileOptions,
+  RosterIssue,
+  RosterStudentResult,
+  RosterReconciliation,
 } from './exam/index.js';
 
 // バージョン定数
@@ -164,6 +402,9 @@ export {
   POSW_ITERATIONS,
   SIGNED_CHECKPOINT_FORMAT_VERSION,
   SESSION_TOKEN_FORMAT_VERSION,
+  TREE_HEAD_FORMAT_VERSION,
+  SUBMISSION_RECEIPT_FORMAT_VERSION,
+  CHECKPOINT_KEY_SET_FORMAT_VERSION,
   EXAM_PACKAGE_FORMAT_VERSION,
   EXAM_PROOF_VERSION,
   EXAM_ROOT_BINDING,
@@ -215,6 +456,7 @@ export {
   type ParsedFileData,
   type ProofFileCore,
   type ZipParseResult,
+  type ZipProofEntry,
   type FileParseCallbacks,
   type ScreenshotManifest,
   type ScreenshotManifestEntry,
@@ -229,8 +471,21 @@ export {
   parseZipBuffer,
   extractFirstProofFromZip,
   extractAllProofsFromZip,
+  openProofEntriesFromZip,
   extractScreenshotArtifactsFromZip,
+  extractSubmissionReceiptFromZip,
   assertZipWithinBudget,
+  parseBinaryProofBuffer,
+  // Binary proof encoding (tcproof/1, ADR-0038)
+  BINARY_PROOF_FORMAT,
+  BINARY_PROOF_EXTENSION,
+  isBinaryProof,
+  encodeBinaryProof,
+  decodeBinaryProof,
+  // Streaming proof reader (ADR-0039)
+  type ProofTextSource,
+  readProofEventStream,
+  textChunks,
 } from './fileProcessing/index.js';
 
 // スクリーンショット検証 (#146/#147): verify (web) / verify-cli が同じ結論を出すための単一実装
@@ -257,7 +512,7 @@ export {
 export { TypingPatternAnalyzer } from './typingPattern/index.js';
 
 // 分析層 (ADR-0009): 検証と直交する pluggable な分析フレームワーク (器のみ)
-export { runAnalysis, defaultAnalyzers } from './analysis/index.js';
+export { runAnalysis, defaultAnalyzers, ANALYSIS_MAX_EVENTS } from './analysis/index.js';
 export type {
   AnalysisDimension,
   AnalysisSeverity,
@@ -268,6 +523,21 @@ export type {
   AnalysisReport,
 } from './analysis/index.js';
 
+// コホート分析 (ADR-0035): 複数 proof を対ごとに比べる提出物間類似 (advisory・full proof が必要)
+export {
+  runCohortAnalysis,
+  defaultCohortAnalyzers,
+  crossSubmissionSimilarityAnalyzer,
+  COHORT_ANALYSIS_SCHEMA,
+} from './analysis/index.js';
+export type {
+  CohortAnalysisDimension,
+  CohortAnalysisMember,
+  PairwiseSignal,
+  CohortAnalyzer,
+  CohortAnalysisReport,
+} from './analysis/index.js';
+
 // Tier A 分析バンドル (ADR-0024): content-free な派生ビュー (events/content/fingerprint なし)
 export { buildAnalysisBundle, ANALYSIS_BUNDLE_SCHEMA } from './analysis/index.js';
 export type { AnalysisBundle } from './analysis/index.js';
@@ -276,6 +546,7 @@ export type { AnalysisBundle } from './analysis/index.js';
 export {
   computeCohortBaseline,
   positionInCohort,
+  deviationFromMedian,
   COHORT_MIN_N,
   COHORT_BASELINE_SCHEMA,
   COHORT_POSITION_SCHEMA,
@@ -286,8 +557,13 @@ export type {
   CohortBaseline,
   MetricPosition,
   CohortPosition,
+  CohortDeviation,
 } from './analysis/index.js';
 
+// 証拠の位置 (SARIF など): signal の event 範囲 → 最終コードに残った行 (advisory な表示補助)
+export { traceContentOrigins, evidenceLineRanges, locateEvidence } from './analysis/index.js';
+export type { SourceLineRange, ContentOriginTrace, EvidenceLocation } from './analysis/index.js';
+
 // 分析器の実証評価 (W5): ラベル付きコーパス → 混同行列/閾値スイープ (純粋関数)
 export { evaluateAnalysis, formatEvalReportMarkdown } from './analysis/index.js';
 export type {
@@ -0,0 +1,302 @@
+/**
+ * Merkle 木 (RFC 6962 の Merkle Tree Hash と同じ形) の計算 (ADR-0040)。
+ *
+ * - 葉: `SHA-256(0x00 ‖ data)`、内部節: `SHA-256(0x01 ‖ left ‖ right)` (left / right は hex)。
+ *   先頭バイトで葉と節を分け、節の hash を葉として差し出す second-preimage を塞ぐ。
+ * - n 枚の葉の木は「n 未満で最大の 2 のべき」k で左 k 枚・右 n - k 枚に割る。葉を末尾に
+ *   足しても左側の完全部分木は変わらないので、根は完全部分木の根の列 (frontier) から
+ *   O(log n) で出せる (`MerkleAccumulator`)。
+ *
+ * 葉のデータは呼び出し側が決める (proof の events では各 event の `hash`)。
+ * ここは hash の文字列だけを扱い、proof の型には依存しない。
+ */
+
+import { computeHash } from './utils/hashUtils.js';
+
+const LEAF_PREFIX = '\u0000';
+const NODE_PREFIX = '\u0001';
+
+/** 葉の hash */
+export function merkleLeafHash(data: string): Promise<string> {
+  return computeHash(LEAF_PREFIX + data);
+}
+
+/** 内部節の hash */
+export function merkleNodeHash(left: string, right: string): Promise<string> {
+  return computeHash(NODE_PREFIX + left + right);
+}
+
+/** size 未満で最大の 2 のべき (size >= 2) */
+function splitPoint(size: number): number {
+  let k = 1;
+  while (k * 2 < size) k *= 2;
+  return k;
+}
+
+/**
+ * 葉を末尾に 1 枚ずつ足しながら根を出す。持つのは完全部分木の根 (高々 log2(n) + 1 個) だけ。
+ */
+export class MerkleAccumulator {
+  /** 完全部分木の根。左から順に、高さは狭義単調減少 */
+  private frontier: Array<{ height: number; hash: string }> = [];
+  private count = 0;
+  private lastData: string | null = null;
+
+  /** 足した葉の枚数 */
+  get size(): number {
+    return this.count;
+  }
+
+  /** 最後に足した葉のデータ (累積がどの列の続きかの照合用)。空なら null */
+  get lastLeafData(): string | null {
+    return this.lastData;
+  }
+
+  async append(data: string): Promise<void> {
+    let node = { height: 0, hash: await merkleLeafHash(data) };
+    let top = this.frontier[this.frontier.length - 1];
+    while (top && top.height === node.height) {
+      this.frontier.pop();
+      node = { height: node.height + 1, hash: await merkleNodeHash(top.hash, node.hash) };
+      top = this.frontier[this.frontier.length - 1];
+    }
+    this.frontier.push(node);
+    this.count++;
+    this.lastData = data;
+  }
+
+  /** いまの葉すべての根。葉が無ければ null */
+  async root(): Promise<string | null> {
+    let root: string | null = null;
+    for (let i = this.frontier.length - 1; i >= 0; i--) {
+      const hash = this.frontier[i]!.hash;
+      root = root === null ? hash : await merkleNodeHash(hash, root);
+    }
+    return root;
+  }
+}
+
+/** 葉のデータ列の根。空なら null */
+export async function computeMerkleRoot(leaves: readonly string[]): Promise<string | null> {
+  const accumulator = new MerkleAccumulator();
+  for (const data of leaves) await accumulator.append(data);
+  return accumulator.root();
+}
+
+/**
+ * 連続する葉 `[first, last]` が `treeSize` 枚の木に含まれることの証明。
+ *
+ * `siblings` は範囲に掛からない部分木の根を、木を左から深さ優先でたどった順に並べたもの。
+ * 範囲の葉と合わせると根が再計算でき、範囲外の葉そのものは要らない。
+ */
+export interface MerkleRangeProof {
+  treeSize: number;
+  first: number;
+  last: number;
+  siblings: string[];
+}
+
+/** 葉の区間 `[from, to)` の部分木の根を返す関数。葉を持たない置き場 (透明性ログ) は保存済みの節から返す */
+export type MerkleSubtreeRootFn = (from: number, to: number) => Promise<string>;
+
+async function subtreeRoot(leafHashes: readonly string[], from: number, to: number): Promise<string> {
+  if (to - from === 1) return leafHashes[from]!;
+  const k = splitPoint(to - from);
+  return merkleNodeHash(await subtreeRoot(leafHashes, from, from + k), await subtreeRoot(leafHashes, from + k, to));
+}
+
+async function hashLeaves(leaves: readonly string[], count: number): Promise<string[]> {
+  const leafHashes: string[] = [];
+  for (let i = 0; i < count; i++) leafHashes.push(await merkleLeafHash(leaves[i]!));
+  return leafHashes;
+}
+
+/**
+ * 葉のデータ列の先頭 `treeSize` 枚の木について、`[first, last]` の範囲証明を作る。
+ * 木全体を 1 度 hash するので O(treeSize)。範囲が木の外なら throw する。
+ */
+export async function createMerkleRangeProof(
+  leaves: readonly string[],
+  treeSize: number,
+  first: number,
+  last: number
+): Promise<MerkleRangeProof> {
+  if (!isValidRange(treeSize, first, last) || treeSize > leaves.length) {
+    throw new Error(`Invalid Merkle range [${first}, ${last}] for a tree of ${treeSize} leaves`);
+  }
+  const leafHashes = await hashLeaves(leaves, treeSize);
+  return collectMerkleRangeProof(treeSize, first, last, (from, to) => subtreeRoot(leafHashes, from, to));
+}
+
+/**
+ * 範囲証明を部分木の根の取得関数から作る。`siblings` の並びは `createMerkleRangeProof` と同じ。
+ * 葉を手元に持たず節を保存している置き場 (透明性ログ) 向けで、読む節は O(log² treeSize)。
+ */
+export async function collectMerkleRangeProof(
+  treeSize: number,
+  first: number,
+  last: number,
+  root: MerkleSubtreeRootFn
+): Promise<MerkleRangeProof> {
+  if (!isValidRange(treeSize, first, last)) {
+    throw new Error(`Invalid Merkle range [${first}, ${last}] for a tree of ${treeSize} leaves`);
+  }
+  const siblings: string[] = [];
+  const collect = async (from: number, to: number): Promise<void> => {
+    if (to <= first || from > last) {
+      siblings.push(await root(from, to));
+      return;
+    }
+    if (first <= from && to - 1 <= last) return;
+    const k = splitPoint(to - from);
+    await collect(from, from + k);
+    await collect(from + k, to);
+  };
+  await collect(0, treeSize);
+
+  return { treeSize, first, last, siblings };
+}
+
+/**
+ * 範囲証明と範囲の葉のデータから根を再計算する。
+ * 証明の形が壊れている (範囲外・葉の枚数違い・`siblings` の過不足) ときは null。
+ * 返した根を信頼できる根 (署名 cp の `merkleRoot` など) と比べるのは呼び出し側。
+ */
+export async function computeMerkleRangeRoot(
+  proof: MerkleRangeProof,
+  leaves: readonly string[]
+): Promise<string | null> {
+  const { treeSize, first, last, siblings } = proof;
+  if (!isValidRange(treeSize, first, last) || !Array.isArray(siblings) || leaves.length !== last - first + 1) {
+    return null;
+  }
+  const leafHashes: string[] = [];
+  for (const data of leaves) leafHashes.push(await merkleLeafHash(data));
+
+  let next = 0;
+  const rebuild = async (from: number, to: number): Promise<string | null> => {
+    if (to <= first || from > last) {
+      const sibling = siblings[next++];
+      return typeof sibling === 'string' ? sibling : null;
+    }
+    if (first <= from && to - 1 <= last) return subtreeRoot(leafHashes, from - first, to - first);
+    const k = splitPoint(to - from);
+    const left = await rebuild(from, from + k);
+    if (left === null) return null;
+    const right = await rebuild(from + k, to);
+    if (right === null) return null;
+    return merkleNodeHash(left, right);
+  };
+  const root = await rebuild(0, treeSize);
+
+  return root !== null && next === siblings.length ? root : null;
+}
+
+function isValidRange(treeSize: number, first: number, last: number): boolean {
+  return (
+    Number.isInteger(treeSize) &&
+    Number.isInteger(first) &&
+    Number.isInteger(last) &&
+    first >= 0 &&
+    first <= last &&
+    last < treeSize
+  );
+}
+
+/**
+ * `oldSize` 枚の木が `newSize` 枚の木の先頭であること (追記だけで育ったこと) の証明。
+ * `hashes` の並びは RFC 9162 §2.1.4 の consistency proof と同じ。
+ */
+export interface MerkleConsistencyProof {
+  oldSize: number;
+  newSize: number;
+  hashes: string[];
+}
+
+/**
+ * 一貫性証明を部分木の根の取得関数から作る (RFC 9162 §2.1.4.1 の SUBPROOF)。
+ * `0 < oldSize <= newSize` でなければ throw する。同じ大きさなら `hashes` は空。
+ */
+export async function collectMerkleConsistencyProof(
+  oldSize: number,
+  newSize: number,
+  root: MerkleSubtreeRootFn
+): Promise<MerkleConsistencyProof> {
+  if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 1 || oldSize > newSize) {
+    throw new Error(`Invalid Merkle consistency range ${oldSize} -> ${newSize}`);
+  }
+  const hashes: string[] = [];
+  const subproof = async (m: number, from: number, to: number, complete: boolean): Promise<void> => {
+    if (m === to - from) {
+      if (!complete) hashes.push(await root(from, to));
+      return;
+    }
+    const k = splitPoint(to - from);
+    if (m <= k) {
+      await subproof(m, from, from + k, complete);
+      hashes.push(await root(from + k, to));
+    } else {
+      await subproof(m - k, from + k, to, false);
+      hashes.push(await root(from, from + k));
+    }
+  };
+  await subproof(oldSize, 0, newSize, true);
+
+  return { oldSize, newSize, hashes };
+}
+
+/** 葉のデータ列から一貫性証明を作る。木全体を 1 度 hash するので O(newSize) */
+export async function createMerkleConsistencyProof(
+  leaves: readonly string[],
+  oldSize: number,
+  newSize: number
+): Promise<MerkleConsistencyProof> {
+  if (newSize > leaves.length) {
+    throw new Error(`Invalid Merkle consistency range ${oldSize} -> ${newSize}`);
+  }
+  const leafHashes = await hashLeaves(leaves, newSize);
+  return collectMerkleConsistencyProof(oldSize, newSize, (from, to) => subtreeRoot(leafHashes, from, to));
+}
+
+/**
+ * 一貫性証明を検証する (RFC 9162 §2.1.4.2)。`oldRoot` / `newRoot` はそれぞれの木の根で、
+ * 証明がその 2 つを結ぶときだけ true。形が壊れている証明は false。
+ */
+export async function verifyMerkleConsistency(
+  proof: MerkleConsistencyProof,
+  oldRoot: string,
+  newRoot: string
+): Promise<boolean> {
+  const { oldSize, newSize, hashes } = proof;
+  if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 1 || oldSize > newSize) return false;
+  if (!Array.isArray(hashes) || hashes.some((hash) => typeof hash !== 'string')) return false;
+  if (oldSize === newSize) return hashes.length === 0 && oldRoot === newRoot;
+  if (hashes.length === 0) return false;
+
+  // oldSize が 2 のべきなら古い木は新しい木の完全部分木そのものなので、その根が証明の先頭になる。
+  const path = (oldSize & (oldSize - 1)) === 0 ? [oldRoot, ...hashes] : hashes;
+  let fn = oldSize - 1;
+  let sn = newSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  let fr = path[0]!;
+  let sr = path[0]!;
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = await merkleNodeHash(c, fr);
+      sr = await merkleNodeHash(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = await merkleNodeHash(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return fr === oldRoot && sr === newRoot && sn === 0;
+}
@@ -0,0 +1,139 @@
+/**
+ * `audit` モードの決定的 PoSW サンプリング (ADR-0034)
+ *
+ * 全 event の PoSW 反復再計算 (`full`) は大規模 cohort の検証でボトルネックになる。`audit` は
+ * hash 連鎖・content 再生・metadata を `fast` と同じく全件検証したうえで、PoSW だけを
+ * **標本**について再計算する。
+ *
+ * - 標本は proof が申告する最終 event hash から導いた seed で決まる (決定的・再現可能)。
+ *   最終 hash は全 event の PoSW 値をハッシュ連鎖で含むので、proof を作り終えるまで
+ *   どの event が検査されるかは決まらない。同じ proof は誰が何度検証しても同じ標本になる。
+ * - 標本サイズは「PoSW を偽った event が全体の `detectFraction` 以上あれば、確率 `confidence`
+ *   以上で少なくとも 1 件を標本が引く」を満たす最小の n (非復元抽出なので実際の検出力はこれ以上)。
+ * - 限界: seed は偽造者自身が作る hash なので、末尾を作り直して標本を引き直す grinding は防げない
+ *   (期待 1/(1-confidence) 回程度)。だから `audit` は `proven` ではなく独立の整合性レベル
+ *   (`sampled`) として表示する。
+ */
+
+import { arrayBufferToHex, computeHash } from './utils/hashUtils.js';
+
+/** `audit` の既定の信頼度。 */
+export const POSW_AUDIT_DEFAULT_CONFIDENCE = 0.95;
+
+/** 検出を保証する「PoSW を偽った event の割合」の下限。標本サイズはこれと信頼度から決まる。 */
+export const POSW_AUDIT_DETECT_FRACTION = 0.01;
+
+/** seed のドメイン分離ラベル。導出規則を変えたら版を上げる (旧版の標本を再現できなくなるため)。 */
+const POSW_AUDIT_SEED_DOMAIN = 'typedcode-posw-audit/1';
+
+/** `audit` で実施した PoSW サンプリングの記録 (検証結果に載せる)。 */
+export interface PoswAuditSummary {
+  /** 標本選択の seed (16 進 SHA-256)。第三者が同じ標本を再現できる。 */
+  seed: string;
+  /** PoSW を持つ event の総数 (母集団)。 */
+  population: number;
+  /** 実際に PoSW を再計算した event 数。 */
+  sampleSize: number;
+  /** 目標信頼度 (0 < c < 1)。 */
+  confidence: number;
+  /** 標本サイズの設計に使った検出割合 (`POSW_AUDIT_DETECT_FRACTION`)。 */
+  detectFraction: number;
+  /**
+   * 統計的上限: 標本がすべて合格したとき、信頼度 `confidence` で「PoSW を偽った event の割合は
+   * これ未満」と言える値 (`1 - (1-c)^(1/n)`、二項近似なので非復元抽出では保守的)。
+   * 全件を再計算した (n = N) ときは 0。
+   */
+  maxUndetectedFraction: number;
+}
+
+/** 信頼度が (0, 1) の範囲か。`1` は「全件」を意味し、標本では到達できない。 */
+export function isValidAuditConfidence(confidence: number): boolean {
+  return Number.isFinite(confidence) && confidence > 0 && confidence < 1;
+}
+
+/**
+ * 目標信頼度を満たす標本サイズ: `min(N, ceil(ln(1-c) / ln(1-p)))`。
+ * 母集団が小さければ全件 (= full と同じ保証) になる。
+ */
+export function poswAuditSampleSize(
+  population: number,
+  confidence: number,
+  detectFraction: number = POSW_AUDIT_DETECT_FRACTION
+): number {
+  if (!isValidAuditConfidence(confidence)) {
+    throw new Error(`PoSW audit confidence must be between 0 and 1 (exclusive), got ${confidence}`);
+  }
+  const required = Math.ceil(Math.log(1 - confidence) / Math.log(1 - detectFraction));
+  return Math.min(population, required);
+}
+
+/** 標本がすべて合格したときの、信頼度 c での「偽った event の割合」の上限。 */
+export function poswAuditUpperBound(sampleSize: number, population: number, confidence: number): number {
+  if (sampleSize >= population) return 0;
+  if (sampleSize === 0) return 1;
+  return 1 - (1 - confidence) ** (1 / sampleSize);
+}
+
+/** 申告された最終 event hash から標本選択の seed を導く。 */
+export async function poswAuditSeed(finalEventHash: string): Promise<string> {
+  return computeHash(`${POSW_AUDIT_SEED_DOMAIN}:${finalEventHash}`);
+}
+
+/**
+ * seed から `sampleSize` 個の event index を非復元で選ぶ (昇順)。
+ *
+ * SHA-256(seed:counter) の先頭 48 bit を一様乱数とし、剰余の偏りは棄却サンプリングで除く。
+ * 実装言語に依らず再現できるよう、浮動小数は使わない。
+ */
+export async function selectPoswAuditSample(seed: string, population: number, sampleSize: number): Promise<number[]> {
+  if (sampleSize >= population) {
+    return Array.from({ length: population }, (_, i) => i);
+  }
+  const RANGE = 2 ** 48;
+  const limit = RANGE - (RANGE % population);
+  const chosen = new Set<number>();
+  const encoder = new TextEncoder();
+  for (let counter = 0; chosen.size < sampleSize; counter++) {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${seed}:${counter}`));
+    const value = Number.parseInt(arrayBufferToHex(digest.slice(0, 6)), 16);
+    if (value >= limit) continue;
+    chosen.add(value % population);
+  }
+  return [...chosen].sort((a, b) => a - b);
+}
+
+/**
+ * proof の events から audit 標本を計画する。seed は最終 event の**申告** hash から導く
+ * (連鎖検証の前に標本を決める必要があるため。申告 hash が偽なら連鎖検証自体が落ちる)。
+ */
+export async function planPoswAudit(
+  events: readonly { hash: string }[],
+  confidence: number = POSW_AUDIT_DEFAULT_CONFIDENCE
+): Promise<{ sample: number[]; summary: PoswAuditSummary }> {
+  return planPoswAuditFromTail(events.length, events[events.length - 1]?.hash, confidence);
+}
+
+/**
+ * event 数と最終 event の申告 hash だけから audit 標本を計画する。event を全件持たない
+ * ストリーム検証 (ADR-0039) 用で、同じ入力なら `planPoswAudit` と同じ標本を返す。
+ */
+export async function planPoswAuditFromTail(
+  population: number,
+  lastEventHash: string | undefined,
+  confidence: number = POSW_AUDIT_DEFAULT_CONFIDENCE
+): Promise<{ sample: number[]; summary: PoswAuditSummary }> {
+  const sampleSize = poswAuditSampleSize(population, confidence);
+  const seed = await poswAuditSeed(lastEventHash ?? '');
+  const sample = await selectPoswAuditSample(seed, population, sampleSize);
+  return {
+    sample,
+    summary: {
+      seed,
+      population,
+      sampleSize,
+      confidence,
+      detectFraction: POSW_AUDIT_DETECT_FRACTION,
+      maxUndetectedFraction: poswAuditUpperBound(sampleSize, population, confidence),
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * 較正した PoSW 速度から、申告 timestamp の下限を確かめる (ADR-0042)。
+ *
+ * PoSW は各 event に `posw.iterations` 回の逐次 SHA-256 を課すが、反復回数は固定なので、それだけでは
+ * 「何らかの逐次計算をした」ことしか言えず、経過時間の下限にならない。editor はタブ作成時に記録端末の
+ * 反復速度を計測し、`poswCalibration` event として chain に焼く。検証側はその速度で events の PoSW を
+ * 逐次に計算したとみなし、計算が申告 timestamp にどれだけ遅れるかの下限 (lag) を積む:
+ *
+ *   done_j = max(timestamp_j, done_{j-1}) + iterations_j / rate,  lag_j = done_j - timestamp_j
+ *
+ * timestamp は記録キューに入れた時刻なので、打鍵が速ければ計算が一時的に遅れるのは正常。
+ * 遅れの下限が `POSW_TIMING_MAX_LAG_MS` を超えたら、申告 timestamp はその端末の PoSW では
+ * 追いつけない速さで進んでいる (inconsistent)。rate は計測値に `POSW_TIMING_RATE_TOLERANCE` を掛けて
+ * 甘めに取る (端末の負荷で計測が遅く出ても正規の proof を疑わないため)。
+ *
+ * 較正値は記録側の申告なので、偽造者は大きな速度を申告できる。suite の `poswMaxPlausibleRate`
+ * (ネイティブ実装でも届かない速度。1 段の重さが suite ごとに違う。ADR-0044) を超える申告は
+ * implausible として扱う。consistent が言えるのは
+ * 「申告 timestamp が申告端末の PoSW と矛盾しない」ことまでで、時刻のアンカーではない。
+ */
+
+import type { CheckpointData, PoswCalibrationEventData, StoredEvent } from './types.js';
+import { DEFAULT_HASH_SUITE, getHashSuite, type HashSuiteId } from './hashSuite.js';
+
+/** editor が較正で PoSW を計算する回数 (最も速かった 1 回を記録する) */
+export const POSW_CALIBRATION_SAMPLES = 3;
+
+/** 較正速度に掛ける許容倍率 (計測時より最大この倍まで速く計算できたとみなす) */
+export const POSW_TIMING_RATE_TOLERANCE = 2;
+
+/** 計算が申告 timestamp に遅れてよい上限 (ミリ秒)。記録キューの滞留として説明できる範囲 */
+export const POSW_TIMING_MAX_LAG_MS = 30_000;
+
+/**
+ * 既定 suite (`sha256-posw-v1`) で申告を信じてよい反復速度の上限 (反復 / 秒)。
+ * 他の suite の上限は `HashSuite.poswMaxPlausibleRate`
+ */
+export const POSW_TIMING_MAX_PLAUSIBLE_RATE = getHashSuite(DEFAULT_HASH_SUITE)!.poswMaxPlausibleRate;
+
+/**
+ * `poswCalibration` を探す範囲 (event 番号の上限、含まない)。editor はタブ作成時
+ * (#0 humanAttestation・#1 examOpened / sessionContinued の直後) に記録するので先頭付近にある。
+ * これより後の較正は使わない (走査中に先頭の events だけを保持すれば済むように)。
+ */
+export const POSW_CALIBRATION_MAX_EVENT_INDEX = 16;
+
+/**
+ * - uncalibrated: 較正 event が無い (導入前の proof)
+ * - implausible: 較正が壊れている、または上限を超える速度を申告している
+ * - consistent: 申告 timestamp が較正速度の PoSW と矛盾しない
+ * - inconsistent: 申告 timestamp が較正速度の PoSW では追いつけない速さで進んでいる
+ */
+export type PoswTimingStatus = 'uncalibrated' | 'implausible' | 'consistent' | 'inconsistent';
+
+/** checkpoint の間の区間 */
+export interface PoswTimingWindow {
+  /** 区間の末尾 (checkpoint が指す event) */
+  eventIndex: number;
+  /** 区間の申告時間。前の checkpoint の event (先頭の区間は event #0) からの timestamp の差 */
+  claimedMs: number;
+  /** 区間の events の PoSW を、許容倍率を掛けた較正速度で逐次に計算するのに要る時間 */
+  minimumMs: number;
+  /** 区間の末尾で、計算が申告 timestamp に遅れている時間の下限 */
+  lagMs: number;
+}
+
+export interface PoswTimingResult {
+  status: PoswTimingStatus;
+  reason?: string;
+  /** 使った較正 event。無ければ省略 */
+  calibration?: PoswCalibrationEventData & { eventIndex: number };
+  /** 較正した反復速度 (反復 / 秒、許容倍率を掛ける前)。較正が使えなければ null */
+  iterationsPerSecond: number | null;
+  /** events の PoSW 反復回数の合計 */
+  totalIterations: number;
+  /** 申告時間 (最後と最初の event の timestamp の差) */
+  claimedDurationMs: number;
+  /** 全 PoSW を許容倍率を掛けた較正速度で逐次に計算するのに要る時間。較正が使えなければ null */
+  minimumDurationMs: number | null;
+  /** 全 PoSW を suite の `poswMaxPlausibleRate` で計算しても要る時間 (端末によらない下限) */
+  floorDurationMs: number;
+  /** 遅れの下限の最大値と、その event。較正が使えなければ null */
+  maxLagMs: number | null;
+  maxLagEventIndex: number | null;
+  /** checkpoint の間の区間。較正が使えなければ空 */
+  windows: PoswTimingWindow[];
+}
+
+function isCalibrationData(data: unknown): data is PoswCalibrationEventData {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Partial<PoswCalibrationEventData>;
+  return (
+    Number.isSafeInteger(d.iterations) &&
+    d.iterations! > 0 &&
+    typeof d.elapsedMs === 'number' &&
+    Number.isFinite(d.elapsedMs) &&
+    d.elapsedMs > 0 &&
+    Number.isSafeInteger(d.samples) &&
+    d.samples! > 0
+  );
+}
+
+interface TimedEvent {
+  index: number;
+  timestamp: number;
+  iterations: number;
+}
+
+/**
+ * events を 1 件ずつ受け取って遅れの下限を積む。保持するのは較正を見つけるまでの先頭の events と
+ * checkpoint の区間だけ (ストリーム検証 (ADR-0039) の走査にそのまま載せられる)。
+ */
+export class PoswTimingAccumulator {
+  private readonly checkpointIndexes: Set<number>;
+  /** suite の速度の上限 (反復 / 秒)。未知の suite は null (較正を implausible にする) */
+  private readonly maxPlausibleRate: number | null;
+  /** 較正を見つけるまで保留する先頭の events */
+  private pending: TimedEvent[] | null = [];
+  private calibration: (PoswCalibrationEventData & { eventIndex: number }) | null = null;
+  private implausibleReason: string | null = null;
+  /** 許容倍率を掛けた速度 (反復 / ミリ秒)。遅れを積むときだけ非 null */
+  private ratePerMs: number | null = null;
+
+  private totalIterations = 0;
+  private firstTimestamp: number | null = null;
+  private lastTimestamp: number | null = null;
+  private done = -Infinity;
+  private maxLag = 0;
+  private maxLagIndex: number | null = null;
+  private windowStart: number | null = null;
+  private windowIterations = 0;
+  private readonly windows: PoswTimingWindow[] = [];
+
+  /** `hashSuite` は proof の suite (ADR-0044、未検査の値)。省略時は既定 suite */
+  constructor(checkpoints: readonly Pick<CheckpointData, 'eventIndex'>[], hashSuite: HashSuiteId = DEFAULT_HASH_SUITE) {
+    this.checkpointIndexes = new Set(checkpoints.map((cp) => cp.eventIndex));
+    this.maxPlausibleRate = getHashSuite(hashSuite)?.poswMaxPlausibleRate ?? null;
+  }
+
+  add(event: StoredEvent | null | undefined, index: number): void {
+    if (!event || typeof event.timestamp !== 'number' || !Number.isFinite(event.timestamp)) return;
+    const timed: TimedEvent = { index, timestamp: event.timestamp, iterations: event.posw?.iterations ?? 0 };
+
+    this.totalIterations += timed.iterations;
+    this.firstTimestamp ??= timed.timestamp;
+    this.lastTimestamp = timed.timestamp;
+
+    if (!this.pending) {
+      if (this.ratePerMs !== null) this.step(timed);
+      return;
+    }
+
+    this.pending.push(timed);
+    if (event.type === 'poswCalibration') {
+      this.calibrate(event.data, index);
+    } else if (index + 1 >= POSW_CALIBRATION_MAX_EVENT_INDEX) {
+      this.pending = null;
+    }
+  }
+
+  finish(): PoswTimingResult {
+    const claimedDurationMs =
+      this.firstTimestamp !== null && this.lastTimestamp !== null ? this.lastTimestamp - this.firstTimestamp : 0;
+    const base = {
+      totalIterations: this.totalIterations,
+      claimedDurationMs,
+      floorDurationMs: (this.totalIterations / (this.maxPlausibleRate ?? POSW_TIMING_MAX_PLAUSIBLE_RATE)) * 1000,
+      ...(this.calibration ? { calibration: this.calibration } : {}),
+    };
+    const unusable = { iterationsPerSecond: null, minimumDurationMs: null, maxLagMs: null, maxLagEventIndex: null };
+
+    if (!this.calibration) {
+      return { status: 'uncalibrated', ...base, ...unusable, windows: [] };
+    }
+    if (this.implausibleReason !== null || this.ratePerMs === null) {
+      return { status: 'implausible', reason: this.implausibleReason ?? undefined, ...base, ...unusable, windows: [] };
+    }
+
+    const consistent = this.maxLag <= POSW_TIMING_MAX_LAG_MS;
+    return {
+      status: consistent ? 'consistent' : 'inconsistent',
+      ...(consistent
+        ? {}
+        : {
+            reason: `Claimed timestamps outrun the calibrated PoSW rate by ${Math.round(this.maxLag / 1000)} s at event ${this.maxLagIndex}`,
+          }),
+      ...base,
+      iterationsPerSecond: (this.calibration.iterations / this.calibration.elapsedMs) * 1000,
+      minimumDurationMs: this.totalIterations / this.ratePerMs,
+      maxLagMs: this.maxLag,
+      maxLagEventIndex: this.maxLagIndex,
+      windows: this.windows,
+    };
+  }
+
+  private calibrate(data: unknown, index: number): void {
+    const pending = this.pending!;
+    this.pending = null;
+    if (!isCalibrationData(data)) {
+      this.calibration = { iterations: 0, elapsedMs: 0, samples: 0, eventIndex: index };
+      this.implausibleReason = `PoSW calibration at event ${index} is malformed`;
+      return;
+    }
+    this.calibration = {
+      iterations: data.iterations,
+      elapsedMs: data.elapsedMs,
+      samples: data.samples,
+      eventIndex: index,
+    };
+    if (this.maxPlausibleRate === null) {
+      this.implausibleReason = 'PoSW calibration cannot be checked for an unsupported hash suite';
+      return;
+    }
+    const iterationsPerSecond = (data.iterations / data.elapsedMs) * 1000;
+    if (iterationsPerSecond > this.maxPlausibleRate) {
+      this.implausibleReason = `PoSW calibration claims ${Math.round(iterationsPerSecond)} iterations/s, above the plausible maximum ${this.maxPlausibleRate}`;
+      return;
+    }
+    this.ratePerMs = (iterationsPerSecond / 1000) * POSW_TIMING_RATE_TOLERANCE;
+    for (const timed of pending) this.step(timed);
+  }
+
+  private step(timed: TimedEvent): void {
+    this.done = Math.max(timed.timestamp, this.done) + timed.iterations / this.ratePerMs!;
+    const lag = this.done - timed.timestamp;
+    if (lag > this.maxLag) {
+      this.maxLag = lag;
+      this.maxLagIndex = timed.index;
+    }
+
+    this.windowStart ??= timed.timestamp;
+    this.windowIterations += timed.iterations;
+    if (this.checkpointIndexes.has(timed.index)) {
+      this.windows.push({
+        eventIndex: timed.index,
+        claimedMs: timed.timestamp - this.windowStart,
+        minimumMs: this.windowIterations / this.ratePerMs!,
+        lagMs: lag,
+      });
+      this.windowStart = timed.timestamp;
+      this.windowIterations = 0;
+    }
+  }
+}
+
+/**
+ * events と checkpoint から PoSW の時間整合を出す (`PoswTimingAccumulator` を 1 回通す)。
+ */
+export function analyzePoswTiming(
+  events: readonly StoredEvent[],
+  checkpoints: readonly Pick<CheckpointData, 'eventIndex'>[] = [],
+  hashSuite?: HashSuiteId
+): PoswTimingResult {
+  const accumulator = new PoswTimingAccumulator(checkpoints, hashSuite);
+  for (let i = 0; i < events.length; i++) {
+    accumulator.add(events[i]!, i);
+  }
+  return accumulator.finish();
+}
@@ -3,6 +3,8 @@
  * 重い暗号計算をメインスレッドから分離
  */
 
+import { DEFAULT_HASH_SUITE, getHashSuite, type HashSuiteId } from './hashSuite.js';
+
 // メッセージタイプ定義
 
 interface ComputePoSWRequest {
@@ -11,6 +13,8 @@ interface ComputePoSWRequest {
   previousHash: string;
   eventDataString: string;
   iterations: number;
+  /** PoSW の suite (ADR-0044)。省略時は既定 suite */
+  hashSuite?: HashSuiteId;
 }
 
 interface ComputePoSWResponse {
@@ -29,6 +33,8 @@ interface VerifyPoSWRequest {
   eventDataString: string;
   nonce: string;
   iterations: number;
+  /** PoSW の suite (ADR-0044)。省略時は既定 suite */
+  hashSuite?: HashSuiteId;
   expectedHash: string;
 }
 
@@ -49,12 +55,11 @@ function arrayBufferToHex(buffer: ArrayBuffer): string {
     .join('');
 }
 
-// 文字列からSHA-256ハッシュを計算
-async function computeHash(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-  return arrayBufferToHex(hashBuffer);
+// リクエストの suite。未知の識別子は PoswManager が送らない (送られたら throw して Worker エラーにする)
+function suiteFor(request: { hashSuite?: HashSuiteId }) {
+  const suite = getHashSuite(request.hashSuite ?? DEFAULT_HASH_SUITE);
+  if (!suite) throw new Error(`Unknown hash suite: ${String(request.hashSuite)}`);
+  return suite;
 }
 
 // ランダムなnonce（16バイト）を生成
@@ -69,20 +74,16 @@ async function handleComputePoSW(request: ComputePoSWRequest): Promise<ComputePo
   const startTime = performance.now();
   const nonce = generateNonce();
 
-  // 初期入力: 前のハッシュ + イベントデータ + nonce
-  let hash = await computeHash(request.previousHash + request.eventDataString + nonce);
-
-  // SHA-256を反復（逐次計算を強制）
-  for (let i = 1; i < request.iterations; i++) {
-    hash = await computeHash(hash);
-  }
+  // 初期入力: 前のハッシュ + イベントデータ + nonce。反復は suite が決める（逐次計算を強制）
+  const suite = suiteFor(request);
+  const hash = await suite.computePoswHash(request.previousHash + request.eventDataString + nonce);
 
   const computeTimeMs = performance.now() - startTime;
 
   return {
     type: 'posw-result',
     requestId: request.requestId,
-    iterations: request.iterations,
+    iterations: suite.poswIterations,
     nonce,
     intermediateHash: hash,
     computeTimeMs,
@@ -91,16 +92,16 @@ async function handleComputePoSW(request: ComputePoSWRequest): Promise<ComputePo
 
 // PoSW検証
 async function handleVerifyPoSW(request: VerifyPoSWRequest): Promise<VerifyPoSWResponse> {
-  let hash = await computeHash(request.previousHash + request.eventDataString + request.nonce);
-
-  for (let i = 1; i < request.iterations; i++) {
-    hash = await computeHash(hash);
-  }
+  const suite = suiteFor(request);
+  const valid =
+    request.iterations === suite.poswIterations &&
+    (await suite.computePoswHash(request.previousHash + request.eventDataString + request.nonce)) ===
+      request.expectedHash;
 
   return {
     type: 'verify-result',
     requestId: request.requestId,
-    valid: hash === request.expectedHash,
+    valid,
   };
 }
 
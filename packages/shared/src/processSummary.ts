@@ -76,42 +76,78 @@ export interface ProcessSummary {
   moments: ProcessKeyMoment[];
 }
 
+/** 削除ラン (Backspace 連打は 1 文字ずつの contentChange で来るため束ねる) */
+interface DeletionRun {
+  fromIndex: number;
+  lastIndex: number;
+  chars: number;
+  timestamp: number;
+}
+
+/** フォーカス復帰直後のバースト積算 (復帰イベントごとに 1 つ) */
+interface FocusBurst {
+  refocusIndex: number;
+  refocusTimestamp: number;
+  chars: number;
+  lastIndex: number;
+}
+
+// 閉じたバースト窓を見どころへ昇格させる (閾値以上かつ現最大を超えたときのみ)。
+function promoteBurst(burst: FocusBurst | null, current: ProcessKeyMoment | null): ProcessKeyMoment | null {
+  if (burst && burst.chars >= PROCESS_FOCUS_BURST_MIN_CHARS && burst.chars > (current?.value ?? 0)) {
+    return {
+      kind: 'focus-return-burst',
+      fromEventIndex: burst.refocusIndex,
+      toEventIndex: burst.lastIndex,
+      timestamp: burst.refocusTimestamp,
+      value: burst.chars,
+    };
+  }
+  return current;
+}
+
 /**
- * イベント列からプロセス要約を抽出する (純関数・決定的)。
+ * プロセス要約を event 1 件ずつ積む。events 配列を持たずに、ストリーム検証 (ADR-0039) と
+ * 同じ走査で要約を作るためのもの。events を記録順にすべて `add` してから `result` を 1 回呼ぶ。
  */
-export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary {
-  const moments: ProcessKeyMoment[] = [];
+export class ProcessSummaryAccumulator {
   // 内部ペースト (自分のコード) の実挿入を AI 一括投入と取り違えないための逐次台帳 (#138)。
-  const ledger = new SessionProvenanceLedger();
+  private readonly ledger = new SessionProvenanceLedger();
+  private index = 0;
+  private firstTimestamp = 0;
+  private lastTimestamp = 0;
+
+  private contentChangeCount = 0;
+  private insertedChars = 0;
+  private deletedChars = 0;
+  private executionCount = 0;
+  private runSuccessCount = 0;
+  private runFailureCount = 0;
+  private hasRunResults = false;
+  private pauseCount = 0;
+  private focusLossCount = 0;
+  private externalInputCount = 0;
+  private readonly reflectionNotes: string[] = [];
 
-  let contentChangeCount = 0;
-  let insertedChars = 0;
-  let deletedChars = 0;
-  let executionCount = 0;
-  let runSuccessCount = 0;
-  let runFailureCount = 0;
-  let hasRunResults = false;
-  let pauseCount = 0;
-  let focusLossCount = 0;
-  let externalInputCount = 0;
-  const reflectionNotes: string[] = [];
+  private firstRun: ProcessKeyMoment | null = null;
+  private firstFailedRun: ProcessKeyMoment | null = null;
+  private firstSuccessAfterFailure: ProcessKeyMoment | null = null;
+  private longestPause: ProcessKeyMoment | null = null;
+  private largestDeletion: ProcessKeyMoment | null = null;
+  private largestInsertion: ProcessKeyMoment | null = null;
+  private largestFocusBurst: ProcessKeyMoment | null = null;
+  private readonly externalMoments: ProcessKeyMoment[] = [];
 
-  let firstRun: ProcessKeyMoment | null = null;
-  let firstFailedRun: ProcessKeyMoment | null = null;
-  let firstSuccessAfterFailure: ProcessKeyMoment | null = null;
-  let longestPause: ProcessKeyMoment | null = null;
-  let largestDeletion: ProcessKeyMoment | null = null;
-  let largestInsertion: ProcessKeyMoment | null = null;
-  let largestFocusBurst: ProcessKeyMoment | null = null;
-  const externalMoments: ProcessKeyMoment[] = [];
+  private lastContentChange: { index: number; timestamp: number } | null = null;
+  // 連続削除ラン。純挿入イベントで締める。最大の書き直しはこのラン合計で測る (単発 1 文字ではなく)。
+  private delRun: DeletionRun | null = null;
+  private pendingBurst: FocusBurst | null = null;
+  private focusLost = false;
 
-  let lastContentChange: { index: number; timestamp: number } | null = null;
-  // 連続削除ラン (Backspace 連打は 1 文字ずつの contentChange で来るため束ねる)。
-  // 純挿入イベントで締める。最大の書き直しはこのラン合計で測る (単発 1 文字ではなく)。
-  let delRun: { fromIndex: number; lastIndex: number; chars: number; timestamp: number } | null = null;
-  const finalizeDelRun = (): void => {
-    if (delRun && delRun.chars > (largestDeletion?.value ?? 0)) {
-      largestDeletion = {
+  private finalizeDelRun(): void {
+    const delRun = this.delRun;
+    if (delRun && delRun.chars > (this.largestDeletion?.value ?? 0)) {
+      this.largestDeletion = {
         kind: 'largest-deletion',
         fromEventIndex: delRun.fromIndex,
         toEventIndex: delRun.lastIndex !== delRun.fromIndex ? delRun.lastIndex : undefined,
@@ -119,59 +155,40 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
         value: delRun.chars,
       };
     }
-    delRun = null;
-  };
-  /** フォーカス復帰直後のバースト積算 (復帰イベントごとに 1 つ)。 */
-  let pendingBurst: {
-    refocusIndex: number;
-    refocusTimestamp: number;
-    chars: number;
-    lastIndex: number;
-  } | null = null;
-  let focusLost = false;
+    this.delRun = null;
+  }
 
-  // 閉じたバースト窓を見どころへ昇格させる (閾値以上かつ現最大を超えたときのみ)。
-  const promoteBurst = (burst: typeof pendingBurst, current: ProcessKeyMoment | null): ProcessKeyMoment | null => {
-    if (burst && burst.chars >= PROCESS_FOCUS_BURST_MIN_CHARS && burst.chars > (current?.value ?? 0)) {
-      return {
-        kind: 'focus-return-burst',
-        fromEventIndex: burst.refocusIndex,
-        toEventIndex: burst.lastIndex,
-        timestamp: burst.refocusTimestamp,
-        value: burst.chars,
-      };
-    }
-    return current;
-  };
+  add(event: StoredEvent): void {
+    const i = this.index++;
+    if (i === 0) this.firstTimestamp = event.timestamp;
+    this.lastTimestamp = event.timestamp;
 
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i]!;
     // 逐次判定 (イベント適用前の状態に対して)。全イベントを記録順に通す必要がある。
-    const divergentSnapshot = isDivergentContentSnapshot(event, ledger.currentContent);
-    const sessionDerived = ledger.checkAndApply(event);
+    const divergentSnapshot = isDivergentContentSnapshot(event, this.ledger.currentContent);
+    const sessionDerived = this.ledger.checkAndApply(event);
 
     switch (event.type) {
       case 'contentChange': {
-        contentChangeCount++;
+        this.contentChangeCount++;
 
         const inserted = typeof event.data === 'string' ? event.data.length : 0;
         const deleted = event.rangeLength ?? 0;
-        insertedChars += inserted;
-        deletedChars += deleted;
+        this.insertedChars += inserted;
+        this.deletedChars += deleted;
 
         // 削除ランの蓄積: 削除を含むイベントで伸ばし、純挿入 (削除なし) で締める。
         if (deleted > 0) {
-          if (delRun) {
-            delRun.chars += deleted;
-            delRun.lastIndex = i;
+          if (this.delRun) {
+            this.delRun.chars += deleted;
+            this.delRun.lastIndex = i;
           } else {
-            delRun = { fromIndex: i, lastIndex: i, chars: deleted, timestamp: event.timestamp };
+            this.delRun = { fromIndex: i, lastIndex: i, chars: deleted, timestamp: event.timestamp };
           }
         } else if (inserted > 0) {
-          finalizeDelRun();
+          this.finalizeDelRun();
         }
-        if (inserted > 1 && inserted > (largestInsertion?.value ?? 0)) {
-          largestInsertion = {
+        if (inserted > 1 && inserted > (this.largestInsertion?.value ?? 0)) {
+          this.largestInsertion = {
             kind: 'largest-insertion',
             fromEventIndex: i,
             timestamp: event.timestamp,
@@ -181,31 +198,31 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
 
         // 編集停止 (考え中): contentChange 同士のギャップで測る。
         // (マウス移動等は editing pause を埋めないよう無視する)
-        if (lastContentChange) {
-          const gap = event.timestamp - lastContentChange.timestamp;
+        if (this.lastContentChange) {
+          const gap = event.timestamp - this.lastContentChange.timestamp;
           if (gap >= PROCESS_PAUSE_THRESHOLD_MS) {
-            pauseCount++;
-            if (gap > (longestPause?.value ?? 0)) {
-              longestPause = {
+            this.pauseCount++;
+            if (gap > (this.longestPause?.value ?? 0)) {
+              this.longestPause = {
                 kind: 'longest-pause',
-                fromEventIndex: lastContentChange.index,
+                fromEventIndex: this.lastContentChange.index,
                 toEventIndex: i,
-                timestamp: lastContentChange.timestamp,
+                timestamp: this.lastContentChange.timestamp,
                 value: gap,
               };
             }
           }
         }
-        lastContentChange = { index: i, timestamp: event.timestamp };
+        this.lastContentChange = { index: i, timestamp: event.timestamp };
 
         // フォーカス復帰直後のバースト集計: 窓内の挿入文字数を積算し、窓を出たら昇格判定。
-        if (pendingBurst) {
-          if (event.timestamp - pendingBurst.refocusTimestamp <= PROCESS_FOCUS_BURST_WINDOW_MS) {
-            pendingBurst.chars += inserted;
-            pendingBurst.lastIndex = i;
+        if (this.pendingBurst) {
+          if (event.timestamp - this.pendingBurst.refocusTimestamp <= PROCESS_FOCUS_BURST_WINDOW_MS) {
+            this.pendingBurst.chars += inserted;
+            this.pendingBurst.lastIndex = i;
           } else {
-            largestFocusBurst = promoteBurst(pendingBurst, largestFocusBurst);
-            pendingBurst = null;
+            this.largestFocusBurst = promoteBurst(this.pendingBurst, this.largestFocusBurst);
+            this.pendingBurst = null;
           }
         }
         break;
@@ -214,27 +231,27 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
         const data = event.data as CodeExecutionEventData | null;
         if (data && typeof data === 'object' && data.phase === 'result') {
           // ADR-0021: 実行結果イベント。実行回数には数えない (start 側で数える)。
-          hasRunResults = true;
+          this.hasRunResults = true;
           if (data.outcome === 'success') {
-            runSuccessCount++;
-            if (runFailureCount > 0 && !firstSuccessAfterFailure) {
-              firstSuccessAfterFailure = {
+            this.runSuccessCount++;
+            if (this.runFailureCount > 0 && !this.firstSuccessAfterFailure) {
+              this.firstSuccessAfterFailure = {
                 kind: 'first-success-after-failure',
                 fromEventIndex: i,
                 timestamp: event.timestamp,
               };
             }
           } else if (data.outcome === 'failure' || data.outcome === 'error') {
-            runFailureCount++;
-            if (!firstFailedRun) {
-              firstFailedRun = { kind: 'first-failed-run', fromEventIndex: i, timestamp: event.timestamp };
+            this.runFailureCount++;
+            if (!this.firstFailedRun) {
+              this.firstFailedRun = { kind: 'first-failed-run', fromEventIndex: i, timestamp: event.timestamp };
             }
           }
         } else {
           // start (ADR-0021) または旧ビルドの data 無し codeExecution
-          executionCount++;
-          if (!firstRun) {
-            firstRun = { kind: 'first-run', fromEventIndex: i, timestamp: event.timestamp };
+          this.executionCount++;
+          if (!this.firstRun) {
+            this.firstRun = { kind: 'first-run', fromEventIndex: i, timestamp: event.timestamp };
           }
         }
         break;
@@ -242,7 +259,7 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
       case 'reflectionNote': {
         const data = event.data as ReflectionNoteData | null;
         if (data && typeof data === 'object' && typeof data.text === 'string' && data.text.length > 0) {
-          reflectionNotes.push(data.text);
+          this.reflectionNotes.push(data.text);
         }
         break;
       }
@@ -250,18 +267,18 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
         const data = event.data as FocusChangeData | null;
         if (data && typeof data === 'object' && 'focused' in data) {
           if (data.focused === false) {
-            focusLossCount++;
-            focusLost = true;
-            largestFocusBurst = promoteBurst(pendingBurst, largestFocusBurst);
-            pendingBurst = null;
-          } else if (data.focused === true && focusLost) {
-            pendingBurst = {
+            this.focusLossCount++;
+            this.focusLost = true;
+            this.largestFocusBurst = promoteBurst(this.pendingBurst, this.largestFocusBurst);
+            this.pendingBurst = null;
+          } else if (data.focused === true && this.focusLost) {
+            this.pendingBurst = {
               refocusIndex: i,
               refocusTimestamp: event.timestamp,
               chars: 0,
               lastIndex: i,
             };
-            focusLost = false;
+            this.focusLost = false;
           }
         }
         break;
@@ -279,9 +296,9 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
       isFlaggedBulkInsert(event, sessionDerived) ||
       divergentSnapshot
     ) {
-      externalInputCount++;
-      if (externalMoments.length < PROCESS_MAX_EXTERNAL_INPUT_MOMENTS) {
-        externalMoments.push({
+      this.externalInputCount++;
+      if (this.externalMoments.length < PROCESS_MAX_EXTERNAL_INPUT_MOMENTS) {
+        this.externalMoments.push({
           kind: 'external-input',
           fromEventIndex: i,
           timestamp: event.timestamp,
@@ -291,40 +308,52 @@ export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary
     }
   }
 
-  // 末尾までバースト窓 / 削除ランが開いていた場合の確定
-  largestFocusBurst = promoteBurst(pendingBurst, largestFocusBurst);
-  finalizeDelRun();
+  /** 積んだ events の要約。開いたままのバースト窓 / 削除ランをここで確定する (最後に 1 回だけ呼ぶ)。 */
+  result(): ProcessSummary {
+    // 末尾までバースト窓 / 削除ランが開いていた場合の確定
+    this.largestFocusBurst = promoteBurst(this.pendingBurst, this.largestFocusBurst);
+    this.pendingBurst = null;
+    this.finalizeDelRun();
 
-  if (firstRun) moments.push(firstRun);
-  if (firstFailedRun) moments.push(firstFailedRun);
-  if (firstSuccessAfterFailure) moments.push(firstSuccessAfterFailure);
-  if (longestPause) moments.push(longestPause);
-  if (largestDeletion) moments.push(largestDeletion);
-  if (largestInsertion) moments.push(largestInsertion);
-  if (largestFocusBurst && (largestFocusBurst.value ?? 0) >= PROCESS_FOCUS_BURST_MIN_CHARS) {
-    moments.push(largestFocusBurst);
-  }
-  moments.push(...externalMoments);
-  moments.sort((a, b) => a.fromEventIndex - b.fromEventIndex);
+    const moments: ProcessKeyMoment[] = [];
+    if (this.firstRun) moments.push(this.firstRun);
+    if (this.firstFailedRun) moments.push(this.firstFailedRun);
+    if (this.firstSuccessAfterFailure) moments.push(this.firstSuccessAfterFailure);
+    if (this.longestPause) moments.push(this.longestPause);
+    if (this.largestDeletion) moments.push(this.largestDeletion);
+    if (this.largestInsertion) moments.push(this.largestInsertion);
+    if (this.largestFocusBurst && (this.largestFocusBurst.value ?? 0) >= PROCESS_FOCUS_BURST_MIN_CHARS) {
+      moments.push(this.largestFocusBurst);
+    }
+    moments.push(...this.externalMoments);
+    moments.sort((a, b) => a.fromEventIndex - b.fromEventIndex);
 
-  const durationMs = events.length >= 2 ? events[events.length - 1]!.timestamp - events[0]!.timestamp : 0;
+    return {
+      totalEvents: this.index,
+      durationMs: this.index >= 2 ? this.lastTimestamp - this.firstTimestamp : 0,
+      contentChangeCount: this.contentChangeCount,
+      insertedChars: this.insertedChars,
+      deletedChars: this.deletedChars,
+      deletionRatio: this.insertedChars > 0 ? this.deletedChars / this.insertedChars : null,
+      executionCount: this.executionCount,
+      hasRunResults: this.hasRunResults,
+      runSuccessCount: this.runSuccessCount,
+      runFailureCount: this.runFailureCount,
+      pauseCount: this.pauseCount,
+      longestPauseMs: this.longestPause?.value ?? null,
+      focusLossCount: this.focusLossCount,
+      externalInputCount: this.externalInputCount,
+      reflectionNotes: [...this.reflectionNotes],
+      moments,
+    };
+  }
+}
 
-  return {
-    totalEvents: events.length,
-    durationMs,
-    contentChangeCount,
-    insertedChars,
-    deletedChars,
-    deletionRatio: insertedChars > 0 ? deletedChars / insertedChars : null,
-    executionCount,
-    hasRunResults,
-    runSuccessCount,
-    runFailureCount,
-    pauseCount,
-    longestPauseMs: longestPause?.value ?? null,
-    focusLossCount,
-    externalInputCount,
-    reflectionNotes,
-    moments,
-  };
+/**
+ * イベント列からプロセス要約を抽出する (純関数・決定的)。
+ */
+export function summarizeProcess(events: readonly StoredEvent[]): ProcessSummary {
+  const accumulator = new ProcessSummaryAccumulator();
+  for (const event of events) accumulator.add(event);
+  return accumulator.result();
 }
@@ -0,0 +1,60 @@
+/**
+ * 前の proof からの継続 (ADR-0041)。
+ *
+ * 同じファイルを別セッションで続けると、proof は 2 つに分かれる。後の proof が前の proof の続きである
+ * ことを示すため、後の proof の root を前の proof の最終状態にコミットさせる:
+ *
+ *   root = SHA-256(baseRoot ‖ previousFinalEventChainHash ‖ previousContentHash)
+ *
+ * baseRoot は継続しないときの root (casual: SHA-256(fp ‖ nonce)、anchored: ADR-0017 の式)。
+ * root は `typingProofData.initialEventChainHash` として typingProofHash に入り、event #0 の
+ * `previousHash` にもなるので、継続先を後から差し替えると root の照合で落ちる。
+ *
+ * - computeContinuationChainRoot: root 式の単一ソース (記録側の TypingProof と検証側の両方が使う)
+ * - createProofContinuation: 前の proof から継続情報を取り出す
+ *
+ * 複数 proof の連結の検証と timeline の統合は `proofSeries.ts`。
+ */
+
+import type { ExportedProof, ProofContinuation } from './types.js';
+import { computeHash } from './utils/hashUtils.js';
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * 継続した proof の root。baseRoot に前の proof の最終 chain hash と最終内容の hash を連結する。
+ */
+export async function computeContinuationChainRoot(baseRoot: string, continuation: ProofContinuation): Promise<string> {
+  return computeHash(baseRoot + continuation.previousFinalEventChainHash + continuation.previousContentHash);
+}
+
+/** 継続情報の形 (64 桁 hex が 2 つ) を満たすか。 */
+export function isProofContinuation(value: unknown): value is ProofContinuation {
+  if (!value || typeof value !== 'object') return false;
+  const c = value as Partial<ProofContinuation>;
+  return (
+    typeof c.previousFinalEventChainHash === 'string' &&
+    HASH_PATTERN.test(c.previousFinalEventChainHash) &&
+    typeof c.previousContentHash === 'string' &&
+    HASH_PATTERN.test(c.previousContentHash)
+  );
+}
+
+/**
+ * 前の proof から継続情報を取り出す。前の proof の検証は呼び出し側の責務 (editor は取り込み時に
+ * `verifyProofFile` を通す)。exam proof (ADR-0006) は root が監督コードに束縛されていて
+ * 別セッションへ持ち越せないので throw する。
+ */
+export function createProofContinuation(previous: Pick<ExportedProof, 'typingProofData' | 'exam'>): ProofContinuation {
+  if (previous.exam) {
+    throw new Error('An exam proof cannot be continued in another session');
+  }
+  const continuation = {
+    previousFinalEventChainHash: previous.typingProofData?.finalEventChainHash,
+    previousContentHash: previous.typingProofData?.finalContentHash,
+  };
+  if (!isProofContinuation(continuation)) {
+    throw new Error('Previous proof has no final event chain hash or final content hash');
+  }
+  return continuation;
+}
@@ -0,0 +1,193 @@
+/**
+ * 2 つの proof の構造的な差分。
+ *
+ * 再提出や「proof を作り直したのでは」という疑いのとき、2 つの proof がどこまで同じでどこから分かれるかを
+ * event 単位で示す。見るのは次の 3 つ:
+ *
+ * 1. root (`initialEventChainHash`) が同じか。同じ session から書き出した proof だけが一致する。
+ * 2. hash が一致する先頭の events (共通の prefix) と、最初に食い違う sequence。hash は前の hash を含むので、
+ *    一度食い違えばそれ以降は一致しない。
+ * 3. replay した文書が最初に食い違う sequence と文字位置。適用規則は `typingProof/replay.ts` と同じ。
+ *
+ * root が違えば hash は先頭から食い違うので、編集内容 (type / inputType / data / range) だけを比べた
+ * 共通の長さも出す。同じ打鍵を別 session で再生成した proof は、hash は 0 件一致でも編集内容がそろう。
+ *
+ * 差分は検証ではない。どちらの proof も検証に通るかは別に確かめる。
+ */
+
+import type { ProofData, SignatureData, StoredEvent } from './types.js';
+import { applyReplayEventTolerant } from './typingProof/replay.js';
+import { deterministicStringify } from './utils/hashUtils.js';
+
+/** 差分の schema 識別子 (verify-cli の `diff --json`)。 */
+export const PROOF_DIFF_SCHEMA = 'proof-diff/1' as const;
+
+export interface DiffableProof {
+  typingProofData: Pick<ProofData, 'initialEventChainHash' | 'finalEventChainHash'>;
+  proof: Pick<SignatureData, 'events'>;
+  content: string;
+}
+
+export interface ProofDiffSide {
+  eventCount: number;
+  initialEventChainHash: string | null;
+  finalEventChainHash: string;
+  contentLength: number;
+}
+
+/** 食い違った位置の event (表示用の要約) */
+export interface ProofDiffEvent {
+  sequence: number;
+  type: string;
+  inputType?: string;
+  timestamp: number;
+}
+
+export interface ProofContentDivergence {
+  /** replay した文書が最初に食い違う sequence (この event を適用した後の文書で比べる) */
+  sequence: number;
+  /** その時点の 2 つの文書で最初に食い違う文字位置 */
+  offset: number;
+  /** `offset` の行と列 (1 始まり、a の文書で数える) */
+  line: number;
+  column: number;
+}
+
+export interface ProofDiff {
+  schema: typeof PROOF_DIFF_SCHEMA;
+  a: ProofDiffSide;
+  b: ProofDiffSide;
+  /** hash の列が同一 (同じ proof を書き出し直しただけ) */
+  identical: boolean;
+  sameInitialEventChainHash: boolean;
+  /** 先頭から hash が一致する events の数 */
+  sharedPrefixLength: number;
+  /** hash が最初に食い違う sequence。片方がもう片方の prefix なら短い方の長さ。同一なら null */
+  firstDivergentSequence: number | null;
+  /** `firstDivergentSequence` の event。尽きた側は null */
+  divergentEvents: { a: ProofDiffEvent | null; b: ProofDiffEvent | null } | null;
+  /** 先頭から編集内容が一致する events の数 (時刻と hash は見ない) */
+  sameEditsPrefixLength: number;
+  /** replay した文書が食い違う位置。最後まで同じ文書なら null */
+  contentDivergence: ProofContentDivergence | null;
+  /** 最終内容 (`content`) が一致する */
+  sameFinalContent: boolean;
+}
+
+function side(proof: DiffableProof): ProofDiffSide {
+  return {
+    eventCount: proof.proof.events.length,
+    // 旧 proof は root を持たない。events があれば #0 の previousHash が root
+    initialEventChainHash: proof.typingProofData.initialEventChainHash ?? proof.proof.events[0]?.previousHash ?? null,
+    finalEventChainHash: proof.typingProofData.finalEventChainHash,
+    contentLength: proof.content.length,
+  };
+}
+
+function summarizeEvent(event: StoredEvent | undefined, sequence: number): ProofDiffEvent | null {
+  if (!event) return null;
+  return {
+    sequence,
+    type: event.type,
+    ...(event.inputType ? { inputType: event.inputType } : {}),
+    timestamp: event.timestamp,
+  };
+}
+
+/** 編集内容だけを取り出した比較キー (時刻・PoSW・hash を除く) */
+function editKey(event: StoredEvent): string {
+  return deterministicStringify({
+    type: event.type,
+    inputType: event.inputType ?? null,
+    data: event.data ?? null,
+    rangeOffset: event.rangeOffset ?? null,
+    rangeLength: event.rangeLength ?? null,
+    range: event.range ?? null,
+  });
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a.charCodeAt(i) === b.charCodeAt(i)) i++;
+  return i;
+}
+
+function lineColumn(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 };
+}
+
+/** events[0..index] を replay した文書 (index が -1 なら空文書)。 */
+export function replayContentAt(events: readonly StoredEvent[], index: number): string {
+  let content = '';
+  const last = Math.min(index, events.length - 1);
+  for (let i = 0; i <= last; i++) {
+    content = applyReplayEventTolerant(content, events[i]!);
+  }
+  return content;
+}
+
+/**
+ * 2 つの proof を event 単位で比べる (検証はしない)。
+ */
+export function diffProofs(a: DiffableProof, b: DiffableProof): ProofDiff {
+  const eventsA = a.proof.events;
+  const eventsB = b.proof.events;
+  const length = Math.max(eventsA.length, eventsB.length);
+
+  let sharedPrefixLength = 0;
+  while (
+    sharedPrefixLength < eventsA.length &&
+    sharedPrefixLength < eventsB.length &&
+    eventsA[sharedPrefixLength]!.hash === eventsB[sharedPrefixLength]!.hash
+  ) {
+    sharedPrefixLength++;
+  }
+  const identical = sharedPrefixLength === length;
+
+  let sameEditsPrefixLength = sharedPrefixLength;
+  while (
+    sameEditsPrefixLength < eventsA.length &&
+    sameEditsPrefixLength < eventsB.length &&
+    editKey(eventsA[sameEditsPrefixLength]!) === editKey(eventsB[sameEditsPrefixLength]!)
+  ) {
+    sameEditsPrefixLength++;
+  }
+
+  // 編集内容が一致する間は文書も一致するので、そこまでは片側だけ replay して比べずに進む
+  let contentA = replayContentAt(eventsA, sameEditsPrefixLength - 1);
+  let contentB = contentA;
+  let contentDivergence: ProofContentDivergence | null = null;
+  for (let i = sameEditsPrefixLength; i < length; i++) {
+    if (i < eventsA.length) contentA = applyReplayEventTolerant(contentA, eventsA[i]!);
+    if (i < eventsB.length) contentB = applyReplayEventTolerant(contentB, eventsB[i]!);
+    if (contentA !== contentB) {
+      const offset = commonPrefixLength(contentA, contentB);
+      contentDivergence = { sequence: i, offset, ...lineColumn(contentA, offset) };
+      break;
+    }
+  }
+
+  const sideA = side(a);
+  const sideB = side(b);
+  return {
+    schema: PROOF_DIFF_SCHEMA,
+    a: sideA,
+    b: sideB,
+    identical,
+    sameInitialEventChainHash:
+      sideA.initialEventChainHash !== null && sideA.initialEventChainHash === sideB.initialEventChainHash,
+    sharedPrefixLength,
+    firstDivergentSequence: identical ? null : sharedPrefixLength,
+    divergentEvents: identical
+      ? null
+      : {
+          a: summarizeEvent(eventsA[sharedPrefixLength], sharedPrefixLength),
+          b: summarizeEvent(eventsB[sharedPrefixLength], sharedPrefixLength),
+        },
+    sameEditsPrefixLength,
+    contentDivergence,
+    sameFinalContent: a.content === b.content,
+  };
+}
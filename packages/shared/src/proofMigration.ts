@@ -0,0 +1,198 @@
+/**
+ * 旧形式の proof を現行の形にそろえる (migration) と、どの旧形式の特徴を持つかの報告。
+ *
+ * proof format は `MIN_SUPPORTED_VERSION` (1.0.0) から加算的に変わってきた (`version.ts`)。検証器は
+ * 旧 proof をそのまま受け付けるが、分析や表示の側は「`rootAnchored` が無い」「`checkpoints` が無い」
+ * 「最上位に `humanAttestation` がある」などをそれぞれ特別扱いしていた。`migrateProof` はこれを
+ * 1 か所で現行の形にそろえ、何が旧形式だったかを `ProofVersionReport` として返す。
+ *
+ * hash に入るもの (`typingProofData`・`typingProofHash`・events・checkpoints の各要素・`content`・
+ * `fingerprint`) には触れない。`typingProofHash` は `typingProofData` の JSON 文字列の hash なので、
+ * キーの順序を変えるだけでも検証に落ちる。そろえるのは hash に入らない外側のフィールドだけで、
+ * hash に入る旧形式 (`data: null` の codeExecution など) は報告するだけにする。
+ *
+ * 入力の proof は変更しない (外側を浅くコピーし、events などは同じ参照を使う)。
+ *
+ * verify / verify-cli は読み込んだ proof を必ずここに通す (ストリーム検証のヘッダは `migrateProofHeader`)。
+ * 検証・分析の側は `MigratedProof` を受け取り、`checkpoints` や `rootAnchored` の欠落を扱わない。
+ */
+
+import type { HumanAttestation } from './attestation.js';
+import { TypingProofError } from './errors.js';
+import type { CheckpointData } from './types.js';
+import type { ProofFile, ProofHeader } from './verification.js';
+import { MIN_SUPPORTED_VERSION, PROOF_FORMAT_VERSION, compareVersions, isVersionSupported } from './version.js';
+
+/** 報告の schema 識別子 (verify-cli の `inspect --version-report --json`)。 */
+export const PROOF_VERSION_REPORT_SCHEMA = 'proof-version-report/1' as const;
+
+/**
+ * proof が持ちうる旧形式の特徴。
+ * - `top-level-human-attestation`: 人間性の証明が #0 の `humanAttestation` event ではなく最上位にある
+ * - `code-execution-without-data`: `data: null` の codeExecution (ADR-0021 以前。start / result の区別が無い)
+ * - `root-anchored-flag-missing`: casual / class の proof に `rootAnchored` が無い (1.2.0 以前、ADR-0017)
+ * - `checkpoints-missing`: `checkpoints` が無い
+ * - `checkpoints-without-merkle-root`: `merkleRoot` の無い checkpoint (ADR-0040 以前)
+ * - `initial-chain-hash-missing`: `typingProofData.initialEventChainHash` が無い (root は #0 の previousHash)
+ * - `mode-missing`: 生成時のモード (ADR-0011) が無い
+ * - `filename-missing`: エディタのタブ名が無い
+ */
+export type LegacyProofFeature =
+  | 'top-level-human-attestation'
+  | 'code-execution-without-data'
+  | 'root-anchored-flag-missing'
+  | 'checkpoints-missing'
+  | 'checkpoints-without-merkle-root'
+  | 'initial-chain-hash-missing'
+  | 'mode-missing'
+  | 'filename-missing';
+
+export interface LegacyProofFeatureRecord {
+  feature: LegacyProofFeature;
+  /** 該当した件数 (event・checkpoint の数。proof 全体の特徴は 1) */
+  occurrences: number;
+  /** `migrateProof` が現行の形にそろえるか (false は hash に入るので報告だけ) */
+  normalized: boolean;
+}
+
+export interface ProofVersionReport {
+  schema: typeof PROOF_VERSION_REPORT_SCHEMA;
+  /** proof の `version` (文字列でなければ null) */
+  declaredVersion: string | null;
+  currentVersion: string;
+  minSupportedVersion: string;
+  /** `MIN_SUPPORTED_VERSION` 以上 */
+  supported: boolean;
+  /** この実装より新しい format (知らない特徴を持ちうる) */
+  newerThanCurrent: boolean;
+  /** 見つかった旧形式の特徴 (無ければ空) */
+  features: LegacyProofFeatureRecord[];
+}
+
+/** 旧形式も含めて読み込んだ proof (最上位の `humanAttestation` は旧形式) */
+export type LegacyProofFile = ProofFile & { humanAttestation?: HumanAttestation };
+
+/** 旧形式も含めて読み込んだ、events を除いた proof (ストリーム検証のヘッダ、ADR-0039) */
+export type LegacyProofHeader = Omit<LegacyProofFile, 'proof' | 'checkpoints'> & {
+  proof: ProofHeader['proof'];
+  checkpoints?: CheckpointData[];
+};
+
+/**
+ * 現行の形にそろえた proof。`checkpoints` は常に配列で、exam 以外は `rootAnchored` を必ず持つ。
+ * 最上位の `humanAttestation` は取り除く (`MigratedProofResult.legacyHumanAttestation` へ移す)。
+ */
+export type MigratedProof = ProofFile & { checkpoints: CheckpointData[] };
+
+export interface MigratedProofHeaderResult {
+  header: ProofHeader;
+  /** 最上位にあった旧形式の人間性の証明。無ければ null */
+  legacyHumanAttestation: HumanAttestation | null;
+}
+
+export interface MigratedProofResult {
+  proof: MigratedProof;
+  report: ProofVersionReport;
+  /** 最上位にあった旧形式の人間性の証明。無ければ null */
+  legacyHumanAttestation: HumanAttestation | null;
+}
+
+function record(
+  features: LegacyProofFeatureRecord[],
+  feature: LegacyProofFeature,
+  occurrences: number,
+  normalized: boolean
+): void {
+  if (occurrences > 0) features.push({ feature, occurrences, normalized });
+}
+
+/**
+ * proof の format version と旧形式の特徴を調べる (proof は変更しない。検証はしない)。
+ */
+export function inspectProofVersion(proof: LegacyProofFile): ProofVersionReport {
+  const declaredVersion = typeof proof.version === 'string' ? proof.version : null;
+  const events = Array.isArray(proof.proof?.events) ? proof.proof.events : [];
+  const checkpoints = Array.isArray(proof.checkpoints) ? proof.checkpoints : null;
+
+  const features: LegacyProofFeatureRecord[] = [];
+  record(features, 'top-level-human-attestation', proof.humanAttestation !== undefined ? 1 : 0, true);
+  record(
+    features,
+    'code-execution-without-data',
+    events.filter((event) => event?.type === 'codeExecution' && event.data === null).length,
+    false
+  );
+  record(features, 'root-anchored-flag-missing', !proof.exam && proof.rootAnchored === undefined ? 1 : 0, true);
+  record(features, 'checkpoints-missing', checkpoints === null ? 1 : 0, true);
+  record(
+    features,
+    'checkpoints-without-merkle-root',
+    (checkpoints ?? []).filter((cp) => cp?.merkleRoot === undefined).length,
+    false
+  );
+  record(features, 'initial-chain-hash-missing', proof.typingProofData?.initialEventChainHash ? 0 : 1, false);
+  record(features, 'mode-missing', proof.mode === undefined ? 1 : 0, false);
+  record(features, 'filename-missing', proof.filename === undefined ? 1 : 0, false);
+
+  return {
+    schema: PROOF_VERSION_REPORT_SCHEMA,
+    declaredVersion,
+    currentVersion: PROOF_FORMAT_VERSION,
+    minSupportedVersion: MIN_SUPPORTED_VERSION,
+    supported: declaredVersion !== null && isVersionSupported(declaredVersion),
+    newerThanCurrent: declaredVersion !== null && compareVersions(declaredVersion, PROOF_FORMAT_VERSION) > 0,
+    features,
+  };
+}
+
+function assertSupported(declaredVersion: string | null): void {
+  if (declaredVersion === null || !isVersionSupported(declaredVersion)) {
+    throw new TypingProofError(
+      `Unsupported proof format version: ${declaredVersion ?? '(missing)'} (minimum ${MIN_SUPPORTED_VERSION})`,
+      'UNSUPPORTED_PROOF_VERSION'
+    );
+  }
+}
+
+/** hash に入らない外側のフィールドを現行の形にそろえる (`migrateProof` / `migrateProofHeader` 共通) */
+function normalizeOuter<T extends Omit<LegacyProofHeader, 'proof'>>(
+  proof: T
+): { migrated: Omit<T, 'humanAttestation'> & { checkpoints: CheckpointData[] }; humanAttestation?: HumanAttestation } {
+  const { humanAttestation, ...rest } = proof;
+  const migrated = { ...rest, checkpoints: proof.checkpoints ?? [] };
+  if (!proof.exam && proof.rootAnchored === undefined) {
+    migrated.rootAnchored = false;
+  }
+  return { migrated, humanAttestation };
+}
+
+/**
+ * 対応する format の proof を現行の形にそろえる。hash に入るフィールドは変えないので、返した proof の
+ * 検証結果は元の proof と同じ。
+ *
+ * - 最上位の `humanAttestation` を取り除き、`legacyHumanAttestation` として返す
+ * - exam 以外で `rootAnchored` が無ければ false (1.2.0 以前の proof は root をアンカーしていない)
+ * - `checkpoints` が無ければ空配列
+ *
+ * @throws `version` が無い・`MIN_SUPPORTED_VERSION` より古いとき (`UNSUPPORTED_PROOF_VERSION` の `TypingProofError`)
+ */
+export function migrateProof(proof: LegacyProofFile): MigratedProofResult {
+  const report = inspectProofVersion(proof);
+  assertSupported(report.declaredVersion);
+
+  const { migrated, humanAttestation } = normalizeOuter(proof);
+  return { proof: migrated, report, legacyHumanAttestation: humanAttestation ?? null };
+}
+
+/**
+ * ストリーム検証 (ADR-0039) のヘッダを `migrateProof` と同じ形にそろえる。events を読む前なので
+ * 報告は返さない (旧形式の特徴を知りたいときは proof 全体で `inspectProofVersion` を呼ぶ)。
+ *
+ * @throws `migrateProof` と同じ
+ */
+export function migrateProofHeader(header: LegacyProofHeader): MigratedProofHeaderResult {
+  assertSupported(typeof header.version === 'string' ? header.version : null);
+
+  const { migrated, humanAttestation } = normalizeOuter(header);
+  return { header: migrated, legacyHumanAttestation: humanAttestation ?? null };
+}
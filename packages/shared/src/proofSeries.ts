@@ -0,0 +1,213 @@
+/**
+ * 継続した proof の列 (ADR-0041) の検証と timeline の統合。
+ *
+ * 同じファイルを複数のセッションで書くと、proof は `continuation` でつながった列になる。
+ * 列が 1 本の制作過程であることは次の 2 つで示す:
+ *
+ * 1. 各 proof が単独で検証に通る (`verifyProofFile`)。継続した proof では root が `continuation` に
+ *    コミットしていること、`sessionContinued` の内容が `previousContentHash` と一致することもここで見る。
+ * 2. 隣り合う proof の link: 後の `continuation` が前の `finalEventChainHash` / `finalContentHash` と一致する。
+ *    先頭の proof は `continuation` を持たない。
+ *
+ * 統合した timeline (`mergeProofSeries`) は表示用の派生物で、chain としては検証できない
+ * (sequence と timestamp を振り直すため)。整合性の根拠は常に proof ごとの検証と link にある。
+ */
+
+import type { ExportedProof, StoredEvent } from './types.js';
+import type { MigratedProof } from './proofMigration.js';
+import {
+  verifyProofFile,
+  type FullVerificationResult,
+  type ProofFile,
+  type VerifyProofFileOptions,
+} from './verification.js';
+
+type LinkableProof = Pick<ExportedProof, 'typingProofData' | 'continuation'>;
+
+/** 列の中の 1 つの proof と、その前の proof とのつながり。 */
+export interface ProofSeriesLink {
+  index: number;
+  /** start: 列の先頭 (continuation なし)、linked: 前の proof とつながる、broken: つながらない */
+  status: 'start' | 'linked' | 'broken';
+  reason?: string;
+}
+
+export interface ProofSeriesPartResult {
+  result: FullVerificationResult;
+  link: ProofSeriesLink;
+}
+
+export interface ProofSeriesVerificationResult {
+  /** すべての proof が検証に通り、すべての link がつながっている */
+  valid: boolean;
+  /** 最初に見つかった不合格 (`Part N: ...`) */
+  reason?: string;
+  parts: ProofSeriesPartResult[];
+}
+
+/** 統合 timeline の中の 1 つの proof の位置。 */
+export interface MergedProofPart {
+  index: number;
+  filename?: string;
+  /** 統合後の events での先頭と末尾の index (events が無い proof は first > last) */
+  firstEventIndex: number;
+  lastEventIndex: number;
+  eventCount: number;
+  /** この proof の timestamp に足した値 (ms)。前の proof の最後の event の統合後 timestamp */
+  timeOffsetMs: number;
+  /** この proof の最初と最後の event の timestamp 差 (ms) */
+  durationMs: number;
+}
+
+export interface MergedProofTimeline {
+  /** 各 proof の events をつないだもの。`sequence` は通し番号、`timestamp` は通しの経過時間 */
+  events: StoredEvent[];
+  /** 最後の proof の最終内容 */
+  content: string;
+  language: string;
+  parts: MergedProofPart[];
+}
+
+/**
+ * 並んだ proof の link を調べる (hash の比較だけで、proof 本体は検証しない)。
+ */
+export function checkProofSeriesLinks(proofs: readonly LinkableProof[]): ProofSeriesLink[] {
+  return proofs.map((proof, index) => {
+    const continuation = proof.continuation;
+    if (index === 0) {
+      return continuation
+        ? { index, status: 'broken', reason: 'First proof of the series continues a proof that is not included' }
+        : { index, status: 'start' };
+    }
+    if (!continuation) {
+      return { index, status: 'broken', reason: 'Proof does not declare a continuation' };
+    }
+    const previous = proofs[index - 1]!.typingProofData;
+    if (continuation.previousFinalEventChainHash !== previous?.finalEventChainHash) {
+      return { index, status: 'broken', reason: 'Continuation does not match the previous final event chain hash' };
+    }
+    if (continuation.previousContentHash !== previous?.finalContentHash) {
+      return { index, status: 'broken', reason: 'Continuation does not match the previous final content hash' };
+    }
+    return { index, status: 'linked' };
+  });
+}
+
+/**
+ * proof を link の順に並べる。列が 1 本にならない (先頭が 0 個または複数・分岐・つながらない proof が
+ * ある) ときは throw する。
+ */
+export function orderProofSeries<T extends LinkableProof>(proofs: readonly T[]): T[] {
+  const starts = proofs.filter(
+    (proof) =>
+      !proof.continuation ||
+      !proofs.some((p) => p.typingProofData?.finalEventChainHash === proof.continuation!.previousFinalEventChainHash)
+  );
+  if (starts.length !== 1) {
+    throw new Error(`Proof series must have exactly one first proof (found ${starts.length})`);
+  }
+
+  const ordered: T[] = [starts[0]!];
+  while (ordered.length < proofs.length) {
+    const tail = ordered[ordered.length - 1]!.typingProofData?.finalEventChainHash;
+    const next = proofs.filter((proof) => proof.continuation?.previousFinalEventChainHash === tail);
+    if (next.length !== 1) {
+      throw new Error(
+        next.length === 0
+          ? `Proof series breaks after proof ${ordered.length - 1}`
+          : `Proof series forks after proof ${ordered.length - 1}`
+      );
+    }
+    ordered.push(next[0]!);
+  }
+  return ordered;
+}
+
+/**
+ * `target` から `continuation` をたどって前の proof を `candidates` から集める (verify で読み込んだ
+ * 複数ファイルから列を組む用途)。返す列は古い順で、末尾が `target`。`complete` は先頭まで
+ * たどれた (先頭の proof が continuation を持たない) か。
+ */
+export function collectProofSeries<T extends LinkableProof>(
+  target: T,
+  candidates: readonly T[]
+): { proofs: T[]; complete: boolean } {
+  const proofs: T[] = [target];
+  let current = target;
+  while (current.continuation) {
+    const wanted = current.continuation.previousFinalEventChainHash;
+    const previous = candidates.find(
+      (proof) => proof.typingProofData?.finalEventChainHash === wanted && !proofs.includes(proof)
+    );
+    if (!previous) return { proofs, complete: false };
+    proofs.unshift(previous);
+    current = previous;
+  }
+  return { proofs, complete: true };
+}
+
+/**
+ * 古い順に並んだ proof の列を検証する。各 proof は `verifyProofFile` で単独に検証する
+ * (`options` はそのまま渡す)。
+ */
+export async function verifyProofSeries(
+  proofs: readonly MigratedProof[],
+  options: VerifyProofFileOptions = {}
+): Promise<ProofSeriesVerificationResult> {
+  if (proofs.length === 0) {
+    return { valid: false, reason: 'Proof series is empty', parts: [] };
+  }
+
+  const links = checkProofSeriesLinks(proofs);
+  const parts: ProofSeriesPartResult[] = [];
+  let reason: string | undefined;
+  for (const [index, proof] of proofs.entries()) {
+    const result = await verifyProofFile(proof, undefined, options);
+    const link = links[index]!;
+    parts.push({ result, link });
+    if (reason) continue;
+    if (!result.valid) reason = `Part ${index + 1}: ${result.errorMessage ?? 'verification failed'}`;
+    else if (link.status === 'broken') reason = `Part ${index + 1}: ${link.reason}`;
+  }
+
+  return { valid: reason === undefined, ...(reason ? { reason } : {}), parts };
+}
+
+/**
+ * 古い順に並んだ proof の events を 1 本の timeline にする。timestamp は proof ごとに 0 から
+ * 始まるので、前の proof の最後の event の直後に続くようずらす (セッションの間の実時間は含めない)。
+ * link や検証はしない (先に `verifyProofSeries` を通すこと)。
+ */
+export function mergeProofSeries(
+  proofs: readonly Pick<ProofFile, 'proof' | 'content' | 'language' | 'filename'>[]
+): MergedProofTimeline {
+  if (proofs.length === 0) {
+    throw new Error('Proof series is empty');
+  }
+
+  const events: StoredEvent[] = [];
+  const parts: MergedProofPart[] = [];
+  let offset = 0;
+  for (const [index, proof] of proofs.entries()) {
+    const partEvents = proof.proof.events;
+    const firstEventIndex = events.length;
+    for (const event of partEvents) {
+      events.push({ ...event, sequence: events.length, timestamp: event.timestamp + offset });
+    }
+    const first = partEvents[0]?.timestamp ?? 0;
+    const last = partEvents[partEvents.length - 1]?.timestamp ?? first;
+    parts.push({
+      index,
+      ...(proof.filename !== undefined ? { filename: proof.filename } : {}),
+      firstEventIndex,
+      lastEventIndex: events.length - 1,
+      eventCount: partEvents.length,
+      timeOffsetMs: offset,
+      durationMs: last - first,
+    });
+    offset += last;
+  }
+
+  const final = proofs[proofs.length - 1]!;
+  return { events, content: final.content, language: final.language, parts };
+}
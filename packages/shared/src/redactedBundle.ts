@@ -0,0 +1,109 @@
+/**
+ * 伏せ字バンドルの書き出し (ADR-0043)。
+ *
+ * Tier A (`analysis-bundle/1`) は派生物なので、これまで作れるのは verify-cli の `--analysis-bundle` だけ
+ * だった。ここでは proof (Tier F) をその場で検証し、プロセス要約・分析・三層保証を出して Tier A を組み立て、
+ * 求められれば伏せ字の events (`redacted-events/1`、未検証のメタデータ) も添える。editor と verify の「伏せ字バンドルを
+ * 書き出す」が使う (ブラウザで完結し、Node のツールチェーンは要らない)。
+ *
+ * 三層保証は proof 単体から出せる証拠だけで導く: 試験の問題パッケージは渡されない (`packageProvided: false`)、
+ * スクリーンショットは検査しない (`screenshotsTampered` 未指定)。verify-cli で proof.json 単体を検証したときと
+ * 同じ写像。
+ */
+
+import { buildAnalysisBundle, type AnalysisBundle } from './analysis/bundle.js';
+import { runAnalysis } from './analysis/orchestrator.js';
+import type { Analyzer } from './analysis/types.js';
+import { deriveAssurance, summarizeAnalysisForAssurance } from './assurance.js';
+import { summarizeProcess } from './processSummary.js';
+import { createRedactedEvents, type RedactedEventsArtifact } from './redactedEvents.js';
+import type { MigratedProof } from './proofMigration.js';
+import { verifyProofFile, type FullVerificationResult, type VerificationMode } from './verification.js';
+
+export interface CreateRedactedBundleOptions {
+  /** 検証モード。既定 audit (PoSW を標本だけ再計算する。整合性は sampled) */
+  mode?: VerificationMode;
+  /** 伏せ字の events (未検証のメタデータ) も作るか。既定 false */
+  includeRedactedEvents?: boolean;
+  /** 分析器 (未指定なら shared 既定) */
+  analyzers?: readonly Analyzer[];
+}
+
+export interface RedactedBundle {
+  /** Tier A。`filename` は verify-cli の `--analysis-bundle` の各要素と同じ */
+  analysisBundle: { filename?: string } & AnalysisBundle;
+  /** 伏せ字の events。`includeRedactedEvents` のときだけ */
+  redactedEvents?: RedactedEventsArtifact;
+  /** 書き出し前の検証結果 (呼び出し側が通知に使う) */
+  verification: FullVerificationResult;
+}
+
+/**
+ * proof を検証して伏せ字バンドルを作る。検証に通らなくても作る (`integrityValid: false` を注記する。
+ * verify-cli の `--analysis-bundle` と同じ)。通ったかは `verification.valid` で見る。
+ */
+export async function createRedactedBundle(
+  proof: MigratedProof,
+  options: CreateRedactedBundleOptions = {}
+): Promise<RedactedBundle> {
+  const verification = await verifyProofFile(proof, undefined, { mode: options.mode ?? 'audit' });
+  const analysis = await runAnalysis({ proof, verification }, options.analyzers);
+  const assurance = deriveAssurance({
+    metadataValid: verification.metadataValid,
+    chainValid: verification.chainValid,
+    exam: proof.exam ? { present: true, packageProvided: false } : undefined,
+    rootAnchored: verification.rootAnchored,
+    signedCheckpoints: verification.signedCheckpoints
+      ? {
+          anchored: verification.signedCheckpoints.anchored,
+          valid: verification.signedCheckpoints.valid,
+          sparse: verification.signedCheckpoints.density?.sparse,
+          postHocSuspected: verification.signedCheckpoints.temporal?.postHocSuspected,
+        }
+      : undefined,
+    isPureTyping: verification.isPureTyping,
+    analysis: summarizeAnalysisForAssurance(analysis),
+    poswSkipped: verification.poswSkipped ?? false,
+    poswSampled: !!verification.poswAudit && verification.poswAudit.sampleSize < verification.poswAudit.population,
+    poswTiming: verification.poswTiming?.status,
+  });
+
+  const analysisBundle = {
+    ...(proof.filename ? { filename: proof.filename } : {}),
+    ...buildAnalysisBundle({
+      integrityValid: verification.valid,
+      processSummary: summarizeProcess(proof.proof.events),
+      analysis,
+      assurance,
+    }),
+  };
+
+  return {
+    analysisBundle,
+    ...(options.includeRedactedEvents ? { redactedEvents: await createRedactedEvents(proof) } : {}),
+    verification,
+  };
+}
+
+/**
+ * バンドルを書き出すファイル。`<baseName>_analysis.json` (Tier A) と、あれば
+ * `<baseName>_events.redacted.json` (伏せ字の events)。
+ */
+export function redactedBundleFiles(
+  baseName: string,
+  bundle: Pick<RedactedBundle, 'analysisBundle' | 'redactedEvents'>
+): Array<{ name: string; content: string }> {
+  const files = [
+    {
+      name: `${baseName}_analysis.json`,
+      content: JSON.stringify(bundle.analysisBundle, null, 2),
+    },
+  ];
+  if (bundle.redactedEvents) {
+    files.push({
+      name: `${baseName}_events.redacted.json`,
+      content: JSON.stringify(bundle.redactedEvents, null, 2),
+    });
+  }
+  return files;
+}
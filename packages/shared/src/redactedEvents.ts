@@ -0,0 +1,308 @@
+/**
+ * 伏せ字の events (ADR-0043)。**検証できるティアではなく、未検証のメタデータ。**
+ *
+ * Tier A (content-free な派生物、ADR-0024) に添える、打った文字を伏せた events の写し。events の並び・型・
+ * 時刻・範囲・長さ・PoSW・`hash` / `previousHash` はそのまま残し、打った文字を持つフィールド
+ * (`data` / `insertedText` / `selectedText` / `description`) は長さとコミットメントに置き換える。
+ *
+ * 単独で確かめられるのは hash の列だけ (`verifyRedactedEventHashes`):
+ * 1. `hash` / `previousHash` が `initialEventChainHash` から `finalEventChainHash` まで途切れずにつながる
+ * 2. checkpoint の `hash` / `timestamp` / Merkle 根 (ADR-0040) が events の `hash` と一致する
+ * 3. 署名 cp があれば、その署名 (= サーバが見た時点で、この `hash` の列がそこまで存在した)
+ *
+ * 表示するメタデータ (型・時刻・長さ・コミットメント) はどれも確かめられない。event の `hash` は伏せた
+ * テキストを含む JSON から計算されているので、作成者は `hash` の列を残したままメタデータだけを書き換えられる。
+ * メタデータが本物かは、Tier F を持つ側が `checkRedactedEventsAgainstProof` で確かめるしかない
+ * (同じ proof から作り直して一致を見る)。成果物自身も `eventMetadata: 'unverified'` でそう名乗る。
+ *
+ * コミットメントは proof の `initialHashNonce` と最終内容から導いた鍵で SHA-256 を取る (鍵は Tier F を
+ * 持つ側にしか計算できない)。
+ *
+ * **伏せ字は秘匿でもない。** event の `hash` (と PoSW の `intermediateHash`) の入力は、伏せた値以外
+ * すべて伏せ字の events に載っており、`redacted.length` で長さも分かる。1 文字の打鍵のような短いテキストは、
+ * 候補を総当たりして `hash` と照らせば復元できる (打鍵を 1 件ずつ復元すれば内容全体も)。
+ * 伏せ字が防ぐのは「開けば読める」ことだけなので、内容を見せてよい相手にだけ渡す。
+ * 書き出す画面 (editor / verify) はその旨を確認してから書き出す。
+ */
+
+import type { CheckpointData, EventHashData, EventType, ProofData, StoredEvent } from './types.js';
+import { computeHash, deterministicStringify } from './utils/hashUtils.js';
+import { MerkleAccumulator } from './merkle.js';
+import { verifySignedCheckpoints } from './signedCheckpoints.js';
+import type { CheckpointPublicKey } from './checkpointKeys/index.js';
+import type { SignedCheckpointsVerificationResult } from './types.js';
+
+/** 伏せ字の events の schema 識別子。 */
+export const REDACTED_EVENTS_SCHEMA = 'redacted-events/1' as const;
+
+/** 伏せるフィールド。`data` は `REDACTION_KEPT_DATA_TYPES` の型に限り残す */
+export type RedactedEventField = 'data' | 'insertedText' | 'selectedText' | 'description';
+
+/**
+ * `data` に打った文字も端末情報も持たない event 型。これらの `data` は伏せずに残す
+ * (可視性・フォーカス・オンライン状態・フルスクリーン・PoSW 較正)。
+ */
+export const REDACTION_KEPT_DATA_TYPES: ReadonlySet<EventType> = new Set<EventType>([
+  'visibilityChange',
+  'focusChange',
+  'networkStatusChange',
+  'fullscreenChange',
+  'poswCalibration',
+]);
+
+export interface RedactedValue {
+  /** 文字列の長さ。文字列でない値 (object の `data`) は null */
+  length: number | null;
+  /** SHA-256(鍵 ‖ sequence ‖ field ‖ deterministicStringify(値)) */
+  commitment: string;
+}
+
+/** 打った文字を伏せた event。伏せたフィールドは null にし、`redacted` に長さとコミットメントを置く */
+export interface RedactedEvent extends Omit<StoredEvent, 'data' | 'insertedText' | 'selectedText' | 'description'> {
+  /** `REDACTION_KEPT_DATA_TYPES` の型だけが値を持つ */
+  data: EventHashData['data'];
+  insertedText: null;
+  selectedText: null;
+  description: null;
+  /** 値があったフィールドだけ */
+  redacted: Partial<Record<RedactedEventField, RedactedValue>>;
+}
+
+export interface RedactedEventsArtifact {
+  schema: typeof REDACTED_EVENTS_SCHEMA;
+  /** events のメタデータ (型・時刻・長さ・コミットメント) は hash に束縛されず、受け取った側は検証できない */
+  eventMetadata: 'unverified';
+  /** 派生元 proof の `version` */
+  proofVersion: string;
+  initialEventChainHash: string | null;
+  finalEventChainHash: string;
+  events: RedactedEvent[];
+  /** proof の checkpoint (署名 envelope ごと)。`contentHash` はその event の `data` の hash */
+  checkpoints: CheckpointData[];
+}
+
+/** `verifyRedactedEventHashes` の結果。hash の列についてだけ述べ、events のメタデータは検証しない */
+export interface RedactedEventHashesVerificationResult {
+  /** hash のつながり・checkpoint・(あれば) 署名がすべて合格 */
+  valid: boolean;
+  /** 署名 cp の検証が通り、`hash` の列がサーバにアンカーされている */
+  anchored: boolean;
+  reason?: string;
+  errorAt?: number;
+  eventCount: number;
+  /** 署名 cp の検証結果。署名 cp が無ければ省略 */
+  signedCheckpoints?: SignedCheckpointsVerificationResult;
+}
+
+export interface VerifyRedactedEventHashesOptions {
+  /** 公開鍵レジストリ (テスト/CLI から注入) */
+  registry?: readonly CheckpointPublicKey[];
+  /** RFC 3161 のタイムスタンプトークン (ADR-0049) を検証する TSA のルート証明書 (PEM) */
+  tsaRootCertificates?: readonly string[];
+}
+
+/** `createRedactedEvents` の入力 (Tier F の proof のうち使う部分) */
+export interface RedactableProof {
+  version: string;
+  content: string;
+  typingProofData: Pick<ProofData, 'initialHashNonce' | 'initialEventChainHash' | 'finalEventChainHash'>;
+  fingerprint: { hash: string };
+  proof: { events: StoredEvent[] };
+  checkpoints: CheckpointData[];
+}
+
+const REDACTED_FIELDS: readonly RedactedEventField[] = ['data', 'insertedText', 'selectedText', 'description'];
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * コミットメントの鍵。Tier F にしか無い値 (root の nonce・fingerprint hash・最終内容) から導く。
+ */
+async function redactionKey(proof: RedactableProof): Promise<string> {
+  return computeHash(
+    [REDACTED_EVENTS_SCHEMA, proof.typingProofData.initialHashNonce ?? '', proof.fingerprint.hash, proof.content].join(
+      '\n'
+    )
+  );
+}
+
+async function commit(
+  key: string,
+  sequence: number,
+  field: RedactedEventField,
+  value: unknown
+): Promise<RedactedValue> {
+  return {
+    length: typeof value === 'string' ? value.length : null,
+    commitment: await computeHash(`${key}:${sequence}:${field}:${deterministicStringify(value)}`),
+  };
+}
+
+/**
+ * proof (Tier F) から伏せ字の events を作る (純粋・決定的)。proof の検証はしない
+ * (呼び出し側が `verifyProofFile` で済ませておく)。
+ */
+export async function createRedactedEvents(proof: RedactableProof): Promise<RedactedEventsArtifact> {
+  const key = await redactionKey(proof);
+  const events: RedactedEvent[] = [];
+  for (const event of proof.proof.events) {
+    const keepData = REDACTION_KEPT_DATA_TYPES.has(event.type);
+    const redacted: RedactedEvent['redacted'] = {};
+    for (const field of REDACTED_FIELDS) {
+      const value = event[field];
+      if (value === null || value === undefined || (field === 'data' && keepData)) continue;
+      redacted[field] = await commit(key, event.sequence, field, value);
+    }
+    events.push({
+      ...event,
+      data: keepData ? event.data : null,
+      insertedText: null,
+      selectedText: null,
+      description: null,
+      redacted,
+    });
+  }
+
+  return {
+    schema: REDACTED_EVENTS_SCHEMA,
+    eventMetadata: 'unverified',
+    proofVersion: proof.version,
+    initialEventChainHash: proof.typingProofData.initialEventChainHash ?? null,
+    finalEventChainHash: proof.typingProofData.finalEventChainHash,
+    events,
+    checkpoints: proof.checkpoints,
+  };
+}
+
+function isRedactedValue(value: unknown): value is RedactedValue {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Partial<RedactedValue>;
+  return (
+    typeof v.commitment === 'string' &&
+    HASH_PATTERN.test(v.commitment) &&
+    (v.length === null || (Number.isSafeInteger(v.length) && v.length! >= 0))
+  );
+}
+
+/**
+ * 伏せ字の events の hash の列を単独で検証する。入力は untrusted (JSON から読んだまま) でよい。
+ *
+ * 通っても、events のメタデータ (型・時刻・長さ・コミットメント) が本物だとは言えない (hash に束縛されない)。
+ * 署名 cp が無ければ hash の列も「自己整合している」だけ (`anchored: false`)。列ごと作り直せるので、
+ * 存在の主張はサーバ署名があるときだけ成り立つ。署名 cp があって検証できないときは `valid: false`。
+ */
+export async function verifyRedactedEventHashes(
+  artifact: unknown,
+  options: VerifyRedactedEventHashesOptions = {}
+): Promise<RedactedEventHashesVerificationResult> {
+  const fail = (reason: string, errorAt?: number, eventCount = 0): RedactedEventHashesVerificationResult => ({
+    valid: false,
+    anchored: false,
+    reason,
+    errorAt,
+    eventCount,
+  });
+
+  if (!artifact || typeof artifact !== 'object') return fail('Redacted events must be an object');
+  const a = artifact as Partial<RedactedEventsArtifact>;
+  if (a.schema !== REDACTED_EVENTS_SCHEMA) return fail(`Unsupported redacted events schema: ${String(a.schema)}`);
+  if (!Array.isArray(a.events)) return fail('Redacted events are missing');
+  const events = a.events;
+  const n = events.length;
+  if (a.initialEventChainHash !== null && typeof a.initialEventChainHash !== 'string') {
+    return fail('initialEventChainHash is missing', undefined, n);
+  }
+  if (typeof a.finalEventChainHash !== 'string') return fail('finalEventChainHash is missing', undefined, n);
+
+  // 1. 構造と hash chain のつながり
+  let previousHash: string | null = a.initialEventChainHash;
+  for (let i = 0; i < n; i++) {
+    const event = events[i];
+    if (!event || typeof event !== 'object') return fail(`Redacted event ${i} is not an object`, i, n);
+    if (event.sequence !== i) return fail(`Sequence mismatch at event ${i}`, i, n);
+    if (typeof event.hash !== 'string' || !HASH_PATTERN.test(event.hash)) {
+      return fail(`Malformed hash at event ${i}`, i, n);
+    }
+    if (i === 0 ? previousHash !== null && event.previousHash !== previousHash : event.previousHash !== previousHash) {
+      return fail(`Previous hash mismatch at event ${i}`, i, n);
+    }
+    if (event.insertedText !== null || event.selectedText !== null || event.description !== null) {
+      return fail(`Unredacted text field at event ${i}`, i, n);
+    }
+    if (event.data !== null && !REDACTION_KEPT_DATA_TYPES.has(event.type)) {
+      return fail(`Unredacted data at event ${i}`, i, n);
+    }
+    const redacted = event.redacted;
+    if (!redacted || typeof redacted !== 'object' || !Object.values(redacted).every(isRedactedValue)) {
+      return fail(`Malformed redaction at event ${i}`, i, n);
+    }
+    previousHash = event.hash;
+  }
+  if (n > 0 && previousHash !== a.finalEventChainHash) {
+    return fail('Final event hash does not match finalEventChainHash', n - 1, n);
+  }
+
+  // 2. checkpoint: hash・timestamp・Merkle 根 (events の hash だけで再計算できる)
+  const checkpoints = Array.isArray(a.checkpoints) ? a.checkpoints : [];
+  const accumulator = new MerkleAccumulator();
+  let lastIndex = -1;
+  for (const checkpoint of checkpoints) {
+    const index = checkpoint?.eventIndex;
+    if (!Number.isInteger(index) || index <= lastIndex || index >= n) {
+      return fail(`Checkpoint index is invalid or unsorted at event ${String(index)}`, undefined, n);
+    }
+    const event = events[index]!;
+    if (checkpoint.hash !== event.hash) return fail(`Checkpoint hash mismatch at event ${index}`, index, n);
+    if (checkpoint.timestamp !== event.timestamp) {
+      return fail(`Checkpoint timestamp mismatch at event ${index}`, index, n);
+    }
+    if (checkpoint.merkleRoot !== undefined) {
+      while (accumulator.size <= index) await accumulator.append(events[accumulator.size]!.hash);
+      if ((await accumulator.root()) !== checkpoint.merkleRoot) {
+        return fail(`Checkpoint Merkle root mismatch at event ${index}`, index, n);
+      }
+    }
+    lastIndex = index;
+  }
+
+  // 3. 署名 cp
+  if (!checkpoints.some((cp) => cp.signature)) {
+    return { valid: true, anchored: false, eventCount: n };
+  }
+  const signedCheckpoints = await verifySignedCheckpoints(events, checkpoints, a.initialEventChainHash, {
+    registry: options.registry,
+    tsaRootCertificates: options.tsaRootCertificates,
+  });
+  if (!signedCheckpoints.valid) {
+    return {
+      ...fail(signedCheckpoints.reason ?? 'Signed checkpoint verification failed', signedCheckpoints.errorAt, n),
+      signedCheckpoints,
+    };
+  }
+  return { valid: true, anchored: signedCheckpoints.anchored, eventCount: n, signedCheckpoints };
+}
+
+/**
+ * 伏せ字の events が proof (Tier F) から作られたものと一致するかを確かめる。proof 本体の検証は
+ * 呼び出し側が `verifyProofFile` で行う。伏せ字の events のメタデータを確かめられるのはこれだけで、
+ * 一致すれば、伏せた events の型・時刻・長さ・コミットメントは検証済みの chain と同じものを述べている。
+ */
+export async function checkRedactedEventsAgainstProof(
+  artifact: RedactedEventsArtifact,
+  proof: RedactableProof
+): Promise<{ valid: boolean; reason?: string; errorAt?: number }> {
+  const expected = await createRedactedEvents(proof);
+  const { events: expectedEvents, ...expectedHeader } = expected;
+  const { events, ...header } = artifact;
+  if (deterministicStringify(header) !== deterministicStringify(expectedHeader)) {
+    return { valid: false, reason: 'Redacted events header does not match the proof' };
+  }
+  if (!Array.isArray(events) || events.length !== expectedEvents.length) {
+    return { valid: false, reason: 'Redacted event count does not match the proof' };
+  }
+  for (let i = 0; i < events.length; i++) {
+    if (deterministicStringify(events[i]) !== deterministicStringify(expectedEvents[i])) {
+      return { valid: false, reason: `Redacted event ${i} does not match the proof`, errorAt: i };
+    }
+  }
+  return { valid: true };
+}
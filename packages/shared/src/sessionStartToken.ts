@@ -6,6 +6,7 @@
  * - validateSessionStartInput: untrusted な POST body の検証 (Workers 入力バリデーション)
  * - verifySessionStartToken: registry-only でトークン署名を検証 (C1 = ADR の registry-only 信頼)
  * - computeAnchoredChainRoot: root = SHA256(fp ‖ localNonce ‖ serverNonce) の単一ソース
+ * - hashSessionStartTokenPayload: payload の決定的ハッシュ (透明性ログ ADR-0046 の葉)
  *
  * 署名鍵は checkpoint と同一系統 (CHECKPOINT_PUBLIC_KEYS / workers getSigningKey) を流用する。
  * 信頼アンカーは常に registry: 未登録 keyId は拒否し、攻撃者の自己署名トークンを valid にしない
@@ -120,6 +121,14 @@ export async function createSessionStartToken(
   };
 }
 
+/**
+ * セッション開始トークン payload の決定的ハッシュ。透明性ログ (ADR-0046) の葉に使う
+ * (署名 cp の `hashSignedCheckpointPayload` と同じ規約)。
+ */
+export async function hashSessionStartTokenPayload(payload: SessionStartTokenPayload): Promise<string> {
+  return computeHash(deterministicStringify(payload));
+}
+
 /**
  * untrusted な session/start POST body を検証する (Workers 入力バリデーション)。
  * turnstileToken は別途 verifyTurnstile で検証するため、ここでは sessionId / fingerprintHash を見る。
@@ -5,13 +5,16 @@
  * - hashSignedCheckpointPayload: payload の決定的ハッシュ (previousSignedCheckpointHash 連鎖の計算用)
  * - verifyCheckpointSignature: ECDSA-P256 署名の検証
  * - resolveCheckpointPublicKey: envelope の keyId と同梱鍵から CryptoKey を解決
- * - verifySignedCheckpoints: チェーン全体の検証 (連鎖整合性 + 個別署名 + post-hoc 疑い指標)
+ * - verifySignedCheckpoints: チェーン全体の検証 (連鎖整合性 + 個別署名 + post-hoc 疑い指標)。
+ *   RFC 3161 のタイムスタンプトークン (ADR-0049) のアンカーも同じ枠で検証する
+ * - verifyProofSignedCheckpoints: proof 単位のラッパ。opt-in で透明性ログへの含有も見る (ADR-0046)
  *
  * 注: ここでは PoSW や hash chain の再計算は行わない。それらは verifyChain 等が担当する。
  *     ここは「envelope 自体の整合性」と「event との指し示し関係」のみを扱う。
  */
 
 import type {
+  CheckpointSignature,
   SignedCheckpointEnvelope,
   SignedCheckpointPayload,
   SignedCheckpointVerificationDetail,
@@ -24,7 +27,16 @@ import type {
 import type { CheckpointData, ExportedProof, StoredEvent } from './types/proof.js';
 import { POSW_ITERATIONS, SIGNED_CHECKPOINT_FORMAT_VERSION } from './version.js';
 import { computeHash, deterministicStringify } from './utils/hashUtils.js';
-import { CHECKPOINT_PUBLIC_KEYS, findCheckpointPublicKey, type CheckpointPublicKey } from './checkpointKeys/index.js';
+import {
+  CHECKPOINT_PUBLIC_KEYS,
+  TSA_ROOT_CERTIFICATES,
+  findCheckpointPublicKey,
+  type CheckpointPublicKey,
+} from './checkpointKeys/index.js';
+import type { TransparencyLogEntry, TransparencyLogEvidence } from './types/transparencyLog.js';
+import { hashSessionStartTokenPayload } from './sessionStartToken.js';
+import { verifyTransparencyLogEvidence } from './transparencyLog.js';
+import { isTimestampTokenEnvelope, parseTimestampToken, verifyTimestampToken } from './timestampToken.js';
 
 const POST_HOC_RATIO_THRESHOLD = 0.1;
 const POST_HOC_MIN_SERVER_SPAN_MS = 60 * 1000;
@@ -62,6 +74,8 @@ export interface SignedCheckpointInput {
   initialEventChainHash: string;
   chainHash: string;
   contentHash: string;
+  /** events[0..eventIndex] の Merkle 根 (ADR-0040)。旧 editor は送らない */
+  merkleRoot?: string;
   previousSignedCheckpointHash: string | null;
   totalEventsSincePrevious: number;
   clientTimestamp: string;
@@ -117,6 +131,8 @@ export async function createSignedCheckpointEnvelope(
     serverTimestamp: serverContext.serverTimestamp,
     firstSeenAt: serverContext.firstSeenAt,
   };
+  // 旧 editor の要求 (merkleRoot 無し) は導入前と同じ payload のまま署名する
+  if (input.merkleRoot !== undefined) payload.merkleRoot = input.merkleRoot;
 
   const signingInput = new TextEncoder().encode(deterministicStringify(payload));
   const sigBuffer = await crypto.subtle.sign(
@@ -168,6 +184,9 @@ export function validateSignedCheckpointInput(
       return { ok: false, reason: `${k} must be a 64-char lowercase hex SHA-256` };
     }
   }
+  if (obj.merkleRoot !== undefined && (typeof obj.merkleRoot !== 'string' || !SHA256_HEX.test(obj.merkleRoot))) {
+    return { ok: false, reason: 'merkleRoot must be omitted or a 64-char lowercase hex SHA-256' };
+  }
 
   const intFields = ['checkpointIndex', 'eventIndex', 'totalEventsSincePrevious'] as const;
   for (const k of intFields) {
@@ -191,21 +210,20 @@ export function validateSignedCheckpointInput(
   ) {
     return { ok: false, reason: 'clientTimestamp must be a valid ISO date' };
   }
-  return {
-    ok: true,
-    input: {
-      sessionId: obj.sessionId as string,
-      tabId: obj.tabId as string,
-      checkpointIndex: obj.checkpointIndex as number,
-      eventIndex: obj.eventIndex as number,
-      initialEventChainHash: obj.initialEventChainHash as string,
-      chainHash: obj.chainHash as string,
-      contentHash: obj.contentHash as string,
-      previousSignedCheckpointHash: obj.previousSignedCheckpointHash as string | null,
-      totalEventsSincePrevious: obj.totalEventsSincePrevious as number,
-      clientTimestamp: obj.clientTimestamp as string,
-    },
+  const input: SignedCheckpointInput = {
+    sessionId: obj.sessionId as string,
+    tabId: obj.tabId as string,
+    checkpointIndex: obj.checkpointIndex as number,
+    eventIndex: obj.eventIndex as number,
+    initialEventChainHash: obj.initialEventChainHash as string,
+    chainHash: obj.chainHash as string,
+    contentHash: obj.contentHash as string,
+    previousSignedCheckpointHash: obj.previousSignedCheckpointHash as string | null,
+    totalEventsSincePrevious: obj.totalEventsSincePrevious as number,
+    clientTimestamp: obj.clientTimestamp as string,
   };
+  if (obj.merkleRoot !== undefined) input.merkleRoot = obj.merkleRoot as string;
+  return { ok: true, input };
 }
 
 /**
@@ -223,7 +241,7 @@ export async function hashSignedCheckpointPayload(payload: SignedCheckpointPaylo
  * を救済する。
  *
  * 連鎖整合に関与するフィールド (sessionId, tabId, checkpointIndex, eventIndex,
- * initialEventChainHash, chainHash, contentHash, previousSignedCheckpointHash,
+ * initialEventChainHash, chainHash, contentHash, merkleRoot, previousSignedCheckpointHash,
  * totalEventsSincePrevious) を比較する。`clientTimestamp` は意図的に除外
  * している: ページリロード後のセッション復元で同じ checkpoint が異なる
  * clientTimestamp で再エンキューされ得るが、連鎖検証性には影響しないため、
@@ -238,6 +256,7 @@ export function isIdempotentSigningRetry(input: SignedCheckpointInput, cached: S
     input.initialEventChainHash === cached.initialEventChainHash &&
     input.chainHash === cached.chainHash &&
     input.contentHash === cached.contentHash &&
+    input.merkleRoot === cached.merkleRoot &&
     input.previousSignedCheckpointHash === cached.previousSignedCheckpointHash &&
     input.totalEventsSincePrevious === cached.totalEventsSincePrevious
   );
@@ -343,6 +362,55 @@ export async function verifyCheckpointSignature(
   return { valid, registryEntry: resolved.registryEntry };
 }
 
+/**
+ * registry の鍵が署名 cp の serverTimestamp の時点で有効だったか。
+ * 失効済みでも revokedAt より前の署名は warning 付きで受け入れる (時刻で信頼を判断する)。
+ * 単独の envelope を検証する区間開示 (ADR-0040) と `verifySignedCheckpoints` が共有する。
+ */
+export function checkCheckpointKeyValidity(
+  entry: CheckpointPublicKey,
+  serverTs: number,
+  eventIndex: number
+):
+  | { ok: true; warning?: SignedCheckpointVerificationDetail['warning'] }
+  | { ok: false; reason: string; message: string } {
+  const validFromTs = Date.parse(entry.validFrom);
+  if (Number.isFinite(validFromTs) && serverTs < validFromTs) {
+    return {
+      ok: false,
+      reason: `key ${entry.keyId} not yet valid at serverTimestamp`,
+      message: `Signed checkpoint key ${entry.keyId} validFrom is after serverTimestamp at event ${eventIndex}`,
+    };
+  }
+  if (entry.validUntil && Date.parse(entry.validUntil) < serverTs) {
+    return {
+      ok: false,
+      reason: `key ${entry.keyId} expired before serverTimestamp`,
+      message: `Signed checkpoint key ${entry.keyId} validUntil is before serverTimestamp at event ${eventIndex}`,
+    };
+  }
+  if (entry.revokedAt) {
+    const revokedTs = Date.parse(entry.revokedAt);
+    if (Number.isFinite(revokedTs) && serverTs >= revokedTs) {
+      return {
+        ok: false,
+        reason: `key ${entry.keyId} revoked before serverTimestamp`,
+        message: `Signed checkpoint key ${entry.keyId} was revoked at or before serverTimestamp at event ${eventIndex}`,
+      };
+    }
+    return { ok: true, warning: 'key-revoked-but-trusted-by-time' };
+  }
+  if (entry.status === 'revoked') {
+    // revokedAt が無いまま status='revoked' は安全側で拒否
+    return {
+      ok: false,
+      reason: `key ${entry.keyId} revoked without revokedAt`,
+      message: `Signed checkpoint key ${entry.keyId} status is 'revoked' but revokedAt is missing`,
+    };
+  }
+  return { ok: true };
+}
+
 interface VerifySignedCheckpointsOptions {
   registry?: readonly CheckpointPublicKey[];
   /**
@@ -352,6 +420,24 @@ interface VerifySignedCheckpointsOptions {
    * (ADR-0004「未アンカーは valid のまま」を維持する)。
    */
   requireAnchorDensity?: boolean;
+  /**
+   * 透明性ログの証拠 (ADR-0046)。渡すと `verifyProofSignedCheckpoints` が、proof の署名 cp と
+   * セッション開始トークンがすべてログに載っていることを確かめ、載っていなければ valid=false にする。
+   * 未指定なら見ない (ログの証拠は proof の外にあり、検証器がアンカー API から取ってくる)。
+   */
+  transparencyLog?: TransparencyLogEvidence;
+  /**
+   * RFC 3161 のタイムスタンプトークン (ADR-0049) を検証するルート証明書 (PEM)。
+   * 既定は組み込みの `TSA_ROOT_CERTIFICATES` (空)。ルートが無いとトークンのアンカーは invalid になる。
+   */
+  tsaRootCertificates?: readonly string[];
+}
+
+/** envelope が自前の ECDSA 署名 cp (ADR-0002) か (RFC 3161 トークンと `algorithm` で見分ける) */
+export function isSignedCheckpointEnvelope(
+  signature: CheckpointSignature | null | undefined
+): signature is SignedCheckpointEnvelope {
+  return signature?.algorithm === 'ECDSA-P256';
 }
 
 /**
@@ -362,20 +448,27 @@ interface VerifySignedCheckpointsOptions {
  * - checkpoints: ExportedProof.checkpoints (一部だけ signature を持っていても良い)
  * - initialEventChainHash: proof の root (各 envelope の initialEventChainHash と照合)
  *
+ * RFC 3161 のタイムスタンプトークン (ADR-0049) は ECDSA の連鎖 (checkpointIndex /
+ * previousSignedCheckpointHash / sessionId / firstSeenAt) には加わらない。トークンの cp には
+ * eventIndex が全アンカーを通して増えること、event hash と checkpoint hash が一致すること、
+ * トークンが checkpoint hash に押されルート証明書まで辿れること、genTime が TSA アンカーの間で
+ * 戻らないことを要求する。coverage / density / temporal は両方のアンカーを合わせて計量する。
+ *
  * 戻り値:
  * - valid: 一つでも signature が存在し、全 signed checkpoint が合格すれば true
  * - anchored: 少なくとも一つの signed checkpoint が存在すれば true
  * - details / coverage / temporal: UI 表示用の補助情報
  */
 export async function verifySignedCheckpoints(
-  events: StoredEvent[],
+  events: readonly Pick<StoredEvent, 'hash'>[],
   checkpoints: CheckpointData[] | undefined,
   initialEventChainHash: string | null | undefined,
   options: VerifySignedCheckpointsOptions = {}
 ): Promise<SignedCheckpointsVerificationResult> {
   const registry = options.registry ?? CHECKPOINT_PUBLIC_KEYS;
+  const tsaRootCertificates = options.tsaRootCertificates ?? TSA_ROOT_CERTIFICATES;
   const signedCheckpoints = (checkpoints ?? []).filter(
-    (cp): cp is CheckpointData & { signature: SignedCheckpointEnvelope } => !!cp.signature
+    (cp): cp is CheckpointData & { signature: CheckpointSignature } => !!cp.signature
   );
 
   const baseResult: SignedCheckpointsVerificationResult = {
@@ -399,6 +492,8 @@ export async function verifySignedCheckpoints(
   let previousCheckpointIndex = -Infinity;
   let previousEventIndex = -Infinity;
   let previousServerTimestamp = -Infinity;
+  let timestampTokenCount = 0;
+  let previousGenTime = -Infinity;
   let sessionId: string | null = null;
   let firstSeenAt: string | null = null;
   let firstClientTs: number | null = null;
@@ -426,6 +521,76 @@ export async function verifySignedCheckpoints(
   };
 
   for (const checkpoint of signedCheckpoints) {
+    if (isTimestampTokenEnvelope(checkpoint.signature)) {
+      // ADR-0049: TSA のトークンは ECDSA の連鎖に加わらない。event との指し示しとトークン自体を見る。
+      const token = checkpoint.signature;
+      const eventIndex = checkpoint.eventIndex;
+      const detailBase: SignedCheckpointVerificationDetail = {
+        checkpointIndex: timestampTokenCount,
+        eventIndex,
+        valid: false,
+      };
+      if (!Number.isInteger(eventIndex) || eventIndex <= previousEventIndex) {
+        return fail(
+          { ...detailBase, reason: 'eventIndex not strictly increasing' },
+          `Timestamped checkpoint eventIndex not strictly increasing at event ${eventIndex}`,
+          eventIndex
+        );
+      }
+      const event = events[eventIndex];
+      if (!event) {
+        return fail(
+          { ...detailBase, reason: 'eventIndex out of bounds' },
+          `Timestamped checkpoint points to missing event ${eventIndex}`,
+          eventIndex
+        );
+      }
+      if (event.hash !== checkpoint.hash) {
+        return fail(
+          { ...detailBase, reason: 'checkpoint hash mismatch with event' },
+          `Timestamped checkpoint hash does not match event hash at ${eventIndex}`,
+          eventIndex
+        );
+      }
+      const clientTs = Date.parse(token.clientTimestamp);
+      if (!Number.isFinite(clientTs)) {
+        return fail(
+          { ...detailBase, reason: 'invalid clientTimestamp' },
+          `Timestamped checkpoint clientTimestamp is not a valid ISO date at event ${eventIndex}`,
+          eventIndex
+        );
+      }
+      const tokenResult = await verifyTimestampToken(token, checkpoint.hash, tsaRootCertificates);
+      if (!tokenResult.valid || !tokenResult.info) {
+        const reason = tokenResult.reason ?? 'timestamp token invalid';
+        return fail({ ...detailBase, reason }, `${reason} at event ${eventIndex}`, eventIndex);
+      }
+      // genTime は秒精度の TSA が多く、短い間隔の cp で同じ値になり得るので「戻らない」だけを要求する
+      const genTime = Date.parse(tokenResult.info.genTime);
+      if (genTime < previousGenTime) {
+        return fail(
+          { ...detailBase, reason: 'genTime goes backwards' },
+          `Timestamp token genTime goes backwards at event ${eventIndex}`,
+          eventIndex
+        );
+      }
+
+      if (firstClientTs === null) firstClientTs = clientTs;
+      lastClientTs = clientTs;
+      if (firstServerTs === null) firstServerTs = genTime;
+      lastServerTs = genTime;
+
+      details.push({
+        ...detailBase,
+        valid: true,
+        timestampToken: { genTime: tokenResult.info.genTime, tsaName: tokenResult.tsaName ?? null },
+      });
+      timestampTokenCount++;
+      previousEventIndex = eventIndex;
+      previousGenTime = genTime;
+      continue;
+    }
+
     const envelope = checkpoint.signature;
     const payload = envelope.payload;
     const detailBase: SignedCheckpointVerificationDetail = {
@@ -555,6 +720,15 @@ export async function verifySignedCheckpoints(
         payload.eventIndex
       );
     }
+    // ADR-0040: 署名された Merkle 根は CheckpointData.merkleRoot と一致必須。events との照合は
+    // verifyCheckpoints が CheckpointData.merkleRoot に対して行う (contentHash と同じ分担)。
+    if (payload.merkleRoot !== undefined && checkpoint.merkleRoot !== payload.merkleRoot) {
+      return fail(
+        { ...detailBase, reason: 'merkleRoot mismatch with enclosing checkpoint' },
+        `Signed checkpoint merkleRoot disagrees with its enclosing CheckpointData.merkleRoot at event ${payload.eventIndex}`,
+        payload.eventIndex
+      );
+    }
 
     const sigResult = await verifyCheckpointSignature(envelope, registry);
     if (!sigResult.valid) {
@@ -568,39 +742,11 @@ export async function verifySignedCheckpoints(
     const detail: SignedCheckpointVerificationDetail = { ...detailBase, valid: true };
     const entry = sigResult.registryEntry;
     if (entry) {
-      const validFromTs = Date.parse(entry.validFrom);
-      if (Number.isFinite(validFromTs) && serverTs < validFromTs) {
-        return fail(
-          { ...detailBase, reason: `key ${entry.keyId} not yet valid at serverTimestamp` },
-          `Signed checkpoint key ${entry.keyId} validFrom is after serverTimestamp at event ${payload.eventIndex}`,
-          payload.eventIndex
-        );
-      }
-      if (entry.validUntil && Date.parse(entry.validUntil) < serverTs) {
-        return fail(
-          { ...detailBase, reason: `key ${entry.keyId} expired before serverTimestamp` },
-          `Signed checkpoint key ${entry.keyId} validUntil is before serverTimestamp at event ${payload.eventIndex}`,
-          payload.eventIndex
-        );
-      }
-      if (entry.revokedAt) {
-        const revokedTs = Date.parse(entry.revokedAt);
-        if (Number.isFinite(revokedTs) && serverTs >= revokedTs) {
-          return fail(
-            { ...detailBase, reason: `key ${entry.keyId} revoked before serverTimestamp` },
-            `Signed checkpoint key ${entry.keyId} was revoked at or before serverTimestamp at event ${payload.eventIndex}`,
-            payload.eventIndex
-          );
-        }
-        detail.warning = 'key-revoked-but-trusted-by-time';
-      } else if (entry.status === 'revoked') {
-        // revokedAt が無いまま status='revoked' は安全側で拒否
-        return fail(
-          { ...detailBase, reason: `key ${entry.keyId} revoked without revokedAt` },
-          `Signed checkpoint key ${entry.keyId} status is 'revoked' but revokedAt is missing`,
-          payload.eventIndex
-        );
+      const validity = checkCheckpointKeyValidity(entry, serverTs, payload.eventIndex);
+      if (!validity.ok) {
+        return fail({ ...detailBase, reason: validity.reason }, validity.message, payload.eventIndex);
       }
+      if (validity.warning) detail.warning = validity.warning;
     }
 
     if (firstClientTs === null) firstClientTs = clientTs;
@@ -644,15 +790,31 @@ export async function verifySignedCheckpoints(
   };
 }
 
+/**
+ * アンカーが指す eventIndex とアンカー時刻 (ECDSA は serverTimestamp、RFC 3161 は genTime)。
+ * fail パスからも呼ばれるので、読めないトークンの時刻は NaN にする (呼び出し側が isFinite で弾く)。
+ */
+function anchorPoint(checkpoint: CheckpointData & { signature: CheckpointSignature }): {
+  eventIndex: number;
+  serverMs: number;
+} {
+  const signature = checkpoint.signature;
+  if (isTimestampTokenEnvelope(signature)) {
+    const info = parseTimestampToken(signature.token);
+    return { eventIndex: checkpoint.eventIndex, serverMs: info ? Date.parse(info.genTime) : NaN };
+  }
+  return { eventIndex: signature.payload.eventIndex, serverMs: Date.parse(signature.payload.serverTimestamp) };
+}
+
 function computeCoverage(
-  events: StoredEvent[],
-  signedCheckpoints: Array<CheckpointData & { signature: SignedCheckpointEnvelope }>
+  events: readonly Pick<StoredEvent, 'hash'>[],
+  signedCheckpoints: Array<CheckpointData & { signature: CheckpointSignature }>
 ): SignedCheckpointsVerificationResult['coverage'] {
   const signedCount = signedCheckpoints.length;
   if (signedCount === 0) {
     return { signedCount: 0, lastSignedEventIndex: null, coverageRatio: 0 };
   }
-  const lastSignedEventIndex = signedCheckpoints[signedCheckpoints.length - 1]!.signature.payload.eventIndex;
+  const lastSignedEventIndex = anchorPoint(signedCheckpoints[signedCheckpoints.length - 1]!).eventIndex;
   const total = events.length;
   const coverageRatio = total > 0 ? Math.min(1, (lastSignedEventIndex + 1) / total) : 0;
   return { signedCount, lastSignedEventIndex, coverageRatio };
@@ -674,18 +836,15 @@ function computeCoverage(
  * セッション (例 50 events / 数分) は時間トリガで密に打たれるため sparse にならない。
  */
 function computeDensity(
-  events: StoredEvent[],
-  signedCheckpoints: Array<CheckpointData & { signature: SignedCheckpointEnvelope }>
+  events: readonly Pick<StoredEvent, 'hash'>[],
+  signedCheckpoints: Array<CheckpointData & { signature: CheckpointSignature }>
 ): SignedCheckpointsVerificationResult['density'] {
   if (signedCheckpoints.length === 0) return null;
 
-  // 署名 cp の (eventIndex, serverTimestamp) を eventIndex 昇順で取り出す。
+  // 署名 cp の (eventIndex, serverTimestamp) を eventIndex 昇順で取り出す (RFC 3161 は genTime)。
   // 成功パスでは検証器が厳密増加を保証済みだが、fail パスからも呼ばれるため防御的にソートする。
   const anchors = signedCheckpoints
-    .map((cp) => ({
-      eventIndex: cp.signature.payload.eventIndex,
-      serverMs: Date.parse(cp.signature.payload.serverTimestamp),
-    }))
+    .map(anchorPoint)
     .filter((a) => Number.isInteger(a.eventIndex) && a.eventIndex >= 0)
     .sort((a, b) => a.eventIndex - b.eventIndex);
 
@@ -695,8 +854,10 @@ function computeDensity(
   const firstAnchorEventIndex = anchors[0]!.eventIndex;
   const firstAnchorLatencyEvents = firstAnchorEventIndex;
 
-  // firstSeenAt は全 envelope で一致する (検証器が要求)。先頭の署名 cp から読む。
-  const firstSeenRaw = signedCheckpoints[0]!.signature.payload.firstSeenAt;
+  // firstSeenAt は全 envelope で一致する (検証器が要求)。先頭の ECDSA 署名 cp から読む
+  // (RFC 3161 のトークンしか無い proof には firstSeenAt が無い)。
+  const firstSeenRaw = signedCheckpoints.map((cp) => cp.signature).find(isSignedCheckpointEnvelope)
+    ?.payload.firstSeenAt;
   const firstSeenMs = firstSeenRaw ? Date.parse(firstSeenRaw) : NaN;
   const firstAnchorServerMs = anchors[0]!.serverMs;
   const firstAnchorLatencyServerMs =
@@ -760,16 +921,42 @@ function computeTemporal(
 
 /**
  * proof から signed checkpoint を抽出して検証する高レベルラッパ。
- * 呼び出し側 (verifier worker / verify-cli) はこちらを使う。
+ * 呼び出し側 (verifier worker / verify-cli) はこちらを使う。`checkpoints` は `migrateProof` を通した
+ * proof のもの (旧 proof でも空配列)。
+ *
+ * `options.transparencyLog` があれば、署名 cp とセッション開始トークンのログ含有も見る (ADR-0046)。
+ * 署名・連鎖が合格していても、ログに載っていない envelope があれば valid=false にする
+ * (サーバがログを通さずに署名した = 鍵の漏洩かサーバの不正)。
  */
 export async function verifyProofSignedCheckpoints(
-  proof: Pick<ExportedProof, 'proof' | 'typingProofData' | 'checkpoints'>,
+  proof: Pick<ExportedProof, 'proof' | 'typingProofData' | 'sessionStartToken'> & { checkpoints: CheckpointData[] },
   options?: VerifySignedCheckpointsOptions
 ): Promise<SignedCheckpointsVerificationResult> {
-  return verifySignedCheckpoints(
+  const result = await verifySignedCheckpoints(
     proof.proof.events,
     proof.checkpoints,
     proof.typingProofData.initialEventChainHash ?? null,
     options
   );
+  if (!options?.transparencyLog) return result;
+
+  const entries: TransparencyLogEntry[] = [];
+  if (proof.sessionStartToken) {
+    entries.push({
+      kind: 'session-start-token',
+      payloadHash: await hashSessionStartTokenPayload(proof.sessionStartToken.payload),
+    });
+  }
+  for (const cp of proof.checkpoints) {
+    // RFC 3161 のトークンはこちらのサーバが発行したものではないのでログの対象外 (ADR-0049)
+    if (isSignedCheckpointEnvelope(cp.signature)) {
+      entries.push({ kind: 'signed-checkpoint', payloadHash: await hashSignedCheckpointPayload(cp.signature.payload) });
+    }
+  }
+  const transparencyLog = await verifyTransparencyLogEvidence(options.transparencyLog, entries, options.registry);
+
+  if (result.valid && !transparencyLog.valid) {
+    return { ...result, valid: false, transparencyLog, reason: transparencyLog.reason };
+  }
+  return { ...result, transparencyLog };
 }
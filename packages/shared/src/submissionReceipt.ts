@@ -0,0 +1,330 @@
+/**
+ * 提出レシート (ADR-0047) の作成・検証ロジック。
+ *
+ * 役割:
+ * - validateSubmissionReceiptInput: untrusted な POST body の検証 (Workers 入力バリデーション)
+ * - createSubmissionReceipt: Workers が受領時刻を付けて ECDSA-P256 で署名したレシートを発行
+ * - verifySubmissionReceipt: registry-only でレシート署名を検証 (C1)
+ * - verifySubmissionReceiptForProof: レシートが 1 つの proof の最終状態を載せているかの突合
+ * - parseSubmissionReceipt: ZIP 同梱の `submission-receipt.json` の形の検査
+ * - hashSubmissionReceiptPayload: payload の決定的ハッシュ (透明性ログ ADR-0046 の葉・受領番号)
+ *
+ * 署名鍵は checkpoint と同一系統 (CHECKPOINT_PUBLIC_KEYS / workers getSigningKey) を流用する。
+ */
+
+import type {
+  SubmissionReceipt,
+  SubmissionReceiptCheckResult,
+  SubmissionReceiptPayload,
+  SubmissionReceiptVerificationResult,
+} from './types/submissionReceipt.js';
+import type { CheckpointData, ExportedProof } from './types/proof.js';
+import { SUBMISSION_RECEIPT_FORMAT_VERSION } from './version.js';
+import { computeHash, deterministicStringify } from './utils/hashUtils.js';
+import { CHECKPOINT_PUBLIC_KEYS, findCheckpointPublicKey, type CheckpointPublicKey } from './checkpointKeys/index.js';
+import { isSignedCheckpointEnvelope } from './signedCheckpoints.js';
+
+/** ZIP 内でのレシートのファイル名 (ZIP のルートに置く) */
+export const SUBMISSION_RECEIPT_FILENAME = 'submission-receipt.json';
+
+/**
+ * 1 枚のレシートに載せられるタブ数の上限。署名 API のタブ数上限 (MAX_TABS_PER_SESSION,
+ * ADR-0027) と揃える — それより多いタブは署名 cp も受けられない。
+ */
+export const MAX_SUBMISSION_RECEIPT_TABS = 64;
+
+/** SHA-256 を hex 文字列で表したときの正規表現 (64 桁の小文字 hex) */
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+/** sessionId / tabId の許容最大長 (署名 cp と同じ) */
+const MAX_ID_LENGTH = 200;
+
+/**
+ * レシート発行時にクライアントが提供する入力 (untrusted)。`serverTime` はサーバ側で確定する。
+ */
+export interface SubmissionReceiptInput {
+  sessionId: string;
+  tabIds: string[];
+  finalChainHashes: string[];
+  finalContentHashes: string[];
+}
+
+export interface SubmissionReceiptSigner {
+  keyId: string;
+  privateKey: CryptoKey;
+}
+
+export interface VerifySubmissionReceiptForProofOptions {
+  /** 公開鍵レジストリ (テスト/CLI から注入)。未指定なら本番 registry */
+  registry?: readonly CheckpointPublicKey[];
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    out += bytes[i]!.toString(16).padStart(2, '0');
+  }
+  return out;
+}
+
+function hexToUint8Array(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) {
+    throw new Error('Invalid hex string length');
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+/** 文字列配列か (要素の検査は呼び出し側) */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * untrusted なレシート要求の body を検証する (Workers 入力バリデーション)。
+ * sessionStartToken は呼び出し側 (workers) が別途 verifySessionStartToken で検証する。
+ */
+export function validateSubmissionReceiptInput(
+  raw: unknown
+): { ok: true; input: SubmissionReceiptInput } | { ok: false; reason: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, reason: 'Input must be an object' };
+  }
+  const obj = raw as Record<string, unknown>;
+
+  const sessionId = obj.sessionId;
+  if (typeof sessionId !== 'string' || sessionId.length === 0) {
+    return { ok: false, reason: 'Missing or invalid sessionId' };
+  }
+  if (sessionId.length > MAX_ID_LENGTH) {
+    return { ok: false, reason: `sessionId exceeds max length (${MAX_ID_LENGTH})` };
+  }
+
+  const { tabIds, finalChainHashes, finalContentHashes } = obj;
+  if (!isStringArray(tabIds) || !isStringArray(finalChainHashes) || !isStringArray(finalContentHashes)) {
+    return { ok: false, reason: 'tabIds, finalChainHashes and finalContentHashes must be string arrays' };
+  }
+  if (tabIds.length === 0 || tabIds.length > MAX_SUBMISSION_RECEIPT_TABS) {
+    return { ok: false, reason: `tabIds must have 1 to ${MAX_SUBMISSION_RECEIPT_TABS} entries` };
+  }
+  if (finalChainHashes.length !== tabIds.length || finalContentHashes.length !== tabIds.length) {
+    return { ok: false, reason: 'tabIds, finalChainHashes and finalContentHashes must have the same length' };
+  }
+  if (tabIds.some((id) => id.length === 0 || id.length > MAX_ID_LENGTH)) {
+    return { ok: false, reason: `tabIds must be non-empty strings of at most ${MAX_ID_LENGTH} chars` };
+  }
+  if (new Set(tabIds).size !== tabIds.length) {
+    return { ok: false, reason: 'tabIds must not contain duplicates' };
+  }
+  if (!finalChainHashes.every((h) => SHA256_HEX.test(h)) || !finalContentHashes.every((h) => SHA256_HEX.test(h))) {
+    return { ok: false, reason: 'final hashes must be 64-char lowercase hex SHA-256' };
+  }
+
+  return { ok: true, input: { sessionId, tabIds, finalChainHashes, finalContentHashes } };
+}
+
+/**
+ * 提出レシートを作成 (canonical form で署名)。Workers の submission/receipt エンドポイントから呼ぶ。
+ */
+export async function createSubmissionReceipt(
+  input: SubmissionReceiptInput,
+  serverTime: string,
+  signer: SubmissionReceiptSigner
+): Promise<SubmissionReceipt> {
+  const payload: SubmissionReceiptPayload = {
+    version: SUBMISSION_RECEIPT_FORMAT_VERSION,
+    sessionId: input.sessionId,
+    tabIds: [...input.tabIds],
+    finalChainHashes: [...input.finalChainHashes],
+    finalContentHashes: [...input.finalContentHashes],
+    serverTime,
+  };
+
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  const sigBuffer = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signer.privateKey,
+    signingInput as unknown as ArrayBuffer
+  );
+
+  return {
+    payload,
+    signature: bytesToHex(new Uint8Array(sigBuffer)),
+    keyId: signer.keyId,
+    algorithm: 'ECDSA-P256',
+  };
+}
+
+/**
+ * 提出レシート payload の決定的ハッシュ。透明性ログ (ADR-0046) の葉と、学生に見せる受領番号に使う。
+ */
+export async function hashSubmissionReceiptPayload(payload: SubmissionReceiptPayload): Promise<string> {
+  return computeHash(deterministicStringify(payload));
+}
+
+/**
+ * ZIP 同梱のレシート (untrusted) の形の検査。署名は見ない (verifySubmissionReceipt が見る)。
+ * 形が合わなければ null。
+ */
+export function parseSubmissionReceipt(raw: unknown): SubmissionReceipt | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const receipt = raw as Record<string, unknown>;
+  if (typeof receipt.signature !== 'string' || typeof receipt.keyId !== 'string') return null;
+  if (typeof receipt.algorithm !== 'string') return null;
+  const payload = receipt.payload as Record<string, unknown> | null | undefined;
+  if (!payload || typeof payload !== 'object') return null;
+  if (typeof payload.sessionId !== 'string' || typeof payload.serverTime !== 'string') return null;
+  if (
+    !isStringArray(payload.tabIds) ||
+    !isStringArray(payload.finalChainHashes) ||
+    !isStringArray(payload.finalContentHashes)
+  ) {
+    return null;
+  }
+  return raw as SubmissionReceipt;
+}
+
+/**
+ * 提出レシートの ECDSA-P256 署名を検証する。**信頼アンカーは registry のみ** (C1)。
+ * 鍵の有効期間 / 失効は `serverTime` を anchor に判定する (署名 cp と同じ規約)。
+ */
+export async function verifySubmissionReceipt(
+  receipt: SubmissionReceipt,
+  registry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<SubmissionReceiptVerificationResult> {
+  const { payload } = receipt;
+  if (!payload || payload.version !== SUBMISSION_RECEIPT_FORMAT_VERSION) {
+    return { valid: false, reason: `Unsupported submission receipt version: ${payload?.version}` };
+  }
+  const count = payload.tabIds.length;
+  if (count === 0 || payload.finalChainHashes.length !== count || payload.finalContentHashes.length !== count) {
+    return { valid: false, reason: 'Malformed submission receipt payload' };
+  }
+  if (receipt.algorithm !== 'ECDSA-P256') {
+    return { valid: false, reason: `Unsupported algorithm: ${receipt.algorithm}` };
+  }
+
+  const entry = findCheckpointPublicKey(receipt.keyId, registry) ?? null;
+  if (!entry) {
+    return { valid: false, reason: `Unknown keyId: ${receipt.keyId}` };
+  }
+
+  const ts = Date.parse(payload.serverTime);
+  if (!Number.isFinite(ts)) {
+    return { valid: false, reason: 'Submission receipt serverTime is not a valid ISO date', keyId: entry.keyId };
+  }
+  const validFromTs = Date.parse(entry.validFrom);
+  if (Number.isFinite(validFromTs) && ts < validFromTs) {
+    return { valid: false, reason: `key ${entry.keyId} validFrom is after serverTime`, keyId: entry.keyId };
+  }
+  if (entry.validUntil && Date.parse(entry.validUntil) < ts) {
+    return { valid: false, reason: `key ${entry.keyId} validUntil is before serverTime`, keyId: entry.keyId };
+  }
+  if (entry.revokedAt) {
+    const revokedTs = Date.parse(entry.revokedAt);
+    if (Number.isFinite(revokedTs) && ts >= revokedTs) {
+      return { valid: false, reason: `key ${entry.keyId} was revoked at or before serverTime`, keyId: entry.keyId };
+    }
+  } else if (entry.status === 'revoked') {
+    return {
+      valid: false,
+      reason: `key ${entry.keyId} status is 'revoked' but revokedAt is missing`,
+      keyId: entry.keyId,
+    };
+  }
+
+  let cryptoKey: CryptoKey;
+  try {
+    cryptoKey = await crypto.subtle.importKey(
+      'jwk',
+      entry.publicKeyJwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+  } catch {
+    return { valid: false, reason: 'Failed to import registry public key', keyId: entry.keyId };
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = hexToUint8Array(receipt.signature);
+  } catch {
+    return { valid: false, reason: 'Malformed signature hex', keyId: entry.keyId };
+  }
+
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      cryptoKey,
+      signatureBytes as unknown as ArrayBuffer,
+      signingInput as unknown as ArrayBuffer
+    );
+  } catch {
+    return { valid: false, reason: 'Signature verification error', keyId: entry.keyId };
+  }
+
+  if (!valid) {
+    return { valid: false, reason: 'Submission receipt signature is invalid', keyId: entry.keyId };
+  }
+  return { valid: true, keyId: entry.keyId };
+}
+
+/**
+ * 提出レシートが 1 つの proof の最終状態を載せているかを突合する。
+ *
+ * - 署名が有効 (verifySubmissionReceipt)
+ * - proof のセッション (sessionStartToken / 署名 cp の sessionId) が分かれば、レシートの sessionId と一致
+ * - レシートのどれかのタブの最終 chain hash が proof の `finalEventChainHash` と一致し、同じ index の
+ *   最終内容 hash も `finalContentHash` と一致 (chain hash だけ合って内容が違うのは別物)
+ * - proof の署名 cp に tabId があれば、そのタブの tabId と一致
+ *
+ * 最終 hash が chain と合っているかは verifyProofFile の finalHash 検証が見る。ここはレシートとの突合だけ。
+ * proof は `migrateProof` を通したもの (`checkpoints` は常に配列)。
+ */
+export async function verifySubmissionReceiptForProof(
+  receipt: SubmissionReceipt,
+  proof: Pick<ExportedProof, 'typingProofData' | 'sessionStartToken'> & { checkpoints: CheckpointData[] },
+  options: VerifySubmissionReceiptForProofOptions = {}
+): Promise<SubmissionReceiptCheckResult> {
+  let signature: SubmissionReceiptVerificationResult;
+  try {
+    signature = await verifySubmissionReceipt(receipt, options.registry);
+  } catch {
+    signature = { valid: false, reason: 'Malformed submission receipt' };
+  }
+  if (!signature.valid) {
+    return { valid: false, reason: signature.reason, keyId: signature.keyId };
+  }
+
+  const { payload } = receipt;
+  const base = {
+    keyId: signature.keyId,
+    serverTime: payload.serverTime,
+    receiptHash: await hashSubmissionReceiptPayload(payload),
+  };
+
+  const signedPayload = proof.checkpoints.map((cp) => cp.signature).find(isSignedCheckpointEnvelope)?.payload;
+  const proofSessionId = proof.sessionStartToken?.payload.sessionId ?? signedPayload?.sessionId;
+  if (proofSessionId !== undefined && proofSessionId !== payload.sessionId) {
+    return { ...base, valid: false, reason: 'Submission receipt sessionId does not match the proof session' };
+  }
+
+  const proofData = proof.typingProofData;
+  const index = payload.finalChainHashes.indexOf(proofData?.finalEventChainHash);
+  if (index < 0) {
+    return { ...base, valid: false, reason: 'Submission receipt does not cover this proof' };
+  }
+  const tabId = payload.tabIds[index];
+  if (payload.finalContentHashes[index] !== proofData.finalContentHash) {
+    return { ...base, tabId, valid: false, reason: 'Submission receipt final content hash does not match the proof' };
+  }
+  if (signedPayload && signedPayload.tabId !== tabId) {
+    return { ...base, tabId, valid: false, reason: 'Submission receipt tabId does not match signed checkpoints' };
+  }
+  return { ...base, tabId, valid: true };
+}
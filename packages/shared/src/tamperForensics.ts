@@ -0,0 +1,450 @@
+/**
+ * 検証に落ちた proof が「何を」書き換えられたかの推定 (改ざんのフォレンジクス)。
+ *
+ * 検証 (`verifyProofStream`) は最初の不正で止まり、`errorAt` とメッセージしか返さない。ここでは
+ * 検証に落ちた後で proof 全体を見直し、書き換えの種類と位置を推定する。使う証拠:
+ *
+ * - 各 event の自己 hash (`previousHash` + フィールド) と、前の event との連結 (`previousHash`)
+ * - sequence の飛び・重なり (挿入・削除は sequence を振り直さないと残る)
+ * - checkpoint の hash / contentHash / Merkle 根と、署名 cp の payload
+ * - contentSnapshot と replay 文書の食い違い (作り直した区間の後ろの snapshot は合わなくなる)
+ * - PoSW の `intermediateHash` (書き換えた event の PoSW は、計算し直さない限り合わない)
+ *
+ * 分類はあくまで推定 (advisory)。検証の合否には影響しない。どの分類にも当てはまらない失敗は
+ * `findings` が空になる。
+ */
+
+import type { CheckpointData, StoredEvent } from './types.js';
+import type { FullVerificationResult, ProofFile } from './verification.js';
+import { eventHashFields, verifyPoSW, verifyProofMetadata } from './verification.js';
+import { computeHash, deterministicStringify } from './utils/hashUtils.js';
+import { resolveProofHashSuite } from './hashSuite.js';
+import { MerkleAccumulator } from './merkle.js';
+import { applyReplayEventTolerant, isDivergentContentSnapshot } from './typingProof/replay.js';
+import { isSignedCheckpointEnvelope } from './signedCheckpoints.js';
+
+/** 報告の schema 識別子 (verify-cli の JSON 出力・verify の結果パネル)。 */
+export const TAMPER_FORENSICS_SCHEMA = 'tamper-forensics/1' as const;
+
+/** PoSW を再計算してよい event の既定の上限 (1 件は既定 suite で数 ms、Argon2id の suite で数十 ms) */
+export const TAMPER_FORENSICS_POSW_BUDGET = 64;
+
+/**
+ * 推定した書き換えの種類。
+ * - `event-inserted`: 元の chain に無い event が差し込まれた
+ * - `event-deleted`: event が取り除かれた (途中・先頭・末尾)
+ * - `events-reordered`: event の順序が入れ替えられた
+ * - `event-data-edited`: 記録後に event のフィールドが書き換えられた
+ * - `chain-regenerated`: chain の一部が作り直された (連結は閉じているが checkpoint などと合わない)
+ * - `final-content-swapped`: 最終内容が events の replay と違うものに差し替えられた
+ * - `checkpoints-rewritten`: checkpoint が書き換えられた (event や署名 payload と合わない)
+ * - `proof-metadata-edited`: `typingProofData` (metadata・最終 hash) が書き換えられた
+ */
+export type TamperClass =
+  | 'event-inserted'
+  | 'event-deleted'
+  | 'events-reordered'
+  | 'event-data-edited'
+  | 'chain-regenerated'
+  | 'final-content-swapped'
+  | 'checkpoints-rewritten'
+  | 'proof-metadata-edited';
+
+/** 推定の根拠 */
+export type TamperEvidence =
+  | 'event-hash'
+  | 'previous-hash-link'
+  | 'sequence'
+  | 'posw'
+  | 'checkpoint'
+  | 'signed-checkpoint'
+  | 'merkle-root'
+  | 'content-snapshot'
+  | 'final-chain-hash'
+  | 'final-content'
+  | 'typing-proof-hash'
+  | 'metadata-recount';
+
+export interface TamperFinding {
+  kind: TamperClass;
+  /**
+   * 書き換えの位置 (この proof の events の index、両端を含む)。削除は取り除かれた場所の前後の event、
+   * 作り直しは絞り込めた区間。events の外 (最終内容・metadata) は null
+   */
+  fromEvent: number | null;
+  toEvent: number | null;
+  /** 挿入・削除された events の数 (分かるときだけ) */
+  eventCount?: number;
+  evidence: TamperEvidence[];
+  /** 1 文の説明 (英語) */
+  detail: string;
+}
+
+export interface TamperForensicsReport {
+  schema: typeof TAMPER_FORENSICS_SCHEMA;
+  eventCount: number;
+  /** 推定した書き換え (位置の順。events の外のものは最後)。当てはまる分類が無ければ空 */
+  findings: TamperFinding[];
+  /** PoSW を再計算した event の数 */
+  poswChecked: number;
+}
+
+export interface TamperForensicsOptions {
+  /** PoSW を再計算してよい event の上限 (既定 `TAMPER_FORENSICS_POSW_BUDGET`)。0 で PoSW を見ない */
+  poswBudget?: number;
+}
+
+/**
+ * 検証結果が改ざんの分析に回すべき失敗か。hash chain・metadata・署名 cp のどれかが落ちたとき
+ * (root アンカー必須などのゲートだけで落ちた proof は対象外)。verify-cli と verify で同じ判定を使う。
+ */
+export function shouldAnalyzeTampering(
+  result: Pick<FullVerificationResult, 'metadataValid' | 'chainValid' | 'signedCheckpoints'>
+): boolean {
+  const signed = result.signedCheckpoints;
+  return !result.metadataValid || !result.chainValid || (!!signed && signed.anchored && !signed.valid);
+}
+
+function isEventLike(event: unknown): event is StoredEvent {
+  return typeof event === 'object' && event !== null && typeof (event as StoredEvent).hash === 'string';
+}
+
+async function selfHashMatches(event: StoredEvent): Promise<boolean> {
+  const eventString = deterministicStringify({ ...eventHashFields(event), posw: event.posw });
+  return (await computeHash(`${event.previousHash}${eventString}`)) === event.hash;
+}
+
+function firstDifference(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+/**
+ * 検証に落ちた proof の書き換えを推定する (検証はしない。proof は変更しない)。
+ */
+export async function analyzeTampering(
+  proof: ProofFile,
+  options: TamperForensicsOptions = {}
+): Promise<TamperForensicsReport> {
+  const raw: unknown[] = Array.isArray(proof.proof?.events) ? proof.proof.events : [];
+  const events = raw.filter(isEventLike);
+  const n = events.length;
+  const findings: TamperFinding[] = [];
+
+  const suite = resolveProofHashSuite(proof);
+  let poswBudget = options.poswBudget ?? TAMPER_FORENSICS_POSW_BUDGET;
+  let poswChecked = 0;
+  /** PoSW が合うか。予算切れ・未知の suite は null (分からない) */
+  const poswMatches = async (event: StoredEvent): Promise<boolean | null> => {
+    if (!suite || poswBudget <= 0 || !event.posw) return null;
+    poswBudget--;
+    poswChecked++;
+    const seed = deterministicStringify(eventHashFields(event));
+    return verifyPoSW(event.previousHash ?? '', seed, event.posw, suite.id);
+  };
+
+  const hashIndex = new Map<string, number>();
+  const selfOk: boolean[] = [];
+  for (let i = 0; i < n; i++) {
+    hashIndex.set(events[i]!.hash, i);
+    selfOk.push(await selfHashMatches(events[i]!));
+  }
+
+  // 1. event ごとの自己 hash と連結
+  const root = proof.typingProofData?.initialEventChainHash ?? events[0]?.previousHash ?? null;
+  let explainedUntil = -1;
+  for (let i = 0; i < n; i++) {
+    const event = events[i]!;
+    const previous = events[i - 1];
+    const linked = i === 0 ? event.previousHash === root : event.previousHash === previous!.hash;
+    if (i <= explainedUntil || (selfOk[i] && linked)) continue;
+
+    if (!selfOk[i]) {
+      const last = findings[findings.length - 1];
+      if (last?.kind === 'event-data-edited' && last.toEvent === i - 1) {
+        last.toEvent = i;
+        last.detail = `Events #${last.fromEvent}–#${i} no longer match their own hashes (fields changed after recording).`;
+      } else {
+        findings.push({
+          kind: 'event-data-edited',
+          fromEvent: i,
+          toEvent: i,
+          evidence: linked ? ['event-hash'] : ['event-hash', 'previous-hash-link'],
+          detail: `Event #${i} no longer matches its own hash (fields changed after recording).`,
+        });
+      }
+      continue;
+    }
+
+    if (i === 0) {
+      if (event.sequence > 0) {
+        findings.push({
+          kind: 'event-deleted',
+          fromEvent: 0,
+          toEvent: 0,
+          eventCount: event.sequence,
+          evidence: ['previous-hash-link', 'sequence'],
+          detail: `The first ${event.sequence} event(s) were removed: event #0 starts at sequence ${event.sequence} and does not chain from the initial hash.`,
+        });
+      } else {
+        findings.push({
+          kind: 'chain-regenerated',
+          fromEvent: 0,
+          toEvent: 0,
+          evidence: ['previous-hash-link'],
+          detail: 'Event #0 does not chain from the initial hash the proof commits to.',
+        });
+      }
+      continue;
+    }
+
+    const j = hashIndex.get(event.previousHash ?? '');
+    if (j !== undefined && j < i - 1) {
+      // #j の後ろに差し込まれた events。自己 hash を合わせ損ねた差し込みは上で edited として拾っているので置き換える
+      const count = i - 1 - j;
+      for (let k = findings.length - 1; k >= 0; k--) {
+        const f = findings[k]!;
+        if (f.kind === 'event-data-edited' && f.fromEvent !== null && f.fromEvent > j) findings.splice(k, 1);
+      }
+      findings.push({
+        kind: 'event-inserted',
+        fromEvent: j + 1,
+        toEvent: i - 1,
+        eventCount: count,
+        evidence:
+          events[j + 1]!.sequence !== j + 1 || event.sequence === j + 1
+            ? ['previous-hash-link', 'sequence']
+            : ['previous-hash-link'],
+        detail: `${count} event(s) at #${j + 1}${count > 1 ? `–#${i - 1}` : ''} were inserted: event #${i} still chains from #${j}.`,
+      });
+    } else if (j !== undefined && j > i) {
+      findings.push({
+        kind: 'events-reordered',
+        fromEvent: i,
+        toEvent: j,
+        evidence: ['previous-hash-link'],
+        detail: `Events #${i}–#${j} were reordered: event #${i} chains from the later event #${j}.`,
+      });
+      explainedUntil = j + 1;
+    } else {
+      const gap = event.sequence - previous!.sequence - 1;
+      if (gap > 0) {
+        findings.push({
+          kind: 'event-deleted',
+          fromEvent: i - 1,
+          toEvent: i,
+          eventCount: gap,
+          evidence: ['previous-hash-link', 'sequence'],
+          detail: `${gap} event(s) were removed between #${i - 1} and #${i} (sequence jumps from ${previous!.sequence} to ${event.sequence}).`,
+        });
+      } else if ((await poswMatches(previous!)) === false) {
+        findings.push({
+          kind: 'event-data-edited',
+          fromEvent: i - 1,
+          toEvent: i - 1,
+          evidence: ['previous-hash-link', 'posw'],
+          detail: `Event #${i - 1} was edited and rehashed without recomputing its PoSW; event #${i} still chains from the original.`,
+        });
+      } else {
+        findings.push({
+          kind: 'event-deleted',
+          fromEvent: i - 1,
+          toEvent: i,
+          evidence: ['previous-hash-link'],
+          detail: `Event #${i} chains from an event that is no longer in the proof: events were removed between #${i - 1} and #${i} (or #${i - 1} was rewritten together with its PoSW).`,
+        });
+      }
+    }
+  }
+  const eventLevel = findings.length > 0;
+  const firstEventFinding = findings.reduce((min, f) => Math.min(min, f.fromEvent ?? Infinity), Infinity);
+
+  // 2. 末尾: 最終 chain hash と申告した events の数
+  const finalHash = proof.typingProofData?.finalEventChainHash;
+  const declaredCount = proof.proof?.totalEvents;
+  let tailRegenerated = false;
+  if (n > 0 && finalHash !== undefined && finalHash !== events[n - 1]!.hash && !eventLevel) {
+    if (typeof declaredCount === 'number' && declaredCount > n) {
+      findings.push({
+        kind: 'event-deleted',
+        fromEvent: n - 1,
+        toEvent: n - 1,
+        eventCount: declaredCount - n,
+        evidence: ['final-chain-hash'],
+        detail: `${declaredCount - n} event(s) were removed from the end: the proof declares ${declaredCount} events and its final chain hash is not the last event's.`,
+      });
+    } else {
+      tailRegenerated = true;
+    }
+  }
+
+  // 3. checkpoint: 署名 payload との一致、event との一致、Merkle 根。作り直した区間を checkpoint で挟む
+  const windows: Array<{ from: number; to: number; evidence: TamperEvidence[] }> = [];
+  const checkpoints: CheckpointData[] = Array.isArray(proof.checkpoints) ? proof.checkpoints : [];
+  const merkle = new MerkleAccumulator();
+  let lastGood = -1;
+  let lastIndex = -1;
+  for (const cp of checkpoints) {
+    const idx = cp?.eventIndex;
+    const rewritten = (reason: string, evidence: TamperEvidence[]) =>
+      findings.push({
+        kind: 'checkpoints-rewritten',
+        fromEvent: Number.isInteger(idx) && idx >= 0 && idx < n ? idx : null,
+        toEvent: Number.isInteger(idx) && idx >= 0 && idx < n ? idx : null,
+        evidence,
+        detail: `The checkpoint at event ${String(idx)} ${reason}.`,
+      });
+
+    if (!Number.isInteger(idx) || idx <= lastIndex) {
+      rewritten('is out of order', ['checkpoint']);
+      continue;
+    }
+    lastIndex = idx;
+
+    const payload = isSignedCheckpointEnvelope(cp.signature) ? cp.signature.payload : undefined;
+    if (
+      payload &&
+      (payload.eventIndex !== idx ||
+        payload.chainHash !== cp.hash ||
+        payload.contentHash !== cp.contentHash ||
+        (payload.merkleRoot !== undefined && payload.merkleRoot !== cp.merkleRoot))
+    ) {
+      rewritten('no longer matches its server-signed payload', ['signed-checkpoint']);
+      continue;
+    }
+
+    const event = events[idx];
+    if (!event) {
+      if (!findings.some((f) => f.kind === 'event-deleted')) rewritten('points past the last event', ['checkpoint']);
+      continue;
+    }
+
+    if (cp.hash !== event.hash) {
+      // 連結の切れ目で説明できる (差し込み・削除で位置がずれた / 書き換えた event を rehash した) なら重ねない
+      if (idx < firstEventFinding) {
+        if (hashIndex.has(cp.hash)) {
+          rewritten(`points to event #${hashIndex.get(cp.hash)}'s hash under another index`, ['checkpoint']);
+        } else {
+          windows.push({ from: lastGood + 1, to: idx, evidence: [payload ? 'signed-checkpoint' : 'checkpoint'] });
+          lastGood = idx;
+        }
+      }
+      continue;
+    }
+
+    const contentHash = event.data
+      ? await computeHash(typeof event.data === 'string' ? event.data : JSON.stringify(event.data))
+      : '';
+    if (cp.timestamp !== event.timestamp || cp.contentHash !== contentHash) {
+      rewritten("no longer matches its event's timestamp or content", ['checkpoint']);
+      continue;
+    }
+
+    if (cp.merkleRoot !== undefined && idx < firstEventFinding) {
+      while (merkle.size <= idx) await merkle.append(events[merkle.size]!.hash);
+      if (cp.merkleRoot !== (await merkle.root())) {
+        rewritten('carries a Merkle root that does not match the events before it', ['merkle-root']);
+        continue;
+      }
+    }
+    lastGood = idx;
+  }
+  if (tailRegenerated && windows.length === 0) {
+    if (lastGood < n - 1) {
+      windows.push({ from: lastGood + 1, to: n - 1, evidence: ['final-chain-hash'] });
+    } else {
+      // 最後の event まで checkpoint と合うので、食い違うのは申告した最終 chain hash の方
+      findings.push({
+        kind: 'proof-metadata-edited',
+        fromEvent: null,
+        toEvent: null,
+        evidence: ['final-chain-hash'],
+        detail: 'The declared final chain hash was changed; the events match their checkpoints up to the last one.',
+      });
+    }
+  }
+
+  // 4. 作り直した区間を contentSnapshot と PoSW で絞り込む
+  let replay = '';
+  const consistentSnapshots: number[] = [];
+  const divergentSnapshots: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const event = events[i]!;
+    if (event.type === 'contentSnapshot') {
+      (isDivergentContentSnapshot(event, replay) ? divergentSnapshots : consistentSnapshots).push(i);
+    }
+    replay = applyReplayEventTolerant(replay, event);
+  }
+
+  for (const window of windows) {
+    let { from, to } = window;
+    const evidence = [...window.evidence];
+    const divergent = divergentSnapshots.find((s) => s >= from && s <= to);
+    if (divergent !== undefined) {
+      const before = consistentSnapshots.filter((s) => s < divergent).pop();
+      from = Math.max(from, before === undefined ? from : before + 1);
+      to = divergent;
+      evidence.push('content-snapshot');
+    }
+    for (let i = from; i <= to; i++) {
+      const matches = await poswMatches(events[i]!);
+      if (matches === null) break;
+      if (!matches) {
+        from = i;
+        to = i;
+        evidence.push('posw');
+        break;
+      }
+    }
+    findings.push({
+      kind: 'chain-regenerated',
+      fromEvent: from,
+      toEvent: to,
+      evidence,
+      detail:
+        from === to
+          ? `The chain was regenerated from event #${from} (its PoSW does not verify), after the last matching checkpoint.`
+          : `The chain was regenerated somewhere in events #${from}–#${to}: the hash chain is closed but no longer matches ${evidence.includes('final-chain-hash') ? 'the final chain hash' : 'a checkpoint'}.`,
+    });
+  }
+
+  // 5. events の外: typingProofHash・metadata・最終内容
+  const proofData = proof.typingProofData;
+  if (proofData && typeof proof.typingProofHash === 'string') {
+    if ((await computeHash(JSON.stringify(proofData))) !== proof.typingProofHash) {
+      findings.push({
+        kind: 'proof-metadata-edited',
+        fromEvent: null,
+        toEvent: null,
+        evidence: ['typing-proof-hash'],
+        detail: 'typingProofData was edited after the typing proof hash was computed.',
+      });
+    } else if (findings.length === 0 && !verifyProofMetadata(proofData, events).valid) {
+      findings.push({
+        kind: 'proof-metadata-edited',
+        fromEvent: null,
+        toEvent: null,
+        evidence: ['metadata-recount'],
+        detail: 'The declared metadata does not match a recount of the events (typing proof hash recomputed).',
+      });
+    }
+  }
+
+  if (typeof proof.content === 'string' && !findings.some((f) => f.fromEvent !== null) && replay !== proof.content) {
+    const offset = firstDifference(replay, proof.content);
+    const hashMatches = proofData ? (await computeHash(proof.content)) === proofData.finalContentHash : false;
+    findings.push({
+      kind: 'final-content-swapped',
+      fromEvent: null,
+      toEvent: null,
+      evidence: hashMatches ? ['final-content', 'typing-proof-hash'] : ['final-content'],
+      detail: hashMatches
+        ? `The final content and its hash were replaced together; it differs from the replayed events at offset ${offset}.`
+        : `The final content was replaced; it differs from the replayed events at offset ${offset} and from the committed content hash.`,
+    });
+  }
+
+  findings.sort((a, b) => (a.fromEvent ?? Infinity) - (b.fromEvent ?? Infinity));
+  return { schema: TAMPER_FORENSICS_SCHEMA, eventCount: n, findings, poswChecked };
+}
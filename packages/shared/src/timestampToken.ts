@@ -0,0 +1,733 @@
+/**
+ * RFC 3161 タイムスタンプトークン (ADR-0049)
+ *
+ * 自前の ECDSA 署名 cp (ADR-0002) の代わりに、認定 TSA が checkpoint hash に押したタイムスタンプを
+ * 時刻アンカーにする。
+ *
+ * - createTimestampRequest: checkpoint hash の TimeStampReq (DER) を作る。editor が TSA に POST する
+ * - readTimestampResponse: TimeStampResp からトークンを取り出し、要求した hash / nonce と突き合わせる
+ * - parseTimestampToken: トークンの TSTInfo を読む (署名は検証しない。表示と並べ替え用)
+ * - verifyTimestampToken: CMS 署名・署名者の証明書・ルート証明書までの連鎖・messageImprint を検証する
+ * - parseCertificatesPem / describeCertificate: ルート証明書 (PEM) の読込と表示
+ *
+ * ASN.1 は utils/der.ts の最小実装で読む。対応する署名は RSA PKCS#1 v1.5 と ECDSA (P-256/384/521)、
+ * digest は SHA-256/384/512 (ESSCertID v1 の証明書 hash だけ SHA-1)。失効 (CRL / OCSP) は見ない:
+ * verify はオフラインで動かす方針なので、証明書は genTime の時点の有効期間だけで判断する。
+ */
+
+import type { CheckpointSignature } from './types/signedCheckpoint.js';
+import type {
+  TimestampTokenEnvelope,
+  TimestampTokenInfo,
+  TimestampTokenVerificationResult,
+} from './types/timestampToken.js';
+import { TSA_ROOT_CERTIFICATES } from './checkpointKeys/index.js';
+import {
+  DER_TAG,
+  type DerElement,
+  decodeDerBitString,
+  decodeDerBoolean,
+  decodeDerOid,
+  decodeDerSmallInteger,
+  decodeDerString,
+  decodeDerTime,
+  decodeDerUnsignedInteger,
+  derContextTag,
+  encodeDerBoolean,
+  encodeDerInteger,
+  encodeDerNull,
+  encodeDerOctetString,
+  encodeDerOid,
+  encodeDerSequence,
+  expectDer,
+  readDer,
+  readDerChildren,
+} from './utils/der.js';
+
+const OID = {
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificate: '1.2.840.113549.1.9.16.2.12',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecPublicKey: '1.2.840.10045.2.1',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  subjectKeyIdentifier: '2.5.29.14',
+  authorityKeyIdentifier: '2.5.29.35',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+} as const;
+
+type DigestName = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const DIGESTS: Record<string, DigestName> = {
+  [OID.sha1]: 'SHA-1',
+  [OID.sha256]: 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+/** 署名アルゴリズム OID → 方式と digest (rsaEncryption は SignerInfo の digestAlgorithm を使う) */
+const SIGNATURE_ALGORITHMS: Record<string, { scheme: 'rsa' | 'ecdsa'; hash: DigestName | null }> = {
+  [OID.rsaEncryption]: { scheme: 'rsa', hash: null },
+  '1.2.840.113549.1.1.11': { scheme: 'rsa', hash: 'SHA-256' },
+  '1.2.840.113549.1.1.12': { scheme: 'rsa', hash: 'SHA-384' },
+  '1.2.840.113549.1.1.13': { scheme: 'rsa', hash: 'SHA-512' },
+  '1.2.840.10045.4.3.2': { scheme: 'ecdsa', hash: 'SHA-256' },
+  '1.2.840.10045.4.3.3': { scheme: 'ecdsa', hash: 'SHA-384' },
+  '1.2.840.10045.4.3.4': { scheme: 'ecdsa', hash: 'SHA-512' },
+};
+
+const CURVES: Record<string, { namedCurve: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { namedCurve: 'P-256', size: 32 },
+  '1.3.132.0.34': { namedCurve: 'P-384', size: 48 },
+  '1.3.132.0.35': { namedCurve: 'P-521', size: 66 },
+};
+
+/** トークン (base64) の上限。証明書の連鎖を同梱しても数 KB なので、濫用対策に 64 KiB で切る */
+const MAX_TIMESTAMP_TOKEN_BASE64_LENGTH = 64 * 1024;
+/** 署名者の証明書からルートまでに辿る証明書の上限 (署名者を含む) */
+const MAX_CERTIFICATE_CHAIN_LENGTH = 5;
+/** SHA-256 を hex 文字列で表したときの正規表現 (64 桁の小文字 hex) */
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+function bytesToHex(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    out += bytes[i]!.toString(16).padStart(2, '0');
+  }
+  return out;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]!);
+  return btoa(bin);
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+async function digest(name: DigestName, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(name, data as unknown as ArrayBuffer));
+}
+
+function digestName(algorithmIdentifier: DerElement): DigestName {
+  const oid = decodeDerOid(readDerChildren(algorithmIdentifier)[0]!);
+  const name = DIGESTS[oid];
+  if (!name) throw new Error(`unsupported digest algorithm ${oid}`);
+  return name;
+}
+
+/** 符号なし INTEGER の大きさを hex にする (先頭の 0 を落とす。0 は "00") */
+function magnitudeHex(bytes: Uint8Array): string {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  return bytes.length === 0 ? '00' : bytesToHex(bytes.subarray(start));
+}
+
+// ---- X.509 -------------------------------------------------------------
+
+interface Certificate {
+  raw: Uint8Array;
+  tbs: Uint8Array;
+  /** serialNumber の INTEGER の値 (sid の照合はバイト列のまま比べる) */
+  serialNumber: Uint8Array;
+  /** issuer / subject の Name (DER)。連鎖の照合はバイト列のまま比べる */
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  subjectName: string | null;
+  notBefore: number;
+  notAfter: number;
+  spki: Uint8Array;
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+  subjectKeyIdentifier: Uint8Array | null;
+  isCa: boolean;
+  pathLength: number | null;
+  /** keyUsage の keyCertSign (keyUsage が無ければ null = 制限なし) */
+  keyCertSign: boolean | null;
+  extendedKeyUsage: { critical: boolean; purposes: string[] } | null;
+  /** 解釈できない critical 拡張 (RFC 5280 §4.2: あれば証明書を使えない) */
+  unknownCriticalExtension: string | null;
+}
+
+/** Name の CN (無ければ O) を表示用に取り出す */
+function displayName(name: DerElement): string | null {
+  let organization: string | null = null;
+  for (const rdn of readDerChildren(name)) {
+    for (const attribute of readDerChildren(rdn)) {
+      const [type, value] = readDerChildren(attribute);
+      const oid = decodeDerOid(type!);
+      if (oid === OID.commonName) return decodeDerString(value!);
+      if (oid === OID.organizationName) organization = decodeDerString(value!);
+    }
+  }
+  return organization;
+}
+
+function parseCertificate(raw: Uint8Array): Certificate {
+  const [tbsElement, algorithm, signatureValue] = readDerChildren(
+    expectDer(readDer(raw), DER_TAG.SEQUENCE, 'Certificate')
+  );
+  const fields = readDerChildren(expectDer(tbsElement, DER_TAG.SEQUENCE, 'TBSCertificate'));
+  let i = fields[0]?.tag === derContextTag(0, true) ? 1 : 0; // version [0] EXPLICIT (v1 は省略)
+  const serialNumber = expectDer(fields[i++], DER_TAG.INTEGER, 'serialNumber').value;
+  const innerAlgorithm = expectDer(fields[i++], DER_TAG.SEQUENCE, 'signature AlgorithmIdentifier');
+  if (!bytesEqual(innerAlgorithm.raw, expectDer(algorithm, DER_TAG.SEQUENCE, 'signatureAlgorithm').raw)) {
+    throw new Error('certificate signature algorithms disagree');
+  }
+  const issuer = expectDer(fields[i++], DER_TAG.SEQUENCE, 'issuer');
+  const [notBefore, notAfter] = readDerChildren(expectDer(fields[i++], DER_TAG.SEQUENCE, 'validity'));
+  const subject = expectDer(fields[i++], DER_TAG.SEQUENCE, 'subject');
+  const spki = expectDer(fields[i++], DER_TAG.SEQUENCE, 'subjectPublicKeyInfo');
+
+  const cert: Certificate = {
+    raw,
+    tbs: tbsElement!.raw,
+    serialNumber,
+    issuer: issuer.raw,
+    subject: subject.raw,
+    subjectName: displayName(subject),
+    notBefore: decodeDerTime(notBefore!),
+    notAfter: decodeDerTime(notAfter!),
+    spki: spki.raw,
+    signatureAlgorithm: decodeDerOid(readDerChildren(algorithm!)[0]!),
+    signature: decodeDerBitString(signatureValue!).bytes,
+    subjectKeyIdentifier: null,
+    isCa: false,
+    pathLength: null,
+    keyCertSign: null,
+    extendedKeyUsage: null,
+    unknownCriticalExtension: null,
+  };
+
+  const extensions = fields.slice(i).find((f) => f.tag === derContextTag(3, true));
+  if (!extensions) return cert;
+  for (const extension of readDerChildren(expectDer(readDerChildren(extensions)[0], DER_TAG.SEQUENCE, 'Extensions'))) {
+    const parts = readDerChildren(extension);
+    const oid = decodeDerOid(parts[0]!);
+    const critical = parts.length === 3 ? decodeDerBoolean(parts[1]!) : false;
+    const value = readDer(expectDer(parts[parts.length - 1], DER_TAG.OCTET_STRING, 'extnValue').value);
+    if (oid === OID.basicConstraints) {
+      for (const part of readDerChildren(value)) {
+        if (part.tag === DER_TAG.BOOLEAN) cert.isCa = decodeDerBoolean(part);
+        if (part.tag === DER_TAG.INTEGER) cert.pathLength = decodeDerSmallInteger(part);
+      }
+    } else if (oid === OID.keyUsage) {
+      // keyCertSign は bit 5 (先頭バイトの 0x04)
+      cert.keyCertSign = ((decodeDerBitString(value).bytes[0] ?? 0) & 0x04) !== 0;
+    } else if (oid === OID.extKeyUsage) {
+      cert.extendedKeyUsage = { critical, purposes: readDerChildren(value).map(decodeDerOid) };
+    } else if (oid === OID.subjectKeyIdentifier) {
+      cert.subjectKeyIdentifier = expectDer(value, DER_TAG.OCTET_STRING, 'subjectKeyIdentifier').value;
+    } else if (oid !== OID.authorityKeyIdentifier && critical && cert.unknownCriticalExtension === null) {
+      cert.unknownCriticalExtension = oid;
+    }
+  }
+  return cert;
+}
+
+/** PEM (複数の証明書を連結したものも可) から証明書の DER を取り出す。 */
+export function parseCertificatesPem(pem: string): Uint8Array[] {
+  const out: Uint8Array[] = [];
+  for (const match of pem.matchAll(/-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g)) {
+    out.push(base64ToBytes(match[1]!.replace(/\s+/g, '')));
+  }
+  return out;
+}
+
+/**
+ * 証明書の subject と有効期間を読む (verify-cli がルート証明書を読み込んだときの表示用)。
+ *
+ * @throws 証明書として読めないとき
+ */
+export function describeCertificate(der: Uint8Array): { subject: string | null; notBefore: string; notAfter: string } {
+  const cert = parseCertificate(der);
+  return {
+    subject: cert.subjectName,
+    notBefore: new Date(cert.notBefore).toISOString(),
+    notAfter: new Date(cert.notAfter).toISOString(),
+  };
+}
+
+/** DER の ECDSA-Sig-Value (r, s) を WebCrypto の raw 形式 (r ‖ s、固定長) にする */
+function ecdsaSignatureToRaw(der: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size * 2);
+  const parts = readDerChildren(expectDer(readDer(der), DER_TAG.SEQUENCE, 'ECDSA-Sig-Value'));
+  parts.forEach((part, index) => {
+    const magnitude = decodeDerUnsignedInteger(part);
+    if (magnitude.length > size) throw new Error('ECDSA signature component is too long');
+    out.set(magnitude, size * (index + 1) - magnitude.length);
+  });
+  return out;
+}
+
+/**
+ * subjectPublicKeyInfo の鍵で署名を検証する。
+ * `fallbackHash` は署名アルゴリズムが rsaEncryption (digest を含まない) のときの digest。
+ */
+async function verifyWithPublicKey(
+  spki: Uint8Array,
+  signatureAlgorithm: string,
+  fallbackHash: DigestName | null,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const algorithm = SIGNATURE_ALGORITHMS[signatureAlgorithm];
+  const hash = algorithm?.hash ?? fallbackHash;
+  if (!algorithm || !hash || hash === 'SHA-1') {
+    throw new Error(`unsupported signature algorithm ${signatureAlgorithm}`);
+  }
+  const keyAlgorithm = readDerChildren(readDerChildren(readDer(spki))[0]!);
+  const keyOid = decodeDerOid(keyAlgorithm[0]!);
+  try {
+    if (algorithm.scheme === 'rsa') {
+      if (keyOid !== OID.rsaEncryption) return false;
+      const key = await crypto.subtle.importKey(
+        'spki',
+        spki as unknown as ArrayBuffer,
+        { name: 'RSASSA-PKCS1-v1_5', hash },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        key,
+        signature as unknown as ArrayBuffer,
+        data as unknown as ArrayBuffer
+      );
+    }
+    const curve = keyOid === OID.ecPublicKey && keyAlgorithm[1] ? CURVES[decodeDerOid(keyAlgorithm[1])] : undefined;
+    if (!curve) return false;
+    const key = await crypto.subtle.importKey(
+      'spki',
+      spki as unknown as ArrayBuffer,
+      { name: 'ECDSA', namedCurve: curve.namedCurve },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash },
+      key,
+      ecdsaSignatureToRaw(signature, curve.size) as unknown as ArrayBuffer,
+      data as unknown as ArrayBuffer
+    );
+  } catch {
+    // 鍵の import 失敗や署名長の不整合も「検証できない」に畳む
+    return false;
+  }
+}
+
+function validAt(cert: Certificate, at: number): boolean {
+  return cert.notBefore <= at && at <= cert.notAfter;
+}
+
+/**
+ * 署名者の証明書からルート証明書まで辿れるか。辿れなければ理由を返す。
+ *
+ * ルート証明書は信頼の起点としてそのまま信じる (CA フラグや期限は見ない)。署名者の証明書そのものを
+ * ルートとして登録した (TSA の証明書を pin した) 場合も通す。途中の証明書は CA で、keyCertSign を
+ * 禁じておらず、pathLen を守り、genTime の時点で有効でなければならない。
+ */
+async function findChainToRoot(
+  signer: Certificate,
+  bundled: readonly Certificate[],
+  roots: readonly Certificate[],
+  at: number
+): Promise<string | null> {
+  let cert = signer;
+  let intermediates = 0;
+  for (let length = 1; length <= MAX_CERTIFICATE_CHAIN_LENGTH; length++) {
+    if (roots.some((root) => bytesEqual(root.raw, cert.raw))) return null;
+    for (const root of roots) {
+      if (
+        bytesEqual(root.subject, cert.issuer) &&
+        (await verifyWithPublicKey(root.spki, cert.signatureAlgorithm, null, cert.signature, cert.tbs))
+      ) {
+        return null;
+      }
+    }
+    let issuer: Certificate | null = null;
+    for (const candidate of bundled) {
+      // 自己署名の (ルートに無い) 証明書を自分の発行者として辿り直さない
+      if (candidate === cert) continue;
+      if (
+        bytesEqual(candidate.subject, cert.issuer) &&
+        (await verifyWithPublicKey(candidate.spki, cert.signatureAlgorithm, null, cert.signature, cert.tbs))
+      ) {
+        issuer = candidate;
+        break;
+      }
+    }
+    if (!issuer) return `certificate ${cert.subjectName ?? '(unnamed)'} does not chain to a trusted TSA root`;
+    if (!issuer.isCa || issuer.keyCertSign === false) {
+      return `intermediate certificate ${issuer.subjectName ?? '(unnamed)'} is not a CA`;
+    }
+    if (issuer.pathLength !== null && intermediates > issuer.pathLength) {
+      return `intermediate certificate ${issuer.subjectName ?? '(unnamed)'} exceeds its path length constraint`;
+    }
+    if (!validAt(issuer, at)) {
+      return `intermediate certificate ${issuer.subjectName ?? '(unnamed)'} was not valid at genTime`;
+    }
+    if (issuer.unknownCriticalExtension) {
+      return `intermediate certificate has an unsupported critical extension ${issuer.unknownCriticalExtension}`;
+    }
+    intermediates++;
+    cert = issuer;
+  }
+  return `certificate chain is longer than ${MAX_CERTIFICATE_CHAIN_LENGTH}`;
+}
+
+// ---- CMS / TSTInfo -----------------------------------------------------
+
+interface DecodedTimestampToken {
+  info: TimestampTokenInfo;
+  /** messageImprint の hashAlgorithm (OID) */
+  imprintAlgorithm: string;
+  /** eContent (TSTInfo の DER)。signedAttrs の messageDigest の対象 */
+  tstInfo: Uint8Array;
+  certificates: Uint8Array[];
+  signerInfo: {
+    sid: { issuer: Uint8Array; serialNumber: Uint8Array } | { subjectKeyIdentifier: Uint8Array };
+    digestAlgorithm: DerElement;
+    signedAttrs: DerElement;
+    signatureAlgorithm: string;
+    signature: Uint8Array;
+  };
+}
+
+function decodeTstInfo(der: Uint8Array): { info: TimestampTokenInfo; imprintAlgorithm: string } {
+  const fields = readDerChildren(expectDer(readDer(der), DER_TAG.SEQUENCE, 'TSTInfo'));
+  if (decodeDerSmallInteger(fields[0]!) !== 1) throw new Error('unsupported TSTInfo version');
+  const [imprintAlgorithm, hashedMessage] = readDerChildren(expectDer(fields[2], DER_TAG.SEQUENCE, 'MessageImprint'));
+  // genTime 以降の省略可能な要素のうち INTEGER は nonce だけ (accuracy / ordering / tsa / extensions は別の tag)
+  const nonce = fields.slice(5).find((f) => f.tag === DER_TAG.INTEGER);
+  return {
+    info: {
+      genTime: new Date(decodeDerTime(expectDer(fields[4], DER_TAG.GENERALIZED_TIME, 'genTime'))).toISOString(),
+      serialNumber: bytesToHex(decodeDerUnsignedInteger(fields[3]!)),
+      policy: decodeDerOid(fields[1]!),
+      hashedMessage: bytesToHex(expectDer(hashedMessage, DER_TAG.OCTET_STRING, 'hashedMessage').value),
+      nonce: nonce ? bytesToHex(decodeDerUnsignedInteger(nonce)) : null,
+    },
+    imprintAlgorithm: decodeDerOid(readDerChildren(expectDer(imprintAlgorithm, DER_TAG.SEQUENCE, 'hashAlgorithm'))[0]!),
+  };
+}
+
+/** TimeStampToken (ContentInfo → SignedData → TSTInfo) を読む。署名は見ない。 */
+function decodeTimestampToken(bytes: Uint8Array): DecodedTimestampToken {
+  const [contentType, content] = readDerChildren(expectDer(readDer(bytes), DER_TAG.SEQUENCE, 'ContentInfo'));
+  if (decodeDerOid(contentType!) !== OID.signedData) throw new Error('token is not CMS SignedData');
+  const signedData = expectDer(
+    readDerChildren(expectDer(content, derContextTag(0, true), 'content'))[0],
+    DER_TAG.SEQUENCE,
+    'SignedData'
+  );
+  const fields = readDerChildren(signedData);
+
+  const [eContentType, eContent] = readDerChildren(expectDer(fields[2], DER_TAG.SEQUENCE, 'EncapsulatedContentInfo'));
+  if (decodeDerOid(eContentType!) !== OID.tstInfo) throw new Error('token does not encapsulate a TSTInfo');
+  const tstInfo = expectDer(
+    readDerChildren(expectDer(eContent, derContextTag(0, true), 'eContent'))[0],
+    DER_TAG.OCTET_STRING,
+    'eContent'
+  ).value;
+
+  const certificatesField = fields.find((f) => f.tag === derContextTag(0, true));
+  const certificates = certificatesField
+    ? readDerChildren(certificatesField)
+        .filter((c) => c.tag === DER_TAG.SEQUENCE)
+        .map((c) => c.raw)
+    : [];
+
+  const signerInfos = readDerChildren(expectDer(fields[fields.length - 1], DER_TAG.SET, 'SignerInfos'));
+  if (signerInfos.length !== 1) throw new Error('token must have exactly one signer');
+  const signer = readDerChildren(expectDer(signerInfos[0], DER_TAG.SEQUENCE, 'SignerInfo'));
+  const sidElement = signer[1]!;
+  let sid: DecodedTimestampToken['signerInfo']['sid'];
+  if (sidElement.tag === DER_TAG.SEQUENCE) {
+    const [issuer, serialNumber] = readDerChildren(sidElement);
+    sid = {
+      issuer: expectDer(issuer, DER_TAG.SEQUENCE, 'issuer').raw,
+      serialNumber: expectDer(serialNumber, DER_TAG.INTEGER, 'serialNumber').value,
+    };
+  } else if (sidElement.tag === derContextTag(0, false)) {
+    sid = { subjectKeyIdentifier: sidElement.value };
+  } else {
+    throw new Error('unsupported SignerIdentifier');
+  }
+  const signedAttrs = expectDer(signer[3], derContextTag(0, true), 'signedAttrs');
+  const signatureAlgorithm = expectDer(signer[4], DER_TAG.SEQUENCE, 'signatureAlgorithm');
+
+  return {
+    ...decodeTstInfo(tstInfo),
+    tstInfo,
+    certificates,
+    signerInfo: {
+      sid,
+      digestAlgorithm: expectDer(signer[2], DER_TAG.SEQUENCE, 'digestAlgorithm'),
+      signedAttrs,
+      signatureAlgorithm: decodeDerOid(readDerChildren(signatureAlgorithm)[0]!),
+      signature: expectDer(signer[5], DER_TAG.OCTET_STRING, 'signature').value,
+    },
+  };
+}
+
+/** signedAttrs を attrType → 最初の値にする (同じ attrType の重複は拒否) */
+function readSignedAttributes(signedAttrs: DerElement): Map<string, DerElement> {
+  const out = new Map<string, DerElement>();
+  for (const attribute of readDerChildren(signedAttrs)) {
+    const [type, values] = readDerChildren(expectDer(attribute, DER_TAG.SEQUENCE, 'Attribute'));
+    const oid = decodeDerOid(type!);
+    if (out.has(oid)) throw new Error(`duplicate signed attribute ${oid}`);
+    const first = readDerChildren(expectDer(values, DER_TAG.SET, 'AttributeValues'))[0];
+    if (!first) throw new Error(`empty signed attribute ${oid}`);
+    out.set(oid, first);
+  }
+  return out;
+}
+
+/**
+ * signingCertificate(V2) の最初の ESSCertID が署名者の証明書の hash と一致するか (RFC 3161 §2.4.1 / RFC 5816)。
+ * 同じ鍵で別の証明書を差し込む (証明書の置換攻撃) のを防ぐ。
+ */
+async function signingCertificateMatches(attributes: Map<string, DerElement>, signer: Certificate): Promise<boolean> {
+  const v2 = attributes.get(OID.signingCertificateV2);
+  const attribute = v2 ?? attributes.get(OID.signingCertificate);
+  if (!attribute) return false;
+  const certs = readDerChildren(expectDer(readDerChildren(attribute)[0], DER_TAG.SEQUENCE, 'ESSCertIDs'));
+  const parts = readDerChildren(expectDer(certs[0], DER_TAG.SEQUENCE, 'ESSCertID'));
+  let hash: DigestName = v2 ? 'SHA-256' : 'SHA-1';
+  let certHash = parts[0];
+  if (v2 && certHash?.tag === DER_TAG.SEQUENCE) {
+    hash = digestName(certHash);
+    certHash = parts[1];
+  }
+  return bytesEqual(await digest(hash, signer.raw), expectDer(certHash, DER_TAG.OCTET_STRING, 'certHash').value);
+}
+
+/** envelope が RFC 3161 のタイムスタンプトークンか (ECDSA envelope と `algorithm` で見分ける) */
+export function isTimestampTokenEnvelope(
+  signature: CheckpointSignature | null | undefined
+): signature is TimestampTokenEnvelope {
+  return signature?.algorithm === 'RFC3161';
+}
+
+/**
+ * checkpoint hash の TimeStampReq (DER) を作る。
+ *
+ * messageImprint は SHA-256 で、hashedMessage は checkpoint hash (SHA-256 hex) をそのまま使う
+ * (`openssl ts -query -digest <hash> -sha256` と同じ要求になる)。nonce を付け、
+ * 署名者の証明書を同梱するよう certReq を立てる。
+ *
+ * @throws hash が SHA-256 の hex でないとき
+ */
+export function createTimestampRequest(
+  hash: string,
+  /** テスト用: nonce の差し替え (既定は 8 バイトの乱数) */
+  nonce: Uint8Array = crypto.getRandomValues(new Uint8Array(8))
+): { der: Uint8Array; nonce: string } {
+  if (!SHA256_HEX.test(hash)) throw new Error('Timestamp request hash must be a SHA-256 hex string');
+  const der = encodeDerSequence(
+    encodeDerInteger(1),
+    encodeDerSequence(
+      encodeDerSequence(encodeDerOid(OID.sha256), encodeDerNull()),
+      encodeDerOctetString(hexToBytes(hash))
+    ),
+    encodeDerInteger(nonce),
+    encodeDerBoolean(true)
+  );
+  return { der, nonce: magnitudeHex(nonce) };
+}
+
+/**
+ * TSA の TimeStampResp からトークンを取り出し、要求した hash と nonce に対する応答かを確かめる。
+ * 署名と証明書の検証はしない (それは検証器が `verifyTimestampToken` で行う)。
+ */
+export function readTimestampResponse(
+  response: Uint8Array,
+  request: { hash: string; nonce: string }
+): { ok: true; token: string; info: TimestampTokenInfo } | { ok: false; reason: string } {
+  try {
+    const [statusInfo, token] = readDerChildren(expectDer(readDer(response), DER_TAG.SEQUENCE, 'TimeStampResp'));
+    const statusFields = readDerChildren(expectDer(statusInfo, DER_TAG.SEQUENCE, 'PKIStatusInfo'));
+    const status = decodeDerSmallInteger(statusFields[0]!);
+    // 0 = granted, 1 = grantedWithMods
+    if (status !== 0 && status !== 1) {
+      const text =
+        statusFields[1]?.tag === DER_TAG.SEQUENCE
+          ? readDerChildren(statusFields[1]).map(decodeDerString).join(' ')
+          : '';
+      return { ok: false, reason: `TSA rejected the request (status ${status}${text ? `: ${text}` : ''})` };
+    }
+    if (!token) return { ok: false, reason: 'TSA response has no timestamp token' };
+    const decoded = decodeTimestampToken(token.raw);
+    if (decoded.imprintAlgorithm !== OID.sha256 || decoded.info.hashedMessage !== request.hash) {
+      return { ok: false, reason: 'TSA response is for a different hash' };
+    }
+    if (decoded.info.nonce !== request.nonce) {
+      return { ok: false, reason: 'TSA response nonce does not match the request' };
+    }
+    return { ok: true, token: bytesToBase64(token.raw), info: decoded.info };
+  } catch (err) {
+    return { ok: false, reason: `Malformed TSA response: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+/** トークン (base64) の TSTInfo を読む。署名は検証しない。読めなければ null。 */
+export function parseTimestampToken(token: string): TimestampTokenInfo | null {
+  try {
+    return decodeTimestampToken(base64ToBytes(token)).info;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * RFC 3161 タイムスタンプトークンを検証する。
+ *
+ * 1. messageImprint が SHA-256 で、hashedMessage が `expectedHash` (checkpoint hash) と一致する
+ * 2. signedAttrs の contentType が TSTInfo、messageDigest が TSTInfo の digest と一致する
+ * 3. 署名者の証明書 (トークン同梱かルート) が signingCertificate(V2) と一致し、signedAttrs の署名が通る
+ * 4. 署名者の証明書は extendedKeyUsage が critical な timeStamping だけで (RFC 3161 §2.3)、
+ *    genTime の時点で有効
+ * 5. 署名者の証明書から `rootCertificates` (PEM) のどれかまで辿れる (`findChainToRoot`)
+ *
+ * ルート証明書が 1 つも無ければ invalid (信頼の起点が無いトークンはアンカーに数えない)。
+ */
+export async function verifyTimestampToken(
+  envelope: TimestampTokenEnvelope,
+  expectedHash: string,
+  rootCertificates: readonly string[] = TSA_ROOT_CERTIFICATES
+): Promise<TimestampTokenVerificationResult> {
+  if (envelope.algorithm !== 'RFC3161') {
+    return { valid: false, reason: `Unsupported timestamp token algorithm: ${String(envelope.algorithm)}` };
+  }
+  if (typeof envelope.token !== 'string' || envelope.token.length > MAX_TIMESTAMP_TOKEN_BASE64_LENGTH) {
+    return { valid: false, reason: 'Timestamp token is missing or too large' };
+  }
+  try {
+    const decoded = decodeTimestampToken(base64ToBytes(envelope.token));
+    const { info, signerInfo } = decoded;
+    if (decoded.imprintAlgorithm !== OID.sha256 || info.hashedMessage !== expectedHash) {
+      return { valid: false, reason: 'Timestamp token messageImprint does not match the checkpoint hash', info };
+    }
+
+    const attributes = readSignedAttributes(signerInfo.signedAttrs);
+    const contentType = attributes.get(OID.contentType);
+    if (!contentType || decodeDerOid(contentType) !== OID.tstInfo) {
+      return { valid: false, reason: 'Timestamp token contentType attribute is not TSTInfo', info };
+    }
+    const messageDigest = attributes.get(OID.messageDigest);
+    const tstInfoDigest = await digest(digestName(signerInfo.digestAlgorithm), decoded.tstInfo);
+    if (
+      !messageDigest ||
+      !bytesEqual(expectDer(messageDigest, DER_TAG.OCTET_STRING, 'messageDigest').value, tstInfoDigest)
+    ) {
+      return { valid: false, reason: 'Timestamp token messageDigest does not match its TSTInfo', info };
+    }
+
+    let roots: Certificate[];
+    try {
+      roots = rootCertificates.flatMap(parseCertificatesPem).map(parseCertificate);
+    } catch (err) {
+      return {
+        valid: false,
+        reason: `TSA root certificate cannot be parsed: ${err instanceof Error ? err.message : String(err)}`,
+        info,
+      };
+    }
+    if (roots.length === 0) {
+      return { valid: false, reason: 'No TSA root certificates are configured to verify the timestamp token', info };
+    }
+    const bundled = decoded.certificates.map(parseCertificate);
+    const sid = signerInfo.sid;
+    const signer = [...bundled, ...roots].find((cert) =>
+      'subjectKeyIdentifier' in sid
+        ? cert.subjectKeyIdentifier !== null && bytesEqual(cert.subjectKeyIdentifier, sid.subjectKeyIdentifier)
+        : bytesEqual(cert.issuer, sid.issuer) && bytesEqual(cert.serialNumber, sid.serialNumber)
+    );
+    if (!signer) {
+      return {
+        valid: false,
+        reason: 'Timestamp token signer certificate is not included (request it with certReq)',
+        info,
+      };
+    }
+    const tsaName = signer.subjectName;
+    if (!(await signingCertificateMatches(attributes, signer))) {
+      return { valid: false, reason: 'Timestamp token signingCertificate does not identify its signer', info, tsaName };
+    }
+
+    // 署名対象は signedAttrs を [0] IMPLICIT ではなく SET OF として符号化したもの (RFC 5652 §5.4)
+    const signedInput = signerInfo.signedAttrs.raw.slice();
+    signedInput[0] = DER_TAG.SET;
+    const signatureValid = await verifyWithPublicKey(
+      signer.spki,
+      signerInfo.signatureAlgorithm,
+      digestName(signerInfo.digestAlgorithm),
+      signerInfo.signature,
+      signedInput
+    );
+    if (!signatureValid) {
+      return { valid: false, reason: 'Timestamp token signature is invalid', info, tsaName };
+    }
+
+    const eku = signer.extendedKeyUsage;
+    if (!eku?.critical || eku.purposes.length !== 1 || eku.purposes[0] !== OID.timeStamping) {
+      return {
+        valid: false,
+        reason: 'Timestamp token signer certificate is not a TSA certificate (critical extendedKeyUsage timeStamping)',
+        info,
+        tsaName,
+      };
+    }
+    if (signer.unknownCriticalExtension) {
+      return {
+        valid: false,
+        reason: `Timestamp token signer certificate has an unsupported critical extension ${signer.unknownCriticalExtension}`,
+        info,
+        tsaName,
+      };
+    }
+    const genTime = Date.parse(info.genTime);
+    if (!validAt(signer, genTime)) {
+      return { valid: false, reason: 'Timestamp token signer certificate was not valid at genTime', info, tsaName };
+    }
+    const chainError = await findChainToRoot(signer, bundled, roots, genTime);
+    if (chainError) {
+      return { valid: false, reason: `Timestamp token ${chainError}`, info, tsaName };
+    }
+    return { valid: true, info, tsaName };
+  } catch (err) {
+    return { valid: false, reason: `Malformed timestamp token: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
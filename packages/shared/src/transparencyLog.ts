@@ -0,0 +1,262 @@
+/**
+ * 透明性ログ (ADR-0046) の葉・署名済みツリーヘッド・証明の検証。
+ *
+ * 役割:
+ * - transparencyLogLeafData: エントリ → 葉のデータ (`<kind>:<payloadHash>`)
+ * - createSignedTreeHead / verifySignedTreeHead: ツリーヘッドの ECDSA-P256 署名 (registry-only)
+ * - verifyTransparencyLogInclusion: 含有証明から根を再計算し、ツリーヘッドの根と照合する
+ * - verifyTransparencyLogConsistency: 古いツリーヘッドが新しいツリーヘッドの先頭か (追記だけで育ったか)
+ * - verifyTransparencyLogEvidence: エントリ列がすべて 1 つのツリーヘッドに載っているか
+ *
+ * ログの置き場 (アンカー API 側) は葉を持たずに部分木の根を保存するので、証明は merkle.ts の
+ * `collectMerkleRangeProof` / `collectMerkleConsistencyProof` で作る。ここは検証側だけを持つ。
+ * ツリーヘッドの署名鍵は署名 cp と同じ系統で、信頼アンカーは常に registry (C1)。
+ */
+
+import type {
+  SignedTreeHead,
+  TransparencyLogEntry,
+  TransparencyLogEvidence,
+  TransparencyLogInclusion,
+  TransparencyLogVerificationResult,
+  TreeHeadPayload,
+} from './types/transparencyLog.js';
+import { TREE_HEAD_FORMAT_VERSION } from './version.js';
+import { arrayBufferToHex, deterministicStringify } from './utils/hashUtils.js';
+import { computeMerkleRangeRoot, verifyMerkleConsistency, type MerkleConsistencyProof } from './merkle.js';
+import { CHECKPOINT_PUBLIC_KEYS, findCheckpointPublicKey, type CheckpointPublicKey } from './checkpointKeys/index.js';
+
+/** 空の木の根 (RFC 6962: 空文字列の SHA-256) */
+export const EMPTY_TREE_ROOT = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/** SHA-256 を hex 文字列で表したときの正規表現 (64 桁の小文字 hex) */
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+export interface SignedTreeHeadSigner {
+  keyId: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * エントリを葉のデータにする。種類を前置するので、同じ hash のトークンと署名 cp は別の葉になる。
+ */
+export function transparencyLogLeafData(entry: TransparencyLogEntry): string {
+  return `${entry.kind}:${entry.payloadHash}`;
+}
+
+/** untrusted なエントリ (API の body・証拠ファイル) の形の検査 */
+export function isTransparencyLogEntry(raw: unknown): raw is TransparencyLogEntry {
+  if (!raw || typeof raw !== 'object') return false;
+  const entry = raw as Record<string, unknown>;
+  return (
+    (entry.kind === 'session-start-token' ||
+      entry.kind === 'signed-checkpoint' ||
+      entry.kind === 'submission-receipt') &&
+    typeof entry.payloadHash === 'string' &&
+    SHA256_HEX.test(entry.payloadHash)
+  );
+}
+
+function hexToUint8Array(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) {
+    throw new Error('Invalid hex string length');
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+/**
+ * ツリーヘッドに署名する (canonical form で署名)。アンカー API の `/api/log/tree-head` から呼ぶ。
+ */
+export async function createSignedTreeHead(
+  head: Omit<TreeHeadPayload, 'version'>,
+  signer: SignedTreeHeadSigner
+): Promise<SignedTreeHead> {
+  const payload: TreeHeadPayload = {
+    version: TREE_HEAD_FORMAT_VERSION,
+    treeSize: head.treeSize,
+    rootHash: head.rootHash,
+    timestamp: head.timestamp,
+  };
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  const sigBuffer = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signer.privateKey,
+    signingInput as unknown as ArrayBuffer
+  );
+  return {
+    payload,
+    signature: arrayBufferToHex(sigBuffer),
+    keyId: signer.keyId,
+    algorithm: 'ECDSA-P256',
+  };
+}
+
+/**
+ * ツリーヘッドの署名を検証する。**信頼アンカーは registry のみ** (C1)。
+ * 鍵の有効期間 / 失効は `timestamp` を anchor に判定する (セッション開始トークンと同じ規約)。
+ */
+export async function verifySignedTreeHead(
+  treeHead: SignedTreeHead,
+  registry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<{ valid: boolean; reason?: string; keyId?: string }> {
+  const { payload } = treeHead;
+  if (!payload || payload.version !== TREE_HEAD_FORMAT_VERSION) {
+    return { valid: false, reason: `Unsupported tree head version: ${payload?.version}` };
+  }
+  if (!Number.isInteger(payload.treeSize) || payload.treeSize < 0 || !SHA256_HEX.test(String(payload.rootHash))) {
+    return { valid: false, reason: 'Malformed tree head payload' };
+  }
+  if (treeHead.algorithm !== 'ECDSA-P256') {
+    return { valid: false, reason: `Unsupported algorithm: ${treeHead.algorithm}` };
+  }
+
+  const entry = findCheckpointPublicKey(treeHead.keyId, registry) ?? null;
+  if (!entry) {
+    return { valid: false, reason: `Unknown keyId: ${treeHead.keyId}` };
+  }
+
+  const ts = Date.parse(payload.timestamp);
+  if (!Number.isFinite(ts)) {
+    return { valid: false, reason: 'Tree head timestamp is not a valid ISO date', keyId: entry.keyId };
+  }
+  const validFromTs = Date.parse(entry.validFrom);
+  if (Number.isFinite(validFromTs) && ts < validFromTs) {
+    return { valid: false, reason: `key ${entry.keyId} validFrom is after timestamp`, keyId: entry.keyId };
+  }
+  if (entry.validUntil && Date.parse(entry.validUntil) < ts) {
+    return { valid: false, reason: `key ${entry.keyId} validUntil is before timestamp`, keyId: entry.keyId };
+  }
+  if (entry.revokedAt) {
+    const revokedTs = Date.parse(entry.revokedAt);
+    if (Number.isFinite(revokedTs) && ts >= revokedTs) {
+      return { valid: false, reason: `key ${entry.keyId} was revoked at or before timestamp`, keyId: entry.keyId };
+    }
+  } else if (entry.status === 'revoked') {
+    return {
+      valid: false,
+      reason: `key ${entry.keyId} status is 'revoked' but revokedAt is missing`,
+      keyId: entry.keyId,
+    };
+  }
+
+  let cryptoKey: CryptoKey;
+  try {
+    cryptoKey = await crypto.subtle.importKey(
+      'jwk',
+      entry.publicKeyJwk,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+  } catch {
+    return { valid: false, reason: 'Failed to import registry public key', keyId: entry.keyId };
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = hexToUint8Array(treeHead.signature);
+  } catch {
+    return { valid: false, reason: 'Malformed signature hex', keyId: entry.keyId };
+  }
+
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      cryptoKey,
+      signatureBytes as unknown as ArrayBuffer,
+      signingInput as unknown as ArrayBuffer
+    );
+  } catch {
+    return { valid: false, reason: 'Signature verification error', keyId: entry.keyId };
+  }
+
+  if (!valid) {
+    return { valid: false, reason: 'Tree head signature is invalid', keyId: entry.keyId };
+  }
+  return { valid: true, keyId: entry.keyId };
+}
+
+/**
+ * 含有証明から根を再計算し、ツリーヘッドの根と一致するか。署名の検証は呼び出し側
+ * (`verifySignedTreeHead`) で済ませておくこと。
+ */
+export async function verifyTransparencyLogInclusion(
+  inclusion: TransparencyLogInclusion,
+  head: Pick<TreeHeadPayload, 'treeSize' | 'rootHash'>
+): Promise<boolean> {
+  const root = await computeMerkleRangeRoot(
+    { treeSize: head.treeSize, first: inclusion.leafIndex, last: inclusion.leafIndex, siblings: inclusion.siblings },
+    [transparencyLogLeafData(inclusion.entry)]
+  );
+  return root !== null && root === head.rootHash;
+}
+
+/**
+ * 古いツリーヘッドが新しいツリーヘッドの先頭 (追記だけで育った) か。ログが過去の葉を
+ * 書き換えたり、見る人によって別の木を見せたりしていないかを、2 つのヘッドの間で確かめる。
+ */
+export async function verifyTransparencyLogConsistency(
+  proof: MerkleConsistencyProof,
+  oldHead: Pick<TreeHeadPayload, 'treeSize' | 'rootHash'>,
+  newHead: Pick<TreeHeadPayload, 'treeSize' | 'rootHash'>
+): Promise<boolean> {
+  if (proof.oldSize !== oldHead.treeSize || proof.newSize !== newHead.treeSize) return false;
+  // 空の木はどの木の先頭でもある。
+  if (oldHead.treeSize === 0) return oldHead.rootHash === EMPTY_TREE_ROOT && proof.hashes.length === 0;
+  return verifyMerkleConsistency(proof, oldHead.rootHash, newHead.rootHash);
+}
+
+/**
+ * `entries` がすべて証拠のツリーヘッドに載っているか。ツリーヘッドの署名を registry で検証し、
+ * 各エントリについて同じエントリの含有証明を探して根と照合する。載っていないエントリは
+ * `missing` に並べる (サーバがログを通さずに署名した = 後から見つかる不正)。
+ */
+export async function verifyTransparencyLogEvidence(
+  evidence: TransparencyLogEvidence,
+  entries: readonly TransparencyLogEntry[],
+  registry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<TransparencyLogVerificationResult> {
+  const signature = await verifySignedTreeHead(evidence.treeHead, registry);
+  if (!signature.valid) {
+    return {
+      valid: false,
+      reason: `Transparency log tree head is invalid: ${signature.reason}`,
+      treeHead: null,
+      checkedCount: entries.length,
+      missing: [...entries],
+    };
+  }
+  const head = evidence.treeHead.payload;
+
+  const inclusions = new Map<string, TransparencyLogInclusion>();
+  for (const inclusion of Array.isArray(evidence.inclusions) ? evidence.inclusions : []) {
+    if (isTransparencyLogEntry(inclusion?.entry)) {
+      inclusions.set(transparencyLogLeafData(inclusion.entry), inclusion);
+    }
+  }
+
+  const missing: TransparencyLogEntry[] = [];
+  for (const entry of entries) {
+    const inclusion = inclusions.get(transparencyLogLeafData(entry));
+    if (!inclusion || !(await verifyTransparencyLogInclusion(inclusion, head))) {
+      missing.push(entry);
+    }
+  }
+
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      reason: `${missing.length} of ${entries.length} entries are not in the transparency log (tree size ${head.treeSize})`,
+      treeHead: head,
+      checkedCount: entries.length,
+      missing,
+    };
+  }
+  return { valid: true, treeHead: head, checkedCount: entries.length, missing };
+}
@@ -0,0 +1,57 @@
+/**
+ * 署名鍵の key set (ADR-0048) の型定義 (browser/DOM 非依存).
+ *
+ * アンカー API の署名鍵をコード変更なしでローテーションするための、署名付きの鍵一覧。
+ * 各 key set は直前の key set (最初のものは組み込み registry) の鍵で裏書きされ、
+ * 検証器は組み込み registry を起点に裏書きの連鎖をオフラインで辿って鍵を信頼する。
+ *
+ * Cloudflare Workers / Node tooling からも import されるため、他の types/* ファイルに依存しない
+ * 独立した型ファイルにしている (signedCheckpoint.ts と同方針)。
+ */
+
+import type { CheckpointPublicKey } from '../checkpointKeys/registry.js';
+
+/** 裏書きの署名対象 */
+export interface CheckpointKeySetPayload {
+  version: 1;
+  /** 連鎖の中の位置 (0 起点で 1 ずつ増える) */
+  sequence: number;
+  /** 直前の key set の `hashCheckpointKeySetPayload`。sequence 0 は null */
+  previousKeySetHash: string | null;
+  /** 発行時刻 (ISO)。裏書きした鍵がこの時刻に有効だったことを要求する */
+  issuedAt: string;
+  /**
+   * この時点の鍵一覧。前の key set の鍵は消さずに引き継ぐ (append-only)。
+   * `validFrom` を先の時刻にすると予定した有効化、`validUntil` を付けると予定した退役になる。
+   */
+  keys: CheckpointPublicKey[];
+}
+
+/** 署名アルゴリズム識別子 */
+export type CheckpointKeySetAlgorithm = 'ECDSA-P256';
+
+/** 1 つの鍵による裏書き */
+export interface CheckpointKeySetEndorsement {
+  keyId: string;
+  signature: string;
+  algorithm: CheckpointKeySetAlgorithm;
+}
+
+/** 裏書き付きの key set。連鎖は `SignedCheckpointKeySet[]` (sequence 順) で配る */
+export interface SignedCheckpointKeySet {
+  payload: CheckpointKeySetPayload;
+  /** 直前の鍵による裏書きを少なくとも 1 つ含む。新しい鍵自身の裏書き (所持の証明) を足してもよい */
+  endorsements: CheckpointKeySetEndorsement[];
+}
+
+/** 連鎖の検証結果 */
+export interface CheckpointKeySetVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** 検証した最後の key set の sequence。連鎖が空なら null */
+  sequence: number | null;
+  /** 組み込み registry に key set の鍵を重ねた registry。invalid のときは組み込み registry そのもの */
+  registry: CheckpointPublicKey[];
+  /** 組み込み registry に無く、key set で足された keyId */
+  addedKeyIds: string[];
+}
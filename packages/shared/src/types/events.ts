@@ -31,10 +31,12 @@ export type EventType =
   | 'screenShareStop' // 画面共有停止
   | 'templateInjection' // テンプレートコンテンツ注入
   | 'sessionResumed' // セッション再開（リロードまたはIndexedDBからの復旧）
+  | 'sessionContinued' // 前の proof からの継続（別セッションで同じファイルを続ける, ADR-0041）
   | 'copyOperation' // コピー操作（監査用）
   | 'screenShareOptOut' // 画面共有オプトアウト
   | 'reflectionNote' // 提出前セルフレビューの振り返りノート（ADR-0022）
   | 'environmentProbe' // 環境/自動化プローブ（起動時ワンショット, ADR-0007）
+  | 'poswCalibration' // PoSW 反復速度の較正（タブ作成時ワンショット, ADR-0042）
   | 'fullscreenChange' // フルスクリーン状態変化（試験モード, ADR-0008）
   | 'examOpened'; // 封印問題パッケージの開封（試験モード, ADR-0006。#1 として記録）
 
@@ -274,6 +276,29 @@ export interface SessionResumedData {
   recoveredFromIndexedDB?: boolean; // IndexedDBからの復旧かどうか
 }
 
+/**
+ * 前の proof からの継続データ (ADR-0041)。継続した proof の先頭付近 (内容を変える event より前) に
+ * 1 度だけ記録する。replay はここで `content` から始まる (templateInjection と同じ適用規則)。
+ * 2 つの hash は proof の `continuation` と同じ値で、root にも焼かれている。
+ */
+export interface SessionContinuedEventData {
+  previousFinalEventChainHash: string; // 前の proof の finalEventChainHash
+  previousContentHash: string; // 前の proof の最終内容の SHA-256 (= finalContentHash)
+  content: string; // 前の proof の最終内容（verify側での再構築用）
+  contentLength: number; // content の長さ
+}
+
+/**
+ * PoSW 反復速度の較正データ (ADR-0042)。タブ作成時に 1 度だけ、`POSW_ITERATIONS` 回の PoSW を
+ * `samples` 回計算し、最も速かった 1 回を記録する。検証側はここから記録端末の反復速度を出し、
+ * 申告 timestamp が PoSW の逐次計算に追いつけるかを確かめる (`poswTiming.ts`)。
+ */
+export interface PoswCalibrationEventData {
+  iterations: number; // 1 回の計測の反復回数
+  elapsedMs: number; // 最も速かった 1 回の所要時間（ミリ秒）
+  samples: number; // 計測回数
+}
+
 /** キーストロークダイナミクスデータ */
 export interface KeystrokeDynamicsData {
   key: string; // キー名（'a', 'Enter', 'Shift'など）
@@ -10,6 +10,7 @@
 
 import type { SignedCheckpointAlgorithm } from './signedCheckpoint.js';
 import type { TemplateFileDefinition } from './template.js';
+import type { HashSuiteId } from '../hashSuite.js';
 
 /** Argon2id KDF パラメータ */
 export interface ExamKdfParams {
@@ -60,6 +61,11 @@ export interface ExamPackageManifest {
   allowed: { languages: string[] };
   keyId: string;
   algorithm: SignedCheckpointAlgorithm;
+  /**
+   * 答案の PoSW の suite (ADR-0044)。省略 = 既定 suite。署名/packageHash の対象で、検証は proof の
+   * `hashSuite` との一致を要求する (memory-hard な suite を指定した試験で既定 suite の答案を弾く)
+   */
+  hashSuite?: HashSuiteId;
   /** 任意同梱の公開鍵 (long-term verifiability)。署名/packageHash の対象外 */
   publicKeyJwk?: JsonWebKey;
   /** canonical core に対する署名 (hex) */
@@ -94,6 +100,8 @@ export interface ExamSessionContext {
    * 省略/`'v1'` は単一問題 (ADR-0006) で従来どおり。
    */
   rootBinding?: string;
+  /** package が指定した PoSW の suite (ADR-0044)。省略 = 既定 suite */
+  hashSuite?: HashSuiteId;
 }
 
 // ============================================================================
@@ -20,6 +20,8 @@ export type {
   WindowSizeData,
   NetworkStatusData,
   SessionResumedData,
+  SessionContinuedEventData,
+  PoswCalibrationEventData,
   CodeExecutionEventData,
   ReflectionNoteData,
   EditorAssistDeclaration,
@@ -75,18 +77,54 @@ export type {
   SignatureData,
   TypingProofHashResult,
   CheckpointData,
+  ProofContinuation,
   ExportedProof,
   SignedCheckpointPayload,
   SignedCheckpointAlgorithm,
   SignedCheckpointEnvelope,
   SignedCheckpointVerificationDetail,
   SignedCheckpointsVerificationResult,
+  CheckpointSignature,
+  TimestampTokenAlgorithm,
+  TimestampTokenEnvelope,
+  TimestampTokenInfo,
+  TimestampTokenVerificationResult,
   SessionStartTokenPayload,
   SessionStartTokenAlgorithm,
   SessionStartToken,
   SessionStartTokenVerificationResult,
 } from './proof.js';
 
+// 透明性ログ (ADR-0046)。browser/DOM 非依存
+export type {
+  TransparencyLogEntryKind,
+  TransparencyLogEntry,
+  TreeHeadPayload,
+  SignedTreeHeadAlgorithm,
+  SignedTreeHead,
+  TransparencyLogInclusion,
+  TransparencyLogEvidence,
+  TransparencyLogVerificationResult,
+} from './transparencyLog.js';
+
+// 提出レシート (ADR-0047)。browser/DOM 非依存
+export type {
+  SubmissionReceiptPayload,
+  SubmissionReceiptAlgorithm,
+  SubmissionReceipt,
+  SubmissionReceiptVerificationResult,
+  SubmissionReceiptCheckResult,
+} from './submissionReceipt.js';
+
+// 署名鍵の key set (ADR-0048)。browser/DOM 非依存
+export type {
+  CheckpointKeySetPayload,
+  CheckpointKeySetAlgorithm,
+  CheckpointKeySetEndorsement,
+  SignedCheckpointKeySet,
+  CheckpointKeySetVerificationResult,
+} from './checkpointKeySet.js';
+
 // 試験モード関連 (ADR-0006, ADR-0012)
 export type {
   ExamKdfParams,
@@ -16,6 +16,8 @@ import type {
   WindowSizeData,
   NetworkStatusData,
   SessionResumedData,
+  SessionContinuedEventData,
+  PoswCalibrationEventData,
   EnvironmentProbeData,
   FullscreenChangeData,
   ExamOpenedEventData,
@@ -33,6 +35,7 @@ import type {
 import type { HumanAttestationEventData, TermsAcceptedData } from './attestation.js';
 import type { FingerprintComponents } from './fingerprint.js';
 import type { TemplateInjectionEventData } from './template.js';
+import type { HashSuiteId } from '../hashSuite.js';
 
 // ============================================================================
 // PoSW関連
@@ -65,6 +68,8 @@ export interface RecordEventInput {
     | WindowSizeData
     | NetworkStatusData
     | SessionResumedData
+    | SessionContinuedEventData
+    | PoswCalibrationEventData
     | HumanAttestationEventData
     | TermsAcceptedData
     | ScreenshotCaptureData
@@ -108,6 +113,8 @@ export interface EventHashData {
     | WindowSizeData
     | NetworkStatusData
     | SessionResumedData
+    | SessionContinuedEventData
+    | PoswCalibrationEventData
     | HumanAttestationEventData
     | TermsAcceptedData
     | ScreenshotCaptureData
@@ -205,8 +212,13 @@ export interface CheckpointData {
   hash: string; // その時点のハッシュ値
   timestamp: number; // その時点のタイムスタンプ
   contentHash: string; // その時点のコンテンツハッシュ（オプショナル検証用）
-  /** 署名済みチェックポイント (Workers 署名サービス由来)。任意 */
-  signature?: SignedCheckpointEnvelope;
+  /** events[0..eventIndex] の `hash` を葉にした Merkle 根 (ADR-0040)。導入前の proof には無い */
+  merkleRoot?: string;
+  /**
+   * 時刻アンカー。任意。Workers 署名サービスの ECDSA envelope か、
+   * 認定 TSA の RFC 3161 タイムスタンプトークン (ADR-0049) のどちらか
+   */
+  signature?: CheckpointSignature;
 }
 
 // ============================================================================
@@ -220,8 +232,17 @@ export type {
   SignedCheckpointEnvelope,
   SignedCheckpointVerificationDetail,
   SignedCheckpointsVerificationResult,
+  CheckpointSignature,
 } from './signedCheckpoint.js';
 
+// RFC 3161 タイムスタンプトークン (ADR-0049)。型本体は types/timestampToken.ts (browser/DOM 非依存)。
+export type {
+  TimestampTokenAlgorithm,
+  TimestampTokenEnvelope,
+  TimestampTokenInfo,
+  TimestampTokenVerificationResult,
+} from './timestampToken.js';
+
 // セッション開始トークン (ADR-0017)。型本体は types/sessionStartToken.ts (browser/DOM 非依存)。
 export type {
   SessionStartTokenPayload,
@@ -230,7 +251,18 @@ export type {
   SessionStartTokenVerificationResult,
 } from './sessionStartToken.js';
 
-import type { SignedCheckpointEnvelope } from './signedCheckpoint.js';
+import type { CheckpointSignature } from './signedCheckpoint.js';
+
+/**
+ * 前の proof からの継続 (ADR-0041)。同じファイルを別セッションで続けるとき、新しい proof の root は
+ * 前の proof の最終 chain hash と最終内容の hash にコミットする (`computeContinuationChainRoot`)。
+ */
+export interface ProofContinuation {
+  /** 前の proof の `typingProofData.finalEventChainHash` */
+  previousFinalEventChainHash: string;
+  /** 前の proof の `typingProofData.finalContentHash` (最終内容の SHA-256) */
+  previousContentHash: string;
+}
 
 /** エクスポートされる証明ファイル */
 export interface ExportedProof {
@@ -260,6 +292,16 @@ export interface ExportedProof {
    * オフライン劣化 (session/start 不達) や旧 proof では false / 省略 = 検証器が「root 未アンカー」warning。
    */
   rootAnchored?: boolean;
+  /**
+   * 前の proof からの継続 (ADR-0041)。継続したセッションの proof のみ持つ。root はこの 2 つの hash を
+   * 含めて導出され、events には同じ値を持つ `sessionContinued` が 1 件入る。exam proof は持たない。
+   */
+  continuation?: ProofContinuation;
+  /**
+   * PoSW の suite (ADR-0044)。既定 suite (`sha256-posw-v1`) の proof は持たない。検証器はこれで PoSW の
+   * アルゴリズムと反復回数を選び、未知の suite は fail-closed にする。
+   */
+  hashSuite?: HashSuiteId;
   /**
    * 生成時のモード (ADR-0011)。**自己申告ラベル**であり信頼判定の根拠にはしない
    * (採点側は実証拠 — exam なら束縛・スクショ有無等 — から保証度を導く)。後方互換のため
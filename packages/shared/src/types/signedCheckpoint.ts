@@ -2,9 +2,13 @@
  * Signed checkpoint 型定義 (browser/DOM 非依存).
  *
  * これらの型は Cloudflare Workers / Node tooling からも import されるため、
- * 他の types/* ファイルに依存しない独立した型ファイルにしている。
+ * 他の types/* ファイルに依存しない独立した型ファイルにしている
+ * (同じく DOM 非依存の transparencyLog.ts / timestampToken.ts だけは参照する)。
  */
 
+import type { TimestampTokenEnvelope } from './timestampToken.js';
+import type { TransparencyLogVerificationResult } from './transparencyLog.js';
+
 /** 署名対象の payload */
 export interface SignedCheckpointPayload {
   version: 1;
@@ -15,6 +19,12 @@ export interface SignedCheckpointPayload {
   initialEventChainHash: string;
   chainHash: string;
   contentHash: string;
+  /**
+   * events[0..eventIndex] の `hash` を葉にした Merkle 根 (ADR-0040)。区間の選択的開示で、
+   * 開示した events がこの cp の時点で存在したことをサーバ署名に結びつける。
+   * 導入前の envelope と、旧 editor から届いた要求には無い。
+   */
+  merkleRoot?: string;
   previousSignedCheckpointHash: string | null;
   totalEventsSincePrevious: number;
   poswIterations: number;
@@ -40,19 +50,28 @@ export interface SignedCheckpointEnvelope {
   publicKeyValidUntil?: string;
 }
 
+/**
+ * checkpoint の時刻アンカー。自前の ECDSA 署名 (ADR-0002) か、認定 TSA の RFC 3161 トークン (ADR-0049)。
+ * `algorithm` で見分ける (`isSignedCheckpointEnvelope` / `isTimestampTokenEnvelope`)。
+ */
+export type CheckpointSignature = SignedCheckpointEnvelope | TimestampTokenEnvelope;
+
 /** 個別 signed checkpoint の検証結果 */
 export interface SignedCheckpointVerificationDetail {
+  /** ECDSA は payload の checkpointIndex。RFC 3161 は proof の中の TSA アンカーの通し番号 (0 起点) */
   checkpointIndex: number;
   eventIndex: number;
   valid: boolean;
   warning?: 'key-revoked-but-trusted-by-time';
   reason?: string;
+  /** RFC 3161 トークン (ADR-0049) のとき、TSA が押した時刻と TSA 名 */
+  timestampToken?: { genTime: string; tsaName: string | null };
 }
 
 /** signed checkpoint 全体の検証結果 */
 export interface SignedCheckpointsVerificationResult {
   valid: boolean;
-  /** signed checkpoint が一つもなければ true (ただし anchored=false) */
+  /** signed checkpoint が一つもなければ true (ただし anchored=false)。RFC 3161 のアンカーも数える */
   anchored: boolean;
   /** 個別検証結果 */
   details: SignedCheckpointVerificationDetail[];
@@ -97,6 +116,11 @@ export interface SignedCheckpointsVerificationResult {
     /** 保守的閾値を超え anchoring が疎と判定されたか (warning シグナル / strict 時は valid=false の根拠) */
     sparse: boolean;
   } | null;
+  /**
+   * 透明性ログへの含有 (ADR-0046)。`verifyProofSignedCheckpoints` に証拠を渡したときだけ入る。
+   * valid=false のときは、ログに載っていない署名 cp / トークンがある (またはツリーヘッドが不正)。
+   */
+  transparencyLog?: TransparencyLogVerificationResult;
   /** 失敗理由 (valid=false 時) */
   reason?: string;
   errorAt?: number;
@@ -15,6 +15,8 @@ import type {
   WindowSizeData,
   NetworkStatusData,
   SessionResumedData,
+  SessionContinuedEventData,
+  PoswCalibrationEventData,
   EnvironmentProbeData,
   FullscreenChangeData,
   ExamOpenedEventData,
@@ -29,7 +31,7 @@ import type {
 } from './screenshot.js';
 import type { HumanAttestationEventData, TermsAcceptedData } from './attestation.js';
 import type { FingerprintComponents } from './fingerprint.js';
-import type { StoredEvent, ProofData, SignatureData, CheckpointData } from './proof.js';
+import type { StoredEvent, ProofData, SignatureData, CheckpointData, ProofContinuation } from './proof.js';
 import type { TemplateInjectionEventData } from './template.js';
 import type { ExamSessionContext } from './exam.js';
 import type { SessionStartToken } from './sessionStartToken.js';
@@ -46,6 +48,8 @@ export type PendingEventDataType =
   | WindowSizeData
   | NetworkStatusData
   | SessionResumedData
+  | SessionContinuedEventData
+  | PoswCalibrationEventData
   | HumanAttestationEventData
   | TermsAcceptedData
   | ScreenshotCaptureData
@@ -88,6 +92,8 @@ export interface SerializedProofState {
   examContext?: ExamSessionContext | null;
   /** セッション開始トークン (ADR-0017)。casual/class で session/start 成功時のみ。リロード復帰で保持 */
   sessionStartToken?: SessionStartToken | null;
+  /** 前の proof からの継続 (ADR-0041)。継続したセッションのみ。リロード復帰で保持 */
+  continuation?: ProofContinuation | null;
 }
 
 /** 認証状態 */
@@ -192,6 +198,8 @@ export interface StoredTabData {
   examContext?: ExamSessionContext | null;
   /** セッション開始トークン (ADR-0017)。casual/class で session/start 成功時のみ。リロード復帰で保持 */
   sessionStartToken?: SessionStartToken | null;
+  /** 前の proof からの継続 (ADR-0041)。継続したセッションのみ。リロード復帰で保持 */
+  continuation?: ProofContinuation | null;
 }
 
 /** イベントデータ（IndexedDB格納用） */
@@ -250,6 +258,8 @@ export interface LightweightProofState {
   examContext?: ExamSessionContext | null;
   /** セッション開始トークン (ADR-0017)。casual/class で session/start 成功時のみ。リロード復帰で保持 */
   sessionStartToken?: SessionStartToken | null;
+  /** 前の proof からの継続 (ADR-0041)。継続したセッションのみ。リロード復帰で保持 */
+  continuation?: ProofContinuation | null;
 }
 
 /** 軽量タブ状態（sessionStorage用） */
@@ -0,0 +1,61 @@
+/**
+ * 提出レシート (ADR-0047) の型定義 (browser/DOM 非依存).
+ *
+ * export 時にエディタが全タブの最終 hash をアンカー API に送り、サーバが受領時刻を付けて
+ * ECDSA-P256 で署名したもの。「この最終状態の proof がこの時刻には存在した」ことの
+ * セッション終端アンカーになる (最後の署名 cp より後の、提出そのものの証拠)。
+ *
+ * Cloudflare Workers / Node tooling からも import されるため、他の types/* ファイルに依存しない
+ * 独立した型ファイルにしている (signedCheckpoint.ts と同方針)。
+ */
+
+/**
+ * 署名対象の payload。`tabIds` / `finalChainHashes` / `finalContentHashes` は同じ長さで、
+ * 同じ index が同じタブを指す。
+ */
+export interface SubmissionReceiptPayload {
+  version: 1;
+  /** セッション開始トークンの sessionId (署名 cp と同じ) */
+  sessionId: string;
+  /** export したタブの id (署名 cp の tabId と同じ) */
+  tabIds: string[];
+  /** 各タブの `typingProofData.finalEventChainHash` */
+  finalChainHashes: string[];
+  /** 各タブの `typingProofData.finalContentHash` */
+  finalContentHashes: string[];
+  /** サーバ受領時刻 (ISO)。各 proof の最終状態はこの時刻までに存在した */
+  serverTime: string;
+}
+
+/** 署名アルゴリズム識別子 */
+export type SubmissionReceiptAlgorithm = 'ECDSA-P256';
+
+/** 署名 envelope (payload + 署名 + 鍵参照)。署名 cp と同じく registry-only で検証する。 */
+export interface SubmissionReceipt {
+  payload: SubmissionReceiptPayload;
+  signature: string;
+  keyId: string;
+  algorithm: SubmissionReceiptAlgorithm;
+}
+
+/** 提出レシート自体 (署名・鍵・version) の検証結果 */
+export interface SubmissionReceiptVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** 検証に用いた registry 鍵の keyId */
+  keyId?: string;
+}
+
+/** 提出レシートと 1 つの proof の突合結果 */
+export interface SubmissionReceiptCheckResult {
+  /** 署名が有効で、レシートがこの proof の最終状態を載せていれば true */
+  valid: boolean;
+  reason?: string;
+  keyId?: string;
+  /** レシートの受領時刻 (セッション終端アンカー)。署名が有効なときのみ */
+  serverTime?: string;
+  /** この proof に当たるレシート上のタブ id。載っていたときのみ */
+  tabId?: string;
+  /** payload の決定的ハッシュ (`hashSubmissionReceiptPayload`)。表示用の受領番号に使う */
+  receiptHash?: string;
+}
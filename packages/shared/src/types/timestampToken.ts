@@ -0,0 +1,51 @@
+/**
+ * RFC 3161 タイムスタンプトークン (ADR-0049) の型定義 (browser/DOM 非依存).
+ *
+ * 自前の ECDSA 署名 cp (ADR-0002) の代わりに、認定 TSA が checkpoint hash に押した
+ * タイムスタンプトークンを時刻アンカーにする。`CheckpointData.signature` には
+ * どちらか一方が入る (`CheckpointSignature`)。
+ *
+ * Cloudflare Workers / Node tooling からも import されるため、他の types/* ファイルに依存しない
+ * 独立した型ファイルにしている (signedCheckpoint.ts と同方針)。
+ */
+
+/** アルゴリズム識別子 (ECDSA envelope の `algorithm` と同じ位置で種類を見分ける) */
+export type TimestampTokenAlgorithm = 'RFC3161';
+
+/** checkpoint に付ける TSA のタイムスタンプトークン */
+export interface TimestampTokenEnvelope {
+  algorithm: TimestampTokenAlgorithm;
+  /**
+   * TimeStampToken (CMS ContentInfo / SignedData) の DER を base64 にしたもの。
+   * messageImprint は SHA-256 で、hashedMessage は checkpoint の `hash` (event chain hash) そのもの。
+   */
+  token: string;
+  /** 要求した時点の端末時刻 (ISO)。自己申告で、post-hoc 指標の client 側にだけ使う */
+  clientTimestamp: string;
+  /** 要求先の TSA (表示用。検証には使わない) */
+  tsaUrl?: string;
+}
+
+/** トークンの TSTInfo から読んだ値 (署名の検証前。表示と並べ替えに使う) */
+export interface TimestampTokenInfo {
+  /** TSA が押した時刻 (ISO) */
+  genTime: string;
+  /** TSA の付けた通し番号 (hex) */
+  serialNumber: string;
+  /** TSA のポリシー OID */
+  policy: string;
+  /** messageImprint の hashedMessage (hex) */
+  hashedMessage: string;
+  /** 要求に付けた nonce (hex。無ければ null) */
+  nonce: string | null;
+}
+
+/** `verifyTimestampToken` の結果 */
+export interface TimestampTokenVerificationResult {
+  valid: boolean;
+  reason?: string;
+  /** 検証を通ったトークンの TSTInfo */
+  info?: TimestampTokenInfo;
+  /** 署名した TSA 証明書の subject (CN、無ければ O)。表示用 */
+  tsaName?: string | null;
+}
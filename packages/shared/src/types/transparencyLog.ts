@@ -0,0 +1,72 @@
+/**
+ * 透明性ログ (ADR-0046) の型定義 (browser/DOM 非依存).
+ *
+ * アンカー API が発行したセッション開始トークンと署名 cp の payload hash を、追記専用の
+ * Merkle 木 (RFC 6962 形) に積む。サーバは木の根に署名したツリーヘッドを公開し、
+ * 含有証明・一貫性証明を返す。検証器は proof の envelope がログに載っていることを確かめられる。
+ *
+ * Cloudflare Workers / Node tooling からも import されるため、他の types/* ファイルに依存しない
+ * 独立した型ファイルにしている (signedCheckpoint.ts と同方針)。
+ */
+
+/** ログに積むものの種類 */
+export type TransparencyLogEntryKind = 'session-start-token' | 'signed-checkpoint' | 'submission-receipt';
+
+/** ログの 1 エントリ。葉のデータは `transparencyLogLeafData` で文字列にする */
+export interface TransparencyLogEntry {
+  kind: TransparencyLogEntryKind;
+  /**
+   * payload の決定的ハッシュ (`hashSessionStartTokenPayload` / `hashSignedCheckpointPayload` /
+   * `hashSubmissionReceiptPayload`)
+   */
+  payloadHash: string;
+}
+
+/** ツリーヘッドの署名対象 */
+export interface TreeHeadPayload {
+  version: 1;
+  /** 木の葉の枚数 */
+  treeSize: number;
+  /** 木の根。空の木は `EMPTY_TREE_ROOT` (SHA-256 of "") */
+  rootHash: string;
+  /** サーバ時刻 (ISO)。この時点でログが `treeSize` 枚だったことの主張 */
+  timestamp: string;
+}
+
+/** 署名アルゴリズム識別子 */
+export type SignedTreeHeadAlgorithm = 'ECDSA-P256';
+
+/** 署名済みツリーヘッド。署名 cp と同じ鍵系統で、registry-only で検証する */
+export interface SignedTreeHead {
+  payload: TreeHeadPayload;
+  signature: string;
+  keyId: string;
+  algorithm: SignedTreeHeadAlgorithm;
+}
+
+/** 1 エントリの含有証明。木の大きさは組になるツリーヘッドの `treeSize` */
+export interface TransparencyLogInclusion {
+  entry: TransparencyLogEntry;
+  leafIndex: number;
+  /** `MerkleRangeProof.siblings` と同じ並び (範囲は `[leafIndex, leafIndex]`) */
+  siblings: string[];
+}
+
+/** 検証器に渡すログの証拠 (アンカー API の `/api/log/evidence` の応答そのもの) */
+export interface TransparencyLogEvidence {
+  treeHead: SignedTreeHead;
+  inclusions: TransparencyLogInclusion[];
+}
+
+/** ログ含有の検証結果 */
+export interface TransparencyLogVerificationResult {
+  /** ツリーヘッドの署名が有効で、確かめたエントリがすべてログに載っていれば true */
+  valid: boolean;
+  reason?: string;
+  /** 署名を確かめたツリーヘッド。署名が無効なら null */
+  treeHead: TreeHeadPayload | null;
+  /** 確かめたエントリ数 */
+  checkedCount: number;
+  /** ログに載っていない (含有証明が無い・合わない) エントリ */
+  missing: TransparencyLogEntry[];
+}
@@ -6,7 +6,6 @@
 import type { StoredEvent, VerificationResult, EventHashData, CheckpointData, SampledSegmentInfo } from '../types.js';
 import type { HashChainManager } from './HashChainManager.js';
 import type { PoswManager } from './PoswManager.js';
-import { POSW_ITERATIONS } from '../version.js';
 
 interface SegmentInfo {
   startIndex: number;
@@ -29,7 +28,7 @@ interface EventVerificationResult {
 /**
  * チェーン検証オプション
  *
- * `skipPosw: true` の場合、各 event の PoSW 反復再計算 (10000 回 SHA-256) をスキップする。
+ * `skipPosw: true` の場合、各 event の PoSW 反復再計算 (suite の反復。既定は 10000 回 SHA-256) をスキップする。
  * シーケンス番号・タイムスタンプ・previousHash 連鎖・hash 再計算は通常通り行うため、
  * 改ざんは検出される。ただし PoSW intermediateHash が「正しい sequential work の結果か」は
  * 検証されない。事前申告された iterations 値の正しさだけは引き続き検査する。
@@ -121,14 +120,15 @@ export class ChainVerifier {
       previousHash: event.previousHash,
     };
 
-    // PoSW検証（決定的なJSON文字列化を使用）
-    if (event.posw.iterations !== POSW_ITERATIONS) {
+    // PoSW検証（決定的なJSON文字列化を使用）。反復回数は記録中の suite の固定値 (ADR-0044)
+    const poswIterations = this.poswManager.getPoSWIterations();
+    if (event.posw.iterations !== poswIterations) {
       return {
         valid: false,
         error: {
           valid: false,
           errorAt: index,
-          message: `PoSW iterations mismatch at event ${index}: expected ${POSW_ITERATIONS}, got ${event.posw.iterations}`,
+          message: `PoSW iterations mismatch at event ${index}: expected ${poswIterations}, got ${event.posw.iterations}`,
           event,
         },
       };
@@ -3,7 +3,7 @@
  * チェックポイントの作成と管理を担当
  */
 
-import type { CheckpointData, SignedCheckpointEnvelope, StoredEvent } from '../types.js';
+import type { CheckpointData, CheckpointSignature, StoredEvent } from '../types.js';
 import type { HashChainManager } from './HashChainManager.js';
 import { sharedDebugLog } from '../utils/debug.js';
 
@@ -61,10 +61,10 @@ export class CheckpointManager {
 
   /**
    * 既存 checkpoint (event のインデックス一致) に signature を反映。
-   * 非同期で署名が返ってきたタイミングで SignedCheckpointService から呼ばれる。
+   * 非同期で署名 (または RFC 3161 のトークン、ADR-0049) が返ってきたタイミングで SignedCheckpointService から呼ばれる。
    * 該当 checkpoint が存在しなければ silent no-op。
    */
-  updateSignature(eventIndex: number, envelope: SignedCheckpointEnvelope): boolean {
+  updateSignature(eventIndex: number, envelope: CheckpointSignature): boolean {
     const checkpoint = this.checkpoints.find((cp) => cp.eventIndex === eventIndex);
     if (!checkpoint) return false;
     checkpoint.signature = envelope;
@@ -128,12 +128,16 @@ export class CheckpointManager {
         )
       : '';
 
+    // events[0..eventIndex] の Merkle 根 (ADR-0040)。署名 payload にも載り、区間の選択的開示に使う
+    const merkleRoot = await this.hashChainManager.computeMerkleRoot(events, eventIndex);
+
     const checkpoint: CheckpointData = {
       eventIndex,
       hash: event.hash,
       timestamp: event.timestamp,
       contentHash,
     };
+    if (merkleRoot) checkpoint.merkleRoot = merkleRoot;
 
     this.checkpoints.push(checkpoint);
     this.lastCheckpointEventIndex = eventIndex;
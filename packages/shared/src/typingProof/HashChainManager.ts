@@ -1,6 +1,6 @@
 /**
  * HashChainManager - ハッシュチェーン管理
- * SHA-256計算、決定的文字列化、チェーン状態管理を担当
+ * SHA-256計算、決定的文字列化、チェーン状態管理、events の Merkle 根 (ADR-0040) を担当
  */
 
 import {
@@ -9,6 +9,8 @@ import {
   computeHash as computeHashUtil,
 } from '../utils/hashUtils.js';
 import { sharedDebugLog } from '../utils/debug.js';
+import { MerkleAccumulator } from '../merkle.js';
+import type { StoredEvent } from '../types.js';
 
 /** タイムスタンプ調整の結果 */
 interface TimestampAdjustment {
@@ -31,6 +33,11 @@ interface InitialHashResult {
 export class HashChainManager {
   private currentHash: string | null = null;
 
+  /** events の先頭から積んだ Merkle 葉 (checkpoint 作成時に追いつかせる) */
+  private merkle = new MerkleAccumulator();
+  /** Merkle 根の計算を直列化する (記録キューと export の checkpoint 作成が並走しうる) */
+  private merkleTask: Promise<unknown> = Promise.resolve();
+
   /** タイムスタンプ調整のマージン (ms) */
   private static readonly TIMESTAMP_MARGIN = 10;
 
@@ -139,6 +146,32 @@ export class HashChainManager {
     return computeHashUtil(data);
   }
 
+  /**
+   * events[0..eventIndex] の `hash` を葉にした Merkle 根 (ADR-0040)。
+   *
+   * 前回の呼び出しから増えた events だけを積むので、checkpoint ごとの計算は O(増分 + log n)。
+   * 積んだ葉が `events` の先頭部分と食い違う (reset / 復元 / 先の index まで積んだ後の export) ときは
+   * 先頭から積み直す。最後の葉の一致だけ見れば足りる (event の hash は直前までの連鎖を含むため)。
+   */
+  computeMerkleRoot(events: readonly StoredEvent[], eventIndex: number): Promise<string | null> {
+    const task = this.merkleTask.then(() => this.advanceMerkle(events, eventIndex));
+    this.merkleTask = task.catch(() => undefined);
+    return task;
+  }
+
+  private async advanceMerkle(events: readonly StoredEvent[], eventIndex: number): Promise<string | null> {
+    const size = this.merkle.size;
+    if (size > eventIndex + 1 || (size > 0 && events[size - 1]?.hash !== this.merkle.lastLeafData)) {
+      this.merkle = new MerkleAccumulator();
+    }
+    for (let i = this.merkle.size; i <= eventIndex; i++) {
+      const event = events[i];
+      if (!event) return null;
+      await this.merkle.append(event.hash);
+    }
+    return this.merkle.root();
+  }
+
   /**
    * シーケンス番号を検証し、必要に応じて修正
    * @param pendingSequence - 保存されていたシーケンス番号
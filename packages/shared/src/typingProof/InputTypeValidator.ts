@@ -31,6 +31,8 @@ const VALID_EVENT_TYPES: ReadonlySet<string> = new Set([
   'screenShareStop',
   'templateInjection',
   'sessionResumed',
+  'sessionContinued',
+  'poswCalibration',
   'copyOperation',
   'screenShareOptOut',
 ]);
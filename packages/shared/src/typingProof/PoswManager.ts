@@ -4,7 +4,7 @@
  */
 
 import type { PoSWData } from '../types.js';
-import { POSW_ITERATIONS as REQUIRED_POSW_ITERATIONS } from '../version.js';
+import { DEFAULT_HASH_SUITE, getHashSuite, type HashSuite, type HashSuiteId } from '../hashSuite.js';
 import type { HashChainManager } from './HashChainManager.js';
 
 interface PendingRequest {
@@ -13,8 +13,8 @@ interface PendingRequest {
 }
 
 export class PoswManager {
-  // PoSW設定（固定値 - セキュリティ上の理由で動的変更は不可）
-  private static readonly POSW_ITERATIONS = REQUIRED_POSW_ITERATIONS;
+  // PoSWの suite (ADR-0044)。反復回数は suite ごとの固定値 - セキュリティ上の理由で個別の変更は不可
+  private suite: HashSuite = getHashSuite(DEFAULT_HASH_SUITE)!;
 
   // ワーカーリクエストのタイムアウト（30秒）
   private static readonly WORKER_REQUEST_TIMEOUT_MS = 30000;
@@ -67,6 +67,25 @@ export class PoswManager {
     };
   }
 
+  /**
+   * PoSWの suite を切り替える (ADR-0044)。event を記録する前に呼ぶ (途中で変えると proof が検証に通らない)
+   * @throws 未登録の suite
+   */
+  setHashSuite(id: HashSuiteId): void {
+    const suite = getHashSuite(id);
+    if (!suite) {
+      throw new Error(`Unknown hash suite: ${String(id)}`);
+    }
+    this.suite = suite;
+  }
+
+  /**
+   * 現在の PoSW suite
+   */
+  getHashSuite(): HashSuiteId {
+    return this.suite.id;
+  }
+
   /**
    * Workerが初期化されているか確認
    */
@@ -132,7 +151,8 @@ export class PoswManager {
           type: 'compute-posw',
           previousHash,
           eventDataString,
-          iterations: PoswManager.POSW_ITERATIONS,
+          iterations: this.suite.poswIterations,
+          hashSuite: this.suite.id,
         });
 
         return {
@@ -155,7 +175,7 @@ export class PoswManager {
 
   /**
    * メインスレッドで PoSW を計算するフォールバック (poswWorker.handleComputePoSW と同一手順)。
-   * Worker 未初期化 (検証ページ等) / Worker 障害時に使う。10000 回反復ぶん main thread を
+   * Worker 未初期化 (検証ページ等) / Worker 障害時に使う。suite の反復ぶん main thread を
    * 専有するため通常は Worker 経路を使う。
    */
   private async computePoSWMainThread(previousHash: string, eventDataString: string): Promise<PoSWData> {
@@ -164,13 +184,10 @@ export class PoswManager {
     crypto.getRandomValues(nonceData);
     const nonce = this.hashChainManager.arrayBufferToHex(nonceData);
 
-    let hash = await this.hashChainManager.computeHash(previousHash + eventDataString + nonce);
-    for (let i = 1; i < PoswManager.POSW_ITERATIONS; i++) {
-      hash = await this.hashChainManager.computeHash(hash);
-    }
+    const hash = await this.suite.computePoswHash(previousHash + eventDataString + nonce);
 
     return {
-      iterations: PoswManager.POSW_ITERATIONS,
+      iterations: this.suite.poswIterations,
       nonce,
       intermediateHash: hash,
       computeTimeMs: performance.now() - startTime,
@@ -181,7 +198,7 @@ export class PoswManager {
    * PoSWを検証（Worker使用、フォールバックあり）
    */
   async verifyPoSW(previousHash: string, eventDataString: string, posw: PoSWData): Promise<boolean> {
-    if (posw.iterations !== PoswManager.POSW_ITERATIONS) {
+    if (posw.iterations !== this.suite.poswIterations) {
       return false;
     }
 
@@ -197,6 +214,7 @@ export class PoswManager {
         eventDataString,
         nonce: posw.nonce,
         iterations: posw.iterations,
+        hashSuite: this.suite.id,
         expectedHash: posw.intermediateHash,
       });
 
@@ -204,20 +222,14 @@ export class PoswManager {
     }
 
     // フォールバック: メインスレッドで検証（検証ページ用）
-    let hash = await this.hashChainManager.computeHash(previousHash + eventDataString + posw.nonce);
-
-    for (let i = 1; i < posw.iterations; i++) {
-      hash = await this.hashChainManager.computeHash(hash);
-    }
-
-    return hash === posw.intermediateHash;
+    return (await this.suite.computePoswHash(previousHash + eventDataString + posw.nonce)) === posw.intermediateHash;
   }
 
   /**
-   * PoSW反復回数を取得（固定値）
+   * PoSW反復回数を取得（suite ごとの固定値）
    */
   getPoSWIterations(): number {
-    return PoswManager.POSW_ITERATIONS;
+    return this.suite.poswIterations;
   }
 
   /**
@@ -31,15 +31,19 @@ import type {
   ExamOpenedEventData,
   ExamSessionContext,
   SessionStartToken,
+  ProofContinuation,
 } from '../types.js';
 import { PROOF_FORMAT_VERSION } from '../version.js';
+import { DEFAULT_HASH_SUITE, type HashSuiteId } from '../hashSuite.js';
 import { buildExamProofBlock } from '../exam/examPackage.js';
+import { computeContinuationChainRoot } from '../proofContinuation.js';
+import { POSW_CALIBRATION_SAMPLES } from '../poswTiming.js';
 import { HashChainManager } from './HashChainManager.js';
 import { PoswManager } from './PoswManager.js';
 import { CheckpointManager } from './CheckpointManager.js';
 import { ChainVerifier, type ChainVerifyOptions } from './ChainVerifier.js';
 import type { CheckpointCreatedHook } from './CheckpointManager.js';
-import type { SignedCheckpointEnvelope } from '../types.js';
+import type { CheckpointSignature } from '../types.js';
 import { StatisticsCalculator } from './StatisticsCalculator.js';
 import { isAllowedInputType, isProhibitedInputType } from './InputTypeValidator.js';
 import { waitForQueueDrain, type QueueDrainOptions, type QueueDrainResult } from './queueDrain.js';
@@ -65,6 +69,12 @@ export class TypingProof {
    * 未取得 (オフライン劣化 / exam / 旧経路) では null。
    */
   sessionStartToken: SessionStartToken | null = null;
+
+  /**
+   * 前の proof からの継続 (ADR-0041)。`bindContinuation` で root に焼いたときに確定し、
+   * `exportProof` で proof に載せる。継続しないセッションでは null。
+   */
+  continuation: ProofContinuation | null = null;
   private recordQueue: Promise<RecordEventResult> = Promise.resolve({ hash: '', index: -1 });
   private queuedEventCount: number = 0;
 
@@ -104,6 +114,13 @@ export class TypingProof {
     this.hashChainManager.setCurrentHash(value);
   }
 
+  /**
+   * PoSW の suite (ADR-0044)。exam package が指定したときだけ既定以外になる
+   */
+  get hashSuite(): HashSuiteId {
+    return this.poswManager.getHashSuite();
+  }
+
   // checkpointsへのアクセサ（後方互換性のため）
   get checkpoints(): CheckpointData[] {
     return this.checkpointManager.getCheckpoints();
@@ -162,6 +179,8 @@ export class TypingProof {
     examContext: ExamSessionContext,
     externalWorker?: Worker
   ): Promise<void> {
+    // ADR-0044: package が PoSW の suite を指定していれば、最初の event から使う (未知の suite は throw)
+    this.poswManager.setHashSuite(examContext.hashSuite ?? DEFAULT_HASH_SUITE);
     this.fingerprint = fingerprintHash;
     this.fingerprintComponents = fingerprintComponents;
     const initial = await this.hashChainManager.generateExamInitialHash(
@@ -215,6 +234,72 @@ export class TypingProof {
     this.initialized = true;
   }
 
+  /**
+   * 前の proof からの継続 (ADR-0041) を root に焼く。`initialize` / `initializeAnchored` の直後、
+   * event を記録する前に呼ぶ。root は
+   *   SHA-256(baseRoot ‖ previousFinalEventChainHash ‖ previousContentHash)
+   * になる (`computeContinuationChainRoot`)。前の proof の内容は #0 humanAttestation の後に
+   * `recordSessionContinued` で記録する。
+   * @throws exam モード、または既にイベントがある場合
+   */
+  async bindContinuation(continuation: ProofContinuation): Promise<void> {
+    if (this.examContext) {
+      throw new Error('An exam session cannot continue a previous proof');
+    }
+    if (this.events.length > 0 || this.queuedEventCount > 0) {
+      throw new Error('Continuation must be bound before any event is recorded');
+    }
+    const baseRoot = this.hashChainManager.getCurrentHash();
+    if (!baseRoot) {
+      throw new Error('TypingProof must be initialized before binding a continuation');
+    }
+    this.hashChainManager.setCurrentHash(await computeContinuationChainRoot(baseRoot, continuation));
+    this.continuation = continuation;
+  }
+
+  /**
+   * 前の proof の最終内容を `sessionContinued` イベントとして記録する (ADR-0041)。
+   * replay はここから始まる。内容を変えるイベントより前に記録すること。
+   * @param content - 前の proof の最終内容 (hash が `continuation.previousContentHash` と一致すること)
+   */
+  async recordSessionContinued(content: string): Promise<RecordEventResult> {
+    if (!this.continuation) {
+      throw new Error('sessionContinued requires a bound continuation');
+    }
+    if ((await this.computeHash(content)) !== this.continuation.previousContentHash) {
+      throw new Error('Continued content does not match the previous proof content hash');
+    }
+    return await this.recordEvent({
+      type: 'sessionContinued',
+      data: { ...this.continuation, content, contentLength: content.length },
+      description: `Continued from previous proof (${content.length} chars)`,
+    });
+  }
+
+  /**
+   * 記録端末の PoSW 反復速度を計測し、`poswCalibration` イベントとして記録する (ADR-0042)。
+   * 記録と同じ経路 (Worker、障害時はメインスレッド) で PoSW を `samples` 回計算し、最も速かった
+   * 1 回を残す。検証側はこの速度で、申告 timestamp が PoSW の逐次計算に追いつけるかを確かめる。
+   * タブ作成時 (#0 humanAttestation と examOpened / sessionContinued の直後) に 1 度だけ呼ぶ。
+   * @returns 計測時間が取れなかった (0 ms) ときは記録せず null
+   */
+  async recordPoswCalibration(samples: number = POSW_CALIBRATION_SAMPLES): Promise<RecordEventResult | null> {
+    let elapsedMs = Infinity;
+    for (let i = 0; i < samples; i++) {
+      const posw = await this.poswManager.computePoSW(this.currentHash ?? '', `poswCalibration:${i}`);
+      elapsedMs = Math.min(elapsedMs, posw.computeTimeMs);
+    }
+    if (!(elapsedMs > 0 && Number.isFinite(elapsedMs))) {
+      return null;
+    }
+    const iterations = this.poswManager.getPoSWIterations();
+    return await this.recordEvent({
+      type: 'poswCalibration',
+      data: { iterations, elapsedMs, samples },
+      description: `PoSW calibrated (${Math.round((iterations / elapsedMs) * 1000)} iterations/s)`,
+    });
+  }
+
   /**
    * 人間認証をevent #0として記録
    * reCAPTCHA attestationをハッシュチェーンの最初のイベントとして記録し、
@@ -610,8 +695,11 @@ export class TypingProof {
    * **`finalContent` との整合は守らない**。スナップショットに載っていない打鍵を含む content
    * を渡すと content replay (検証 Layer 4) が最終内容と一致せず proof 全体が invalid になる。
    * 呼び出し側は `waitForQueueDrain` で排出を確認してから content を確定すること。
+   *
+   * 返す proof は現行の形 (`checkpoints` は常に配列、exam 以外は `rootAnchored` を持つ)。
+   * 検証に渡すのに `migrateProof` を通す必要はない。
    */
-  async exportProof(finalContent: string): Promise<ExportedProof> {
+  async exportProof(finalContent: string): Promise<ExportedProof & { checkpoints: CheckpointData[] }> {
     const events = this.events.slice();
     const lastEventIndex = events.length - 1;
     const finalHash = lastEventIndex >= 0 ? events[lastEventIndex]!.hash : this.currentHash;
@@ -636,7 +724,7 @@ export class TypingProof {
     // スナップショット外 (export 開始後に伸びた分) を指す checkpoint は同梱しない
     const checkpoints = this.checkpointManager.getCheckpoints().filter((cp) => cp.eventIndex <= lastEventIndex);
 
-    const exported: ExportedProof = {
+    const exported: ExportedProof & { checkpoints: CheckpointData[] } = {
       version: PROOF_FORMAT_VERSION,
       typingProofHash: typingProof.typingProofHash,
       typingProofData: typingProof.proofData,
@@ -670,6 +758,16 @@ export class TypingProof {
       exported.rootAnchored = false;
     }
 
+    // 継続 (ADR-0041): root に焼いた前の proof の最終状態を宣言する。
+    if (this.continuation) {
+      exported.continuation = this.continuation;
+    }
+
+    // PoSW の suite (ADR-0044): 既定 suite の proof は従来と同じ形のまま (フィールドを持たない)
+    if (this.hashSuite !== DEFAULT_HASH_SUITE) {
+      exported.hashSuite = this.hashSuite;
+    }
+
     return exported;
   }
 
@@ -730,6 +828,8 @@ export class TypingProof {
   async reset(): Promise<void> {
     this.events = [];
     this.checkpointManager.clearCheckpoints();
+    // 新しい root は継続しない (前の proof の内容もイベントごと消えるため)
+    this.continuation = null;
     if (this.fingerprint) {
       const initial = await this.hashChainManager.generateInitialHash(this.fingerprint);
       this.initialHashNonce = initial.nonce;
@@ -890,6 +990,7 @@ export class TypingProof {
       checkpoints: [...this.checkpointManager.getCheckpoints()],
       examContext: this.examContext,
       sessionStartToken: this.sessionStartToken,
+      continuation: this.continuation,
     };
   }
 
@@ -908,6 +1009,7 @@ export class TypingProof {
       checkpoints: [...this.checkpointManager.getCheckpoints()],
       examContext: this.examContext,
       sessionStartToken: this.sessionStartToken,
+      continuation: this.continuation,
     };
   }
 
@@ -920,7 +1022,9 @@ export class TypingProof {
     this.hashChainManager.setCurrentHash(state.currentHash);
     this.initialHashNonce = state.initialHashNonce ?? null;
     this.examContext = state.examContext ?? null;
+    this.poswManager.setHashSuite(this.examContext?.hashSuite ?? DEFAULT_HASH_SUITE);
     this.sessionStartToken = state.sessionStartToken ?? null;
+    this.continuation = state.continuation ?? null;
 
     // タイムスタンプの単調増加を保証するためにstartTimeを調整
     // 最後のイベントのタイムスタンプを取得し、次のイベントがそれより大きくなるようにする
@@ -972,10 +1076,10 @@ export class TypingProof {
   }
 
   /**
-   * 非同期に取得した署名 envelope を該当 checkpoint に書き戻す。
+   * 非同期に取得した署名 envelope (または RFC 3161 のトークン) を該当 checkpoint に書き戻す。
    * 該当が無ければ false (例: checkpoint が cleanup 済み)。
    */
-  attachSignedCheckpoint(eventIndex: number, envelope: SignedCheckpointEnvelope): boolean {
+  attachSignedCheckpoint(eventIndex: number, envelope: CheckpointSignature): boolean {
     return this.checkpointManager.updateSignature(eventIndex, envelope);
   }
 
@@ -62,7 +62,8 @@ export function offsetFromRange(content: string, event: StoredEvent): number | n
  * `insertFromInternalPaste` の監査マーカー (rangeOffset==null) は文書に触れない。
  */
 export function applyReplayEventTolerant(content: string, event: StoredEvent): string {
-  if (event.type === 'templateInjection') {
+  // sessionContinued (ADR-0041) も前の proof の最終内容で文書を置き換える (適用規則は templateInjection と同じ)
+  if (event.type === 'templateInjection' || event.type === 'sessionContinued') {
     return isTemplateInjectionData(event.data) ? event.data.content : content;
   }
 
@@ -0,0 +1,302 @@
+/**
+ * 最小限の DER (ASN.1) 読み書き (ADR-0049)
+ *
+ * RFC 3161 のタイムスタンプ要求・応答と、TSA の X.509 証明書を扱うのに要るぶんだけを実装する。
+ * 汎用の ASN.1 ライブラリは入れない (shared は Workers / verify のバンドルにも載るので依存を増やさない)。
+ * 扱うのは DER (definite length・最短の長さ表現) と 1 バイトの tag だけで、BER の不定長や
+ * 高位 tag 番号は malformed として throw する。throw は呼び出し側で reason に畳む。
+ */
+
+/** ここで使う universal tag (identifier octet そのもの) */
+export const DER_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+/** context-specific tag ([n]) の identifier octet。constructed は EXPLICIT / 構造型の IMPLICIT */
+export function derContextTag(n: number, constructed: boolean): number {
+  return 0x80 | (constructed ? 0x20 : 0) | n;
+}
+
+export interface DerElement {
+  /** identifier octet (class + constructed + tag 番号) */
+  tag: number;
+  /** tag と length を含む TLV 全体 (署名対象の取り出しや再タグ付けに使う) */
+  raw: Uint8Array;
+  /** 値の部分 */
+  value: Uint8Array;
+}
+
+function readElementAt(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) throw new Error('DER: truncated element');
+  const tag = bytes[offset]!;
+  if ((tag & 0x1f) === 0x1f) throw new Error('DER: high tag numbers are not supported');
+  let length = bytes[offset + 1]!;
+  let header = 2;
+  if (length & 0x80) {
+    const n = length & 0x7f;
+    if (n === 0) throw new Error('DER: indefinite length is not allowed');
+    if (n > 4) throw new Error('DER: length is too long');
+    if (offset + 2 + n > bytes.length) throw new Error('DER: truncated length');
+    if (bytes[offset + 2] === 0) throw new Error('DER: non-minimal length');
+    length = 0;
+    for (let i = 0; i < n; i++) length = length * 256 + bytes[offset + 2 + i]!;
+    if (length < 0x80) throw new Error('DER: non-minimal length');
+    header += n;
+  }
+  const end = offset + header + length;
+  if (end > bytes.length) throw new Error('DER: truncated element');
+  return { tag, raw: bytes.subarray(offset, end), value: bytes.subarray(offset + header, end) };
+}
+
+/** bytes 全体がちょうど 1 つの要素であることを要求して読む。 */
+export function readDer(bytes: Uint8Array): DerElement {
+  const element = readElementAt(bytes, 0);
+  if (element.raw.length !== bytes.length) throw new Error('DER: trailing bytes after element');
+  return element;
+}
+
+/** 構造型の要素の子を順に読む。 */
+export function readDerChildren(element: DerElement): DerElement[] {
+  if ((element.tag & 0x20) === 0) throw new Error('DER: element is not constructed');
+  const children: DerElement[] = [];
+  let offset = 0;
+  while (offset < element.value.length) {
+    const child = readElementAt(element.value, offset);
+    children.push(child);
+    offset += child.raw.length;
+  }
+  return children;
+}
+
+/** tag が一致することを要求する。`what` はエラーメッセージ用の名前。 */
+export function expectDer(element: DerElement | undefined, tag: number, what: string): DerElement {
+  if (!element || element.tag !== tag) throw new Error(`DER: expected ${what}`);
+  return element;
+}
+
+export function decodeDerOid(element: DerElement): string {
+  const value = expectDer(element, DER_TAG.OID, 'OBJECT IDENTIFIER').value;
+  if (value.length === 0) throw new Error('DER: empty OBJECT IDENTIFIER');
+  const arcs: number[] = [];
+  let arc = 0;
+  for (let i = 0; i < value.length; i++) {
+    const byte = value[i]!;
+    if (arc === 0 && byte === 0x80) throw new Error('DER: non-minimal OBJECT IDENTIFIER arc');
+    arc = arc * 128 + (byte & 0x7f);
+    if (arc > Number.MAX_SAFE_INTEGER) throw new Error('DER: OBJECT IDENTIFIER arc is too large');
+    if ((byte & 0x80) === 0) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  if ((value[value.length - 1]! & 0x80) !== 0) throw new Error('DER: truncated OBJECT IDENTIFIER');
+  const first = arcs[0]!;
+  const head = first < 40 ? [0, first] : first < 80 ? [1, first - 40] : [2, first - 80];
+  return [...head, ...arcs.slice(1)].join('.');
+}
+
+/**
+ * INTEGER の値を符号なしの大きさとして返す (先頭の 0x00 を除く)。serialNumber / nonce の比較用。
+ * 負の値は使わないので throw する。
+ */
+export function decodeDerUnsignedInteger(element: DerElement): Uint8Array {
+  const value = expectDer(element, DER_TAG.INTEGER, 'INTEGER').value;
+  if (value.length === 0) throw new Error('DER: empty INTEGER');
+  if (value[0]! & 0x80) throw new Error('DER: negative INTEGER');
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) start++;
+  return value.subarray(start);
+}
+
+/** 小さな INTEGER (version など) を number で返す。 */
+export function decodeDerSmallInteger(element: DerElement): number {
+  const magnitude = decodeDerUnsignedInteger(element);
+  if (magnitude.length > 4) throw new Error('DER: INTEGER is too large');
+  let n = 0;
+  for (const byte of magnitude) n = n * 256 + byte;
+  return n;
+}
+
+export function decodeDerBoolean(element: DerElement): boolean {
+  const value = expectDer(element, DER_TAG.BOOLEAN, 'BOOLEAN').value;
+  if (value.length !== 1 || (value[0] !== 0x00 && value[0] !== 0xff)) throw new Error('DER: malformed BOOLEAN');
+  return value[0] === 0xff;
+}
+
+/** BIT STRING の中身 (未使用ビット数の先頭バイトを除く)。 */
+export function decodeDerBitString(element: DerElement): { bytes: Uint8Array; unusedBits: number } {
+  const value = expectDer(element, DER_TAG.BIT_STRING, 'BIT STRING').value;
+  if (value.length === 0 || value[0]! > 7) throw new Error('DER: malformed BIT STRING');
+  return { bytes: value.subarray(1), unusedBits: value[0]! };
+}
+
+/** 文字列型 (UTF8String / PrintableString / IA5String) を読む。 */
+export function decodeDerString(element: DerElement): string {
+  if (
+    element.tag !== DER_TAG.UTF8_STRING &&
+    element.tag !== DER_TAG.PRINTABLE_STRING &&
+    element.tag !== DER_TAG.IA5_STRING
+  ) {
+    throw new Error('DER: expected a string');
+  }
+  return new TextDecoder().decode(element.value);
+}
+
+/** UTCTime / GeneralizedTime (どちらも Z 終わり) を epoch ms にする。 */
+export function decodeDerTime(element: DerElement): number {
+  const text = new TextDecoder().decode(element.value);
+  let match: RegExpExecArray | null;
+  let year: number;
+  if (element.tag === DER_TAG.UTC_TIME) {
+    match = /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text);
+    if (!match) throw new Error('DER: malformed UTCTime');
+    const yy = Number(match[1]);
+    // RFC 5280 §4.1.2.5.1: 50 以上は 19YY、未満は 20YY
+    year = yy >= 50 ? 1900 + yy : 2000 + yy;
+  } else if (element.tag === DER_TAG.GENERALIZED_TIME) {
+    match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d*[1-9]))?Z$/.exec(text);
+    if (!match) throw new Error('DER: malformed GeneralizedTime');
+    year = Number(match[1]);
+  } else {
+    throw new Error('DER: expected a time');
+  }
+  const fraction = match[7] ? Number(`0.${match[7]}`) * 1000 : 0;
+  const ms = Date.UTC(
+    year,
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4]),
+    Number(match[5]),
+    Number(match[6]),
+    Math.floor(fraction)
+  );
+  if (!Number.isFinite(ms)) throw new Error('DER: invalid time');
+  return ms;
+}
+
+// ---- writer ------------------------------------------------------------
+
+function concatBytes(parts: readonly Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** TLV を組み立てる。contents は連結して値にする。 */
+export function encodeDer(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const value = concatBytes(contents);
+  let header: number[];
+  if (value.length < 0x80) {
+    header = [tag, value.length];
+  } else {
+    const lengthBytes: number[] = [];
+    for (let n = value.length; n > 0; n = Math.floor(n / 256)) lengthBytes.unshift(n % 256);
+    header = [tag, 0x80 | lengthBytes.length, ...lengthBytes];
+  }
+  return concatBytes([Uint8Array.from(header), value]);
+}
+
+export function encodeDerSequence(...elements: Uint8Array[]): Uint8Array {
+  return encodeDer(DER_TAG.SEQUENCE, ...elements);
+}
+
+/** SET OF: DER は要素を符号化したバイト列の辞書順に並べる (X.690 §11.6)。 */
+export function encodeDerSet(...elements: Uint8Array[]): Uint8Array {
+  const sorted = [...elements].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i]! - b[i]!;
+    }
+    return a.length - b.length;
+  });
+  return encodeDer(DER_TAG.SET, ...sorted);
+}
+
+export function encodeDerOid(oid: string): Uint8Array {
+  const arcs = oid.split('.').map(Number);
+  if (arcs.length < 2 || arcs.some((a) => !Number.isSafeInteger(a) || a < 0)) {
+    throw new Error(`DER: invalid OBJECT IDENTIFIER ${oid}`);
+  }
+  const bytes: number[] = [];
+  const encoded = [arcs[0]! * 40 + arcs[1]!, ...arcs.slice(2)];
+  for (const arc of encoded) {
+    const chunk: number[] = [arc % 128];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift(0x80 | (n % 128));
+    bytes.push(...chunk);
+  }
+  return encodeDer(DER_TAG.OID, Uint8Array.from(bytes));
+}
+
+/** 非負の INTEGER。bytes は符号なしの大きさ (big-endian)。 */
+export function encodeDerInteger(value: number | Uint8Array): Uint8Array {
+  let magnitude: Uint8Array;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value) || value < 0) throw new Error('DER: INTEGER must be a non-negative integer');
+    const bytes: number[] = [];
+    for (let n = value; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256);
+    magnitude = Uint8Array.from(bytes);
+  } else {
+    let start = 0;
+    while (start < value.length && value[start] === 0) start++;
+    magnitude = value.subarray(start);
+  }
+  if (magnitude.length === 0) return encodeDer(DER_TAG.INTEGER, Uint8Array.of(0));
+  return magnitude[0]! & 0x80
+    ? encodeDer(DER_TAG.INTEGER, Uint8Array.of(0), magnitude)
+    : encodeDer(DER_TAG.INTEGER, magnitude);
+}
+
+export function encodeDerBoolean(value: boolean): Uint8Array {
+  return encodeDer(DER_TAG.BOOLEAN, Uint8Array.of(value ? 0xff : 0x00));
+}
+
+export function encodeDerNull(): Uint8Array {
+  return encodeDer(DER_TAG.NULL);
+}
+
+export function encodeDerOctetString(bytes: Uint8Array): Uint8Array {
+  return encodeDer(DER_TAG.OCTET_STRING, bytes);
+}
+
+/** 未使用ビット 0 の BIT STRING */
+export function encodeDerBitString(bytes: Uint8Array): Uint8Array {
+  return encodeDer(DER_TAG.BIT_STRING, Uint8Array.of(0), bytes);
+}
+
+export function encodeDerUtf8String(text: string): Uint8Array {
+  return encodeDer(DER_TAG.UTF8_STRING, new TextEncoder().encode(text));
+}
+
+/** GeneralizedTime (UTC、ミリ秒は末尾の 0 を落として付ける) */
+export function encodeDerGeneralizedTime(date: Date): Uint8Array {
+  const iso = date.toISOString(); // YYYY-MM-DDTHH:MM:SS.sssZ
+  const ms = iso.slice(20, 23).replace(/0+$/, '');
+  const text = `${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}${ms ? `.${ms}` : ''}Z`;
+  return encodeDer(DER_TAG.GENERALIZED_TIME, new TextEncoder().encode(text));
+}
+
+/** 証明書の有効期間用の時刻 (RFC 5280: 2049 年までは UTCTime、以降は GeneralizedTime。秒単位) */
+export function encodeDerCertificateTime(date: Date): Uint8Array {
+  const iso = date.toISOString();
+  const year = date.getUTCFullYear();
+  const rest = `${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z`;
+  if (year >= 1950 && year < 2050) {
+    return encodeDer(DER_TAG.UTC_TIME, new TextEncoder().encode(`${iso.slice(2, 4)}${rest}`));
+  }
+  return encodeDer(DER_TAG.GENERALIZED_TIME, new TextEncoder().encode(`${iso.slice(0, 4)}${rest}`));
+}
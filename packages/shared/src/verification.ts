@@ -13,6 +13,7 @@ import type {
   PoSWData,
   EventHashData,
   ExportedProof,
+  ProofContinuation,
 } from './types.js';
 
 // Re-export hash utilities for backward compatibility
@@ -31,12 +32,27 @@ import {
   SessionProvenanceLedger,
 } from './typingProof/structuralEdit.js';
 import { isDivergentContentSnapshot, isTemplateInjectionData, offsetFromRange } from './typingProof/replay.js';
-import { POSW_ITERATIONS, EXAM_ROOT_BINDING_V2 } from './version.js';
-import { verifyProofSignedCheckpoints } from './signedCheckpoints.js';
+import { EXAM_ROOT_BINDING_V2 } from './version.js';
+import {
+  DEFAULT_HASH_SUITE,
+  getHashSuite,
+  resolveProofHashSuite,
+  type HashSuite,
+  type HashSuiteId,
+} from './hashSuite.js';
+import { isSignedCheckpointEnvelope, verifyProofSignedCheckpoints } from './signedCheckpoints.js';
 import { verifySessionStartToken, computeAnchoredChainRoot } from './sessionStartToken.js';
 import { CHECKPOINT_PUBLIC_KEYS } from './checkpointKeys/index.js';
+import { POSW_AUDIT_DEFAULT_CONFIDENCE, planPoswAuditFromTail, type PoswAuditSummary } from './poswAudit.js';
+import { MerkleAccumulator } from './merkle.js';
+import { computeContinuationChainRoot, isProofContinuation } from './proofContinuation.js';
+import { PoswTimingAccumulator, type PoswTimingResult } from './poswTiming.js';
 import type { SignedCheckpointsVerificationResult } from './types.js';
+import type { MigratedProof } from './proofMigration.js';
 import type { CheckpointPublicKey } from './checkpointKeys/index.js';
+import type { TransparencyLogEvidence } from './types/transparencyLog.js';
+import type { SubmissionReceipt, SubmissionReceiptCheckResult } from './types/submissionReceipt.js';
+import { verifySubmissionReceiptForProof } from './submissionReceipt.js';
 
 /**
  * Proof file with content (extends ExportedProof)
@@ -44,6 +60,30 @@ import type { CheckpointPublicKey } from './checkpointKeys/index.js';
 export interface ProofFile extends ExportedProof {
   content: string;
   language: string;
+  /** エディタのタブ名 (export 時に editor が付ける)。旧 proof は持たない。 */
+  filename?: string;
+}
+
+/**
+ * events を除いた proof。ストリーム検証 (ADR-0039) ではこれだけを常に保持する。
+ * `migrateProofHeader` を通した形 (`checkpoints` は常に配列)。
+ */
+export type ProofHeader = Omit<MigratedProof, 'proof'> & { proof: Omit<ExportedProof['proof'], 'events'> };
+
+/**
+ * events を先頭から 1 件ずつ渡す proof (ストリーム検証の入力、ADR-0039)。
+ *
+ * `eventCount` と `lastEventHash` は events を読む前に要る (audit 標本の計画と index 範囲の判定)。
+ * JSON から作るときは `readProofEventStream` が 1 度目の走査で数える。
+ */
+export interface ProofEventStream {
+  header: ProofHeader;
+  /** events の件数。`events` がこれと違う件数を返したら検証は throw する */
+  eventCount: number;
+  /** 最終 event の申告 hash (audit の seed、ADR-0034)。event が無ければ undefined */
+  lastEventHash?: string;
+  /** events を先頭から返す。`proof.events` が配列でない proof は null (構造検証で弾く) */
+  events: AsyncIterable<unknown> | Iterable<unknown> | null;
 }
 
 /**
@@ -61,12 +101,17 @@ export interface FullVerificationResult {
   errorAt?: number;
   errorMessage?: string;
   poswSkipped?: boolean;
+  /**
+   * `audit` モードで PoSW を標本だけ再計算したときの記録 (ADR-0034)。`fast` / `full` では省略。
+   * 標本が母集団全体を覆った (小さな proof) 場合も載るが、その保証は `full` と同じ。
+   */
+  poswAudit?: PoswAuditSummary;
   signedCheckpoints?: SignedCheckpointsVerificationResult;
   /**
    * root がサーバアンカーされているか (ADR-0017)。`sessionStartToken` で root がアンカーされていれば true。
    * exam / 旧 proof / オフライン劣化では false。warning 判定は呼び出し側 (exam は除外)。
    */
-  rootAnchored?: boolean;
+  rootAnchored: boolean;
   /**
    * `sessionStartToken` の sessionId と署名 cp の sessionId が食い違ったか (spec §6.3 / ADR-0017)。
    * true = 別セッションのトークンを流用した proof。`valid` には既に反映済みだが、UI が
@@ -74,20 +119,41 @@ export interface FullVerificationResult {
    * (chain に畳み込むと「改ざんされた」と誤って告発する — #211)。
    */
   sessionTokenMismatch?: boolean;
+  /**
+   * 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)。`valid` には反映しない (時刻アンカー層の
+   * 信号。三層保証の temporal が使う)。
+   */
+  poswTiming?: PoswTimingResult;
+  /**
+   * 提出レシート (ADR-0047) との突合。`submissionReceipt` を渡したときのみ。無効 (署名不正・
+   * この proof を載せていない・最終内容が違う) なら `valid` にも反映済み。受領時刻はセッション終端の
+   * アンカーとして表示に使う。
+   */
+  submissionReceipt?: SubmissionReceiptCheckResult;
 }
 
 /**
  * 検証モード。
  * - fast: PoSW 再計算をスキップ。chain integrity / content replay / metadata / signed checkpoint は実施
- * - audit: fast + 決定的 PoSW サンプリング (現実装は full と同等のプレースホルダ)
+ * - audit: fast + 決定的 PoSW サンプリング (最終 hash から導いた標本だけ PoSW を再計算。ADR-0034)
  * - full: 全 PoSW 再計算を含む完全検証
  */
 export type VerificationMode = 'fast' | 'audit' | 'full';
 
 export interface VerifyProofFileOptions {
   mode?: VerificationMode;
+  /**
+   * `audit` の目標信頼度 (0 < c < 1、既定 `POSW_AUDIT_DEFAULT_CONFIDENCE`)。PoSW を偽った event が
+   * 1% 以上あれば確率 c 以上で検出できる標本サイズを選ぶ。`audit` 以外では無視する。
+   */
+  auditConfidence?: number;
   /** 公開鍵レジストリ (テスト/CLI から注入) */
   signedCheckpointKeyRegistry?: readonly CheckpointPublicKey[];
+  /**
+   * RFC 3161 のタイムスタンプトークン (ADR-0049) を検証する TSA のルート証明書 (PEM)。
+   * 既定は組み込みの `TSA_ROOT_CERTIFICATES`。ルートに辿れないトークンのアンカーは fail する。
+   */
+  tsaRootCertificates?: readonly string[];
   /**
    * anchoring 密度 gate (ADR-0016)。true のとき、署名 cp が「主張したイベント数 / 時間」に対して
    * 疎すぎる proof を signed checkpoint 検証で fail させる (signedCheckpointBlocks 経由で全体 invalid)。
@@ -107,6 +173,18 @@ export interface VerifyProofFileOptions {
    * 回避できてしまうため。ADR-0020「自己申告を判定に昇格させない」)。
    */
   examBindingVerified?: boolean;
+  /**
+   * 透明性ログの証拠 (ADR-0046)。渡すと署名 cp とセッション開始トークンがすべてログに載っていることを
+   * 要求し、載っていなければ signed checkpoint 検証を fail させる。証拠はアンカー API の
+   * `/api/log/evidence` から呼び出し側が取ってくる。未指定なら見ない。
+   */
+  transparencyLogEvidence?: TransparencyLogEvidence;
+  /**
+   * 提出レシート (ADR-0047)。ZIP に同梱された `submission-receipt.json` を呼び出し側が読んで渡す。
+   * 渡すと署名と、この proof の最終状態が載っていることを要求し、合わなければ全体を fail させる
+   * (提出後に proof を差し替えた / 別の提出のレシートを流用した)。未指定なら見ない。
+   */
+  submissionReceipt?: SubmissionReceipt;
 }
 
 /**
@@ -154,9 +232,15 @@ export interface VerifyInitialHashRootResult {
  * - anchored casual/class (ADR-0017, `sessionStartToken` あり): SHA-256(fingerprintHash ‖ nonce ‖ serverNonce)
  *   かつトークンの ECDSA を registry で検証 (registry-only = C1)
  * - 従来 casual/class: SHA-256(fingerprintHash ‖ nonce)
+ *
+ * 継続した proof (ADR-0041, `continuation` あり) は、上の root を baseRoot として
+ * SHA-256(baseRoot ‖ previousFinalEventChainHash ‖ previousContentHash) で包む。exam は継続できない。
  */
 export async function verifyInitialHashRoot(
-  proof: Pick<ExportedProof, 'typingProofData' | 'proof' | 'fingerprint' | 'exam' | 'sessionStartToken'>,
+  proof: Pick<
+    ExportedProof,
+    'typingProofData' | 'proof' | 'fingerprint' | 'exam' | 'sessionStartToken' | 'continuation'
+  >,
   options: VerifyInitialHashRootOptions = {}
 ): Promise<VerifyInitialHashRootResult> {
   const fingerprintHash = proof.fingerprint?.hash;
@@ -190,6 +274,16 @@ export async function verifyInitialHashRoot(
     return { valid: false, reason: 'Initial event chain hash is missing', rootAnchored: false };
   }
 
+  const continuation = proof.continuation;
+  if (continuation !== undefined) {
+    if (!isProofContinuation(continuation)) {
+      return { valid: false, reason: 'Proof continuation is malformed', rootAnchored: false };
+    }
+    if (proof.exam) {
+      return { valid: false, reason: 'An exam proof cannot declare a continuation', rootAnchored: false };
+    }
+  }
+
   // root 式を分岐して期待値を計算する。
   let computedInitialHash: string;
   let rootAnchored = false;
@@ -245,6 +339,12 @@ export async function verifyInitialHashRoot(
     rootMismatchReason = 'Initial event chain hash does not match fingerprint and nonce';
   }
 
+  if (continuation) {
+    // ADR-0041: 前の proof の最終状態にコミットする。
+    computedInitialHash = await computeContinuationChainRoot(computedInitialHash, continuation);
+    rootMismatchReason = `${rootMismatchReason} with the declared continuation`;
+  }
+
   if (computedInitialHash !== expectedInitialHash) {
     return {
       valid: false,
@@ -278,62 +378,165 @@ function firstMismatchIndex(left: string, right: string): number {
 }
 
 /**
- * Replay content-affecting events and compare them with the exported final content.
+ * `verifyContentReplay` の逐次版。最初の不正 event で止まり、以降の `apply` は何もしない。
+ * 配列版とストリーム検証 (ADR-0039) が同じ実装を通る。
+ *
+ * `sessionContinued` (ADR-0041) の扱いは `continuation` で決まる:
+ * - undefined: proof の宣言を知らない呼び出し (`verifyContentReplay` の旧シグネチャ)。templateInjection と同じく適用する
+ * - null: 継続を宣言していない proof。`sessionContinued` があれば fail
+ * - 宣言あり: 内容を変える event より前にちょうど 1 件あり、hash が宣言と一致すること
  */
-export function verifyContentReplay(events: StoredEvent[], finalContent: string): ContentReplayVerificationResult {
-  let content = '';
+class ContentReplay {
+  private content = '';
+  private failure: ContentReplayVerificationResult | null = null;
+  private contentTouched = false;
+  /** `sessionContinued` で始まった内容 (前の proof の最終内容との照合用)。無ければ null */
+  private continued: string | null = null;
 
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i];
-    if (!event) continue;
+  constructor(private readonly continuation?: ProofContinuation | null) {}
+
+  get failed(): boolean {
+    return this.failure !== null;
+  }
+
+  get continuedContent(): string | null {
+    return this.continued;
+  }
+
+  apply(event: StoredEvent | null | undefined, i: number): void {
+    if (this.failure || !event) return;
+    this.failure = this.step(event, i);
+  }
+
+  finish(finalContent: string): ContentReplayVerificationResult {
+    if (this.failure) return this.failure;
+
+    if (this.continuation && this.continued === null) {
+      return { valid: false, reason: 'Continued proof has no sessionContinued event' };
+    }
+
+    if (this.content !== finalContent) {
+      return {
+        valid: false,
+        reason: 'Replayed content does not match exported final content',
+        reconstructedContent: this.content,
+        mismatchIndex: firstMismatchIndex(this.content, finalContent),
+      };
+    }
+
+    return { valid: true, reconstructedContent: this.content };
+  }
+
+  private step(event: StoredEvent, i: number): ContentReplayVerificationResult | null {
+    if (event.type === 'sessionContinued') {
+      return this.continueFrom(event, i);
+    }
+
+    if (event.type === 'templateInjection' || event.type === 'contentSnapshot' || event.type === 'contentChange') {
+      this.contentTouched = true;
+    }
 
     if (event.type === 'templateInjection') {
       if (!isTemplateInjectionData(event.data)) {
         return { valid: false, reason: `Invalid template injection data at event ${i}`, errorAt: i };
       }
-      content = event.data.content;
-      continue;
+      this.content = event.data.content;
+      return null;
     }
 
     if (event.type === 'contentSnapshot') {
       if (typeof event.data !== 'string') {
         return { valid: false, reason: `Invalid content snapshot data at event ${i}`, errorAt: i };
       }
-      content = event.data;
-      continue;
+      this.content = event.data;
+      return null;
     }
 
     if (event.type !== 'contentChange') {
-      continue;
+      return null;
     }
 
     if (event.inputType === 'insertFromInternalPaste' && event.rangeOffset == null) {
-      continue;
+      return null;
     }
 
     if (typeof event.data !== 'string') {
       return { valid: false, reason: `Invalid content change data at event ${i}`, errorAt: i };
     }
 
+    const content = this.content;
     const offset = offsetFromRange(content, event);
     const rangeLength = event.rangeLength ?? 0;
     if (offset === null || rangeLength < 0 || offset < 0 || offset + rangeLength > content.length) {
       return { valid: false, reason: `Content change range is out of bounds at event ${i}`, errorAt: i };
     }
 
-    content = content.slice(0, offset) + event.data + content.slice(offset + rangeLength);
+    this.content = content.slice(0, offset) + event.data + content.slice(offset + rangeLength);
+    return null;
   }
 
-  if (content !== finalContent) {
-    return {
-      valid: false,
-      reason: 'Replayed content does not match exported final content',
-      reconstructedContent: content,
-      mismatchIndex: firstMismatchIndex(content, finalContent),
-    };
+  private continueFrom(event: StoredEvent, i: number): ContentReplayVerificationResult | null {
+    if (!isTemplateInjectionData(event.data)) {
+      return { valid: false, reason: `Invalid session continuation data at event ${i}`, errorAt: i };
+    }
+    if (this.continuation === undefined) {
+      this.content = event.data.content;
+      return null;
+    }
+    if (this.continuation === null) {
+      return {
+        valid: false,
+        reason: `sessionContinued event without a declared continuation at event ${i}`,
+        errorAt: i,
+      };
+    }
+    if (this.continued !== null || this.contentTouched) {
+      return { valid: false, reason: `sessionContinued must precede all content events at event ${i}`, errorAt: i };
+    }
+    const data = event.data as Partial<Record<keyof ProofContinuation, unknown>>;
+    if (
+      data.previousFinalEventChainHash !== this.continuation.previousFinalEventChainHash ||
+      data.previousContentHash !== this.continuation.previousContentHash
+    ) {
+      return {
+        valid: false,
+        reason: `sessionContinued does not match the declared continuation at event ${i}`,
+        errorAt: i,
+      };
+    }
+    this.content = event.data.content;
+    this.continued = event.data.content;
+    return null;
   }
+}
 
-  return { valid: true, reconstructedContent: content };
+/**
+ * 継続した proof (ADR-0041) で、`sessionContinued` が持ち込んだ内容が前の proof の最終内容
+ * (`previousContentHash`) と一致するかを確かめる。hash は非同期なので replay の外で照合する。
+ */
+async function verifyContinuedContent(
+  replay: ContentReplay,
+  continuation: ProofContinuation | undefined,
+  result: ContentReplayVerificationResult
+): Promise<ContentReplayVerificationResult> {
+  if (!result.valid || !continuation || replay.continuedContent === null) return result;
+  if ((await computeHash(replay.continuedContent)) !== continuation.previousContentHash) {
+    return { valid: false, reason: 'sessionContinued content does not match the previous content hash' };
+  }
+  return result;
+}
+
+/**
+ * Replay content-affecting events and compare them with the exported final content.
+ */
+export function verifyContentReplay(events: StoredEvent[], finalContent: string): ContentReplayVerificationResult {
+  const replay = new ContentReplay();
+
+  for (let i = 0; i < events.length && !replay.failed; i++) {
+    replay.apply(events[i], i);
+  }
+
+  return replay.finish(finalContent);
 }
 
 /**
@@ -402,49 +605,55 @@ export function verifyEventArrayStructure(events: unknown): EventArrayStructureR
   }
 
   for (let i = 0; i < events.length; i++) {
-    const event: unknown = events[i];
+    const failure = checkEventStructure(events[i], i);
+    if (failure) return failure;
+  }
 
-    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
-      return { valid: false, reason: `Invalid event structure at event ${i}: expected an object`, errorAt: i };
-    }
+  return { valid: true };
+}
 
-    const candidate = event as Record<string, unknown>;
+/** 1 要素分の構造検査。問題なければ null (`verifyEventArrayStructure` とストリーム検証で共有) */
+function checkEventStructure(event: unknown, i: number): EventArrayStructureResult | null {
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    return { valid: false, reason: `Invalid event structure at event ${i}: expected an object`, errorAt: i };
+  }
 
-    if (typeof candidate.sequence !== 'number' || !Number.isFinite(candidate.sequence)) {
-      return {
-        valid: false,
-        reason: `Invalid event structure at event ${i}: sequence must be a finite number`,
-        errorAt: i,
-      };
-    }
+  const candidate = event as Record<string, unknown>;
 
-    if (typeof candidate.timestamp !== 'number' || !Number.isFinite(candidate.timestamp)) {
-      return {
-        valid: false,
-        reason: `Invalid event structure at event ${i}: timestamp must be a finite number`,
-        errorAt: i,
-      };
-    }
+  if (typeof candidate.sequence !== 'number' || !Number.isFinite(candidate.sequence)) {
+    return {
+      valid: false,
+      reason: `Invalid event structure at event ${i}: sequence must be a finite number`,
+      errorAt: i,
+    };
+  }
 
-    if (typeof candidate.type !== 'string') {
-      return { valid: false, reason: `Invalid event structure at event ${i}: type must be a string`, errorAt: i };
-    }
+  if (typeof candidate.timestamp !== 'number' || !Number.isFinite(candidate.timestamp)) {
+    return {
+      valid: false,
+      reason: `Invalid event structure at event ${i}: timestamp must be a finite number`,
+      errorAt: i,
+    };
+  }
 
-    if (typeof candidate.previousHash !== 'string' && candidate.previousHash !== null) {
-      return {
-        valid: false,
-        reason: `Invalid event structure at event ${i}: previousHash must be a string or null`,
-        errorAt: i,
-      };
-    }
+  if (typeof candidate.type !== 'string') {
+    return { valid: false, reason: `Invalid event structure at event ${i}: type must be a string`, errorAt: i };
+  }
 
-    const posw = candidate.posw;
-    if (typeof posw !== 'object' || posw === null || Array.isArray(posw)) {
-      return { valid: false, reason: `Invalid event structure at event ${i}: posw must be an object`, errorAt: i };
-    }
+  if (typeof candidate.previousHash !== 'string' && candidate.previousHash !== null) {
+    return {
+      valid: false,
+      reason: `Invalid event structure at event ${i}: previousHash must be a string or null`,
+      errorAt: i,
+    };
   }
 
-  return { valid: true };
+  const posw = candidate.posw;
+  if (typeof posw !== 'object' || posw === null || Array.isArray(posw)) {
+    return { valid: false, reason: `Invalid event structure at event ${i}: posw must be an object`, errorAt: i };
+  }
+
+  return null;
 }
 
 /**
@@ -463,13 +672,20 @@ const uncountedMetadata = (): ProofMetadata => ({
   averageTypingSpeed: 0,
 });
 
-function recomputeProofMetadata(events: StoredEvent[]): ProofMetadataVerificationResult {
-  let pasteEvents = 0;
-  let internalPasteEvents = 0;
-  let dropEvents = 0;
-  let insertEvents = 0;
-  let deleteEvents = 0;
-  const suspiciousBulkInsertEventIndexes: number[] = [];
+/**
+ * events から metadata を数え直す (逐次版。配列版とストリーム検証 ADR-0039 で共有する)。
+ * `add` は events の全要素 (falsy も含む) を index 順に受け取る — totalEvents / totalTypingTime は
+ * 配列の長さと末尾要素で決まるため。
+ */
+class MetadataRecount {
+  private totalEvents = 0;
+  private lastTimestamp = 0;
+  private pasteEvents = 0;
+  private internalPasteEvents = 0;
+  private dropEvents = 0;
+  private insertEvents = 0;
+  private deleteEvents = 0;
+  private readonly suspiciousBulkInsertEventIndexes: number[] = [];
   // isPureTyping を崩す「正規でない bulk 挿入」の数。2 種を拾う:
   //  (a) 従来の suspicious bulk (insertReplacementText/replaceContent/insertText>1/大内部ペースト)
   //      のうち、括弧自動閉じ・単一行補完などの benign と、検証済み内部ペースト (自分の
@@ -479,61 +695,77 @@ function recomputeProofMetadata(events: StoredEvent[]): ProofMetadataVerificatio
   //      検証済み内部ペーストの実挿入は除外。
   // bulkInsertEvents の申告メタデータ照合 (verifyProofMetadata) は従来どおり suspicious のみ
   // 数えるので、既存 proof との後方互換と整合性チェックは保たれる。
-  let nonBenignBulkInsertCount = 0;
+  private nonBenignBulkInsertCount = 0;
   // #175: replay 文書と乖離した contentSnapshot。挿入イベント無しで文書を丸ごと差し替え
   // られる唯一の口なので、外部入力相当として isPureTyping を崩す (正規 snapshot は常に
   // 一致する no-op なので既存 proof に影響しない)。claimed metadata との照合カウントには
   // 含めない (後方互換)。
-  const divergentContentSnapshotEventIndexes: number[] = [];
+  private readonly divergentContentSnapshotEventIndexes: number[] = [];
   // #138: 内部ペーストの許可はマーカー (自己申告) でなく、replay で検証したセッション内在性。
-  const ledger = new SessionProvenanceLedger();
+  private readonly ledger = new SessionProvenanceLedger();
 
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i];
-    if (!event) continue;
+  add(event: StoredEvent | null | undefined, i: number): void {
+    this.totalEvents = i + 1;
+    this.lastTimestamp = event?.timestamp ?? 0;
+    if (!event) return;
 
-    if (event.inputType === 'insertFromPaste') pasteEvents++;
-    if (event.inputType === 'insertFromInternalPaste') internalPasteEvents++;
-    if (event.inputType === 'insertFromDrop') dropEvents++;
-    if (event.type === 'contentChange' && event.data) insertEvents++;
-    if (event.inputType?.startsWith('delete')) deleteEvents++;
+    if (event.inputType === 'insertFromPaste') this.pasteEvents++;
+    if (event.inputType === 'insertFromInternalPaste') this.internalPasteEvents++;
+    if (event.inputType === 'insertFromDrop') this.dropEvents++;
+    if (event.type === 'contentChange' && event.data) this.insertEvents++;
+    if (event.inputType?.startsWith('delete')) this.deleteEvents++;
 
-    if (isDivergentContentSnapshot(event, ledger.currentContent)) {
-      divergentContentSnapshotEventIndexes.push(i);
+    if (isDivergentContentSnapshot(event, this.ledger.currentContent)) {
+      this.divergentContentSnapshotEventIndexes.push(i);
     }
-    const sessionDerived = ledger.checkAndApply(event);
+    const sessionDerived = this.ledger.checkAndApply(event);
     const suspicious = isSuspiciousBulkInsert(event);
-    if (suspicious) suspiciousBulkInsertEventIndexes.push(i);
+    if (suspicious) this.suspiciousBulkInsertEventIndexes.push(i);
     if ((suspicious && !isBenignEditorInsert(event) && !sessionDerived) || isFlaggedBulkInsert(event, sessionDerived)) {
-      nonBenignBulkInsertCount++;
+      this.nonBenignBulkInsertCount++;
     }
   }
 
-  const totalTypingTime = events[events.length - 1]?.timestamp ?? 0;
-  const averageTypingSpeed = totalTypingTime > 0 ? Math.round((insertEvents / (totalTypingTime / 60000)) * 10) / 10 : 0;
+  result(): ProofMetadataVerificationResult {
+    const totalTypingTime = this.lastTimestamp;
+    const averageTypingSpeed =
+      totalTypingTime > 0 ? Math.round((this.insertEvents / (totalTypingTime / 60000)) * 10) / 10 : 0;
+
+    const recomputedMetadata = {
+      totalEvents: this.totalEvents,
+      pasteEvents: this.pasteEvents,
+      internalPasteEvents: this.internalPasteEvents,
+      dropEvents: this.dropEvents,
+      insertEvents: this.insertEvents,
+      deleteEvents: this.deleteEvents,
+      bulkInsertEvents: this.suspiciousBulkInsertEventIndexes.length,
+      totalTypingTime,
+      averageTypingSpeed,
+    };
 
-  const recomputedMetadata = {
-    totalEvents: events.length,
-    pasteEvents,
-    internalPasteEvents,
-    dropEvents,
-    insertEvents,
-    deleteEvents,
-    bulkInsertEvents: suspiciousBulkInsertEventIndexes.length,
-    totalTypingTime,
-    averageTypingSpeed,
-  };
+    return {
+      valid: true,
+      isPureTyping:
+        this.pasteEvents === 0 &&
+        this.dropEvents === 0 &&
+        this.nonBenignBulkInsertCount === 0 &&
+        this.divergentContentSnapshotEventIndexes.length === 0,
+      recomputedMetadata,
+      suspiciousBulkInsertEventIndexes: [...this.suspiciousBulkInsertEventIndexes],
+      divergentContentSnapshotEventIndexes: [...this.divergentContentSnapshotEventIndexes],
+    };
+  }
+}
 
+/** 構造検証で弾いたときの metadata 検証結果 (再カウントは行わない) */
+function unstructuredMetadataResult(reason: string | undefined): ProofMetadataVerificationResult {
   return {
-    valid: true,
-    isPureTyping:
-      pasteEvents === 0 &&
-      dropEvents === 0 &&
-      nonBenignBulkInsertCount === 0 &&
-      divergentContentSnapshotEventIndexes.length === 0,
-    recomputedMetadata,
-    suspiciousBulkInsertEventIndexes,
-    divergentContentSnapshotEventIndexes,
+    valid: false,
+    reason,
+    isPureTyping: false,
+    recomputedMetadata: uncountedMetadata(),
+    suspiciousBulkInsertEventIndexes: [],
+    divergentContentSnapshotEventIndexes: [],
   };
 }
 
@@ -541,23 +773,27 @@ function recomputeProofMetadata(events: StoredEvent[]): ProofMetadataVerificatio
  * Recompute proof metadata from events and compare self-reported counts.
  *
  * 再カウントの前に `verifyEventArrayStructure` で events の構造を検査する (#221)。
- * verify (web) の verificationWorker と verify-cli (`verifyProofFile` 経由) は
- * どちらも必ず本関数を通るため、構造検証はここ 1 箇所で両経路に効く。
+ * verify (web) の verificationWorker と verify-cli (`verifyProofFile` / `verifyProofStream` 経由) は
+ * どちらも必ず同じ検査を通るため、構造検証はここ 1 箇所で両経路に効く。
  */
 export function verifyProofMetadata(proofData: ProofData, events: StoredEvent[]): ProofMetadataVerificationResult {
   const structure = verifyEventArrayStructure(events);
   if (!structure.valid) {
-    return {
-      valid: false,
-      reason: structure.reason,
-      isPureTyping: false,
-      recomputedMetadata: uncountedMetadata(),
-      suspiciousBulkInsertEventIndexes: [],
-      divergentContentSnapshotEventIndexes: [],
-    };
+    return unstructuredMetadataResult(structure.reason);
   }
 
-  const result = recomputeProofMetadata(events);
+  const recount = new MetadataRecount();
+  for (let i = 0; i < events.length; i++) {
+    recount.add(events[i], i);
+  }
+  return compareClaimedMetadata(proofData, recount.result());
+}
+
+/** 数え直した metadata と申告 metadata を照合する */
+function compareClaimedMetadata(
+  proofData: ProofData,
+  result: ProofMetadataVerificationResult
+): ProofMetadataVerificationResult {
   const claimed = proofData.metadata;
   const recomputed = result.recomputedMetadata;
   const countKeys = [
@@ -598,18 +834,45 @@ export function verifyProofMetadata(proofData: ProofData, events: StoredEvent[])
   return result;
 }
 
+/**
+ * events[0..i] の Merkle 根 (ADR-0040) を、`merkleRoot` を持つ checkpoint の eventIndex i ごとに返す。
+ * `hash` が文字列でない event で止める (以降の根は返さない。構造検証が proof を弾く)。
+ */
+async function checkpointMerkleRoots(
+  events: StoredEvent[],
+  checkpoints: NonNullable<ExportedProof['checkpoints']>
+): Promise<Map<number, string>> {
+  const wanted = new Set(checkpoints.filter((cp) => cp.merkleRoot !== undefined).map((cp) => cp.eventIndex));
+  const roots = new Map<number, string>();
+  const accumulator = new MerkleAccumulator();
+  for (let i = 0; i < events.length && roots.size < wanted.size; i++) {
+    const hash = events[i]?.hash;
+    if (typeof hash !== 'string') break;
+    await accumulator.append(hash);
+    if (wanted.has(i)) roots.set(i, (await accumulator.root())!);
+  }
+  return roots;
+}
+
 /**
  * Verify that exported checkpoints match the fully verified event list.
  * Checkpoints are not a substitute for full verification because they are
  * exported with the proof and are not independently signed.
+ *
+ * `merkleRoots` は checkpoint の eventIndex → events[0..eventIndex] の Merkle 根 (ADR-0040)。
+ * 省略時は `events` から計算する (ストリーム検証は走査中に数えたものを渡す)。
  */
 export async function verifyCheckpoints(
   events: StoredEvent[],
-  checkpoints?: ExportedProof['checkpoints']
+  checkpoints?: ExportedProof['checkpoints'],
+  merkleRoots?: ReadonlyMap<number, string>
 ): Promise<{ valid: boolean; reason?: string; errorAt?: number }> {
   if (!checkpoints || checkpoints.length === 0) {
     return { valid: true };
   }
+  const roots =
+    merkleRoots ??
+    (checkpoints.some((cp) => cp.merkleRoot !== undefined) ? await checkpointMerkleRoots(events, checkpoints) : null);
 
   let lastIndex = -1;
   for (const checkpoint of checkpoints) {
@@ -658,6 +921,14 @@ export async function verifyCheckpoints(
       };
     }
 
+    if (checkpoint.merkleRoot !== undefined && checkpoint.merkleRoot !== roots?.get(checkpoint.eventIndex)) {
+      return {
+        valid: false,
+        reason: `Checkpoint Merkle root mismatch at event ${checkpoint.eventIndex}`,
+        errorAt: checkpoint.eventIndex,
+      };
+    }
+
     lastIndex = checkpoint.eventIndex;
   }
 
@@ -666,19 +937,21 @@ export async function verifyCheckpoints(
 
 /**
  * Verify PoSW (Proof of Sequential Work)
+ *
+ * `hashSuite` は proof の suite (ADR-0044)。省略時は既定 suite、未知の suite は false。
  */
-export async function verifyPoSW(previousHash: string, eventDataString: string, posw: PoSWData): Promise<boolean> {
-  if (posw.iterations !== POSW_ITERATIONS) {
+export async function verifyPoSW(
+  previousHash: string,
+  eventDataString: string,
+  posw: PoSWData,
+  hashSuite: HashSuiteId = DEFAULT_HASH_SUITE
+): Promise<boolean> {
+  const suite = getHashSuite(hashSuite);
+  if (!suite || posw.iterations !== suite.poswIterations) {
     return false;
   }
 
-  let hash = await computeHash(previousHash + eventDataString + posw.nonce);
-
-  for (let i = 1; i < posw.iterations; i++) {
-    hash = await computeHash(hash);
-  }
-
-  return hash === posw.intermediateHash;
+  return (await suite.computePoswHash(previousHash + eventDataString + posw.nonce)) === posw.intermediateHash;
 }
 
 /**
@@ -708,23 +981,88 @@ export async function verifyTypingProofHash(
 }
 
 /**
- * Verify hash chain with PoSW
- *
- * `options.skipPosw: true` で PoSW 反復再計算をスキップする。
- * iterations 値の整合性チェックと hash 連鎖検証は引き続き行う。
+ * event の hash と PoSW の seed に入るフィールド (PoSW 自身を除く)。`ChainReplay` と改ざんの分析
+ * (`tamperForensics.ts`) が同じ組み立てを使う。
  */
-export async function verifyChain(
-  events: StoredEvent[],
-  onProgress?: VerificationProgressCallback,
-  options: { skipPosw?: boolean } = {}
-): Promise<VerificationResult> {
-  let hash = events[0]?.previousHash ?? null;
-  let lastTimestamp = -Infinity;
-  const total = events.length;
+export function eventHashFields(event: StoredEvent): Omit<EventHashData, 'posw'> {
+  return {
+    sequence: event.sequence,
+    timestamp: event.timestamp,
+    type: event.type,
+    inputType: event.inputType,
+    data: event.data,
+    rangeOffset: event.rangeOffset,
+    rangeLength: event.rangeLength,
+    range: event.range,
+    previousHash: event.previousHash,
+  };
+}
 
-  for (let i = 0; i < events.length; i++) {
-    const event = events[i];
-    if (!event) continue;
+interface ChainReplayOptions {
+  skipPosw?: boolean;
+  poswSample?: ReadonlySet<number>;
+  /** proof が名乗る PoSW の suite (ADR-0044、未検査の値)。省略時は既定 suite、未知なら最初の event で不正 */
+  hashSuite?: HashSuiteId;
+}
+
+/**
+ * `verifyChain` の逐次版。falsy でない event を index 順に `step` へ渡す。最初の不正で止まる。
+ * 配列版とストリーム検証 (ADR-0039) が同じ実装を通る。
+ */
+class ChainReplay {
+  private hash: string | null;
+  private lastTimestamp = -Infinity;
+  private failure: VerificationResult | null = null;
+  private readonly suite: HashSuite | null;
+
+  constructor(
+    initialHash: string | null,
+    private readonly options: ChainReplayOptions
+  ) {
+    this.hash = initialHash;
+    this.suite = resolveProofHashSuite(options);
+  }
+
+  get failed(): boolean {
+    return this.failure !== null;
+  }
+
+  /** event を 1 件検証する。不正なら false を返し、以降は呼ばない前提 */
+  async step(event: StoredEvent, i: number): Promise<boolean> {
+    this.failure = await this.check(event, i);
+    if (this.failure) return false;
+    this.hash = event.hash;
+    return true;
+  }
+
+  finish(total: number): VerificationResult {
+    if (this.failure) return this.failure;
+
+    const poswNote = this.options.skipPosw
+      ? ' (PoSW skipped)'
+      : this.options.poswSample
+        ? ` (PoSW sampled ${this.options.poswSample.size}/${total})`
+        : '';
+    return {
+      valid: true,
+      message: `All hashes verified successfully${poswNote}`,
+      computedHash: this.hash ?? undefined,
+    };
+  }
+
+  private async check(event: StoredEvent, i: number): Promise<VerificationResult | null> {
+    const hash = this.hash;
+    const suite = this.suite;
+
+    // ADR-0044: 未知の suite の PoSW は検証できない (fail-closed)
+    if (!suite) {
+      return {
+        valid: false,
+        errorAt: i,
+        message: `Unsupported hash suite: ${String(this.options.hashSuite)}`,
+        event,
+      };
+    }
 
     // Sequence check
     if (event.sequence !== i) {
@@ -737,7 +1075,7 @@ export async function verifyChain(
     }
 
     // Timestamp check
-    if (event.timestamp < lastTimestamp) {
+    if (event.timestamp < this.lastTimestamp) {
       return {
         valid: false,
         errorAt: i,
@@ -745,7 +1083,7 @@ export async function verifyChain(
         event,
       };
     }
-    lastTimestamp = event.timestamp;
+    this.lastTimestamp = event.timestamp;
 
     // Previous hash check
     if (event.previousHash !== hash) {
@@ -758,31 +1096,21 @@ export async function verifyChain(
     }
 
     // Build event data for PoSW verification
-    const eventDataWithoutPoSW = {
-      sequence: event.sequence,
-      timestamp: event.timestamp,
-      type: event.type,
-      inputType: event.inputType,
-      data: event.data,
-      rangeOffset: event.rangeOffset,
-      rangeLength: event.rangeLength,
-      range: event.range,
-      previousHash: event.previousHash,
-    };
+    const eventDataWithoutPoSW = eventHashFields(event);
 
-    // PoSW verification
-    if (event.posw.iterations !== POSW_ITERATIONS) {
+    // PoSW verification (反復回数とアルゴリズムは proof の suite で決まる。ADR-0044)
+    if (event.posw.iterations !== suite.poswIterations) {
       return {
         valid: false,
         errorAt: i,
-        message: `PoSW iterations mismatch at event ${i}: expected ${POSW_ITERATIONS}, got ${event.posw.iterations}`,
+        message: `PoSW iterations mismatch at event ${i}: expected ${suite.poswIterations}, got ${event.posw.iterations}`,
         event,
       };
     }
 
-    if (!options.skipPosw) {
+    if (!this.options.skipPosw && (!this.options.poswSample || this.options.poswSample.has(i))) {
       const eventDataStringForPoSW = deterministicStringify(eventDataWithoutPoSW);
-      const poswValid = await verifyPoSW(hash ?? '', eventDataStringForPoSW, event.posw);
+      const poswValid = await verifyPoSW(hash ?? '', eventDataStringForPoSW, event.posw, suite.id);
 
       if (!poswValid) {
         return {
@@ -815,18 +1143,60 @@ export async function verifyChain(
       };
     }
 
-    hash = event.hash;
+    return null;
+  }
+}
+
+/**
+ * Verify hash chain with PoSW
+ *
+ * `options.skipPosw: true` で PoSW 反復再計算をスキップする。
+ * `options.poswSample` を渡すと、その index の event だけ PoSW を再計算する (`audit`、ADR-0034)。
+ * どちらの場合も iterations 値の整合性チェックと hash 連鎖検証は全 event について行う。
+ */
+export async function verifyChain(
+  events: StoredEvent[],
+  onProgress?: VerificationProgressCallback,
+  options: ChainReplayOptions = {}
+): Promise<VerificationResult> {
+  const chain = new ChainReplay(events[0]?.previousHash ?? null, options);
+  const total = events.length;
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (!event) continue;
+
+    if (!(await chain.step(event, i))) break;
 
     if (onProgress) {
       onProgress(i + 1, total);
     }
   }
 
-  return {
-    valid: true,
-    message: options.skipPosw ? 'All hashes verified successfully (PoSW skipped)' : 'All hashes verified successfully',
-    computedHash: hash ?? undefined,
-  };
+  return chain.finish(total);
+}
+
+/**
+ * events の連続した一部 (先頭が `firstEventIndex` 番目) の hash chain を検証する (ADR-0040)。
+ *
+ * 区間の先頭 event の `previousHash` から連鎖を再計算するので、区間より前の events は要らない。
+ * 保証するのは「区間の中で hash chain と PoSW が閉じている」ことだけで、区間がどの proof の
+ * 一部かは Merkle 根 (署名 cp) で別に結びつける。`errorAt` は proof 全体での index。
+ */
+export async function verifyChainSegment(
+  events: StoredEvent[],
+  firstEventIndex: number,
+  options: ChainReplayOptions = {}
+): Promise<VerificationResult> {
+  const chain = new ChainReplay(events[0]?.previousHash ?? null, options);
+  for (let k = 0; k < events.length; k++) {
+    const event = events[k];
+    if (!event) {
+      return { valid: false, errorAt: firstEventIndex + k, message: `Missing event at ${firstEventIndex + k}` };
+    }
+    if (!(await chain.step(event, firstEventIndex + k))) break;
+  }
+  return chain.finish(events.length);
 }
 
 /**
@@ -834,7 +1204,7 @@ export async function verifyChain(
  *
  * `options.mode`:
  * - 'fast'  → PoSW 再計算をスキップ。chain/content/metadata/signed checkpoint は実施
- * - 'audit' → 現状は 'full' と同等 (将来: 決定的 PoSW サンプリングを追加)
+ * - 'audit' → fast の検査 + 最終 hash から決定的に選んだ標本の PoSW 再計算 (`options.auditConfidence`)
  * - 'full'  → デフォルト。全 PoSW を再計算
  *
  * 注: 'fast' モードでも、PoSW の **正しさ** だけは保証されないが、proof の
@@ -842,13 +1212,124 @@ export async function verifyChain(
  *     signed checkpoint があれば、サーバ署名による temporal anchoring も検証される。
  */
 export async function verifyProofFile(
-  proof: ProofFile,
+  proof: MigratedProof,
   onProgress?: VerificationProgressCallback,
   options: VerifyProofFileOptions = {}
 ): Promise<FullVerificationResult> {
+  return verifyProofStream(toProofEventStream(proof), onProgress, options);
+}
+
+/**
+ * メモリ上の proof を `ProofEventStream` にする (events 配列をそのまま流す)。
+ */
+export function toProofEventStream(proof: MigratedProof): ProofEventStream {
+  const { events, ...signature } = proof.proof;
+  const isArray = Array.isArray(events);
+  return {
+    header: { ...proof, proof: signature },
+    eventCount: isArray ? events.length : 0,
+    lastEventHash: isArray ? events[events.length - 1]?.hash : undefined,
+    events: isArray ? events : null,
+  };
+}
+
+/**
+ * checkpoint / 署名 cp が指す event と先頭 event (root の照合に使う) の index。
+ * ストリーム検証で保持するのはこれらだけ。
+ */
+function referencedEventIndexes(checkpoints: MigratedProof['checkpoints']): Set<number> {
+  const indexes = new Set<number>([0]);
+  for (const checkpoint of checkpoints) {
+    indexes.add(checkpoint.eventIndex);
+    if (isSignedCheckpointEnvelope(checkpoint.signature)) indexes.add(checkpoint.signature.payload.eventIndex);
+  }
+  return indexes;
+}
+
+/**
+ * events を 1 件ずつ読みながら proof を検証する (ADR-0039)。結果は `verifyProofFile` と同一。
+ *
+ * 構造検査・metadata の再カウント・hash chain (PoSW を含む)・content replay を 1 回の走査で
+ * 逐次に行い、検査し終えた event は捨てる。保持するのは checkpoint / 署名 cp が指す event と
+ * 先頭 event だけなので、メモリは event 数ではなく checkpoint 数に比例する。
+ * `stream.events` が `eventCount` と違う件数を返したら throw する。
+ */
+export async function verifyProofStream(
+  stream: ProofEventStream,
+  onProgress?: VerificationProgressCallback,
+  options: VerifyProofFileOptions = {}
+): Promise<FullVerificationResult> {
+  const { header, eventCount } = stream;
   const mode = options.mode ?? 'full';
   const skipPosw = mode === 'fast';
-  const events = proof.proof.events;
+  const audit =
+    mode === 'audit'
+      ? await planPoswAuditFromTail(
+          eventCount,
+          stream.lastEventHash,
+          options.auditConfidence ?? POSW_AUDIT_DEFAULT_CONFIDENCE
+        )
+      : undefined;
+  const chainOptions: ChainReplayOptions = {
+    skipPosw,
+    poswSample: audit ? new Set(audit.sample) : undefined,
+    // ADR-0044: proof が名乗る suite で PoSW を検証する
+    hashSuite: header.hashSuite,
+  };
+
+  // 走査: 構造検査 → 再カウント、chain、content replay を event ごとに進める。
+  // 構造違反の後は再カウントしない (verifyProofMetadata と同じ。#221)。
+  const referenced = referencedEventIndexes(header.checkpoints);
+  const events: StoredEvent[] = stream.events ? new Array<StoredEvent>(eventCount) : [];
+  let structure: EventArrayStructureResult = stream.events ? { valid: true } : verifyEventArrayStructure(stream.events);
+  const recount = new MetadataRecount();
+  const continuation = isProofContinuation(header.continuation) ? header.continuation : undefined;
+  const replay = new ContentReplay(continuation ?? null);
+  let chain = new ChainReplay(null, chainOptions);
+  // ADR-0040: Merkle 根を持つ checkpoint があるときだけ葉を積む (無ければ hash 計算を足さない)
+  const merkle = header.checkpoints?.some((cp) => cp.merkleRoot !== undefined) ? new MerkleAccumulator() : null;
+  const merkleRoots = new Map<number, string>();
+  // ADR-0042: 較正した PoSW 速度で、計算が申告 timestamp に遅れる下限を積む
+  const timing = new PoswTimingAccumulator(header.checkpoints, header.hashSuite);
+  let index = 0;
+
+  for await (const value of stream.events ?? []) {
+    const i = index++;
+    if (i >= eventCount) break;
+    const event = value as StoredEvent | null | undefined;
+
+    if (i === 0) chain = new ChainReplay(event?.previousHash ?? null, chainOptions);
+
+    if (structure.valid) {
+      const failure = checkEventStructure(value, i);
+      if (failure) structure = failure;
+      else recount.add(event, i);
+    }
+
+    if (event && !chain.failed && (await chain.step(event, i)) && onProgress) {
+      onProgress(i + 1, eventCount);
+    }
+
+    replay.apply(event, i);
+    timing.add(event, i);
+
+    if (merkle && merkle.size === i && typeof event?.hash === 'string') {
+      await merkle.append(event.hash);
+      if (referenced.has(i)) merkleRoots.set(i, (await merkle.root())!);
+    }
+
+    if (referenced.has(i)) events[i] = event as StoredEvent;
+  }
+
+  if (index !== eventCount) {
+    throw new Error(
+      index > eventCount
+        ? `Proof event stream yielded more than the declared ${eventCount} events`
+        : `Proof event stream yielded ${index} of the declared ${eventCount} events`
+    );
+  }
+
+  const proof: MigratedProof = { ...header, proof: { ...header.proof, events } };
 
   // 1. Verify metadata
   let metadataValid = false;
@@ -864,7 +1345,9 @@ export async function verifyProofFile(
     const rootResult = await verifyInitialHashRoot(proof, {
       signedCheckpointKeyRegistry: options.signedCheckpointKeyRegistry,
     });
-    eventMetadataResult = verifyProofMetadata(proof.typingProofData, events);
+    eventMetadataResult = structure.valid
+      ? compareClaimedMetadata(proof.typingProofData, recount.result())
+      : unstructuredMetadataResult(structure.reason);
     rootValid = rootResult.valid;
     rootAnchored = rootResult.rootAnchored;
     metadataValid = metaResult.valid && rootValid && eventMetadataResult.valid;
@@ -878,15 +1361,15 @@ export async function verifyProofFile(
     metadataError = 'Typing proof metadata is missing';
   }
 
-  // 2. Verify hash chain (PoSW skipped in fast mode)
-  const chainResult = await verifyChain(events, onProgress, { skipPosw });
+  // 2. Hash chain (PoSW skipped in fast mode, sampled in audit mode) は走査で検証済み
+  const chainResult = chain.finish(eventCount);
   const finalHashResult = chainResult.valid
     ? verifyFinalChainHash(proof, chainResult.computedHash)
     : { valid: false, reason: chainResult.message };
-  const checkpointResult = await verifyCheckpoints(events, proof.checkpoints);
+  const checkpointResult = await verifyCheckpoints(events, proof.checkpoints, merkleRoots);
   const contentResult =
     proof.content !== undefined && proof.content !== null
-      ? verifyContentReplay(events, proof.content)
+      ? await verifyContinuedContent(replay, continuation, replay.finish(proof.content))
       : { valid: false, reason: 'Final content is missing' };
   const chainValid = chainResult.valid && finalHashResult.valid && checkpointResult.valid && contentResult.valid;
 
@@ -894,6 +1377,8 @@ export async function verifyProofFile(
   const signedCheckpointResult = await verifyProofSignedCheckpoints(proof, {
     registry: options.signedCheckpointKeyRegistry,
     requireAnchorDensity: options.requireAnchorDensity,
+    transparencyLog: options.transparencyLogEvidence,
+    tsaRootCertificates: options.tsaRootCertificates,
   });
 
   // 4. ADR-0017: セッション開始トークンと署名 cp の sessionId 突合 (アンカーとチェーンの結びつき)。
@@ -901,13 +1386,21 @@ export async function verifyProofFile(
   //    「別セッションのトークンを流用」を弾く。署名 cp が無いときはスキップ (突合相手がない)。
   let tokenSessionMismatch: string | undefined;
   if (proof.sessionStartToken && rootValid) {
-    const signedCp = (proof.checkpoints ?? []).find((cp) => cp.signature);
-    const cpSessionId = signedCp?.signature?.payload.sessionId;
+    const cpSessionId = proof.checkpoints.map((cp) => cp.signature).find(isSignedCheckpointEnvelope)?.payload.sessionId;
     if (cpSessionId && cpSessionId !== proof.sessionStartToken.payload.sessionId) {
       tokenSessionMismatch = 'Session start token sessionId does not match signed checkpoint sessionId';
     }
   }
 
+  // 4b. ADR-0047: 提出レシートがこの proof の最終状態を載せているか (渡されたときのみ)。
+  //     最終 hash が chain と合うかは上の finalHash 検証が見るので、ここはレシートとの突合だけ。
+  const receiptResult = options.submissionReceipt
+    ? await verifySubmissionReceiptForProof(options.submissionReceipt, proof, {
+        registry: options.signedCheckpointKeyRegistry,
+      })
+    : undefined;
+  const receiptBlocks = receiptResult !== undefined && !receiptResult.valid;
+
   // 5. ADR-0017: root アンカー必須 (strict, opt-in)。exam の免除は「束縛が実際に検証済み」の
   //    ときだけ (#131)。exam ブロックの存在だけで免除すると、架空の exam ブロック (root は exam 式で
   //    自己整合する) を付けるだけで gate を回避できてしまう。
@@ -932,14 +1425,22 @@ export async function verifyProofFile(
               ? tokenSessionMismatch
               : signedCheckpointBlocks
                 ? signedCheckpointResult.reason
-                : rootAnchorBlocks
-                  ? proof.exam
-                    ? 'Root anchoring is required and the exam binding is not verified (provide and verify the exam package to exempt an exam proof)'
-                    : 'Root is not server-anchored (ADR-0017) but root anchoring is required'
-                  : chainResult.message;
+                : receiptBlocks
+                  ? receiptResult?.reason
+                  : rootAnchorBlocks
+                    ? proof.exam
+                      ? 'Root anchoring is required and the exam binding is not verified (provide and verify the exam package to exempt an exam proof)'
+                      : 'Root is not server-anchored (ADR-0017) but root anchoring is required'
+                    : chainResult.message;
 
   return {
-    valid: metadataValid && chainValid && !signedCheckpointBlocks && !tokenSessionMismatch && !rootAnchorBlocks,
+    valid:
+      metadataValid &&
+      chainValid &&
+      !signedCheckpointBlocks &&
+      !tokenSessionMismatch &&
+      !receiptBlocks &&
+      !rootAnchorBlocks,
     metadataValid,
     rootValid,
     rootAnchored,
@@ -951,8 +1452,11 @@ export async function verifyProofFile(
     errorAt: chainResult.errorAt ?? checkpointResult.errorAt ?? signedCheckpointResult.errorAt,
     errorMessage: verificationError,
     poswSkipped: skipPosw,
+    poswAudit: audit?.summary,
     signedCheckpoints: signedCheckpointResult,
     sessionTokenMismatch: !!tokenSessionMismatch,
+    poswTiming: timing.finish(),
+    submissionReceipt: receiptResult,
   };
 }
 
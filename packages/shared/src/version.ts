@@ -14,8 +14,26 @@
  * `SHA256(fp ‖ localNonce ‖ serverNonce)` でサーバアンカーし、proof に `sessionStartToken` と
  * `rootAnchored` を加算する。トークン非同梱 (旧 proof / オフライン劣化) は `rootAnchored:false` で
  * 受理 = 後方互換。`MIN_SUPPORTED_VERSION` は 1.0.0 据え置き。exam root 式は不変。
+ *
+ * 1.3.0: 前の proof からの継続 (ADR-0041) を追加。継続した proof は root を
+ * `SHA256(baseRoot ‖ previousFinalEventChainHash ‖ previousContentHash)` で包み、`continuation` と
+ * `sessionContinued` イベントを加算する。継続しない proof の構造は不変。旧検証器は継続した proof の
+ * root 不一致で fail-closed。`MIN_SUPPORTED_VERSION` は 1.0.0 据え置き。
+ *
+ * 1.4.0: PoSW 速度の較正 (ADR-0042) を追加。タブ作成時に `poswCalibration` イベントを記録する。
+ * root 式・既存イベントは不変。旧検証器は未知のイベント型で fail-closed。
+ * `MIN_SUPPORTED_VERSION` は 1.0.0 据え置き。
+ *
+ * 1.5.0: PoSW の suite (ADR-0044) を追加。既定以外の suite (memory-hard な Argon2id 連鎖) で記録した
+ * proof だけが `hashSuite` を持ち、検証器はそれで PoSW のアルゴリズムと反復回数を選ぶ。既定 suite の
+ * proof の構造は不変。旧検証器は既定以外の suite の proof を iterations 不一致で fail-closed。
+ * `MIN_SUPPORTED_VERSION` は 1.0.0 据え置き。
+ *
+ * 1.6.0: RFC 3161 のタイムスタンプトークン (ADR-0049) を追加。`checkpoints[].signature` は ECDSA の
+ * envelope に加えて `{ algorithm: 'RFC3161', token, clientTimestamp }` を取りうる。root 式・イベントは不変。
+ * 旧検証器はトークンの checkpoint を署名不正で fail-closed。`MIN_SUPPORTED_VERSION` は 1.0.0 据え置き。
  */
-export const PROOF_FORMAT_VERSION = '1.2.0';
+export const PROOF_FORMAT_VERSION = '1.6.0';
 
 /** 試験問題パッケージ (`*.tcexam`) フォーマットバージョン (ADR-0006) */
 export const EXAM_PACKAGE_FORMAT_VERSION = 1 as const;
@@ -45,6 +63,15 @@ export const SIGNED_CHECKPOINT_FORMAT_VERSION = 1 as const;
 /** セッション開始トークン (ADR-0017) の payload フォーマットバージョン */
 export const SESSION_TOKEN_FORMAT_VERSION = 1 as const;
 
+/** 透明性ログ (ADR-0046) の署名済みツリーヘッド payload フォーマットバージョン */
+export const TREE_HEAD_FORMAT_VERSION = 1 as const;
+
+/** 提出レシート (ADR-0047) の payload フォーマットバージョン */
+export const SUBMISSION_RECEIPT_FORMAT_VERSION = 1 as const;
+
+/** 署名鍵の key set (ADR-0048) の payload フォーマットバージョン */
+export const CHECKPOINT_KEY_SET_FORMAT_VERSION = 1 as const;
+
 /** 最小サポートバージョン */
 export const MIN_SUPPORTED_VERSION = '1.0.0';
 
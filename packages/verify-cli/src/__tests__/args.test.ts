@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { findFlagError, flagValue, flagValues, nonFlagArgs } from '../args.js';
+import {
+  COHORT_FLAGS,
+  EVAL_FLAGS,
+  findFlagError,
+  flagValue,
+  flagValues,
+  nonFlagArgs,
+  parseAuditConfidenceFlag,
+  parseFormatFlag,
+  parseMaxFprFlag,
+  parseModeFlag,
+  SIMILARITY_FLAGS,
+} from '../args.js';
 
 /**
  * #148: 未知フラグ・タイポの黙殺はセキュリティゲートのサイレント無効化になる。
@@ -14,6 +26,8 @@ describe('findFlagError', () => {
     expect(findFlagError(['proof.zip', '--mode', 'fast'])).toBeNull();
     expect(findFlagError(['proof.zip', '--mode=fast'])).toBeNull();
     expect(findFlagError(['p.zip', '--analyzer', 'a.mjs', '--analyzer=b.mjs'])).toBeNull();
+    expect(findFlagError(['submissions/', '--jobs', '4'])).toBeNull();
+    expect(findFlagError(['dropbox/', '--watch', '--policy', 'grading.json'])).toBeNull();
   });
 
   it('rejects a typo of a security gate flag instead of silently ignoring it', () => {
@@ -53,3 +67,71 @@ describe('nonFlagArgs', () => {
     ]);
   });
 });
+
+describe('subcommand flag specs', () => {
+  it('accepts cohort-only flags under COHORT_FLAGS', () => {
+    expect(findFlagError(['dir', '--baseline-out', 'b.json', '--positions-json=p.json'], COHORT_FLAGS)).toBeNull();
+    expect(nonFlagArgs(['dir', '--baseline-out', 'b.json'], COHORT_FLAGS)).toEqual(['dir']);
+  });
+
+  it('rejects verification gates that mean nothing to cohort', () => {
+    expect(findFlagError(['dir', '--require-root-anchor'], COHORT_FLAGS)).toContain('Unknown option');
+  });
+
+  it('accepts --json under SIMILARITY_FLAGS but not analyzer flags, which similarity does not run', () => {
+    expect(findFlagError(['dir', '--mode', 'fast', '--json', 'pairs.json'], SIMILARITY_FLAGS)).toBeNull();
+    expect(findFlagError(['dir', '--analyzer', 'x.mjs'], SIMILARITY_FLAGS)).toContain('Unknown option');
+  });
+
+  it('accepts analyzer and report flags under EVAL_FLAGS', () => {
+    expect(
+      findFlagError(
+        ['labels.json', '--analyzer', 'mine.mjs', '--no-default-analyzers', '--max-fpr=0.1', '--json', 'r.json'],
+        EVAL_FLAGS
+      )
+    ).toBeNull();
+    expect(findFlagError(['labels.json', '--baseline-out', 'b.json'], EVAL_FLAGS)).toContain('Unknown option');
+  });
+
+  it('rejects cohort flags on the default verify command', () => {
+    expect(findFlagError(['proof.zip', '--baseline-out', 'b.json'])).toContain('Unknown option');
+  });
+});
+
+describe('parseModeFlag', () => {
+  it('defaults to full and rejects unknown modes', () => {
+    expect(parseModeFlag([])).toBe('full');
+    expect(parseModeFlag(['--mode', 'audit'])).toBe('audit');
+    expect(() => parseModeFlag(['--mode', 'quick'])).toThrow(/Invalid --mode/);
+  });
+});
+
+describe('parseAuditConfidenceFlag', () => {
+  it('accepts a confidence in (0, 1) for audit mode and leaves the default to shared', () => {
+    expect(parseAuditConfidenceFlag([], 'audit')).toBeUndefined();
+    expect(parseAuditConfidenceFlag(['--audit-confidence', '0.99'], 'audit')).toBe(0.99);
+  });
+
+  it('rejects out-of-range values and use outside audit mode', () => {
+    expect(() => parseAuditConfidenceFlag(['--audit-confidence=1'], 'audit')).toThrow(/Invalid --audit-confidence/);
+    expect(() => parseAuditConfidenceFlag(['--audit-confidence=high'], 'audit')).toThrow(/Invalid/);
+    expect(() => parseAuditConfidenceFlag(['--audit-confidence', '0.9'], 'full')).toThrow(/--mode audit/);
+  });
+});
+
+describe('parseFormatFlag', () => {
+  it('defaults to text and rejects unknown formats', () => {
+    expect(parseFormatFlag([])).toBe('text');
+    expect(parseFormatFlag(['--format=ndjson'])).toBe('ndjson');
+    expect(() => parseFormatFlag(['--format', 'yaml'])).toThrow(/Invalid --format/);
+  });
+});
+
+describe('parseMaxFprFlag', () => {
+  it('leaves the default to shared and rejects rates outside [0, 1]', () => {
+    expect(parseMaxFprFlag([])).toBeUndefined();
+    expect(parseMaxFprFlag(['--max-fpr', '0.1'])).toBe(0.1);
+    expect(() => parseMaxFprFlag(['--max-fpr=5'])).toThrow(/Invalid --max-fpr/);
+    expect(() => parseMaxFprFlag(['--max-fpr', 'low'])).toThrow(/Invalid --max-fpr/);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * バッチ検証の I/O 契約。
+ *
+ * 各 proof の検証は verify.ts (→ shared) そのものなので、ここでは「ディレクトリから何を拾うか」
+ * 「集計 exit code が部分合格を成功と読まないか」「一覧表が失敗理由と読込エラーを落とさないか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { batchPassed, expandInputs, type BatchFileResult } from '../batch.js';
+import { formatBatchSummary } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+import { verificationResult } from './fixtures/results.js';
+
+describe('expandInputs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-batch-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('expands a directory to its .zip / .json / .tcproof files in name order, non-recursively', async () => {
+    await writeFile(join(dir, 'bob.zip'), '');
+    await writeFile(join(dir, 'alice.json'), '{}');
+    await writeFile(join(dir, 'carol.TCPROOF'), '');
+    await writeFile(join(dir, 'notes.txt'), '');
+    await writeFile(join(dir, 'alice.json.verify.json'), '{}'); // --watch の結果 JSON
+    await mkdir(join(dir, 'nested'));
+    await writeFile(join(dir, 'nested', 'carol.json'), '{}');
+
+    expect(await expandInputs([dir])).toEqual([
+      join(dir, 'alice.json'),
+      join(dir, 'bob.zip'),
+      join(dir, 'carol.TCPROOF'),
+    ]);
+  });
+
+  it('passes explicit files through unchanged, even with an unsupported extension', async () => {
+    await writeFile(join(dir, 'a.json'), '{}');
+    await writeFile(join(dir, 'b.txt'), '');
+
+    const inputs = [join(dir, 'b.txt'), join(dir, 'a.json')];
+    expect(await expandInputs(inputs)).toEqual(inputs);
+  });
+});
+
+describe('batchPassed', () => {
+  const pass: BatchFileResult = {
+    source: 'a.zip',
+    proofs: [{ filename: 'q1_proof.json', result: verificationResult() }],
+  };
+
+  it('passes only when every proof of every file is valid', () => {
+    expect(batchPassed([pass])).toBe(true);
+    expect(
+      batchPassed([
+        pass,
+        { source: 'b.zip', proofs: [{ filename: 'q1_proof.json', result: verificationResult({ valid: false }) }] },
+      ])
+    ).toBe(false);
+  });
+
+  it('fails when a file could not be read, even if every other proof passed', () => {
+    expect(batchPassed([pass, { source: 'broken.zip', proofs: [], error: 'No proof file found in ZIP' }])).toBe(false);
+  });
+});
+
+describe('formatBatchSummary', () => {
+  it('lists multi-tab archives one row per proof and the failure reason under failed rows', () => {
+    const text = plain(
+      formatBatchSummary([
+        {
+          source: 'alice.zip',
+          proofs: [
+            { filename: 'q1_proof.json', result: verificationResult() },
+            {
+              filename: 'q2_proof.json',
+              result: verificationResult({
+                valid: false,
+                chainValid: false,
+                errorMessage: 'Hash mismatch',
+                errorAt: 3,
+              }),
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(text).toContain('alice.zip#q1_proof.json');
+    expect(text).toMatch(/alice\.zip#q2_proof\.json +FAIL/);
+    expect(text).toContain('Hash mismatch (event 3)');
+    expect(text).toContain('1/2 proofs passed across 1 file(s)');
+  });
+
+  it('keeps unreadable files as error rows instead of dropping them', () => {
+    const text = plain(formatBatchSummary([{ source: 'broken.zip', proofs: [], error: 'No proof file found in ZIP' }]));
+
+    expect(text).toMatch(/broken\.zip +ERROR/);
+    expect(text).toContain('No proof file found in ZIP');
+    expect(text).toContain('1 file(s) could not be read');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * CI ダッシュボード向けレポート (`--junit` / `--sarif`) の写像。
+ *
+ * 合否は検証そのもの。ここでは「失敗の軸をどう分類するか」「JUnit が失敗・読込エラー・
+ * advisory な property を正しい要素に載せるか」「SARIF が証拠の行を region にし、
+ * advisory な signal を error にしないか」を固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { AnalysisSignal } from '@typedcode/shared';
+import { classifyFailures, formatJUnitReport, formatSarifReport } from '../ciReport.js';
+import type { CLIVerificationResult } from '../verify.js';
+import { verificationResult } from './fixtures/results.js';
+
+const signal: AnalysisSignal = {
+  analyzerId: 'example-pure-typing',
+  dimension: 'transcription-topology',
+  score: 0.3,
+  confidence: 0.5,
+  severity: 'review',
+  evidence: [{ fromEventIndex: 12, note: 'insertFromPaste' }],
+  summary: 'External input present: 1 paste',
+};
+
+/** 貼り付け 1 件と、その signal を持つ結果 (JUnit の property と SARIF の region の材料) */
+function result(overrides: Partial<CLIVerificationResult> = {}): CLIVerificationResult {
+  return verificationResult({
+    isPureTyping: false,
+    duration: 0.5,
+    pasteEvents: 1,
+    assurance: {
+      integrity: 'proven',
+      temporal: 'anchored',
+      provenance: { pureTyping: false, notableSignals: 1, reviewPriority: 0.3 },
+    },
+    analysis: { analyzerVersions: {}, reviewPriority: 0.3, signals: [signal] },
+    ...overrides,
+  });
+}
+
+describe('classifyFailures', () => {
+  it('reports a broken chain as an integrity failure with the event position', () => {
+    expect(
+      classifyFailures(result({ valid: false, chainValid: false, errorMessage: 'Hash mismatch', errorAt: 7 }))
+    ).toEqual([{ kind: 'integrity', message: 'Hash mismatch (event 7)' }]);
+  });
+
+  it('attributes a failure with a healthy chain to the anchoring gates', () => {
+    const failures = classifyFailures(
+      result({ valid: false, errorMessage: 'Root is not server-anchored (ADR-0017) but root anchoring is required' })
+    );
+    expect(failures.map((f) => f.kind)).toEqual(['temporal']);
+  });
+
+  it('reports tampered screenshots on their own axis', () => {
+    const screenshots = { total: 2, verified: 1, missing: 0, tampered: 1, chainOnly: 0 };
+    expect(classifyFailures(result({ valid: false, screenshots })).map((f) => f.kind)).toEqual(['screenshots']);
+  });
+
+  it('reports each tripped fail rule of a gate policy on the policy axis', () => {
+    const policy = {
+      source: 'grading.json',
+      sha256: '0'.repeat(64),
+      verificationPassed: true,
+      outcome: 'fail' as const,
+      tripped: [
+        { id: 'no-paste', action: 'fail' as const, message: 'Paste is not allowed', facts: {} },
+        { id: 'unanchored', action: 'warn' as const, facts: {} },
+      ],
+    };
+    expect(classifyFailures(result({ valid: false, policy }))).toEqual([
+      { kind: 'policy', message: 'no-paste: Paste is not allowed' },
+    ]);
+    // ポリシー適用前の検証も (時刻アンカー系ゲートで) 落ちていれば、その軸も残す。
+    expect(
+      classifyFailures(result({ valid: false, policy: { ...policy, verificationPassed: false } })).map((f) => f.kind)
+    ).toEqual(['policy', 'temporal']);
+  });
+
+  it('returns nothing for a passing proof', () => {
+    expect(classifyFailures(result())).toEqual([]);
+  });
+});
+
+describe('formatJUnitReport', () => {
+  const xml = formatJUnitReport([
+    {
+      source: 'alice & bob.zip',
+      proofs: [
+        { filename: 'q1_proof.json', result: result() },
+        { filename: 'q2_proof.json', result: result({ valid: false, chainValid: false, errorMessage: 'a < b' }) },
+      ],
+    },
+    { source: 'broken.zip', proofs: [], error: 'No proof file found in ZIP' },
+  ]);
+
+  it('counts tests, failures and errors across every submission', () => {
+    expect(xml).toMatch(/<testsuites name="typedcode-verify" tests="3" failures="1" errors="1"/);
+  });
+
+  it('writes one testcase per proof and escapes XML special characters', () => {
+    expect(xml).toContain('<testcase classname="alice &amp; bob.zip" name="q1_proof.json"');
+    expect(xml).toContain('<failure message="a &lt; b" type="integrity">a &lt; b</failure>');
+  });
+
+  it('keeps unreadable submissions as errors rather than dropping them', () => {
+    expect(xml).toContain('<error message="No proof file found in ZIP" type="load"/>');
+  });
+
+  it('carries assurance and analysis signals as properties, never as failures', () => {
+    expect(xml).toContain('<property name="assurance.temporal" value="anchored"/>');
+    expect(xml).toContain('name="signal.example-pure-typing.transcription-topology"');
+    expect(xml.match(/<failure /g)).toHaveLength(1);
+  });
+});
+
+describe('formatSarifReport', () => {
+  it('maps evidence to line regions of the source file next to the submission', () => {
+    const sarif = JSON.parse(
+      formatSarifReport([
+        {
+          source: 'submissions/alice.zip',
+          proofs: [
+            {
+              filename: 'main_proof.json',
+              result: result({
+                sourceFilename: 'main.c',
+                evidenceLocations: [{ signalIndex: 0, evidenceIndex: 0, lines: [{ startLine: 4, endLine: 6 }] }],
+              }),
+            },
+          ],
+        },
+      ])
+    );
+
+    const [entry] = sarif.runs[0].results;
+    expect(sarif.version).toBe('2.1.0');
+    expect(entry.ruleId).toBe('example-pure-typing');
+    expect(entry.level).toBe('warning');
+    expect(entry.locations).toEqual([
+      {
+        physicalLocation: {
+          artifactLocation: { uri: 'submissions/main.c' },
+          region: { startLine: 4, endLine: 6 },
+        },
+      },
+    ]);
+  });
+
+  it('falls back to a file-level location when the evidence did not survive in the final code', () => {
+    const sarif = JSON.parse(
+      formatSarifReport([{ source: 'a.json', proofs: [{ filename: 'a.json', result: result() }] }])
+    );
+    expect(sarif.runs[0].results[0].locations).toEqual([{ physicalLocation: { artifactLocation: { uri: 'a.json' } } }]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * `cohort` サブコマンド (ADR-0025) の I/O 契約。
+ *
+ * 統計そのものは shared (cohort.test.ts) で固定済み。ここでは「ディレクトリから何を拾うか」
+ * 「学生ラベルをどう付けるか」「中央値距離の順に並ぶか」「小 N の警告が出るか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AnalysisBundle, ProcessSummary } from '@typedcode/shared';
+import { collectCohortMembers, rankCohort } from '../cohort.js';
+import { formatCohortReport } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+
+function bundle(durationMs: number): AnalysisBundle {
+  const processSummary: ProcessSummary = {
+    totalEvents: 100,
+    durationMs,
+    contentChangeCount: 100,
+    insertedChars: 100,
+    deletedChars: 5,
+    deletionRatio: 0.05,
+    executionCount: 1,
+    hasRunResults: true,
+    runSuccessCount: 1,
+    runFailureCount: 0,
+    pauseCount: 2,
+    longestPauseMs: 12000,
+    focusLossCount: 0,
+    externalInputCount: 0,
+    reflectionNotes: [],
+    moments: [],
+  };
+  return {
+    schema: 'analysis-bundle/1',
+    integrityValid: true,
+    processSummary,
+    analysis: { analyzerVersions: {}, reviewPriority: 0, signals: [] },
+    assurance: {
+      integrity: 'proven',
+      temporal: 'unanchored',
+      provenance: { pureTyping: true, notableSignals: 0, reviewPriority: 0 },
+    },
+  };
+}
+
+describe('collectCohortMembers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-cohort-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads --analysis-bundle outputs and labels members by input file', async () => {
+    await writeFile(join(dir, 'alice.json'), JSON.stringify([{ filename: 'main_proof.json', ...bundle(600000) }]));
+    await writeFile(join(dir, 'bob.json'), JSON.stringify([{ filename: 'main_proof.json', ...bundle(900000) }]));
+
+    const { members, skipped } = await collectCohortMembers(dir, { mode: 'full' });
+    expect(members.map((m) => m.label)).toEqual(['alice.json', 'bob.json']);
+    expect(skipped).toEqual([]);
+  });
+
+  it('disambiguates multi-tab bundle files with the entry name', async () => {
+    await writeFile(
+      join(dir, 'carol.json'),
+      JSON.stringify([
+        { filename: 'q1_proof.json', ...bundle(600000) },
+        { filename: 'q2_proof.json', ...bundle(700000) },
+      ])
+    );
+
+    const { members } = await collectCohortMembers(dir, { mode: 'full' });
+    expect(members.map((m) => m.label)).toEqual(['carol.json#q1_proof.json', 'carol.json#q2_proof.json']);
+  });
+
+  it('skips JSON that is neither a bundle nor a proof (e.g. a previously written baseline)', async () => {
+    await writeFile(join(dir, 'a.json'), JSON.stringify([bundle(600000)]));
+    await writeFile(join(dir, 'cohort-baseline.json'), JSON.stringify({ schema: 'cohort-baseline/1' }));
+    await writeFile(join(dir, 'notes.txt'), 'ignored');
+
+    const { members, skipped } = await collectCohortMembers(dir, { mode: 'full' });
+    expect(members).toHaveLength(1);
+    expect(skipped).toEqual(['cohort-baseline.json']);
+  });
+});
+
+describe('rankCohort / formatCohortReport', () => {
+  const members = [100, 200, 300, 400, 500, 600, 700, 800, 900, 3000].map((min, i) => ({
+    label: `student-${String(i).padStart(2, '0')}.json`,
+    bundle: bundle(min * 1000),
+  }));
+
+  it('ranks submissions by distance from the cohort median, furthest first', () => {
+    const { rows } = rankCohort(members);
+    expect(rows[0]!.label).toBe('student-09.json');
+    expect(rows[0]!.deviation.metric).toBe('durationMs');
+    const scores = rows.map((r) => r.deviation.score);
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+  });
+
+  it('keeps the written baseline free of per-student labels', () => {
+    const { baseline } = rankCohort(members);
+    expect(JSON.stringify(baseline)).not.toContain('student-');
+  });
+
+  it('warns about a cohort smaller than COHORT_MIN_N', () => {
+    const { baseline, rows } = rankCohort(members.slice(0, 2));
+    const text = plain(formatCohortReport(baseline, rows));
+    expect(text).toMatch(/Small cohort: 2 < COHORT_MIN_N/);
+  });
+
+  it('does not warn when the cohort is large enough', () => {
+    const { baseline, rows } = rankCohort(members);
+    const text = plain(formatCohortReport(baseline, rows));
+    expect(text).not.toMatch(/Small cohort/);
+    expect(text).toMatch(/not a verdict/);
+  });
+});
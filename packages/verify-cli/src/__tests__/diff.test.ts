@@ -0,0 +1,114 @@
+/**
+ * `diff` サブコマンドの I/O 契約。
+ *
+ * 差分の中身は shared (proofDiff.test.ts) で固定済み。ここでは「マルチタブ ZIP から何を選ぶか」
+ * 「検証に落ちた proof も比べて印を付けるか」「作り直しの注記と --json の書き出し」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffProofs } from '@typedcode/shared';
+import { runDiffCommand, selectDiffProof } from '../diff.js';
+import { formatProofDiff } from '../output.js';
+import type { ProofFile } from '../verify.js';
+import { plain } from './fixtures/ansi.js';
+
+/** 1 文字ずつ打った events を持つ、構造だけ proof の形をしたファイル (検証には落ちる)。 */
+function unsignedProof(code: string, root: string): ProofFile {
+  // hash は打った prefix で決まる (同じ root・同じ prefix なら一致する)。ソースは含めない
+  const hashOf = (n: number) => `${root}-${Buffer.from(code.slice(0, n)).toString('hex')}`;
+  const events = [...code].map((ch, i) => ({
+    sequence: i,
+    timestamp: i * 100,
+    type: 'contentChange',
+    inputType: 'insertText',
+    data: ch,
+    rangeOffset: i,
+    rangeLength: 0,
+    previousHash: i === 0 ? root : hashOf(i),
+    hash: hashOf(i + 1),
+  }));
+  return {
+    version: '1.0.0',
+    typingProofHash: '0'.repeat(64),
+    typingProofData: { initialEventChainHash: root, finalEventChainHash: events.at(-1)!.hash },
+    content: code,
+    language: 'c',
+    proof: { totalEvents: events.length, finalHash: null, startTime: 0, endTime: 1000, signature: '', events },
+  } as unknown as ProofFile;
+}
+
+describe('selectDiffProof', () => {
+  const proofs = [
+    { filename: 'q1_proof.json', proof: unsignedProof('a', 'r') },
+    { filename: 'q2_proof.json', proof: unsignedProof('b', 'r') },
+  ];
+
+  it('takes the only proof or the --entry one and refuses to guess', () => {
+    expect(selectDiffProof(proofs.slice(0, 1), 'one.zip').filename).toBe('q1_proof.json');
+    expect(selectDiffProof(proofs, 'all.zip', 'q2_proof.json').filename).toBe('q2_proof.json');
+    expect(() => selectDiffProof(proofs, 'all.zip')).toThrow(/holds 2 proofs .*--entry/);
+    expect(() => selectDiffProof(proofs, 'all.zip', 'q3_proof.json')).toThrow(/no proof named q3_proof.json/);
+  });
+});
+
+describe('formatProofDiff', () => {
+  it('notes a regenerated proof and marks failed verification', () => {
+    const diff = diffProofs(unsignedProof('int x;', 'root-a'), unsignedProof('int x;', 'root-b'));
+    const text = plain(formatProofDiff(diff, { label: 'a.json', valid: true }, { label: 'b.json', valid: false }));
+
+    expect(text).toContain('B: b.json (6 events)  [integrity FAILED]');
+    expect(text).toContain('Initial chain hash:   different');
+    expect(text).toContain('First divergence:     #0');
+    expect(text).toContain('Same edits up to:     #6');
+    expect(text).toContain('one proof may have been regenerated from the other');
+  });
+});
+
+describe('runDiffCommand', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-diff-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('compares two proof files and writes the proof-diff/1 report', async () => {
+    await writeFile(join(dir, 'first.json'), JSON.stringify(unsignedProof('int x;', 'root')));
+    await writeFile(join(dir, 'second.json'), JSON.stringify(unsignedProof('int y;', 'root')));
+    const out = join(dir, 'diff.json');
+
+    const code = await runDiffCommand([
+      join(dir, 'first.json'),
+      join(dir, 'second.json'),
+      '--mode',
+      'fast',
+      '--json',
+      out,
+    ]);
+
+    expect(code).toBe(0);
+    const report = JSON.parse(await readFile(out, 'utf-8'));
+    expect(report).toMatchObject({
+      schema: 'proof-diff/1',
+      labels: { a: 'first.json', b: 'second.json' },
+      integrityValid: { a: false, b: false },
+      sameInitialEventChainHash: true,
+      sharedPrefixLength: 4,
+      contentDivergence: { sequence: 4, offset: 4 },
+    });
+    expect(JSON.stringify(report)).not.toContain('int x');
+  });
+
+  it('rejects anything but two inputs', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await runDiffCommand([join(dir, 'first.json')])).toBe(1);
+  });
+});
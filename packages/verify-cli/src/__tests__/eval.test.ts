@@ -0,0 +1,100 @@
+/**
+ * `eval` サブコマンド (docs/analysis-eval-protocol.md) の I/O 契約。
+ *
+ * 指標の計算は shared (analysisEval.test.ts) で固定済み。ここでは「manifest の 2 つの形を読めるか」
+ * 「ラベルの綴り違いを黙って通さないか」「パスを manifest 基準で解くか」「読めない・検証に落ちた
+ * proof を評価から除いて理由を残すか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { collectLabeledAnalyses, parseEvalManifest } from '../eval.js';
+import { formatEvalExclusions } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+
+describe('parseEvalManifest', () => {
+  it('reads an array of { path, label, condition }', () => {
+    expect(
+      parseEvalManifest([
+        { path: 'p001.json', label: 'genuine', condition: 'genuine-ime' },
+        { path: 'sub/p002.zip', label: 'automated' },
+      ])
+    ).toEqual([
+      { path: 'p001.json', label: 'genuine', condition: 'genuine-ime' },
+      { path: 'sub/p002.zip', label: 'automated', condition: undefined },
+    ]);
+  });
+
+  it('reads the labels.json object of the eval harness, keyed by path', () => {
+    expect(
+      parseEvalManifest({
+        'p001.json': { label: 'genuine', condition: 'genuine-ime' },
+        'p002.json': { label: 'automated', condition: 'ai-paste' },
+      })
+    ).toEqual([
+      { path: 'p001.json', label: 'genuine', condition: 'genuine-ime' },
+      { path: 'p002.json', label: 'automated', condition: 'ai-paste' },
+    ]);
+  });
+
+  it('rejects misspelled labels, missing paths and empty manifests instead of skipping them', () => {
+    expect(() => parseEvalManifest([{ path: 'p.json', label: 'human' }])).toThrow(/entry 0: "label" must be/);
+    expect(() => parseEvalManifest([{ label: 'genuine' }])).toThrow(/entry 0: "path" must be/);
+    expect(() => parseEvalManifest({ 'p.json': { label: 'genuine', condition: 3 } })).toThrow(/"condition"/);
+    expect(() => parseEvalManifest([])).toThrow(/no entries/);
+    expect(() => parseEvalManifest('p.json')).toThrow(/must be an array/);
+  });
+});
+
+describe('collectLabeledAnalyses', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-eval-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resolves paths against the manifest and excludes unreadable or unverifiable proofs with a reason', async () => {
+    await mkdir(join(dir, 'corpus'));
+    // 構造だけ proof の形をした (署名・hash 連鎖の無い) ファイル。検証には落ちる。
+    await writeFile(
+      join(dir, 'corpus', 'p001.json'),
+      JSON.stringify({
+        version: '1.0.0',
+        typingProofHash: '0'.repeat(64),
+        content: 'x = 1\n',
+        language: 'python',
+        proof: { totalEvents: 0, finalHash: '0'.repeat(64), startTime: 0, endTime: 0, signature: '', events: [] },
+      })
+    );
+    await writeFile(join(dir, 'corpus', 'notes.json'), JSON.stringify({ hello: 'world' }));
+
+    const { items, excluded } = await collectLabeledAnalyses(
+      join(dir, 'corpus', 'labels.json'),
+      parseEvalManifest({
+        'p001.json': { label: 'genuine' },
+        'notes.json': { label: 'automated' },
+        'missing.json': { label: 'automated' },
+      }),
+      { mode: 'fast' }
+    );
+
+    expect(items).toEqual([]);
+    expect(excluded.map((e) => e.id)).toEqual(['p001.json', 'notes.json', 'missing.json']);
+    expect(excluded[1]!.reason).toContain('Invalid proof file structure');
+    expect(excluded[2]!.reason).toMatch(/ENOENT/);
+  });
+});
+
+describe('formatEvalExclusions', () => {
+  it('lists every excluded proof with its reason', () => {
+    const text = plain(formatEvalExclusions([{ id: 'p001.json', reason: 'integrity check failed: bad hash' }]));
+    expect(text).toContain('Excluded from the evaluation: 1');
+    expect(text).toContain('p001.json: integrity check failed: bad hash');
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * CLI 出力のテスト用ヘルパ
+ */
+
+/** 色付けは TTY 依存 (module load 時に決まる) なので、比較前に ANSI を落とす。 */
+export function plain(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI エスケープの除去そのものが目的
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
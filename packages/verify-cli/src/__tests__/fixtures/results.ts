@@ -0,0 +1,55 @@
+/**
+ * 検証結果 (`CLIVerificationResult`) のテスト用ファクトリ
+ *
+ * 出力・集計のテストは検証を回さずに結果を組み立てる。型を cast せずに全フィールドを埋めるので、
+ * `CLIVerificationResult` が変わればここが型エラーになる。既定は健全な proof (全検証合格・アンカー済み・
+ * 打鍵のみ)。各テストは overrides で見たい軸だけを変える。
+ */
+
+import type { ProcessSummary } from '@typedcode/shared';
+import type { CLIVerificationResult } from '../../verify.js';
+
+const processSummary: ProcessSummary = {
+  totalEvents: 42,
+  durationMs: 60_000,
+  contentChangeCount: 40,
+  insertedChars: 40,
+  deletedChars: 0,
+  deletionRatio: 0,
+  executionCount: 0,
+  hasRunResults: true,
+  runSuccessCount: 0,
+  runFailureCount: 0,
+  pauseCount: 0,
+  longestPauseMs: null,
+  focusLossCount: 0,
+  externalInputCount: 0,
+  reflectionNotes: [],
+  moments: [],
+};
+
+export function verificationResult(overrides: Partial<CLIVerificationResult> = {}): CLIVerificationResult {
+  return {
+    valid: true,
+    metadataValid: true,
+    chainValid: true,
+    isPureTyping: true,
+    eventCount: 42,
+    duration: 0.1,
+    pasteEvents: 0,
+    dropEvents: 0,
+    language: 'c',
+    mode: 'full',
+    poswSkipped: false,
+    signedCheckpoints: undefined,
+    rootAnchored: true,
+    analysis: { analyzerVersions: {}, reviewPriority: 0.25, signals: [] },
+    assurance: {
+      integrity: 'proven',
+      temporal: 'anchored',
+      provenance: { pureTyping: true, notableSignals: 0, reviewPriority: 0.25 },
+    },
+    processSummary,
+    ...overrides,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * `inspect` サブコマンドの I/O 契約。
+ *
+ * 旧形式の判定そのものは shared (proofMigration.test.ts) で固定済み。ここでは「報告を選ばないと拒否する」
+ * 「旧形式の特徴をどう表示するか」「--json の書き出し」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inspectProofVersion } from '@typedcode/shared';
+import { runInspectCommand } from '../inspect.js';
+import { formatVersionReport } from '../output.js';
+import type { ProofFile } from '../verify.js';
+import { plain } from './fixtures/ansi.js';
+
+/** 1.0.0 の頃の形をした proof (構造だけ。検証はしない) */
+function legacyProof(version = '1.0.0'): ProofFile {
+  const event = (sequence: number, type: string, data: unknown) => ({
+    sequence,
+    timestamp: sequence * 100,
+    type,
+    inputType: type === 'contentChange' ? 'insertText' : null,
+    data,
+    previousHash: `h${sequence}`,
+    hash: `h${sequence + 1}`,
+  });
+  return {
+    version,
+    typingProofHash: '0'.repeat(64),
+    typingProofData: { initialEventChainHash: 'h0', finalEventChainHash: 'h3' },
+    content: 'ab',
+    language: 'c',
+    proof: {
+      totalEvents: 3,
+      finalHash: 'h3',
+      startTime: 0,
+      endTime: 300,
+      signature: '',
+      events: [event(0, 'contentChange', 'a'), event(1, 'contentChange', 'b'), event(2, 'codeExecution', null)],
+    },
+    humanAttestation: {
+      verified: true,
+      score: 0.9,
+      action: 'create_proof',
+      timestamp: '',
+      hostname: '',
+      signature: '',
+    },
+  } as unknown as ProofFile;
+}
+
+describe('formatVersionReport', () => {
+  it('lists the legacy features and marks which ones migration normalizes', () => {
+    const text = plain(formatVersionReport('old.json', inspectProofVersion(legacyProof())));
+
+    expect(text).toContain('Format version:  1.0.0  supported');
+    expect(text).toContain('human attestation stored at the top level (not as event #0)  [normalized]');
+    expect(text).toContain(
+      'codeExecution events without data (no start/result phase, pre ADR-0021)  [hashed, kept as is]'
+    );
+    expect(text).toContain('no rootAnchored flag (pre 1.2.0, root not server-anchored)  [normalized]');
+
+    const unsupported = plain(formatVersionReport('older.json', inspectProofVersion(legacyProof('0.9.0'))));
+    expect(unsupported).toContain('Format version:  0.9.0  unsupported (minimum 1.0.0)');
+  });
+});
+
+describe('runInspectCommand', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-inspect-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes the proof-version-report/1 reports', async () => {
+    await writeFile(join(dir, 'old.json'), JSON.stringify(legacyProof()));
+    const out = join(dir, 'versions.json');
+
+    const code = await runInspectCommand([join(dir, 'old.json'), '--version-report', '--json', out]);
+
+    expect(code).toBe(0);
+    const reports = JSON.parse(await readFile(out, 'utf-8'));
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      label: 'old.json',
+      report: { schema: 'proof-version-report/1', declaredVersion: '1.0.0', supported: true },
+    });
+    expect(reports[0].report.features.map((f: { feature: string }) => f.feature)).toContain(
+      'code-execution-without-data'
+    );
+  });
+
+  it('rejects a run without a report to show', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await writeFile(join(dir, 'old.json'), JSON.stringify(legacyProof()));
+    expect(await runInspectCommand([join(dir, 'old.json')])).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 署名鍵の key set (ADR-0048) の CLI 側の契約。
+ *
+ * 連鎖の検証そのものは shared (checkpointKeySet.test.ts) で固定済み。ここでは「取得した連鎖を
+ * 検証してからキャッシュするか」「キャッシュを読むときも組み込み registry から検証し直すか」
+ * 「壊れた連鎖を書き出さず exit 1 にするか」を固定する。
+ */
+
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createCheckpointKeySetPayload,
+  endorseCheckpointKeySet,
+  type CheckpointPublicKey,
+  type SignedCheckpointKeySet,
+} from '@typedcode/shared';
+import { loadKeySet, runKeySetCommand } from '../keySet.js';
+
+async function createKey(keyId: string, validFrom: string) {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const entry: CheckpointPublicKey = {
+    keyId,
+    algorithm: 'ECDSA-P256',
+    publicKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    status: 'active',
+    validFrom,
+  };
+  return { keyId, privateKey: keyPair.privateKey, entry };
+}
+
+let baseRegistry: CheckpointPublicKey[];
+let otherRegistry: CheckpointPublicKey[];
+let chain: SignedCheckpointKeySet[];
+
+beforeAll(async () => {
+  const root = await createKey('tcp-root', '2026-01-01T00:00:00.000Z');
+  const next = await createKey('tcp-next', '2026-11-01T00:00:00.000Z');
+  const stranger = await createKey('tcp-stranger', '2026-01-01T00:00:00.000Z');
+  baseRegistry = [root.entry];
+  otherRegistry = [stranger.entry];
+  const payload = await createCheckpointKeySetPayload(null, [next.entry], '2026-10-01T00:00:00.000Z');
+  chain = JSON.parse(JSON.stringify([await endorseCheckpointKeySet(payload, [root])]));
+});
+
+describe('key-set', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-key-set-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('fetches, verifies and caches the chain for --key-set', async () => {
+    const out = join(dir, 'key-set.json');
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ chain, cacheTtlSec: 3600 })));
+    const code = await runKeySetCommand(
+      ['--api-url', 'https://api.test/', '--out', out],
+      fetchImpl as unknown as typeof fetch,
+      baseRegistry
+    );
+    expect(code).toBe(0);
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.test/api/checkpoint/key-set');
+
+    const cache = JSON.parse(await readFile(out, 'utf-8'));
+    expect(cache).toMatchObject({ source: 'https://api.test/api/checkpoint/key-set', chain });
+
+    const loaded = await loadKeySet(out, baseRegistry);
+    expect(loaded.sequence).toBe(0);
+    expect(loaded.addedKeyIds).toEqual(['tcp-next']);
+    expect(loaded.registry.map((k) => k.keyId)).toEqual(['tcp-root', 'tcp-next']);
+  });
+
+  it('does not cache a chain that the built-in registry does not endorse', async () => {
+    const out = join(dir, 'key-set.json');
+    const fetchImpl = async () => new Response(JSON.stringify({ chain }));
+    const code = await runKeySetCommand(
+      ['--api-url', 'https://api.test', '--out', out],
+      fetchImpl as unknown as typeof fetch,
+      otherRegistry
+    );
+    expect(code).toBe(1);
+    expect(existsSync(out)).toBe(false);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('failed verification: key set 0 is endorsed by unknown key tcp-root')
+    );
+  });
+
+  it('verifies a cached file again when it is loaded', async () => {
+    const path = join(dir, 'key-set.json');
+    await writeFile(path, JSON.stringify({ chain }));
+    await expect(loadKeySet(path, otherRegistry)).rejects.toThrow(/failed verification/);
+    await writeFile(path, '{ "chain": [{ "payload": {} }] }');
+    await expect(loadKeySet(path, baseRegistry)).rejects.toThrow(/is not a key set chain/);
+    await expect(loadKeySet(join(dir, 'missing.json'))).rejects.toThrow(/Cannot read key set/);
+  });
+
+  it('rejects ambiguous arguments and HTTP errors', async () => {
+    const fetchImpl = async () => new Response('{}', { status: 500 });
+    expect(await runKeySetCommand([])).toBe(1);
+    expect(await runKeySetCommand(['cache.json', '--api-url', 'https://api.test'])).toBe(1);
+    expect(await runKeySetCommand(['cache.json', '--out', 'x.json'])).toBe(1);
+    expect(
+      await runKeySetCommand(['--api-url', 'https://api.test'], fetchImpl as unknown as typeof fetch, baseRegistry)
+    ).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('failed with HTTP 500'));
+  });
+});
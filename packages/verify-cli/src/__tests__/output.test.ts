@@ -9,12 +9,7 @@
 import { describe, expect, it } from 'vitest';
 import type { AssuranceResult } from '@typedcode/shared';
 import { formatResult, type VerificationOutput } from '../output.js';
-
-/** 色付けは TTY 依存 (module load 時に決まる) なので、比較前に ANSI を落とす。 */
-function plain(text: string): string {
-  // biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI エスケープの除去そのものが目的
-  return text.replace(/\x1b\[[0-9;]*m/g, '');
-}
+import { plain } from './fixtures/ansi.js';
 
 function assurance(overrides: Partial<AssuranceResult> = {}): AssuranceResult {
   return {
@@ -88,3 +83,93 @@ describe('formatResult — PoSW が再計算されなかったとき (fast モ
     expect(text).toContain('Verification FAILED');
   });
 });
+
+describe('formatResult — PoSW を標本だけ再計算したとき (audit モード, ADR-0034)', () => {
+  const poswAudit = {
+    seed: 'ab'.repeat(32),
+    population: 5000,
+    sampleSize: 299,
+    confidence: 0.95,
+    detectFraction: 0.01,
+    maxUndetectedFraction: 0.00997,
+  };
+
+  it('prints Integrity: SAMPLED with the sample size and the statistical bound', () => {
+    const text = plain(
+      formatResult(output({ mode: 'audit', poswAudit, assurance: assurance({ integrity: 'sampled' }) }))
+    );
+
+    expect(text).toMatch(/Integrity: +SAMPLED/);
+    expect(text).not.toMatch(/Integrity: +PROVEN/);
+    expect(text).toContain('SAMPLED 299/5000 events');
+    expect(text).toContain('With 95% confidence, fewer than 1.00% of events have invalid PoSW');
+  });
+});
+
+describe('formatResult — 検証に落ちた proof の改ざんの推定', () => {
+  it('lists each finding with its event range and evidence', () => {
+    const text = plain(
+      formatResult(
+        output({
+          valid: false,
+          chainValid: false,
+          errorMessage: 'Previous hash mismatch at event 5',
+          errorAt: 5,
+          assurance: assurance({ integrity: 'failed' }),
+          tamperForensics: {
+            schema: 'tamper-forensics/1',
+            eventCount: 9,
+            poswChecked: 0,
+            findings: [
+              {
+                kind: 'event-deleted',
+                fromEvent: 4,
+                toEvent: 5,
+                eventCount: 2,
+                evidence: ['previous-hash-link', 'sequence'],
+                detail: '2 event(s) were removed between #4 and #5 (sequence jumps from 4 to 7).',
+              },
+            ],
+          },
+        })
+      )
+    );
+
+    expect(text).toContain('--- Tamper forensics (advisory) ---');
+    expect(text).toContain('Event deleted @ events 4–5: 2 event(s) were removed between #4 and #5');
+    expect(text).toContain('evidence: previous-hash-link, sequence');
+  });
+});
+
+describe('formatResult — 提出レシート (ADR-0047)', () => {
+  it('prints the server receipt time and the short receipt id when the receipt matches', () => {
+    const text = plain(
+      formatResult(
+        output({
+          submissionReceipt: {
+            valid: true,
+            keyId: 'tcp-test',
+            serverTime: '2026-10-19T09:00:00.000Z',
+            tabId: 'tab-1',
+            receiptHash: '0123456789abcdef'.repeat(4),
+          },
+        })
+      )
+    );
+    expect(text).toContain('Receipt:     VERIFIED (final state received by the server at 2026-10-19T09:00:00.000Z');
+    expect(text).toContain('receipt 0123456789ab)');
+  });
+
+  it('prints the failure reason and says nothing when no receipt was bundled', () => {
+    const failed = plain(
+      formatResult(
+        output({
+          valid: false,
+          submissionReceipt: { valid: false, reason: 'Submission receipt does not cover this proof' },
+        })
+      )
+    );
+    expect(failed).toContain('Receipt:     FAILED Submission receipt does not cover this proof');
+    expect(plain(formatResult(output()))).not.toContain('Receipt:');
+  });
+});
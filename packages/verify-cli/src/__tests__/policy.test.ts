@@ -0,0 +1,127 @@
+/**
+ * `--policy` のゲートポリシー (ADR-0036) の CLI 側の契約。
+ *
+ * 述語の検証と評価は shared (gatePolicy.test.ts) で固定済み。ここでは「ファイルのバイト列の hash を
+ * 記録するか」「不正なポリシーを検証前に止めるか」「どの規則が発火したかを単体・一覧の両方で
+ * 名指しするか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadGatePolicy, type CLIPolicyResult } from '../policy.js';
+import { formatBatchSummary, formatResult, type VerificationOutput } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+import { verificationResult } from './fixtures/results.js';
+
+describe('loadGatePolicy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-policy-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records the SHA-256 of the file bytes as written', async () => {
+    const text = `{ "schema": "gate-policy/1",\n  "rules": [{ "id": "no-paste", "action": "fail",
+      "when": { "process.externalInputCount": { "gt": 0 } } }] }\n`;
+    const path = join(dir, 'grading.json');
+    await writeFile(path, text);
+
+    const loaded = await loadGatePolicy(path);
+    expect(loaded.sha256).toBe(createHash('sha256').update(text).digest('hex'));
+    expect(loaded.source).toBe(path);
+    expect(loaded.policy.rules.map((r) => r.id)).toEqual(['no-paste']);
+  });
+
+  it('rejects unreadable, non-JSON and invalid policies', async () => {
+    await expect(loadGatePolicy(join(dir, 'missing.json'))).rejects.toThrow(/Cannot read gate policy/);
+    await writeFile(join(dir, 'broken.json'), '{ "schema": ');
+    await expect(loadGatePolicy(join(dir, 'broken.json'))).rejects.toThrow(/not valid JSON/);
+    await writeFile(
+      join(dir, 'typo.json'),
+      JSON.stringify({
+        schema: 'gate-policy/1',
+        rules: [{ id: 'x', action: 'fail', when: { 'screenshot.tampered': 1 } }],
+      })
+    );
+    await expect(loadGatePolicy(join(dir, 'typo.json'))).rejects.toThrow(/unknown fact "screenshot.tampered"/);
+  });
+});
+
+const policy: CLIPolicyResult = {
+  source: 'grading.json',
+  name: 'CS101 final',
+  sha256: 'ab'.repeat(32),
+  verificationPassed: true,
+  outcome: 'fail',
+  tripped: [
+    { id: 'no-paste', action: 'fail', message: 'Paste is not allowed', facts: { 'process.externalInputCount': 2 } },
+    { id: 'unanchored', action: 'warn', facts: { 'assurance.temporal': 'unanchored' } },
+  ],
+};
+
+function output(overrides: Partial<VerificationOutput> = {}): VerificationOutput {
+  return {
+    valid: false,
+    metadataValid: true,
+    chainValid: true,
+    isPureTyping: false,
+    eventCount: 42,
+    duration: 0.1,
+    pasteEvents: 2,
+    dropEvents: 0,
+    mode: 'full',
+    errorMessage: 'Hash chain verified',
+    policy,
+    ...overrides,
+  };
+}
+
+describe('formatResult — gate policy', () => {
+  it('names the tripped fail rule under the FAILED header instead of the chain message', () => {
+    const text = plain(formatResult(output()));
+    const header = text.slice(text.indexOf('Verification FAILED'), text.indexOf('--- Details'));
+    expect(header).toContain('Gate policy: no-paste: Paste is not allowed (process.externalInputCount = 2)');
+    expect(header).not.toContain('Hash chain verified');
+  });
+
+  it('prints every tripped rule and the policy hash', () => {
+    const text = plain(formatResult(output()));
+    expect(text).toContain('Policy:      CS101 final (grading.json) — FAIL');
+    expect(text).toContain(`sha256: ${'ab'.repeat(32)}`);
+    expect(text).toContain('[WARN] unanchored (assurance.temporal = "unanchored")');
+  });
+});
+
+describe('formatBatchSummary — gate policy', () => {
+  it('gives the policy as the failure reason, lists warn rules and records the hash once', () => {
+    const text = plain(
+      formatBatchSummary([
+        {
+          source: 'alice.zip',
+          proofs: [
+            {
+              filename: 'alice.zip',
+              result: verificationResult({
+                valid: false,
+                isPureTyping: false,
+                pasteEvents: 2,
+                errorMessage: 'Hash chain verified',
+                policy,
+              }),
+            },
+          ],
+        },
+      ])
+    );
+    expect(text).toContain('└ Gate policy: no-paste: Paste is not allowed');
+    expect(text).toContain('! policy: unanchored (assurance.temporal = "unanchored")');
+    expect(text).toContain(`Gate policy: CS101 final (grading.json) sha256 ${'ab'.repeat(32)}`);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 機械可読レポート (`--format json|ndjson`) の schema 契約。
+ *
+ * LMS の取込スクリプトはこの形に依存する。schema 識別子・入力ファイル由来の識別子・
+ * 読込エラーの表し方・`passed` と exit code の一致を固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { VERIFY_REPORT_SCHEMA, VERIFY_RESULT_SCHEMA, formatReport, toResultRecords } from '../report.js';
+import { verificationResult } from './fixtures/results.js';
+
+describe('toResultRecords', () => {
+  it('emits one versioned record per proof, keeping the input file and the proof name', () => {
+    const records = toResultRecords('alice.zip', [
+      { filename: 'q1_proof.json', result: verificationResult() },
+      { filename: 'q2_proof.json', result: verificationResult({ valid: false, chainValid: false }) },
+    ]);
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({
+      schema: VERIFY_RESULT_SCHEMA,
+      source: 'alice.zip',
+      filename: 'q2_proof.json',
+      valid: false,
+      result: { chainValid: false, eventCount: 42 },
+    });
+  });
+
+  it('represents an unreadable input file as a single error record', () => {
+    expect(toResultRecords('broken.zip', [], 'No proof file found in ZIP')).toEqual([
+      { schema: VERIFY_RESULT_SCHEMA, source: 'broken.zip', error: 'No proof file found in ZIP' },
+    ]);
+  });
+});
+
+describe('formatReport', () => {
+  const records = [
+    ...toResultRecords('a.json', [{ filename: 'a.json', result: verificationResult() }]),
+    ...toResultRecords('b.zip', [], 'Invalid proof file structure'),
+  ];
+
+  it('writes NDJSON as exactly one parseable record per line', () => {
+    const lines = formatReport('ndjson', records, false).split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines.map((l) => JSON.parse(l).source)).toEqual(['a.json', 'b.zip']);
+  });
+
+  it('wraps JSON in a versioned report whose passed flag mirrors the exit code', () => {
+    const report = JSON.parse(formatReport('json', records, false));
+    expect(report.schema).toBe(VERIFY_REPORT_SCHEMA);
+    expect(report.passed).toBe(false);
+    expect(report.results).toHaveLength(2);
+    expect(report).not.toHaveProperty('policy');
+  });
+
+  it('records the gate policy source and hash at the top of a JSON report', () => {
+    const policy = {
+      source: 'grading.json',
+      sha256: 'cd'.repeat(32),
+      policy: { schema: 'gate-policy/1' as const, name: 'CS101', rules: [] },
+    };
+    const report = JSON.parse(formatReport('json', records, false, policy));
+    expect(report.policy).toEqual({ source: 'grading.json', name: 'CS101', sha256: 'cd'.repeat(32) });
+  });
+});
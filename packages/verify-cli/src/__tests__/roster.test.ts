@@ -0,0 +1,88 @@
+/**
+ * `--roster` の名簿突合 (ADR-0037) の CLI 側の契約。
+ *
+ * 突合そのものは shared (roster.test.ts) で固定済み。ここでは「検証結果の何を突合に渡すか」
+ * (置き場所を除いたファイル名・タブ・exam ブロック・deviceId・検証済みの time-box) と、
+ * 「表が未提出・所見・名簿外の提出物を落とさないか」を固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { reconcileRoster } from '@typedcode/shared';
+import type { BatchFileResult } from '../batch.js';
+import { formatRosterReport } from '../output.js';
+import { toRosterSubmissions } from '../roster.js';
+import type { CLIExamResult, CLIVerificationResult } from '../verify.js';
+import { plain } from './fixtures/ansi.js';
+import { verificationResult } from './fixtures/results.js';
+
+function result(exam: Partial<CLIExamResult> | undefined, deviceId: string): CLIVerificationResult {
+  return verificationResult({
+    deviceId,
+    exam: exam && {
+      present: true,
+      examId: 'final-2026',
+      problemId: 'p1',
+      variant: 'A',
+      packageProvided: false,
+      rootBindingValid: true,
+      ...exam,
+    },
+  });
+}
+
+describe('toRosterSubmissions', () => {
+  it('uses the bare file name as the source and keeps every tab, unreadable files included', () => {
+    const files: BatchFileResult[] = [
+      {
+        source: 'submissions/s001.zip',
+        proofs: [
+          { filename: 'q1_proof.json', result: result({}, 'dev-1') },
+          { filename: 'q2_proof.json', result: result({ problemId: 'p2' }, 'dev-2') },
+        ],
+      },
+      { source: 'submissions/s002.zip', proofs: [], error: 'No proof file found in ZIP' },
+    ];
+
+    expect(toRosterSubmissions(files)).toEqual([
+      {
+        source: 's001.zip',
+        label: 's001.zip#q1_proof.json',
+        exam: { examId: 'final-2026', problemId: 'p1', variant: 'A' },
+        deviceId: 'dev-1',
+        withinWindow: null,
+      },
+      {
+        source: 's001.zip',
+        label: 's001.zip#q2_proof.json',
+        exam: { examId: 'final-2026', problemId: 'p2', variant: 'A' },
+        deviceId: 'dev-2',
+        withinWindow: null,
+      },
+      { source: 's002.zip', label: 's002.zip', exam: null, deviceId: null },
+    ]);
+  });
+});
+
+describe('formatRosterReport', () => {
+  it('lists every student with the findings, plus submissions no student claims', () => {
+    const files: BatchFileResult[] = [
+      { source: 's001.zip', proofs: [{ filename: 's001.zip', result: result({ variant: 'B' }, 'dev-1') }] },
+      { source: 'stray.zip', proofs: [{ filename: 'stray.zip', result: result({}, 'dev-9') }] },
+    ];
+    const report = reconcileRoster(
+      [
+        { studentId: 's001', variant: 'A' },
+        { studentId: 's002', variant: 'B' },
+      ],
+      toRosterSubmissions(files)
+    );
+    const text = plain(formatRosterReport(report, 'roster.csv'));
+
+    expect(text).toContain('=== Roster reconciliation (roster.csv) ===');
+    expect(text).toMatch(/s001\s+s001\.zip\s+variant: expected A, got B \(s001\.zip\)/);
+    expect(text).toMatch(/s002\s+—\s+MISSING/);
+    expect(text).toContain('Unmatched submissions (no roster entry): stray.zip');
+    expect(text).toContain('1/2 students submitted, 1 missing, 1 with findings');
+    expect(text).toContain('never affect the exit code');
+  });
+});
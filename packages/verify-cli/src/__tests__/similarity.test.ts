@@ -0,0 +1,97 @@
+/**
+ * `similarity` サブコマンド (ADR-0035) の I/O 契約。
+ *
+ * 類似の中身は shared (crossSubmissionSimilarityAnalyzer.test.ts) で固定済み。ここでは
+ * 「ディレクトリから何を拾うか」「検証に落ちた proof も比べて印を付けるか」「表に両側の証拠と
+ * advisory の但し書きが出るか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { CohortAnalysisReport } from '@typedcode/shared';
+import { collectSimilarityMembers } from '../similarity.js';
+import { formatSimilarityReport } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+
+/** 構造だけ proof の形をした (署名・hash 連鎖の無い) ファイル。検証には落ちる。 */
+function unsignedProof(code: string) {
+  return {
+    version: '1.0.0',
+    typingProofHash: '0'.repeat(64),
+    content: code,
+    language: 'python',
+    proof: {
+      totalEvents: 1,
+      finalHash: '0'.repeat(64),
+      startTime: 0,
+      endTime: 1000,
+      signature: '',
+      events: [
+        { sequence: 0, timestamp: 0, type: 'contentChange', inputType: 'insertText', data: code, rangeOffset: 0 },
+      ],
+    },
+  };
+}
+
+describe('collectSimilarityMembers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-similarity-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('verifies raw proofs, keeps failed ones for comparison and skips analysis bundles', async () => {
+    await writeFile(join(dir, 'bob.json'), JSON.stringify(unsignedProof('print(1)\n')));
+    await writeFile(join(dir, 'alice.json'), JSON.stringify(unsignedProof('print(2)\n')));
+    await writeFile(join(dir, 'bundles.json'), JSON.stringify([{ schema: 'analysis-bundle/1' }]));
+
+    const { members, skipped } = await collectSimilarityMembers(dir, { mode: 'fast' });
+    expect(members.map((m) => [m.label, m.integrityValid])).toEqual([
+      ['alice.json', false],
+      ['bob.json', false],
+    ]);
+    expect(members[0]!.proof.proof.events).toHaveLength(1);
+    expect(skipped).toEqual(['bundles.json']);
+  });
+});
+
+describe('formatSimilarityReport', () => {
+  const report: CohortAnalysisReport = {
+    schema: 'cohort-analysis/1',
+    analyzerVersions: { 'cross-submission-similarity': '0.1.0' },
+    members: ['alice.zip', 'bob.zip', 'carol.zip'],
+    signals: [
+      {
+        analyzerId: 'cross-submission-similarity',
+        dimension: 'cross-submission-similarity',
+        a: 'alice.zip',
+        b: 'carol.zip',
+        score: 0.85,
+        confidence: 0.5,
+        severity: 'notice',
+        evidenceA: [{ fromEventIndex: 10, toEventIndex: 90, note: 'shared code' }],
+        evidenceB: [{ fromEventIndex: 4, note: 'identifier "frobnicate"' }],
+        summary: 'Similar code: 100% normalized token overlap',
+      },
+    ],
+  };
+
+  it('lists each pair with evidence events on both sides and the advisory caveat', () => {
+    const text = plain(formatSimilarityReport(report, ['carol.zip']));
+    expect(text).toContain('Submissions compared: 3 (3 pairs)');
+    expect(text).toMatch(/1 {2}0\.85 {3}0\.50 {8}alice\.zip ↔ carol\.zip {2}\[integrity FAILED\]/);
+    expect(text).toContain('alice.zip: events 10–90 (shared code)');
+    expect(text).toContain('carol.zip: event 4 (identifier "frobnicate")');
+    expect(text).toMatch(/not a verdict/);
+  });
+
+  it('says so when no pair is similar', () => {
+    expect(plain(formatSimilarityReport({ ...report, signals: [] }))).toContain('No similar pairs found.');
+  });
+});
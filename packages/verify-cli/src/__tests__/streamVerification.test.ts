@@ -0,0 +1,98 @@
+/**
+ * verify-cli のストリーム検証 (ADR-0039) が、大きな proof を丸ごとメモリに載せないこと。
+ *
+ * 判定そのものは shared (verification.test.ts) と web↔CLI パリティが固定する。ここは
+ * `openProofSources` がファイルから events を 1 件ずつ読むこと、分析の上限を超えた proof では
+ * `load` (proof 全体の JSON.parse) を呼ばずに検証・統計・プロセス要約を出し切ることを見る。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { openProofSources } from '../load.js';
+import { verifyProofSource } from '../verify.js';
+
+const EVENT_COUNT = 5_000;
+
+/** 1 文字ずつ打った events を持つ、構造だけ proof の形をした JSON (PoSW が偽物なので検証には落ちる)。 */
+function largeProofJson(): string {
+  const events = Array.from({ length: EVENT_COUNT }, (_, i) => ({
+    sequence: i,
+    timestamp: i * 100,
+    type: 'contentChange',
+    inputType: i === 10 ? 'insertFromPaste' : 'insertText',
+    data: 'a',
+    rangeOffset: i,
+    rangeLength: 0,
+    previousHash: i.toString(16).padStart(64, '0'),
+    hash: (i + 1).toString(16).padStart(64, '0'),
+    posw: { iterations: 1, nonce: '', intermediateHash: '', computeTimeMs: 0 },
+  }));
+  return JSON.stringify({
+    version: '3.2.0',
+    typingProofHash: '0'.repeat(64),
+    typingProofData: {
+      deviceId: 'device-1',
+      metadata: { totalEvents: EVENT_COUNT, pasteEvents: 1, dropEvents: 0, insertEvents: EVENT_COUNT, deleteEvents: 0 },
+    },
+    content: 'a'.repeat(EVENT_COUNT),
+    language: 'c',
+    proof: { totalEvents: EVENT_COUNT, finalHash: null, startTime: 0, endTime: 1000, signature: '', events },
+  });
+}
+
+describe('verifyProofSource', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'verify-stream-'));
+    path = join(dir, 'large_proof.json');
+    await writeFile(path, largeProofJson(), 'utf-8');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('verifies a proof above the analysis limit without parsing the whole file', async () => {
+    const fileSize = (await stat(path)).size;
+    const parse = vi.spyOn(JSON, 'parse');
+    const [source] = await openProofSources(path, 'large_proof.json');
+    const load = vi.fn(() => Promise.reject(new Error('the whole proof must not be loaded')));
+
+    const result = await verifyProofSource(
+      { openStream: () => source!.openStream(), load },
+      { mode: 'fast', quiet: true, analysisMaxEvents: 1_000 }
+    );
+
+    expect(load).not.toHaveBeenCalled();
+    // ヘッダと event 1 件ずつしか parse しない (proof 全体の JSON テキストは一度も parse されない)
+    const largestParsed = Math.max(...parse.mock.calls.map(([text]) => String(text).length));
+    expect(largestParsed).toBeLessThan(fileSize / 100);
+
+    expect(result.analysisSkipped).toBe(true);
+    expect(result.analysis).toBeUndefined();
+    expect(result.evidenceLocations).toBeUndefined();
+    expect(result.tamperForensics).toBeUndefined();
+    // 検証と統計は上限に関係なく全 events から出る
+    expect(result.valid).toBe(false);
+    expect(result.eventCount).toBe(EVENT_COUNT);
+    expect(result.pasteEvents).toBe(1);
+    expect(result.processSummary.totalEvents).toBe(EVENT_COUNT);
+    expect(result.processSummary.insertedChars).toBe(EVENT_COUNT);
+    expect(result.deviceId).toBe('device-1');
+  });
+
+  it('loads the proof for analysis at or below the limit', async () => {
+    const [source] = await openProofSources(path, 'large_proof.json');
+
+    const result = await verifyProofSource(source!, { mode: 'fast', quiet: true, analysisMaxEvents: EVENT_COUNT });
+
+    expect(result.analysisSkipped).toBeUndefined();
+    expect(result.analysis).toBeDefined();
+    expect(result.processSummary.totalEvents).toBe(EVENT_COUNT);
+  });
+});
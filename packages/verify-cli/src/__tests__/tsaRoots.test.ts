@@ -0,0 +1,113 @@
+/**
+ * TSA のルート証明書 (`--tsa-root`、ADR-0049) の CLI 側の契約。
+ *
+ * トークンの検証そのものは shared (timestampToken.test.ts) で固定済み。ここでは「読めない・証明書の
+ * 無いファイルを黙って無視しないか」「読んだルートでトークンが検証できるか」「どの TSA が押したかを
+ * 出力に出すか」を固定する。
+ */
+
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { verifyTimestampToken, type SignedCheckpointsVerificationResult } from '@typedcode/shared';
+import { createLocalTsa, type LocalTsa } from '../../../shared/src/__tests__/fixtures/localTsa.js';
+import { loadTsaRoots } from '../tsaRoots.js';
+import { formatResult } from '../output.js';
+import { plain } from './fixtures/ansi.js';
+
+let tsa: LocalTsa;
+
+beforeAll(async () => {
+  tsa = await createLocalTsa({ name: 'Campus TSA' });
+});
+
+describe('loadTsaRoots', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-tsa-root-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads PEM roots that verify tokens of that TSA', async () => {
+    const path = join(dir, 'root.pem');
+    await writeFile(path, tsa.rootPem);
+    const roots = await loadTsaRoots([path]);
+    expect(roots.added).toEqual([{ source: path, subject: 'Test TSA Root', notAfter: '2049-12-31T23:59:59.000Z' }]);
+
+    const hash = 'd'.repeat(64);
+    const token = {
+      algorithm: 'RFC3161' as const,
+      token: await tsa.stamp(hash),
+      clientTimestamp: new Date().toISOString(),
+    };
+    expect(await verifyTimestampToken(token, hash, roots.certificates)).toMatchObject({
+      valid: true,
+      tsaName: 'Campus TSA',
+    });
+  });
+
+  it('rejects files that are missing, empty or not certificates', async () => {
+    const empty = join(dir, 'empty.pem');
+    await writeFile(empty, 'not a certificate');
+    const broken = join(dir, 'broken.pem');
+    await writeFile(broken, '-----BEGIN CERTIFICATE-----\nAAAA\n-----END CERTIFICATE-----\n');
+
+    await expect(loadTsaRoots([join(dir, 'missing.pem')])).rejects.toThrow(/Cannot read TSA root certificate/);
+    await expect(loadTsaRoots([empty])).rejects.toThrow(/contains no PEM certificate/);
+    await expect(loadTsaRoots([broken])).rejects.toThrow(/is not a valid certificate/);
+  });
+});
+
+describe('formatResult — timestamp token anchors', () => {
+  it('names the TSAs that anchored the checkpoints', () => {
+    const signedCheckpoints = {
+      valid: true,
+      anchored: true,
+      details: [
+        {
+          checkpointIndex: 0,
+          eventIndex: 3,
+          valid: true,
+          timestampToken: { genTime: '2026-10-19T09:00:00.000Z', tsaName: 'Campus TSA' },
+        },
+        {
+          checkpointIndex: 1,
+          eventIndex: 7,
+          valid: true,
+          timestampToken: { genTime: '2026-10-19T09:00:10.000Z', tsaName: 'Campus TSA' },
+        },
+      ],
+      coverage: { signedCount: 2, lastSignedEventIndex: 7, coverageRatio: 1 },
+      temporal: null,
+      density: null,
+    } as unknown as SignedCheckpointsVerificationResult;
+    const text = plain(
+      formatResult({
+        valid: true,
+        metadataValid: true,
+        chainValid: true,
+        isPureTyping: true,
+        eventCount: 8,
+        duration: 0.1,
+        pasteEvents: 0,
+        dropEvents: 0,
+        poswIterations: 10000,
+        mode: 'full',
+        poswSkipped: false,
+        assurance: {
+          integrity: 'proven',
+          temporal: 'partial',
+          provenance: { pureTyping: true, notableSignals: 0, reviewPriority: 0 },
+        },
+        signedCheckpoints,
+      })
+    );
+    expect(text).toMatch(/Anchoring: +VERIFIED \(2 signed checkpoints, 100\.0% coverage\)/);
+    expect(text).toContain('Timestamp tokens: 2 (RFC 3161, Campus TSA)');
+  });
+});
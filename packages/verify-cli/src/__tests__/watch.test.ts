@@ -0,0 +1,74 @@
+/**
+ * `--watch` の見張りの契約。
+ *
+ * 検証そのものはバッチ検証と同じなので、ここでは「書き込み途中のファイルを拾わないか」
+ * 「検証済みのファイルを版が変わらない限り再検証しないか」「自分の書いた結果 JSON を入力として拾わないか」を固定する。
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pickSettledChanges, scanDropFolder, watchResultPath, type FileStamp } from '../watch.js';
+
+function snapshot(entries: Record<string, FileStamp>): Map<string, FileStamp> {
+  return new Map(Object.entries(entries));
+}
+
+describe('pickSettledChanges', () => {
+  const a1 = { size: 100, mtimeMs: 1 };
+  const a2 = { size: 200, mtimeMs: 2 };
+
+  it('waits until a new file has the same stamp on two consecutive scans', () => {
+    // 1 回目: 初めて見た (まだ書き込み中かもしれない)
+    expect(pickSettledChanges(snapshot({}), snapshot({ 'a.zip': a1 }), snapshot({})).added).toEqual([]);
+    // 2 回目: 育ち続けている
+    expect(pickSettledChanges(snapshot({ 'a.zip': a1 }), snapshot({ 'a.zip': a2 }), snapshot({})).added).toEqual([]);
+    // 3 回目: 止まった
+    expect(pickSettledChanges(snapshot({ 'a.zip': a2 }), snapshot({ 'a.zip': a2 }), snapshot({})).added).toEqual([
+      'a.zip',
+    ]);
+  });
+
+  it('re-verifies a file only when its settled stamp differs from the verified one', () => {
+    const verified = snapshot({ 'a.zip': a1 });
+    expect(pickSettledChanges(snapshot({ 'a.zip': a1 }), snapshot({ 'a.zip': a1 }), verified)).toEqual({
+      added: [],
+      modified: [],
+      removed: [],
+    });
+    expect(pickSettledChanges(snapshot({ 'a.zip': a2 }), snapshot({ 'a.zip': a2 }), verified).modified).toEqual([
+      'a.zip',
+    ]);
+  });
+
+  it('reports verified files that disappeared as removed', () => {
+    const changes = pickSettledChanges(snapshot({ 'a.zip': a1 }), snapshot({}), snapshot({ 'a.zip': a1 }));
+    expect(changes.removed).toEqual(['a.zip']);
+  });
+});
+
+describe('scanDropFolder', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'typedcode-watch-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stamps the .zip / .json files directly inside, skipping its own result files', async () => {
+    await writeFile(join(dir, 'alice.zip'), 'zip');
+    await writeFile(join(dir, 'bob.json'), '{}');
+    await writeFile(join(dir, 'notes.txt'), '');
+    await writeFile(watchResultPath(join(dir, 'alice.zip')), '{}');
+    await mkdir(join(dir, 'nested'));
+    await writeFile(join(dir, 'nested', 'carol.json'), '{}');
+
+    const scanned = await scanDropFolder(dir);
+    expect([...scanned.keys()]).toEqual(['alice.zip', 'bob.json']);
+    expect(scanned.get('alice.zip')?.size).toBe(3);
+  });
+});
@@ -18,7 +18,7 @@
 
 import { pathToFileURL } from 'node:url';
 import { resolve, isAbsolute } from 'node:path';
-import type { Analyzer } from '@typedcode/shared';
+import { defaultAnalyzers, type Analyzer } from '@typedcode/shared';
 
 function isAnalyzer(x: unknown): x is Analyzer {
   if (!x || typeof x !== 'object') return false;
@@ -74,3 +74,21 @@ export async function loadExternalAnalyzers(paths: readonly string[]): Promise<A
   }
   return all;
 }
+
+/**
+ * `--analyzer` / `--no-default-analyzers` の組から実際に走らせる Analyzer 群を決める。
+ * どちらも無いときは undefined (= shared の既定をそのまま使う)。
+ *
+ * @throws `--no-default-analyzers` 単独指定 / モジュール読込失敗のとき
+ */
+export async function resolveAnalyzers(
+  paths: readonly string[],
+  noDefaultAnalyzers: boolean
+): Promise<readonly Analyzer[] | undefined> {
+  if (paths.length === 0 && !noDefaultAnalyzers) return undefined;
+  if (noDefaultAnalyzers && paths.length === 0) {
+    throw new Error('--no-default-analyzers requires at least one --analyzer <path>.');
+  }
+  const external = await loadExternalAnalyzers(paths);
+  return noDefaultAnalyzers ? external : [...defaultAnalyzers, ...external];
+}
@@ -5,16 +5,30 @@
  * タイポでセキュリティゲートが無効のまま exit 0 になる (#148)。フラグは
  * ここのホワイトリストで検証し、cli.ts は結果を使うだけにする。
  * 新しいフラグを足すときは VALUE_FLAGS / BOOLEAN_FLAGS のどちらかに必ず登録する。
+ * サブコマンド (`cohort` 等) は自分用の FlagSpec を持ち、既定の検証フラグとは別に検証する
+ * (サブコマンドで意味を持たないフラグを黙って受け付けない)。
  */
 
+import { isValidAuditConfidence, type VerificationMode } from '@typedcode/shared';
+
 /** value を取る flag。`--name value` と `--name=value` の両方を許す。`--analyzer` は反復可。 */
 export const VALUE_FLAGS = new Set([
   '--mode',
+  '--audit-confidence',
   '--exam-package',
   '--submitted-at',
   '--analysis-json',
   '--analysis-bundle',
   '--analyzer',
+  '--jobs',
+  '--format',
+  '--junit',
+  '--sarif',
+  '--policy',
+  '--roster',
+  '--roster-json',
+  '--key-set',
+  '--tsa-root',
 ]);
 
 /** 値を取らない boolean flag。`=` 付きは拒否する。 */
@@ -22,22 +36,85 @@ export const BOOLEAN_FLAGS = new Set([
   '--require-anchor-density',
   '--require-root-anchor',
   '--no-default-analyzers',
+  '--watch',
   '--help',
   '-h',
 ]);
 
+/** あるコマンドが受け付けるフラグのホワイトリスト。 */
+export interface FlagSpec {
+  value: ReadonlySet<string>;
+  boolean: ReadonlySet<string>;
+}
+
+/** 既定 (検証) コマンドのフラグ。 */
+export const VERIFY_FLAGS: FlagSpec = { value: VALUE_FLAGS, boolean: BOOLEAN_FLAGS };
+
+/**
+ * `cohort` サブコマンド (ADR-0025) のフラグ。raw proof を検証してバンドルを作る経路のため
+ * `--mode` / 分析器フラグも受け付ける (ゲート系は exit code に関与しないので受け付けない)。
+ */
+export const COHORT_FLAGS: FlagSpec = {
+  value: new Set(['--mode', '--analyzer', '--baseline-out', '--positions-json']),
+  boolean: new Set(['--no-default-analyzers', '--help', '-h']),
+};
+
+/**
+ * `similarity` サブコマンド (ADR-0035) のフラグ。raw proof を検証してから比べるため `--mode` を受け付ける
+ * (単体の分析器は走らせないので分析器フラグは受け付けない)。
+ */
+export const SIMILARITY_FLAGS: FlagSpec = {
+  value: new Set(['--mode', '--json']),
+  boolean: new Set(['--help', '-h']),
+};
+
+/**
+ * `diff` サブコマンドのフラグ。両方の proof を検証して結果を添えるため `--mode` を受け付け、
+ * マルチタブ ZIP から比べる proof を `--entry` で選ぶ。
+ */
+export const DIFF_FLAGS: FlagSpec = {
+  value: new Set(['--mode', '--entry', '--json']),
+  boolean: new Set(['--help', '-h']),
+};
+
+/**
+ * `inspect` サブコマンドのフラグ。proof を検証せずに中身を調べるので `--mode` は受け付けない。
+ * 何を調べるかは boolean flag で選ぶ (今は `--version-report` だけ)。
+ */
+export const INSPECT_FLAGS: FlagSpec = {
+  value: new Set(['--json']),
+  boolean: new Set(['--version-report', '--help', '-h']),
+};
+
+/**
+ * `key-set` サブコマンド (ADR-0048) のフラグ。proof は扱わないので検証系のフラグは受け付けない。
+ */
+export const KEY_SET_FLAGS: FlagSpec = {
+  value: new Set(['--api-url', '--out']),
+  boolean: new Set(['--help', '-h']),
+};
+
+/**
+ * `eval` サブコマンド (W5, docs/analysis-eval-protocol.md) のフラグ。manifest の proof を検証・分析するため
+ * `--mode` / 分析器フラグを受け付け、評価レポートの書き出し先を取る。
+ */
+export const EVAL_FLAGS: FlagSpec = {
+  value: new Set(['--mode', '--analyzer', '--max-fpr', '--json', '--markdown', '--signals-json']),
+  boolean: new Set(['--no-default-analyzers', '--help', '-h']),
+};
+
 /**
  * フラグ列を検証し、問題があればエラーメッセージを返す (なければ null)。
  * - 未知の `-`/`--` 引数 → エラー (タイポの黙殺防止)
  * - value flag の値欠落 (末尾、または次の引数がフラグ) → エラー
  * - boolean flag への `=` 付与 (`--require-root-anchor=true`) → エラー (黙って無視しない)
  */
-export function findFlagError(args: string[]): string | null {
+export function findFlagError(args: string[], spec: FlagSpec = VERIFY_FLAGS): string | null {
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]!;
     if (!arg.startsWith('-')) continue;
-    if (BOOLEAN_FLAGS.has(arg)) continue;
-    if (VALUE_FLAGS.has(arg)) {
+    if (spec.boolean.has(arg)) continue;
+    if (spec.value.has(arg)) {
       const value = args[i + 1];
       if (value === undefined || value.startsWith('-')) {
         return `${arg} requires a value.`;
@@ -48,8 +125,8 @@ export function findFlagError(args: string[]): string | null {
     const eq = arg.indexOf('=');
     if (eq > 0) {
       const name = arg.slice(0, eq);
-      if (VALUE_FLAGS.has(name)) continue;
-      if (BOOLEAN_FLAGS.has(name)) {
+      if (spec.value.has(name)) continue;
+      if (spec.boolean.has(name)) {
         return `${name} does not take a value (got: ${arg}).`;
       }
     }
@@ -66,6 +143,53 @@ export function flagValue(args: string[], name: string): string | undefined {
   return arg.startsWith(`${name}=`) ? arg.slice(name.length + 1) : args[i + 1];
 }
 
+/** `--mode` の値を検証して返す (未指定は full)。不正値は throw (黙って full にしない)。 */
+export function parseModeFlag(args: string[]): VerificationMode {
+  const value = flagValue(args, '--mode');
+  if (value === undefined) return 'full';
+  if (value === 'fast' || value === 'audit' || value === 'full') return value;
+  throw new Error(`Invalid --mode value: ${value}. Use fast | audit | full.`);
+}
+
+/**
+ * `--audit-confidence` の値を検証して返す (未指定は undefined = shared の既定)。
+ * (0, 1) 外や数値でない値、`--mode audit` 以外での指定は throw (黙って無視しない)。
+ */
+export function parseAuditConfidenceFlag(args: string[], mode: VerificationMode): number | undefined {
+  const value = flagValue(args, '--audit-confidence');
+  if (value === undefined) return undefined;
+  if (mode !== 'audit') {
+    throw new Error('--audit-confidence only applies to --mode audit.');
+  }
+  const confidence = Number(value);
+  if (value.trim() === '' || !isValidAuditConfidence(confidence)) {
+    throw new Error(`Invalid --audit-confidence value: ${value}. Use a number between 0 and 1 (e.g. 0.99).`);
+  }
+  return confidence;
+}
+
+/** `--max-fpr` の値を検証して返す (未指定は undefined = shared の既定 0.05)。[0, 1] 外は throw。 */
+export function parseMaxFprFlag(args: string[]): number | undefined {
+  const value = flagValue(args, '--max-fpr');
+  if (value === undefined) return undefined;
+  const maxFpr = Number(value);
+  if (value.trim() === '' || !Number.isFinite(maxFpr) || maxFpr < 0 || maxFpr > 1) {
+    throw new Error(`Invalid --max-fpr value: ${value}. Use a number between 0 and 1 (e.g. 0.05).`);
+  }
+  return maxFpr;
+}
+
+/** 検証結果の出力形式。text = 人間向けの色付き表示、json / ndjson = report.ts の機械可読 schema。 */
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+/** `--format` の値を検証して返す (未指定は text)。不正値は throw (黙って text にしない)。 */
+export function parseFormatFlag(args: string[]): OutputFormat {
+  const value = flagValue(args, '--format');
+  if (value === undefined) return 'text';
+  if (value === 'text' || value === 'json' || value === 'ndjson') return value;
+  throw new Error(`Invalid --format value: ${value}. Use text | json | ndjson.`);
+}
+
 /** 反復可能な value flag の値をすべて集める (`--analyzer a --analyzer b`)。 */
 export function flagValues(args: string[], name: string): string[] {
   const out: string[] = [];
@@ -83,11 +207,11 @@ export function flagValues(args: string[], name: string): string[] {
 }
 
 /** フラグとその値を除いた位置引数 (検証対象ファイル)。 */
-export function nonFlagArgs(args: string[]): string[] {
+export function nonFlagArgs(args: string[], spec: FlagSpec = VERIFY_FLAGS): string[] {
   const out: string[] = [];
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]!;
-    if (VALUE_FLAGS.has(arg)) {
+    if (spec.value.has(arg)) {
       i++; // skip the flag's value
       continue;
     }
@@ -0,0 +1,152 @@
+/**
+ * バッチ検証: 提出フォルダ (または複数ファイル) を一括で検証する。
+ *
+ * 採点者は `ALL_TC.zip` を学生数ぶん受け取る。1 ファイルずつ CLI を回すのではなく、
+ * ディレクトリを渡せば中の `.zip` / `.json` をすべて検証し、マルチタブ ZIP は全タブを
+ * 検証する (exam/class はタブ毎に proof が出るため)。PoSW 再計算が支配的なので、入力ファイル
+ * 単位でワーカープールに振り分けて並列化する。
+ *
+ * 判定はしない — 各 proof の検証は verify.ts (→ shared) そのもので、ここは入力の列挙と
+ * 振り分けだけを担う。集計 exit code は「1 件でも fail / 読込エラーなら 1」。
+ */
+
+import { readdir, stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { CheckpointPublicKey, ExamPackageManifest, VerificationMode } from '@typedcode/shared';
+import { resolveAnalyzers } from './analyzers.js';
+import { isSupportedProofPath, openProofSources } from './load.js';
+import type { LoadedGatePolicy } from './policy.js';
+import { verifyProofSource, type CLIVerificationResult } from './verify.js';
+import { extractSubmissionReceipt, summarizeZipScreenshots } from './zip.js';
+import { WorkerPool } from './workerPool.js';
+
+/** 全ワーカー共通の検証設定 (structured clone されるので関数や Analyzer 実体は持たない)。 */
+export interface BatchSettings {
+  mode: VerificationMode;
+  auditConfidence?: number;
+  examPackageManifest?: ExamPackageManifest;
+  submittedAtMs?: number;
+  requireAnchorDensity: boolean;
+  requireRootAnchor: boolean;
+  /** 外部 Analyzer はモジュールパスで渡し、各ワーカーが自分で import する。 */
+  analyzerPaths: string[];
+  noDefaultAnalyzers: boolean;
+  /** SARIF 出力のため、分析 signal の証拠を最終コードの行へ写す。 */
+  locateEvidence: boolean;
+  /** ゲートポリシー (ADR-0036)。メイン側で一度だけ読んで hash を取り、検証済みの形で渡す。 */
+  policy?: LoadedGatePolicy;
+  /** 署名鍵の key set (ADR-0048) で広げた registry。メイン側で連鎖を検証してから渡す。未指定なら組み込み registry。 */
+  signedCheckpointKeyRegistry?: readonly CheckpointPublicKey[];
+  /** `--tsa-root` を重ねた TSA のルート証明書 (ADR-0049)。未指定なら組み込みのルート。 */
+  tsaRootCertificates?: readonly string[];
+}
+
+/** ワーカーへの 1 タスク = 入力ファイル 1 つ。 */
+export interface BatchTask {
+  filePath: string;
+  displayName: string;
+}
+
+/** 入力ファイル 1 つの検証結果。読めなかったファイルは error を持ち proofs は空。 */
+export interface BatchFileResult {
+  source: string;
+  proofs: Array<{ filename: string; result: CLIVerificationResult }>;
+  error?: string;
+}
+
+/**
+ * 位置引数を検証対象ファイルの列へ展開する。ディレクトリは直下の `.zip` / `.json` を
+ * ファイル名順に (非再帰)。ファイルはそのまま (拡張子の検査は読込時に行い、エラー行にする)。
+ */
+export async function expandInputs(paths: readonly string[]): Promise<string[]> {
+  const out: string[] = [];
+  for (const p of paths) {
+    if ((await stat(p)).isDirectory()) {
+      const names = (await readdir(p, { withFileTypes: true }))
+        .filter((d) => d.isFile() && isSupportedProofPath(d.name))
+        .map((d) => d.name)
+        .sort();
+      out.push(...names.map((n) => join(p, n)));
+    } else {
+      out.push(p);
+    }
+  }
+  return out;
+}
+
+/**
+ * 入力ファイル 1 つを検証する (ZIP は全タブ + スクショ)。ワーカー内で呼ばれる。
+ * 進捗バーは出さない (複数ワーカーが端末を共有するため)。
+ */
+export async function verifyInputFile(task: BatchTask, settings: BatchSettings): Promise<BatchFileResult> {
+  const analyzers = await resolveAnalyzers(settings.analyzerPaths, settings.noDefaultAnalyzers);
+  const proofs = await openProofSources(task.filePath, basename(task.displayName));
+  const isZip = extname(task.filePath).toLowerCase() === '.zip';
+  const screenshotSummary = isZip ? await summarizeZipScreenshots(task.filePath, proofs) : undefined;
+  const submissionReceipt = isZip ? await extractSubmissionReceipt(task.filePath) : null;
+
+  const results: BatchFileResult['proofs'] = [];
+  for (const source of proofs) {
+    const result = await verifyProofSource(source, {
+      mode: settings.mode,
+      auditConfidence: settings.auditConfidence,
+      examPackageManifest: settings.examPackageManifest,
+      submittedAtMs: settings.submittedAtMs,
+      requireAnchorDensity: settings.requireAnchorDensity,
+      requireRootAnchor: settings.requireRootAnchor,
+      analyzers,
+      screenshotSummary,
+      submissionReceipt,
+      locateEvidence: settings.locateEvidence,
+      policy: settings.policy,
+      signedCheckpointKeyRegistry: settings.signedCheckpointKeyRegistry,
+      tsaRootCertificates: settings.tsaRootCertificates,
+      quiet: true,
+    });
+    results.push({ filename: source.filename, result });
+  }
+  return { source: task.displayName, proofs: results };
+}
+
+/** ワーカーエントリ。コンパイル後 (dist/*.js) と tsx 実行 (src/*.ts) の両方で同じ拡張子を引く。 */
+function batchWorkerUrl(): URL {
+  const ext = extname(fileURLToPath(import.meta.url));
+  return new URL(`./batchWorker${ext}`, import.meta.url);
+}
+
+/**
+ * 入力ファイル群をワーカープールで検証する。結果は入力順に並べて返す (完了順ではない)。
+ * `onFileDone` は完了順に呼ばれる (進捗表示用)。
+ */
+export async function verifyBatch(
+  tasks: readonly BatchTask[],
+  settings: BatchSettings,
+  jobs: number,
+  onFileDone?: (result: BatchFileResult, done: number, total: number) => void
+): Promise<BatchFileResult[]> {
+  const pool = new WorkerPool<BatchTask, BatchFileResult>(batchWorkerUrl(), Math.min(jobs, tasks.length), settings);
+  let done = 0;
+  try {
+    return await Promise.all(
+      tasks.map(async (task) => {
+        let result: BatchFileResult;
+        try {
+          result = await pool.run(task);
+        } catch (err) {
+          result = { source: task.displayName, proofs: [], error: err instanceof Error ? err.message : String(err) };
+        }
+        done++;
+        onFileDone?.(result, done, tasks.length);
+        return result;
+      })
+    );
+  } finally {
+    await pool.close();
+  }
+}
+
+/** バッチ全体の合否: 読込エラーが無く、全 proof が valid のときだけ成功。 */
+export function batchPassed(results: readonly BatchFileResult[]): boolean {
+  return results.every((r) => r.error === undefined && r.proofs.length > 0 && r.proofs.every((p) => p.result.valid));
+}
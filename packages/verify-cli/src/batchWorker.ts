@@ -0,0 +1,29 @@
+/**
+ * バッチ検証のワーカープロセス (workerPool.ts のメッセージ契約に従う)。
+ *
+ * 1 タスク = 入力ファイル 1 つ。検証設定は最初の init メッセージで一度だけ受け取る。
+ * 例外は握りつぶさず error 応答にして、メイン側でその入力ファイルのエラー行にする。
+ * 親との IPC が切れたら (親の異常終了) 自分も終わる — 孤児プロセスを残さない。
+ */
+
+import { verifyInputFile, type BatchFileResult, type BatchSettings, type BatchTask } from './batch.js';
+import type { WorkerMessage, WorkerReply } from './workerPool.js';
+
+let settings: BatchSettings | undefined;
+
+process.on('message', async (message: WorkerMessage<BatchTask>) => {
+  if (message.type === 'init') {
+    settings = message.data as BatchSettings;
+    return;
+  }
+  let reply: WorkerReply<BatchFileResult>;
+  try {
+    if (!settings) throw new Error('Worker received a task before init');
+    reply = { id: message.id, ok: true, result: await verifyInputFile(message.task, settings) };
+  } catch (err) {
+    reply = { id: message.id, ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  process.send!(reply);
+});
+
+process.on('disconnect', () => process.exit(0));
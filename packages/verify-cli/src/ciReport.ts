@@ -0,0 +1,235 @@
+/**
+ * CI ダッシュボード向けのレポート (`--junit` / `--sarif`)。
+ *
+ * 提出リポジトリに対して検証を回す self-hosted CI で、既存の CI UI にそのまま学生ごとの結果を
+ * 出すための形式変換。判定ロジックは持たない — 合否は CLIVerificationResult.valid そのもので、
+ * ここではそれをどの JUnit 要素 / SARIF result に写すかだけを決める (純関数)。
+ *
+ * - JUnit: 入力ファイル 1 つ = testsuite、proof 1 件 = testcase。検証失敗は失敗の軸
+ *   (integrity / exam-binding / screenshots / temporal / policy) ごとに `<failure type>`、読めなかった
+ *   入力ファイルは `<error>`。三層保証と分析 signal は `<properties>` に載せる (advisory)。
+ * - SARIF 2.1.0: 分析 signal 1 つ = result。証拠の event 範囲を最終コードの行 (evidenceLocations)
+ *   へ写して region にする。signal は判定ではないので level は `error` を使わない。
+ */
+
+import { dirname, join } from 'node:path';
+import type { AnalysisSeverity } from '@typedcode/shared';
+import type { BatchFileResult } from './batch.js';
+import type { CLIVerificationResult } from './verify.js';
+
+/** JUnit `<failure type>` に使う失敗の軸。 */
+export type FailureKind = 'integrity' | 'exam-binding' | 'screenshots' | 'temporal' | 'policy';
+
+/**
+ * 失敗した proof の失敗の軸と理由。複数の軸が同時に落ちていればすべて返す。
+ * チェーン・メタデータが健全で他の軸にも当たらない失敗は、時刻アンカー系のゲート
+ * (署名 cp 不正・セッショントークン不一致・root アンカー必須・アンカー密度) による。
+ * ゲートポリシー (ADR-0036) の fail 規則は規則ごとに `policy` の軸として返す。
+ */
+export function classifyFailures(result: CLIVerificationResult): Array<{ kind: FailureKind; message: string }> {
+  if (result.valid) return [];
+  const failures: Array<{ kind: FailureKind; message: string }> = [];
+  const integrityFailed = !result.metadataValid || !result.chainValid;
+  if (integrityFailed) {
+    const at = result.errorAt !== undefined ? ` (event ${result.errorAt})` : '';
+    failures.push({ kind: 'integrity', message: `${result.errorMessage ?? 'Integrity check failed'}${at}` });
+  }
+  if (result.exam?.binding && !result.exam.binding.valid) {
+    failures.push({ kind: 'exam-binding', message: result.exam.binding.reason ?? 'Exam binding failed' });
+  }
+  if ((result.screenshots?.tampered ?? 0) > 0) {
+    failures.push({ kind: 'screenshots', message: `${result.screenshots!.tampered} screenshot(s) tampered` });
+  }
+  // ゲートポリシー (ADR-0036): 発火した fail 規則ごとに 1 つ。
+  const verificationPassed = result.policy?.verificationPassed ?? false;
+  for (const rule of result.policy?.tripped ?? []) {
+    if (rule.action !== 'fail') continue;
+    failures.push({ kind: 'policy', message: `${rule.id}${rule.message ? `: ${rule.message}` : ''}` });
+  }
+  // ポリシー以外の軸に当たらず、ポリシー適用前の検証も落ちていたなら時刻アンカー系のゲート。
+  if (!verificationPassed && !failures.some((f) => f.kind !== 'policy')) {
+    failures.push({ kind: 'temporal', message: result.errorMessage ?? 'Anchoring gate failed' });
+  }
+  return failures;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attrs(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([k, v]) => ` ${k}="${xmlEscape(String(v))}"`)
+    .join('');
+}
+
+function junitProperties(result: CLIVerificationResult): Array<[string, string]> {
+  const props: Array<[string, string]> = [['mode', result.mode]];
+  if (result.assurance) {
+    props.push(['assurance.integrity', result.assurance.integrity]);
+    props.push(['assurance.temporal', result.assurance.temporal]);
+  }
+  if (result.policy) {
+    props.push(['policy.sha256', result.policy.sha256]);
+    props.push(['policy.outcome', result.policy.outcome]);
+    for (const rule of result.policy.tripped) {
+      props.push([`policy.rule.${rule.id}`, rule.action]);
+    }
+  }
+  if (result.analysis) {
+    props.push(['analysis.reviewPriority', result.analysis.reviewPriority.toFixed(2)]);
+    for (const signal of result.analysis.signals) {
+      props.push([
+        `signal.${signal.analyzerId}.${signal.dimension}`,
+        `${signal.severity} score=${signal.score.toFixed(2)} confidence=${signal.confidence.toFixed(2)}: ${signal.summary}`,
+      ]);
+    }
+  }
+  return props;
+}
+
+/** JUnit XML (入力ファイル = testsuite、proof = testcase)。 */
+export function formatJUnitReport(files: readonly BatchFileResult[]): string {
+  const suites: string[] = [];
+  let tests = 0;
+  let failures = 0;
+  let errors = 0;
+  let time = 0;
+
+  for (const file of files) {
+    if (file.error !== undefined) {
+      tests++;
+      errors++;
+      suites.push(
+        `  <testsuite${attrs({ name: file.source, tests: 1, failures: 0, errors: 1, time: 0 })}>`,
+        `    <testcase${attrs({ classname: file.source, name: file.source, time: 0 })}>`,
+        `      <error${attrs({ message: file.error, type: 'load' })}/>`,
+        '    </testcase>',
+        '  </testsuite>'
+      );
+      continue;
+    }
+
+    const suiteFailures = file.proofs.filter((p) => !p.result.valid).length;
+    const suiteTime = file.proofs.reduce((sum, p) => sum + p.result.duration, 0);
+    tests += file.proofs.length;
+    failures += suiteFailures;
+    time += suiteTime;
+    suites.push(
+      `  <testsuite${attrs({ name: file.source, tests: file.proofs.length, failures: suiteFailures, errors: 0, time: suiteTime.toFixed(3) })}>`
+    );
+    for (const { filename, result } of file.proofs) {
+      suites.push(
+        `    <testcase${attrs({ classname: file.source, name: filename, time: result.duration.toFixed(3) })}>`
+      );
+      suites.push('      <properties>');
+      for (const [name, value] of junitProperties(result)) {
+        suites.push(`        <property${attrs({ name, value })}/>`);
+      }
+      suites.push('      </properties>');
+      for (const failure of classifyFailures(result)) {
+        suites.push(
+          `      <failure${attrs({ message: failure.message, type: failure.kind })}>${xmlEscape(failure.message)}</failure>`
+        );
+      }
+      suites.push('    </testcase>');
+    }
+    suites.push('  </testsuite>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attrs({ name: 'typedcode-verify', tests, failures, errors, time: time.toFixed(3) })}>`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** signal の重大度 → SARIF level。advisory なので `error` は使わない。 */
+const SARIF_LEVELS: Record<AnalysisSeverity, 'none' | 'note' | 'warning'> = {
+  info: 'none',
+  notice: 'note',
+  review: 'warning',
+};
+
+/**
+ * SARIF の artifact URI。エディタ上のソースファイル名を、入力ファイルと同じディレクトリに
+ * 置いたものとして書く (提出リポジトリで ZIP の隣に展開されたソースを指す想定)。
+ * ファイル名の記録が無い旧 proof は入力ファイル自身を指す。
+ */
+function artifactUri(source: string, result: CLIVerificationResult): string {
+  const path = result.sourceFilename ? join(dirname(source), result.sourceFilename) : source;
+  return path.split('\\').join('/');
+}
+
+/** SARIF 2.1.0 (分析 signal = result、証拠 = 最終コードの行)。 */
+export function formatSarifReport(files: readonly BatchFileResult[]): string {
+  const rules = new Map<string, { id: string; name: string; properties: { dimensions: string[] } }>();
+  const results: unknown[] = [];
+
+  for (const file of files) {
+    for (const { filename, result } of file.proofs) {
+      const uri = artifactUri(file.source, result);
+      result.analysis?.signals.forEach((signal, signalIndex) => {
+        const rule = rules.get(signal.analyzerId) ?? {
+          id: signal.analyzerId,
+          name: signal.analyzerId,
+          properties: { dimensions: [] },
+        };
+        if (!rule.properties.dimensions.includes(signal.dimension)) rule.properties.dimensions.push(signal.dimension);
+        rules.set(signal.analyzerId, rule);
+
+        const regions = (result.evidenceLocations ?? [])
+          .filter((l) => l.signalIndex === signalIndex)
+          .flatMap((l) => l.lines);
+        const locations =
+          regions.length > 0
+            ? regions.map((r) => ({
+                physicalLocation: {
+                  artifactLocation: { uri },
+                  region: { startLine: r.startLine, endLine: r.endLine },
+                },
+              }))
+            : [{ physicalLocation: { artifactLocation: { uri } } }];
+
+        results.push({
+          ruleId: signal.analyzerId,
+          level: SARIF_LEVELS[signal.severity],
+          message: { text: signal.summary },
+          locations,
+          properties: {
+            submission: file.source,
+            proof: filename,
+            dimension: signal.dimension,
+            score: signal.score,
+            confidence: signal.confidence,
+            evidence: signal.evidence,
+          },
+        });
+      });
+    }
+  }
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'typedcode-verify',
+            rules: [...rules.values()].sort((a, b) => a.id.localeCompare(b.id)),
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
@@ -2,41 +2,93 @@
 /**
  * @typedcode/verify-cli - Typing proof file verifier
  *
- * Usage: typedcode-verify <file.json|file.zip> [--mode <m>] [--exam-package <f>] [--submitted-at <ISO>]
+ * Usage: typedcode-verify <file.json|file.tcproof|file.zip|dir>... [--mode <m>] [--audit-confidence <c>]
+ *                         [--format <text|json|ndjson>]
+ *                         [--exam-package <f>] [--submitted-at <ISO>] [--policy <f>] [--roster <csv>]
+ *                         [--key-set <f>] [--tsa-root <pem>]...
+ *        typedcode-verify --watch <dir> [--exam-package <f>] [--policy <f>]
+ *        typedcode-verify cohort <dir> [--baseline-out <f>] [--positions-json <f>]
+ *        typedcode-verify similarity <dir> [--mode <m>] [--json <f>]
+ *        typedcode-verify eval <manifest.json> [--analyzer <module>]... [--json <f>]
+ *        typedcode-verify diff <a> <b> [--entry <name>] [--json <f>]
+ *        typedcode-verify inspect <file>... --version-report [--json <f>]
+ *        typedcode-verify key-set --api-url <url> [--out <f>]
  */
 
-import { readFile, writeFile } from 'node:fs/promises';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
 import { resolve, extname } from 'node:path';
-import { verifyProof, type ProofFile } from './verify.js';
-import { extractAllProofs, extractScreenshotArtifacts } from './zip.js';
-import { loadExternalAnalyzers } from './analyzers.js';
-import { formatResult, printError, printUsage } from './output.js';
+import { verifyProofSource, type CLIVerificationResult, type VerifyProofOptions } from './verify.js';
+import { extractSubmissionReceipt, summarizeZipScreenshots } from './zip.js';
+import { openProofSources, proofLabel, type ProofSource } from './load.js';
+import { resolveAnalyzers } from './analyzers.js';
+import { batchPassed, expandInputs, verifyBatch, type BatchFileResult, type BatchSettings } from './batch.js';
+import { formatReport, toResultRecords } from './report.js';
+import { formatJUnitReport, formatSarifReport } from './ciReport.js';
+import { runCohortCommand } from './cohort.js';
+import { runSimilarityCommand } from './similarity.js';
+import { runEvalCommand } from './eval.js';
+import { runDiffCommand } from './diff.js';
+import { runInspectCommand } from './inspect.js';
+import { loadGatePolicy, type LoadedGatePolicy } from './policy.js';
+import { loadKeySet, runKeySetCommand, type LoadedKeySet } from './keySet.js';
+import { loadTsaRoots, type LoadedTsaRoots } from './tsaRoots.js';
+import { WATCH_POLL_INTERVAL_MS, watchDropFolder } from './watch.js';
+import { loadRoster, reconcileBatch, type LoadedRoster } from './roster.js';
+import {
+  formatBatchProgress,
+  formatBatchSummary,
+  formatResult,
+  formatRosterReport,
+  printError,
+  printUsage,
+} from './output.js';
 import { Spinner } from './progress.js';
 import {
   parseExamPackageManifest,
-  defaultAnalyzers,
   buildAnalysisBundle,
-  collectChainImageHashes,
-  summarizeScreenshotArtifacts,
   type VerificationMode,
   type ExamPackageManifest,
   type Analyzer,
   type AnalysisBundle,
   type ScreenshotVerificationSummary,
+  type SubmissionReceipt,
 } from '@typedcode/shared';
 
-import { findFlagError, flagValue, flagValues, nonFlagArgs } from './args.js';
-
-function parseModeFlag(args: string[]): VerificationMode {
-  const value = flagValue(args, '--mode');
-  if (value === undefined) return 'full';
-  if (value === 'fast' || value === 'audit' || value === 'full') return value;
-  throw new Error(`Invalid --mode value: ${value}. Use fast | audit | full.`);
-}
+import {
+  findFlagError,
+  flagValue,
+  flagValues,
+  nonFlagArgs,
+  parseFormatFlag,
+  parseModeFlag,
+  parseAuditConfidenceFlag,
+  type OutputFormat,
+} from './args.js';
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
+  // サブコマンド: 先頭の位置引数で分岐する (それ以外は従来どおり proof ファイルの検証)。
+  if (args[0] === 'cohort') {
+    process.exit(await runCohortCommand(args.slice(1)));
+  }
+  if (args[0] === 'similarity') {
+    process.exit(await runSimilarityCommand(args.slice(1)));
+  }
+  if (args[0] === 'eval') {
+    process.exit(await runEvalCommand(args.slice(1)));
+  }
+  if (args[0] === 'diff') {
+    process.exit(await runDiffCommand(args.slice(1)));
+  }
+  if (args[0] === 'inspect') {
+    process.exit(await runInspectCommand(args.slice(1)));
+  }
+  if (args[0] === 'key-set') {
+    process.exit(await runKeySetCommand(args.slice(1)));
+  }
+
   if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
     printUsage();
     process.exit(args.length === 0 ? 1 : 0);
@@ -51,15 +103,27 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const mode = parseModeFlag(args);
+  let mode: VerificationMode;
+  let auditConfidence: number | undefined;
+  let format: OutputFormat;
+  try {
+    mode = parseModeFlag(args);
+    auditConfidence = parseAuditConfidenceFlag(args, mode);
+    format = parseFormatFlag(args);
+  } catch (err) {
+    printError(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
   const positional = nonFlagArgs(args);
   if (positional.length === 0) {
     printError('No proof file given.');
     printUsage();
     process.exit(1);
   }
-  const filePath = resolve(positional[0]!);
-  const ext = extname(filePath).toLowerCase();
+
+  // 機械可読形式 (`--format json|ndjson`) では stdout を JSON だけにする。
+  // 状態表示 (進捗・書き出し先の通知) は stderr へ逃がす。
+  const status = format === 'text' ? console.log : console.error;
 
   // anchoring 密度 gate (ADR-0016): boolean フラグ。指定すると密度が疎な proof を fail させる。
   const requireAnchorDensity = args.includes('--require-anchor-density');
@@ -67,6 +131,70 @@ async function main(): Promise<void> {
   // root アンカー gate (ADR-0017): boolean フラグ。指定すると root 未アンカー proof を fail させる。
   const requireRootAnchor = args.includes('--require-root-anchor');
 
+  // ゲートポリシー (ADR-0036): 版付きのポリシーファイルで fail / warn の規則を宣言する。
+  // 検証の前に読んで検証し (不正なら exit 1)、ファイルの hash を結果に記録する。
+  const policyPath = flagValue(args, '--policy');
+  let policy: LoadedGatePolicy | undefined;
+  if (policyPath !== undefined) {
+    try {
+      policy = await loadGatePolicy(policyPath);
+    } catch (err) {
+      printError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    const name = policy.policy.name ? `${policy.policy.name} ` : '';
+    status(`Gate policy: ${name}(${policyPath}, ${policy.policy.rules.length} rule(s), sha256 ${policy.sha256})`);
+  }
+
+  // 署名鍵の key set (ADR-0048): `key-set` でキャッシュした連鎖を組み込み registry から検証し
+  // (不正なら exit 1)、通った registry で署名 cp / セッション開始トークン / 提出レシートを検証する。
+  const keySetPath = flagValue(args, '--key-set');
+  let keySet: LoadedKeySet | undefined;
+  if (keySetPath !== undefined) {
+    try {
+      keySet = await loadKeySet(keySetPath);
+    } catch (err) {
+      printError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    const sequence = keySet.sequence === null ? 'empty' : `sequence ${keySet.sequence}`;
+    status(`Key set: ${keySetPath} (${sequence}, ${keySet.addedKeyIds.length} key(s) added to the built-in registry)`);
+  }
+
+  // TSA のルート証明書 (ADR-0049): RFC 3161 のタイムスタンプトークンで時刻を固定した checkpoint は、
+  // 署名者の証明書がここで渡したルート (と組み込みのルート) へ辿れるときだけアンカーに数える。
+  const tsaRootPaths = flagValues(args, '--tsa-root');
+  let tsaRoots: LoadedTsaRoots | undefined;
+  if (tsaRootPaths.length > 0) {
+    try {
+      tsaRoots = await loadTsaRoots(tsaRootPaths);
+    } catch (err) {
+      printError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    for (const root of tsaRoots.added) {
+      status(`TSA root: ${root.subject ?? '(no subject name)'} (${root.source}, valid until ${root.notAfter})`);
+    }
+  }
+
+  // 名簿突合 (ADR-0037): 検証の後で、名簿と提出物を突き合わせる (exit code には関与しない)。
+  const rosterPath = flagValue(args, '--roster');
+  const rosterJsonPath = flagValue(args, '--roster-json');
+  let roster: LoadedRoster | undefined;
+  if (rosterJsonPath !== undefined && rosterPath === undefined) {
+    printError('--roster-json needs --roster.');
+    process.exit(1);
+  }
+  if (rosterPath !== undefined) {
+    try {
+      roster = await loadRoster(rosterPath);
+    } catch (err) {
+      printError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    status(`Roster: ${rosterPath} (${roster.entries.length} student(s))`);
+  }
+
   // 分析レポートの JSON 出力 (ADR-0009): 評価ハーネス/集計スクリプトの機械可読な入口。
   // advisory であって判定ではない — exit code には一切影響しない。
   const analysisJsonPath = flagValue(args, '--analysis-json');
@@ -75,27 +203,27 @@ async function main(): Promise<void> {
   // をファイルへ。コホート基準 (ADR-0025) の入力フォーマット。advisory・exit code 非干渉。
   const analysisBundlePath = flagValue(args, '--analysis-bundle');
 
+  // CI ダッシュボード向けレポート: JUnit XML (proof = testcase) と SARIF (分析 signal の証拠 → 行)。
+  // 合否は通常の検証そのもの。exit code も変わらない。
+  const junitPath = flagValue(args, '--junit');
+  const sarifPath = flagValue(args, '--sarif');
+  const locateEvidence = sarifPath !== undefined;
+
   // 外部アナライザ (ADR-0009 / プラットフォーム方針): 採点者/研究者が自前の Analyzer を
   // フォークせず差し込む口。`--analyzer <path>` 反復可、`--no-default-analyzers` で既定を外す。
   // すべて advisory — exit code には一切影響しない。
   const analyzerPaths = flagValues(args, '--analyzer');
   const noDefaultAnalyzers = args.includes('--no-default-analyzers');
   let analyzers: readonly Analyzer[] | undefined;
-  if (analyzerPaths.length > 0 || noDefaultAnalyzers) {
-    if (noDefaultAnalyzers && analyzerPaths.length === 0) {
-      printError('--no-default-analyzers requires at least one --analyzer <path>.');
-      process.exit(1);
-    }
-    let external: Analyzer[];
-    try {
-      external = await loadExternalAnalyzers(analyzerPaths);
-    } catch (err) {
-      printError(err instanceof Error ? err.message : String(err));
-      process.exit(1);
-    }
-    analyzers = noDefaultAnalyzers ? external : [...defaultAnalyzers, ...external];
+  try {
+    analyzers = await resolveAnalyzers(analyzerPaths, noDefaultAnalyzers);
+  } catch (err) {
+    printError(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+  if (analyzers !== undefined) {
     const names = analyzers.map((a) => `${a.id}@${a.version}`).join(', ');
-    console.log(`Analyzers: ${names}${noDefaultAnalyzers ? ' (defaults disabled)' : ''}`);
+    status(`Analyzers: ${names}${noDefaultAnalyzers ? ' (defaults disabled)' : ''}`);
   }
 
   // 試験モード (ADR-0006): 任意の問題パッケージ + 提出時刻
@@ -110,119 +238,253 @@ async function main(): Promise<void> {
     }
   }
 
-  try {
-    const spinner = new Spinner('Loading proof file...');
-    spinner.start();
-
-    // 検証対象の proof 群 (ZIP は全タブ分、JSON は 1 件)
-    let proofs: Array<{ filename: string; proof: ProofFile }>;
+  // バッチ検証の並列度 (ワーカー数)。既定は利用可能な CPU 数。
+  const jobsRaw = flagValue(args, '--jobs');
+  const jobs = jobsRaw === undefined ? availableParallelism() : Number(jobsRaw);
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    printError(`Invalid --jobs value: ${jobsRaw}. Use a positive integer.`);
+    process.exit(1);
+  }
 
-    if (ext === '.zip') {
-      proofs = await extractAllProofs(filePath);
-      if (proofs.length === 0) {
-        throw new Error('No proof file found in ZIP');
-      }
-    } else if (ext === '.json') {
-      const content = await readFile(filePath, 'utf-8');
-      const proof = JSON.parse(content) as ProofFile;
-      if (!proof.proof || !proof.typingProofHash) {
-        throw new Error('Invalid proof file structure');
-      }
-      proofs = [{ filename: positional[0]!, proof }];
-    } else {
-      spinner.stop();
-      printError(`Unsupported file type: ${ext}. Use .json or .zip`);
+  // ドロップフォルダの見張り (--watch): 結果は入力ごとに隣の JSON へ書き、一覧表を更新し続ける。
+  // 実行全体のレポート (stdout の JSON・JUnit・SARIF・分析の書き出し) は終わりのある実行のものなので併用しない。
+  const watch = args.includes('--watch');
+  if (watch) {
+    const incompatible =
+      format !== 'text'
+        ? '--format'
+        : ['--junit', '--sarif', '--analysis-json', '--analysis-bundle', '--roster-json'].find(
+            (f) => flagValue(args, f) !== undefined
+          );
+    if (incompatible !== undefined) {
+      printError(`${incompatible} cannot be combined with --watch.`);
       process.exit(1);
     }
+    if (positional.length !== 1) {
+      printError('--watch takes exactly one directory.');
+      process.exit(1);
+    }
+  }
 
+  try {
     // 問題パッケージ (.tcexam) の読込・パース (任意)
     let examPackageManifest: ExamPackageManifest | undefined;
     if (examPackagePath !== undefined) {
       const raw = await readFile(resolve(examPackagePath), 'utf-8');
       const parsed = parseExamPackageManifest(JSON.parse(raw));
       if (!parsed) {
-        spinner.stop();
         printError(`Invalid exam package (.tcexam): ${examPackagePath}`);
         process.exit(1);
       }
       examPackageManifest = parsed;
     }
 
-    // スクリーンショット検証 (#147): ZIP 入力のとき一度だけ計算して全 proof に渡す
-    // (スクショはセッション単位で proof 横断)。真正記録は各チェーンの screenshotCapture.imageHash。
-    // JSON 単体入力は画像が無いので未検査 (undefined) — 出力で明示する (overclaim 防止)。
-    let screenshotSummary: ScreenshotVerificationSummary | undefined;
-    if (ext === '.zip') {
-      const chainImageHashes = collectChainImageHashes(proofs.map((p) => p.proof.proof.events));
-      const artifacts = await extractScreenshotArtifacts(filePath);
-      // スクショ無しセッション (manifest もチェーン記録も無し) は全ゼロの summary になり
-      // 出力上は沈黙する。undefined は「検査できない」(JSON 単体入力) の意味に限定する。
-      screenshotSummary = await summarizeScreenshotArtifacts({
-        entries: artifacts?.entries ?? [],
-        getImageBytes: async (filename) => artifacts?.images.get(filename) ?? null,
-        chainImageHashes,
+    const settings: BatchSettings = {
+      mode,
+      auditConfidence,
+      examPackageManifest,
+      submittedAtMs,
+      requireAnchorDensity,
+      requireRootAnchor,
+      analyzerPaths: analyzerPaths.map((p) => resolve(p)),
+      noDefaultAnalyzers,
+      locateEvidence,
+      policy,
+      signedCheckpointKeyRegistry: keySet?.registry,
+      tsaRootCertificates: tsaRoots?.certificates,
+    };
+
+    if (watch) {
+      const dir = positional[0]!;
+      if (!(await stat(dir)).isDirectory()) {
+        printError(`--watch takes a directory: ${dir}`);
+        process.exit(1);
+      }
+      const controller = new AbortController();
+      process.once('SIGINT', () => controller.abort());
+      status(`Watching ${dir} (every ${WATCH_POLL_INTERVAL_MS / 1000}s, ${jobs} worker(s)). Press Ctrl-C to stop.`);
+      const { passed } = await watchDropFolder(resolve(dir), settings, {
+        jobs,
+        signal: controller.signal,
+        status,
+        onUpdate: roster
+          ? (files) =>
+              console.log(formatRosterReport(reconcileBatch(roster, files, examPackageManifest), roster.source))
+          : undefined,
       });
+      status('\nStopped watching.');
+      process.exit(passed ? 0 : 1);
     }
 
-    spinner.stop();
-
-    // 全 proof を検証。1 件でも fail なら exit 1 (CI が部分合格を成功と誤読しないように)。
-    const multi = proofs.length > 1;
-    const summary: Array<{ filename: string; valid: boolean }> = [];
-    const analysisDump: Array<{ filename: string; valid: boolean; analysis: unknown }> = [];
-    const bundleDump: Array<{ filename: string } & AnalysisBundle> = [];
-    for (const { filename, proof } of proofs) {
-      if (multi) console.log(`\n=== ${filename} ===`);
-      const result = await verifyProof(proof, {
-        mode,
-        examPackageManifest,
-        submittedAtMs,
-        requireAnchorDensity,
-        requireRootAnchor,
-        analyzers,
-        screenshotSummary,
-      });
-      console.log(formatResult(result));
-      summary.push({ filename, valid: result.valid });
-      analysisDump.push({ filename, valid: result.valid, analysis: result.analysis });
-      // Tier A バンドル (ADR-0024): content-free な派生ビュー。--analysis-bundle 指定時のみ集める。
-      if (analysisBundlePath !== undefined) {
-        const bundle = buildAnalysisBundle({
-          integrityValid: result.valid,
-          processSummary: result.processSummary,
-          analysis: result.analysis,
-          assurance: result.assurance,
-        });
-        bundleDump.push({ filename, ...bundle });
+    // ディレクトリ / 複数ファイルはバッチ検証 (一覧表 + 集計 exit code)。
+    // 単一ファイルは従来どおり proof ごとの詳細を出す。
+    const inputs = await expandInputs(positional);
+    const batch = positional.length > 1 || inputs.length !== 1 || inputs[0] !== positional[0];
+
+    let files: BatchFileResult[];
+    let verified: Array<{ label: string; result: CLIVerificationResult }>;
+
+    if (batch) {
+      if (inputs.length === 0) {
+        printError('No .zip or .json files found.');
+        process.exit(1);
       }
+      const tasks = inputs.map((filePath) => ({ filePath: resolve(filePath), displayName: filePath }));
+      const workers = Math.min(jobs, tasks.length);
+      status(`Verifying ${tasks.length} file(s) with ${workers} worker(s)...`);
+      files = await verifyBatch(tasks, settings, jobs, (r, done, total) => {
+        status(formatBatchProgress(r, done, total));
+      });
+      if (format === 'text') console.log(formatBatchSummary(files));
+      verified = files.flatMap((r) =>
+        r.proofs.map((p) => ({ label: proofLabel(r.source, p.filename, r.proofs.length), result: p.result }))
+      );
+    } else {
+      const file = await verifySingleFile(
+        positional[0]!,
+        {
+          mode,
+          auditConfidence,
+          examPackageManifest,
+          submittedAtMs,
+          requireAnchorDensity,
+          requireRootAnchor,
+          analyzers,
+          locateEvidence,
+          policy,
+          signedCheckpointKeyRegistry: keySet?.registry,
+          tsaRootCertificates: tsaRoots?.certificates,
+        },
+        format === 'text'
+      );
+      files = [file];
+      verified = file.proofs.map((p) => ({ label: p.filename, result: p.result }));
     }
+    const passed = batchPassed(files);
 
-    // --analysis-json: AnalysisReport を機械可読でファイルへ (advisory、exit code 非干渉)。
-    if (analysisJsonPath !== undefined) {
-      await writeFile(resolve(analysisJsonPath), JSON.stringify(analysisDump, null, 2), 'utf-8');
-      console.log(`\nAnalysis report written to ${analysisJsonPath}`);
+    if (format !== 'text') {
+      const records = files.flatMap((f) => toResultRecords(f.source, f.proofs, f.error));
+      console.log(formatReport(format, records, passed, policy));
     }
 
-    // --analysis-bundle: Tier A バンドル群 (ProcessSummary + Analysis + Assurance、content-free)
-    // を機械可読でファイルへ。コホート基準 (ADR-0025) の入力。advisory・exit code 非干渉。
-    if (analysisBundlePath !== undefined) {
-      await writeFile(resolve(analysisBundlePath), JSON.stringify(bundleDump, null, 2), 'utf-8');
-      console.log(`\nAnalysis bundle (Tier A) written to ${analysisBundlePath}`);
+    if (roster !== undefined) {
+      const reconciliation = reconcileBatch(roster, files, examPackageManifest);
+      status(formatRosterReport(reconciliation, roster.source));
+      if (rosterJsonPath !== undefined) {
+        await writeFile(resolve(rosterJsonPath), JSON.stringify(reconciliation, null, 2), 'utf-8');
+        status(`Roster reconciliation written to ${rosterJsonPath}`);
+      }
     }
 
-    if (multi) {
-      const passed = summary.filter((s) => s.valid).length;
-      console.log(`\n=== Summary: ${passed}/${summary.length} proofs passed ===`);
-      for (const s of summary) {
-        console.log(`  ${s.valid ? '✓' : '✗'} ${s.filename}`);
-      }
+    await writeAnalysisOutputs(verified, analysisJsonPath, analysisBundlePath, status);
+
+    if (junitPath !== undefined) {
+      await writeFile(resolve(junitPath), formatJUnitReport(files), 'utf-8');
+      status(`JUnit report written to ${junitPath}`);
+    }
+    if (sarifPath !== undefined) {
+      await writeFile(resolve(sarifPath), formatSarifReport(files), 'utf-8');
+      status(`SARIF report written to ${sarifPath}`);
     }
 
-    process.exit(summary.every((s) => s.valid) ? 0 : 1);
+    // 1 件でも fail なら exit 1 (CI が部分合格を成功と誤読しないように)。
+    process.exit(passed ? 0 : 1);
   } catch (error) {
     printError(error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
 }
 
+/**
+ * 単一ファイルの検証。ZIP は全タブを順に検証し、text 形式では proof ごとの詳細を出す。
+ * 複数 proof のときは末尾に合否の一覧を出す。機械可読形式では何も出さない (呼び出し側が出す)。
+ */
+async function verifySingleFile(
+  displayPath: string,
+  options: Omit<VerifyProofOptions, 'screenshotSummary' | 'submissionReceipt' | 'quiet'>,
+  text: boolean
+): Promise<BatchFileResult> {
+  const filePath = resolve(displayPath);
+  const spinner = text ? new Spinner('Loading proof file...') : undefined;
+  spinner?.start();
+
+  // 検証対象の proof 群 (ZIP は全タブ分、JSON は 1 件)
+  let proofs: ProofSource[];
+  let screenshotSummary: ScreenshotVerificationSummary | undefined;
+  let submissionReceipt: SubmissionReceipt | null = null;
+  try {
+    proofs = await openProofSources(filePath, displayPath);
+    // スクリーンショット検証 (#147): ZIP 入力のとき一度だけ計算して全 proof に渡す。
+    // JSON 単体入力は画像が無いので未検査 (undefined) — 出力で明示する (overclaim 防止)。
+    // 提出レシート (ADR-0047) も ZIP 単位の 1 枚なので同じく一度だけ読む。
+    if (extname(filePath).toLowerCase() === '.zip') {
+      screenshotSummary = await summarizeZipScreenshots(filePath, proofs);
+      submissionReceipt = await extractSubmissionReceipt(filePath);
+    }
+  } finally {
+    spinner?.stop();
+  }
+
+  const multi = proofs.length > 1;
+  const verified: BatchFileResult['proofs'] = [];
+  for (const source of proofs) {
+    const { filename } = source;
+    if (multi && text) console.log(`\n=== ${filename} ===`);
+    const result = await verifyProofSource(source, { ...options, screenshotSummary, submissionReceipt, quiet: !text });
+    if (text) console.log(formatResult(result));
+    verified.push({ filename, result });
+  }
+
+  if (multi && text) {
+    const passedCount = verified.filter((v) => v.result.valid).length;
+    console.log(`\n=== Summary: ${passedCount}/${verified.length} proofs passed ===`);
+    for (const v of verified) {
+      console.log(`  ${v.result.valid ? '✓' : '✗'} ${v.filename}`);
+    }
+  }
+  return { source: displayPath, proofs: verified };
+}
+
+/** `--analysis-json` / `--analysis-bundle` の書き出し (どちらも advisory・exit code 非干渉)。 */
+async function writeAnalysisOutputs(
+  verified: ReadonlyArray<{ label: string; result: CLIVerificationResult }>,
+  analysisJsonPath: string | undefined,
+  analysisBundlePath: string | undefined,
+  status: (message: string) => void
+): Promise<void> {
+  // --analysis-json: AnalysisReport を機械可読でファイルへ。
+  if (analysisJsonPath !== undefined) {
+    const analysisDump = verified.map((v) => ({
+      filename: v.label,
+      valid: v.result.valid,
+      analysis: v.result.analysis,
+      analysisSkipped: v.result.analysisSkipped,
+    }));
+    await writeFile(resolve(analysisJsonPath), JSON.stringify(analysisDump, null, 2), 'utf-8');
+    status(`\nAnalysis report written to ${analysisJsonPath}`);
+  }
+
+  // --analysis-bundle: Tier A バンドル群 (ProcessSummary + Analysis + Assurance、content-free)
+  // を機械可読でファイルへ。コホート基準 (ADR-0025) の入力。分析を省いた proof (ADR-0039) は載せない。
+  if (analysisBundlePath !== undefined) {
+    const bundleDump: Array<{ filename: string } & AnalysisBundle> = verified.flatMap((v) =>
+      v.result.analysis
+        ? [
+            {
+              filename: v.label,
+              ...buildAnalysisBundle({
+                integrityValid: v.result.valid,
+                processSummary: v.result.processSummary,
+                analysis: v.result.analysis,
+                assurance: v.result.assurance,
+              }),
+            },
+          ]
+        : []
+    );
+    await writeFile(resolve(analysisBundlePath), JSON.stringify(bundleDump, null, 2), 'utf-8');
+    status(`\nAnalysis bundle (Tier A) written to ${analysisBundlePath}`);
+  }
+}
+
 main();
@@ -0,0 +1,204 @@
+/**
+ * `cohort` サブコマンド (ADR-0025): 採点者自身のコホートから基準を作り、各提出の位置を並べる。
+ *
+ * 入力はディレクトリ 1 つ。中の
+ *   - `--analysis-bundle` の出力 (`analysis-bundle/1` の配列、または単体)
+ *   - raw proof (`.json` / `.zip`) — その場で検証して Tier A バンドルへ落とす
+ * を混在で受け付ける。統計の中身 (分布・位置・中央値距離) は shared の純粋関数に委ね、
+ * ここがやるのは I/O (読込・書出し・表示) だけ (verify-cli の境界: 分析ロジックは CLI に書かない)。
+ *
+ * advisory のみ — コホート位置は triage の手掛かりであって違反ではない。exit code は
+ * 入力エラーのときだけ 1 で、外れ値の有無には一切影響しない (ADR-0025 不変条件 1)。
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import {
+  ANALYSIS_BUNDLE_SCHEMA,
+  BINARY_PROOF_EXTENSION,
+  buildAnalysisBundle,
+  computeCohortBaseline,
+  positionInCohort,
+  deviationFromMedian,
+  type AnalysisBundle,
+  type Analyzer,
+  type CohortBaseline,
+  type VerificationMode,
+} from '@typedcode/shared';
+import { COHORT_FLAGS, findFlagError, flagValue, flagValues, nonFlagArgs, parseModeFlag } from './args.js';
+import { resolveAnalyzers } from './analyzers.js';
+import { loadProofs, looksLikeProofFile, proofLabel } from './load.js';
+import { verifyProof } from './verify.js';
+import {
+  DEFAULT_COHORT_BASELINE_OUT,
+  formatCohortReport,
+  printCohortUsage,
+  printError,
+  type CohortReportRow,
+} from './output.js';
+
+/** コホートの 1 メンバー。label は採点者が学生を特定するための入力ファイル由来の名前。 */
+export interface CohortMember {
+  label: string;
+  bundle: AnalysisBundle;
+}
+
+function isAnalysisBundle(value: unknown): value is AnalysisBundle {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return v['schema'] === ANALYSIS_BUNDLE_SCHEMA && !!v['processSummary'] && !!v['analysis'];
+}
+
+/**
+ * ディレクトリ直下のファイルからコホートを集める (非再帰、ファイル名順で決定的)。
+ * バンドルでも proof でもない JSON (過去に書き出した基準など) は skipped に記録して読み飛ばす。
+ */
+export async function collectCohortMembers(
+  dir: string,
+  options: { mode: VerificationMode; analyzers?: readonly Analyzer[] }
+): Promise<{ members: CohortMember[]; skipped: string[] }> {
+  const members: CohortMember[] = [];
+  const skipped: string[] = [];
+  const names = (await readdir(dir, { withFileTypes: true }))
+    .filter((d) => d.isFile())
+    .map((d) => d.name)
+    .sort();
+
+  for (const name of names) {
+    const path = join(dir, name);
+    const ext = extname(name).toLowerCase();
+    if (ext !== '.json' && ext !== '.zip' && ext !== BINARY_PROOF_EXTENSION) continue;
+
+    if (ext === '.json') {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await readFile(path, 'utf-8'));
+      } catch {
+        skipped.push(name);
+        continue;
+      }
+      const bundles = Array.isArray(parsed)
+        ? parsed.filter(isAnalysisBundle)
+        : isAnalysisBundle(parsed)
+          ? [parsed]
+          : [];
+      if (bundles.length > 0) {
+        for (const b of bundles) {
+          const entryName = (b as { filename?: unknown }).filename;
+          members.push({
+            label: proofLabel(name, typeof entryName === 'string' ? entryName : undefined, bundles.length),
+            bundle: buildAnalysisBundle(b),
+          });
+        }
+        continue;
+      }
+      if (!looksLikeProofFile(parsed)) {
+        skipped.push(name);
+        continue;
+      }
+    }
+
+    // raw proof: 検証して Tier A バンドルへ落とす (--analysis-bundle と同じ組み立て)。
+    const proofs = await loadProofs(path, name);
+    for (const { filename, proof } of proofs) {
+      const result = await verifyProof(proof, { mode: options.mode, analyzers: options.analyzers });
+      const label = proofLabel(name, filename, proofs.length);
+      if (!result.analysis) {
+        skipped.push(label);
+        continue;
+      }
+      members.push({
+        label,
+        bundle: buildAnalysisBundle({
+          integrityValid: result.valid,
+          processSummary: result.processSummary,
+          analysis: result.analysis,
+          assurance: result.assurance,
+        }),
+      });
+    }
+  }
+
+  return { members, skipped };
+}
+
+/**
+ * コホート基準を計算し、各メンバーの位置を中央値距離の降順に並べる。
+ * 同点はラベル順 (決定的) にする。
+ */
+export function rankCohort(members: readonly CohortMember[]): {
+  baseline: CohortBaseline;
+  rows: CohortReportRow[];
+} {
+  const baseline = computeCohortBaseline(members.map((m) => m.bundle));
+  const rows = members.map((m) => {
+    const position = positionInCohort(m.bundle, baseline);
+    return {
+      label: m.label,
+      integrityValid: m.bundle.integrityValid,
+      position,
+      deviation: deviationFromMedian(position, baseline),
+    };
+  });
+  rows.sort((a, b) => b.deviation.score - a.deviation.score || a.label.localeCompare(b.label));
+  return { baseline, rows };
+}
+
+/** `typedcode-verify cohort ...` の本体。戻り値は exit code。 */
+export async function runCohortCommand(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printCohortUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, COHORT_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printCohortUsage();
+    return 1;
+  }
+
+  const positional = nonFlagArgs(args, COHORT_FLAGS);
+  if (positional.length !== 1) {
+    printError('cohort takes exactly one directory.');
+    printCohortUsage();
+    return 1;
+  }
+  const dir = resolve(positional[0]!);
+
+  try {
+    const mode = parseModeFlag(args);
+    const analyzers = await resolveAnalyzers(flagValues(args, '--analyzer'), args.includes('--no-default-analyzers'));
+
+    const { members, skipped } = await collectCohortMembers(dir, { mode, analyzers });
+    if (members.length === 0) {
+      printError(`No analysis bundles or proof files found in ${positional[0]}.`);
+      return 1;
+    }
+
+    const { baseline, rows } = rankCohort(members);
+    console.log(formatCohortReport(baseline, rows, skipped));
+
+    // 基準は集約のみ (個票なし) なので、そのまま配布・再利用してよい (ADR-0025 不変条件 2)。
+    const baselineOut = flagValue(args, '--baseline-out') ?? DEFAULT_COHORT_BASELINE_OUT;
+    await writeFile(resolve(baselineOut), JSON.stringify(baseline, null, 2), 'utf-8');
+    console.log(`Cohort baseline written to ${baselineOut}`);
+
+    // 位置は学生ごとの個票を含む (ラベル = 入力ファイル名)。明示指定されたときだけ書き出す。
+    const positionsJsonPath = flagValue(args, '--positions-json');
+    if (positionsJsonPath !== undefined) {
+      const dump = rows.map((r) => ({
+        submission: r.label,
+        integrityValid: r.integrityValid,
+        deviation: r.deviation,
+        position: r.position,
+      }));
+      await writeFile(resolve(positionsJsonPath), JSON.stringify(dump, null, 2), 'utf-8');
+      console.log(`Cohort positions written to ${positionsJsonPath}`);
+    }
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * `diff` サブコマンド: 同じファイルの 2 つの proof を event 単位で比べる。
+ *
+ * 再提出や作り直しの疑いがあるとき、共通の root・hash が一致する先頭の events・最初に食い違う sequence・
+ * replay した文書が食い違う位置を出す。差分の中身は shared の `diffProofs` に委ね、ここがやるのは
+ * I/O (読込・表示・書出し) と、両方の proof の検証結果を添えることだけ。
+ *
+ * advisory のみ。exit code は入力エラーのときだけ 1 で、差分の有無には影響しない。
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { diffProofs } from '@typedcode/shared';
+import { DIFF_FLAGS, findFlagError, flagValue, nonFlagArgs, parseModeFlag } from './args.js';
+import { loadProofs, proofLabel, type LoadedProof } from './load.js';
+import { verifyProof } from './verify.js';
+import { formatProofDiff, printDiffUsage, printError } from './output.js';
+
+/** 比べる proof の片側。`valid` は proof 単体の検証結果 */
+export interface DiffSide {
+  label: string;
+  proof: LoadedProof['proof'];
+  valid: boolean;
+}
+
+/**
+ * 入力から比べる proof を 1 件選ぶ。マルチタブ ZIP は `entry` (ZIP 内の proof のファイル名) で選ぶ。
+ *
+ * @throws 選べないとき (複数あって `entry` が無い / 一致しない)
+ */
+export function selectDiffProof(proofs: readonly LoadedProof[], source: string, entry?: string): LoadedProof {
+  if (proofs.length === 1) return proofs[0]!;
+  const names = proofs.map((p) => p.filename);
+  if (entry === undefined) {
+    throw new Error(`${source} holds ${proofs.length} proofs (${names.join(', ')}); choose one with --entry <name>.`);
+  }
+  const found = proofs.find((p) => p.filename === entry || basename(p.filename) === entry);
+  if (!found) {
+    throw new Error(`${source} has no proof named ${entry} (${names.join(', ')}).`);
+  }
+  return found;
+}
+
+/** `typedcode-verify diff ...` の本体。戻り値は exit code。 */
+export async function runDiffCommand(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printDiffUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, DIFF_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printDiffUsage();
+    return 1;
+  }
+
+  const positional = nonFlagArgs(args, DIFF_FLAGS);
+  if (positional.length !== 2) {
+    printError('diff takes exactly two proof files.');
+    printDiffUsage();
+    return 1;
+  }
+
+  try {
+    const mode = parseModeFlag(args);
+    const entry = flagValue(args, '--entry');
+    const loadSide = async (path: string): Promise<DiffSide> => {
+      const source = basename(path);
+      const proofs = await loadProofs(resolve(path), source);
+      const selected = selectDiffProof(proofs, source, entry);
+      // 差分は検証結果に依らないので、構造が壊れて検証が throw した proof も比べる (検証失敗として印を付ける)
+      const valid = await verifyProof(selected.proof, { mode, analyzers: [] }).then(
+        (result) => result.valid,
+        () => false
+      );
+      return { label: proofLabel(source, selected.filename, proofs.length), proof: selected.proof, valid };
+    };
+    const a = await loadSide(positional[0]!);
+    const b = await loadSide(positional[1]!);
+
+    const diff = diffProofs(a.proof, b.proof);
+    console.log(formatProofDiff(diff, a, b));
+
+    const jsonPath = flagValue(args, '--json');
+    if (jsonPath !== undefined) {
+      const dump = { ...diff, labels: { a: a.label, b: b.label }, integrityValid: { a: a.valid, b: b.valid } };
+      await writeFile(resolve(jsonPath), JSON.stringify(dump, null, 2), 'utf-8');
+      console.log(`Proof diff written to ${jsonPath}`);
+    }
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * `eval` サブコマンド (W5, docs/analysis-eval-protocol.md): ラベル付きコーパスで分析器を評価する。
+ *
+ * 入力はコーパス manifest 1 つ。各 proof を検証して分析器 (既定 + `--analyzer`) を走らせ、
+ * `LabeledAnalysis[]` を shared の `evaluateAnalysis` に渡す。混同行列・閾値スイープ・推奨閾値の
+ * 計算は shared の純粋関数に委ね、ここがやるのは I/O (manifest 読込・書出し・表示) だけ
+ * (verify-cli の境界)。研究者が自前の分析器を、テストをフォークせずに自前のコーパスで測るための口。
+ *
+ * 整合性検証に落ちた proof は評価から除き、除いた旨を表示する — 改ざんされたイベント列の分析は
+ * 手掛かりとして意味を持たない。exit code は入力エラーのときだけ 1 で、評価の中身には影響しない。
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import {
+  evaluateAnalysis,
+  formatEvalReportMarkdown,
+  type Analyzer,
+  type EvalLabel,
+  type LabeledAnalysis,
+  type VerificationMode,
+} from '@typedcode/shared';
+import {
+  EVAL_FLAGS,
+  findFlagError,
+  flagValue,
+  flagValues,
+  nonFlagArgs,
+  parseMaxFprFlag,
+  parseModeFlag,
+} from './args.js';
+import { resolveAnalyzers } from './analyzers.js';
+import { loadProofs, proofLabel, type LoadedProof } from './load.js';
+import { verifyProof, type CLIVerificationResult } from './verify.js';
+import { formatEvalExclusions, printError, printEvalUsage } from './output.js';
+
+/** manifest の 1 行: proof のパス (manifest からの相対、または絶対) と正解ラベル・収集条件。 */
+export interface EvalManifestEntry {
+  path: string;
+  label: EvalLabel;
+  condition?: string;
+}
+
+function isEvalLabel(value: unknown): value is EvalLabel {
+  return value === 'genuine' || value === 'automated';
+}
+
+function parseEntry(path: unknown, meta: unknown, where: string): EvalManifestEntry {
+  if (typeof path !== 'string' || path === '') {
+    throw new Error(`Eval manifest ${where}: "path" must be a non-empty string.`);
+  }
+  const m = (meta ?? {}) as Record<string, unknown>;
+  if (!isEvalLabel(m['label'])) {
+    throw new Error(`Eval manifest ${where}: "label" must be "genuine" or "automated" (got: ${String(m['label'])}).`);
+  }
+  const condition = m['condition'];
+  if (condition !== undefined && typeof condition !== 'string') {
+    throw new Error(`Eval manifest ${where}: "condition" must be a string.`);
+  }
+  return { path, label: m['label'], condition };
+}
+
+/**
+ * コーパス manifest を検証して行の配列にする (純関数)。2 つの形を受け付ける。
+ *
+ *   [{ "path": "p001.json", "label": "genuine", "condition": "genuine-ime" }, ...]
+ *   { "p001.json": { "label": "genuine", "condition": "genuine-ime" }, ... }   // labels.json (§3.2)
+ *
+ * 後者は評価ハーネス (analysisEvalCorpus.test.ts) が読み書きしてきた `labels.json` そのもの。
+ * ラベルの綴り違いを黙って読み飛ばすと genuine/automated の母数がずれるので、不正な行は throw する。
+ */
+export function parseEvalManifest(value: unknown): EvalManifestEntry[] {
+  let entries: EvalManifestEntry[];
+  if (Array.isArray(value)) {
+    entries = value.map((item, i) =>
+      parseEntry((item as Record<string, unknown> | null)?.['path'], item, `entry ${i}`)
+    );
+  } else if (value && typeof value === 'object') {
+    entries = Object.entries(value).map(([path, meta]) => parseEntry(path, meta, `entry "${path}"`));
+  } else {
+    throw new Error('Eval manifest must be an array of { path, label, condition? } or a labels.json object.');
+  }
+  if (entries.length === 0) {
+    throw new Error('Eval manifest has no entries.');
+  }
+  return entries;
+}
+
+/** 評価から除いた 1 件と、その理由。 */
+export interface EvalExclusion {
+  id: string;
+  reason: string;
+}
+
+/**
+ * manifest の各 proof を検証・分析して `LabeledAnalysis[]` にする。proof のパスは manifest の
+ * ディレクトリ基準で解決する (コーパスを丸ごと移しても manifest が使えるように)。ZIP は全タブを
+ * 同じラベルで数える。読めない・検証に落ちた proof は excluded に記録して評価から除く。
+ */
+export async function collectLabeledAnalyses(
+  manifestPath: string,
+  entries: readonly EvalManifestEntry[],
+  options: { mode: VerificationMode; analyzers?: readonly Analyzer[] }
+): Promise<{ items: LabeledAnalysis[]; excluded: EvalExclusion[] }> {
+  const baseDir = dirname(resolve(manifestPath));
+  const items: LabeledAnalysis[] = [];
+  const excluded: EvalExclusion[] = [];
+
+  for (const entry of entries) {
+    let proofs: LoadedProof[];
+    try {
+      proofs = await loadProofs(resolve(baseDir, entry.path), entry.path);
+    } catch (error) {
+      excluded.push({ id: entry.path, reason: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    for (const { filename, proof } of proofs) {
+      const id = proofLabel(entry.path, filename, proofs.length);
+      let result: CLIVerificationResult;
+      try {
+        // stdout は Markdown レポート専用にするので進捗バーは出さない。
+        result = await verifyProof(proof, { mode: options.mode, analyzers: options.analyzers, quiet: true });
+      } catch (error) {
+        excluded.push({ id, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      if (!result.valid) {
+        excluded.push({ id, reason: `integrity check failed${result.errorMessage ? `: ${result.errorMessage}` : ''}` });
+        continue;
+      }
+      if (!result.analysis) {
+        excluded.push({ id, reason: 'analysis skipped (too many events)' });
+        continue;
+      }
+      items.push({ id, label: entry.label, condition: entry.condition, report: result.analysis });
+    }
+  }
+
+  return { items, excluded };
+}
+
+/** `typedcode-verify eval ...` の本体。戻り値は exit code。 */
+export async function runEvalCommand(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printEvalUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, EVAL_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printEvalUsage();
+    return 1;
+  }
+
+  const positional = nonFlagArgs(args, EVAL_FLAGS);
+  if (positional.length !== 1) {
+    printError('eval takes exactly one corpus manifest.');
+    printEvalUsage();
+    return 1;
+  }
+  const manifestPath = resolve(positional[0]!);
+
+  try {
+    const mode = parseModeFlag(args);
+    const maxFpr = parseMaxFprFlag(args);
+    const analyzers = await resolveAnalyzers(flagValues(args, '--analyzer'), args.includes('--no-default-analyzers'));
+
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read eval manifest ${positional[0]}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const entries = parseEvalManifest(manifest);
+
+    const { items, excluded } = await collectLabeledAnalyses(manifestPath, entries, { mode, analyzers });
+    if (items.length === 0) {
+      console.log(formatEvalExclusions(excluded));
+      printError('No proof in the manifest could be evaluated.');
+      return 1;
+    }
+
+    const report = evaluateAnalysis(items, { maxFpr });
+    const markdown = formatEvalReportMarkdown(report);
+    console.log(markdown);
+    if (excluded.length > 0) console.log(formatEvalExclusions(excluded));
+
+    const markdownPath = flagValue(args, '--markdown');
+    if (markdownPath !== undefined) {
+      await writeFile(resolve(markdownPath), markdown, 'utf-8');
+      console.log(`Eval report (markdown) written to ${markdownPath}`);
+    }
+    const jsonPath = flagValue(args, '--json');
+    if (jsonPath !== undefined) {
+      await writeFile(resolve(jsonPath), JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`Eval report written to ${jsonPath}`);
+    }
+    // 個々の signal は偽陽性の人手検分 (プロトコル §4) 用。評価ハーネスの eval-signals.json と同じ形。
+    const signalsPath = flagValue(args, '--signals-json');
+    if (signalsPath !== undefined) {
+      const dump = items.map((item) => ({
+        id: item.id,
+        label: item.label,
+        condition: item.condition,
+        signals: item.report.signals,
+        reviewPriority: item.report.reviewPriority,
+      }));
+      await writeFile(resolve(signalsPath), JSON.stringify(dump, null, 2), 'utf-8');
+      console.log(`Eval signals written to ${signalsPath}`);
+    }
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
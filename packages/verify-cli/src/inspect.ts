@@ -0,0 +1,75 @@
+/**
+ * `inspect` サブコマンド: proof を検証せずに中身を調べる。
+ *
+ * `--version-report` は proof の format version と、持っている旧形式の特徴 (最上位の humanAttestation・
+ * `data: null` の codeExecution など) を出す。判定は shared の `inspectProofVersion` に委ね、ここがやるのは
+ * I/O (読込・表示・書出し) だけ。マルチタブ ZIP は全タブを調べる。
+ *
+ * exit code は入力エラーのときだけ 1 (対応外の version も報告するだけ)。
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { inspectProofVersion, type ProofVersionReport } from '@typedcode/shared';
+import { INSPECT_FLAGS, findFlagError, flagValue, nonFlagArgs } from './args.js';
+import { loadProofs, proofLabel } from './load.js';
+import { formatVersionReport, printError, printInspectUsage } from './output.js';
+
+/** 調べた proof 1 件分の報告 (`--json` の各要素) */
+export interface InspectedProof {
+  label: string;
+  report: ProofVersionReport;
+}
+
+/** `typedcode-verify inspect ...` の本体。戻り値は exit code。 */
+export async function runInspectCommand(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printInspectUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, INSPECT_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printInspectUsage();
+    return 1;
+  }
+
+  if (!args.includes('--version-report')) {
+    printError('inspect needs a report to show (--version-report).');
+    printInspectUsage();
+    return 1;
+  }
+
+  const positional = nonFlagArgs(args, INSPECT_FLAGS);
+  if (positional.length === 0) {
+    printError('No proof file given.');
+    printInspectUsage();
+    return 1;
+  }
+
+  try {
+    const inspected: InspectedProof[] = [];
+    for (const path of positional) {
+      const source = basename(path);
+      const proofs = await loadProofs(resolve(path), source);
+      for (const { filename, proof } of proofs) {
+        inspected.push({ label: proofLabel(source, filename, proofs.length), report: inspectProofVersion(proof) });
+      }
+    }
+
+    for (const { label, report } of inspected) {
+      console.log(formatVersionReport(label, report));
+    }
+
+    const jsonPath = flagValue(args, '--json');
+    if (jsonPath !== undefined) {
+      await writeFile(resolve(jsonPath), JSON.stringify(inspected, null, 2), 'utf-8');
+      console.log(`Version reports written to ${jsonPath}`);
+    }
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
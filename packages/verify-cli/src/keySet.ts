@@ -0,0 +1,140 @@
+/**
+ * 署名鍵の key set (ADR-0048) の取得と読込。
+ *
+ * - `key-set` サブコマンド: Workers の `/api/checkpoint/key-set` から連鎖を取ってきて検証し、
+ *   `--out` のファイルへキャッシュする (オフラインの採点環境へはこのファイルを持ち込む)。
+ *   位置引数のファイルを渡すと、キャッシュ済みの連鎖を検証して中身を表示するだけ。
+ * - `--key-set <file>`: 検証の前にキャッシュを読んで組み込み registry から検証し、
+ *   通った registry で署名 cp / セッション開始トークン / 提出レシートを検証する。
+ *
+ * 連鎖の検証は shared (`verifyCheckpointKeySetChain`) に委ね、ここがやるのは I/O だけ。
+ * キャッシュは untrusted: 信頼の起点は常に組み込み registry なので、ファイルを差し替えられても
+ * 組み込み registry の鍵が裏書きしていない鍵は信頼しない。
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import {
+  CHECKPOINT_PUBLIC_KEYS,
+  parseCheckpointKeySetChain,
+  verifyCheckpointKeySetChain,
+  type CheckpointPublicKey,
+  type SignedCheckpointKeySet,
+} from '@typedcode/shared';
+import { KEY_SET_FLAGS, findFlagError, flagValue, nonFlagArgs } from './args.js';
+import { DEFAULT_KEY_SET_OUT, formatKeySetReport, printError, printKeySetUsage } from './output.js';
+
+/** 検証を通った key set。バッチ検証のワーカーへは registry だけを渡す (構造化複製できる plain object)。 */
+export interface LoadedKeySet {
+  /** 取得元 (API の URL かファイルのパス。表示用) */
+  source: string;
+  /** 連鎖の末尾の sequence (空の連鎖は null) */
+  sequence: number | null;
+  /** 組み込み registry に無く、連鎖で足された鍵 */
+  addedKeyIds: string[];
+  /** 組み込み registry に連鎖の鍵を重ねたもの */
+  registry: CheckpointPublicKey[];
+}
+
+async function verifyChain(
+  source: string,
+  raw: unknown,
+  baseRegistry: readonly CheckpointPublicKey[]
+): Promise<{ chain: SignedCheckpointKeySet[]; keySet: LoadedKeySet }> {
+  const chain = parseCheckpointKeySetChain(raw);
+  if (chain === null) {
+    throw new Error(`Key set ${source} is not a key set chain.`);
+  }
+  const result = await verifyCheckpointKeySetChain(chain, baseRegistry);
+  if (!result.valid) {
+    throw new Error(`Key set ${source} failed verification: ${result.reason}`);
+  }
+  return {
+    chain,
+    keySet: { source, sequence: result.sequence, addedKeyIds: result.addedKeyIds, registry: result.registry },
+  };
+}
+
+/**
+ * キャッシュした key set を読み、組み込み registry から検証する。
+ *
+ * @throws 読めない / JSON でない / 連鎖の形でない / 検証に通らないとき (呼び出し側で stderr 表示 + exit 1)
+ */
+export async function loadKeySet(
+  path: string,
+  /** テスト用: 連鎖の起点にする組み込み registry の差し替え */
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<LoadedKeySet> {
+  let text: string;
+  try {
+    text = await readFile(resolve(path), 'utf-8');
+  } catch (err) {
+    throw new Error(`Cannot read key set ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Key set ${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return (await verifyChain(path, parsed, baseRegistry)).keySet;
+}
+
+/** `typedcode-verify key-set ...` の本体。戻り値は exit code。 */
+export async function runKeySetCommand(
+  args: string[],
+  /** テスト用: fetch の差し替え */
+  fetchImpl: typeof fetch = fetch,
+  /** テスト用: 連鎖の起点にする組み込み registry の差し替え */
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printKeySetUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, KEY_SET_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printKeySetUsage();
+    return 1;
+  }
+
+  const apiUrl = flagValue(args, '--api-url');
+  const outPath = flagValue(args, '--out');
+  const positional = nonFlagArgs(args, KEY_SET_FLAGS);
+  if ((apiUrl === undefined) === (positional.length === 0) || positional.length > 1) {
+    printError('key-set takes either --api-url <url> or one cached key set file.');
+    printKeySetUsage();
+    return 1;
+  }
+  if (apiUrl === undefined && outPath !== undefined) {
+    printError('--out only applies with --api-url.');
+    return 1;
+  }
+
+  try {
+    if (apiUrl === undefined) {
+      const keySet = await loadKeySet(positional[0]!, baseRegistry);
+      console.log(formatKeySetReport(keySet));
+      return 0;
+    }
+
+    const url = `${apiUrl.replace(/\/+$/, '')}/api/checkpoint/key-set`;
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`GET ${url} failed with HTTP ${response.status}`);
+    }
+    const { chain, keySet } = await verifyChain(url, await response.json(), baseRegistry);
+    console.log(formatKeySetReport(keySet));
+
+    const out = outPath ?? DEFAULT_KEY_SET_OUT;
+    const cache = { source: url, fetchedAt: new Date().toISOString(), chain };
+    await writeFile(resolve(out), `${JSON.stringify(cache, null, 2)}\n`, 'utf-8');
+    console.log(`Key set written to ${out} (use it with --key-set ${out})`);
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
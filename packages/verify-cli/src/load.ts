@@ -0,0 +1,202 @@
+/**
+ * 検証対象ファイルの読込 (JSON 単体 / バイナリ proof 単体 / ZIP 全タブ)。
+ *
+ * 判定はしない。拡張子で読み分け、proof として最低限の構造 (proof / typingProofHash) を
+ * 持つかだけを確認して返す。検証本体は verify.ts (→ shared) に委ねる。
+ *
+ * 検証 (`openProofSources`) は JSON を丸ごと parse せず、ファイル / ZIP エントリから events を
+ * 1 件ずつ読む (ADR-0039)。読み口は proof を `migrateProof` (ヘッダは `readProofEventStream` の中で
+ * `migrateProofHeader`) で現行の形にそろえて返す。proof 全体を扱うサブコマンド (diff / inspect 等) は
+ * `loadProofs` を使う。`loadProofs` は読み込んだままの形を返す (inspect が旧形式を報告するため)。
+ */
+
+import { createReadStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import {
+  BINARY_PROOF_EXTENSION,
+  decodeBinaryProof,
+  hasErrorCode,
+  isProofFile,
+  migrateProof,
+  openProofEntriesFromZip,
+  readProofEventStream,
+  toProofEventStream,
+  type ProofEventStream,
+  type ProofTextSource,
+} from '@typedcode/shared';
+import { extractAllProofs } from './zip.js';
+import type { ProofFile, ProofReader } from './verify.js';
+
+/** 1 ファイルから取り出した proof 1 件 (ZIP はタブ毎に 1 件)。 */
+export interface LoadedProof {
+  filename: string;
+  proof: ProofFile;
+}
+
+/** 1 ファイルから取り出した proof 1 件の読み口 (ZIP はタブ毎に 1 件)。events は stream で読む (ADR-0039)。 */
+export interface ProofSource extends ProofReader {
+  filename: string;
+}
+
+/**
+ * 入力ファイル由来の表示ラベル。1 ファイルに複数 proof (マルチタブ ZIP / バンドル配列) が
+ * あるときだけ内部名を付けて区別する (`ALL_TC.zip#q1_proof.json`)。ZIP 内のエントリ名は
+ * 学生間で重複するので、必ず入力ファイル名を前置する。
+ */
+export function proofLabel(source: string, entryName: string | undefined, entryCount: number): string {
+  return entryCount > 1 && entryName ? `${source}#${entryName}` : source;
+}
+
+/** `--watch` が入力の隣に書く結果 JSON の接尾辞 (`alice.zip.verify.json`)。 */
+export const VERIFY_RESULT_SUFFIX = '.verify.json';
+
+/**
+ * 検証対象として読める拡張子か (大文字小文字は区別しない)。`--watch` が書いた結果 JSON は
+ * proof ではないので除く (ドロップフォルダを後からバッチ検証しても読込エラー行にならないように)。
+ */
+export function isSupportedProofPath(filePath: string): boolean {
+  if (filePath.toLowerCase().endsWith(VERIFY_RESULT_SUFFIX)) return false;
+  const ext = extname(filePath).toLowerCase();
+  return ext === '.zip' || ext === '.json' || ext === BINARY_PROOF_EXTENSION;
+}
+
+/** JSON が proof ファイルの最低限の構造を持つか。 */
+export function looksLikeProofFile(value: unknown): value is ProofFile {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return !!v['proof'] && !!v['typingProofHash'];
+}
+
+/**
+ * proof ファイル (.json / .tcproof) または export ZIP (.zip) を読み込み、含まれる proof をすべて返す。
+ * `displayName` は単体入力の filename として使う (ZIP は内部のエントリ名)。
+ * `.tcproof` (ADR-0038) は復号して JSON と同じ値に戻してから同じ構造確認を通す。
+ *
+ * @throws 未対応の拡張子 / proof を含まない ZIP / 構造不正の JSON / 壊れたバイナリ proof のとき
+ */
+export async function loadProofs(filePath: string, displayName: string = filePath): Promise<LoadedProof[]> {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === '.zip') {
+    const proofs = await extractAllProofs(filePath);
+    if (proofs.length === 0) {
+      throw new Error('No proof file found in ZIP');
+    }
+    return proofs;
+  }
+  if (ext === '.json') {
+    const parsed: unknown = JSON.parse(await readFile(filePath, 'utf-8'));
+    if (!looksLikeProofFile(parsed)) {
+      throw new Error('Invalid proof file structure');
+    }
+    return [{ filename: displayName, proof: parsed }];
+  }
+  if (ext === BINARY_PROOF_EXTENSION) {
+    const decoded = decodeBinaryProof(await readFile(filePath));
+    if (!looksLikeProofFile(decoded)) {
+      throw new Error('Invalid proof file structure');
+    }
+    return [{ filename: displayName, proof: decoded }];
+  }
+  throw new Error(`Unsupported file type: ${ext}. Use .json, .tcproof or .zip`);
+}
+
+/** ZIP ファイルを ArrayBuffer で読む (JSZip の入力。圧縮されたままなので解凍後の proof よりずっと小さい)。 */
+async function readArrayBuffer(filePath: string): Promise<ArrayBuffer> {
+  const buffer = await readFile(filePath);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+/** text source を読み切って 1 つの文字列にする (分析のために proof 全体を parse するとき)。 */
+async function readAllText(text: ProofTextSource): Promise<string> {
+  const decoder = new TextDecoder();
+  let out = '';
+  for await (const chunk of text()) {
+    out += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  return out + decoder.decode();
+}
+
+/**
+ * JSON テキストの proof の読み口。選別のために読んだ最初の stream (ヘッダと件数は読み済み) は、
+ * 最初の `openStream` でそのまま返す (テキストを 3 回読まないように)。
+ */
+function textProofSource(filename: string, text: ProofTextSource, first: ProofEventStream): ProofSource {
+  let pending: ProofEventStream | null = first;
+  return {
+    filename,
+    async openStream() {
+      const stream = pending ?? (await readProofEventStream(text));
+      pending = null;
+      return stream;
+    },
+    async load() {
+      const parsed: unknown = JSON.parse(await readAllText(text));
+      if (!looksLikeProofFile(parsed)) {
+        throw new Error('Invalid proof file structure');
+      }
+      return migrateProof(parsed).proof;
+    },
+  };
+}
+
+/** 復号済み (`.tcproof`) の proof の読み口。 */
+function decodedProofSource(filename: string, decoded: ProofFile): ProofSource {
+  const { proof } = migrateProof(decoded);
+  return {
+    filename,
+    openStream: async () => toProofEventStream(proof),
+    load: async () => proof,
+  };
+}
+
+/**
+ * proof ファイル (.json / .tcproof) または export ZIP (.zip) に含まれる proof の読み口をすべて返す
+ * (検証用、ADR-0039)。`loadProofs` と同じ proof を同じ順で返すが、JSON は parse せずヘッダだけ読む。
+ *
+ * - `.json` はファイルを、ZIP の JSON エントリは解凍しながら chunk で読む (`readProofEventStream`)。
+ * - `.tcproof` (ADR-0038) は途中から読めない形式なので、従来どおり復号して proof 全体を持つ。
+ * - ZIP では proof の形をしていない JSON (壊れた JSON・スクショ manifest 等) を飛ばす
+ *   (`extractAllProofsFromZip` と同じ選別)。対応しない format version の proof は飛ばさずに throw する
+ *   (黙って飛ばすと残りのタブだけで合格してしまう)。
+ *
+ * @throws 未対応の拡張子 / proof を含まない ZIP / 構造不正の JSON / 壊れたバイナリ proof /
+ *   対応しない format version の proof のとき
+ */
+export async function openProofSources(filePath: string, displayName: string = filePath): Promise<ProofSource[]> {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === '.zip') {
+    const sources: ProofSource[] = [];
+    for (const entry of await openProofEntriesFromZip(await readArrayBuffer(filePath))) {
+      if ('decoded' in entry) {
+        if (isProofFile(entry.decoded)) sources.push(decodedProofSource(entry.filename, entry.decoded as ProofFile));
+        continue;
+      }
+      let stream: ProofEventStream;
+      try {
+        stream = await readProofEventStream(entry.text);
+      } catch (error) {
+        if (hasErrorCode(error, 'UNSUPPORTED_PROOF_VERSION')) throw error;
+        continue;
+      }
+      sources.push(textProofSource(entry.filename, entry.text, stream));
+    }
+    if (sources.length === 0) {
+      throw new Error('No proof file found in ZIP');
+    }
+    return sources;
+  }
+  if (ext === '.json') {
+    const text: ProofTextSource = () => createReadStream(filePath);
+    const stream = await readProofEventStream(text);
+    if (!looksLikeProofFile(stream.header)) {
+      throw new Error('Invalid proof file structure');
+    }
+    return [textProofSource(displayName, text, stream)];
+  }
+  if (ext === BINARY_PROOF_EXTENSION) {
+    const [loaded] = await loadProofs(filePath, displayName);
+    return loaded ? [decodedProofSource(loaded.filename, loaded.proof)] : [];
+  }
+  throw new Error(`Unsupported file type: ${ext}. Use .json, .tcproof or .zip`);
+}
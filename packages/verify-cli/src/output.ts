@@ -26,8 +26,30 @@ import type {
   ProcessSummary,
   ProcessKeyMoment,
   ScreenshotVerificationSummary,
+  CohortBaseline,
+  CohortPosition,
+  CohortDeviation,
+  PoswAuditSummary,
+  PoswTimingResult,
+  CohortAnalysisReport,
+  EvidenceRef,
+  RosterIssue,
+  RosterReconciliation,
+  ProofDiff,
+  ProofDiffEvent,
+  LegacyProofFeature,
+  ProofVersionReport,
+  TamperClass,
+  TamperForensicsReport,
+  SubmissionReceiptCheckResult,
 } from '@typedcode/shared';
+import { COHORT_MIN_N } from '@typedcode/shared';
 import type { CLIExamResult } from './verify.js';
+import type { CLIPolicyResult } from './policy.js';
+import type { BatchFileResult } from './batch.js';
+import type { DropFolderChanges } from './watch.js';
+import type { LoadedKeySet } from './keySet.js';
+import { proofLabel } from './load.js';
 
 export interface VerificationOutput {
   valid: boolean;
@@ -44,11 +66,17 @@ export interface VerificationOutput {
   language?: string;
   mode?: VerificationMode;
   poswSkipped?: boolean;
+  /** audit モードの PoSW 標本と統計的上限 (ADR-0034)。 */
+  poswAudit?: PoswAuditSummary;
   signedCheckpoints?: SignedCheckpointsVerificationResult;
   /** root がサーバアンカーされているか (ADR-0017) */
   rootAnchored?: boolean;
+  /** 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042) */
+  poswTiming?: PoswTimingResult;
   /** 分析層 (ADR-0009) の advisory レポート。判定ではない。 */
   analysis?: AnalysisReport;
+  /** events が分析の上限を超えたため分析を省いた (ADR-0039)。 */
+  analysisSkipped?: boolean;
   /** 三層保証語彙 (ADR-0020)。 */
   assurance?: AssuranceResult;
   /** プロセス要約 (Phase 8 W3)。 */
@@ -57,6 +85,12 @@ export interface VerificationOutput {
   exam?: CLIExamResult;
   /** スクリーンショット検証 (#147)。undefined = 未検査 (JSON 単体入力)。 */
   screenshots?: ScreenshotVerificationSummary;
+  /** ゲートポリシー (ADR-0036) の適用結果。`--policy` 指定時のみ。 */
+  policy?: CLIPolicyResult;
+  /** 検証に落ちた proof の書き換えの推定 (hash chain・metadata・署名 cp が落ちたときのみ)。 */
+  tamperForensics?: TamperForensicsReport;
+  /** 提出レシート (ADR-0047) との突合。ZIP にレシートが同梱されていたときのみ。 */
+  submissionReceipt?: SubmissionReceiptCheckResult;
 }
 
 function passFail(ok: boolean): string {
@@ -73,9 +107,11 @@ function formatAssurance(a: AssuranceResult): string[] {
   const integrity =
     a.integrity === 'proven'
       ? c('green', 'PROVEN')
-      : a.integrity === 'partial'
-        ? c('yellow', 'PARTIAL')
-        : c('red', 'FAILED');
+      : a.integrity === 'sampled'
+        ? c('green', 'SAMPLED')
+        : a.integrity === 'partial'
+          ? c('yellow', 'PARTIAL')
+          : c('red', 'FAILED');
 
   let temporal: string;
   switch (a.temporal) {
@@ -85,6 +121,12 @@ function formatAssurance(a: AssuranceResult): string[] {
     case 'partial':
       temporal = c('yellow', 'PARTIAL');
       break;
+    case 'posw-bounded':
+      temporal = c('yellow', 'POSW-BOUNDED');
+      break;
+    case 'posw-inconsistent':
+      temporal = c('red', 'POSW-INCONSISTENT');
+      break;
     case 'exam-t0':
       temporal = c('green', 'EXAM-T0');
       break;
@@ -108,6 +150,10 @@ function formatAssurance(a: AssuranceResult): string[] {
     lines.push(c('dim', '            PoSW was not recomputed — the declared values are consistent with the proof,'));
     lines.push(c('dim', '            but the sequential work itself is unverified (see --mode full).'));
   }
+  if (a.integrity === 'sampled') {
+    lines.push(c('dim', '            PoSW was recomputed for a deterministic sample only — a statistical bound,'));
+    lines.push(c('dim', '            not a proof for every event (see --mode full).'));
+  }
   lines.push(
     `Timeline:   ${temporal}  ${c('dim', '(when it existed — server-signed / exam T0)')}`,
     `Authorship: ${c('yellow', 'ADVISORY')}  ${c('dim', `(${parts.join(', ')} — human judgment required)`)}`
@@ -115,6 +161,16 @@ function formatAssurance(a: AssuranceResult): string[] {
   return lines;
 }
 
+/**
+ * audit の統計的上限 (ADR-0034) を 1 文で。「標本がすべて通った」から言えるのは、
+ * 信頼度 c で偽った event の割合が上限未満、ということだけ。
+ */
+export function formatPoswAuditBound(audit: PoswAuditSummary): string {
+  const confidence = `${(audit.confidence * 100).toFixed(1).replace(/\.0$/, '')}%`;
+  const bound = `${(audit.maxUndetectedFraction * 100).toFixed(2)}%`;
+  return `With ${confidence} confidence, fewer than ${bound} of events have invalid PoSW`;
+}
+
 /** 試験モード (ADR-0006) の束縛検証セクションを描画する。 */
 function formatExamSection(exam: CLIExamResult, lines: string[]): void {
   lines.push('');
@@ -204,6 +260,76 @@ function formatProcessSummary(p: ProcessSummary): string[] {
   return lines;
 }
 
+/** 発火した規則 1 つの 1 行表記: `id: message (fact = value, ...)`。 */
+function formatTrippedRule(rule: CLIPolicyResult['tripped'][number]): string {
+  const facts = Object.entries(rule.facts)
+    .map(([fact, value]) => `${fact} = ${JSON.stringify(value)}`)
+    .join(', ');
+  return `${rule.id}${rule.message ? `: ${rule.message}` : ''} (${facts})`;
+}
+
+/** ゲートポリシー (ADR-0036) のセクション。どの規則が発火したかと、ポリシーファイルの hash を出す。 */
+function formatPolicySection(policy: CLIPolicyResult): string[] {
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('cyan', '--- Gate policy ---'));
+  const outcome =
+    policy.outcome === 'fail' ? c('red', 'FAIL') : policy.outcome === 'warn' ? c('yellow', 'WARN') : c('green', 'PASS');
+  lines.push(`Policy:      ${policy.name ? `${policy.name} ` : ''}(${policy.source}) — ${outcome}`);
+  lines.push(c('dim', `  sha256: ${policy.sha256}`));
+  for (const rule of policy.tripped) {
+    const tag = rule.action === 'fail' ? c('red', 'FAIL') : c('yellow', 'WARN');
+    lines.push(`  [${tag}] ${formatTrippedRule(rule)}`);
+  }
+  return lines;
+}
+
+const TAMPER_CLASS_LABELS: Record<TamperClass, string> = {
+  'event-inserted': 'Event inserted',
+  'event-deleted': 'Event deleted',
+  'events-reordered': 'Events reordered',
+  'event-data-edited': 'Event data edited',
+  'chain-regenerated': 'Chain regenerated',
+  'final-content-swapped': 'Final content swapped',
+  'checkpoints-rewritten': 'Checkpoint rewritten',
+  'proof-metadata-edited': 'Proof metadata edited',
+};
+
+/** 改ざんのフォレンジクスのセクション。推定であって判定ではない (判定は FAILED の行)。 */
+function formatTamperForensics(report: TamperForensicsReport): string[] {
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('cyan', '--- Tamper forensics (advisory) ---'));
+  if (report.findings.length === 0) {
+    lines.push(c('dim', 'No tampering pattern recognized — see the error above.'));
+    return lines;
+  }
+  for (const f of report.findings) {
+    const range =
+      f.fromEvent === null
+        ? 'outside the events'
+        : f.toEvent !== null && f.toEvent !== f.fromEvent
+          ? `events ${f.fromEvent}–${f.toEvent}`
+          : `event ${f.fromEvent}`;
+    lines.push(`  ${c('red', TAMPER_CLASS_LABELS[f.kind])} @ ${range}: ${f.detail}`);
+    lines.push(c('dim', `      evidence: ${f.evidence.join(', ')}`));
+  }
+  if (report.poswChecked > 0) {
+    lines.push(c('dim', `PoSW recomputed for ${report.poswChecked} event(s) to locate the rewrite.`));
+  }
+  return lines;
+}
+
+/** ポリシーの fail 規則だけで落ちたか (検証そのものは通っている)。 */
+function failedByPolicyOnly(result: VerificationOutput): boolean {
+  return !!result.policy && result.policy.verificationPassed && result.policy.outcome === 'fail';
+}
+
+function policyFailureReason(policy: CLIPolicyResult): string {
+  const rules = policy.tripped.filter((r) => r.action === 'fail').map(formatTrippedRule);
+  return `Gate policy: ${rules.join('; ')}`;
+}
+
 export function formatResult(result: VerificationOutput): string {
   const lines: string[] = [];
 
@@ -219,7 +345,9 @@ export function formatResult(result: VerificationOutput): string {
     // \u300cError:\u300d\u3068\u3057\u3066\u51fa\u3059\u3068\u8aa4\u89e3\u3092\u62db\u304f\u3002\u305d\u306e\u5834\u5408\u306f exam \u675f\u7e1b\u306e\u7406\u7531\u3092\u51fa\u3059\u3002
     const examBindingFailedOnly =
       result.metadataValid && result.chainValid && !!result.exam?.binding && !result.exam.binding.valid;
-    if (examBindingFailedOnly) {
+    if (failedByPolicyOnly(result)) {
+      lines.push(c('red', `  ${policyFailureReason(result.policy!)}`));
+    } else if (examBindingFailedOnly) {
       lines.push(c('red', `  Exam binding failed: ${result.exam!.binding!.reason ?? 'see section below'}`));
     } else {
       if (result.errorMessage) {
@@ -270,8 +398,16 @@ export function formatResult(result: VerificationOutput): string {
   }
 
   if (result.poswIterations) {
-    const poswStatus = result.poswSkipped ? c('yellow', 'SKIPPED (fast mode)') : c('green', 'VERIFIED');
+    const poswStatus = result.poswSkipped
+      ? c('yellow', 'SKIPPED (fast mode)')
+      : result.poswAudit && result.poswAudit.sampleSize < result.poswAudit.population
+        ? c('green', `SAMPLED ${result.poswAudit.sampleSize}/${result.poswAudit.population} events`)
+        : c('green', 'VERIFIED');
     lines.push(`PoSW:        ${result.poswIterations.toLocaleString()} iterations/event — ${poswStatus}`);
+    if (result.poswAudit && result.poswAudit.sampleSize < result.poswAudit.population) {
+      lines.push(c('dim', `  ${formatPoswAuditBound(result.poswAudit)}`));
+      lines.push(c('dim', `  Sample seed: ${result.poswAudit.seed}`));
+    }
   }
 
   if (result.mode) {
@@ -287,6 +423,21 @@ export function formatResult(result: VerificationOutput): string {
     }
   }
 
+  // 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)。較正の無い旧 proof では表示しない。
+  const timing = result.poswTiming;
+  if (timing && timing.status !== 'uncalibrated') {
+    if (timing.status === 'consistent') {
+      const rate = Math.round(timing.iterationsPerSecond ?? 0).toLocaleString();
+      const minimum = ((timing.minimumDurationMs ?? 0) / 1000).toFixed(1);
+      lines.push(
+        `PoSW timing: ${c('green', 'CONSISTENT')} (${rate} iterations/s calibrated, at least ${minimum}s of work)`
+      );
+    } else {
+      const label = timing.status === 'inconsistent' ? 'INCONSISTENT' : 'IMPLAUSIBLE';
+      lines.push(`PoSW timing: ${c('yellow', label)}${timing.reason ? ` (${timing.reason})` : ''}`);
+    }
+  }
+
   const sc = result.signedCheckpoints;
   if (sc) {
     if (!sc.anchored) {
@@ -295,6 +446,12 @@ export function formatResult(result: VerificationOutput): string {
       const cov = sc.coverage;
       const pct = (cov.coverageRatio * 100).toFixed(1);
       lines.push(`Anchoring:   ${c('green', 'VERIFIED')} (${cov.signedCount} signed checkpoints, ${pct}% coverage)`);
+      // RFC 3161 のトークン (ADR-0049) で固定した checkpoint は、どの TSA が押したかを添える
+      const tokens = sc.details.filter((d) => d.timestampToken);
+      if (tokens.length > 0) {
+        const names = [...new Set(tokens.map((d) => d.timestampToken!.tsaName ?? 'unnamed TSA'))].join(', ');
+        lines.push(c('dim', `  Timestamp tokens: ${tokens.length} (RFC 3161, ${names})`));
+      }
       if (sc.temporal?.postHocSuspected) {
         lines.push(c('yellow', '  ! Post-hoc batch signing suspected (server span << client span)'));
       }
@@ -319,6 +476,16 @@ export function formatResult(result: VerificationOutput): string {
     }
   }
 
+  // 提出レシート (ADR-0047): セッション終端のアンカー。ZIP に同梱されていたときだけ表示する。
+  const receipt = result.submissionReceipt;
+  if (receipt?.valid) {
+    lines.push(
+      `Receipt:     ${c('green', 'VERIFIED')} (final state received by the server at ${receipt.serverTime}, receipt ${receipt.receiptHash?.slice(0, 12)})`
+    );
+  } else if (receipt) {
+    lines.push(`Receipt:     ${c('red', 'FAILED')} ${receipt.reason ?? ''}`);
+  }
+
   // スクリーンショット検証 (#147): Web と同一の shared 実装で突合した結果。
   // 未検査 (JSON 単体入力) は明示して overclaim を防ぐ。
   const ss = result.screenshots;
@@ -348,11 +515,20 @@ export function formatResult(result: VerificationOutput): string {
     lines.push(c('dim', 'Screenshots: not checked (provide the export ZIP to verify screenshots)'));
   }
 
+  // 検証に落ちた proof は、何が書き換えられたかの推定を Checks の直後に出す。
+  if (result.tamperForensics) {
+    lines.push(...formatTamperForensics(result.tamperForensics));
+  }
+
   // 試験モード (ADR-0006): exam ブロックがあれば束縛検証セクションを出す。
   if (result.exam) {
     formatExamSection(result.exam, lines);
   }
 
+  if (result.policy) {
+    lines.push(...formatPolicySection(result.policy));
+  }
+
   // プロセス要約 (Phase 8 W3): 制作過程の中立な記述。採点者が 30 秒で掴むための要約。
   if (result.processSummary) {
     lines.push(...formatProcessSummary(result.processSummary));
@@ -360,6 +536,11 @@ export function formatResult(result: VerificationOutput): string {
 
   // 分析層 (ADR-0009): 検証とは別軸の advisory。判定ではないことを明示する。
   const analysis = result.analysis;
+  if (!analysis && result.analysisSkipped) {
+    lines.push('');
+    lines.push(c('cyan', '--- Analysis (advisory) ---'));
+    lines.push(c('dim', 'Skipped: too many events to load the whole proof. Verification above is complete.'));
+  }
   if (analysis) {
     lines.push('');
     lines.push(c('cyan', '--- Analysis (advisory) ---'));
@@ -394,6 +575,447 @@ export function formatResult(result: VerificationOutput): string {
   return lines.join('\n');
 }
 
+/**
+ * 失敗した proof の 1 行理由。formatResult の FAILED 直下と同じ優先順
+ * (ポリシーだけの失敗 → exam 束縛だけの失敗 → チェーン/メタデータのエラー → スクショ改ざん)。
+ */
+function failureReason(result: VerificationOutput): string {
+  if (failedByPolicyOnly(result)) {
+    return policyFailureReason(result.policy!);
+  }
+  if (result.metadataValid && result.chainValid && result.exam?.binding && !result.exam.binding.valid) {
+    return `Exam binding failed: ${result.exam.binding.reason ?? 'unknown reason'}`;
+  }
+  if (result.errorMessage) {
+    return result.errorAt !== undefined ? `${result.errorMessage} (event ${result.errorAt})` : result.errorMessage;
+  }
+  if ((result.screenshots?.tampered ?? 0) > 0) {
+    return `${result.screenshots!.tampered} screenshot(s) tampered`;
+  }
+  return 'see single-file output for details';
+}
+
+/** バッチ検証の進捗 1 行 (完了順)。 */
+export function formatBatchProgress(file: BatchFileResult, done: number, total: number): string {
+  const counter = c('dim', `[${String(done).padStart(String(total).length)}/${total}]`);
+  if (file.error !== undefined) {
+    return `${counter} ${c('red', '\u2717')} ${file.source}  ${c('red', file.error)}`;
+  }
+  const ok = file.proofs.every((p) => p.result.valid);
+  const tabs = file.proofs.length > 1 ? c('dim', ` (${file.proofs.length} proofs)`) : '';
+  return `${counter} ${ok ? c('green', '\u2713') : c('red', '\u2717')} ${file.source}${tabs}`;
+}
+
+/**
+ * バッチ検証の一覧表。1 行 = 1 proof (マルチタブ ZIP は `file#tab`)。
+ * 合否・三層保証 (ADR-0020)・レビュー優先度・制作時間・外部入力数を並べ、
+ * 失敗行の直下に理由を出す。読込エラーのファイルも行として残す (黙って落とさない)。
+ */
+export function formatBatchSummary(results: readonly BatchFileResult[]): string {
+  interface Row {
+    label: string;
+    result?: VerificationOutput;
+    error?: string;
+  }
+  const rows: Row[] = results.flatMap((r): Row[] =>
+    r.error !== undefined
+      ? [{ label: r.source, error: r.error }]
+      : r.proofs.map((p) => ({
+          label: proofLabel(r.source, p.filename, r.proofs.length),
+          result: p.result,
+        }))
+  );
+
+  const labelWidth = Math.max(10, ...rows.map((r) => r.label.length));
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('bold', '=== Batch verification summary ==='));
+  lines.push('');
+  lines.push(
+    c('cyan', `${'Submission'.padEnd(labelWidth)}  Result  Integrity  Timeline    Review  Duration  External inputs`)
+  );
+
+  for (const row of rows) {
+    const label = row.label.padEnd(labelWidth);
+    if (row.result === undefined) {
+      lines.push(`${label}  ${c('red', 'ERROR ')}`);
+      lines.push(c('red', `${''.padEnd(labelWidth)}  \u2514 ${row.error}`));
+      continue;
+    }
+    const r = row.result;
+    const result = r.valid ? c('green', 'PASS  ') : c('red', 'FAIL  ');
+    const integrity = (r.assurance?.integrity ?? '—').toUpperCase().padEnd(9);
+    const timeline = (r.assurance?.temporal ?? '—').toUpperCase().padEnd(10);
+    const review = r.analysis ? `${(r.analysis.reviewPriority * 100).toFixed(0)}%` : '—';
+    const duration = r.processSummary ? formatDurationMs(r.processSummary.durationMs) : '—';
+    const external = r.processSummary ? String(r.processSummary.externalInputCount) : '—';
+    lines.push(
+      `${label}  ${result}  ${integrity}  ${timeline}  ${review.padStart(6)}  ${duration.padStart(8)}  ${external.padStart(15)}`
+    );
+    if (!r.valid) {
+      lines.push(c('red', `${''.padEnd(labelWidth)}  \u2514 ${failureReason(r)}`));
+    }
+    for (const rule of r.policy?.tripped.filter((t) => t.action === 'warn') ?? []) {
+      lines.push(c('yellow', `${''.padEnd(labelWidth)}  ! policy: ${formatTrippedRule(rule)}`));
+    }
+  }
+
+  const proofCount = rows.filter((r) => r.result !== undefined).length;
+  const passed = rows.filter((r) => r.result?.valid).length;
+  const errors = rows.filter((r) => r.error !== undefined).length;
+  lines.push('');
+  let total = `${passed}/${proofCount} proofs passed across ${results.length} file(s)`;
+  if (errors > 0) total += `, ${errors} file(s) could not be read`;
+  lines.push(passed === proofCount && errors === 0 ? c('green', total) : c('red', total));
+  // ポリシーは全 proof に同じものを当てるので、どれか 1 件から出所と hash を拾えば足りる。
+  const policy = rows.find((r) => r.result?.policy)?.result?.policy;
+  if (policy) {
+    lines.push(`Gate policy: ${policy.name ? `${policy.name} ` : ''}(${policy.source}) sha256 ${policy.sha256}`);
+  }
+  lines.push(c('dim', 'Review / duration / external inputs are advisory — they never affect the exit code.'));
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * `--watch` の 1 回のポーリングで拾った変化。時刻を付けて、続く一覧表がいつの時点かを示す
+ * (試験監督は届いた順に見ていくので、どのファイルが今回の更新かを一覧表の前に出す)。
+ */
+export function formatWatchChanges(changes: DropFolderChanges, at: Date): string {
+  const lines = [c('dim', `[${at.toLocaleTimeString()}]`)];
+  for (const name of changes.added) lines.push(`  ${c('cyan', '+')} ${name}`);
+  for (const name of changes.modified) lines.push(`  ${c('yellow', '~')} ${name} ${c('dim', '(changed)')}`);
+  for (const name of changes.removed) lines.push(`  ${c('dim', '-')} ${name} ${c('dim', '(removed)')}`);
+  return lines.join('\n');
+}
+
+function formatRosterIssue(issue: RosterIssue): string {
+  switch (issue.kind) {
+    case 'missing':
+      return 'missing';
+    case 'duplicate':
+      return `duplicate submission (${issue.sources.length} files)`;
+    case 'mismatch':
+      return issue.field === 'exam'
+        ? `not an exam proof (${issue.label})`
+        : `${issue.field}: expected ${issue.expected ?? '(none)'}, got ${issue.actual ?? '(none)'} (${issue.label})`;
+    case 'out-of-time-box':
+      return `outside the exam time-box (${issue.submittedAt ? `submitted ${issue.submittedAt}` : issue.source})`;
+    case 'multiple-devices':
+      return `proofs from ${issue.deviceIds.length} devices (${issue.deviceIds.map((d) => d.slice(0, 8)).join(', ')})`;
+  }
+}
+
+/**
+ * 名簿突合 (ADR-0037) の表。1 行 = 名簿の学生 1 人 (名簿の順)。所見があれば 2 つ目以降を直下に並べる。
+ * どの学生にも当たらない・複数の学生に当たる提出物も落とさずに出す。
+ */
+export function formatRosterReport(report: RosterReconciliation, rosterSource: string): string {
+  const idWidth = Math.max(7, ...report.students.map((s) => s.studentId.length));
+  const submissions = report.students.map((s) => (s.sources.length > 0 ? s.sources.join(', ') : '—'));
+  const subWidth = Math.max(10, ...submissions.map((s) => s.length));
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('bold', `=== Roster reconciliation (${rosterSource}) ===`));
+  lines.push('');
+  lines.push(c('cyan', `${'Student'.padEnd(idWidth)}  ${'Submission'.padEnd(subWidth)}  Findings`));
+
+  for (const [i, student] of report.students.entries()) {
+    const prefix = `${student.studentId.padEnd(idWidth)}  ${submissions[i]!.padEnd(subWidth)}  `;
+    const [first, ...rest] = student.issues;
+    if (first === undefined) {
+      lines.push(`${prefix}${c('green', 'OK')}`);
+      continue;
+    }
+    const color = first.kind === 'missing' ? 'red' : 'yellow';
+    lines.push(`${prefix}${c(color, first.kind === 'missing' ? 'MISSING' : formatRosterIssue(first))}`);
+    for (const issue of rest) {
+      lines.push(c('yellow', `${''.padEnd(idWidth + subWidth + 4)}${formatRosterIssue(issue)}`));
+    }
+  }
+
+  if (report.unmatched.length > 0) {
+    lines.push('');
+    lines.push(c('yellow', `Unmatched submissions (no roster entry): ${report.unmatched.join(', ')}`));
+  }
+  for (const a of report.ambiguous) {
+    lines.push(c('yellow', `Ambiguous submission ${a.source} matches ${a.studentIds.join(', ')} (counted for none)`));
+  }
+
+  const { students, submitted, missing, withIssues } = report.counts;
+  lines.push('');
+  const total = `${submitted}/${students} students submitted, ${missing} missing, ${withIssues} with findings`;
+  lines.push(missing === 0 && withIssues === 0 ? c('green', total) : c('yellow', total));
+  lines.push(c('dim', 'Roster findings are administrative — they never affect the exit code.'));
+  lines.push('');
+  return lines.join('\n');
+}
+
+/** コホート表 (ADR-0025) の 1 行。並びは呼び出し側 (cohort.ts) が決める。 */
+export interface CohortReportRow {
+  label: string;
+  integrityValid: boolean;
+  position: CohortPosition;
+  deviation: CohortDeviation;
+}
+
+/**
+ * `cohort` サブコマンドの表。中央値距離の降順に並んだ各提出の位置を出す。
+ * advisory な triage であって判定ではない旨と、小 N の警告を必ず併記する (ADR-0025 ルール 4/5)。
+ */
+export function formatCohortReport(
+  baseline: CohortBaseline,
+  rows: readonly CohortReportRow[],
+  skipped: readonly string[] = []
+): string {
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('bold', '=== Cohort positions (ADR-0025) ==='));
+  lines.push('');
+  lines.push(`Cohort size: ${baseline.cohortSize}`);
+  if (!baseline.sufficient) {
+    lines.push(
+      c(
+        'yellow',
+        `! Small cohort: ${baseline.cohortSize} < COHORT_MIN_N (${COHORT_MIN_N}) — distributions are unstable, read percentiles with care`
+      )
+    );
+  }
+  lines.push(c('dim', 'Advisory triage, not a verdict — distance from the cohort median is not a violation.'));
+  lines.push(c('dim', 'IME, assistive technology and typing-speed diversity produce legitimate outliers.'));
+  lines.push('');
+
+  const labelWidth = Math.max(10, ...rows.map((r) => r.label.length));
+  lines.push(c('cyan', `  #  ${'Submission'.padEnd(labelWidth)}  Deviation  Furthest metric`));
+  rows.forEach((r, i) => {
+    const rank = String(i + 1).padStart(3);
+    const score = `${r.deviation.score.toFixed(1)} IQR`.padEnd(9);
+    let furthest = '—';
+    if (r.deviation.metric !== null) {
+      const mp = r.position.metrics[r.deviation.metric];
+      furthest = mp ? `${r.deviation.metric} (p${mp.percentile.toFixed(0)})` : r.deviation.metric;
+    }
+    const integrity = r.integrityValid ? '' : c('red', '  [integrity FAILED]');
+    lines.push(`${rank}  ${r.label.padEnd(labelWidth)}  ${score}  ${furthest}${integrity}`);
+
+    // コホート base rate に対して出た次元だけを添える (出ていない次元は沈黙)。
+    const fired = Object.entries(r.position.dimensions)
+      .filter(([, d]) => d.fired)
+      .map(([dim, d]) => `${dim} (cohort ${(d.baseRate * 100).toFixed(0)}%)`);
+    if (fired.length > 0) {
+      lines.push(c('dim', `     ${''.padEnd(labelWidth)}  signals: ${fired.join(', ')}`));
+    }
+  });
+
+  if (skipped.length > 0) {
+    lines.push('');
+    lines.push(c('dim', `Skipped (not a bundle or proof): ${skipped.join(', ')}`));
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function formatEvidenceRef(ref: EvidenceRef): string {
+  const range =
+    ref.toEventIndex !== undefined && ref.toEventIndex !== ref.fromEventIndex
+      ? `events ${ref.fromEventIndex}–${ref.toEventIndex}`
+      : `event ${ref.fromEventIndex}`;
+  return ref.note ? `${range} (${ref.note})` : range;
+}
+
+/**
+ * `similarity` サブコマンド (ADR-0035) の表。対ごとの signal を score の降順 (report の並び) に出し、
+ * 各対の下に両側の証拠 event を添える。判定ではない旨と、独立に書いても似うる旨を必ず併記する。
+ */
+export function formatSimilarityReport(
+  report: CohortAnalysisReport,
+  integrityFailed: readonly string[] = [],
+  skipped: readonly string[] = []
+): string {
+  const n = report.members.length;
+  const lines: string[] = [];
+  lines.push('');
+  lines.push(c('bold', '=== Cross-submission similarity (ADR-0035) ==='));
+  lines.push('');
+  lines.push(`Submissions compared: ${n} (${(n * (n - 1)) / 2} pairs)`);
+  lines.push(
+    c('dim', 'Advisory, not a verdict — short tasks and textbook solutions look alike when written independently.')
+  );
+  lines.push(c('dim', 'Look at both proofs side by side at the evidence events before drawing conclusions.'));
+  lines.push('');
+
+  if (report.signals.length === 0) {
+    lines.push(c('green', 'No similar pairs found.'));
+  } else {
+    const failed = new Set(integrityFailed);
+    lines.push(c('cyan', '  #  Score  Confidence  Pair'));
+    report.signals.forEach((signal, i) => {
+      const rank = String(i + 1).padStart(3);
+      const integrity = failed.has(signal.a) || failed.has(signal.b) ? c('red', '  [integrity FAILED]') : '';
+      lines.push(
+        `${rank}  ${signal.score.toFixed(2).padEnd(5)}  ${signal.confidence.toFixed(2).padEnd(10)}  ${signal.a} ↔ ${signal.b}${integrity}`
+      );
+      lines.push(c('dim', `     ${signal.summary}`));
+      for (const [label, evidence] of [
+        [signal.a, signal.evidenceA],
+        [signal.b, signal.evidenceB],
+      ] as const) {
+        if (evidence.length > 0) {
+          lines.push(c('dim', `     ${label}: ${evidence.map(formatEvidenceRef).join(', ')}`));
+        }
+      }
+    });
+  }
+
+  if (skipped.length > 0) {
+    lines.push('');
+    lines.push(c('dim', `Skipped (not a proof): ${skipped.join(', ')}`));
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function formatDiffEvent(event: ProofDiffEvent | null): string {
+  if (!event) return '(no more events)';
+  const type = event.inputType ? `${event.type}/${event.inputType}` : event.type;
+  return `#${event.sequence} ${type} at ${formatDurationMs(event.timestamp)}`;
+}
+
+/**
+ * `diff` サブコマンドの表示。root の一致・hash が一致する先頭の events・最初の食い違い・内容の食い違いを
+ * 並べる。作り直した proof (root が違うのに編集内容がそろう) はそれと分かるように注記する。
+ */
+export function formatProofDiff(
+  diff: ProofDiff,
+  a: { label: string; valid: boolean },
+  b: { label: string; valid: boolean }
+): string {
+  const lines: string[] = [];
+  const integrity = (valid: boolean) => (valid ? '' : c('red', '  [integrity FAILED]'));
+  lines.push('');
+  lines.push(c('bold', '=== Proof diff ==='));
+  lines.push('');
+  lines.push(`A: ${a.label} (${diff.a.eventCount} events)${integrity(a.valid)}`);
+  lines.push(`B: ${b.label} (${diff.b.eventCount} events)${integrity(b.valid)}`);
+  lines.push('');
+
+  if (diff.identical) {
+    lines.push(c('green', 'Identical event chains (same proof exported again).'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const root = diff.sameInitialEventChainHash ? c('green', 'shared') : c('yellow', 'different');
+  lines.push(`Initial chain hash:   ${root}`);
+  lines.push(`Shared prefix:        ${diff.sharedPrefixLength} events`);
+  if (diff.divergentEvents) {
+    lines.push(`First divergence:     #${diff.firstDivergentSequence}`);
+    lines.push(c('dim', `  A: ${formatDiffEvent(diff.divergentEvents.a)}`));
+    lines.push(c('dim', `  B: ${formatDiffEvent(diff.divergentEvents.b)}`));
+  }
+  if (diff.sameEditsPrefixLength > diff.sharedPrefixLength) {
+    lines.push(`Same edits up to:     #${diff.sameEditsPrefixLength} (timing or chain differs before that)`);
+  }
+  if (diff.contentDivergence) {
+    const { sequence, offset, line, column } = diff.contentDivergence;
+    lines.push(`Content divergence:   #${sequence}, offset ${offset} (line ${line}, column ${column})`);
+  } else {
+    lines.push(`Content divergence:   ${c('green', 'none')} (both replays produce the same document)`);
+  }
+  lines.push(`Final content:        ${diff.sameFinalContent ? 'identical' : 'different'}`);
+
+  if (!diff.sameInitialEventChainHash && diff.contentDivergence === null) {
+    lines.push('');
+    lines.push(c('yellow', 'Same edits on a different chain: one proof may have been regenerated from the other.'));
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/** 旧形式の特徴の説明 (`inspect --version-report`) */
+const LEGACY_FEATURE_LABELS: Record<LegacyProofFeature, string> = {
+  'top-level-human-attestation': 'human attestation stored at the top level (not as event #0)',
+  'code-execution-without-data': 'codeExecution events without data (no start/result phase, pre ADR-0021)',
+  'root-anchored-flag-missing': 'no rootAnchored flag (pre 1.2.0, root not server-anchored)',
+  'checkpoints-missing': 'no checkpoints array',
+  'checkpoints-without-merkle-root': 'checkpoints without a Merkle root (pre ADR-0040)',
+  'initial-chain-hash-missing': 'no initialEventChainHash (root taken from event #0)',
+  'mode-missing': 'no recording mode label',
+  'filename-missing': 'no editor file name',
+};
+
+/**
+ * `inspect --version-report` の表示。format version と、migration でそろえる / 報告だけの旧形式の特徴を並べる。
+ */
+export function formatVersionReport(label: string, report: ProofVersionReport): string {
+  const lines: string[] = [];
+  const declared = report.declaredVersion ?? '(missing)';
+  const status = !report.supported
+    ? c('red', `unsupported (minimum ${report.minSupportedVersion})`)
+    : report.newerThanCurrent
+      ? c('yellow', `newer than this verifier (${report.currentVersion})`)
+      : c('green', `supported (current ${report.currentVersion})`);
+  lines.push('');
+  lines.push(c('bold', `=== Version report: ${label} ===`));
+  lines.push(`Format version:  ${declared}  ${status}`);
+
+  if (report.features.length === 0) {
+    lines.push(`Legacy features: ${c('green', 'none')}`);
+  } else {
+    lines.push('Legacy features:');
+    for (const { feature, occurrences, normalized } of report.features) {
+      const count = occurrences > 1 ? ` ×${occurrences}` : '';
+      const action = normalized ? c('green', 'normalized') : c('dim', 'hashed, kept as is');
+      lines.push(`  - ${LEGACY_FEATURE_LABELS[feature]}${count}  [${action}]`);
+    }
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * 検証を通った key set (ADR-0048) の鍵の一覧。連鎖で足された鍵と、退役・失効の予定を見せる
+ * (採点者が「どの鍵の署名をいつまで信頼するか」をキャッシュの中身で確かめられるように)。
+ */
+export function formatKeySetReport(keySet: LoadedKeySet): string {
+  const lines: string[] = [];
+  const sequence = keySet.sequence === null ? 'empty chain' : `sequence ${keySet.sequence}`;
+  lines.push('');
+  lines.push(c('bold', `=== Key set: ${keySet.source} ===`));
+  lines.push(`Chain:  ${c('green', 'verified')} from the built-in registry (${sequence})`);
+  lines.push('Keys:');
+  for (const key of keySet.registry) {
+    const until = key.validUntil ? ` until ${key.validUntil}` : '';
+    const state =
+      key.status === 'revoked'
+        ? c('red', `revoked${key.revokedAt ? ` at ${key.revokedAt}` : ''}`)
+        : c('green', 'active');
+    const origin = keySet.addedKeyIds.includes(key.keyId) ? c('cyan', 'key set') : c('dim', 'built-in');
+    lines.push(`  - ${key.keyId}  from ${key.validFrom}${until}  [${state}] (${origin})`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * `eval` サブコマンドで評価から除いた proof の一覧。母数が manifest より減ったことを必ず見せる
+ * (黙って除くと genuine/automated の比率が変わったことに気付けない)。
+ */
+export function formatEvalExclusions(excluded: readonly { id: string; reason: string }[]): string {
+  const lines: string[] = [];
+  lines.push(c('yellow', `Excluded from the evaluation: ${excluded.length}`));
+  for (const { id, reason } of excluded) {
+    lines.push(c('dim', `  ${id}: ${reason}`));
+  }
+  return lines.join('\n');
+}
+
+/** `cohort` の基準ファイルの既定の書き出し先 (cwd 基準)。 */
+export const DEFAULT_COHORT_BASELINE_OUT = 'cohort-baseline.json';
+
+/** `key-set` のキャッシュの既定の書き出し先 (cwd 基準)。 */
+export const DEFAULT_KEY_SET_OUT = 'checkpoint-key-set.json';
+
 export function printError(message: string): void {
   console.error(c('red', `Error: ${message}`));
 }
@@ -403,20 +1025,37 @@ export function printUsage(): void {
 ${c('bold', 'typedcode-verify')} - Verify TypedCode proof files
 
 ${c('cyan', 'Usage:')}
-  typedcode-verify <file.json|file.zip> [--mode <fast|audit|full>]
+  typedcode-verify cohort <dir> [...]   (see: typedcode-verify cohort --help)
+  typedcode-verify similarity <dir> [...]   (see: typedcode-verify similarity --help)
+  typedcode-verify eval <manifest.json> [...]   (see: typedcode-verify eval --help)
+  typedcode-verify diff <a> <b> [...]   (see: typedcode-verify diff --help)
+  typedcode-verify inspect <file>... --version-report   (see: typedcode-verify inspect --help)
+  typedcode-verify key-set --api-url <url> [...]   (see: typedcode-verify key-set --help)
+  typedcode-verify <file.json|file.tcproof|file.zip|dir>... [--mode <fast|audit|full>]
                    [--exam-package <file.tcexam>] [--submitted-at <ISO>]
-                   [--require-anchor-density] [--require-root-anchor]
+                   [--require-anchor-density] [--require-root-anchor] [--policy <policy.json>]
+                   [--key-set <key-set.json>] [--roster <roster.csv>] [--roster-json <out.json>]
                    [--analysis-json <out.json>] [--analysis-bundle <out.json>]
-                   [--analyzer <module>]... [--no-default-analyzers]
+                   [--analyzer <module>]... [--no-default-analyzers] [--jobs <n>]
+                   [--format <text|json|ndjson>] [--junit <out.xml>] [--sarif <out.sarif>]
+  typedcode-verify --watch <dir> [--exam-package <file.tcexam>] [--roster <roster.csv>] [...]
 
 ${c('cyan', 'Arguments:')}
-  file    Path to proof file (.json) or exported archive (.zip)
+  file    Path to proof file (.json / binary .tcproof) or exported archive (.zip)
+  dir     Submission folder: every .json / .tcproof / .zip directly inside it is verified
+          (batch mode). Several files also switch to batch mode.
 
 ${c('cyan', 'Options:')}
   --mode           Verification mode (default: full)
                    fast  - Skip PoSW recompute (tamper resistance only)
-                   audit - fast + deterministic PoSW sampling (placeholder)
+                   audit - fast + PoSW recompute for a deterministic sample of events,
+                           chosen from the final chain hash (ADR-0034). Integrity is
+                           reported as SAMPLED with a statistical bound, not PROVEN.
                    full  - Full PoSW verification
+  --audit-confidence
+                   Audit mode: confidence target between 0 and 1 (default: 0.95). The
+                   sample is sized so that invalid PoSW on 1% or more of the events is
+                   caught with this probability.
   --exam-package   Exam mode (ADR-0006): sealed problem package (.tcexam) to fully
                    verify the binding (signature, package hash, decrypted content).
                    Without it, only the self-contained exam root binding is checked.
@@ -432,6 +1071,20 @@ ${c('cyan', 'Options:')}
                    default (unanchored root is only a warning). Exam proofs are exempt
                    ONLY when their binding is verified via --exam-package (#131); a
                    self-declared exam block alone does not bypass the gate.
+  --policy         Gate policy file (gate-policy/1, ADR-0036): rules over the assurance
+                   levels, screenshot check, exam binding / time-box, process summary and
+                   anchors, each mapped to fail or warn. A tripped fail rule fails the proof
+                   (exit 1); warn rules are only printed. The output names every tripped
+                   rule and records the SHA-256 of the policy file.
+  --key-set        Cached signing key set (ADR-0048, from \`typedcode-verify key-set\`). The
+                   chain is verified from the built-in key registry first (exit 1 if it
+                   does not verify); its endorsed keys are then trusted for signed
+                   checkpoints, session start tokens and submission receipts. Needed for
+                   proofs signed by a key rotated in after this verifier was built.
+  --tsa-root       PEM root certificate of a trusted RFC 3161 timestamp authority
+                   (ADR-0049, repeatable). Checkpoints anchored with a timestamp token
+                   instead of a server signature only verify when the token's signer
+                   chains to one of these roots; without one they fail.
   --analysis-json  Write the advisory analysis report (ADR-0009) for every verified
                    proof to the given file as JSON, for aggregation / evaluation
                    tooling. Advisory only — never affects the exit code.
@@ -447,16 +1100,210 @@ ${c('cyan', 'Options:')}
                    the exit code.
   --no-default-analyzers
                    Disable the built-in analyzers and run only the --analyzer ones.
+  --jobs           Batch mode: number of verification workers (default: CPU count).
+  --roster         Exam roster CSV (ADR-0037) with a student_id column and optional variant,
+                   problem_id, pattern (glob over the submission file name) and submitted_at
+                   columns. After verification, prints who is missing, who submitted twice,
+                   wrong examId / problemId / variant, submissions outside the exam time-box
+                   and students whose proofs come from several devices. Administrative only —
+                   never affects the exit code.
+  --roster-json    Write the roster reconciliation (roster-reconciliation/1) to a file.
+  --watch          Watch a drop folder (e.g. during a live exam): every .zip / .json /
+                   .tcproof that lands in <dir> or changes is verified once it has stopped growing, with
+                   the same settings (--exam-package, --policy, gates, analyzers). Keeps a
+                   running summary table and writes <file>.verify.json (verify-report/1)
+                   next to each input. Stop with Ctrl-C; the exit code is that of the last
+                   table. Text output only (no --format json|ndjson / --junit / --sarif /
+                   --analysis-json / --analysis-bundle).
+  --format         Output format (default: text).
+                   text   - Human-readable, coloured
+                   json   - One verify-report/1 document with every proof's full result
+                   ndjson - One verify-result/1 record per line (per proof)
+                   With json / ndjson, stdout carries only JSON; progress goes to stderr.
+                   The exit code is the same in every format.
+  --junit          Write a JUnit XML report for CI dashboards: one testsuite per input
+                   file, one testcase per proof, a <failure> per failed axis (integrity /
+                   exam-binding / screenshots / temporal). Assurance and analysis signals
+                   are testcase properties (advisory).
+  --sarif          Write a SARIF 2.1.0 report of the analysis signals. Each signal's
+                   evidence events are mapped to the lines of the final code they still
+                   occupy. Advisory — signals are never reported at level "error".
+
+${c('cyan', 'Batch mode:')}
+  Prints one progress line per file, then a summary table with one row per proof
+  (multi-tab ZIPs as file#tab) and the failure reason under each failed row.
+  Exits 1 if any proof fails or any file cannot be read.
 
 ${c('cyan', 'Examples:')}
   typedcode-verify proof.json
   typedcode-verify my-code.zip --mode fast
+  typedcode-verify q1_proof.tcproof
   typedcode-verify ALL_TC.zip --exam-package p1.tcexam
   typedcode-verify ALL_TC.zip --exam-package p1.tcexam --submitted-at 2026-06-06T01:00:00Z
   typedcode-verify proof.json --analyzer ./my-analyzer.mjs --analysis-json out.json
+  typedcode-verify submissions/ --mode fast --jobs 4
+  typedcode-verify submissions/ --mode audit --audit-confidence 0.99
+  typedcode-verify submissions/ --format ndjson > results.ndjson
+  typedcode-verify submissions/ --junit verify.xml --sarif analysis.sarif
+  typedcode-verify submissions/ --policy grading.json
+  typedcode-verify submissions/ --key-set checkpoint-key-set.json
+  typedcode-verify submissions/ --exam-package p1.tcexam --roster roster.csv
+  typedcode-verify --watch dropbox/ --exam-package p1.tcexam --roster roster.csv
 
 ${c('cyan', 'Exit codes:')}
   0 - Verification passed
   1 - Verification failed or error
 `);
 }
+
+export function printCohortUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify cohort')} - Build a cohort baseline and rank submissions (ADR-0025)
+
+${c('cyan', 'Usage:')}
+  typedcode-verify cohort <dir> [--baseline-out <out.json>] [--positions-json <out.json>]
+                   [--mode <fast|audit|full>] [--analyzer <module>]... [--no-default-analyzers]
+
+${c('cyan', 'Arguments:')}
+  dir     Directory holding --analysis-bundle outputs and/or raw proofs (.json / .tcproof / .zip).
+          Raw proofs are verified and reduced to Tier A bundles on the fly.
+
+${c('cyan', 'Options:')}
+  --baseline-out   Where to write the cohort-baseline/1 JSON (default: ${DEFAULT_COHORT_BASELINE_OUT}).
+                   Aggregates only — no per-student rows.
+  --positions-json Also write every submission's cohort-position/1, ranked, to the given file.
+  --mode           Verification mode for raw proofs (default: full).
+  --analyzer       Custom analyzer module for raw proofs (repeatable).
+  --no-default-analyzers
+                   Run only the --analyzer ones on raw proofs.
+
+Cohort positions are advisory triage — never a verdict, never part of the exit code.
+`);
+}
+
+export function printSimilarityUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify similarity')} - Compare submissions pairwise for shared code (ADR-0035)
+
+${c('cyan', 'Usage:')}
+  typedcode-verify similarity <dir> [--mode <fast|audit|full>] [--json <out.json>]
+
+${c('cyan', 'Arguments:')}
+  dir     Directory holding raw proofs (.json / .tcproof / .zip, every tab of a ZIP). Analysis
+          bundles are skipped: the comparison needs the final code and the events.
+
+${c('cyan', 'Options:')}
+  --mode           Verification mode for the proofs (default: full). Proofs that fail
+                   verification are still compared and marked [integrity FAILED].
+  --json           Also write the cohort-analysis/1 report (pairs, scores, evidence
+                   events — no source code) to the given file.
+
+Each pair is scored on normalized token overlap (renamed identifiers and changed
+literals still match), unusual identifiers shared only by the pair (cohorts of 3+),
+and whether the shared code was built in the same order. Code most of a cohort of
+5+ shares, and code injected by the assignment template, is left out.
+
+Similarity is advisory — never a verdict, never part of the exit code.
+`);
+}
+
+export function printDiffUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify diff')} - Compare two proofs of the same file event by event
+
+${c('cyan', 'Usage:')}
+  typedcode-verify diff <a> <b> [--entry <name>] [--mode <fast|audit|full>] [--json <out.json>]
+
+${c('cyan', 'Arguments:')}
+  a, b    Proofs to compare (.json / .tcproof / .zip).
+
+${c('cyan', 'Options:')}
+  --entry          Proof to take from a multi-tab ZIP (file name inside the ZIP).
+  --mode           Verification mode for both proofs (default: full). Proofs that fail
+                   verification are still compared and marked [integrity FAILED].
+  --json           Also write the proof-diff/1 report (no source code) to the given file.
+
+Shows whether the two proofs share the initial chain hash, how many leading events
+they share, the first divergent sequence number and where the replayed documents
+first differ. A shared prefix means both were exported from the same session.
+
+The diff is advisory — never part of the exit code.
+`);
+}
+
+export function printInspectUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify inspect')} - Inspect proofs without verifying them
+
+${c('cyan', 'Usage:')}
+  typedcode-verify inspect <file>... --version-report [--json <out.json>]
+
+${c('cyan', 'Arguments:')}
+  file    Proofs to inspect (.json / .tcproof / .zip, every tab of a ZIP).
+
+${c('cyan', 'Options:')}
+  --version-report Show the proof format version and the legacy features each proof
+                   carries, and which of them migration normalizes.
+  --json           Also write the proof-version-report/1 reports to the given file.
+
+Hashed legacy features (event data, checkpoints, typing proof data) are reported but
+never rewritten: a migrated proof verifies exactly like the original.
+`);
+}
+
+export function printKeySetUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify key-set')} - Fetch and verify the signing key set (ADR-0048)
+
+${c('cyan', 'Usage:')}
+  typedcode-verify key-set --api-url <url> [--out <key-set.json>]
+  typedcode-verify key-set <key-set.json>
+
+${c('cyan', 'Arguments:')}
+  key-set.json  A cached key set to verify and show (no network access).
+
+${c('cyan', 'Options:')}
+  --api-url        Workers API origin (e.g. https://api.typedcode.dev). Fetches
+                   /api/checkpoint/key-set, verifies it and caches it.
+  --out            Where to write the cache (default: ${DEFAULT_KEY_SET_OUT}).
+
+The chain is verified from the key registry built into this verifier: every key set
+must be endorsed by a key already trusted when it was issued, and may only add keys
+or retire / revoke them earlier. Pass the cache to verification with --key-set, so
+proofs signed by a rotated-in key verify offline.
+`);
+}
+
+export function printEvalUsage(): void {
+  console.log(`
+${c('bold', 'typedcode-verify eval')} - Evaluate analyzers on a labeled corpus (docs/analysis-eval-protocol.md)
+
+${c('cyan', 'Usage:')}
+  typedcode-verify eval <manifest.json> [--mode <fast|audit|full>]
+                   [--analyzer <module>]... [--no-default-analyzers] [--max-fpr <rate>]
+                   [--markdown <out.md>] [--json <out.json>] [--signals-json <out.json>]
+
+${c('cyan', 'Arguments:')}
+  manifest  Corpus manifest (JSON). Either an array of
+              { "path": "p001.json", "label": "genuine" | "automated", "condition": "genuine-ime" }
+            or a labels.json object keyed by path:
+              { "p001.json": { "label": "automated", "condition": "ai-paste" } }
+            Paths are relative to the manifest. Every tab of a ZIP gets the entry's label.
+
+${c('cyan', 'Options:')}
+  --mode           Verification mode for the proofs (default: full). Proofs that fail
+                   verification are excluded from the evaluation and listed.
+  --analyzer       Custom analyzer module to evaluate (repeatable). Runs alongside the
+                   built-in analyzers.
+  --no-default-analyzers
+                   Evaluate only the --analyzer ones.
+  --max-fpr        False-positive-rate ceiling for the recommended threshold (default: 0.05).
+  --markdown       Also write the Markdown report (printed to stdout) to the given file.
+  --json           Write the EvalReport (per-dimension threshold sweeps) as JSON.
+  --signals-json   Write every proof's signals with its label, for reviewing false positives.
+
+Prints the genuine-corpus signal rate and, for the overall review priority and each
+dimension, the best-F1 and recommended thresholds. The evaluation measures how many
+genuine sessions a cue would put under review — it does not turn analyzers into verdicts.
+`);
+}
@@ -0,0 +1,51 @@
+/**
+ * `--policy <file>` のゲートポリシー読込 (ADR-0036)。
+ *
+ * 述語の検証と評価は shared (`parseGatePolicy` / `evaluateGatePolicy`) に委ね、ここがやるのは
+ * I/O だけ: ファイルを読み、**読んだバイト列そのもの**の SHA-256 を取って結果に記録する
+ * (採点者が `sha256sum grading.json` で同じ値を得られるように。正規化した JSON の hash にすると
+ * 手元のファイルと突き合わせられない)。
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parseGatePolicy, sha256HexOfBytes, type GatePolicy, type GatePolicyEvaluation } from '@typedcode/shared';
+
+/** 読み込んだポリシー。バッチ検証のワーカーへもこのまま渡す (構造化複製できる plain object)。 */
+export interface LoadedGatePolicy {
+  /** コマンドラインで渡されたパス (表示用)。 */
+  source: string;
+  /** ファイルのバイト列の SHA-256 (hex)。 */
+  sha256: string;
+  policy: GatePolicy;
+}
+
+/** proof 1 件へのポリシー適用結果 (検証結果に載せる)。 */
+export interface CLIPolicyResult extends GatePolicyEvaluation {
+  source: string;
+  name?: string;
+  sha256: string;
+  /** ポリシー適用前の検証の合否。false なら fail の原因はポリシー以外にもある。 */
+  verificationPassed: boolean;
+}
+
+/**
+ * ポリシーファイルを読み、検証して hash を付ける。
+ *
+ * @throws 読めない / JSON でない / `gate-policy/1` として不正なとき (呼び出し側で stderr 表示 + exit 1)
+ */
+export async function loadGatePolicy(path: string): Promise<LoadedGatePolicy> {
+  let bytes: Buffer;
+  try {
+    bytes = await readFile(resolve(path));
+  } catch (err) {
+    throw new Error(`Cannot read gate policy ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bytes.toString('utf-8'));
+  } catch (err) {
+    throw new Error(`Gate policy ${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { source: path, sha256: await sha256HexOfBytes(bytes), policy: parseGatePolicy(parsed) };
+}
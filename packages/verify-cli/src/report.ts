@@ -0,0 +1,94 @@
+/**
+ * 機械可読な検証レポート (`--format json|ndjson`)。
+ *
+ * LMS の取込スクリプト等が端末出力をスクレイピングせずに検証結果を使うための入口。
+ * 中身は CLIVerificationResult そのもの (チェーン・PoSW・署名 cp・試験束縛・スクショ・
+ * 三層保証・プロセス要約) で、ここでは schema 識別子と入力ファイル由来の識別子を付けるだけ。
+ * 判定ロジックは持たない (純関数)。
+ *
+ * schema 識別子はフィールドの削除・意味の変更で版を上げる (追加だけなら据え置き)。
+ * - `verify-result/1`: proof 1 件 (= NDJSON の 1 行)。読めなかった入力ファイルは error を持つ。
+ * - `verify-report/1`: 実行全体 (= `--format json` の文書)。`passed` は exit code と一致する。
+ */
+
+import type { LoadedGatePolicy } from './policy.js';
+import type { CLIVerificationResult } from './verify.js';
+
+/** proof 1 件の schema 識別子。 */
+export const VERIFY_RESULT_SCHEMA = 'verify-result/1' as const;
+
+/** 実行全体の schema 識別子。 */
+export const VERIFY_REPORT_SCHEMA = 'verify-report/1' as const;
+
+/** proof 1 件の結果、または読めなかった入力ファイル 1 つ。 */
+export type VerifyResultRecord =
+  | {
+      schema: typeof VERIFY_RESULT_SCHEMA;
+      /** 入力ファイル (コマンドラインで渡された/ディレクトリから展開されたパス)。 */
+      source: string;
+      /** 入力内の proof 名 (ZIP 内の `*_proof.json`、JSON 単体は入力ファイル名)。 */
+      filename: string;
+      valid: boolean;
+      result: CLIVerificationResult;
+    }
+  | {
+      schema: typeof VERIFY_RESULT_SCHEMA;
+      source: string;
+      /** 入力ファイルを読めなかった理由。proof は 1 件も検証されていない。 */
+      error: string;
+    };
+
+/** `--format json` の文書。 */
+export interface VerifyReport {
+  schema: typeof VERIFY_REPORT_SCHEMA;
+  /** 全 proof が valid かつ読込エラーが無い (= exit 0)。 */
+  passed: boolean;
+  /** `--policy` で当てたゲートポリシー (ADR-0036) の出所と hash。各 proof の結果は `result.policy`。 */
+  policy?: { source: string; name?: string; sha256: string };
+  results: VerifyResultRecord[];
+}
+
+/** 入力ファイル 1 つ分の検証結果から proof ごとのレコードを作る。 */
+export function toResultRecords(
+  source: string,
+  proofs: ReadonlyArray<{ filename: string; result: CLIVerificationResult }>,
+  error?: string
+): VerifyResultRecord[] {
+  if (error !== undefined) {
+    return [{ schema: VERIFY_RESULT_SCHEMA, source, error }];
+  }
+  return proofs.map(({ filename, result }) => ({
+    schema: VERIFY_RESULT_SCHEMA,
+    source,
+    filename,
+    valid: result.valid,
+    result,
+  }));
+}
+
+/** レコード群を形式ごとの文字列にする (ndjson は 1 レコード 1 行、末尾改行なし)。 */
+export function formatReport(
+  format: 'json' | 'ndjson',
+  records: readonly VerifyResultRecord[],
+  passed: boolean,
+  policy?: LoadedGatePolicy
+): string {
+  if (format === 'ndjson') {
+    return records.map((r) => JSON.stringify(r)).join('\n');
+  }
+  const report: VerifyReport = {
+    schema: VERIFY_REPORT_SCHEMA,
+    passed,
+    ...(policy
+      ? {
+          policy: {
+            source: policy.source,
+            ...(policy.policy.name !== undefined ? { name: policy.policy.name } : {}),
+            sha256: policy.sha256,
+          },
+        }
+      : {}),
+    results: [...records],
+  };
+  return JSON.stringify(report, null, 2);
+}
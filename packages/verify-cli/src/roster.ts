@@ -0,0 +1,74 @@
+/**
+ * `--roster <roster.csv>` の名簿突合 (ADR-0037)。
+ *
+ * 突合 (未提出・重複・variant 食い違い・時間窓外・複数端末) は shared の `reconcileRoster` に委ね、
+ * ここがやるのは I/O だけ: 名簿 CSV を読み、バッチ検証の結果を `RosterSubmission` に写す。
+ * 突合は検証の合否 (exit code) には関与しない。
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import {
+  parseRosterCsv,
+  reconcileRoster,
+  type ExamPackageManifest,
+  type RosterEntry,
+  type RosterReconciliation,
+  type RosterSubmission,
+} from '@typedcode/shared';
+import type { BatchFileResult } from './batch.js';
+import { proofLabel } from './load.js';
+
+/** 読み込んだ名簿。 */
+export interface LoadedRoster {
+  /** コマンドラインで渡されたパス (表示用)。 */
+  source: string;
+  entries: RosterEntry[];
+}
+
+/**
+ * 名簿 CSV を読んで検証する。
+ *
+ * @throws 読めない / `parseRosterCsv` が不正とみなしたとき (呼び出し側で stderr 表示 + exit 1)
+ */
+export async function loadRoster(path: string): Promise<LoadedRoster> {
+  let text: string;
+  try {
+    text = await readFile(resolve(path), 'utf-8');
+  } catch (err) {
+    throw new Error(`Cannot read roster ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { source: path, entries: parseRosterCsv(text) };
+}
+
+/**
+ * バッチ検証の結果を突合の入力にする。提出物の名前は入力ファイル名 (ディレクトリ部分を除く) —
+ * 名簿のパターンは LMS のファイル名に対して書くので、`submissions/` のような置き場所に左右されない。
+ * 読めなかったファイルも提出物として数える (届いてはいる。proof の中身が無いので exam は null)。
+ */
+export function toRosterSubmissions(files: readonly BatchFileResult[]): RosterSubmission[] {
+  return files.flatMap((file): RosterSubmission[] => {
+    const source = basename(file.source);
+    if (file.error !== undefined) {
+      return [{ source, label: source, exam: null, deviceId: null }];
+    }
+    return file.proofs.map(({ filename, result }) => ({
+      source,
+      label: proofLabel(source, filename, file.proofs.length),
+      exam: result.exam
+        ? { examId: result.exam.examId, problemId: result.exam.problemId, variant: result.exam.variant }
+        : null,
+      deviceId: result.deviceId ?? null,
+      withinWindow: result.exam?.binding?.timeBox?.withinWindow ?? null,
+    }));
+  });
+}
+
+/** 名簿と検証結果を突き合わせる。 */
+export function reconcileBatch(
+  roster: LoadedRoster,
+  files: readonly BatchFileResult[],
+  manifest: ExamPackageManifest | undefined
+): RosterReconciliation {
+  return reconcileRoster(roster.entries, toRosterSubmissions(files), { manifest });
+}
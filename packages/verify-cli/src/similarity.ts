@@ -0,0 +1,127 @@
+/**
+ * `similarity` サブコマンド (ADR-0035): コホートの full proof を対ごとに比べ、提出物間類似を並べる。
+ *
+ * 入力はディレクトリ 1 つ。中の raw proof (`.json` / `.zip`、ZIP は全タブ) をその場で検証し、
+ * 最終コードと content-change の軌跡を shared の `runCohortAnalysis` に渡す。類似の中身
+ * (トークン正規化・珍しい識別子・構築順序) は shared の分析器に委ね、ここがやるのは
+ * I/O (読込・書出し・表示) だけ (verify-cli の境界)。
+ *
+ * `cohort` と違い Tier A バンドルは受け付けない — 類似は最終コードと events そのものが要る
+ * (Tier F)。出力は label と event index だけでソースは含めない。
+ *
+ * advisory のみ。exit code は入力エラーのときだけ 1 で、類似の有無には一切影響しない。
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import {
+  BINARY_PROOF_EXTENSION,
+  runCohortAnalysis,
+  type CohortAnalysisMember,
+  type VerificationMode,
+} from '@typedcode/shared';
+import { SIMILARITY_FLAGS, findFlagError, flagValue, nonFlagArgs, parseModeFlag } from './args.js';
+import { loadProofs, looksLikeProofFile, proofLabel } from './load.js';
+import { verifyProof } from './verify.js';
+import { formatSimilarityReport, printError, printSimilarityUsage } from './output.js';
+
+/** 類似比較の 1 メンバー。検証に落ちた proof も比べるが、表示で印を付ける。 */
+export interface SimilarityMember extends CohortAnalysisMember {
+  integrityValid: boolean;
+}
+
+/**
+ * ディレクトリ直下の proof を集めて検証する (非再帰、ファイル名順で決定的)。
+ * proof でない JSON (分析バンドル・基準ファイルなど) は skipped に記録して読み飛ばす。
+ */
+export async function collectSimilarityMembers(
+  dir: string,
+  options: { mode: VerificationMode }
+): Promise<{ members: SimilarityMember[]; skipped: string[] }> {
+  const members: SimilarityMember[] = [];
+  const skipped: string[] = [];
+  const names = (await readdir(dir, { withFileTypes: true }))
+    .filter((d) => d.isFile())
+    .map((d) => d.name)
+    .sort();
+
+  for (const name of names) {
+    const path = join(dir, name);
+    const ext = extname(name).toLowerCase();
+    if (ext !== '.json' && ext !== '.zip' && ext !== BINARY_PROOF_EXTENSION) continue;
+
+    if (ext === '.json') {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await readFile(path, 'utf-8'));
+      } catch {
+        skipped.push(name);
+        continue;
+      }
+      if (!looksLikeProofFile(parsed)) {
+        skipped.push(name);
+        continue;
+      }
+    }
+
+    const proofs = await loadProofs(path, name);
+    for (const { filename, proof } of proofs) {
+      // 単体の分析は要らない (類似は対で見る) ので分析器は走らせない。構造が壊れていて検証が
+      // throw した proof も、events が読める限り比べる (検証失敗として印を付ける)。
+      const integrityValid = await verifyProof(proof, { mode: options.mode, analyzers: [] }).then(
+        (result) => result.valid,
+        () => false
+      );
+      members.push({ label: proofLabel(name, filename, proofs.length), proof, integrityValid });
+    }
+  }
+
+  return { members, skipped };
+}
+
+/** `typedcode-verify similarity ...` の本体。戻り値は exit code。 */
+export async function runSimilarityCommand(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    printSimilarityUsage();
+    return 0;
+  }
+
+  const flagError = findFlagError(args, SIMILARITY_FLAGS);
+  if (flagError !== null) {
+    printError(flagError);
+    printSimilarityUsage();
+    return 1;
+  }
+
+  const positional = nonFlagArgs(args, SIMILARITY_FLAGS);
+  if (positional.length !== 1) {
+    printError('similarity takes exactly one directory.');
+    printSimilarityUsage();
+    return 1;
+  }
+  const dir = resolve(positional[0]!);
+
+  try {
+    const mode = parseModeFlag(args);
+    const { members, skipped } = await collectSimilarityMembers(dir, { mode });
+    if (members.length < 2) {
+      printError(`At least two proofs are needed to compare (found ${members.length} in ${positional[0]}).`);
+      return 1;
+    }
+
+    const report = await runCohortAnalysis(members);
+    const failed = members.filter((m) => !m.integrityValid).map((m) => m.label);
+    console.log(formatSimilarityReport(report, failed, skipped));
+
+    // 対の所見は学生名 (ラベル) を含む。明示指定されたときだけ書き出す。
+    const jsonPath = flagValue(args, '--json');
+    if (jsonPath !== undefined) {
+      await writeFile(resolve(jsonPath), JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`Similarity report written to ${jsonPath}`);
+    }
+    return 0;
+  } catch (error) {
+    printError(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * RFC 3161 のタイムスタンプトークン (ADR-0049) を検証する TSA のルート証明書の読込。
+ *
+ * `--tsa-root <pem>` (反復可) で採点者が信頼する TSA のルートを渡す。組み込みの
+ * `TSA_ROOT_CERTIFICATES` に重ねて、トークンの署名者の証明書がそのどれかへ辿れることを要求する。
+ * ファイルを読んで証明書として読めるかを確かめるまでがここの仕事で、トークンの検証は shared
+ * (`verifyTimestampToken`) に委ねる。
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { TSA_ROOT_CERTIFICATES, describeCertificate, parseCertificatesPem } from '@typedcode/shared';
+
+/** 読み込んだ TSA のルート。バッチ検証のワーカーへは PEM だけを渡す (構造化複製できる文字列)。 */
+export interface LoadedTsaRoots {
+  /** 組み込みのルートに `--tsa-root` のファイルを重ねた PEM */
+  certificates: string[];
+  /** `--tsa-root` で足した証明書 (表示用) */
+  added: Array<{ source: string; subject: string | null; notAfter: string }>;
+}
+
+/**
+ * `--tsa-root` のファイルを読む。証明書が 1 つも無い・読めないファイルは throw する
+ * (黙って無視すると、TSA のアンカーが「ルートが無い」で落ちる理由が分かりにくくなる)。
+ */
+export async function loadTsaRoots(paths: readonly string[]): Promise<LoadedTsaRoots> {
+  const certificates = [...TSA_ROOT_CERTIFICATES];
+  const added: LoadedTsaRoots['added'] = [];
+  for (const path of paths) {
+    let pem: string;
+    try {
+      pem = await readFile(resolve(path), 'utf-8');
+    } catch (err) {
+      throw new Error(`Cannot read TSA root certificate ${path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const ders = parseCertificatesPem(pem);
+    if (ders.length === 0) {
+      throw new Error(`TSA root ${path} contains no PEM certificate.`);
+    }
+    for (const der of ders) {
+      try {
+        const { subject, notAfter } = describeCertificate(der);
+        added.push({ source: path, subject, notAfter });
+      } catch (err) {
+        throw new Error(
+          `TSA root ${path} is not a valid certificate: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+    certificates.push(pem);
+  }
+  return { certificates, added };
+}
@@ -4,14 +4,26 @@
  */
 
 import {
-  verifyProofFile,
+  verifyProofStream,
+  migrateProof,
+  toProofEventStream,
   runAnalysis,
   verifyExamBinding,
   deriveAssurance,
   summarizeAnalysisForAssurance,
-  summarizeProcess,
+  ProcessSummaryAccumulator,
+  ANALYSIS_MAX_EVENTS,
+  locateEvidence,
+  evaluateGatePolicy,
+  gatePolicyFacts,
+  analyzeTampering,
+  shouldAnalyzeTampering,
   EXAM_AUTHORITY_KEYS,
+  type LegacyProofFile,
+  type MigratedProof,
   type ProofFile,
+  type ProofEventStream,
+  type StoredEvent,
   type VerificationProgressCallback,
   type VerificationMode,
   type FullVerificationResult,
@@ -23,8 +35,15 @@ import {
   type ExamBindingVerificationResult,
   type ScreenshotVerificationSummary,
   type CheckpointPublicKey,
+  type EvidenceLocation,
+  type PoswAuditSummary,
+  type PoswTimingResult,
+  type TamperForensicsReport,
+  type SubmissionReceipt,
+  type SubmissionReceiptCheckResult,
 } from '@typedcode/shared';
 import { ProgressBar } from './progress.js';
+import type { CLIPolicyResult, LoadedGatePolicy } from './policy.js';
 
 // Re-export ProofFile for use in other modules
 export type { ProofFile };
@@ -59,11 +78,20 @@ export interface CLIVerificationResult {
   language: string;
   mode: VerificationMode;
   poswSkipped: boolean;
+  /** audit モードの PoSW 標本と統計的上限 (ADR-0034)。audit 以外は undefined。 */
+  poswAudit?: PoswAuditSummary;
   signedCheckpoints: FullVerificationResult['signedCheckpoints'];
   /** root がサーバアンカーされているか (ADR-0017) */
   rootAnchored: boolean;
-  /** 分析層 (ADR-0009) の advisory レポート。判定ではない。 */
-  analysis: AnalysisReport;
+  /** 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042) */
+  poswTiming?: PoswTimingResult;
+  /**
+   * 分析層 (ADR-0009) の advisory レポート。判定ではない。events が分析の上限
+   * (`analysisMaxEvents`) を超えた proof は分析を省くので undefined (`analysisSkipped`)。
+   */
+  analysis?: AnalysisReport;
+  /** events が分析の上限を超えたため、proof 全体を読む分析 (分析・証拠位置・改竄推定) を省いた (ADR-0039)。 */
+  analysisSkipped?: boolean;
   /** 三層保証語彙 (ADR-0020)。実証拠から機械導出した表示用語彙 (valid の置換ではない)。 */
   assurance: AssuranceResult;
   /** プロセス要約 (Phase 8 W3)。制作過程の中立な記述。 */
@@ -75,10 +103,36 @@ export interface CLIVerificationResult {
    * (JSON 単体入力など)。判定は shared の summarizeScreenshotArtifacts (verify web と同一実装)。
    */
   screenshots?: ScreenshotVerificationSummary;
+  /** エディタ上のソースファイル名 (proof の `filename`)。旧 proof など記録が無ければ undefined。 */
+  sourceFilename?: string;
+  /** fingerprint 由来の端末 ID (`typingProofData.deviceId`)。名簿突合 (ADR-0037) の複数端末検出に使う。 */
+  deviceId?: string;
+  /**
+   * 分析 signal の証拠が最終コードのどの行に残っているか (SARIF 出力用)。
+   * `locateEvidence` を指定したときのみ。advisory な表示補助で判定には使わない。
+   */
+  evidenceLocations?: EvidenceLocation[];
+  /**
+   * ゲートポリシー (ADR-0036) の適用結果。`--policy` を渡したときのみ。fail 規則が発火すると
+   * valid も false になる (`--require-*` のゲートと同じく exit code に合流する)。
+   */
+  policy?: CLIPolicyResult;
+  /**
+   * 検証に落ちた proof の書き換えの推定 (hash chain・metadata・署名 cp のどれかが落ちたときのみ)。
+   * advisory で判定には使わない。fast モードは PoSW を再計算しない。
+   */
+  tamperForensics?: TamperForensicsReport;
+  /**
+   * 提出レシート (ADR-0047) との突合。ZIP にレシートが同梱されていたときのみ。
+   * 無効なレシート (署名不正・この proof を載せていない等) は valid を落とす。
+   */
+  submissionReceipt?: SubmissionReceiptCheckResult;
 }
 
 export interface VerifyProofOptions {
   mode?: VerificationMode;
+  /** audit モードの目標信頼度 (ADR-0034)。未指定は shared の既定 (0.95)。 */
+  auditConfidence?: number;
   /** `.tcexam` 問題パッケージ (任意)。あれば署名/復号/内容まで完全検証する。 */
   examPackageManifest?: ExamPackageManifest;
   /** Moodle 提出時刻 (epoch ms, 任意)。time-box の withinWindow 判定に使う。 */
@@ -104,71 +158,156 @@ export interface VerifyProofOptions {
    * (本番運用はこちら)。テスト鍵を注入して web↔CLI パリティを比較するための口 (#216)。
    */
   signedCheckpointKeyRegistry?: readonly CheckpointPublicKey[];
+  /** RFC 3161 のトークン (ADR-0049) を検証する TSA のルート証明書 (PEM)。未指定なら組み込みのルート。 */
+  tsaRootCertificates?: readonly string[];
+  /** 分析 signal の証拠を最終コードの行へ写す (SARIF 出力用。content の replay が 1 回増える)。 */
+  locateEvidence?: boolean;
+  /** ゲートポリシー (ADR-0036)。検証結果の事実に当てはめ、fail 規則の発火で valid を落とす。 */
+  policy?: LoadedGatePolicy;
+  /** 進捗バーを出さない (バッチ検証のワーカーなど、端末を他と共有するとき)。 */
+  quiet?: boolean;
+  /**
+   * ZIP に同梱された提出レシート (ADR-0047)。呼び出し側が ZIP から一度だけ読んで全 proof に渡す
+   * (1 枚のレシートが全タブの最終 hash を載せるため)。未指定 = レシート無し。
+   */
+  submissionReceipt?: SubmissionReceipt | null;
+  /**
+   * proof 全体を読む分析 (runAnalysis / 証拠位置 / 改竄推定) を行う events 数の上限 (ADR-0039)。
+   * 超えたら分析を省き `analysisSkipped` を立てる。`verifyProofSource` の既定は shared の
+   * `ANALYSIS_MAX_EVENTS`、`verifyProof` (proof が既にメモリ上) の既定は上限なし。
+   */
+  analysisMaxEvents?: number;
+}
+
+/**
+ * 検証する proof の読み口 (ADR-0039)。検証は `openStream` の events を 1 件ずつ読み、
+ * proof 全体は events が分析の上限以下のときだけ `load` で読む。
+ */
+export interface ProofReader {
+  /** ヘッダと events の stream を開く。events は 1 回だけ先頭から回せる。 */
+  openStream(): Promise<ProofEventStream>;
+  /** proof 全体を読み込む (分析用)。`migrateProof` を通した形で返す。 */
+  load(): Promise<MigratedProof>;
 }
 
-export async function verifyProof(proof: ProofFile, options: VerifyProofOptions = {}): Promise<CLIVerificationResult> {
+/** 検証が events を読むついでに数える統計 (表示・プロセス要約用。判定には使わない)。 */
+interface EventTally {
+  pasteEvents: number;
+  dropEvents: number;
+  poswIterations?: number;
+  process: ProcessSummaryAccumulator;
+}
+
+async function* tallyEvents(
+  events: AsyncIterable<unknown> | Iterable<unknown>,
+  tally: EventTally
+): AsyncGenerator<unknown> {
+  for await (const event of events) {
+    // 壊れた event は検証 (verifyProofStream) が弾く。統計は object の event だけ数える。
+    if (event && typeof event === 'object') {
+      const e = event as StoredEvent;
+      if (e.inputType === 'insertFromPaste') tally.pasteEvents++;
+      if (e.inputType === 'insertFromDrop') tally.dropEvents++;
+      if (tally.poswIterations === undefined && e.posw) tally.poswIterations = e.posw.iterations;
+      tally.process.add(e);
+    }
+    yield event;
+  }
+}
+
+/**
+ * メモリ上の proof を検証する (`verifyProofSource` の配列版)。proof は読み込み済みなので、既定では
+ * events 数に関係なく分析まで行う。読み込んだままの proof を `migrateProof` で現行の形にそろえてから
+ * 検証する (対応しない format version は throw)。
+ */
+export async function verifyProof(
+  loaded: LegacyProofFile,
+  options: VerifyProofOptions = {}
+): Promise<CLIVerificationResult> {
+  const { proof } = migrateProof(loaded);
+  return verifyProofSource(
+    { openStream: async () => toProofEventStream(proof), load: async () => proof },
+    { ...options, analysisMaxEvents: options.analysisMaxEvents ?? Number.POSITIVE_INFINITY }
+  );
+}
+
+/**
+ * events を 1 件ずつ読みながら proof を検証する (ADR-0039)。
+ *
+ * 手順は verify (web) の `runProofStreamVerification` と同じ: exam 束縛 → `verifyProofStream` →
+ * 分析 (advisory)。paste/drop 数・PoSW 反復数・プロセス要約は検証が events を読むついでに数える。
+ * 分析・証拠位置・改竄推定は events 全体を使うので、events が `analysisMaxEvents` 以下のときだけ
+ * 検証の後で `reader.load()` を呼ぶ。超えた proof は proof 全体を一度もメモリに持たない。
+ */
+export async function verifyProofSource(
+  reader: ProofReader,
+  options: VerifyProofOptions = {}
+): Promise<CLIVerificationResult> {
   const mode: VerificationMode = options.mode ?? 'full';
   const startTime = performance.now();
-  const events = proof.proof.events;
-  const eventCount = events.length;
+  const stream = await reader.openStream();
+  const { header, eventCount } = stream;
 
   // Setup progress bar
-  console.log('');
-  const progressBar = new ProgressBar(eventCount, 'Verifying');
+  const progressBar = options.quiet ? undefined : new ProgressBar(eventCount, 'Verifying');
+  if (progressBar) console.log('');
 
-  const onProgress: VerificationProgressCallback = (current) => {
-    progressBar.update(current);
-  };
+  const onProgress: VerificationProgressCallback | undefined = progressBar
+    ? (current) => {
+        progressBar.update(current);
+      }
+    : undefined;
 
   // 試験モード (ADR-0006): exam ブロックがあれば束縛を先に検証する。
-  // root アンカー gate (#131) の exam 免除は「検証済み束縛」に基づくため verifyProofFile より前に計算する。
+  // root アンカー gate (#131) の exam 免除は「検証済み束縛」に基づくため 検証より前に計算する。
   const binding =
-    proof.exam && options.examPackageManifest
-      ? await verifyExamBinding(proof, options.examPackageManifest, {
+    header.exam && options.examPackageManifest
+      ? await verifyExamBinding(header, options.examPackageManifest, {
           examAuthorityRegistry: EXAM_AUTHORITY_KEYS,
           submissionTimeMs: options.submittedAtMs,
         })
       : undefined;
 
-  // Run verification using shared utilities
-  const result = await verifyProofFile(proof, onProgress, {
+  // Run verification using shared utilities。検証は events を 1 件ずつ流すストリーム検証 (ADR-0039)。
+  const tally: EventTally = { pasteEvents: 0, dropEvents: 0, process: new ProcessSummaryAccumulator() };
+  const tallied: ProofEventStream = { ...stream, events: stream.events && tallyEvents(stream.events, tally) };
+  const result = await verifyProofStream(tallied, onProgress, {
     mode,
+    auditConfidence: options.auditConfidence,
     requireAnchorDensity: options.requireAnchorDensity,
     requireRootAnchor: options.requireRootAnchor,
     // 免除は検証済み束縛のみ。package 未提供 (binding=undefined) の exam proof は gate 対象。
     examBindingVerified: binding?.valid === true,
     signedCheckpointKeyRegistry: options.signedCheckpointKeyRegistry,
+    tsaRootCertificates: options.tsaRootCertificates,
+    submissionReceipt: options.submissionReceipt ?? undefined,
   });
 
-  progressBar.complete();
+  progressBar?.complete();
 
   // 分析層 (ADR-0009): 検証と直交する post-hoc 分析。既定の分析器は方向性を示す
   // プレースホルダのみ。advisory であって判定ではない (verifyProofFile の valid とは別軸)。
   // options.analyzers が渡れば (採点者/研究者の外部アナライザ) それを使う。未指定なら shared 既定。
-  const analysis = await runAnalysis({ proof, verification: result }, options.analyzers);
+  // 大きな proof は読み込まない (ADR-0039)。省いたことは analysisSkipped で出力に出す。
+  const analysisSkipped = eventCount > (options.analysisMaxEvents ?? ANALYSIS_MAX_EVENTS);
+  const proof = analysisSkipped ? null : await reader.load();
+  const analysis = proof ? await runAnalysis({ proof, verification: result }, options.analyzers) : undefined;
 
   // 試験モード (ADR-0006): root 束縛は proof 自己完結 (verifyProofFile が rootValid で検証済み)。
   // package が渡されたときのみ署名/復号/内容まで完全検証する (binding は上で計算済み)。
   let exam: CLIExamResult | undefined;
-  if (proof.exam) {
+  if (header.exam) {
     exam = {
       present: true,
-      examId: proof.exam.examId,
-      problemId: proof.exam.problemId,
-      variant: proof.exam.variant,
+      examId: header.exam.examId,
+      problemId: header.exam.problemId,
+      variant: header.exam.variant,
       packageProvided: !!options.examPackageManifest,
       rootBindingValid: result.rootValid ?? false,
       binding,
     };
   }
 
-  // Calculate statistics
-  const pasteEvents = events.filter((e) => e.inputType === 'insertFromPaste').length;
-  const dropEvents = events.filter((e) => e.inputType === 'insertFromDrop').length;
-
-  const firstPoswEvent = events.find((e) => e.posw);
-  const poswIterations = firstPoswEvent?.posw?.iterations;
-
   const duration = (performance.now() - startTime) / 1000;
 
   // package が渡されたとき、束縛失敗は全体を fail にする (proof 自己整合とは別軸の真正性)。
@@ -189,7 +328,7 @@ export async function verifyProof(proof: ProofFile, options: VerifyProofOptions
           bindingValid: exam.binding?.valid,
         }
       : undefined,
-    rootAnchored: result.rootAnchored ?? false,
+    rootAnchored: result.rootAnchored,
     signedCheckpoints: result.signedCheckpoints
       ? {
           anchored: result.signedCheckpoints.anchored,
@@ -199,34 +338,79 @@ export async function verifyProof(proof: ProofFile, options: VerifyProofOptions
         }
       : undefined,
     isPureTyping: result.isPureTyping,
-    analysis: summarizeAnalysisForAssurance(analysis),
+    analysis: analysis ? summarizeAnalysisForAssurance(analysis) : undefined,
     // #147: ZIP 入力で検査したときのみ渡す (undefined = 未検査は integrity に影響しない)。
     screenshotsTampered: options.screenshotSummary?.tampered,
     // #214: fast モードは PoSW を再計算していないので integrity を proven に上げない。
     poswSkipped: result.poswSkipped ?? false,
+    // ADR-0034: audit で標本だけ再計算した (全件を覆っていない) なら proven ではなく sampled。
+    poswSampled: !!result.poswAudit && result.poswAudit.sampleSize < result.poswAudit.population,
+    // ADR-0042: サーバ証拠の無い proof で、申告 timestamp が較正した PoSW 速度と矛盾しないか。
+    poswTiming: result.poswTiming?.status,
   });
 
+  const processSummary = tally.process.result();
+  const verificationPassed = result.valid && examValid && screenshotsValid;
+
+  // ゲートポリシー (ADR-0036): 検証と三層保証を出し終えた後段で、その事実に当てはめるだけ。
+  // 検証そのもの (assurance を含む) は変えない。
+  let policy: CLIPolicyResult | undefined;
+  if (options.policy) {
+    const evaluation = evaluateGatePolicy(
+      options.policy.policy,
+      gatePolicyFacts({
+        assurance,
+        screenshots: options.screenshotSummary,
+        exam: exam ? { packageProvided: exam.packageProvided, binding: exam.binding } : undefined,
+        processSummary,
+        rootAnchored: result.rootAnchored,
+        anchorsSparse: result.signedCheckpoints?.density?.sparse,
+        poswTiming: result.poswTiming?.status,
+      })
+    );
+    policy = {
+      source: options.policy.source,
+      ...(options.policy.policy.name !== undefined ? { name: options.policy.policy.name } : {}),
+      sha256: options.policy.sha256,
+      verificationPassed,
+      ...evaluation,
+    };
+  }
+
   return {
-    valid: result.valid && examValid && screenshotsValid,
+    valid: verificationPassed && policy?.outcome !== 'fail',
     metadataValid: result.metadataValid,
     chainValid: result.chainValid,
     isPureTyping: result.isPureTyping,
     eventCount,
     duration,
-    pasteEvents,
-    dropEvents,
-    poswIterations,
+    pasteEvents: tally.pasteEvents,
+    dropEvents: tally.dropEvents,
+    poswIterations: tally.poswIterations,
     errorAt: result.errorAt,
     errorMessage: result.errorMessage,
-    language: proof.language,
+    language: header.language,
     mode,
     poswSkipped: result.poswSkipped ?? false,
+    poswAudit: result.poswAudit,
     signedCheckpoints: result.signedCheckpoints,
-    rootAnchored: result.rootAnchored ?? false,
+    rootAnchored: result.rootAnchored,
+    poswTiming: result.poswTiming,
     analysis,
+    analysisSkipped: analysisSkipped || undefined,
     assurance,
-    processSummary: summarizeProcess(events),
+    processSummary,
     exam,
     screenshots: options.screenshotSummary,
+    sourceFilename: typeof header.filename === 'string' ? header.filename : undefined,
+    deviceId: typeof header.typingProofData?.deviceId === 'string' ? header.typingProofData.deviceId : undefined,
+    evidenceLocations:
+      proof && analysis && options.locateEvidence ? locateEvidence(proof.proof.events, analysis.signals) : undefined,
+    policy,
+    tamperForensics:
+      proof && shouldAnalyzeTampering(result)
+        ? await analyzeTampering(proof, mode === 'fast' ? { poswBudget: 0 } : {})
+        : undefined,
+    submissionReceipt: result.submissionReceipt,
   };
 }
@@ -0,0 +1,186 @@
+/**
+ * `--watch <dir>`: 提出フォルダ (ドロップフォルダ) を見張り、届いた proof をその場で検証する。
+ *
+ * 試験中、提出物は共有フォルダへ十数分かけて届く。全員分が揃ってからバッチ検証すると、
+ * 問題パッケージの取り違えやタブの欠けに気付くのは学生が退室した後になる。ここでは web の
+ * `FolderSyncManager` と同じポーリング方式でフォルダを見張り、新規・変更された `.zip` / `.json` を
+ * バッチ検証と同じ設定 (`--exam-package` / `--policy` 等) で検証して、一覧表を更新し続ける。
+ *
+ * - 書き込み途中のファイルを検証しないよう、2 回続けて同じ (size, mtime) だったファイルだけを拾う。
+ * - 各入力の結果は隣に `<入力名>.verify.json` (`verify-report/1`) として書く。この接尾辞の JSON は
+ *   入力として拾わない (load.ts の `isSupportedProofPath`)。
+ * - 判定はバッチ検証そのもの (batch.ts → verify.ts → shared)。ここは見張りと書き出しだけを担う。
+ */
+
+import { readdir, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { batchPassed, verifyBatch, type BatchFileResult, type BatchSettings } from './batch.js';
+import { isSupportedProofPath, VERIFY_RESULT_SUFFIX } from './load.js';
+import { formatReport, toResultRecords } from './report.js';
+import { formatBatchProgress, formatBatchSummary, formatWatchChanges } from './output.js';
+
+/** 既定のポーリング間隔 (web の FolderSyncManager と同じ 3 秒)。 */
+export const WATCH_POLL_INTERVAL_MS = 3000;
+
+/** ファイルの版。どちらかが変われば「変更された」とみなす。 */
+export interface FileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+/** ファイル名 → 版。ドロップフォルダ直下の検証対象だけを持つ。 */
+export type DropFolderSnapshot = ReadonlyMap<string, FileStamp>;
+
+function sameStamp(a: FileStamp | undefined, b: FileStamp | undefined): boolean {
+  return a !== undefined && b !== undefined && a.size === b.size && a.mtimeMs === b.mtimeMs;
+}
+
+/**
+ * ドロップフォルダ直下の `.zip` / `.json` / `.tcproof` の版を取る (非再帰。バッチ検証の `expandInputs` と同じ範囲)。
+ * 走査中に消えたファイルは黙って飛ばす (次の走査で「削除」として拾われる)。
+ */
+export async function scanDropFolder(dir: string): Promise<Map<string, FileStamp>> {
+  const snapshot = new Map<string, FileStamp>();
+  const names = (await readdir(dir, { withFileTypes: true }))
+    .filter((d) => d.isFile() && isSupportedProofPath(d.name))
+    .map((d) => d.name)
+    .sort();
+  for (const name of names) {
+    try {
+      const s = await stat(join(dir, name));
+      snapshot.set(name, { size: s.size, mtimeMs: s.mtimeMs });
+    } catch {
+      // 走査と stat の間に消えた
+    }
+  }
+  return snapshot;
+}
+
+/** 1 回のポーリングで拾うもの。 */
+export interface DropFolderChanges {
+  /** 検証に回すファイル (初めて見たもの)。 */
+  added: string[];
+  /** 検証に回すファイル (前回の検証から版が変わったもの)。 */
+  modified: string[];
+  /** 検証済みだったが消えたファイル (一覧表から外す)。 */
+  removed: string[];
+}
+
+/**
+ * 前回と今回の走査、検証済みの版から、今回検証するファイルを決める (純関数)。
+ *
+ * 書き込み途中のファイルを拾わないよう、前回の走査と今回の走査で版が同じ (= 書き込みが止まった)
+ * ものだけを対象にする。コピーに 1 ポーリング以上かかるファイルは、落ち着くまで待たされる。
+ */
+export function pickSettledChanges(
+  previous: DropFolderSnapshot,
+  current: DropFolderSnapshot,
+  verified: DropFolderSnapshot
+): DropFolderChanges {
+  const added: string[] = [];
+  const modified: string[] = [];
+  for (const [name, stamp] of current) {
+    if (!sameStamp(previous.get(name), stamp)) continue;
+    const done = verified.get(name);
+    if (done === undefined) added.push(name);
+    else if (!sameStamp(done, stamp)) modified.push(name);
+  }
+  const removed = [...verified.keys()].filter((name) => !current.has(name));
+  return { added, modified, removed };
+}
+
+/** 入力 1 つの結果 JSON のパス (`alice.zip` → `alice.zip.verify.json`)。 */
+export function watchResultPath(filePath: string): string {
+  return `${filePath}${VERIFY_RESULT_SUFFIX}`;
+}
+
+export interface WatchOptions {
+  /** 検証ワーカー数 (`--jobs`)。 */
+  jobs: number;
+  intervalMs?: number;
+  /** 中断 (Ctrl-C) で見張りを止める。 */
+  signal: AbortSignal;
+  /** 状態表示 (進捗・書き出しの失敗など)。 */
+  status: (message: string) => void;
+  /** 一覧表を出し直した直後に呼ぶ (名簿突合の表示など)。 */
+  onUpdate?: (files: BatchFileResult[]) => void;
+}
+
+/**
+ * ドロップフォルダを `signal` が中断されるまで見張る。戻り値は最後の時点の一覧表の合否
+ * (バッチ検証と同じく、1 件でも fail / 読込エラーなら false)。一覧表が空なら false。
+ */
+export async function watchDropFolder(
+  dir: string,
+  settings: BatchSettings,
+  options: WatchOptions
+): Promise<{ passed: boolean; files: BatchFileResult[] }> {
+  const intervalMs = options.intervalMs ?? WATCH_POLL_INTERVAL_MS;
+  const latest = new Map<string, BatchFileResult>();
+  const verified = new Map<string, FileStamp>();
+  let previous: DropFolderSnapshot = new Map();
+  const table = () => [...latest.keys()].sort().map((name) => latest.get(name)!);
+
+  while (!options.signal.aborted) {
+    const current = await scanDropFolder(dir);
+    const changes = pickSettledChanges(previous, current, verified);
+    previous = current;
+
+    for (const name of changes.removed) {
+      latest.delete(name);
+      verified.delete(name);
+    }
+    const ready = [...changes.added, ...changes.modified];
+    if (ready.length > 0) {
+      console.log(formatWatchChanges(changes, new Date()));
+      const tasks = ready.map((name) => ({ filePath: join(dir, name), displayName: name }));
+      const results = await verifyBatch(tasks, settings, options.jobs, (r, done, total) => {
+        options.status(formatBatchProgress(r, done, total));
+      });
+      // Ctrl-C は端末のプロセスグループごと届くので、検証中のワーカーも落ちている。
+      // その回の結果 (読込エラー扱い) は記録も書き出しもしない。
+      if (options.signal.aborted) break;
+      for (const [i, result] of results.entries()) {
+        const name = ready[i]!;
+        latest.set(name, result);
+        verified.set(name, current.get(name)!);
+        await writeResultFile(join(dir, name), result, settings, options.status);
+      }
+      console.log(formatBatchSummary(table()));
+      options.onUpdate?.(table());
+    } else if (changes.removed.length > 0) {
+      console.log(formatWatchChanges(changes, new Date()));
+      console.log(formatBatchSummary(table()));
+      options.onUpdate?.(table());
+    }
+
+    try {
+      await sleep(intervalMs, undefined, { signal: options.signal });
+    } catch {
+      // 中断
+    }
+  }
+
+  const files = table();
+  return { passed: files.length > 0 && batchPassed(files), files };
+}
+
+/** 入力の隣に結果 JSON を書く。書けなくても (読み取り専用の共有など) 見張りは続ける。 */
+async function writeResultFile(
+  filePath: string,
+  result: BatchFileResult,
+  settings: BatchSettings,
+  status: (message: string) => void
+): Promise<void> {
+  const records = toResultRecords(result.source, result.proofs, result.error);
+  try {
+    await writeFile(
+      watchResultPath(filePath),
+      formatReport('json', records, batchPassed([result]), settings.policy),
+      'utf-8'
+    );
+  } catch (err) {
+    status(`Cannot write ${watchResultPath(filePath)}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * 最小のワーカープール (node:child_process の fork)。
+ *
+ * PoSW 再計算は CPU 律速で proof 間に依存が無いので、バッチ検証では proof ファイル単位で
+ * ワーカーへ振り分けて並列化する。プールは「タスクを投げて結果の Promise を受け取る」だけを担い、
+ * 何を計算するかはワーカー側モジュール (batchWorker.ts) が決める。
+ *
+ * worker_threads ではなく子プロセスなのは、tsx 実行 (`tsx src/cli.ts`、E2E の起動経路) で
+ * ローダーが worker スレッドに載らず `.js` → `.ts` の解決に失敗するため。fork は親の execArgv
+ * (tsx の --import) をそのまま引き継ぐので、dist 実行と tsx 実行の両方で同じに動く。
+ *
+ * ワーカーとのメッセージ契約 (IPC, serialization: 'advanced' = structured clone):
+ *   main → worker: { type: 'init', data } を最初に 1 回、以降 { id, task }
+ *   worker → main: { id, ok: true, result } | { id, ok: false, error }
+ */
+
+import { fork, type ChildProcess } from 'node:child_process';
+
+/** ワーカーからの応答。 */
+export type WorkerReply<TResult> = { id: number; ok: true; result: TResult } | { id: number; ok: false; error: string };
+
+/** ワーカーへのメッセージ。 */
+export type WorkerMessage<TTask> = { type: 'init'; data: unknown } | { type: 'task'; id: number; task: TTask };
+
+interface PendingTask<TTask, TResult> {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class WorkerPool<TTask, TResult> {
+  private readonly idle: ChildProcess[] = [];
+  private readonly running = new Map<ChildProcess, PendingTask<TTask, TResult>>();
+  private readonly queue: PendingTask<TTask, TResult>[] = [];
+  private readonly workers: ChildProcess[] = [];
+  private nextId = 0;
+  private closing = false;
+
+  /**
+   * @param workerUrl ワーカーのエントリモジュール
+   * @param size ワーカー数 (1 以上に丸める)
+   * @param initData 全ワーカー共通の初期化データ (structured clone 可能であること)
+   */
+  constructor(workerUrl: URL, size: number, initData: unknown) {
+    const count = Math.max(1, Math.floor(size));
+    for (let i = 0; i < count; i++) {
+      const worker = fork(workerUrl, { serialization: 'advanced' });
+      worker.on('message', (reply: WorkerReply<TResult>) => this.onReply(worker, reply));
+      worker.on('exit', (code, signal) => this.onWorkerExit(worker, `code ${code ?? signal}`));
+      worker.on('error', (err) => this.onWorkerExit(worker, err.message));
+      worker.send({ type: 'init', data: initData } satisfies WorkerMessage<TTask>);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /** タスクを投入する。空いているワーカーがあれば即座に、無ければ FIFO で待つ。 */
+  run(task: TTask): Promise<TResult> {
+    return new Promise<TResult>((resolve, reject) => {
+      if (this.workers.length === 0) {
+        reject(new Error('No verification workers available'));
+        return;
+      }
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /** すべてのワーカーを終了する。実行中のタスクは待たない (呼び出し側が run の完了を待ってから呼ぶ)。 */
+  async close(): Promise<void> {
+    this.closing = true;
+    await Promise.all(
+      this.workers.map(
+        (w) =>
+          new Promise<void>((resolve) => {
+            if (w.exitCode !== null || w.signalCode !== null) {
+              resolve();
+              return;
+            }
+            w.once('exit', () => resolve());
+            w.kill();
+          })
+      )
+    );
+    this.workers.length = 0;
+    this.idle.length = 0;
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      worker.send({ type: 'task', id: pending.id, task: pending.task } satisfies WorkerMessage<TTask>);
+    }
+  }
+
+  private onReply(worker: ChildProcess, reply: WorkerReply<TResult>): void {
+    const pending = this.running.get(worker);
+    if (!pending || pending.id !== reply.id) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if (reply.ok) pending.resolve(reply.result);
+    else pending.reject(new Error(reply.error));
+    this.dispatch();
+  }
+
+  /** ワーカーが落ちたら実行中タスクを失敗させ、そのワーカーはプールから外す。 */
+  private onWorkerExit(worker: ChildProcess, reason: string): void {
+    if (this.closing) return;
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) this.idle.splice(idleIndex, 1);
+    const pending = this.running.get(worker);
+    this.running.delete(worker);
+    pending?.reject(new Error(`Verification worker exited (${reason})`));
+    if (this.workers.length === 0) {
+      // 残りのタスクを処理できるワーカーが無い — 黙って待たせず全部失敗させる。
+      for (const queued of this.queue.splice(0)) {
+        queued.reject(new Error(`All verification workers exited (${reason})`));
+      }
+    }
+  }
+}
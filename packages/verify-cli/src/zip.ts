@@ -9,8 +9,15 @@ import {
   extractFirstProofFromZip,
   extractAllProofsFromZip,
   extractScreenshotArtifactsFromZip,
+  collectChainImageHashes,
+  summarizeScreenshotArtifacts,
+  extractSubmissionReceiptFromZip,
   type ProofFile,
+  type SubmissionReceipt,
+  type ScreenshotVerificationSummary,
+  type StoredEvent,
 } from '@typedcode/shared';
+import type { ProofReader } from './verify.js';
 
 function toArrayBuffer(buffer: Buffer): ArrayBuffer {
   return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
@@ -22,6 +29,14 @@ export async function extractProofFromZip(filePath: string): Promise<ProofFile>
   return proof as ProofFile;
 }
 
+/**
+ * ZIP 直下の提出レシート (ADR-0047)。無ければ null、壊れていれば throw (ZIP の読み込み失敗と同じ扱い)。
+ */
+export async function extractSubmissionReceipt(filePath: string): Promise<SubmissionReceipt | null> {
+  const arrayBuffer = toArrayBuffer(await readFile(filePath));
+  return extractSubmissionReceiptFromZip(arrayBuffer);
+}
+
 /**
  * ZIP 内の **すべて** の proof JSON を返す (exam/class はタブ毎に N 個出力されるため)。
  * grader は全件を検証して初めて exit 0 にできる。
@@ -43,3 +58,33 @@ export async function extractScreenshotArtifacts(filePath: string): Promise<{
   const arrayBuffer = toArrayBuffer(await readFile(filePath));
   return extractScreenshotArtifactsFromZip(arrayBuffer);
 }
+
+/**
+ * ZIP のスクリーンショット検証サマリ (#147)。スクショはセッション単位で proof 横断なので
+ * ZIP ごとに一度だけ計算して全 proof に渡す。真正記録は各チェーンの screenshotCapture.imageHash。
+ * スクショ無しセッション (manifest もチェーン記録も無し) は全ゼロの summary になる
+ * (undefined は「検査できない」= JSON 単体入力の意味に限定する)。
+ *
+ * チェーンの imageHash は events を stream で読んで集める (ADR-0039)。持つのは screenshotCapture だけ。
+ */
+export async function summarizeZipScreenshots(
+  filePath: string,
+  proofs: ReadonlyArray<ProofReader>
+): Promise<ScreenshotVerificationSummary> {
+  const captures: StoredEvent[][] = [];
+  for (const proof of proofs) {
+    const { events } = await proof.openStream();
+    const found: StoredEvent[] = [];
+    for await (const event of events ?? []) {
+      if ((event as StoredEvent | null)?.type === 'screenshotCapture') found.push(event as StoredEvent);
+    }
+    captures.push(found);
+  }
+  const chainImageHashes = collectChainImageHashes(captures);
+  const artifacts = await extractScreenshotArtifacts(filePath);
+  return summarizeScreenshotArtifacts({
+    entries: artifacts?.entries ?? [],
+    getImageBytes: async (filename) => artifacts?.images.get(filename) ?? null,
+    chainImageHashes,
+  });
+}
@@ -9,6 +9,7 @@ import {
   escapeHtml,
   type StoredEvent,
   type TemplateInjectionEventData,
+  type SessionContinuedEventData,
   type ProcessKeyMoment,
 } from '@typedcode/shared';
 import type { ContentCache } from '../types.js';
@@ -493,6 +494,9 @@ export class SeekbarController {
         } else if (event.type === 'templateInjection') {
           // テンプレート注入: コンテンツを置き換え
           content = this.applyTemplateInjection(event);
+        } else if (event.type === 'sessionContinued') {
+          // 前の proof からの継続 (ADR-0041): 前の proof の最終内容で置き換え
+          content = this.applySessionContinued(event, content);
         }
       }
     }
@@ -515,6 +519,8 @@ export class SeekbarController {
         content = this.applyContentChange(content, event);
       } else if (event.type === 'templateInjection') {
         content = this.applyTemplateInjection(event);
+      } else if (event.type === 'sessionContinued') {
+        content = this.applySessionContinued(event, content);
       }
     }
     return content;
@@ -576,6 +582,14 @@ export class SeekbarController {
     return '';
   }
 
+  /**
+   * 前の proof からの継続 (ADR-0041) を適用（前の proof の最終内容で置き換え）
+   */
+  private applySessionContinued(event: StoredEvent, content: string): string {
+    const data = event.data as SessionContinuedEventData | null;
+    return data && typeof data === 'object' && typeof data.content === 'string' ? data.content : content;
+  }
+
   /**
    * 現在のインデックスを取得
    */
@@ -31,6 +31,9 @@ export const en: VerifyTranslationKeys = {
     menu: 'Menu',
     openFile: 'Open File',
     openFolder: 'Open Folder',
+    compareProofs: 'Compare Proofs',
+    exportAnalysisBundle: 'Export Analysis Only (no code)',
+    exportRedactedBundle: 'Export Analysis + Unverified Redacted Events (ZIP)',
     explorer: 'Explorer',
     settings: 'Settings',
     themeToggle: 'Toggle Theme',
@@ -45,6 +48,8 @@ export const en: VerifyTranslationKeys = {
     emptyMessage: 'Files will appear here\nwhen loaded',
     removeFile: 'Remove',
     removeFolder: 'Remove Folder',
+    compareFolder: 'Compare Submissions in Folder',
+    rosterFolder: 'Reconcile Folder with Roster',
     removeConfirm: 'Remove "${filename}" from the list?',
   },
 
@@ -52,7 +57,7 @@ export const en: VerifyTranslationKeys = {
     title: 'TypedCode Verify',
     subtitle: 'Verify typing proofs',
     dropText: 'Drop proof files here',
-    dropHint: 'JSON or ZIP files',
+    dropHint: 'JSON, TCPROOF or ZIP files',
     browseButton: 'Browse Files',
     shortcutOpen: 'Open File',
   },
@@ -130,6 +135,9 @@ export const en: VerifyTranslationKeys = {
     anchoringNone: 'No signed checkpoints',
     anchoringPostHoc: '⚠ Post-hoc batch signing suspected (server span / client span unusually small)',
     anchoringSparse: '⚠ Anchoring is sparse (few/late signed checkpoints for the claimed session)',
+    anchoringReceipt: 'Submission receipt',
+    anchoringReceiptVerified: '✓ Received by the server at ${time} (receipt ${id})',
+    anchoringReceiptInvalid: '✗ ${reason}',
     // Expanded details section
     anchoringDetailsToggle: 'Show verification basis',
     anchoringSectionKeys: 'Signing key',
@@ -149,6 +157,7 @@ export const en: VerifyTranslationKeys = {
     anchoringFirstSeenAt: 'Session first seen (server)',
     anchoringInitialChainHash: 'Initial chain hash (proof root)',
     anchoringFirstAnchor: 'First anchor',
+    anchoringTimestampAuthorities: 'Timestamp authorities (RFC 3161)',
     anchoringLastAnchor: 'Last anchor',
     anchoringAnchorAt: 'cp #{cpIdx} / event {eventIdx}',
     anchoringAnchorTimestamp: 'server {server} / client {client}',
@@ -219,6 +228,24 @@ export const en: VerifyTranslationKeys = {
       verifiedEvents: 'Verified: ${count}',
       sampledSegments: 'Sampled segments: ${count}/${total}',
     },
+    tamperForensics: {
+      header: 'Tamper Forensics (advisory)',
+      none: 'No known tampering pattern recognized (see the error details above)',
+      event: 'Event ${index}',
+      eventRange: 'Events ${from} - ${to}',
+      outsideEvents: 'Outside the events',
+      evidence: 'Evidence: ${list}',
+      kinds: {
+        'event-inserted': 'Event Inserted',
+        'event-deleted': 'Event Deleted',
+        'events-reordered': 'Events Reordered',
+        'event-data-edited': 'Event Data Edited',
+        'chain-regenerated': 'Chain Regenerated',
+        'final-content-swapped': 'Final Content Swapped',
+        'checkpoints-rewritten': 'Checkpoint Rewritten',
+        'proof-metadata-edited': 'Proof Metadata Edited',
+      },
+    },
   },
 
   posw: {
@@ -349,6 +376,8 @@ export const en: VerifyTranslationKeys = {
       templateInjection: 'Template Injection',
       copyOperation: 'Copy Operation',
       sessionResumed: 'Session Resumed',
+      sessionContinued: 'Session Continued',
+      poswCalibration: 'PoSW Calibration',
     },
   },
 
@@ -375,6 +404,8 @@ export const en: VerifyTranslationKeys = {
     issueSessionTokenMismatch:
       'Session start token does not match the signed checkpoint session id (token from another session suspected)',
     issueRootNotAnchored: 'Chain root is not server-anchored (start time unfixed; offline forgery possible)',
+    issuePoswTimingInconsistent: 'Claimed timestamps advance faster than the calibrated PoSW rate allows',
+    issuePoswTimingImplausible: 'PoSW calibration is malformed or claims an implausible rate',
     issueNotPureTyping: 'Not pure typing (paste / bulk insertion detected)',
     issueExamBindingFailed: 'Exam binding (signature / content hash) verification failed',
     issueExamUnverified: 'Problem package not loaded; authenticity unverified',
@@ -413,6 +444,15 @@ export const en: VerifyTranslationKeys = {
     kindLargestInsertion: 'Largest bulk insert',
     kindFocusBurst: 'Burst after refocus',
     kindExternalInput: 'External input',
+    seriesTitle: 'Continued sessions',
+    seriesMerged: 'Timeline of ${count} linked proofs (links and content continuity verified)',
+    seriesIncomplete: 'Continues a previous proof that is not loaded (showing this session only)',
+    seriesInvalid: 'The proof series does not verify (showing this session only)',
+    seriesPart: 'Part ${index}',
+    seriesLinkStart: 'first session',
+    seriesLinkLinked: 'linked',
+    seriesLinkBroken: 'link broken',
+    seriesPartInvalid: 'verification failed',
   },
 
   assurance: {
@@ -421,9 +461,12 @@ export const en: VerifyTranslationKeys = {
     provenance: 'Authorship',
     integrityProven: 'Proven',
     integrityPartial: 'Partly unverified (PoSW)',
+    integritySampled: 'Sampled (PoSW audit)',
     integrityFailed: 'Failed',
     temporalAnchored: 'Anchored',
     temporalPartial: 'Partial',
+    temporalPoswBounded: 'PoSW-consistent (offline)',
+    temporalPoswInconsistent: 'Contradicts its PoSW rate (offline)',
     temporalUnanchored: 'Unanchored',
     temporalExamT0: 'T0-bound (exam)',
     pureTypingYes: 'Pure typing',
@@ -434,6 +477,8 @@ export const en: VerifyTranslationKeys = {
     integrityHint: 'Has the record been tampered with — cryptographic verification (deterministic)',
     integrityPartialHint:
       'Verified in fast mode: no tampering was found, but the PoSW recompute was skipped (the declared PoSW values are consistent with the proof; whether 10,000 iterations were actually performed is unverified). Re-verify in full mode',
+    integritySampledHint:
+      'Verified in audit mode: no tampering was found, and the PoSW of a deterministic sample of events (chosen from the final hash) was recomputed and passed. This is a statistical guarantee, not a proof for every event. Re-verify in full mode for a complete recompute',
     temporalHint: 'When did the record exist — server signatures / exam T0 binding (deterministic)',
     provenanceHint: 'Does the typing look authored — advisory only, not a verdict. Final judgment is human',
     mode: {
@@ -459,11 +504,79 @@ export const en: VerifyTranslationKeys = {
     dimensionKeystrokeContent: 'Keystroke–content consistency',
     dimensionTranscriptionTopology: 'Construction shape (transcription/authoring)',
     dimensionFocusBurst: 'Focus-loss / burst correlation',
+    skipped: 'Analysis skipped',
+    skippedTooLarge:
+      'Process analysis was skipped because the proof has too many events. The verification result is not affected.',
     summary: {
       externalInput: 'External input present: ${paste} paste, ${drop} drop, ${bulk} bulk insertion(s)',
+      crossSubmissionSimilarity:
+        'Similar code: ${similarity}% normalized token overlap (${shared} shared 5-grams), ${identifiers} shared unusual identifier(s), ${order}% same construction order',
     },
   },
 
+  proofDiff: {
+    title: 'Proof diff',
+    notEnough: 'Open the proof to compare and at least one other proof',
+    identical: 'Identical event chains — the same proof exported again.',
+    root: 'Initial chain hash',
+    rootShared: 'Shared (same session)',
+    rootDifferent: 'Different',
+    sharedPrefix: 'Shared prefix',
+    events: '${count} events',
+    firstDivergence: 'First divergence',
+    sameEdits: 'Same edits up to',
+    contentDivergence: 'Content divergence',
+    contentDivergenceAt: '#${sequence} (line ${line}, column ${column})',
+    noContentDivergence: 'None — both replays produce the same document',
+    finalContent: 'Final content',
+    same: 'Identical',
+    different: 'Different',
+    regenerated: 'Same edits on a different chain: one proof may have been regenerated from the other.',
+    linkSeekbars: 'Move both seekbars together',
+    noEvents: 'No events at this position',
+    advisory: 'Advisory information — not a verdict. Check separately that each proof passes verification.',
+  },
+
+  redactedBundle: {
+    notVerified: 'Open a proof and wait for verification to finish before exporting',
+    exported: 'Exported ${filename} (no code or keystroke content)',
+    eventsConfirm:
+      'Redacted events are unverified metadata. Their types, times and lengths are not bound to the hashes, so recipients cannot check them. They also do not keep keystrokes confidential: short keystrokes can be brute-forced from the event hashes, which reveals the code. Only share them with people allowed to see the code. Export anyway?',
+    exportedWithEvents:
+      'Exported ${filename} (the redacted events are unverified metadata, and keystroke content can be recovered from them)',
+  },
+
+  similarity: {
+    title: 'Cross-submission similarity',
+    compared: '${count} compared (${pairs} pairs)',
+    advisory:
+      'Heuristic, advisory information — not a verdict. Short tasks and textbook solutions look alike when written independently. Compare both proofs at the evidence events.',
+    score: 'Similarity',
+    noPairs: 'No similar pairs',
+    notEnough: 'At least two proofs are needed to compare',
+  },
+
+  roster: {
+    title: 'Roster reconciliation',
+    summary: '${submitted}/${students} submitted, ${missing} missing, ${withIssues} with findings',
+    advisory:
+      'Administrative information only — it does not change any verification result. Submissions are matched to students by file name.',
+    student: 'Student',
+    submission: 'Submission',
+    findings: 'Findings',
+    ok: 'OK',
+    missing: 'Missing',
+    duplicate: '${count} submissions',
+    mismatch: '${field}: expected ${expected}, got ${actual} (${label})',
+    notExam: 'Not an exam proof (${label})',
+    outOfTimeBox: 'Outside the exam window (${detail})',
+    multipleDevices: 'Written on ${count} devices',
+    unmatched: 'Submissions with no roster entry: ${list}',
+    ambiguous: '${source} matches several students: ${students}',
+    invalid: 'Invalid roster: ${message}',
+    empty: 'No loaded proofs in this folder',
+  },
+
   pattern: {
     title: 'Typing Pattern',
     score: 'Score',
@@ -31,6 +31,9 @@ export const ja: VerifyTranslationKeys = {
     menu: 'メニュー',
     openFile: 'ファイルを開く',
     openFolder: 'フォルダを開く',
+    compareProofs: 'proof を比較',
+    exportAnalysisBundle: '分析のみ書き出す（コードを含まない）',
+    exportRedactedBundle: '分析 + 伏せ字の記録（未検証）を書き出す（ZIP）',
     explorer: 'エクスプローラー',
     settings: '設定',
     themeToggle: 'テーマ切替',
@@ -45,6 +48,8 @@ export const ja: VerifyTranslationKeys = {
     emptyMessage: 'ファイルを読み込むと\nここに表示されます',
     removeFile: '削除',
     removeFolder: 'フォルダを削除',
+    compareFolder: 'フォルダ内の提出物を比較',
+    rosterFolder: 'フォルダを名簿と突き合わせ',
     removeConfirm: '「${filename}」をリストから削除しますか？',
   },
 
@@ -52,7 +57,7 @@ export const ja: VerifyTranslationKeys = {
     title: 'TypedCode Verify',
     subtitle: 'タイピング証明を検証',
     dropText: '証明ファイルをドロップ',
-    dropHint: 'JSON または ZIP ファイル',
+    dropHint: 'JSON・TCPROOF・ZIP ファイル',
     browseButton: 'ファイルを選択',
     shortcutOpen: 'ファイルを開く',
   },
@@ -129,6 +134,9 @@ export const ja: VerifyTranslationKeys = {
     anchoringNone: '署名なし',
     anchoringPostHoc: '⚠ 後付け一括署名の疑い (server span / client span が極端に小さい)',
     anchoringSparse: '⚠ アンカー密度が疎です (署名チェックポイントが申告セッションに対し少ない/遅い)',
+    anchoringReceipt: '提出レシート',
+    anchoringReceiptVerified: '✓ ${time} にサーバが受領 (受領番号 ${id})',
+    anchoringReceiptInvalid: '✗ ${reason}',
     // 詳細展開セクション
     anchoringDetailsToggle: '検証の根拠を表示',
     anchoringSectionKeys: '署名鍵',
@@ -148,6 +156,7 @@ export const ja: VerifyTranslationKeys = {
     anchoringFirstSeenAt: 'セッション初確認 (server)',
     anchoringInitialChainHash: '初期チェーンハッシュ (proof root)',
     anchoringFirstAnchor: '最初のアンカー',
+    anchoringTimestampAuthorities: 'タイムスタンプ局 (RFC 3161)',
     anchoringLastAnchor: '最後のアンカー',
     anchoringAnchorAt: 'cp #{cpIdx} / event {eventIdx}',
     anchoringAnchorTimestamp: 'サーバ {server} / クライアント {client}',
@@ -218,6 +227,24 @@ export const ja: VerifyTranslationKeys = {
       verifiedEvents: '検証済み: ${count}件',
       sampledSegments: 'サンプリング区間: ${count}/${total}',
     },
+    tamperForensics: {
+      header: '改ざんの推定 (参考)',
+      none: '既知の改ざんのパターンには当てはまりません (上のエラー詳細を参照)',
+      event: 'イベント ${index}',
+      eventRange: 'イベント ${from} - ${to}',
+      outsideEvents: 'イベント外',
+      evidence: '根拠: ${list}',
+      kinds: {
+        'event-inserted': 'イベントの挿入',
+        'event-deleted': 'イベントの削除',
+        'events-reordered': 'イベントの並べ替え',
+        'event-data-edited': 'イベントの書き換え',
+        'chain-regenerated': 'チェーンの作り直し',
+        'final-content-swapped': '最終内容の差し替え',
+        'checkpoints-rewritten': 'チェックポイントの書き換え',
+        'proof-metadata-edited': 'メタデータの書き換え',
+      },
+    },
   },
 
   posw: {
@@ -348,6 +375,8 @@ export const ja: VerifyTranslationKeys = {
       templateInjection: 'テンプレート挿入',
       copyOperation: 'コピー操作',
       sessionResumed: 'セッション再開',
+      sessionContinued: '前の proof から継続',
+      poswCalibration: 'PoSW 速度の較正',
     },
   },
 
@@ -372,6 +401,8 @@ export const ja: VerifyTranslationKeys = {
     issueSessionTokenMismatch:
       'セッション開始トークンと署名チェックポイントのセッションIDが一致しません（別セッションのトークン流用の疑い）',
     issueRootNotAnchored: 'チェーン根がサーバアンカーされていません（開始時刻が未固定・オフライン捏造の余地）',
+    issuePoswTimingInconsistent: '申告タイムスタンプが較正した PoSW 速度では追いつけない速さで進んでいます',
+    issuePoswTimingImplausible: 'PoSW の較正値が壊れているか、あり得ない速度を申告しています',
     issueNotPureTyping: 'ピュアタイピングではありません（ペースト/バルク挿入あり）',
     issueExamBindingFailed: '問題束縛（署名/内容ハッシュ）の検証に失敗しました',
     issueExamUnverified: '問題パッケージ未読込のため真正性は未確認です',
@@ -410,6 +441,15 @@ export const ja: VerifyTranslationKeys = {
     kindLargestInsertion: '最大の一括挿入',
     kindFocusBurst: '復帰直後の大量入力',
     kindExternalInput: '外部入力',
+    seriesTitle: '継続したセッション',
+    seriesMerged: '${count} 件の proof をつないだ timeline (つながりと内容の連続性を検証済み)',
+    seriesIncomplete: '読み込まれていない前の proof の続きです (このセッションのみ表示)',
+    seriesInvalid: 'proof の列が検証に通りません (このセッションのみ表示)',
+    seriesPart: '${index} 件目',
+    seriesLinkStart: '最初のセッション',
+    seriesLinkLinked: 'つながりあり',
+    seriesLinkBroken: 'つながりなし',
+    seriesPartInvalid: '検証失敗',
   },
 
   assurance: {
@@ -418,9 +458,12 @@ export const ja: VerifyTranslationKeys = {
     provenance: '著述性',
     integrityProven: '証明済み',
     integrityPartial: '一部未検証 (PoSW)',
+    integritySampled: '標本検証済み (PoSW audit)',
     integrityFailed: '失敗',
     temporalAnchored: 'アンカー済み',
     temporalPartial: '部分的',
+    temporalPoswBounded: 'PoSW と整合 (オフライン)',
+    temporalPoswInconsistent: 'PoSW の速度と矛盾 (オフライン)',
     temporalUnanchored: '未アンカー',
     temporalExamT0: 'T0 束縛 (試験)',
     pureTypingYes: 'ピュアタイピング',
@@ -431,6 +474,8 @@ export const ja: VerifyTranslationKeys = {
     integrityHint: '記録が事後改変されていないか — 暗号検証 (決定的)',
     integrityPartialHint:
       'fast モードで検証しました。改ざんは検出されていませんが、PoSW の反復再計算はスキップしています（申告 PoSW 値が proof 全体と一貫していることまでは確認済み。実際に 10,000 回反復したかは未検証）。full モードで再検証してください',
+    integritySampledHint:
+      'audit モードで検証しました。改ざんは検出されておらず、最終ハッシュから決定的に選んだ標本 event の PoSW を再計算してすべて合格しています。全 event の証明ではなく統計的な保証です。全件の再計算は full モードで再検証してください',
     temporalHint: '記録がいつ存在したか — サーバ署名 / 試験 T0 束縛 (決定的)',
     provenanceHint: '打鍵が著述に見えるか — 参考情報であり判定ではありません。最終判断は人間が行います',
     mode: {
@@ -456,11 +501,76 @@ export const ja: VerifyTranslationKeys = {
     dimensionKeystrokeContent: '打鍵と内容の整合',
     dimensionTranscriptionTopology: '構築の形 (転写/著述)',
     dimensionFocusBurst: '離脱とバーストの相関',
+    skipped: '分析を省略',
+    skippedTooLarge: 'イベントが多いため、プロセス分析を省きました。検証の結果には影響しません。',
     summary: {
       externalInput: '外部入力あり: ペースト ${paste} 件 / ドロップ ${drop} 件 / 複数行一括投入 ${bulk} 件',
+      crossSubmissionSimilarity:
+        '類似コード: 正規化トークン一致 ${similarity}% (共有 5-gram ${shared} 件)、珍しい識別子の共有 ${identifiers} 件、構築順序の一致 ${order}%',
     },
   },
 
+  proofDiff: {
+    title: 'proof の差分',
+    notEnough: '比べる proof を表示し、ほかに proof を 1 つ以上読み込んでください',
+    identical: 'event の列が同一です（同じ proof を書き出し直したもの）。',
+    root: '初期チェーンハッシュ',
+    rootShared: '共通（同じセッション）',
+    rootDifferent: '異なる',
+    sharedPrefix: '共通の先頭',
+    events: '${count} 件',
+    firstDivergence: '最初の食い違い',
+    sameEdits: '編集内容が一致する範囲',
+    contentDivergence: '内容の食い違い',
+    contentDivergenceAt: '#${sequence}（${line} 行 ${column} 列）',
+    noContentDivergence: 'なし（どちらも同じ文書になる）',
+    finalContent: '最終内容',
+    same: '同一',
+    different: '異なる',
+    regenerated: 'チェーンが異なるのに編集内容が一致します。一方の proof がもう一方から作り直された可能性があります。',
+    linkSeekbars: 'シークバーを連動',
+    noEvents: 'この位置に event はありません',
+    advisory: '参考情報であり判定ではありません。それぞれの proof が検証に通るかは別に確かめてください。',
+  },
+
+  redactedBundle: {
+    notVerified: '書き出すには proof を開き、検証が終わるまで待ってください',
+    exported: '${filename} を書き出しました（コードと打鍵の中身は含みません）',
+    eventsConfirm:
+      '伏せ字の記録は未検証のメタデータです。記録の種類・時刻・長さは hash に束縛されないため、受け取った側は本物か確かめられません。また打鍵の中身も秘匿しません。短い打鍵は記録の hash から総当たりで復元でき、コードの内容も分かります。コードを見せてよい相手にだけ渡してください。書き出しますか？',
+    exportedWithEvents: '${filename} を書き出しました（伏せ字の記録は未検証のメタデータで、打鍵の中身を復元できます）',
+  },
+
+  similarity: {
+    title: '提出物間の類似',
+    compared: '${count} 件を比較 (${pairs} 組)',
+    advisory:
+      'ヒューリスティックな参考情報です。判定ではありません。短い課題や定番の解法は独立に書いても似ます。証拠のイベントで両方の proof を見比べてください。',
+    score: '類似度',
+    noPairs: '類似した組はありません',
+    notEnough: '比較には proof が 2 件以上必要です',
+  },
+
+  roster: {
+    title: '名簿突合',
+    summary: '${students} 人中 ${submitted} 人が提出、未提出 ${missing} 人、所見あり ${withIssues} 人',
+    advisory: '事務処理のための参考情報です。検証結果は変わりません。提出物はファイル名で学生と対応付けています。',
+    student: '学生',
+    submission: '提出物',
+    findings: '所見',
+    ok: '問題なし',
+    missing: '未提出',
+    duplicate: '提出物が ${count} 件',
+    mismatch: '${field}: 名簿は ${expected}、提出物は ${actual} (${label})',
+    notExam: '試験モードの proof ではありません (${label})',
+    outOfTimeBox: '試験の時間窓の外 (${detail})',
+    multipleDevices: '${count} 台の端末で作成',
+    unmatched: '名簿にない提出物: ${list}',
+    ambiguous: '${source} は複数の学生に当たります: ${students}',
+    invalid: '名簿を読めません: ${message}',
+    empty: 'このフォルダには読み込み済みの proof がありません',
+  },
+
   pattern: {
     title: 'タイピングパターン',
     score: 'スコア',
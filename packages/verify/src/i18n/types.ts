@@ -40,6 +40,9 @@ export interface VerifyTranslationKeys {
     menu: string;
     openFile: string;
     openFolder: string;
+    compareProofs: string;
+    exportAnalysisBundle: string;
+    exportRedactedBundle: string;
     explorer: string;
     settings: string;
     themeToggle: string;
@@ -55,6 +58,8 @@ export interface VerifyTranslationKeys {
     emptyMessage: string;
     removeFile: string;
     removeFolder: string;
+    compareFolder: string;
+    rosterFolder: string;
     removeConfirm: string;
   };
 
@@ -142,6 +147,10 @@ export interface VerifyTranslationKeys {
     anchoringNone: string;
     anchoringPostHoc: string;
     anchoringSparse: string;
+    /** 提出レシート (ADR-0047) の行ラベルと値。`${time}` = サーバ受領時刻, `${id}` = 受領番号 */
+    anchoringReceipt: string;
+    anchoringReceiptVerified: string;
+    anchoringReceiptInvalid: string;
     // 詳細展開セクション
     anchoringDetailsToggle: string;
     anchoringSectionKeys: string;
@@ -161,6 +170,7 @@ export interface VerifyTranslationKeys {
     anchoringFirstSeenAt: string;
     anchoringInitialChainHash: string;
     anchoringFirstAnchor: string;
+    anchoringTimestampAuthorities: string;
     anchoringLastAnchor: string;
     anchoringAnchorAt: string;
     anchoringAnchorTimestamp: string;
@@ -231,6 +241,24 @@ export interface VerifyTranslationKeys {
       verifiedEvents: string;
       sampledSegments: string;
     };
+    tamperForensics: {
+      header: string;
+      none: string;
+      event: string;
+      eventRange: string;
+      outsideEvents: string;
+      evidence: string;
+      kinds: {
+        'event-inserted': string;
+        'event-deleted': string;
+        'events-reordered': string;
+        'event-data-edited': string;
+        'chain-regenerated': string;
+        'final-content-swapped': string;
+        'checkpoints-rewritten': string;
+        'proof-metadata-edited': string;
+      };
+    };
   };
 
   // PoSW panel
@@ -368,6 +396,8 @@ export interface VerifyTranslationKeys {
       templateInjection: string;
       copyOperation: string;
       sessionResumed: string;
+      sessionContinued: string;
+      poswCalibration: string;
     };
   };
 
@@ -392,6 +422,8 @@ export interface VerifyTranslationKeys {
     issueAnchoringSparse: string;
     issueSessionTokenMismatch: string;
     issueRootNotAnchored: string;
+    issuePoswTimingInconsistent: string;
+    issuePoswTimingImplausible: string;
     issueNotPureTyping: string;
     issueExamBindingFailed: string;
     issueExamUnverified: string;
@@ -432,6 +464,15 @@ export interface VerifyTranslationKeys {
     kindLargestInsertion: string;
     kindFocusBurst: string;
     kindExternalInput: string;
+    seriesTitle: string;
+    seriesMerged: string;
+    seriesIncomplete: string;
+    seriesInvalid: string;
+    seriesPart: string;
+    seriesLinkStart: string;
+    seriesLinkLinked: string;
+    seriesLinkBroken: string;
+    seriesPartInvalid: string;
   };
 
   // 三層保証語彙 (ADR-0020)
@@ -441,9 +482,12 @@ export interface VerifyTranslationKeys {
     provenance: string;
     integrityProven: string;
     integrityPartial: string;
+    integritySampled: string;
     integrityFailed: string;
     temporalAnchored: string;
     temporalPartial: string;
+    temporalPoswBounded: string;
+    temporalPoswInconsistent: string;
     temporalUnanchored: string;
     temporalExamT0: string;
     pureTypingYes: string;
@@ -453,6 +497,7 @@ export interface VerifyTranslationKeys {
     modeSelfAsserted: string;
     integrityHint: string;
     integrityPartialHint: string;
+    integritySampledHint: string;
     temporalHint: string;
     provenanceHint: string;
     mode: {
@@ -479,11 +524,77 @@ export interface VerifyTranslationKeys {
     dimensionKeystrokeContent: string;
     dimensionTranscriptionTopology: string;
     dimensionFocusBurst: string;
+    skipped: string;
+    skippedTooLarge: string;
     summary: {
       externalInput: string;
+      crossSubmissionSimilarity: string;
     };
   };
 
+  // proof の差分 — 同じファイルの 2 つの proof を並べるダイアログ
+  proofDiff: {
+    title: string;
+    notEnough: string;
+    identical: string;
+    root: string;
+    rootShared: string;
+    rootDifferent: string;
+    sharedPrefix: string;
+    events: string;
+    firstDivergence: string;
+    sameEdits: string;
+    contentDivergence: string;
+    contentDivergenceAt: string;
+    noContentDivergence: string;
+    finalContent: string;
+    same: string;
+    different: string;
+    regenerated: string;
+    linkSeekbars: string;
+    noEvents: string;
+    advisory: string;
+  };
+
+  // 伏せ字バンドル (ADR-0043) — 表示中の proof の分析と伏せ字の events の書き出し
+  redactedBundle: {
+    notVerified: string;
+    exported: string;
+    eventsConfirm: string;
+    exportedWithEvents: string;
+  };
+
+  // 提出物間類似 (ADR-0035) — フォルダ単位の対比較ダイアログ
+  similarity: {
+    title: string;
+    compared: string;
+    advisory: string;
+    score: string;
+    noPairs: string;
+    notEnough: string;
+  };
+
+  // 名簿突合 (ADR-0037) — フォルダ内の提出物と名簿 CSV の突き合わせダイアログ
+  roster: {
+    title: string;
+    summary: string;
+    advisory: string;
+    student: string;
+    submission: string;
+    findings: string;
+    ok: string;
+    missing: string;
+    duplicate: string;
+    mismatch: string;
+    notExam: string;
+    outOfTimeBox: string;
+    multipleDevices: string;
+    unmatched: string;
+    ambiguous: string;
+    invalid: string;
+    empty: string;
+  };
+
   pattern: {
     title: string;
     score: string;
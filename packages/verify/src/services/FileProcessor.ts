@@ -5,11 +5,12 @@
  * 実際の処理は JsonFileProcessor / ZipFileProcessor に委譲。
  */
 
+import type { SubmissionReceipt } from '@typedcode/shared';
 import type { ProofFile, VerifyScreenshot } from '../types.js';
 import type { ScreenshotService } from './ScreenshotService.js';
 import { JsonFileProcessor } from './JsonFileProcessor.js';
 import { ZipFileProcessor } from './ZipFileProcessor.js';
-import { getFileType, isProofFilename, getLanguageFromExtension } from './fileUtils.js';
+import { getFileType, isBinaryProofFilename, isProofFilename, getLanguageFromExtension } from './fileUtils.js';
 import { t } from '../i18n/index.js';
 
 // 再エクスポート（利用側の互換性のため）
@@ -62,6 +63,8 @@ export interface FileProcessResult {
   screenshotService?: ScreenshotService;
   /** 記録開始時刻（Unix timestamp ms）- チャートX軸表示用 */
   startTimestamp?: number;
+  /** 提出レシート (ADR-0047)。ZIP 直下に同梱されている場合 */
+  submissionReceipt?: SubmissionReceipt;
 }
 
 /** 処理進捗コールバック */
@@ -110,15 +113,17 @@ export class FileProcessor {
   }
 
   /**
-   * ファイルを処理（JSON/ZIP自動判定）
+   * ファイルを処理（JSON/バイナリ proof/ZIP自動判定）
    */
   async process(file: File, forceMultiMode: boolean = false): Promise<FileProcessResult> {
     if (file.name.endsWith('.zip')) {
       return this.zipProcessor.process(file);
     } else if (file.name.endsWith('.json')) {
       return this.jsonProcessor.process(file, forceMultiMode);
+    } else if (isBinaryProofFilename(file.name)) {
+      return this.jsonProcessor.processBinary(file, forceMultiMode);
     } else {
-      // JSONでもZIPでもない場合はプレーンテキストとして処理
+      // JSON / バイナリ proof / ZIP のどれでもない場合はプレーンテキストとして処理
       return this.processPlaintext(file);
     }
   }
@@ -196,7 +201,7 @@ export class FileProcessor {
   /**
    * ファイル拡張子からファイルタイプを判定
    */
-  static getFileType(filename: string): 'json' | 'zip' | 'unknown' {
+  static getFileType(filename: string): 'json' | 'zip' | 'tcproof' | 'unknown' {
     return getFileType(filename);
   }
 
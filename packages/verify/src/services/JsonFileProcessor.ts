@@ -1,9 +1,11 @@
 /**
  * JsonFileProcessor - JSON ファイル処理サービス
  *
- * JSON ファイルの読み込みと解析を担当
+ * JSON ファイル (およびそのバイナリ表現 `.tcproof`) の読み込みと解析を担当。
+ * proof は `migrateProof` で現行の形にそろえてから返す (対応しない format version は読込エラー)。
  */
 
+import { decodeBinaryProof, migrateProof, type LegacyProofFile } from '@typedcode/shared';
 import type { ProofFile } from '../types.js';
 import type { ParsedFileData, FileProcessResult, FileProcessCallbacks } from './FileProcessor.js';
 import { getLanguageFromExtension } from './fileUtils.js';
@@ -37,17 +39,10 @@ export class JsonFileProcessor {
       let language = 'unknown';
       let proofData: ProofFile | undefined;
       let isValidProofFile = false;
+      let parsed: LegacyProofFile | null;
 
       try {
-        const parsed = JSON.parse(text) as ProofFile;
-        // proof フィールドがあれば証明ファイルとみなす
-        if (parsed.proof) {
-          isValidProofFile = true;
-          proofData = parsed;
-          language = parsed.language ?? 'unknown';
-          const eventCount = parsed.proof?.events?.length ?? 0;
-          this.callbacks.onParseComplete?.(file.name, eventCount);
-        }
+        parsed = JSON.parse(text) as LegacyProofFile | null;
       } catch {
         // パース失敗 - プレーンテキストとして扱う
         const lang = getLanguageFromExtension(file.name);
@@ -65,6 +60,15 @@ export class JsonFileProcessor {
         };
       }
 
+      // proof フィールドがあれば証明ファイルとみなす
+      if (parsed?.proof) {
+        isValidProofFile = true;
+        proofData = migrateProof(parsed).proof;
+        language = proofData.language ?? 'unknown';
+        const eventCount = proofData.proof?.events?.length ?? 0;
+        this.callbacks.onParseComplete?.(file.name, eventCount);
+      }
+
       if (isValidProofFile) {
         return {
           success: true,
@@ -107,18 +111,65 @@ export class JsonFileProcessor {
   }
 
   /**
-   * JSON 文字列からプルーフデータを解析
+   * バイナリ proof (`tcproof/1`, ADR-0038) を処理
+   *
+   * 復号した値は JSON の proof と同一なので、rawData には JSON 文字列を入れて以降の検証・表示を
+   * JSON 入力と共通にする。JSON と違い「proof でないならプレーンテキスト」という逃げ道は無く、
+   * 壊れたファイル・proof 構造を持たないファイルは読込エラーにする。
+   */
+  async processBinary(file: File, forceMultiMode: boolean = false): Promise<FileProcessResult> {
+    this.callbacks.onReadStart?.(file.name);
+
+    try {
+      const buffer = await file.arrayBuffer();
+      this.callbacks.onReadComplete?.(file.name, buffer.byteLength / 1024);
+
+      const parsed = decodeBinaryProof(buffer) as LegacyProofFile;
+      if (!parsed || typeof parsed !== 'object' || !parsed.proof) {
+        throw new Error('Invalid proof file structure');
+      }
+      const proofData = migrateProof(parsed).proof;
+      this.callbacks.onParseComplete?.(file.name, proofData.proof.events?.length ?? 0);
+
+      return {
+        success: true,
+        mode: forceMultiMode ? 'multi' : 'single',
+        files: [
+          {
+            filename: file.name,
+            type: 'proof',
+            language: proofData.language ?? 'unknown',
+            rawData: JSON.stringify(parsed),
+            proofData,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.callbacks.onError?.(file.name, errorMessage);
+      return {
+        success: false,
+        mode: forceMultiMode ? 'multi' : 'single',
+        files: [],
+        error: t('errors.fileLoadFailed', { message: errorMessage }),
+      };
+    }
+  }
+
+  /**
+   * JSON 文字列からプルーフデータを解析 (対応しない format version の proof も null)
    */
   parseProofFromString(content: string, filename: string): ParsedFileData | null {
     try {
-      const parsed = JSON.parse(content) as ProofFile;
+      const parsed = JSON.parse(content) as LegacyProofFile;
       if (parsed.proof) {
+        const proofData = migrateProof(parsed).proof;
         return {
           filename,
           type: 'proof',
-          language: parsed.language ?? 'unknown',
+          language: proofData.language ?? 'unknown',
           rawData: content,
-          proofData: parsed,
+          proofData,
         };
       }
       return null;
@@ -113,6 +113,7 @@ export function buildResultData(tabState: VerifyTabState): ResultData | null {
     verificationMethod: verificationResult.sampledResult ? 'sampled' : 'full',
     chainErrorDetails,
     sampledVerification,
+    tamperForensics: verificationResult.tamperForensics,
   };
 
   // Convert PoSW stats (from shared PoswStats to UI PoswStatsDisplay)
@@ -162,6 +163,7 @@ export function buildResultData(tabState: VerifyTabState): ResultData | null {
     processSummary: events && events.length > 0 ? summarizeProcess(events) : undefined,
     // 分析層 (ADR-0009): worker が runAnalysis で生成した advisory レポート (判定ではない)。
     analysis: verificationResult.analysis,
+    analysisSkipped: verificationResult.analysisSkipped,
     verificationMode: verificationResult.verificationMode,
     poswMode: verificationResult.poswMode,
     signedCheckpoint:
@@ -180,6 +182,8 @@ export function buildResultData(tabState: VerifyTabState): ResultData | null {
             report: verificationResult.signedCheckpointReport,
           }
         : undefined,
+    // 提出レシート (ADR-0047): ZIP に同梱されていたときのみ。
+    submissionReceipt: verificationResult.submissionReceipt,
     // 試験モード (ADR-0006): exam proof のときのみ束縛検証結果を渡す。
     examBinding:
       proofData.exam && verificationResult.exam
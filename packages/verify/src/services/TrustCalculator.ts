@@ -212,6 +212,19 @@ export class TrustCalculator {
       });
     }
 
+    // 7.6 較正した PoSW 速度と申告 timestamp の整合（ADR-0042）。申告 timestamp が記録端末の PoSW では
+    //     追いつけない速さで進んでいる / 較正値が壊れている・あり得ない速度なら警告。較正の無い旧 proof は対象外。
+    const poswTiming = verificationResult?.poswTiming?.status;
+    if (poswTiming === 'inconsistent' || poswTiming === 'implausible') {
+      issues.push({
+        component: 'anchoring',
+        severity: 'warning',
+        message: t(
+          poswTiming === 'inconsistent' ? 'trust.issuePoswTimingInconsistent' : 'trust.issuePoswTimingImplausible'
+        ),
+      });
+    }
+
     // 8. ピュアタイピング（ペースト/バルク挿入の有無）
     if (verificationResult && !verificationResult.isPureTyping) {
       issues.push({
@@ -1,16 +1,26 @@
 /**
  * ZipFileProcessor - ZIP ファイル処理サービス
  *
- * ZIP ファイルの展開と解析を担当
+ * ZIP ファイルの展開と解析を担当。proof は `migrateProof` で現行の形にそろえる
+ * (対応しない format version の proof があれば ZIP ごと読込エラー)。
  */
 
 import JSZip from 'jszip';
-import { assertZipWithinBudget, collectChainImageHashes } from '@typedcode/shared';
+import {
+  SUBMISSION_RECEIPT_FILENAME,
+  assertZipWithinBudget,
+  collectChainImageHashes,
+  decodeBinaryProof,
+  migrateProof,
+  parseSubmissionReceipt,
+  type LegacyProofFile,
+  type SubmissionReceipt,
+} from '@typedcode/shared';
 import type { ProofFile, VerifyScreenshot } from '../types.js';
 import type { ParsedFileData, FileProcessResult, FileProcessCallbacks } from './FileProcessor.js';
 import { ScreenshotService } from './ScreenshotService.js';
 import { normalizeScreenshotManifest } from './screenshotManifest.js';
-import { isImageFile, isBinaryFile, getLanguageFromExtension } from './fileUtils.js';
+import { isImageFile, isBinaryFile, isBinaryProofFilename, getLanguageFromExtension } from './fileUtils.js';
 import { t } from '../i18n/index.js';
 
 /**
@@ -58,6 +68,9 @@ export class ZipFileProcessor {
       // スクリーンショットを読み込み
       const { screenshots, screenshotService } = await this.loadScreenshots(zip, chainImageHashes);
 
+      // 提出レシート (ADR-0047): ZIP 単位の 1 枚を全 proof の検証に渡す
+      const submissionReceipt = await this.loadSubmissionReceipt(zip);
+
       if (files.length === 0 && screenshots.length === 0) {
         return {
           success: false,
@@ -79,6 +92,7 @@ export class ZipFileProcessor {
         screenshots,
         screenshotService,
         startTimestamp,
+        submissionReceipt,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -141,6 +155,12 @@ export class ZipFileProcessor {
         continue;
       }
 
+      // バイナリ proof (ADR-0038) は復号して JSON の proof と同じ形で扱う。壊れていれば ZIP ごと読込エラー
+      if (isBinaryProofFilename(filename)) {
+        files.push(await this.parseBinaryProofEntry(zipEntry, filename, path));
+        continue;
+      }
+
       // その他のバイナリファイルはスキップ（テキストファイルのみ処理）
       if (isBinaryFile(filename)) continue;
 
@@ -183,6 +203,34 @@ export class ZipFileProcessor {
     return null;
   }
 
+  /**
+   * バイナリ proof のエントリを解析
+   */
+  private async parseBinaryProofEntry(
+    zipEntry: JSZip.JSZipObject,
+    filename: string,
+    path: string
+  ): Promise<ParsedFileData> {
+    let parsed: LegacyProofFile;
+    try {
+      parsed = decodeBinaryProof(await zipEntry.async('uint8array')) as LegacyProofFile;
+    } catch (error) {
+      throw new Error(`Invalid binary proof in ${filename}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || !parsed.proof) {
+      throw new Error(`Invalid binary proof in ${filename}: missing proof`);
+    }
+    const proofData = migrateProof(parsed).proof;
+    return {
+      filename,
+      type: 'proof',
+      language: proofData.language ?? 'unknown',
+      rawData: JSON.stringify(parsed),
+      proofData,
+      relativePath: path,
+    };
+  }
+
   /**
    * テキストファイルを解析
    */
@@ -192,18 +240,19 @@ export class ZipFileProcessor {
       let language = 'unknown';
       let isValidProofFile = false;
       let proofData: ProofFile | undefined;
+      let parsed: LegacyProofFile | null = null;
 
       try {
-        const parsed = JSON.parse(content) as ProofFile;
-        // proof フィールドがあれば証明ファイルとみなす
-        if (parsed.proof) {
-          isValidProofFile = true;
-          proofData = parsed;
-          language = parsed.language ?? 'unknown';
-        }
+        parsed = JSON.parse(content) as LegacyProofFile | null;
       } catch {
         // パース失敗は無視（通常のJSONとして扱う）
       }
+      // proof フィールドがあれば証明ファイルとみなす
+      if (parsed?.proof) {
+        isValidProofFile = true;
+        proofData = migrateProof(parsed).proof;
+        language = proofData.language ?? 'unknown';
+      }
 
       if (isValidProofFile) {
         return {
@@ -291,6 +340,24 @@ export class ZipFileProcessor {
     }
   }
 
+  /**
+   * ZIP 直下の提出レシート (ADR-0047) を読む。無ければ undefined。
+   * 壊れたレシートは黙って捨てず ZIP の読込エラーにする (verify-cli と同じ扱い)。
+   */
+  private async loadSubmissionReceipt(zip: JSZip): Promise<SubmissionReceipt | undefined> {
+    const entry = zip.file(SUBMISSION_RECEIPT_FILENAME);
+    if (!entry) return undefined;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await entry.async('string'));
+    } catch {
+      raw = null;
+    }
+    const receipt = parseSubmissionReceipt(raw);
+    if (!receipt) throw new Error(`Malformed ${SUBMISSION_RECEIPT_FILENAME} in ZIP`);
+    return receipt;
+  }
+
   /**
    * 全 proof の screenshotCapture イベントから imageHash を収集する。チェーンは検証済み・
    * 改ざん不能なので、これが screenshot の真正なハッシュ集合になる (manifest は未署名なので
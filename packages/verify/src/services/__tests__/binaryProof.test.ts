@@ -0,0 +1,76 @@
+/**
+ * バイナリ proof (`.tcproof`, ADR-0038) の読込経路。
+ *
+ * 形式そのもの (往復・不正入力) は shared (binaryProof.test.ts) で固定済み。ここでは verify (web) の
+ * 3 つの入口 (単体ファイル / ZIP のエントリ / フォルダのスクショ裏付け) が JSON の proof と同じものを
+ * 得ること、壊れたファイルを黙ってプレーンテキスト扱いにしないことを固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { encodeBinaryProof } from '@typedcode/shared';
+import { FileProcessor } from '../FileProcessor.js';
+import { ZipFileProcessor } from '../ZipFileProcessor.js';
+import { collectFolderChainImageHashes } from '../folderScreenshotLoader.js';
+import type { FSAccessFileEntry } from '../../types.js';
+
+const proof = {
+  version: '3.2.0',
+  content: 'int main() {}',
+  language: 'c',
+  typingProofHash: 'ab'.repeat(32),
+  proof: {
+    events: [
+      { sequence: 0, type: 'humanAttestation', timestamp: 0, data: {} },
+      { sequence: 1, type: 'screenshotCapture', timestamp: 10, data: { imageHash: 'cd'.repeat(32) } },
+    ],
+  },
+};
+
+function toFile(bytes: Uint8Array, name: string): File {
+  return new File([bytes.slice().buffer], name);
+}
+
+describe('binary proof loading', () => {
+  it('reads a .tcproof file as the same proof as its JSON', async () => {
+    const result = await new FileProcessor().process(toFile(encodeBinaryProof(proof), 'q1_proof.tcproof'));
+
+    expect(result.success).toBe(true);
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0]).toMatchObject({ filename: 'q1_proof.tcproof', type: 'proof', language: 'c' });
+    expect(result.files[0]!.rawData).toBe(JSON.stringify(proof));
+  });
+
+  it('fails a corrupt .tcproof instead of showing it as plain text', async () => {
+    const bytes = encodeBinaryProof(proof);
+    const result = await new FileProcessor().process(toFile(bytes.subarray(0, bytes.length - 3), 'q1_proof.tcproof'));
+
+    expect(result.success).toBe(false);
+    expect(result.files).toEqual([]);
+  });
+
+  it('reads a .tcproof tab inside an export ZIP next to a JSON tab', async () => {
+    const zip = new JSZip();
+    zip.file('q1_proof.json', JSON.stringify(proof));
+    zip.file('q2_proof.tcproof', encodeBinaryProof(proof));
+    const buffer = await zip.generateAsync({ type: 'uint8array' });
+
+    const result = await new ZipFileProcessor().process(toFile(buffer, 'ALL_TC.zip'));
+    const proofs = result.files.filter((f) => f.type === 'proof');
+
+    expect(proofs.map((f) => f.filename).sort()).toEqual(['q1_proof.json', 'q2_proof.tcproof']);
+    expect(proofs[0]!.rawData).toBe(proofs[1]!.rawData);
+  });
+
+  it('collects chain screenshot hashes from .tcproof files on the folder path', async () => {
+    const bytes = encodeBinaryProof(proof);
+    const entry = {
+      name: 'q1_proof.tcproof',
+      path: 'q1_proof.tcproof',
+      lastModified: 0,
+      handle: { getFile: async () => ({ arrayBuffer: async () => bytes.slice().buffer }) },
+    } as unknown as FSAccessFileEntry;
+
+    expect(await collectFolderChainImageHashes([entry])).toEqual(new Set(['cd'.repeat(32)]));
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * 継続した proof の列 (ADR-0041) をタブから組み立てる。
+ *
+ * 統合した timeline を出すのは、前の proof がすべて読み込まれ、各タブの検証が通り、
+ * link がつながるときだけ。そうでなければタブ単独の表示のまま状態だけ返す。
+ * (link の hash 比較だけを見るので、proof は hash を並べただけの最小形で組む)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { StoredEvent } from '@typedcode/shared';
+import { buildProofSeriesView } from '../proofSeriesView.js';
+import type { ProofFile, VerifyScreenshot, VerifyTabState } from '../../types.js';
+
+const hash = (c: string) => c.repeat(64);
+
+function events(count: number): StoredEvent[] {
+  return Array.from(
+    { length: count },
+    (_, i) => ({ sequence: i, type: 'contentChange', timestamp: (i + 1) * 100 }) as StoredEvent
+  );
+}
+
+/** id の proof。chain hash は id の小文字、content hash は id の大文字を並べたもの */
+function tab(id: string, previous: string | null, options: { valid?: boolean } = {}): VerifyTabState {
+  const proofData = {
+    typingProofData: { finalEventChainHash: hash(id.toLowerCase()), finalContentHash: hash(id) },
+    ...(previous
+      ? {
+          continuation: {
+            previousFinalEventChainHash: hash(previous.toLowerCase()),
+            previousContentHash: hash(previous),
+          },
+        }
+      : {}),
+    proof: { events: events(3) },
+    content: id,
+    language: 'c',
+  } as unknown as ProofFile;
+  return {
+    id,
+    filename: `${id}.json`,
+    language: 'c',
+    status: 'success',
+    progress: 100,
+    proofData,
+    verificationResult: { valid: options.valid ?? true } as VerifyTabState['verificationResult'],
+    screenshots: [{ id: `ss-${id}`, eventSequence: 1, timestamp: 150 } as VerifyScreenshot],
+    startTimestamp: id === 'A' ? 1_000 : 2_000,
+  };
+}
+
+describe('buildProofSeriesView', () => {
+  const first = tab('A', null);
+  const second = tab('B', 'A');
+  const third = tab('C', 'B');
+
+  it('returns null for a proof that does not continue another', () => {
+    expect(buildProofSeriesView(first, [first, second])).toBeNull();
+  });
+
+  it('merges the timeline and shifts screenshots when the whole series is loaded and valid', () => {
+    const view = buildProofSeriesView(third, [third, first, second])!;
+
+    expect(view.status).toBe('merged');
+    expect(view.parts.map((p) => [p.filename, p.link])).toEqual([
+      ['A.json', 'start'],
+      ['B.json', 'linked'],
+      ['C.json', 'linked'],
+    ]);
+    expect(view.timeline!.events).toHaveLength(9);
+    expect(view.startTimestamp).toBe(1_000);
+    expect(view.screenshots!.map((s) => [s.eventSequence, s.timestamp])).toEqual([
+      [1, 150],
+      [4, 450],
+      [7, 750],
+    ]);
+  });
+
+  it('does not merge when a previous proof is missing or fails verification', () => {
+    expect(buildProofSeriesView(third, [third, second])).toMatchObject({
+      status: 'incomplete',
+      parts: [{ filename: 'B.json', link: 'start' }, { filename: 'C.json' }],
+    });
+
+    const broken = tab('B', 'A', { valid: false });
+    const view = buildProofSeriesView(third, [first, broken, third])!;
+    expect(view.status).toBe('invalid');
+    expect(view.timeline).toBeUndefined();
+  });
+});
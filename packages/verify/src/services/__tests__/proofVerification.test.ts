@@ -0,0 +1,61 @@
+/**
+ * verify (web) のストリーム検証 (ADR-0039) が、大きな proof を丸ごとメモリに載せないこと。
+ *
+ * 判定そのものは shared (verification.test.ts) と web↔CLI パリティ (webCliParity.test.ts) が固定する。
+ * ここは表示用の PoSW 統計を events の走査から数えること、分析の上限を超えた proof では
+ * `loadProof` (Worker では proof 全体の JSON.parse) を呼ばずに分析を省くことを見る。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { toProofEventStream, type MigratedProof } from '@typedcode/shared';
+import { runProofStreamVerification } from '../proofVerification.js';
+
+const posw = (computeTimeMs: number) => ({
+  iterations: 10_000,
+  nonce: 'ab'.repeat(16),
+  intermediateHash: 'cd'.repeat(32),
+  computeTimeMs,
+});
+
+const proof = {
+  version: '3.2.0',
+  typingProofHash: 'ab'.repeat(32),
+  typingProofData: {},
+  content: 'ab',
+  language: 'c',
+  proof: {
+    events: [
+      { sequence: 0, type: 'contentChange', timestamp: 0, data: 'a', hash: '01'.repeat(32), posw: posw(2) },
+      { sequence: 1, type: 'focusChange', timestamp: 10, data: null, hash: '02'.repeat(32) },
+      { sequence: 2, type: 'contentChange', timestamp: 20, data: 'b', hash: '03'.repeat(32), posw: posw(4) },
+    ],
+  },
+  checkpoints: [],
+  rootAnchored: false,
+} as unknown as MigratedProof;
+
+describe('runProofStreamVerification', () => {
+  it('counts PoSW stats while streaming the events', async () => {
+    const result = await runProofStreamVerification(toProofEventStream(proof), () => proof, { mode: 'fast' });
+
+    expect(result.poswStats).toEqual({ count: 2, avgTimeMs: 3, totalTimeMs: 6, iterations: 10_000 });
+    expect(result.analysisSkipped).toBeUndefined();
+  });
+
+  it('skips the full-proof analysis above the event limit without loading the proof', async () => {
+    const loadProof = vi.fn(() => proof);
+
+    const result = await runProofStreamVerification(toProofEventStream(proof), loadProof, {
+      mode: 'fast',
+      analysisMaxEvents: 2,
+    });
+
+    expect(loadProof).not.toHaveBeenCalled();
+    expect(result.analysisSkipped).toBe(true);
+    expect(result.analysis).toBeUndefined();
+    expect(result.tamperForensics).toBeUndefined();
+    // 検証と PoSW 統計は上限に関係なく全 events から出る
+    expect(result.totalEvents).toBe(3);
+    expect(result.poswStats?.count).toBe(2);
+  });
+});
@@ -19,6 +19,7 @@ const enc = new TextEncoder();
 /** チェーンに 1 枚のスクショが焼かれた proof。 */
 function proofJson(chainImageHash: string): string {
   return JSON.stringify({
+    version: '3.2.0',
     content: '',
     language: 'typescript',
     proof: {
@@ -6,7 +6,8 @@
  * 「shared に委譲していない箇所」に集中していた (#211) ので、文書ルールではなくテストで縛る。
  *
  * そろえる観点: 総合判定 (valid) / 三層保証 (integrity・temporal・provenance) / exam 束縛 /
- * スクリーンショット集計 (tampered・chainOnly) / **検証モード (fast の PoSW 未再計算, #214)**。
+ * スクリーンショット集計 (tampered・chainOnly) / **検証モード (fast の PoSW 未再計算, #214)** /
+ * 提出レシート (ADR-0047) の突合。
  * 正常系だけでなく **片方だけが落ちうるケース**
  * (別セッションのトークン流用・署名 cp のみ無効・スクショ改竄・スクショ剥ぎ取り) を含める。
  *
@@ -25,9 +26,14 @@ import {
   collectChainImageHashes,
   computeHash,
   createSessionStartToken,
+  createSubmissionReceipt,
   deriveAssurance,
+  isSignedCheckpointEnvelope,
+  readProofEventStream,
   sha256HexOfBytes,
   summarizeScreenshotArtifacts,
+  textChunks,
+  verifyRedactedEventHashes,
   type AssuranceResult,
   type CheckpointData,
   type ExamPackageManifest,
@@ -36,6 +42,7 @@ import {
   type ScreenshotCaptureData,
   type ScreenshotVerificationSummary,
   type SessionStartToken,
+  type SubmissionReceipt,
   type VerificationMode,
 } from '@typedcode/shared';
 import {
@@ -45,7 +52,8 @@ import {
 } from '../../../../shared/src/__tests__/fixtures/signedCheckpointFixtures.js';
 import { buildSamplePackage, makeExamAuthority } from '../../../../shared/src/__tests__/fixtures/examFixtures.js';
 import { verifyProof } from '../../../../verify-cli/src/verify.js';
-import { buildAssuranceInput, isOverallValid, runProofVerification } from '../proofVerification.js';
+import { buildAssuranceInput, isOverallValid, runProofStreamVerification } from '../proofVerification.js';
+import { buildTabRedactedBundle } from '../redactedBundleExport.js';
 import { summarizeTabScreenshots } from '../screenshotSummary.js';
 import type { ProofFile, VerifyScreenshot } from '../../types.js';
 
@@ -308,18 +316,26 @@ interface ConclusionOptions {
   screenshots?: ScreenshotVerificationSummary;
   /** 検証モード (#214)。既定は `fast` (PoSW 再計算はスタブ Worker では回せないため)。 */
   mode?: VerificationMode;
+  /** ZIP に同梱された提出レシート (ADR-0047)。web は Worker 要求、CLI は verifyProof に渡す。 */
+  submissionReceipt?: SubmissionReceipt;
 }
 
-/** verify (web) の経路: Worker が使う合成 → UI (TabController / VerificationController) の総合判定と三層保証。 */
+/**
+ * verify (web) の経路: Worker と同じく JSON テキストからストリーム検証 (ADR-0039) →
+ * UI (TabController / VerificationController) の総合判定と三層保証。
+ */
 async function webConclusion(
   proof: ProofFile,
   registry: readonly TestKey['registryEntry'][],
   options: ConclusionOptions = {}
 ): Promise<ParityConclusion> {
-  const result = await runProofVerification(proof, {
+  const rawData = JSON.stringify(proof);
+  const stream = await readProofEventStream(textChunks(rawData, 256));
+  const result = await runProofStreamVerification(stream, () => JSON.parse(rawData), {
     mode: options.mode ?? 'fast',
     manifest: options.manifest,
     signedCheckpointKeyRegistry: registry,
+    submissionReceipt: options.submissionReceipt,
   });
   const screenshotsTampered = options.screenshots?.tampered;
   return {
@@ -346,6 +362,7 @@ async function cliConclusion(
     examPackageManifest: options.manifest,
     signedCheckpointKeyRegistry: registry,
     screenshotSummary: options.screenshots,
+    submissionReceipt: options.submissionReceipt,
   });
   return {
     valid: result.valid,
@@ -423,7 +440,7 @@ describe('web ↔ CLI parity (#216)', () => {
     });
     // 署名だけを壊す (チェーン・メタデータ・content は無傷)。
     const checkpoints = (proof.checkpoints ?? []).map((cp, index): CheckpointData => {
-      if (index !== 0 || !cp.signature) return cp;
+      if (index !== 0 || !cp.signature || !isSignedCheckpointEnvelope(cp.signature)) return cp;
       const signature = cp.signature.signature;
       const flipped = (signature[0] === 'a' ? 'b' : 'a') + signature.slice(1);
       return { ...cp, signature: { ...cp.signature, signature: flipped } };
@@ -440,6 +457,39 @@ describe('web ↔ CLI parity (#216)', () => {
     expect(cli.assurance.temporal).toBe('partial');
   });
 
+  it('agrees on a submission receipt: matching keeps the proof valid, a foreign one fails it (ADR-0047)', async () => {
+    const proof = await buildAnchoredProof({
+      key: testKey,
+      tokenSessionId: 'session-A',
+      checkpointSessionId: 'session-A',
+    });
+    const first = proof.checkpoints?.[0]?.signature;
+    const tabId = first && isSignedCheckpointEnvelope(first) ? first.payload.tabId : '';
+    const receiptFor = (finalChainHash: string): Promise<SubmissionReceipt> =>
+      createSubmissionReceipt(
+        {
+          sessionId: 'session-A',
+          tabIds: [tabId],
+          finalChainHashes: [finalChainHash],
+          finalContentHashes: [proof.typingProofData.finalContentHash],
+        },
+        '2026-06-12T01:00:00.000Z',
+        { keyId: testKey.keyId, privateKey: testKey.privateKey }
+      );
+
+    const matching = await receiptFor(proof.typingProofData.finalEventChainHash);
+    const webOk = await webConclusion(proof, registry, { submissionReceipt: matching });
+    const cliOk = await cliConclusion(proof, registry, { submissionReceipt: matching });
+    expectSameConclusion(webOk, cliOk);
+    expect(cliOk.valid).toBe(true);
+
+    const foreign = await receiptFor('f'.repeat(64));
+    const webNg = await webConclusion(proof, registry, { submissionReceipt: foreign });
+    const cliNg = await cliConclusion(proof, registry, { submissionReceipt: foreign });
+    expectSameConclusion(webNg, cliNg);
+    expect(cliNg.valid).toBe(false);
+  });
+
   it('agrees that a tampered hash chain fails integrity', async () => {
     const proof = await buildAnchoredProof({
       key: testKey,
@@ -608,4 +658,34 @@ describe('web ↔ CLI parity (#216)', () => {
     expect(fullCli.valid).toBe(true);
     expect(fullCli.assurance.integrity).toBe('proven');
   }, 60_000);
+
+  /**
+   * ADR-0043: verify の「伏せ字バンドルを書き出す」はタブの検証結果から Tier A を組み立てる。
+   * verify-cli の `--analysis-bundle` と同じ判定・要約になること。
+   */
+  it('agrees on the Tier A analysis bundle exported from a verified tab', async () => {
+    const proof = await buildAnchoredProof({
+      key: testKey,
+      tokenSessionId: 'session-A',
+      checkpointSessionId: 'session-A',
+    });
+    const rawData = JSON.stringify(proof);
+    const stream = await readProofEventStream(textChunks(rawData, 256));
+    const verificationResult = await runProofStreamVerification(stream, () => JSON.parse(rawData), {
+      mode: 'fast',
+      signedCheckpointKeyRegistry: registry,
+    });
+
+    const web = await buildTabRedactedBundle(
+      { filename: 'main_proof.json', proofData: proof, verificationResult },
+      { includeRedactedEvents: true }
+    );
+    const cli = await verifyProof(proof, { mode: 'fast', signedCheckpointKeyRegistry: registry });
+
+    expect(web!.analysisBundle.integrityValid).toBe(cli.valid);
+    expect(web!.analysisBundle.processSummary).toEqual(cli.processSummary);
+    expect(comparableAssurance(web!.analysisBundle.assurance)).toEqual(comparableAssurance(cli.assurance));
+    expect((await verifyRedactedEventHashes(web!.redactedEvents, { registry })).anchored).toBe(true);
+    expect(JSON.stringify(web)).not.toContain('hello');
+  });
 });
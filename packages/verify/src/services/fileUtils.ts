@@ -4,21 +4,31 @@
  * ファイル判定・言語推測などの共通ユーティリティ
  */
 
+import { BINARY_PROOF_EXTENSION } from '@typedcode/shared';
+
 /**
  * ファイル拡張子からファイルタイプを判定
  */
-export function getFileType(filename: string): 'json' | 'zip' | 'unknown' {
+export function getFileType(filename: string): 'json' | 'zip' | 'tcproof' | 'unknown' {
   if (filename.endsWith('.json')) return 'json';
   if (filename.endsWith('.zip')) return 'zip';
+  if (isBinaryProofFilename(filename)) return 'tcproof';
   return 'unknown';
 }
 
+/**
+ * バイナリ proof (`tcproof/1`, ADR-0038) のファイル名か（大文字小文字は区別しない）
+ */
+export function isBinaryProofFilename(filename: string): boolean {
+  return filename.toLowerCase().endsWith(BINARY_PROOF_EXTENSION);
+}
+
 /**
  * 証明ファイルのファイル名パターンにマッチするか
- * （任意のJSONファイルを許可）
+ * （任意のJSONファイルとバイナリ proof を許可）
  */
 export function isProofFilename(filename: string): boolean {
-  return filename.endsWith('.json');
+  return filename.endsWith('.json') || isBinaryProofFilename(filename);
 }
 
 /**
@@ -12,8 +12,9 @@
  * 「ZIP で開くと改竄・フォルダで開くと緑」という提出物依存の結論のブレになる (#212)。
  */
 
-import { collectChainImageHashes, type StoredEvent } from '@typedcode/shared';
+import { collectChainImageHashes, decodeBinaryProof, type StoredEvent } from '@typedcode/shared';
 import type { FSAccessFileEntry, ProofFile, VerifyScreenshot } from '../types.js';
+import { isBinaryProofFilename } from './fileUtils.js';
 import { ScreenshotService } from './ScreenshotService.js';
 import { normalizeScreenshotManifest } from './screenshotManifest.js';
 
@@ -26,20 +27,23 @@ export interface FolderScreenshotLoadResult {
 }
 
 /**
- * フォルダ内の proof (`*.json`) から、チェーンに焼かれた screenshot ハッシュ集合を集める。
+ * フォルダ内の proof (`*.json` / `*.tcproof`) から、チェーンに焼かれた screenshot ハッシュ集合を集める。
  * 実体は shared (`collectChainImageHashes`) — ZIP 経路と同一実装。
  */
 export async function collectFolderChainImageHashes(files: readonly FSAccessFileEntry[]): Promise<Set<string>> {
   const eventsList: StoredEvent[][] = [];
 
   for (const entry of files) {
-    if (entry.name.startsWith('.') || !entry.name.toLowerCase().endsWith('.json')) continue;
+    const binary = isBinaryProofFilename(entry.name);
+    if (entry.name.startsWith('.') || !(binary || entry.name.toLowerCase().endsWith('.json'))) continue;
     // screenshots/manifest.json 等は proof ではない
     if (entry.path.startsWith('screenshots/')) continue;
 
     try {
       const file = await entry.handle.getFile();
-      const parsed = JSON.parse(await file.text()) as ProofFile;
+      const parsed = (
+        binary ? decodeBinaryProof(await file.arrayBuffer()) : JSON.parse(await file.text())
+      ) as ProofFile;
       const events = parsed?.proof?.events;
       if (Array.isArray(events)) eventsList.push(events);
     } catch {
@@ -0,0 +1,80 @@
+/**
+ * 継続した proof の列 (ADR-0041) を、読み込み済みのタブから組み立てる純関数。
+ *
+ * 表示中のタブの proof が `continuation` を持つとき、前の proof を他のタブから
+ * `finalEventChainHash` でたどる (shared の `collectProofSeries`)。各タブの検証は worker が
+ * 済ませているので、ここでは結果 (`valid`) と link (`checkProofSeriesLinks`) を見るだけ。
+ * 列が先頭までそろい、すべての proof が検証に通り、すべての link がつながったときに限り
+ * timeline を統合する (`mergeProofSeries`)。それ以外は統合せず、そのタブ単独の表示のまま状態だけ出す。
+ */
+
+import {
+  checkProofSeriesLinks,
+  collectProofSeries,
+  mergeProofSeries,
+  type MergedProofTimeline,
+  type ProofSeriesLink,
+} from '@typedcode/shared';
+import type { ProofFile, VerifyScreenshot, VerifyTabState } from '../types.js';
+
+export interface ProofSeriesViewPart {
+  filename: string;
+  eventCount: number;
+  link: ProofSeriesLink['status'];
+  /** そのタブの proof 単独の検証結果 (未検証なら false) */
+  valid: boolean;
+}
+
+export interface ProofSeriesView {
+  /**
+   * merged: 統合した / incomplete: 前の proof が読み込まれていない /
+   * invalid: 検証に通らない proof か、つながらない link がある
+   */
+  status: 'merged' | 'incomplete' | 'invalid';
+  parts: ProofSeriesViewPart[];
+  /** status が merged のときだけ */
+  timeline?: MergedProofTimeline;
+  /** status が merged のときだけ。各タブのスクリーンショットを統合後の位置へずらしたもの */
+  screenshots?: VerifyScreenshot[];
+  /** status が merged のときだけ。先頭の proof の記録開始時刻 (チャート X 軸用) */
+  startTimestamp?: number;
+}
+
+/**
+ * `tab` の proof が継続していなければ null。
+ */
+export function buildProofSeriesView(tab: VerifyTabState, tabs: readonly VerifyTabState[]): ProofSeriesView | null {
+  if (!tab.proofData?.continuation) return null;
+
+  const tabByProof = new Map<ProofFile, VerifyTabState>();
+  for (const t of tabs) {
+    if (t.proofData) tabByProof.set(t.proofData, t);
+  }
+  tabByProof.set(tab.proofData, tab);
+
+  const { proofs, complete } = collectProofSeries(tab.proofData, [...tabByProof.keys()]);
+  const seriesTabs = proofs.map((proof) => tabByProof.get(proof)!);
+  const links = checkProofSeriesLinks(proofs);
+  const parts: ProofSeriesViewPart[] = seriesTabs.map((t, i) => ({
+    filename: t.filename,
+    eventCount: t.proofData?.proof?.events?.length ?? 0,
+    // 先頭がそろっていない列の先頭は「前が無い」のであって link が切れているのではない
+    link: !complete && i === 0 ? 'start' : links[i]!.status,
+    valid: t.verificationResult?.valid === true,
+  }));
+
+  if (!complete) return { status: 'incomplete', parts };
+  if (parts.some((p) => !p.valid || p.link === 'broken')) return { status: 'invalid', parts };
+
+  const timeline = mergeProofSeries(proofs.map((proof, i) => ({ ...proof, filename: seriesTabs[i]!.filename })));
+  const screenshots = seriesTabs.flatMap((t, i) => {
+    const part = timeline.parts[i]!;
+    return (t.screenshots ?? []).map((s) => ({
+      ...s,
+      eventSequence: s.eventSequence + part.firstEventIndex,
+      timestamp: s.timestamp + part.timeOffsetMs,
+    }));
+  });
+
+  return { status: 'merged', parts, timeline, screenshots, startTimestamp: seriesTabs[0]!.startTimestamp };
+}
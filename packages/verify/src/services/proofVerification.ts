@@ -1,7 +1,7 @@
 /**
  * proofVerification - verify (web) の検証実行 (Web Worker から呼ばれる純ロジック)
  *
- * **検証そのものは shared の `verifyProofFile` に全面委譲する** (#211)。ここは
+ * **検証そのものは shared の `verifyProofStream` (`verifyProofFile` と同一の結論) に全面委譲する** (#211)。ここは
  * 「shared の結果を UI 型 (VerificationResultData) に写す」だけのアダプタで、判定ロジックを
  * 書かない (verify/CLAUDE.md の不変条件: shared の検証ロジックを再実装しない)。
  *
@@ -12,12 +12,18 @@
  */
 
 import {
+  ANALYSIS_MAX_EVENTS,
   CHECKPOINT_PUBLIC_KEYS,
+  analyzeTampering,
   findCheckpointPublicKey,
+  isSignedCheckpointEnvelope,
+  parseTimestampToken,
   runAnalysis,
+  shouldAnalyzeTampering,
   summarizeAnalysisForAssurance,
+  toProofEventStream,
   verifyExamBinding,
-  verifyProofFile,
+  verifyProofStream,
 } from '@typedcode/shared';
 import type {
   AnalysisReport,
@@ -25,9 +31,12 @@ import type {
   CheckpointData,
   CheckpointPublicKey,
   ExamPackageManifest,
-  ProofFile as SharedProofFile,
+  FullVerificationResult,
+  MigratedProof,
+  ProofEventStream,
   SignedCheckpointsVerificationResult,
-  StoredEvent,
+  SubmissionReceipt,
+  TamperForensicsReport,
 } from '@typedcode/shared';
 import type {
   AnchorEnvelopeIssue,
@@ -51,64 +60,79 @@ export interface RunProofVerificationOptions {
   onChainProgress?: (current: number, total: number) => void;
   /** 公開鍵レジストリ (テストから注入)。未指定なら shared の既定 registry。 */
   signedCheckpointKeyRegistry?: readonly CheckpointPublicKey[];
+  /** RFC 3161 のトークン (ADR-0049) を検証する TSA のルート証明書 (テストから注入)。未指定なら組み込みのルート。 */
+  tsaRootCertificates?: readonly string[];
+  /** 同じ ZIP に同梱された提出レシート (ADR-0047)。あれば proof の最終状態と突合する。 */
+  submissionReceipt?: SubmissionReceipt;
+  /**
+   * proof 全体を読む分析 (runAnalysis / 改竄推定) を行う events 数の上限。超えたら分析を省き
+   * `analysisSkipped` を立てる。未指定なら `ANALYSIS_MAX_EVENTS`。
+   */
+  analysisMaxEvents?: number;
 }
 
 /**
  * 検証に入る前の形式チェック。null なら検証可能。
- * metadata (v3.0.0 以降) と events が無い proof は検証対象外として UI にエラーを出す。
+ * metadata (v3.0.0 以降) と events (配列) が無い proof は検証対象外として UI にエラーを出す。
  */
-export function findUnsupportedProofReason(proof: ProofFile): UnsupportedProofReason | null {
+export function findUnsupportedProofReason(stream: ProofEventStream): UnsupportedProofReason | null {
+  const { header } = stream;
   // content は空文字列を許可（初期化のみのファイル）
-  const hasContent = proof.content !== undefined && proof.content !== null;
-  if (!proof.typingProofHash || !proof.typingProofData || !hasContent) {
+  const hasContent = header.content !== undefined && header.content !== null;
+  if (!header.typingProofHash || !header.typingProofData || !hasContent) {
     return 'errors.unsupportedFormat';
   }
-  if (!proof.proof?.events) {
+  if (!stream.events) {
     return 'errors.noEvents';
   }
   return null;
 }
 
-function poswModeFor(mode: VerificationMode): PoswMode {
-  switch (mode) {
-    case 'fast':
-      return 'skipped';
-    case 'audit':
-      // Phase 2 ではプレースホルダ (現状 full と同じ挙動)
-      return 'full';
-    default:
-      return 'full';
-  }
+function poswModeFor(result: FullVerificationResult): PoswMode {
+  if (result.poswSkipped) return 'skipped';
+  // audit (ADR-0034): 標本が全件を覆った小さな proof は full と同じ保証なので 'full'。
+  if (result.poswAudit && result.poswAudit.sampleSize < result.poswAudit.population) return 'sampled';
+  return 'full';
+}
+
+/** PoSW 統計の集計途中の値 (表示専用。判定には使わない) */
+interface PoSWStatsTally {
+  count: number;
+  totalTimeMs: number;
+  iterations: number;
 }
 
 /**
- * PoSW統計を計算 (表示専用。判定には使わない)
+ * events をそのまま流しながら PoSW 統計を数える。検証 (`verifyProofStream`) が events を読むついでに
+ * 集計するので、統計のために proof 全体を持ち直さずに済む。
  */
-function calculatePoSWStats(events: StoredEvent[]): VerificationResultData['poswStats'] {
-  const eventsWithPoSW = events.filter((event) => 'posw' in event && event.posw && typeof event.posw === 'object');
-
-  if (eventsWithPoSW.length === 0) {
-    return undefined;
-  }
-
-  let totalComputeTime = 0;
-  let iterations = 0;
-
-  for (const event of eventsWithPoSW) {
-    const posw = event.posw as { iterations: number; computeTimeMs: number };
-    totalComputeTime += posw.computeTimeMs;
-    if (iterations === 0) {
-      iterations = posw.iterations;
+async function* tallyPoSW(
+  events: AsyncIterable<unknown> | Iterable<unknown>,
+  tally: PoSWStatsTally
+): AsyncGenerator<unknown> {
+  for await (const event of events) {
+    const posw = (event as { posw?: unknown } | null)?.posw;
+    if (posw && typeof posw === 'object') {
+      const { iterations, computeTimeMs } = posw as { iterations: number; computeTimeMs: number };
+      tally.count++;
+      tally.totalTimeMs += computeTimeMs;
+      if (tally.iterations === 0) {
+        tally.iterations = iterations;
+      }
     }
+    yield event;
   }
+}
 
-  const avgTimeMs = eventsWithPoSW.length > 0 ? totalComputeTime / eventsWithPoSW.length : 0;
-
+function poswStatsFrom(tally: PoSWStatsTally): VerificationResultData['poswStats'] {
+  if (tally.count === 0) {
+    return undefined;
+  }
   return {
-    count: eventsWithPoSW.length,
-    avgTimeMs,
-    totalTimeMs: totalComputeTime,
-    iterations,
+    count: tally.count,
+    avgTimeMs: tally.totalTimeMs / tally.count,
+    totalTimeMs: tally.totalTimeMs,
+    iterations: tally.iterations,
   };
 }
 
@@ -123,25 +147,40 @@ const EMPTY_SIGNED_CHECKPOINTS: SignedCheckpointsVerificationResult = {
 };
 
 /**
- * 検証を実行し UI 型の結果を返す。
- *
- * 手順は verify-cli (`packages/verify-cli/src/verify.ts`) と同じ順序:
- * exam 束縛 → `verifyProofFile` → `runAnalysis` (advisory)。
+ * メモリ上の proof を検証し UI 型の結果を返す (`runProofStreamVerification` の配列版)。
+ * proof は読み込み時に `migrateProof` を通したもの。
  */
 export async function runProofVerification(
   proof: ProofFile,
   options: RunProofVerificationOptions = {}
+): Promise<VerificationResultData> {
+  return runProofStreamVerification(toProofEventStream(proof), () => proof, options);
+}
+
+/**
+ * events を 1 件ずつ読みながら検証し UI 型の結果を返す (ADR-0039)。
+ *
+ * 手順は verify-cli (`packages/verify-cli/src/verify.ts`) と同じ順序:
+ * exam 束縛 → `verifyProofStream` → `runAnalysis` (advisory)。
+ * PoSW 統計 (表示専用) は検証が events を読むついでに数える。分析は events 全体を使うので、検証を
+ * 終えてから `loadProof` で proof 全体を読む。events が `analysisMaxEvents` を超える proof は
+ * 分析を省き、`loadProof` を呼ばない (proof 全体を一度もメモリに持たない)。
+ */
+export async function runProofStreamVerification(
+  stream: ProofEventStream,
+  loadProof: () => MigratedProof | Promise<MigratedProof>,
+  options: RunProofVerificationOptions = {}
 ): Promise<VerificationResultData> {
   const mode: VerificationMode = options.mode ?? 'full';
-  const sharedProof = proof as unknown as SharedProofFile;
-  const totalEvents = proof.proof?.events?.length ?? 0;
+  const { header } = stream;
+  const totalEvents = stream.eventCount;
 
   // 1. 試験モード (ADR-0006): exam ブロックがあり package も渡されたときのみ完全束縛を検証する。
-  //    root アンカー gate (#131) の exam 免除は「検証済み束縛」に基づくので verifyProofFile より前に計算する。
+  //    root アンカー gate (#131) の exam 免除は「検証済み束縛」に基づくので検証本体より前に計算する。
   let examBinding: NonNullable<VerificationResultData['exam']>['binding'];
-  if (proof.exam && options.manifest) {
+  if (header.exam && options.manifest) {
     try {
-      examBinding = await verifyExamBinding(sharedProof, options.manifest);
+      examBinding = await verifyExamBinding(header, options.manifest);
     } catch (err) {
       examBinding = {
         valid: false,
@@ -157,24 +196,43 @@ export async function runProofVerification(
 
   // 2. 検証本体。metadata / chain / finalHash / content / checkpoint / 署名 cp /
   //    sessionStartToken 突合 の合成はすべて shared 側 (CLI と同一の結論)。
-  const result = await verifyProofFile(sharedProof, options.onChainProgress, {
+  const poswTally: PoSWStatsTally = { count: 0, totalTimeMs: 0, iterations: 0 };
+  const tallied: ProofEventStream = { ...stream, events: stream.events && tallyPoSW(stream.events, poswTally) };
+  const result = await verifyProofStream(tallied, options.onChainProgress, {
     mode,
     examBindingVerified: examBinding?.valid === true,
     signedCheckpointKeyRegistry: options.signedCheckpointKeyRegistry,
+    tsaRootCertificates: options.tsaRootCertificates,
+    submissionReceipt: options.submissionReceipt,
   });
 
   const signedCheckpoints = result.signedCheckpoints ?? EMPTY_SIGNED_CHECKPOINTS;
 
   // 3. 分析層 (ADR-0009): 検証と直交する post-hoc 分析。advisory であって判定ではない
   //    (valid には一切反映しない)。分析の失敗は検証結果を落とさない。
+  //    大きな proof は parse しない (ADR-0039)。省いたことは analysisSkipped で UI に出す。
+  const analysisSkipped = totalEvents > (options.analysisMaxEvents ?? ANALYSIS_MAX_EVENTS);
+  const proof = analysisSkipped ? null : await loadProof();
   let analysis: AnalysisReport | undefined;
-  try {
-    analysis = await runAnalysis({ proof: sharedProof, verification: result });
-  } catch {
-    analysis = undefined;
+  if (proof) {
+    try {
+      analysis = await runAnalysis({ proof, verification: result });
+    } catch {
+      analysis = undefined;
+    }
   }
 
-  const examResult: VerificationResultData['exam'] = proof.exam
+  // 4. 検証に落ちた proof は、何が書き換えられたかを推定する (verify-cli と同じ条件。advisory)。
+  let tamperForensics: TamperForensicsReport | undefined;
+  if (proof && shouldAnalyzeTampering(result)) {
+    try {
+      tamperForensics = await analyzeTampering(proof, mode === 'fast' ? { poswBudget: 0 } : {});
+    } catch {
+      tamperForensics = undefined;
+    }
+  }
+
+  const examResult: VerificationResultData['exam'] = header.exam
     ? {
         present: true,
         rootValid: result.rootValid ?? false,
@@ -189,6 +247,7 @@ export async function runProofVerification(
     rootValid: result.rootValid,
     rootAnchored: result.rootAnchored,
     sessionTokenMismatch: result.sessionTokenMismatch,
+    poswTiming: result.poswTiming,
     chainValid: result.chainValid,
     finalHashValid: result.finalHashValid,
     contentValid: result.contentValid,
@@ -197,9 +256,10 @@ export async function runProofVerification(
     message: result.errorMessage,
     errorAt: result.errorAt,
     totalEvents,
-    poswStats: calculatePoSWStats(proof.proof.events),
+    poswStats: poswStatsFrom(poswTally),
     verificationMode: mode,
-    poswMode: poswModeFor(mode),
+    poswMode: poswModeFor(result),
+    poswAudit: result.poswAudit,
     signedCheckpointValid: signedCheckpoints.anchored ? signedCheckpoints.valid : undefined,
     signedCheckpointAnchored: signedCheckpoints.anchored,
     signedCheckpointCoverage: signedCheckpoints.coverage,
@@ -207,11 +267,14 @@ export async function runProofVerification(
     signedCheckpointDensity: signedCheckpoints.density,
     signedCheckpointReason: signedCheckpoints.reason,
     signedCheckpointReport: buildSignedCheckpointReport(
-      proof.checkpoints ?? [],
+      header.checkpoints,
       signedCheckpoints,
       options.signedCheckpointKeyRegistry
     ),
     analysis,
+    analysisSkipped: analysisSkipped || undefined,
+    tamperForensics,
+    submissionReceipt: result.submissionReceipt,
     exam: examResult,
   };
 }
@@ -250,7 +313,7 @@ export function buildAssuranceInput(
           bindingValid: result.exam.binding?.valid,
         }
       : undefined,
-    rootAnchored: result.rootAnchored ?? false,
+    rootAnchored: result.rootAnchored,
     signedCheckpoints:
       result.signedCheckpointAnchored !== undefined
         ? {
@@ -265,6 +328,10 @@ export function buildAssuranceInput(
     // #214: fast モードは PoSW を再計算していないので integrity を proven に上げない。
     // CLI は shared の `poswSkipped` を直接渡す — こちらの `poswMode` はその写像 (`poswModeFor`)。
     poswSkipped: result.poswMode === 'skipped',
+    // ADR-0034: audit の標本再計算は proven ではなく sampled。
+    poswSampled: result.poswMode === 'sampled',
+    // ADR-0042: 申告 timestamp と較正した PoSW 速度の整合 (サーバ証拠の無い proof の temporal)。
+    poswTiming: result.poswTiming?.status,
   };
 }
 
@@ -279,6 +346,9 @@ export function buildAssuranceInput(
  *   description / status / validFrom 等を返す (鍵 rotation や revoke の根拠)。
  * - 失敗 / 警告 envelope の特定: verifySignedCheckpoints の details から
  *   valid=false や warning 付きのものを抜き出す。エラー位置の根拠になる。
+ *
+ * RFC 3161 のトークン (ADR-0049) で固定した checkpoint は payload を持たないので、範囲は
+ * checkpoint の eventIndex と details の genTime で表し、鍵の代わりに TSA の名前を並べる。
  */
 export function buildSignedCheckpointReport(
   checkpoints: readonly CheckpointData[],
@@ -286,30 +356,36 @@ export function buildSignedCheckpointReport(
   registry: readonly CheckpointPublicKey[] | undefined = CHECKPOINT_PUBLIC_KEYS
 ): SignedCheckpointReport {
   const signed = checkpoints.filter((cp) => cp.signature);
+  const envelopes = signed.map((cp) => cp.signature).filter(isSignedCheckpointEnvelope);
   const detailByEvent = new Map(result.details.map((d) => [d.eventIndex, d]));
 
-  const firstEnvelope = signed[0]?.signature;
-  const lastEnvelope = signed[signed.length - 1]?.signature;
+  const firstEnvelope = envelopes[0];
 
-  const toAnchor = (
-    env:
-      | { payload: { checkpointIndex: number; eventIndex: number; serverTimestamp: string; clientTimestamp: string } }
-      | undefined
-  ): AnchorPoint | undefined =>
-    env
-      ? {
-          checkpointIndex: env.payload.checkpointIndex,
-          eventIndex: env.payload.eventIndex,
-          serverTimestamp: env.payload.serverTimestamp,
-          clientTimestamp: env.payload.clientTimestamp,
-        }
-      : undefined;
+  const toAnchor = (cp: CheckpointData | undefined): AnchorPoint | undefined => {
+    const signature = cp?.signature;
+    if (!cp || !signature) return undefined;
+    if (isSignedCheckpointEnvelope(signature)) {
+      return {
+        checkpointIndex: signature.payload.checkpointIndex,
+        eventIndex: signature.payload.eventIndex,
+        serverTimestamp: signature.payload.serverTimestamp,
+        clientTimestamp: signature.payload.clientTimestamp,
+      };
+    }
+    const detail = detailByEvent.get(cp.eventIndex);
+    return {
+      checkpointIndex: detail?.checkpointIndex ?? 0,
+      eventIndex: cp.eventIndex,
+      serverTimestamp: detail?.timestampToken?.genTime ?? parseTimestampToken(signature.token)?.genTime ?? '',
+      clientTimestamp: signature.clientTimestamp,
+    };
+  };
 
   // 一意な keyId を抽出 (順序保持)
   const uniqueKeyIds: string[] = [];
   const seenKeyIds = new Set<string>();
-  for (const cp of signed) {
-    const kid = cp.signature?.keyId;
+  for (const envelope of envelopes) {
+    const kid = envelope.keyId;
     if (!kid || seenKeyIds.has(kid)) continue;
     seenKeyIds.add(kid);
     uniqueKeyIds.push(kid);
@@ -334,25 +410,29 @@ export function buildSignedCheckpointReport(
   const failedEnvelopes: AnchorEnvelopeIssue[] = [];
   const warningEnvelopes: AnchorEnvelopeIssue[] = [];
   for (const cp of signed) {
-    const payload = cp.signature?.payload;
-    if (!payload) continue;
-    const detail = detailByEvent.get(payload.eventIndex);
+    const anchor = toAnchor(cp);
+    if (!anchor) continue;
+    const detail = detailByEvent.get(anchor.eventIndex);
     if (detail && !detail.valid) {
       failedEnvelopes.push({
-        checkpointIndex: payload.checkpointIndex,
-        eventIndex: payload.eventIndex,
+        checkpointIndex: anchor.checkpointIndex,
+        eventIndex: anchor.eventIndex,
         reason: detail.reason ?? 'invalid',
       });
     }
     if (detail?.warning) {
       warningEnvelopes.push({
-        checkpointIndex: payload.checkpointIndex,
-        eventIndex: payload.eventIndex,
+        checkpointIndex: anchor.checkpointIndex,
+        eventIndex: anchor.eventIndex,
         reason: detail.warning,
       });
     }
   }
 
+  const timestampAuthorities = [
+    ...new Set(result.details.flatMap((d) => (d.timestampToken ? [d.timestampToken.tsaName ?? 'unnamed TSA'] : []))),
+  ];
+
   const validCount = result.details.filter((d) => d.valid).length;
 
   return {
@@ -361,9 +441,10 @@ export function buildSignedCheckpointReport(
     validCount,
     firstSeenAt: firstEnvelope?.payload.firstSeenAt,
     initialEventChainHash: firstEnvelope?.payload.initialEventChainHash,
-    firstAnchor: toAnchor(firstEnvelope),
-    lastAnchor: toAnchor(lastEnvelope),
+    firstAnchor: toAnchor(signed[0]),
+    lastAnchor: toAnchor(signed[signed.length - 1]),
     keys,
+    timestampAuthorities,
     failedEnvelopes,
     warningEnvelopes,
   };
@@ -0,0 +1,77 @@
+/**
+ * 検証済みのタブから伏せ字バンドル (ADR-0043) を作る。
+ *
+ * Tier A (`analysis-bundle/1`) はタブの検証結果 (worker のストリーム検証) から組み立て、メインスレッドで
+ * 再検証しない。総合判定と三層保証は TabController と同じ写像 (`isOverallValid` / `buildAssuranceInput`)
+ * なので、verify-cli の `--analysis-bundle` と同じバンドルになる。伏せ字の events (未検証のメタデータ) は
+ * shared の `createRedactedEvents` が proof から作る。
+ */
+
+import JSZip from 'jszip';
+import {
+  buildAnalysisBundle,
+  createRedactedEvents,
+  deriveAssurance,
+  redactedBundleFiles,
+  summarizeProcess,
+  type RedactedBundle,
+} from '@typedcode/shared';
+import type { VerifyTabState } from '../types.js';
+import { buildAssuranceInput, isOverallValid } from './proofVerification.js';
+import { summarizeTabScreenshots } from './screenshotSummary.js';
+
+export type TabRedactedBundle = Pick<RedactedBundle, 'analysisBundle' | 'redactedEvents'>;
+
+/**
+ * タブの伏せ字バンドル。検証が済んでいない (分析結果が無い) タブは null。
+ * 検証に通らなかったタブも作る (`integrityValid: false` を注記する。verify-cli と同じ)。
+ */
+export async function buildTabRedactedBundle(
+  tab: Pick<VerifyTabState, 'filename' | 'proofData' | 'verificationResult' | 'screenshots'>,
+  options: { includeRedactedEvents: boolean }
+): Promise<TabRedactedBundle | null> {
+  const proof = tab.proofData;
+  const vr = tab.verificationResult;
+  if (!proof || !vr?.analysis) return null;
+
+  const screenshotsTampered = summarizeTabScreenshots({
+    screenshots: tab.screenshots,
+    events: proof.proof.events,
+  })?.tampered;
+  const analysisBundle = {
+    filename: tab.filename,
+    ...buildAnalysisBundle({
+      integrityValid: isOverallValid(vr, { screenshotsTampered }),
+      processSummary: summarizeProcess(proof.proof.events),
+      analysis: vr.analysis,
+      assurance: deriveAssurance(buildAssuranceInput(vr, { screenshotsTampered })),
+    }),
+  };
+
+  return {
+    analysisBundle,
+    ...(options.includeRedactedEvents ? { redactedEvents: await createRedactedEvents(proof) } : {}),
+  };
+}
+
+/**
+ * ダウンロードするファイル。分析のみなら `<base>_analysis.json`、伏せ字の events も添えるなら
+ * 2 ファイルを `<base>_redacted.zip` にまとめる。
+ */
+export async function packRedactedBundle(
+  filename: string,
+  bundle: TabRedactedBundle
+): Promise<{ filename: string; blob: Blob }> {
+  const baseName = filename.replace(/\.[^.]+$/, '');
+  const files = redactedBundleFiles(baseName, bundle);
+  if (files.length === 1) {
+    return { filename: files[0]!.name, blob: new Blob([files[0]!.content], { type: 'application/json' }) };
+  }
+
+  const zip = new JSZip();
+  for (const file of files) zip.file(file.name, file.content);
+  return {
+    filename: `${baseName}_redacted.zip`,
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+  };
+}
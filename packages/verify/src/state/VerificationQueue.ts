@@ -5,14 +5,13 @@
 
 import type {
   QueueItem,
-  ProofFile,
   VerificationResultData,
   VerificationMode,
   WorkerRequestMessage,
   WorkerResponseMessage,
   ProgressDetails,
 } from '../types.js';
-import type { ExamPackageManifest } from '@typedcode/shared';
+import type { ExamPackageManifest, SubmissionReceipt } from '@typedcode/shared';
 
 export interface ProgressCallbackParams {
   id: string;
@@ -35,11 +34,13 @@ export class VerificationQueue {
   private onCompleteCallback: CompleteCallback | null = null;
   private onErrorCallback: ErrorCallback | null = null;
 
-  // 各アイテムのパース済みデータを保持
-  private parsedDataMap: Map<string, ProofFile> = new Map();
+  // proof の JSON テキストはキューのアイテムだけが持ち、Worker に渡したら手放す (ADR-0039)。
+  // 数百 MB の proof をメインスレッドに残し続けないため。
   private modeMap: Map<string, VerificationMode> = new Map();
   // 試験モード (ADR-0006): grader が後から読み込んだ問題パッケージ (per item)
   private manifestMap: Map<string, ExamPackageManifest> = new Map();
+  // 提出レシート (ADR-0047): 同じ ZIP の全 proof が同じレシートを引く (per item。再検証でも使う)
+  private receiptMap: Map<string, SubmissionReceipt> = new Map();
 
   /**
    * Workerを初期化
@@ -73,20 +74,14 @@ export class VerificationQueue {
    * キューにアイテムを追加。modeOverride で個別アイテムのモードを指定可
    */
   enqueue(item: QueueItem, modeOverride?: VerificationMode): void {
-    // JSONをパースして保存
-    try {
-      const proofData = JSON.parse(item.rawData) as ProofFile;
-      this.parsedDataMap.set(item.id, proofData);
-      this.modeMap.set(item.id, modeOverride ?? this.mode);
-      this.queue.push(item);
+    // JSON の parse は Worker が検証しながら行う (壊れた JSON は Worker の error として返る)
+    this.modeMap.set(item.id, modeOverride ?? this.mode);
+    if (item.submissionReceipt) this.receiptMap.set(item.id, item.submissionReceipt);
+    this.queue.push(item);
 
-      // 処理中でなければ開始
-      if (!this.isProcessing) {
-        this.processNext();
-      }
-    } catch (error) {
-      console.error('[VerificationQueue] Failed to parse JSON:', error);
-      this.onErrorCallback?.(item.id, `JSON parse error: ${error instanceof Error ? error.message : String(error)}`);
+    // 処理中でなければ開始
+    if (!this.isProcessing) {
+      this.processNext();
     }
   }
 
@@ -101,14 +96,9 @@ export class VerificationQueue {
     }
 
     this.isProcessing = true;
-    this.processing = this.queue.shift()!;
-
-    const proofData = this.parsedDataMap.get(this.processing.id);
-    if (!proofData) {
-      this.onErrorCallback?.(this.processing.id, 'Proof data not found');
-      this.processNext();
-      return;
-    }
+    const item = this.queue.shift()!;
+    // rawData は Worker への postMessage で複製されるので、処理中のアイテムには残さない
+    this.processing = { ...item, rawData: '' };
 
     if (!this.worker) {
       this.initialize();
@@ -116,10 +106,11 @@ export class VerificationQueue {
 
     const message: WorkerRequestMessage = {
       type: 'verify',
-      id: this.processing.id,
-      proofData,
+      id: item.id,
+      rawData: item.rawData,
       mode: this.modeMap.get(this.processing.id) ?? this.mode,
       manifest: this.manifestMap.get(this.processing.id),
+      submissionReceipt: this.receiptMap.get(this.processing.id),
     };
 
     this.worker!.postMessage(message);
@@ -127,16 +118,15 @@ export class VerificationQueue {
 
   /**
    * 試験モード (ADR-0006): 既に読み込み済みの proof を、後から渡された問題パッケージ
-   * (.tcexam) で再検証する。proofData は parsedDataMap に cache 済みなので再パース不要。
+   * (.tcexam) で再検証する。proof の JSON テキストはキューが保持しないので、呼び出し側が渡し直す。
    */
-  reverifyWithManifest(id: string, manifest: ExamPackageManifest): void {
-    if (!this.parsedDataMap.has(id)) {
+  reverifyWithManifest(id: string, rawData: string, manifest: ExamPackageManifest): void {
+    if (!this.modeMap.has(id)) {
       console.warn('[VerificationQueue] reverifyWithManifest: unknown id', id);
       return;
     }
     this.manifestMap.set(id, manifest);
-    // proofData は cache 済みなので rawData は不要 (processNext は parsedDataMap を引く)
-    this.queue.push({ id, filename: '', rawData: '' });
+    this.queue.push({ id, filename: '', rawData });
     if (!this.isProcessing) {
       this.processNext();
     }
@@ -169,8 +159,6 @@ export class VerificationQueue {
         break;
 
       case 'result':
-        // 処理済みデータをクリーンアップ（メモリ節約）
-        // ただしproofDataは結果表示に必要なので残す
         // processNextを先に呼ぶことでキューの状態を更新してからコールバックを呼ぶ
         this.processNext();
         if (msg.result) {
@@ -210,13 +198,6 @@ export class VerificationQueue {
     return this.isProcessing;
   }
 
-  /**
-   * パース済みのProofDataを取得
-   */
-  getParsedData(id: string): ProofFile | null {
-    return this.parsedDataMap.get(id) ?? null;
-  }
-
   /**
    * 進捗コールバックを設定
    */
@@ -243,7 +224,6 @@ export class VerificationQueue {
    */
   clear(): void {
     this.queue = [];
-    this.parsedDataMap.clear();
     this.modeMap.clear();
     // 処理中のアイテムはそのまま完了を待つ
   }
@@ -257,7 +237,6 @@ export class VerificationQueue {
       this.worker = null;
     }
     this.queue = [];
-    this.parsedDataMap.clear();
     this.modeMap.clear();
     this.processing = null;
     this.isProcessing = false;
@@ -1,24 +1,30 @@
 import type {
+  CheckpointData,
   ExportedProof,
   StoredEvent,
   InputType,
   DisplayInfo,
   ScreenshotCaptureType,
-  HumanAttestation,
   SignedCheckpointsVerificationResult,
+  PoswTimingResult,
   ExamPackageManifest,
   ExamBindingVerificationResult,
   AnalysisReport,
+  PoswAuditSummary,
+  TamperForensicsReport,
+  SubmissionReceipt,
+  SubmissionReceiptCheckResult,
 } from '@typedcode/shared';
 
 // Re-export HumanAttestation from shared for backward compatibility
 export type { HumanAttestation } from '@typedcode/shared';
 
 // Extended proof data with content and language
+// 読み込み時に shared の `migrateProof` を通した現行の形 (checkpoints は常に配列、最上位の humanAttestation は無い)
 export interface ProofFile extends ExportedProof {
   content: string;
   language: string;
-  humanAttestation?: HumanAttestation;
+  checkpoints: CheckpointData[];
 }
 
 // Content cache type
@@ -77,12 +83,14 @@ export interface VerificationResultData {
   metadataValid: boolean;
   rootValid?: boolean;
   /** root がサーバアンカーされているか (ADR-0017)。`sessionStartToken` で root がアンカーされていれば true。 */
-  rootAnchored?: boolean;
+  rootAnchored: boolean;
   /**
    * `sessionStartToken` の sessionId と署名 cp の sessionId が食い違ったか (spec §6.3)。
    * true = 別セッションのトークン流用。**整合性 (chainValid) ではなく時刻アンカー層の問題**として扱う。
    */
   sessionTokenMismatch?: boolean;
+  /** 較正した PoSW 速度と申告 timestamp の整合 (ADR-0042)。較正の無い proof は status が uncalibrated。 */
+  poswTiming?: PoswTimingResult;
   chainValid: boolean;
   finalHashValid?: boolean;
   contentValid?: boolean;
@@ -120,6 +128,8 @@ export interface VerificationResultData {
   // 検証モード (Phase 2 で worker から設定される)
   verificationMode?: VerificationMode;
   poswMode?: PoswMode;
+  /** audit モードの PoSW 標本と統計的上限 (ADR-0034)。 */
+  poswAudit?: PoswAuditSummary;
   // Signed checkpoint 検証結果 (Phase 1.5)
   signedCheckpointValid?: boolean;
   signedCheckpointCoverage?: SignedCheckpointsVerificationResult['coverage'];
@@ -130,6 +140,12 @@ export interface VerificationResultData {
   signedCheckpointAnchored?: boolean;
   /** 分析層 (ADR-0009) の advisory レポート。判定ではない (valid とは独立軸)。 */
   analysis?: AnalysisReport;
+  /** events が多すぎて分析 (と改竄推定) を省いたとき true (ADR-0039)。検証結果には影響しない */
+  analysisSkipped?: boolean;
+  /** 検証に落ちた proof の書き換えの推定 (hash chain・metadata・署名 cp が落ちたときのみ)。advisory */
+  tamperForensics?: TamperForensicsReport;
+  /** 提出レシート (ADR-0047) との突合。ZIP にレシートが同梱されていたときのみ。無効なら valid も false */
+  submissionReceipt?: SubmissionReceiptCheckResult;
   /**
    * 「時刻アンカー」カードの展開ビュー用の追加情報。
    * - 検証に用いた公開鍵の registry エントリ
@@ -170,6 +186,8 @@ export interface SignedCheckpointReport {
   lastAnchor?: AnchorPoint;
   /** envelope で使用された鍵 (重複なし) と registry での扱い */
   keys: AnchorKeyInfo[];
+  /** RFC 3161 のトークン (ADR-0049) を押した TSA の名前 (検証に通ったもの、重複なし) */
+  timestampAuthorities: string[];
   /** 失敗 (valid=false) した envelope の要約。verify=true の時は空配列。 */
   failedEnvelopes: AnchorEnvelopeIssue[];
   /** 警告 (鍵 revoke 後の trust など) が付いた envelope */
@@ -179,6 +197,7 @@ export interface SignedCheckpointReport {
 export interface AnchorPoint {
   checkpointIndex: number;
   eventIndex: number;
+  /** サーバ署名の serverTimestamp。RFC 3161 のトークンでは TSA の genTime */
   serverTimestamp: string;
   clientTimestamp: string;
 }
@@ -263,17 +282,25 @@ export interface QueueItem {
   id: string;
   filename: string;
   rawData: string;
+  /** 同じ ZIP に同梱された提出レシート (ADR-0047)。あれば proof と突合する */
+  submissionReceipt?: SubmissionReceipt;
 }
 
 /** Worker メッセージ: メインスレッド→Worker */
 export interface WorkerRequestMessage {
   type: 'verify';
   id: string;
-  proofData: ProofFile;
+  /**
+   * proof の JSON テキスト。Worker は events を 1 件ずつ読みながら検証する (ADR-0039)。
+   * parse 済みの object graph を structured clone で渡すと、Worker 側にも events 全件の複製ができるため。
+   */
+  rawData: string;
   /** 検証モード。省略時はサーバ側のデフォルト ('full') を使う */
   mode?: VerificationMode;
   /** 試験モード (ADR-0006): 問題パッケージ (.tcexam)。あれば exam 束縛を完全検証する。 */
   manifest?: ExamPackageManifest;
+  /** 提出レシート (ADR-0047)。あれば proof の最終状態と突合する。 */
+  submissionReceipt?: SubmissionReceipt;
 }
 
 /** Worker メッセージ: Worker→メインスレッド */
@@ -333,6 +360,7 @@ export interface VerificationResult {
   errorMessage?: string;
   chainErrorDetails?: ChainErrorDetails; // チェーン検証エラーの詳細
   sampledVerification?: SampledVerificationInfo; // サンプリング検証の詳細
+  tamperForensics?: TamperForensicsReport; // 検証に落ちた proof の書き換えの推定
 }
 
 /** PoSW統計（UIコンポーネント用・表示形式） */
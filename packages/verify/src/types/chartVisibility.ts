@@ -41,6 +41,8 @@ export const EVENT_CATEGORY_MAP: Record<EventType, EventCategory> = {
   editorInitialized: 'system',
   networkStatusChange: 'system',
   sessionResumed: 'system',
+  sessionContinued: 'system',
+  poswCalibration: 'system',
   environmentProbe: 'system',
   examOpened: 'system',
   // Auth
@@ -91,7 +93,15 @@ export const EVENT_CATEGORIES: CategoryInfo[] = [
     id: 'system',
     labelKey: 'charts.categories.system',
     icon: 'fa-cog',
-    events: ['editorInitialized', 'networkStatusChange', 'sessionResumed', 'environmentProbe', 'examOpened'],
+    events: [
+      'editorInitialized',
+      'networkStatusChange',
+      'sessionResumed',
+      'sessionContinued',
+      'poswCalibration',
+      'environmentProbe',
+      'examOpened',
+    ],
   },
   {
     id: 'auth',
@@ -24,6 +24,8 @@ export class ActivityBar {
 
   private onOpenFile: () => void;
   private onOpenFolder: () => void;
+  private onCompareProofs: () => void;
+  private onExportRedactedBundle: (includeRedactedEvents: boolean) => void;
   private onThemeToggle: () => void;
   private onExplorerToggle: () => void;
   private onLanguageToggle: () => void;
@@ -36,6 +38,8 @@ export class ActivityBar {
   constructor(callbacks: {
     onOpenFile: () => void;
     onOpenFolder: () => void;
+    onCompareProofs?: () => void;
+    onExportRedactedBundle?: (includeRedactedEvents: boolean) => void;
     onThemeToggle: () => void;
     onExplorerToggle?: () => void;
     onLanguageToggle?: () => void;
@@ -45,6 +49,8 @@ export class ActivityBar {
   }) {
     this.onOpenFile = callbacks.onOpenFile;
     this.onOpenFolder = callbacks.onOpenFolder;
+    this.onCompareProofs = callbacks.onCompareProofs ?? (() => {});
+    this.onExportRedactedBundle = callbacks.onExportRedactedBundle ?? (() => {});
     this.onThemeToggle = callbacks.onThemeToggle;
     this.onExplorerToggle = callbacks.onExplorerToggle ?? (() => {});
     this.onLanguageToggle = callbacks.onLanguageToggle ?? (() => {});
@@ -128,6 +134,22 @@ export class ActivityBar {
       });
     }
 
+    // 表示中の proof と別の proof の差分
+    document.getElementById('compare-proofs-btn')?.addEventListener('click', () => {
+      this.hideAllDropdowns();
+      this.onCompareProofs();
+    });
+
+    // 伏せ字バンドルの書き出し (ADR-0043): 分析のみ / 分析 + 伏せ字の events
+    document.getElementById('export-analysis-bundle-btn')?.addEventListener('click', () => {
+      this.hideAllDropdowns();
+      this.onExportRedactedBundle(false);
+    });
+    document.getElementById('export-redacted-bundle-btn')?.addEventListener('click', () => {
+      this.hideAllDropdowns();
+      this.onExportRedactedBundle(true);
+    });
+
     // Theme toggle button
     this.themeToggleBtn.addEventListener('click', () => {
       this.hideAllDropdowns();
@@ -63,6 +63,33 @@ export class AnalysisReportCard {
     }
   }
 
+  /** events が多すぎて分析を省いた proof (ADR-0039)。シグナルが無いのではなく、見ていないことを示す。 */
+  renderSkipped(): void {
+    this.show();
+    this.cardElement = document.getElementById('card-analysis');
+    if (!this.cardElement) return;
+
+    const icon = this.cardElement.querySelector('#analysis-icon');
+    const badge = this.cardElement.querySelector('#analysis-badge');
+    const content = this.cardElement.querySelector('#analysis-content');
+
+    if (icon) {
+      icon.className = 'result-card-icon warning';
+    }
+    if (badge) {
+      badge.className = 'result-card-badge warning';
+      badge.textContent = t('analysis.skipped');
+    }
+    if (content) {
+      content.innerHTML = `
+      <div class="analysis-advisory-note">
+        <i class="fas fa-info-circle"></i>
+        <span>${t('analysis.skippedTooLarge')}</span>
+      </div>
+    `;
+    }
+  }
+
   private renderContent(report: AnalysisReport): string {
     const signals = report.signals.length
       ? `<ul class="analysis-signal-list">${report.signals.map((s) => this.renderSignal(s)).join('')}</ul>`
@@ -14,12 +14,18 @@ import { VerificationQueue } from '../state/VerificationQueue';
 import { UIStateManager } from '../state/UIStateManager';
 import { FileProcessor } from '../services/FileProcessor';
 import { TabController } from './controllers/TabController';
-import { FileController } from './controllers/FileController';
+import { FileController, pickFile } from './controllers/FileController';
 import { VerificationController } from './controllers/VerificationController';
 import { ChartController } from './controllers/ChartController';
 import { FolderController } from './controllers/FolderController';
-import { getI18n } from '../i18n/index';
+import { getI18n, t } from '../i18n/index';
 import { showAboutDialog } from './AboutDialog';
+import { showSimilarityDialog } from './SimilarityDialog';
+import { showRosterDialog } from './RosterDialog';
+import { showProofDiffDialog } from './ProofDiffDialog';
+import { buildTabRedactedBundle, packRedactedBundle } from '../services/redactedBundleExport';
+import { parseRosterCsv, reconcileRoster, runCohortAnalysis, type RosterSubmission } from '@typedcode/shared';
+import type { VerifyTabState } from '../types';
 
 export class AppController {
   private themeManager: ThemeManager;
@@ -53,6 +59,8 @@ export class AppController {
     new ActivityBar({
       onOpenFile: () => this.openFileDialog(),
       onOpenFolder: () => this.folderController.openFolderDialog(),
+      onCompareProofs: () => this.handleCompareProofs(),
+      onExportRedactedBundle: (includeRedactedEvents) => void this.handleExportRedactedBundle(includeRedactedEvents),
       onThemeToggle: () => this.themeManager.toggle(),
       onExplorerToggle: () => this.toggleSidebar(),
       onLanguageToggle: () => this.toggleLanguage(),
@@ -72,6 +80,8 @@ export class AppController {
       onFileRemove: (id) => this.handleFileRemove(id),
       onFilesDropped: (files) => this.handleFilesSelected(files),
       onFolderRemove: (folderId) => this.handleFolderRemove(folderId),
+      onFolderCompare: (folderId) => void this.handleFolderCompare(folderId),
+      onFolderRoster: (folderId) => void this.handleFolderRoster(folderId),
     });
 
     this.tabBar = new TabBar({
@@ -170,14 +180,15 @@ export class AppController {
       tabBar: this.tabBar,
       statusBar: this.statusBar,
       generateId: () => this.generateId(),
-      addFileToVerification: (filename, rawData, folderId, relativePath, screenshots, startTimestamp) => {
+      addFileToVerification: (filename, rawData, folderId, relativePath, screenshots, startTimestamp, receipt) => {
         this.fileController.addFileToVerification(
           filename,
           rawData,
           folderId,
           relativePath,
           screenshots,
-          startTimestamp
+          startTimestamp,
+          receipt
         );
       },
       addPlaintextFile: (fileData, folderId) => this.fileController.addPlaintextFile(fileData, folderId),
@@ -363,6 +374,129 @@ export class AppController {
     this.updateStatusBar();
   }
 
+  /**
+   * フォルダ内の proof を対ごとに比べ、提出物間類似 (ADR-0035) をダイアログで示す。
+   * 読み込み済みの proof (proofData あり) だけを対象にする。検証結果には影響しない。
+   */
+  private async handleFolderCompare(folderId: string): Promise<void> {
+    const tabs = this.sidebar
+      .getFilesInFolder(folderId)
+      .map((fileId) => this.tabManager.getTab(fileId))
+      .filter((tab): tab is VerifyTabState => !!tab?.proofData)
+      .sort((a, b) => a.filename.localeCompare(b.filename));
+    if (tabs.length < 2) {
+      this.statusBar.setError(t('similarity.notEnough'));
+      return;
+    }
+
+    const report = await runCohortAnalysis(tabs.map((tab) => ({ label: tab.filename, proof: tab.proofData! })));
+    showSimilarityDialog({
+      folderName: this.sidebar.getFolder(folderId)?.name ?? '',
+      report,
+      tabIds: tabs.map((tab) => tab.id),
+      onJump: (tabId, eventIndex) => {
+        // タブの表示切替は同期なので、直後のシークは切り替え先のシークバーに届く。
+        this.handleFileSelect(tabId);
+        document.dispatchEvent(new CustomEvent('verify:seek-to-event', { detail: { eventIndex } }));
+      },
+    });
+  }
+
+  /**
+   * 表示中のタブの proof と、読み込み済みの別の proof を並べて比べる。同じファイル名の proof を先に並べる
+   * (再提出や作り直しの比較が主な用途)。検証結果には影響しない。
+   */
+  private handleCompareProofs(): void {
+    const base = this.tabManager.getActiveTab();
+    const others = this.tabManager
+      .getAllTabs()
+      .filter((tab): tab is VerifyTabState => !!tab.proofData && tab.id !== base?.id);
+    if (!base?.proofData || others.length === 0) {
+      this.statusBar.setError(t('proofDiff.notEnough'));
+      return;
+    }
+
+    const stem = (filename: string) =>
+      filename.replace(/_proof\.(?:json|tcproof)$/i, '').replace(/\.(?:json|tcproof)$/i, '');
+    const sameFile = (tab: VerifyTabState) => (stem(tab.filename) === stem(base.filename) ? 0 : 1);
+    others.sort((a, b) => sameFile(a) - sameFile(b) || a.filename.localeCompare(b.filename));
+    showProofDiffDialog({
+      base: { label: base.filename, proof: base.proofData },
+      candidates: others.map((tab) => ({ label: tab.filename, proof: tab.proofData! })),
+    });
+  }
+
+  /**
+   * 表示中のタブの伏せ字バンドル (ADR-0043) をダウンロードする。検証が済んだ proof のタブに限る。
+   * 伏せ字の events は検証できず (型・時刻・長さが hash に束縛されない)、打鍵の中身も秘匿しない
+   * (event の hash から総当たりで復元できる) ので、書き出す前に確認する。
+   */
+  private async handleExportRedactedBundle(includeRedactedEvents: boolean): Promise<void> {
+    if (includeRedactedEvents && !confirm(t('redactedBundle.eventsConfirm'))) return;
+    const tab = this.tabManager.getActiveTab();
+    const bundle = tab ? await buildTabRedactedBundle(tab, { includeRedactedEvents }) : null;
+    if (!tab || !bundle) {
+      this.statusBar.setError(t('redactedBundle.notVerified'));
+      return;
+    }
+
+    const { filename, blob } = await packRedactedBundle(tab.filename, bundle);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 100);
+    this.statusBar.setMessage(
+      t(bundle.redactedEvents ? 'redactedBundle.exportedWithEvents' : 'redactedBundle.exported', { filename })
+    );
+  }
+
+  /**
+   * 名簿 CSV を選ばせ、フォルダ内の提出物と突き合わせる (ADR-0037)。
+   * 提出物の単位はフォルダ直下のファイル / 子フォルダ (展開した ZIP)。検証結果には影響しない。
+   */
+  private async handleFolderRoster(folderId: string): Promise<void> {
+    const file = await pickFile('.csv,text/csv');
+    if (!file) return;
+
+    let roster: ReturnType<typeof parseRosterCsv>;
+    try {
+      roster = parseRosterCsv(await file.text());
+    } catch (err) {
+      this.statusBar.setError(t('roster.invalid', { message: err instanceof Error ? err.message : String(err) }));
+      return;
+    }
+
+    const tabs = this.sidebar
+      .getFilesUnderFolder(folderId)
+      .map(({ id, topLevelName }) => ({ tab: this.tabManager.getTab(id), topLevelName }))
+      .filter((e): e is { tab: VerifyTabState; topLevelName: string } => !!e.tab?.proofData)
+      .sort((a, b) => a.tab.filename.localeCompare(b.tab.filename));
+    if (tabs.length === 0) {
+      this.statusBar.setError(t('roster.empty'));
+      return;
+    }
+
+    const submissions: RosterSubmission[] = tabs.map(({ tab, topLevelName }) => {
+      const exam = tab.proofData!.exam;
+      return {
+        source: topLevelName,
+        label: topLevelName === tab.filename ? tab.filename : `${topLevelName}#${tab.filename}`,
+        exam: exam ? { examId: exam.examId, problemId: exam.problemId, variant: exam.variant } : null,
+        deviceId: tab.proofData!.typingProofData?.deviceId ?? null,
+        withinWindow: tab.verificationResult?.exam?.binding?.timeBox?.withinWindow ?? null,
+      };
+    });
+    const manifest = tabs.find(({ tab }) => tab.examManifest)?.tab.examManifest;
+
+    showRosterDialog({
+      folderName: this.sidebar.getFolder(folderId)?.name ?? '',
+      rosterName: file.name,
+      report: reconcileRoster(roster, submissions, { manifest }),
+    });
+  }
+
   private showTabContent(id: string, forceRefresh: boolean = false): void {
     this.tabController.showTabContent(id, forceRefresh);
   }
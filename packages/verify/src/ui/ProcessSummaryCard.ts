@@ -7,6 +7,7 @@
  */
 
 import { escapeHtml, type ProcessSummary, type ProcessKeyMoment, type ProcessMomentKind } from '@typedcode/shared';
+import type { ProofSeriesView } from '../services/proofSeriesView.js';
 import { t } from '../i18n/index.js';
 
 export class ProcessSummaryCard {
@@ -22,7 +23,7 @@ export class ProcessSummaryCard {
     if (this.cardElement) this.cardElement.style.display = 'none';
   }
 
-  render(summary: ProcessSummary): void {
+  render(summary: ProcessSummary, series?: ProofSeriesView): void {
     this.show();
     this.cardElement = document.getElementById('card-process-summary');
     if (!this.cardElement) return;
@@ -35,7 +36,7 @@ export class ProcessSummaryCard {
 
     const content = this.cardElement.querySelector('#process-summary-content');
     if (content) {
-      content.innerHTML = this.renderContent(summary);
+      content.innerHTML = (series ? this.renderSeries(series) : '') + this.renderContent(summary);
       this.setupEventListeners(content);
     }
   }
@@ -78,6 +79,39 @@ export class ProcessSummaryCard {
     return stats + notes + moments;
   }
 
+  /** 継続した proof の列 (ADR-0041)。統合したかどうかと、各 proof のつながり */
+  private renderSeries(series: ProofSeriesView): string {
+    const status =
+      series.status === 'merged'
+        ? t('process.seriesMerged', { count: series.parts.length })
+        : series.status === 'incomplete'
+          ? t('process.seriesIncomplete')
+          : t('process.seriesInvalid');
+    const linkLabel = {
+      start: t('process.seriesLinkStart'),
+      linked: t('process.seriesLinkLinked'),
+      broken: t('process.seriesLinkBroken'),
+    };
+    const parts = series.parts
+      .map(
+        (part, i) => `
+          <li class="process-series-part${part.link === 'broken' || !part.valid ? ' broken' : ''}">
+            <span class="process-series-index">${escapeHtml(t('process.seriesPart', { index: i + 1 }))}</span>
+            <span class="process-series-file">${escapeHtml(part.filename)}</span>
+            <span class="process-series-link">${escapeHtml(
+              part.valid ? linkLabel[part.link] : `${linkLabel[part.link]} / ${t('process.seriesPartInvalid')}`
+            )}</span>
+          </li>`
+      )
+      .join('');
+
+    return `
+      <div class="process-moments-title">${t('process.seriesTitle')}</div>
+      <div class="process-series-status ${series.status}">${escapeHtml(status)}</div>
+      <ul class="process-series-list">${parts}</ul>
+    `;
+  }
+
   private stat(label: string, value: string): string {
     return `
       <div class="process-stat">
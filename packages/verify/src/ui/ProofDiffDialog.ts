@@ -0,0 +1,200 @@
+/**
+ * Proof Diff Dialog
+ *
+ * 同じファイルの 2 つの proof を並べ、shared の `diffProofs` の結果 (共通の root・共通の prefix・
+ * 最初の食い違い・内容の食い違い) を示す。左右にシークバーと replay した文書を置き、開いた時点で
+ * 両方を食い違いの位置に合わせる。連動させると片方を動かした分だけもう片方も動く。
+ * advisory のみ — 検証結果 (各タブの合否) には影響しない。
+ */
+
+import { diffProofs, escapeHtml, replayContentAt, type ProofDiff, type ProofFile } from '@typedcode/shared';
+import { t } from '../i18n/index.js';
+
+export interface ProofDiffCandidate {
+  label: string;
+  proof: ProofFile;
+}
+
+export interface ProofDiffDialogOptions {
+  /** 表示中のタブの proof (左) */
+  base: ProofDiffCandidate;
+  /** 比べる相手の候補 (右)。先頭を初期選択にする */
+  candidates: readonly ProofDiffCandidate[];
+}
+
+/** 両方のシークバーを合わせる位置: 内容の食い違い、無ければ hash の食い違い、それも無ければ末尾 */
+export function proofDiffAlignment(diff: ProofDiff): number {
+  return (
+    diff.contentDivergence?.sequence ??
+    diff.firstDivergentSequence ??
+    Math.max(diff.a.eventCount, diff.b.eventCount) - 1
+  );
+}
+
+function row(label: string, value: string): string {
+  return `
+    <div class="result-row">
+      <span class="result-row-label">${label}</span>
+      <span class="result-row-value">${value}</span>
+    </div>`;
+}
+
+/**
+ * 差分の要約の HTML (純関数)。文書の中身は含めない (位置と件数だけ)。
+ */
+export function buildProofDiffSummaryHtml(diff: ProofDiff): string {
+  if (diff.identical) {
+    return `<div class="proof-diff-identical">${t('proofDiff.identical')}</div>`;
+  }
+
+  const rows = [
+    row(t('proofDiff.root'), diff.sameInitialEventChainHash ? t('proofDiff.rootShared') : t('proofDiff.rootDifferent')),
+    row(t('proofDiff.sharedPrefix'), t('proofDiff.events', { count: diff.sharedPrefixLength })),
+    row(t('proofDiff.firstDivergence'), `#${diff.firstDivergentSequence}`),
+  ];
+  if (diff.sameEditsPrefixLength > diff.sharedPrefixLength) {
+    rows.push(row(t('proofDiff.sameEdits'), `#${diff.sameEditsPrefixLength}`));
+  }
+  rows.push(
+    row(
+      t('proofDiff.contentDivergence'),
+      diff.contentDivergence
+        ? t('proofDiff.contentDivergenceAt', { ...diff.contentDivergence })
+        : t('proofDiff.noContentDivergence')
+    ),
+    row(t('proofDiff.finalContent'), diff.sameFinalContent ? t('proofDiff.same') : t('proofDiff.different'))
+  );
+
+  const regenerated =
+    !diff.sameInitialEventChainHash && diff.contentDivergence === null
+      ? `<div class="analysis-advisory-note"><i class="fas fa-exclamation-triangle"></i><span>${t('proofDiff.regenerated')}</span></div>`
+      : '';
+  return `<div class="proof-diff-summary">${rows.join('')}</div>${regenerated}`;
+}
+
+/** 文書を表示する。`markAt` の 1 文字 (末尾なら空白) を印付けする */
+function renderDocument(content: string, markAt: number | null): string {
+  if (markAt === null) return escapeHtml(content);
+  const marked = content.slice(markAt, markAt + 1);
+  return `${escapeHtml(content.slice(0, markAt))}<mark class="proof-diff-mark">${escapeHtml(marked === '\n' || marked === '' ? ' ' : marked)}</mark>${marked === '\n' ? '\n' : ''}${escapeHtml(content.slice(markAt + 1))}`;
+}
+
+function paneHtml(side: 'a' | 'b', label: string, eventCount: number): string {
+  return `
+    <div class="proof-diff-pane" data-side="${side}">
+      <div class="proof-diff-pane-label">${escapeHtml(label)}</div>
+      <input type="range" class="proof-diff-seek" min="0" max="${Math.max(eventCount - 1, 0)}" step="1" />
+      <div class="proof-diff-event"></div>
+      <pre class="proof-diff-code"></pre>
+    </div>`;
+}
+
+/**
+ * Show the proof diff dialog
+ */
+export function showProofDiffDialog(options: ProofDiffDialogOptions): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay visible';
+
+  const dialog = document.createElement('div');
+  dialog.className = 'modal-dialog modal-similarity modal-proof-diff';
+  const choices = options.candidates.map((c, i) => `<option value="${i}">${escapeHtml(c.label)}</option>`).join('');
+  dialog.innerHTML = `
+    <button class="modal-close-btn" aria-label="${t('common.close')}">
+      <i class="fas fa-times"></i>
+    </button>
+    <h2 class="similarity-title">${t('proofDiff.title')}</h2>
+    <div class="similarity-subtitle">
+      ${escapeHtml(options.base.label)} ↔ <select class="proof-diff-select">${choices}</select>
+    </div>
+    <div class="proof-diff-body"></div>
+    <label class="proof-diff-link"><input type="checkbox" checked /> ${t('proofDiff.linkSeekbars')}</label>
+    <div class="proof-diff-panes"></div>
+    <div class="analysis-advisory-note">
+      <i class="fas fa-info-circle"></i>
+      <span>${t('proofDiff.advisory')}</span>
+    </div>
+  `;
+
+  overlay.appendChild(dialog);
+  document.body.appendChild(overlay);
+
+  const select = dialog.querySelector<HTMLSelectElement>('.proof-diff-select')!;
+  const body = dialog.querySelector<HTMLElement>('.proof-diff-body')!;
+  const panes = dialog.querySelector<HTMLElement>('.proof-diff-panes')!;
+  const link = dialog.querySelector<HTMLInputElement>('.proof-diff-link input')!;
+
+  const render = (candidate: ProofDiffCandidate): void => {
+    const proofs = { a: options.base.proof, b: candidate.proof };
+    const diff = diffProofs(proofs.a, proofs.b);
+    body.innerHTML = buildProofDiffSummaryHtml(diff);
+    panes.innerHTML =
+      paneHtml('a', options.base.label, diff.a.eventCount) + paneHtml('b', candidate.label, diff.b.eventCount);
+
+    const seek = {
+      a: panes.querySelector<HTMLInputElement>('[data-side="a"] .proof-diff-seek')!,
+      b: panes.querySelector<HTMLInputElement>('[data-side="b"] .proof-diff-seek')!,
+    };
+    const alignment = proofDiffAlignment(diff);
+    seek.a.value = String(Math.min(alignment, diff.a.eventCount - 1));
+    seek.b.value = String(Math.min(alignment, diff.b.eventCount - 1));
+    const last = { a: Number(seek.a.value), b: Number(seek.b.value) };
+
+    const update = (): void => {
+      const content = {
+        a: replayContentAt(proofs.a.proof.events, last.a),
+        b: replayContentAt(proofs.b.proof.events, last.b),
+      };
+      let markAt: number | null = null;
+      if (content.a !== content.b) {
+        markAt = 0;
+        while (markAt < content.a.length && content.a[markAt] === content.b[markAt]) markAt++;
+      }
+      for (const side of ['a', 'b'] as const) {
+        const pane = panes.querySelector<HTMLElement>(`[data-side="${side}"]`)!;
+        const event = proofs[side].proof.events[last[side]];
+        pane.querySelector('.proof-diff-event')!.textContent = event
+          ? `#${last[side]} ${event.inputType ? `${event.type}/${event.inputType}` : event.type}`
+          : t('proofDiff.noEvents');
+        pane.querySelector('.proof-diff-code')!.innerHTML = renderDocument(content[side], markAt);
+      }
+    };
+
+    for (const [side, other] of [
+      ['a', 'b'],
+      ['b', 'a'],
+    ] as const) {
+      seek[side].addEventListener('input', () => {
+        const value = Number(seek[side].value);
+        if (link.checked) {
+          seek[other].value = String(last[other] + value - last[side]);
+          last[other] = Number(seek[other].value);
+        }
+        last[side] = value;
+        update();
+      });
+    }
+    update();
+  };
+
+  select.addEventListener('change', () => {
+    const candidate = options.candidates[Number(select.value)];
+    if (candidate) render(candidate);
+  });
+  render(options.candidates[0]!);
+
+  const handleEscape = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') closeModal();
+  };
+  const closeModal = (): void => {
+    document.removeEventListener('keydown', handleEscape);
+    overlay.classList.remove('visible');
+    setTimeout(() => overlay.remove(), 200);
+  };
+
+  dialog.querySelector('.modal-close-btn')?.addEventListener('click', closeModal);
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) closeModal();
+  });
+  document.addEventListener('keydown', handleEscape);
+}
@@ -17,11 +17,17 @@ import type {
   PoswMode,
   ScreenshotVerificationSummary,
 } from '../types';
-import type { SignedCheckpointsVerificationResult, ExamBindingVerificationResult } from '@typedcode/shared';
+import type {
+  SignedCheckpointsVerificationResult,
+  ExamBindingVerificationResult,
+  SubmissionReceiptCheckResult,
+  TamperForensicsReport,
+} from '@typedcode/shared';
 import type { SignedCheckpointReport } from '../types';
 import { escapeHtml, type AnalysisReport, type AssuranceResult, type ProcessSummary } from '@typedcode/shared';
 import { SyntaxHighlighter } from '../services/SyntaxHighlighter.js';
 import type { ProofMode } from '../services/proofMode.js';
+import type { ProofSeriesView } from '../services/proofSeriesView.js';
 import { AnalysisReportCard } from './AnalysisReportCard.js';
 import { ProcessSummaryCard } from './ProcessSummaryCard.js';
 import { t } from '../i18n/index.js';
@@ -39,10 +45,14 @@ export interface ResultData {
   trustResult?: TrustResult;
   /** 分析層 (ADR-0009) の advisory レポート。判定ではない (検証結果とは独立軸)。 */
   analysis?: AnalysisReport;
+  /** events が多すぎて分析を省いた (ADR-0039)。分析カードにその旨だけを出す */
+  analysisSkipped?: boolean;
   /** 三層保証語彙 (ADR-0020)。実証拠から機械導出 (自己申告 mode は不使用)。 */
   assurance?: AssuranceResult;
   /** プロセス要約 (Phase 8 W3)。制作過程の中立な記述 (疑い指標ではない)。 */
   processSummary?: ProcessSummary;
+  /** 継続した proof の列 (ADR-0041)。merged なら processSummary は列全体の要約 */
+  proofSeries?: ProofSeriesView;
   /**
    * proof の自己申告モード (ADR-0011)。参考表示のみで保証導出には使わない。
    * proof.json 由来なので `normalizeProofMode` を通した値だけを入れること (#210)。
@@ -64,6 +74,8 @@ export interface ResultData {
     /** 「展開時の根拠」表示用の追加情報 */
     report?: SignedCheckpointReport;
   };
+  /** 提出レシート (ADR-0047) との突合。ZIP にレシートが同梱されていたときのみ */
+  submissionReceipt?: SubmissionReceiptCheckResult;
   /** 試験モード (ADR-0006) の束縛検証結果。exam proof のときのみ。 */
   examBinding?: {
     examId: string;
@@ -132,6 +144,9 @@ export class ResultPanel {
   private chainErrorComputed: HTMLElement;
   private chainErrorTimestampRow: HTMLElement;
   private chainErrorTimestamp: HTMLElement;
+  // Tamper forensics
+  private tamperForensics: HTMLElement;
+  private tamperForensicsList: HTMLElement;
   // Chain segment visualization
   private chainSegmentViz: HTMLElement;
   private chainSegmentBar: HTMLElement;
@@ -156,6 +171,8 @@ export class ResultPanel {
   private anchoringWarning: HTMLElement;
   private anchoringReasonRow: HTMLElement;
   private anchoringReason: HTMLElement;
+  private anchoringReceiptRow: HTMLElement;
+  private anchoringReceipt: HTMLElement;
   private anchoringDetails: HTMLElement;
   private anchoringDetailsContent: HTMLElement;
   // 試験束縛カード (ADR-0006)
@@ -265,6 +282,9 @@ export class ResultPanel {
     this.chainErrorComputed = document.getElementById('chain-error-computed')!;
     this.chainErrorTimestampRow = document.getElementById('chain-error-timestamp-row')!;
     this.chainErrorTimestamp = document.getElementById('chain-error-timestamp')!;
+    // Tamper forensics
+    this.tamperForensics = document.getElementById('tamper-forensics')!;
+    this.tamperForensicsList = document.getElementById('tamper-forensics-list')!;
     // Chain segment visualization
     this.chainSegmentViz = document.getElementById('chain-segment-viz')!;
     this.chainSegmentBar = document.getElementById('chain-segment-bar')!;
@@ -290,6 +310,8 @@ export class ResultPanel {
     this.anchoringWarning = document.getElementById('anchoring-warning')!;
     this.anchoringReasonRow = document.getElementById('anchoring-reason-row')!;
     this.anchoringReason = document.getElementById('anchoring-reason')!;
+    this.anchoringReceiptRow = document.getElementById('anchoring-receipt-row')!;
+    this.anchoringReceipt = document.getElementById('anchoring-receipt')!;
     this.anchoringDetails = document.getElementById('anchoring-details')!;
     this.anchoringDetailsContent = document.getElementById('anchoring-details-content')!;
 
@@ -598,6 +620,9 @@ export class ResultPanel {
     // Chain error details (show only when verification fails)
     this.renderChainErrorDetails(result.chainErrorDetails);
 
+    // Tamper forensics (show only for a failed proof)
+    this.renderTamperForensics(result.tamperForensics);
+
     // Chain segment visualization (show for sampled verification)
     this.renderChainSegmentViz(result.sampledVerification, eventCount, result.chainErrorDetails);
 
@@ -629,6 +654,7 @@ export class ResultPanel {
 
     // Anchoring card (signed checkpoints)
     this.renderAnchoringCard(data.signedCheckpoint);
+    this.renderSubmissionReceiptRow(data.submissionReceipt);
 
     // Exam binding card (ADR-0006)
     this.renderExamBindingCard(data.examBinding);
@@ -677,6 +703,8 @@ export class ResultPanel {
     // 打鍵動態 (旧 TypingPatternCard) も typing-pattern アナライザ経由でここに統合済み。
     if (data.analysis) {
       this.analysisReportCard.render(data.analysis);
+    } else if (data.analysisSkipped) {
+      this.analysisReportCard.renderSkipped();
     } else {
       this.analysisReportCard.hide();
     }
@@ -686,7 +714,7 @@ export class ResultPanel {
 
     // プロセス要約 (Phase 8 W3) - 制作過程の中立な記述。見どころ→シークバージャンプ。
     if (data.processSummary) {
-      this.processSummaryCard.render(data.processSummary);
+      this.processSummaryCard.render(data.processSummary, data.proofSeries);
     } else {
       this.processSummaryCard.hide();
     }
@@ -798,6 +826,28 @@ export class ResultPanel {
     this.renderAnchoringDetails(sc);
   }
 
+  /**
+   * 提出レシート (ADR-0047) の行を描画する。セッション終端のアンカーなので時刻アンカーカードに置く。
+   * レシートが同梱されていなければ非表示 (レシート無しは従来の proof と同じ扱い)。
+   */
+  private renderSubmissionReceiptRow(receipt: ResultData['submissionReceipt']): void {
+    if (!receipt) {
+      this.anchoringReceiptRow.style.display = 'none';
+      return;
+    }
+    this.anchoringReceiptRow.style.display = 'flex';
+    if (receipt.valid) {
+      this.anchoringReceipt.textContent = t('result.anchoringReceiptVerified', {
+        time: receipt.serverTime ?? '-',
+        id: receipt.receiptHash?.slice(0, 12) ?? '-',
+      });
+      this.anchoringReceipt.className = 'result-row-value text-success';
+    } else {
+      this.anchoringReceipt.textContent = t('result.anchoringReceiptInvalid', { reason: receipt.reason ?? '-' });
+      this.anchoringReceipt.className = 'result-row-value text-danger';
+    }
+  }
+
   /** PASS/FAIL の行値を色付きで設定する。 */
   private setExamPassFail(el: HTMLElement, ok: boolean): void {
     el.textContent = ok ? t('result.examPass') : t('result.examFail');
@@ -913,6 +963,9 @@ export class ResultPanel {
     if (report.firstSeenAt) {
       rangeRows.push(this.detailRow(t('result.anchoringFirstSeenAt'), report.firstSeenAt));
     }
+    if (report.timestampAuthorities.length > 0) {
+      rangeRows.push(this.detailRow(t('result.anchoringTimestampAuthorities'), report.timestampAuthorities.join(', ')));
+    }
     if (report.firstAnchor) {
       rangeRows.push(this.detailRow(t('result.anchoringFirstAnchor'), this.formatAnchorPoint(report.firstAnchor)));
     }
@@ -1501,6 +1554,53 @@ export class ResultPanel {
     }
   }
 
+  /**
+   * 改ざんの推定を表示 (検証に落ちた proof のみ)。分類と位置は i18n、説明文は shared の英文のまま
+   */
+  private renderTamperForensics(report?: TamperForensicsReport): void {
+    this.tamperForensicsList.replaceChildren();
+    if (!report) {
+      this.tamperForensics.style.display = 'none';
+      return;
+    }
+
+    this.tamperForensics.style.display = 'block';
+
+    if (report.findings.length === 0) {
+      const row = document.createElement('div');
+      row.className = 'chain-error-row';
+      row.textContent = t('chain.tamperForensics.none');
+      this.tamperForensicsList.appendChild(row);
+      return;
+    }
+
+    for (const finding of report.findings) {
+      const row = document.createElement('div');
+      row.className = 'chain-error-row chain-error-message-row';
+
+      const label = document.createElement('span');
+      label.className = 'chain-error-label';
+      const range =
+        finding.fromEvent === null
+          ? t('chain.tamperForensics.outsideEvents')
+          : finding.toEvent !== null && finding.toEvent !== finding.fromEvent
+            ? t('chain.tamperForensics.eventRange', { from: finding.fromEvent, to: finding.toEvent })
+            : t('chain.tamperForensics.event', { index: finding.fromEvent });
+      label.textContent = `${t(`chain.tamperForensics.kinds.${finding.kind}`)} — ${range}`;
+
+      const detail = document.createElement('span');
+      detail.className = 'chain-error-value chain-error-message';
+      detail.textContent = finding.detail;
+
+      const evidence = document.createElement('span');
+      evidence.className = 'chain-error-value';
+      evidence.textContent = t('chain.tamperForensics.evidence', { list: finding.evidence.join(', ') });
+
+      row.append(label, detail, evidence);
+      this.tamperForensicsList.appendChild(row);
+    }
+  }
+
   /**
    * サンプリング区間を視覚化
    */
@@ -1616,6 +1716,12 @@ export function buildAssuranceStripHtml(assurance: AssuranceResult, mode?: Resul
       integrityValue = t('assurance.integrityProven');
       integrityHint = t('assurance.integrityHint');
       break;
+    case 'sampled':
+      // ADR-0034: 標本はすべて通った (改ざんの疑いではない) が、保証は統計的。語彙で proven と分ける。
+      integrityClass = 'success';
+      integrityValue = t('assurance.integritySampled');
+      integrityHint = t('assurance.integritySampledHint');
+      break;
     case 'partial':
       integrityClass = 'warning';
       integrityValue = t('assurance.integrityPartial');
@@ -1642,6 +1748,16 @@ export function buildAssuranceStripHtml(assurance: AssuranceResult, mode?: Resul
       temporalClass = 'warning';
       temporalValue = t('assurance.temporalPartial');
       break;
+    case 'posw-bounded':
+      // ADR-0042: サーバ証拠は無く、申告 timestamp が較正した PoSW 速度と矛盾しないだけ。アンカーではない。
+      temporalClass = 'warning';
+      temporalValue = t('assurance.temporalPoswBounded');
+      break;
+    case 'posw-inconsistent':
+      // ADR-0042: 申告 timestamp が proof 自身の較正速度の PoSW と矛盾する (捏造の疑い)。
+      temporalClass = 'error';
+      temporalValue = t('assurance.temporalPoswInconsistent');
+      break;
     default:
       temporalClass = 'warning';
       temporalValue = t('assurance.temporalUnanchored');
@@ -0,0 +1,117 @@
+/**
+ * Roster Dialog (ADR-0037)
+ *
+ * フォルダ内の提出物を名簿 CSV と突き合わせた結果 (`reconcileRoster`) を表示する。
+ * 1 行 = 名簿の学生 1 人。未提出・重複・examId / problemId / variant の食い違い・時間窓外・
+ * 複数端末を所見として並べ、どの学生にも当たらない提出物も落とさずに出す。
+ * 事務処理の手掛かりであって、検証結果 (各タブの合否) には影響しない。
+ */
+
+import { escapeHtml, type RosterIssue, type RosterReconciliation } from '@typedcode/shared';
+import { t } from '../i18n/index.js';
+
+export interface RosterDialogOptions {
+  folderName: string;
+  /** 読み込んだ名簿のファイル名。 */
+  rosterName: string;
+  report: RosterReconciliation;
+}
+
+function issueText(issue: RosterIssue): string {
+  switch (issue.kind) {
+    case 'missing':
+      return t('roster.missing');
+    case 'duplicate':
+      return t('roster.duplicate', { count: issue.sources.length });
+    case 'mismatch':
+      return issue.field === 'exam'
+        ? t('roster.notExam', { label: issue.label })
+        : t('roster.mismatch', {
+            field: issue.field,
+            expected: issue.expected ?? '—',
+            actual: issue.actual ?? '—',
+            label: issue.label,
+          });
+    case 'out-of-time-box':
+      return t('roster.outOfTimeBox', { detail: issue.submittedAt ?? issue.source });
+    case 'multiple-devices':
+      return t('roster.multipleDevices', { count: issue.deviceIds.length });
+  }
+}
+
+function renderStudent(student: RosterReconciliation['students'][number]): string {
+  const missing = student.issues.some((i) => i.kind === 'missing');
+  const findings =
+    student.issues.length === 0
+      ? `<span class="roster-ok">${t('roster.ok')}</span>`
+      : student.issues.map((i) => `<div>${escapeHtml(issueText(i))}</div>`).join('');
+  return `
+    <tr class="${missing ? 'roster-missing' : student.issues.length > 0 ? 'roster-warning' : ''}">
+      <td>${escapeHtml(student.studentId)}</td>
+      <td>${student.sources.length > 0 ? student.sources.map(escapeHtml).join('<br>') : '—'}</td>
+      <td>${findings}</td>
+    </tr>`;
+}
+
+/**
+ * ダイアログ本文の HTML (純関数)。学籍番号・提出物名・名簿名はどれも外部由来なので必ずエスケープする。
+ */
+export function buildRosterReportHtml(folderName: string, rosterName: string, report: RosterReconciliation): string {
+  const notes = [
+    ...(report.unmatched.length > 0 ? [t('roster.unmatched', { list: report.unmatched.join(', ') })] : []),
+    ...report.ambiguous.map((a) => t('roster.ambiguous', { source: a.source, students: a.studentIds.join(', ') })),
+  ];
+
+  return `
+    <h2 class="similarity-title">${t('roster.title')}</h2>
+    <div class="similarity-subtitle">
+      ${escapeHtml(folderName)} × ${escapeHtml(rosterName)} — ${t('roster.summary', { ...report.counts })}
+    </div>
+    <div class="analysis-advisory-note">
+      <i class="fas fa-info-circle"></i>
+      <span>${t('roster.advisory')}</span>
+    </div>
+    <table class="roster-table">
+      <thead>
+        <tr><th>${t('roster.student')}</th><th>${t('roster.submission')}</th><th>${t('roster.findings')}</th></tr>
+      </thead>
+      <tbody>${report.students.map(renderStudent).join('')}</tbody>
+    </table>
+    ${notes.map((n) => `<div class="roster-note">${escapeHtml(n)}</div>`).join('')}
+  `;
+}
+
+/**
+ * Show the roster dialog
+ */
+export function showRosterDialog(options: RosterDialogOptions): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay visible';
+
+  const dialog = document.createElement('div');
+  dialog.className = 'modal-dialog modal-similarity';
+  dialog.innerHTML = `
+    <button class="modal-close-btn" aria-label="${t('common.close')}">
+      <i class="fas fa-times"></i>
+    </button>
+    ${buildRosterReportHtml(options.folderName, options.rosterName, options.report)}
+  `;
+
+  overlay.appendChild(dialog);
+  document.body.appendChild(overlay);
+
+  const handleEscape = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') closeModal();
+  };
+  const closeModal = (): void => {
+    document.removeEventListener('keydown', handleEscape);
+    overlay.classList.remove('visible');
+    setTimeout(() => overlay.remove(), 200);
+  };
+
+  dialog.querySelector('.modal-close-btn')?.addEventListener('click', closeModal);
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) closeModal();
+  });
+  document.addEventListener('keydown', handleEscape);
+}
@@ -49,6 +49,8 @@ export class Sidebar {
   private onFileRemove: (id: string) => void;
   private onFilesDropped: (files: FileList) => void;
   private onFolderRemove: (folderId: string) => void;
+  private onFolderCompare: (folderId: string) => void;
+  private onFolderRoster: (folderId: string) => void;
 
   constructor(callbacks: {
     onFileSelect: (id: string) => void;
@@ -57,6 +59,8 @@ export class Sidebar {
     onFileRemove?: (id: string) => void;
     onFilesDropped?: (files: FileList) => void;
     onFolderRemove?: (folderId: string) => void;
+    onFolderCompare?: (folderId: string) => void;
+    onFolderRoster?: (folderId: string) => void;
   }) {
     this.onFileSelect = callbacks.onFileSelect;
     this.onAddFile = callbacks.onAddFile;
@@ -64,6 +68,8 @@ export class Sidebar {
     this.onFileRemove = callbacks.onFileRemove || (() => {});
     this.onFilesDropped = callbacks.onFilesDropped || (() => {});
     this.onFolderRemove = callbacks.onFolderRemove || (() => {});
+    this.onFolderCompare = callbacks.onFolderCompare || (() => {});
+    this.onFolderRoster = callbacks.onFolderRoster || (() => {});
 
     this.sidebar = document.getElementById('sidebar')!;
     this.fileList = document.getElementById('file-list')!;
@@ -219,6 +225,11 @@ export class Sidebar {
     return undefined;
   }
 
+  // IDからフォルダを取得
+  getFolder(folderId: string): SidebarFolder | undefined {
+    return this.folders.get(folderId);
+  }
+
   // パスからフォルダIDを取得
   getFolderIdByPath(path: string): string | undefined {
     return this.foldersByPath.get(path);
@@ -391,6 +402,30 @@ export class Sidebar {
     return fileIds;
   }
 
+  /**
+   * フォルダ配下 (子フォルダを含む) のファイルと、それが属する「提出物」の名前を取得する。
+   * 提出物名はフォルダ直下のファイルならファイル名、子フォルダ内 (展開した ZIP など) なら
+   * その直下の子フォルダ名。名簿突合 (ADR-0037) で学生と突き合わせる単位になる。
+   */
+  getFilesUnderFolder(folderId: string): Array<{ id: string; topLevelName: string }> {
+    const result: Array<{ id: string; topLevelName: string }> = [];
+    this.files.forEach((file, id) => {
+      if (file.folderId === folderId) {
+        result.push({ id, topLevelName: file.filename });
+        return;
+      }
+      // 親をたどり、folderId の直下にある子フォルダを探す
+      let current = file.folderId ? this.folders.get(file.folderId) : undefined;
+      while (current && current.parentId !== folderId) {
+        current = current.parentId ? this.folders.get(current.parentId) : undefined;
+      }
+      if (current) {
+        result.push({ id, topLevelName: current.name });
+      }
+    });
+    return result;
+  }
+
   clear(): void {
     this.files.clear();
     this.folders.clear();
@@ -490,6 +525,18 @@ export class Sidebar {
     count.className = 'folder-count';
     count.textContent = `${totalCount}`;
 
+    // 提出物間類似 (ADR-0035): フォルダ内の proof を対ごとに比べる
+    const compareBtn = document.createElement('button');
+    compareBtn.className = 'folder-compare';
+    compareBtn.innerHTML = '<i class="fas fa-code-compare"></i>';
+    compareBtn.title = t('sidebar.compareFolder');
+
+    // 名簿突合 (ADR-0037): 名簿 CSV を選び、フォルダ内の提出物と突き合わせる
+    const rosterBtn = document.createElement('button');
+    rosterBtn.className = 'folder-roster';
+    rosterBtn.innerHTML = '<i class="fas fa-clipboard-list"></i>';
+    rosterBtn.title = t('sidebar.rosterFolder');
+
     const removeBtn = document.createElement('button');
     removeBtn.className = 'folder-remove';
     removeBtn.innerHTML = '<i class="fas fa-times"></i>';
@@ -499,15 +546,27 @@ export class Sidebar {
     item.appendChild(icon);
     item.appendChild(name);
     item.appendChild(count);
+    item.appendChild(compareBtn);
+    item.appendChild(rosterBtn);
     item.appendChild(removeBtn);
 
     // フォルダクリックで展開/折りたたみ
     item.addEventListener('click', (e) => {
-      if (!(e.target as HTMLElement).closest('.folder-remove')) {
+      if (!(e.target as HTMLElement).closest('.folder-remove, .folder-compare, .folder-roster')) {
         this.toggleFolder(folder.id);
       }
     });
 
+    compareBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.onFolderCompare(folder.id);
+    });
+
+    rosterBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.onFolderRoster(folder.id);
+    });
+
     // 削除ボタン
     removeBtn.addEventListener('click', (e) => {
       e.stopPropagation();
@@ -0,0 +1,129 @@
+/**
+ * Similarity Dialog (ADR-0035)
+ *
+ * フォルダ内の proof を対ごとに比べた提出物間類似 (`runCohortAnalysis`) を表示する。
+ * 証拠ボタンは当該メンバーのタブへ切り替えてから、そのイベントへシークする。
+ * advisory のみ — 検証結果 (各タブの合否) には影響しない。
+ */
+
+import { escapeHtml, type CohortAnalysisReport, type EvidenceRef, type PairwiseSignal } from '@typedcode/shared';
+import { t } from '../i18n/index.js';
+
+export interface SimilarityDialogOptions {
+  folderName: string;
+  report: CohortAnalysisReport;
+  /** `report.members` と同じ並びのタブ ID (証拠からタブへ戻るため)。 */
+  tabIds: readonly string[];
+  /** 証拠クリック時: タブを開いて event へシークする。 */
+  onJump: (tabId: string, eventIndex: number) => void;
+}
+
+function renderEvidence(ev: EvidenceRef, memberIndex: number): string {
+  const label =
+    ev.toEventIndex !== undefined && ev.toEventIndex !== ev.fromEventIndex
+      ? `#${ev.fromEventIndex}–${ev.toEventIndex}`
+      : `#${ev.fromEventIndex}`;
+  const note = ev.note ? ` title="${escapeHtml(ev.note)}"` : '';
+  return `<button type="button" class="analysis-evidence-link" data-member-index="${memberIndex}" data-event-index="${ev.fromEventIndex}"${note}>${label}</button>`;
+}
+
+/** summaryKey があればローカライズし、無ければ summary をそのまま使う (AnalysisReportCard と同じ規則)。 */
+function summaryText(signal: PairwiseSignal): string {
+  if (signal.summaryKey) {
+    const localized = t(signal.summaryKey, signal.summaryParams);
+    if (localized && localized !== signal.summaryKey) return localized;
+  }
+  return signal.summary;
+}
+
+function renderPair(signal: PairwiseSignal, members: readonly string[]): string {
+  const side = (label: string, evidence: readonly EvidenceRef[]) => {
+    const memberIndex = members.indexOf(label);
+    const buttons = evidence.map((ev) => renderEvidence(ev, memberIndex)).join('');
+    return `
+      <div class="analysis-evidence-row">
+        <span class="analysis-evidence-label">${escapeHtml(label)}:</span>${buttons || '—'}
+      </div>`;
+  };
+  return `
+    <li class="analysis-signal warning">
+      <div class="analysis-signal-header">
+        <span class="similarity-pair">${escapeHtml(signal.a)} ↔ ${escapeHtml(signal.b)}</span>
+        <span class="analysis-scores">
+          ${t('similarity.score')} ${(signal.score * 100).toFixed(0)} ·
+          ${t('analysis.confidence')} ${(signal.confidence * 100).toFixed(0)}%
+        </span>
+      </div>
+      <div class="analysis-summary">${escapeHtml(summaryText(signal))}</div>
+      ${side(signal.a, signal.evidenceA)}
+      ${side(signal.b, signal.evidenceB)}
+    </li>`;
+}
+
+/**
+ * ダイアログ本文の HTML (純関数)。label はファイル名 (提出物由来) なので必ずエスケープする。
+ */
+export function buildSimilarityReportHtml(folderName: string, report: CohortAnalysisReport): string {
+  const pairs =
+    report.signals.length > 0
+      ? `<ul class="analysis-signal-list">${report.signals.map((s) => renderPair(s, report.members)).join('')}</ul>`
+      : `<div class="analysis-no-signals">${t('similarity.noPairs')}</div>`;
+  const n = report.members.length;
+
+  return `
+    <h2 class="similarity-title">${t('similarity.title')}</h2>
+    <div class="similarity-subtitle">
+      ${escapeHtml(folderName)} — ${t('similarity.compared', { count: n, pairs: (n * (n - 1)) / 2 })}
+    </div>
+    <div class="analysis-advisory-note">
+      <i class="fas fa-info-circle"></i>
+      <span>${t('similarity.advisory')}</span>
+    </div>
+    ${pairs}
+  `;
+}
+
+/**
+ * Show the similarity dialog
+ */
+export function showSimilarityDialog(options: SimilarityDialogOptions): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay visible';
+
+  const dialog = document.createElement('div');
+  dialog.className = 'modal-dialog modal-similarity';
+  dialog.innerHTML = `
+    <button class="modal-close-btn" aria-label="${t('common.close')}">
+      <i class="fas fa-times"></i>
+    </button>
+    ${buildSimilarityReportHtml(options.folderName, options.report)}
+  `;
+
+  overlay.appendChild(dialog);
+  document.body.appendChild(overlay);
+
+  const handleEscape = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') closeModal();
+  };
+  const closeModal = (): void => {
+    document.removeEventListener('keydown', handleEscape);
+    overlay.classList.remove('visible');
+    setTimeout(() => overlay.remove(), 200);
+  };
+
+  dialog.querySelector('.modal-close-btn')?.addEventListener('click', closeModal);
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) closeModal();
+  });
+  document.addEventListener('keydown', handleEscape);
+
+  for (const button of dialog.querySelectorAll<HTMLButtonElement>('.analysis-evidence-link')) {
+    button.addEventListener('click', () => {
+      const tabId = options.tabIds[Number(button.dataset['memberIndex'])];
+      const eventIndex = Number(button.dataset['eventIndex']);
+      if (tabId === undefined || !Number.isFinite(eventIndex)) return;
+      closeModal();
+      options.onJump(tabId, eventIndex);
+    });
+  }
+}
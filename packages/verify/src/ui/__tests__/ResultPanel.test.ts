@@ -76,6 +76,14 @@ describe('buildAssuranceStripHtml', () => {
     // i18n 未登録キーが漏れていないこと (t() は未登録キーをそのまま返す)。
     expect(html).not.toContain('assurance.integrityPartial');
   });
+
+  // ADR-0034: audit の標本再計算は proven と別の語彙で出す。
+  it('labels a sampled PoSW audit distinctly from proven', () => {
+    const html = buildAssuranceStripHtml({ ...assurance(), integrity: 'sampled' }, 'casual');
+
+    expect(html).not.toContain('assurance.integritySampled');
+    expect(html).not.toEqual(buildAssuranceStripHtml(assurance(), 'casual'));
+  });
 });
 
 /**
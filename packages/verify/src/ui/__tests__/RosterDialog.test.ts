@@ -0,0 +1,41 @@
+/**
+ * 名簿突合ダイアログ (ADR-0037) の本文を組み立てる純関数のテスト。
+ *
+ * 学籍番号は名簿 CSV、提出物名はフォルダ内のファイル名で、どちらも innerHTML にそのまま入る。
+ * エスケープと、未提出・所見・名簿外の提出物が表から落ちないことを固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import { reconcileRoster } from '@typedcode/shared';
+import { buildRosterReportHtml } from '../RosterDialog.js';
+
+const payload = '<img src=x onerror=alert(1)>';
+
+describe('buildRosterReportHtml', () => {
+  const report = reconcileRoster(
+    [{ studentId: 's001', variant: 'A' }, { studentId: 's002' }, { studentId: `s003${payload}` }],
+    [
+      {
+        source: 's001.zip',
+        label: 's001.zip#q1.json',
+        exam: { examId: 'e', problemId: 'p1', variant: 'B' },
+        deviceId: 'd',
+      },
+      { source: `${payload}.zip`, label: `${payload}.zip`, exam: null, deviceId: null },
+    ]
+  );
+
+  it('escapes student ids, submission names and the roster name', () => {
+    const html = buildRosterReportHtml('week3', `<b>roster</b>.csv`, report);
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>roster</b>');
+  });
+
+  it('shows each student with the findings, the missing ones and unmatched submissions', () => {
+    const html = buildRosterReportHtml('week3', 'roster.csv', report);
+    expect(html).toContain('s001.zip');
+    expect(html).toMatch(/variant: expected A, got B \(s001\.zip#q1\.json\)/);
+    expect(html.match(/roster-missing/g)).toHaveLength(2);
+    expect(html).toContain('Submissions with no roster entry: &lt;img');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * 提出物間類似ダイアログ (ADR-0035) の本文を組み立てる純関数のテスト。
+ *
+ * label はフォルダ内のファイル名 = 提出物由来の文字列で、innerHTML にそのまま入る。
+ * 未エスケープだと検証ツール自身に HTML を差し込める (#210 と同種) ので、エスケープと
+ * 「証拠ボタンがどのメンバーのどの event を指すか」を固定する。
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CohortAnalysisReport } from '@typedcode/shared';
+import { buildSimilarityReportHtml } from '../SimilarityDialog.js';
+
+const payload = '<img src=x onerror=alert(1)>.json';
+
+const report: CohortAnalysisReport = {
+  schema: 'cohort-analysis/1',
+  analyzerVersions: { 'cross-submission-similarity': '0.1.0' },
+  members: ['alice.json', payload, 'carol.json'],
+  signals: [
+    {
+      analyzerId: 'cross-submission-similarity',
+      dimension: 'cross-submission-similarity',
+      a: payload,
+      b: 'carol.json',
+      score: 0.9,
+      confidence: 0.5,
+      severity: 'notice',
+      evidenceA: [{ fromEventIndex: 12, toEventIndex: 40, note: 'shared code' }],
+      evidenceB: [{ fromEventIndex: 7, note: 'identifier "frobnicate"' }],
+      summary: 'Similar code',
+    },
+  ],
+};
+
+describe('buildSimilarityReportHtml', () => {
+  it('escapes submission labels so no element is injected into the dialog', () => {
+    const html = buildSimilarityReportHtml('<b>week3</b>', report);
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>week3</b>');
+  });
+
+  it('points each evidence button at the member it belongs to', () => {
+    const html = buildSimilarityReportHtml('week3', report);
+    expect(html).toContain('data-member-index="1" data-event-index="12"');
+    expect(html).toContain('data-member-index="2" data-event-index="7"');
+    expect(html).toContain('#12–40');
+  });
+});
@@ -11,10 +11,16 @@ import type { StatusBarUI } from '../StatusBarUI';
 import type { ProofFile, VerifyScreenshot, DiffResult, ContentMismatchInfo } from '../../types';
 import { t } from '../../i18n/index';
 import { DiffService } from '../../services/DiffService';
-import { parseExamPackageManifest, type ExamPackageManifest } from '@typedcode/shared';
+import {
+  migrateProof,
+  parseExamPackageManifest,
+  type ExamPackageManifest,
+  type LegacyProofFile,
+  type SubmissionReceipt,
+} from '@typedcode/shared';
 
 /** 隠し file input を開いて 1 ファイルを返す (キャンセルは null)。 */
-function pickFile(accept: string): Promise<File | null> {
+export function pickFile(accept: string): Promise<File | null> {
   return new Promise((resolve) => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -91,13 +97,15 @@ export class FileController {
     }
 
     // タブを再検証状態にして、問題パッケージ付きで再検証する。
+    // キューは Worker に渡した proof テキストを手放しているので、タブの proof から組み立て直す。
+    const rawData = JSON.stringify(tab.proofData);
     this.deps.tabManager.updateTab(tabId, {
       examManifest: manifest,
       status: 'pending',
       progress: 0,
       verificationResult: null,
     });
-    this.deps.verificationQueue.reverifyWithManifest(tabId, manifest);
+    this.deps.verificationQueue.reverifyWithManifest(tabId, rawData, manifest);
   }
 
   /**
@@ -180,7 +188,8 @@ export class FileController {
           folderId,
           fileData.relativePath,
           result.screenshots,
-          result.startTimestamp
+          result.startTimestamp,
+          result.submissionReceipt
         );
       }
 
@@ -346,7 +355,8 @@ export class FileController {
     folderId?: string,
     relativePath?: string,
     screenshots?: VerifyScreenshot[],
-    startTimestamp?: number
+    startTimestamp?: number,
+    submissionReceipt?: SubmissionReceipt
   ): void {
     console.log('[FileController] addFileToVerification:', {
       filename,
@@ -355,7 +365,7 @@ export class FileController {
     });
 
     try {
-      const proofData = JSON.parse(rawData) as ProofFile;
+      const proofData: ProofFile = migrateProof(JSON.parse(rawData) as LegacyProofFile).proof;
       const id = this.deps.generateId();
 
       // 表示名を生成（重複がある場合は番号を付ける）
@@ -363,8 +373,8 @@ export class FileController {
 
       // proofファイルのcontentとIDをマップに保存（差分比較用）
       // ファイル名から_proofを除去してベース名を取得
-      // 例: "main_proof.json" -> "main"
-      const baseFilename = filename.replace(/_proof\.json$/i, '').replace(/\.json$/i, '');
+      // 例: "main_proof.json" / "main_proof.tcproof" -> "main"
+      const baseFilename = filename.replace(/_proof\.(?:json|tcproof)$/i, '').replace(/\.(?:json|tcproof)$/i, '');
 
       if (folderId && proofData.content) {
         let folderProofs = this.proofContentMap.get(folderId);
@@ -425,6 +435,7 @@ export class FileController {
         id,
         filename,
         rawData,
+        submissionReceipt,
       });
 
       // Update status bar
@@ -13,6 +13,7 @@ import type { TabBar } from '../TabBar';
 import type { StatusBarUI } from '../StatusBarUI';
 import type { FSAccessFileEntry, HierarchicalFolder, VerifyScreenshot } from '../../types';
 import { t } from '../../i18n/index';
+import type { SubmissionReceipt } from '@typedcode/shared';
 
 export interface FolderControllerDependencies {
   fileProcessor: FileProcessor;
@@ -28,7 +29,8 @@ export interface FolderControllerDependencies {
     folderId?: string,
     relativePath?: string,
     screenshots?: VerifyScreenshot[],
-    startTimestamp?: number
+    startTimestamp?: number,
+    submissionReceipt?: SubmissionReceipt
   ) => void;
   addPlaintextFile: (fileData: ParsedFileData, folderId?: string) => void;
   addImageFile: (fileData: ParsedFileData, folderId?: string) => void;
@@ -511,7 +513,8 @@ export class FolderController {
           fileFolderId,
           fullRelativePath,
           zipScreenshots,
-          zipStartTimestamp
+          zipStartTimestamp,
+          result.submissionReceipt
         );
       } else if (fileData.type === 'image') {
         this.deps.addImageFile({ ...fileData, relativePath: fullRelativePath }, fileFolderId);
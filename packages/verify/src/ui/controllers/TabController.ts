@@ -18,6 +18,7 @@ import { buildResultData, calculateChartStats } from '../../services/ResultDataS
 import { TrustCalculator } from '../../services/TrustCalculator';
 import { summarizeTabScreenshots } from '../../services/screenshotSummary';
 import { buildAssuranceInput } from '../../services/proofVerification';
+import { buildProofSeriesView } from '../../services/proofSeriesView';
 import { deriveAssurance, summarizeProcess, type AssuranceResult } from '@typedcode/shared';
 import { t } from '../../i18n/index';
 
@@ -299,15 +300,28 @@ export class TabController {
         deriveAssurance(buildAssuranceInput(vr, { screenshotsTampered: screenshotSummary?.tampered }))
       : undefined;
 
+    // 継続した proof (ADR-0041): 前の proof が読み込まれていて列全体が検証に通れば、
+    // プロセス要約とチャートは統合した timeline で出す (検証結果・信頼度はこのタブの proof のまま)。
+    const series = buildProofSeriesView(tabState, this.deps.tabManager.getAllTabs());
+    const timeline = series?.timeline;
+
     // trustResult を追加してレンダリング
-    this.deps.resultPanel.render({ ...resultData, trustResult, assurance });
+    this.deps.resultPanel.render({
+      ...resultData,
+      trustResult,
+      assurance,
+      ...(series ? { proofSeries: series } : {}),
+      ...(timeline ? { processSummary: summarizeProcess(timeline.events) } : {}),
+    });
 
     // スクリーンショット検証結果を表示。未検査 (undefined) もその旨を出す —
     // 「0 枚のセッション」と「検査していない」の混同は overclaim (CLI と同じ扱い #213)。
     this.deps.resultPanel.updateScreenshotVerification(screenshotSummary);
 
     // Render charts
-    if (events.length > 0) {
+    if (timeline) {
+      this.renderCharts(timeline.events, series.screenshots, series.startTimestamp);
+    } else if (events.length > 0) {
       this.renderCharts(events, tabState.screenshots, tabState.startTimestamp);
     }
   }
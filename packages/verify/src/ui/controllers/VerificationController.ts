@@ -92,7 +92,7 @@ export class VerificationController {
     // - warning: 非ピュアタイピング / ソース不一致 / 時刻アンカー無し (偽造不能要素が無い) /
     //            post-hoc 一括署名疑い / anchoring 密度が疎 (ADR-0016) / exam だが問題パッケージ未検証 (真正性未確認) /
     //            スクショ欠損 / 剥ぎ取り疑い (#213) / 画面共有オプトアウト (#146) /
-    //            PoSW 未再計算 = fast モード (#214)
+    //            PoSW 未再計算 = fast モード (#214) / 申告 timestamp と較正 PoSW 速度の不整合 (ADR-0042)
     const examPresentButUnverified = !!result.exam?.present && !result.exam.packageProvided;
     // #214: fast モードは PoSW を再計算していない。TrustCalculator の warning と同じ軸に揃える —
     // ここを見ないと「タブは緑なのに信頼バッジは警告」になり、fast のまま流した提出物が全件緑で
@@ -100,6 +100,9 @@ export class VerificationController {
     const poswSkipped = result.poswMode === 'skipped';
     // ADR-0017: root 未アンカー (serverNonce トークン無し) は警告。exam は独自束縛のため対象外。
     const rootNotAnchored = !result.rootAnchored && !result.exam?.present;
+    // ADR-0042: 申告 timestamp が較正した PoSW 速度と合わない / 較正があり得ない (TrustCalculator 7.6 と同じ軸)。
+    const poswTimingSuspect =
+      result.poswTiming?.status === 'inconsistent' || result.poswTiming?.status === 'implausible';
     let status: FileStatus;
     if (!isOverallValid(result, { screenshotsTampered })) {
       status = 'error';
@@ -110,6 +113,7 @@ export class VerificationController {
       result.signedCheckpointTemporal?.postHocSuspected ||
       result.signedCheckpointDensity?.sparse ||
       rootNotAnchored ||
+      poswTimingSuspect ||
       examPresentButUnverified ||
       screenshotsMissing > 0 ||
       screenshotsChainOnly > 0 ||
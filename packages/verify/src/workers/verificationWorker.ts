@@ -3,13 +3,18 @@
  * メインスレッドをブロックせずにハッシュ鎖とPoSWの検証を行う
  *
  * ここはメッセージの入出力だけを担う薄いアダプタ。検証と結果の組み立ては
- * `services/proofVerification.ts` (最終的には shared の `verifyProofFile`) が持つ。
+ * `services/proofVerification.ts` (最終的には shared の `verifyProofStream`) が持つ。
  * Worker 内に検証ロジックを書き戻さないこと (#211: 再実装が web↔CLI の乖離を生んだ)。
+ *
+ * proof は JSON テキストで受け取り、events を 1 件ずつ読みながら検証する (ADR-0039)。
+ * proof 全体を parse するのは検証後の分析のときだけで、events が `ANALYSIS_MAX_EVENTS` を超える proof は
+ * 分析を省いて parse もしない。
  */
 
-import { findUnsupportedProofReason, runProofVerification } from '../services/proofVerification.js';
-import type { ExamPackageManifest } from '@typedcode/shared';
-import type { ProofFile, VerificationMode, VerificationResultData } from '../types.js';
+import { findUnsupportedProofReason, runProofStreamVerification } from '../services/proofVerification.js';
+import { migrateProof, readProofEventStream, textChunks } from '@typedcode/shared';
+import type { ExamPackageManifest, LegacyProofFile, SubmissionReceipt } from '@typedcode/shared';
+import type { VerificationMode, VerificationResultData } from '../types.js';
 
 // Worker内で使用するメッセージ型
 interface VerifyRequest {
@@ -18,7 +23,10 @@ interface VerifyRequest {
   mode?: VerificationMode;
   /** 試験モード (ADR-0006): 問題パッケージ。あれば exam 束縛を完全検証する。 */
   manifest?: ExamPackageManifest;
-  proofData: ProofFile;
+  /** 提出レシート (ADR-0047)。あれば proof の最終状態と突合する。 */
+  submissionReceipt?: SubmissionReceipt;
+  /** proof の JSON テキスト */
+  rawData: string;
 }
 
 interface ProgressResponse {
@@ -85,16 +93,17 @@ function sendError(id: string, error: string): void {
  * 検証を実行
  */
 async function verify(request: VerifyRequest): Promise<void> {
-  const { id, proofData } = request;
+  const { id, rawData } = request;
   const mode: VerificationMode = request.mode ?? 'full';
 
   try {
-    const totalEvents = proofData.proof?.events?.length ?? 0;
+    const stream = await readProofEventStream(textChunks(rawData));
+    const totalEvents = stream.eventCount;
 
     // メタデータ / events を持たない proof はサポート対象外 (v3.0.0 以降が必要)。
     // Worker 内ではユーザーのロケール設定 (localStorage) を参照できないため、翻訳キーを
     // そのまま送り、メインスレッド側 (VerificationController) で t() 解決する。
-    const unsupported = findUnsupportedProofReason(proofData);
+    const unsupported = findUnsupportedProofReason(stream);
     if (unsupported) {
       sendError(id, unsupported);
       return;
@@ -102,9 +111,12 @@ async function verify(request: VerifyRequest): Promise<void> {
 
     sendProgress(id, 1, 3, 'metadata', totalEvents);
 
-    const result = await runProofVerification(proofData, {
+    // ヘッダは readProofEventStream が、分析に渡す proof 全体はここで現行の形にそろえる (migrateProof)
+    const loadProof = () => migrateProof(JSON.parse(rawData) as LegacyProofFile).proof;
+    const result = await runProofStreamVerification(stream, loadProof, {
       mode,
       manifest: request.manifest,
+      submissionReceipt: request.submissionReceipt,
       onChainProgress: (current, total) => {
         sendProgress(id, current, total, 'chain', totalEvents);
       },
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+/**
+ * 署名鍵の key set (ADR-0048) を 1 つ足して、今の署名鍵で裏書きする運用ツール。
+ *
+ * 連鎖の末尾の key set の鍵をすべて引き継ぎ、`--add` の鍵を足し、`--retire` / `--revoke` で締めた
+ * key set を作る。**canonical serialization / payload の形は packages/shared/src/checkpointKeySet.ts と
+ * 必ず一致させること** (一致しないと Workers も検証器も連鎖を受け付けない)。下記の
+ * deterministicStringify / payload の field set は shared からの写し。
+ *
+ * 裏書きする鍵は、key set の issuedAt の時点で既に信頼されている鍵 (組み込み registry か、
+ * 連鎖の前の key set に載った鍵) でなければならない。新しい鍵の有効化 (validFrom) は、
+ * 検証器が key set を取りにくる間隔 (Workers の cacheTtlSec) より十分先にしておく。
+ *
+ * 必要な環境変数:
+ *   CHECKPOINT_SIGNING_KEY_JWK  裏書きする鍵の私的 JWK
+ *   CHECKPOINT_SIGNING_KEY_ID   その keyId
+ *
+ * 使い方:
+ *   CHECKPOINT_SIGNING_KEY_JWK='{...}' CHECKPOINT_SIGNING_KEY_ID=tcp-202605-fd6d42 \
+ *     node packages/workers/scripts/endorse-checkpoint-key-set.mjs \
+ *       --chain key-set.json --add new-key.json --retire tcp-202605-fd6d42=2027-01-01T00:00:00.000Z \
+ *       --out key-set.json
+ *
+ * オプション:
+ *   --chain <file>          既存の連鎖 (`{ chain }` か配列)。省略時は新しい連鎖を始める
+ *   --add <file>            足す鍵の公開鍵 entry (generate-checkpoint-key.mjs の出力)。複数回指定可。
+ *                           組み込み registry の鍵を退役させるときは、その entry もここで載せる
+ *   --retire <keyId=ISO>    鍵の validUntil を設定する (早める方向にだけ変えられる)。複数回指定可
+ *   --revoke <keyId=ISO>    鍵を status: 'revoked' にして revokedAt を設定する。複数回指定可
+ *   --issued-at <ISO>       key set の発行時刻 (既定: 実行時刻)
+ *   --out <file>            出力する連鎖 (既定: "key-set.json")。Workers の CHECKPOINT_KEY_SET に入れる
+ */
+
+import { webcrypto } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+// --- shared/src/version.ts と一致させる定数 (ADR-0048) ---
+const CHECKPOINT_KEY_SET_FORMAT_VERSION = 1;
+
+// --- shared/src/utils/hashUtils.ts の写し (canonical serialization) ---
+function deterministicStringify(obj) {
+  return JSON.stringify(obj, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce((sorted, k) => {
+          sorted[k] = value[k];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+function bytesToHex(bytes) {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const REPEATABLE = new Set(['add', 'retire', 'revoke']);
+
+function parseArgs(argv) {
+  const args = { add: [], retire: [], revoke: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith('--')) continue;
+    const key = a.slice(2);
+    if (REPEATABLE.has(key)) {
+      args[key].push(argv[++i]);
+    } else {
+      args[key] = argv[++i];
+    }
+  }
+  return args;
+}
+
+function parseKeyTime(spec, flag) {
+  const eq = spec?.indexOf('=') ?? -1;
+  const keyId = eq > 0 ? spec.slice(0, eq) : '';
+  const at = eq > 0 ? spec.slice(eq + 1) : '';
+  if (!keyId || Number.isNaN(Date.parse(at))) {
+    throw new Error(`--${flag} expects <keyId>=<ISO time>, got "${spec}"`);
+  }
+  return { keyId, at: new Date(at).toISOString() };
+}
+
+function readChain(file) {
+  const raw = JSON.parse(readFileSync(file, 'utf8'));
+  const chain = Array.isArray(raw) ? raw : raw?.chain;
+  if (!Array.isArray(chain)) {
+    throw new Error(`${file} is not a key set chain`);
+  }
+  return chain;
+}
+
+async function sha256Hex(text) {
+  const digest = await webcrypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return bytesToHex(new Uint8Array(digest));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const jwkRaw = process.env.CHECKPOINT_SIGNING_KEY_JWK;
+  const keyId = process.env.CHECKPOINT_SIGNING_KEY_ID;
+  if (!jwkRaw || !keyId) {
+    throw new Error('CHECKPOINT_SIGNING_KEY_JWK and CHECKPOINT_SIGNING_KEY_ID env vars are required');
+  }
+
+  const chain = args.chain ? readChain(args.chain) : [];
+  const previous = chain.length > 0 ? chain[chain.length - 1] : null;
+  const keys = previous ? previous.payload.keys.map((k) => ({ ...k })) : [];
+
+  for (const file of args.add) {
+    const entry = JSON.parse(readFileSync(file, 'utf8'));
+    if (!entry || typeof entry.keyId !== 'string' || !entry.publicKeyJwk) {
+      throw new Error(`${file} is not a public key entry`);
+    }
+    if (keys.some((k) => k.keyId === entry.keyId)) {
+      throw new Error(`key ${entry.keyId} is already in the key set`);
+    }
+    keys.push(entry);
+  }
+
+  const findKey = (id, flag) => {
+    const key = keys.find((k) => k.keyId === id);
+    if (!key) throw new Error(`--${flag}: key ${id} is not in the key set (add its entry with --add first)`);
+    return key;
+  };
+  for (const spec of args.retire) {
+    const { keyId: id, at } = parseKeyTime(spec, 'retire');
+    findKey(id, 'retire').validUntil = at;
+  }
+  for (const spec of args.revoke) {
+    const { keyId: id, at } = parseKeyTime(spec, 'revoke');
+    const key = findKey(id, 'revoke');
+    key.status = 'revoked';
+    key.revokedAt = at;
+  }
+
+  // shared の createCheckpointKeySetPayload と同じ field set
+  const payload = {
+    version: CHECKPOINT_KEY_SET_FORMAT_VERSION,
+    sequence: previous ? previous.payload.sequence + 1 : 0,
+    previousKeySetHash: previous ? await sha256Hex(deterministicStringify(previous.payload)) : null,
+    issuedAt: args['issued-at'] ? new Date(args['issued-at']).toISOString() : new Date().toISOString(),
+    keys,
+  };
+
+  // shared の endorseCheckpointKeySet と同じ ECDSA-P256 署名 (canonical payload)
+  const privateKey = await webcrypto.subtle.importKey(
+    'jwk',
+    JSON.parse(jwkRaw),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+  const signingInput = new TextEncoder().encode(deterministicStringify(payload));
+  const sigBuffer = await webcrypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, signingInput);
+  const keySet = {
+    payload,
+    endorsements: [{ keyId, signature: bytesToHex(new Uint8Array(sigBuffer)), algorithm: 'ECDSA-P256' }],
+  };
+
+  const outFile = args.out ?? 'key-set.json';
+  writeFileSync(outFile, JSON.stringify({ chain: [...chain, keySet] }, null, 2) + '\n', 'utf8');
+
+  console.log('=== Key set written ===');
+  console.log('file:      ' + outFile);
+  console.log('sequence:  ' + payload.sequence);
+  console.log('issuedAt:  ' + payload.issuedAt);
+  console.log('endorser:  ' + keyId);
+  console.log('keys:      ' + keys.map((k) => k.keyId).join(', '));
+  console.log('');
+  console.log(`次の手順: \`wrangler secret put CHECKPOINT_KEY_SET < ${outFile}\` で連鎖を投入し、`);
+  console.log('新しい鍵の私的 JWK を CHECKPOINT_SIGNING_KEYS に足す。validFrom を過ぎると署名鍵が切り替わる。');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -15,6 +15,8 @@
  *   append し、`git update-index --skip-worktree` で git status から隠す
  * - **本番運用鍵**: 公開鍵を packages/shared/src/checkpointKeys/registry.ts に
  *   append して PR レビュー、私的 JWK は `wrangler secret put` で本番に投入
+ * - **ローテーション (ADR-0048)**: registry.ts を変えずに、公開鍵 entry を
+ *   endorse-checkpoint-key-set.mjs で key set に載せ、私的 JWK を CHECKPOINT_SIGNING_KEYS に足す
  */
 
 import { webcrypto } from 'node:crypto';
@@ -43,6 +45,7 @@ async function main() {
   console.log('For LOCAL dev: append to packages/shared/src/checkpointKeys/localKeys.ts');
   console.log('  then run: git update-index --skip-worktree packages/shared/src/checkpointKeys/localKeys.ts');
   console.log('For PRODUCTION: append to packages/shared/src/checkpointKeys/registry.ts and open a PR');
+  console.log('For ROTATION: save the entry to a file and run scripts/endorse-checkpoint-key-set.mjs --add <file>');
   console.log('');
   console.log(
     JSON.stringify(
@@ -69,6 +72,9 @@ async function main() {
   console.log('');
   console.log('CHECKPOINT_SIGNING_KEY_JWK (single-line JSON):');
   console.log(JSON.stringify(privateJwk));
+  console.log('');
+  console.log('CHECKPOINT_SIGNING_KEYS element (for ROTATION, append to the JSON array):');
+  console.log(JSON.stringify({ keyId, jwk: privateJwk }));
 }
 
 main().catch((err) => {
@@ -0,0 +1,168 @@
+/**
+ * 署名鍵のローテーション (ADR-0048) のテスト。
+ *
+ * - configuredSigningKeys: 複数鍵と従来の単一鍵の設定
+ * - getSigningKey: key set を重ねた registry から、時刻で署名鍵を選ぶ (予定した有効化・退役)
+ * - resolveKeyRegistry / handleKeySet: 壊れた連鎖は信頼せず、配らない
+ *
+ * 連鎖の起点 (組み込み registry) はテスト鍵の registry を引数で注入する (本番鍵の秘密鍵は無いので)。
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  createCheckpointKeySetPayload,
+  endorseCheckpointKeySet,
+  type CheckpointPublicKey,
+  type SignedCheckpointKeySet,
+} from '@typedcode/shared/checkpoint';
+import { getSigningKey, type CheckpointEnv } from '../checkpoint.js';
+import { configuredSigningKeys, handleKeySet, resolveKeyRegistry } from '../keySet.js';
+import worker from '../index.js';
+
+interface TestKey {
+  keyId: string;
+  privateKey: CryptoKey;
+  privateJwk: JsonWebKey;
+  entry: CheckpointPublicKey;
+}
+
+async function createKey(keyId: string, validFrom: string): Promise<TestKey> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  return {
+    keyId,
+    privateKey: keyPair.privateKey,
+    privateJwk: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    entry: {
+      keyId,
+      algorithm: 'ECDSA-P256',
+      publicKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      status: 'active',
+      validFrom,
+    },
+  };
+}
+
+const responder = { cors: (extra: Record<string, string> = {}) => extra };
+
+let rootKey: TestKey;
+let nextKey: TestKey;
+let baseRegistry: CheckpointPublicKey[];
+let chain: SignedCheckpointKeySet[];
+
+beforeAll(async () => {
+  rootKey = await createKey('tcp-root', '2026-01-01T00:00:00.000Z');
+  nextKey = await createKey('tcp-next', '2026-11-01T00:00:00.000Z');
+  baseRegistry = [rootKey.entry];
+  // root が next を足し、next の有効化と重なる 1 か月後に root を退役させる。
+  const payload = await createCheckpointKeySetPayload(
+    null,
+    [{ ...rootKey.entry, validUntil: '2026-12-01T00:00:00.000Z' }, nextKey.entry],
+    '2026-10-01T00:00:00.000Z'
+  );
+  chain = [await endorseCheckpointKeySet(payload, [{ keyId: rootKey.keyId, privateKey: rootKey.privateKey }])];
+});
+
+function makeEnv(overrides: Partial<CheckpointEnv> = {}): CheckpointEnv {
+  return {
+    CHECKPOINT_SESSIONS: undefined as unknown as CheckpointEnv['CHECKPOINT_SESSIONS'],
+    CHECKPOINT_SIGNING_KEYS: JSON.stringify([
+      { keyId: rootKey.keyId, jwk: rootKey.privateJwk },
+      { keyId: nextKey.keyId, jwk: nextKey.privateJwk },
+    ]),
+    CHECKPOINT_KEY_SET: JSON.stringify({ chain }),
+    ...overrides,
+  };
+}
+
+async function signsWith(signer: { key: CryptoKey }, key: TestKey): Promise<boolean> {
+  const data = new TextEncoder().encode('probe');
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signer.key, data);
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    key.entry.publicKeyJwk,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, publicKey, signature, data);
+}
+
+describe('configuredSigningKeys', () => {
+  it('combines the key list with the legacy single key and rejects a malformed list', () => {
+    const env = makeEnv({ CHECKPOINT_SIGNING_KEY_ID: 'tcp-legacy', CHECKPOINT_SIGNING_KEY_JWK: '{"kty":"EC"}' });
+    expect(configuredSigningKeys(env).map((k) => k.keyId)).toEqual(['tcp-root', 'tcp-next', 'tcp-legacy']);
+    expect(() => configuredSigningKeys(makeEnv({ CHECKPOINT_SIGNING_KEYS: '{"keyId":"x"}' }))).toThrow(
+      'CHECKPOINT_SIGNING_KEYS must be a JSON array'
+    );
+  });
+});
+
+describe('getSigningKey with key rotation', () => {
+  it('switches to the endorsed key at its validFrom without a redeploy', async () => {
+    const env = makeEnv();
+    const before = await getSigningKey(env, new Date('2026-10-20T00:00:00.000Z'), baseRegistry);
+    expect(before.keyId).toBe('tcp-root');
+    expect(await signsWith(before, rootKey)).toBe(true);
+
+    const after = await getSigningKey(env, new Date('2026-11-02T00:00:00.000Z'), baseRegistry);
+    expect(after.keyId).toBe('tcp-next');
+    expect(await signsWith(after, nextKey)).toBe(true);
+  });
+
+  it('refuses retired, unknown or missing keys with distinct codes', async () => {
+    const onlyRoot = makeEnv({
+      CHECKPOINT_SIGNING_KEYS: JSON.stringify([{ keyId: rootKey.keyId, jwk: rootKey.privateJwk }]),
+    });
+    await expect(getSigningKey(onlyRoot, new Date('2026-12-02T00:00:00.000Z'), baseRegistry)).rejects.toMatchObject({
+      code: 'SIGNING_KEY_INACTIVE',
+    });
+
+    // 連鎖が無ければ next は registry に無い。
+    const noKeySet = makeEnv({
+      CHECKPOINT_SIGNING_KEYS: JSON.stringify([{ keyId: nextKey.keyId, jwk: nextKey.privateJwk }]),
+      CHECKPOINT_KEY_SET: undefined,
+    });
+    await expect(getSigningKey(noKeySet, new Date('2026-11-02T00:00:00.000Z'), baseRegistry)).rejects.toMatchObject({
+      code: 'SIGNING_KEY_UNKNOWN',
+    });
+
+    await expect(getSigningKey(makeEnv({ CHECKPOINT_SIGNING_KEYS: undefined }))).rejects.toMatchObject({
+      code: 'SIGNING_KEY_NOT_CONFIGURED',
+    });
+  });
+});
+
+describe('resolveKeyRegistry and /api/checkpoint/key-set', () => {
+  it('serves the verified chain and overlays its keys on the built-in registry', async () => {
+    const env = makeEnv();
+    const resolved = await resolveKeyRegistry(env, baseRegistry);
+    expect(resolved.registry.map((k) => k.keyId)).toEqual(['tcp-root', 'tcp-next']);
+
+    const res = await handleKeySet(env, responder, baseRegistry);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=3600');
+    expect(await res.json()).toEqual({ chain: JSON.parse(JSON.stringify(chain)), cacheTtlSec: 3600 });
+  });
+
+  it('does not trust or serve a chain that fails verification', async () => {
+    // 組み込み registry に root が無ければ、root の裏書きは信頼できない。
+    const otherBase = [nextKey.entry];
+    const env = makeEnv();
+    const resolved = await resolveKeyRegistry(env, otherBase);
+    expect(resolved.registry).toBe(otherBase);
+    expect(resolved.invalidReason).toBe('key set 0 is not endorsed by a key that was trusted at issuedAt');
+
+    const res = await handleKeySet(env, responder, otherBase);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: 'Key set is not available', code: 'KEY_SET_INVALID' });
+  });
+
+  it('returns an empty chain from the worker when no key set is configured', async () => {
+    const env = { ENVIRONMENT: 'production', ALLOWED_ORIGINS: 'https://typedcode.dev' } as unknown as Parameters<
+      typeof worker.fetch
+    >[1];
+    const res = await worker.fetch(new Request('https://workers.test/api/checkpoint/key-set'), env);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ chain: [], cacheTtlSec: 3600 });
+  });
+});
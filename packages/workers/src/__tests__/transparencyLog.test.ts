@@ -0,0 +1,215 @@
+/**
+ * 透明性ログ (ADR-0046) の Workers 側のテスト。
+ *
+ * - 置き場の挙動は共通スイート (`../testing/transparencyLogSuite.ts`) を Durable Object の storage
+ *   (in-memory の Map で代用) の上で回す。自前ホストはファイル / SQLite で同じスイートを回す。
+ * - Worker → DO の RPC と `/api/log/*` は worker.fetch を通す。DO namespace は TransparencyLogObject を
+ *   直に呼ぶ偽物で、Turnstile siteverify はグローバル fetch のモック (sessionStart.test.ts と同じ)。
+ * - 署名鍵は都度生成して registry の既存 keyId に紐付け、ツリーヘッドの検証には同じ keyId に
+ *   生成した公開鍵を載せた registry を渡す。
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import {
+  hashSessionStartTokenPayload,
+  verifySignedTreeHead,
+  verifyTransparencyLogConsistency,
+  verifyTransparencyLogEvidence,
+  type CheckpointPublicKey,
+  type MerkleConsistencyProof,
+  type SessionStartToken,
+  type SignedTreeHead,
+  type TransparencyLogEntry,
+  type TransparencyLogEvidence,
+} from '@typedcode/shared/checkpoint';
+import worker from '../index.js';
+import { describeTransparencyLog } from '../testing/transparencyLogSuite.js';
+import { TransparencyLogObject, durableObjectSessionStore } from '../transparencyLogObject.js';
+
+type TestEnv = Parameters<typeof worker.fetch>[1];
+
+/** registry.ts に append 済みの本番 keyId */
+const REGISTERED_KEY_ID = 'tcp-202605-fd6d42';
+
+/** DurableObjectStorage の get / put だけを Map で持つ */
+class MemoryStorage {
+  readonly data = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.data.get(key) as T | undefined;
+  }
+  async put(key: string, value: unknown): Promise<void> {
+    this.data.set(key, value);
+  }
+}
+
+/** 1 つの TransparencyLogObject に全 id を向ける DO namespace */
+function fakeNamespace(object: { fetch(request: Request): Promise<Response> }): DurableObjectNamespace {
+  return {
+    idFromName: () => ({}),
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) => object.fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+function newLogObject(): TransparencyLogObject {
+  return new TransparencyLogObject({ storage: new MemoryStorage() } as unknown as DurableObjectState);
+}
+
+describeTransparencyLog('KeyValueTransparencyLog (Durable Object storage)', () =>
+  durableObjectSessionStore(new MemoryStorage() as unknown as DurableObjectStorage)
+);
+
+describe('transparency log API (/api/log/*)', () => {
+  let signingJwk: string;
+  let registry: readonly CheckpointPublicKey[];
+  let env: TestEnv;
+  const originalFetch = globalThis.fetch;
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    signingJwk = JSON.stringify(await crypto.subtle.exportKey('jwk', keyPair.privateKey));
+    registry = [
+      {
+        keyId: REGISTERED_KEY_ID,
+        algorithm: 'ECDSA-P256',
+        publicKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        status: 'active',
+        validFrom: '2026-01-01T00:00:00.000Z',
+      },
+    ];
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function makeEnv(transparencyLog?: DurableObjectNamespace): TestEnv {
+    return {
+      TURNSTILE_SECRET_KEY: 'secret',
+      ATTESTATION_SECRET_KEY: 'x',
+      ENVIRONMENT: 'production',
+      ALLOWED_ORIGINS: 'https://typedcode.dev',
+      CHECKPOINT_SIGNING_KEY_JWK: signingJwk,
+      CHECKPOINT_SIGNING_KEY_ID: REGISTERED_KEY_ID,
+      TRANSPARENCY_LOG: transparencyLog,
+    } as unknown as TestEnv;
+  }
+
+  beforeEach(() => {
+    globalThis.fetch = (async () =>
+      new Response(
+        JSON.stringify({
+          success: true,
+          hostname: 'typedcode.dev',
+          action: 'create_tab',
+          challenge_ts: '2026-06-12T00:00:00.000Z',
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )) as typeof fetch;
+    env = makeEnv(fakeNamespace(newLogObject()));
+  });
+
+  function call(path: string, init?: RequestInit, targetEnv: TestEnv = env): Promise<Response> {
+    return worker.fetch(
+      new Request(`https://workers.test${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Origin: 'https://typedcode.dev' },
+      }),
+      targetEnv
+    );
+  }
+
+  async function startSession(sessionId: string, targetEnv: TestEnv = env): Promise<Response> {
+    return call(
+      '/api/session/start',
+      {
+        method: 'POST',
+        body: JSON.stringify({ turnstileToken: 'tt', sessionId, fingerprintHash: 'f'.repeat(64) }),
+      },
+      targetEnv
+    );
+  }
+
+  async function tokenEntry(res: Response): Promise<TransparencyLogEntry> {
+    const { token } = (await res.json()) as { token: SessionStartToken };
+    return { kind: 'session-start-token', payloadHash: await hashSessionStartTokenPayload(token.payload) };
+  }
+
+  async function treeHead(): Promise<SignedTreeHead> {
+    return ((await (await call('/api/log/tree-head')).json()) as { treeHead: SignedTreeHead }).treeHead;
+  }
+
+  it('records issued session tokens and serves a signed tree head over them', async () => {
+    const empty = await treeHead();
+    expect(empty.payload.treeSize).toBe(0);
+
+    const entries = [
+      await tokenEntry(await startSession('session-A')),
+      await tokenEntry(await startSession('session-B')),
+    ];
+    const head = await treeHead();
+    expect(head.payload.treeSize).toBe(2);
+    expect(head.keyId).toBe(REGISTERED_KEY_ID);
+    expect((await verifySignedTreeHead(head, registry)).valid).toBe(true);
+
+    const listed = (await (await call('/api/log/entries?start=0&end=2')).json()) as { entries: TransparencyLogEntry[] };
+    expect(listed.entries).toEqual(entries);
+
+    const consistency = (await (await call('/api/log/consistency?first=0&second=2')).json()) as {
+      proof: MerkleConsistencyProof;
+    };
+    expect(await verifyTransparencyLogConsistency(consistency.proof, empty.payload, head.payload)).toBe(true);
+  });
+
+  it('returns evidence that verifies for logged entries and reports entries it does not know', async () => {
+    const logged = await tokenEntry(await startSession('session-A'));
+    const unknown: TransparencyLogEntry = { kind: 'signed-checkpoint', payloadHash: '0'.repeat(64) };
+
+    const res = await call('/api/log/evidence', { method: 'POST', body: JSON.stringify({ entries: [logged] }) });
+    expect(res.status).toBe(200);
+    const evidence = (await res.json()) as TransparencyLogEvidence;
+    expect((await verifyTransparencyLogEvidence(evidence, [logged], registry)).valid).toBe(true);
+
+    const partial = (await (
+      await call('/api/log/evidence', { method: 'POST', body: JSON.stringify({ entries: [logged, unknown] }) })
+    ).json()) as TransparencyLogEvidence;
+    const result = await verifyTransparencyLogEvidence(partial, [logged, unknown], registry);
+    expect(result.valid).toBe(false);
+    expect(result.missing).toEqual([unknown]);
+  });
+
+  it('rejects malformed requests and ranges outside the log', async () => {
+    await startSession('session-A');
+
+    const badBody = await call('/api/log/evidence', { method: 'POST', body: JSON.stringify({ entries: [{}] }) });
+    expect(badBody.status).toBe(400);
+    expect(((await badBody.json()) as { code: string }).code).toBe('SCHEMA_INVALID');
+
+    const tooMany = await call('/api/log/entries?start=0&end=257');
+    expect(((await tooMany.json()) as { code: string }).code).toBe('SCHEMA_INVALID');
+
+    // DO の中の TransparencyLogRangeError が RPC を越えて 400 に戻る。
+    const outside = await call('/api/log/consistency?first=0&second=5');
+    expect(outside.status).toBe(400);
+    expect(((await outside.json()) as { code: string }).code).toBe('LOG_RANGE_INVALID');
+  });
+
+  it('does not issue a session token it could not record', async () => {
+    const broken = fakeNamespace({ fetch: async () => new Response('{}', { status: 500 }) });
+    const res = await startSession('session-A', makeEnv(broken));
+    expect(res.status).toBe(503);
+    expect(((await res.json()) as { token?: unknown }).token).toBeUndefined();
+
+    const unavailable = await call('/api/log/tree-head', undefined, makeEnv(broken));
+    expect(unavailable.status).toBe(503);
+    expect(((await unavailable.json()) as { code: string }).code).toBe('LOG_UNAVAILABLE');
+  });
+
+  it('leaves /api/log/* unrouted when no log is bound', async () => {
+    const res = await call('/api/log/tree-head', undefined, makeEnv());
+    expect(res.status).toBe(404);
+    expect((await startSession('session-A', makeEnv())).status).toBe(200);
+  });
+});
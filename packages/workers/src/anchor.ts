@@ -0,0 +1,149 @@
+/**
+ * アンカー API (session/start + checkpoint 署名 + 提出レシート + 公開鍵・key set + 透明性ログ) の実行環境非依存エントリ。
+ *
+ * Cloudflare Workers (index.ts) と自前ホストの Node サーバ (`packages/anchor-server`) が
+ * 同じハンドラを共有する。実行環境ごとに差し替えるのはセッション状態の置き場 (SessionStore)・
+ * human check・透明性ログの置き場だけで、エンドポイントの挙動・エラーコード・CORS 方針は両者で同一。
+ * このモジュールと依存先は Cloudflare 固有の型・API を使わない (Node 側が型検査できるように)。
+ */
+
+import type { CheckpointPublicKey } from '@typedcode/shared/checkpoint';
+import { handlePublicKeys, handleSignCheckpoint, type CheckpointEnv } from './checkpoint.js';
+import { checkpointResponder, handleCORS, internalErrorResponse, type CorsEnv } from './cors.js';
+import type { HumanCheck } from './humanCheck.js';
+import { handleKeySet } from './keySet.js';
+import { handleSessionStart } from './sessionStart.js';
+import { handleSubmissionReceipt } from './submissionReceipt.js';
+import type { TransparencyLog } from './transparencyLog.js';
+import { handleLogConsistency, handleLogEntries, handleLogEvidence, handleLogTreeHead } from './transparencyLogApi.js';
+
+export type { CheckpointEnv } from './checkpoint.js';
+export type { KeyRotationEnv } from './keySet.js';
+export type { CorsEnv } from './cors.js';
+export type { SessionStore } from './sessionStore.js';
+export {
+  KeyValueTransparencyLog,
+  TransparencyLogRangeError,
+  type TransparencyLog,
+  type TransparencyLogHead,
+  type TransparencyLogProofs,
+} from './transparencyLog.js';
+export { MAX_EVIDENCE_ENTRIES, MAX_LOG_ENTRIES_PER_REQUEST } from './transparencyLogApi.js';
+export {
+  DISABLED_HUMAN_CHECK,
+  createTurnstileHumanCheck,
+  type HumanCheck,
+  type HumanCheckResult,
+  type TurnstileEnv,
+} from './humanCheck.js';
+
+/** アンカー API が読む env (Workers の binding / secret と同じ名前) */
+export interface AnchorEnv extends CheckpointEnv, CorsEnv {}
+
+export interface AnchorContext {
+  env: AnchorEnv;
+  humanCheck: HumanCheck;
+  /**
+   * 透明性ログ (ADR-0046)。あれば発行したトークン・署名 cp・提出レシートを必ず載せ、`/api/log/*` を提供する。
+   * Workers は Durable Object、自前ホストは KeyValueTransparencyLog を渡す。無ければログ無しで動く。
+   */
+  transparencyLog?: TransparencyLog;
+  /** テスト用: sessionStartToken の検証に使う公開鍵 registry の差し替え (既定は key set を重ねた本番 registry)。 */
+  tokenKeyRegistry?: readonly CheckpointPublicKey[];
+}
+
+/**
+ * アンカー API のルートを処理する。担当外のパスには null を返す
+ * (Workers は verify-captcha 等の自前ルートへ、Node サーバは 404 へ回す)。
+ */
+export async function routeAnchorRequest(request: Request, context: AnchorContext): Promise<Response | null> {
+  const { env } = context;
+  const url = new URL(request.url);
+  const origin = request.headers.get('Origin');
+
+  // CORS preflight
+  if (request.method === 'OPTIONS') {
+    return handleCORS(request, env);
+  }
+
+  // セッション開始トークン発行 (ADR-0017)
+  if (url.pathname === '/api/session/start' && request.method === 'POST') {
+    return handleSessionStart(
+      request,
+      env,
+      context.humanCheck,
+      checkpointResponder(origin, env),
+      context.transparencyLog
+    );
+  }
+
+  // Signed checkpoint endpoints
+  if (url.pathname === '/api/checkpoint/sign' && request.method === 'POST') {
+    return handleSignCheckpoint(
+      request,
+      env,
+      checkpointResponder(origin, env),
+      context.tokenKeyRegistry,
+      context.transparencyLog
+    );
+  }
+  // 提出レシート (ADR-0047)
+  if (url.pathname === '/api/submission/receipt' && request.method === 'POST') {
+    return handleSubmissionReceipt(
+      request,
+      env,
+      checkpointResponder(origin, env),
+      context.tokenKeyRegistry,
+      context.transparencyLog
+    );
+  }
+  if (url.pathname === '/api/checkpoint/public-keys' && request.method === 'GET') {
+    return handlePublicKeys(env, checkpointResponder(origin, env));
+  }
+  // 署名鍵の key set (ADR-0048)
+  if (url.pathname === '/api/checkpoint/key-set' && request.method === 'GET') {
+    return handleKeySet(env, checkpointResponder(origin, env));
+  }
+
+  // 透明性ログ (ADR-0046)。ログを持たない構成では 404 (担当外) にする。
+  const log = context.transparencyLog;
+  if (log && url.pathname.startsWith('/api/log/')) {
+    const responder = checkpointResponder(origin, env);
+    if (url.pathname === '/api/log/tree-head' && request.method === 'GET') {
+      return handleLogTreeHead(env, log, responder);
+    }
+    if (url.pathname === '/api/log/evidence' && request.method === 'POST') {
+      return handleLogEvidence(request, env, log, responder);
+    }
+    if (url.pathname === '/api/log/consistency' && request.method === 'GET') {
+      return handleLogConsistency(url, log, responder);
+    }
+    if (url.pathname === '/api/log/entries' && request.method === 'GET') {
+      return handleLogEntries(url, log, responder);
+    }
+  }
+
+  // ヘルスチェック
+  if (url.pathname === '/health') {
+    return new Response(JSON.stringify({ status: 'ok', environment: env.ENVIRONMENT }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * アンカー API だけを提供する fetch 相当のハンドラを作る (自前ホスト用)。
+ * 担当外のパスは 404、未捕捉例外は CORS 付きの JSON 500 にする (Workers の最終防衛と同じ, #153)。
+ */
+export function createAnchorHandler(context: AnchorContext): (request: Request) => Promise<Response> {
+  return async (request) => {
+    try {
+      return (await routeAnchorRequest(request, context)) ?? new Response('Not Found', { status: 404 });
+    } catch (err) {
+      console.error('[anchor] unhandled exception:', err);
+      return internalErrorResponse(request, context.env);
+    }
+  };
+}
@@ -8,6 +8,7 @@
  * - firstSeenAt は KV 初回書込時に確定し、それ以降は固定。verifier はすべての
  *   envelope で firstSeenAt が一致することを要求するので、sessionId 乗っ取りに
  *   対する追加の防御線となる。
+ * - 署名鍵は設定済みの鍵から時刻で選び、registry は key set (ADR-0048) を重ねたものを使う (keySet.ts)。
  */
 
 import {
@@ -15,17 +16,20 @@ import {
   createSignedCheckpointEnvelope,
   findCheckpointPublicKey,
   isIdempotentSigningRetry,
+  selectSigningKeyId,
   validateSignedCheckpointInput,
   verifySessionStartToken,
+  hashSignedCheckpointPayload,
 } from '@typedcode/shared/checkpoint';
 import type { CheckpointPublicKey, SessionStartToken, SignedCheckpointEnvelope } from '@typedcode/shared/checkpoint';
+import { configuredSigningKeys, resolveKeyRegistry, type KeyRotationEnv } from './keySet.js';
+import type { SessionStore } from './sessionStore.js';
+import type { TransparencyLog } from './transparencyLog.js';
 
-export interface CheckpointEnv {
-  CHECKPOINT_SESSIONS: KVNamespace;
-  /** ECDSA-P256 秘密鍵 JWK を JSON 文字列で注入 */
-  CHECKPOINT_SIGNING_KEY_JWK?: string;
-  /** 秘密鍵に対応する keyId (CHECKPOINT_PUBLIC_KEYS に存在する必要あり) */
-  CHECKPOINT_SIGNING_KEY_ID?: string;
+/** 署名鍵の設定 (単一鍵 / 複数鍵 / key set) は KeyRotationEnv (keySet.ts) */
+export interface CheckpointEnv extends KeyRotationEnv {
+  /** セッション状態 (Workers は KV、自前ホストはファイル / SQLite。sessionStore.ts) */
+  CHECKPOINT_SESSIONS: SessionStore;
 }
 
 interface SessionRecord {
@@ -64,7 +68,7 @@ const MAX_TABS_PER_SESSION = 64;
  *  署名 API なので余裕を見つつ上限を設けて巨大 body をパース前に弾く。 */
 const MAX_BODY_BYTES = 8 * 1024;
 
-interface CorsResponder {
+export interface CorsResponder {
   cors(extraHeaders?: Record<string, string>): HeadersInit;
 }
 
@@ -81,8 +85,10 @@ interface ErrorBody {
     | 'TAB_LIMIT_EXCEEDED'
     | 'SIGNING_KEY_NOT_CONFIGURED'
     | 'SIGNING_KEY_UNKNOWN'
+    | 'SIGNING_KEY_INACTIVE'
     | 'SIGNING_ERROR'
     | 'SESSION_PERSIST_FAILED'
+    | 'LOG_APPEND_FAILED'
     | 'SESSION_STATE_UNAVAILABLE';
 }
 
@@ -96,30 +102,54 @@ function jsonResponse(body: unknown, status: number, cors: HeadersInit): Respons
   });
 }
 
-let cachedPrivateKey: { keyId: string; key: CryptoKey } | null = null;
+/** import 済みの秘密鍵 (keyId と JWK の組ごと。secret を差し替えたら読み直す) */
+const privateKeyCache = new Map<string, CryptoKey>();
 
 /**
  * checkpoint 署名鍵 (ECDSA-P256 private) をロードする。キャッシュあり。
  * ADR-0017 の session/start トークン署名もこの鍵を流用する (運用一系統)。
+ *
+ * 設定済みの鍵のうち、registry (key set を重ねたもの、ADR-0048) 上で `now` に有効な最も新しい鍵を使う。
+ * 重なった有効期間で新しい鍵を先に配っておけば、`validFrom` を過ぎた時点で再デプロイなしに切り替わる。
  */
-export async function getSigningKey(env: CheckpointEnv): Promise<{ keyId: string; key: CryptoKey }> {
-  if (!env.CHECKPOINT_SIGNING_KEY_JWK || !env.CHECKPOINT_SIGNING_KEY_ID) {
+export async function getSigningKey(
+  env: CheckpointEnv,
+  now: Date = new Date(),
+  /** テスト用: key set の連鎖の起点にする組み込み registry の差し替え */
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<{ keyId: string; key: CryptoKey }> {
+  const configured = configuredSigningKeys(env);
+  if (configured.length === 0) {
     throw Object.assign(new Error('Signing key not configured'), {
       code: 'SIGNING_KEY_NOT_CONFIGURED',
     });
   }
-  if (cachedPrivateKey && cachedPrivateKey.keyId === env.CHECKPOINT_SIGNING_KEY_ID) {
-    return cachedPrivateKey;
-  }
-  if (!findCheckpointPublicKey(env.CHECKPOINT_SIGNING_KEY_ID)) {
-    throw Object.assign(new Error(`Signing keyId not in registry: ${env.CHECKPOINT_SIGNING_KEY_ID}`), {
+  const { registry } = await resolveKeyRegistry(env, baseRegistry);
+  const known = configured.filter((k) => findCheckpointPublicKey(k.keyId, registry));
+  if (known.length === 0) {
+    const ids = configured.map((k) => k.keyId).join(', ');
+    throw Object.assign(new Error(`Signing keyId not in registry: ${ids}`), {
       code: 'SIGNING_KEY_UNKNOWN',
     });
   }
-  const jwk = JSON.parse(env.CHECKPOINT_SIGNING_KEY_JWK) as JsonWebKey;
-  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
-  cachedPrivateKey = { keyId: env.CHECKPOINT_SIGNING_KEY_ID, key };
-  return cachedPrivateKey;
+  const keyId = selectSigningKeyId(
+    registry,
+    known.map((k) => k.keyId),
+    now
+  );
+  if (keyId === null) {
+    throw Object.assign(new Error(`No configured signing key is valid at ${now.toISOString()}`), {
+      code: 'SIGNING_KEY_INACTIVE',
+    });
+  }
+  const jwk = known.find((k) => k.keyId === keyId)!.jwk;
+  const cacheKey = `${keyId}\n${JSON.stringify(jwk)}`;
+  let key = privateKeyCache.get(cacheKey);
+  if (!key) {
+    key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+    privateKeyCache.set(cacheKey, key);
+  }
+  return { keyId, key };
 }
 
 /**
@@ -136,12 +166,67 @@ function extractSessionStartToken(parsed: unknown): SessionStartToken | null {
   return raw as SessionStartToken;
 }
 
+/**
+ * リクエスト body の sessionStartToken を検証し、`sessionId` に発行されたものかを確かめる (ADR-0027)。
+ * 通れば null、弾くときはそのまま返すエラーレスポンス (TOKEN_REQUIRED / TOKEN_INVALID /
+ * TOKEN_SESSION_MISMATCH)。署名 cp と提出レシート (ADR-0047) が同じゲートを通る。
+ */
+export async function checkSessionStartToken(
+  parsed: unknown,
+  sessionId: string,
+  tokenKeyRegistry: readonly CheckpointPublicKey[],
+  responder: CorsResponder,
+  /** TOKEN_REQUIRED の文言に入れる操作名 (例: 'sign checkpoints') */
+  action: string
+): Promise<Response | null> {
+  const sessionStartToken = extractSessionStartToken(parsed);
+  if (!sessionStartToken) {
+    return jsonResponse(
+      {
+        error: `sessionStartToken is required to ${action} (ADR-0027)`,
+        code: 'TOKEN_REQUIRED',
+      } satisfies ErrorBody,
+      401,
+      responder.cors()
+    );
+  }
+  let tokenResult: Awaited<ReturnType<typeof verifySessionStartToken>>;
+  try {
+    tokenResult = await verifySessionStartToken(sessionStartToken, tokenKeyRegistry);
+  } catch (err) {
+    console.error('[checkpoint] session token verification threw:', err);
+    tokenResult = { valid: false, reason: 'Malformed session token' };
+  }
+  if (!tokenResult.valid) {
+    // 検証失敗の内部理由 (registry の keyId 等) は返さず固定文言。詳細はサーバログのみ。
+    console.warn('[checkpoint] session token rejected:', tokenResult.reason);
+    return jsonResponse(
+      { error: 'Session start token is invalid', code: 'TOKEN_INVALID' } satisfies ErrorBody,
+      401,
+      responder.cors()
+    );
+  }
+  if (sessionStartToken.payload.sessionId !== sessionId) {
+    return jsonResponse(
+      {
+        error: 'Session start token does not match the request sessionId',
+        code: 'TOKEN_SESSION_MISMATCH',
+      } satisfies ErrorBody,
+      401,
+      responder.cors()
+    );
+  }
+  return null;
+}
+
 export async function handleSignCheckpoint(
   request: Request,
   env: CheckpointEnv,
   responder: CorsResponder,
-  /** テスト用: token 検証に使う公開鍵 registry の差し替え (既定は本番 registry)。 */
-  tokenKeyRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+  /** テスト用: token 検証に使う公開鍵 registry の差し替え (既定は key set を重ねた本番 registry)。 */
+  tokenKeyRegistry?: readonly CheckpointPublicKey[],
+  /** 透明性ログ (ADR-0046)。あれば発行する envelope を必ずログに載せてから返す */
+  transparencyLog?: TransparencyLog
 ): Promise<Response> {
   // body サイズ上限: まず Content-Length があればパース前に弾く (巨大 body の DoS 対策)。
   const contentLength = Number(request.headers.get('Content-Length') ?? '');
@@ -198,43 +283,14 @@ export async function handleSignCheckpoint(
   // なので、新規 sessionId 連打で per-session 上限を回避する KV write 増幅 DoS に開いていた。
   // token は ECDSA でステートレス検証でき、sessionId を「Turnstile 1 回」に束縛する
   // (KV read より前に検証し、無認証リクエストには KV コストを一切払わない)。
-  const sessionStartToken = extractSessionStartToken(parsed);
-  if (!sessionStartToken) {
-    return jsonResponse(
-      {
-        error: 'sessionStartToken is required to sign checkpoints (ADR-0027)',
-        code: 'TOKEN_REQUIRED',
-      } satisfies ErrorBody,
-      401,
-      responder.cors()
-    );
-  }
-  let tokenResult: Awaited<ReturnType<typeof verifySessionStartToken>>;
-  try {
-    tokenResult = await verifySessionStartToken(sessionStartToken, tokenKeyRegistry);
-  } catch (err) {
-    console.error('[checkpoint] session token verification threw:', err);
-    tokenResult = { valid: false, reason: 'Malformed session token' };
-  }
-  if (!tokenResult.valid) {
-    // 検証失敗の内部理由 (registry の keyId 等) は返さず固定文言。詳細はサーバログのみ。
-    console.warn('[checkpoint] session token rejected:', tokenResult.reason);
-    return jsonResponse(
-      { error: 'Session start token is invalid', code: 'TOKEN_INVALID' } satisfies ErrorBody,
-      401,
-      responder.cors()
-    );
-  }
-  if (sessionStartToken.payload.sessionId !== input.sessionId) {
-    return jsonResponse(
-      {
-        error: 'Session start token does not match the request sessionId',
-        code: 'TOKEN_SESSION_MISMATCH',
-      } satisfies ErrorBody,
-      401,
-      responder.cors()
-    );
-  }
+  const tokenRejection = await checkSessionStartToken(
+    parsed,
+    input.sessionId,
+    tokenKeyRegistry ?? (await resolveKeyRegistry(env)).registry,
+    responder,
+    'sign checkpoints'
+  );
+  if (tokenRejection) return tokenRejection;
 
   // 鍵を解決 (キャッシュあり)
   let signer: { keyId: string; key: CryptoKey };
@@ -366,6 +422,28 @@ export async function handleSignCheckpoint(
     );
   }
 
+  // 透明性ログへの追記 (ADR-0046)。ログを通さずに envelope を返さない: 載せられなければ
+  // envelope を破棄してリトライさせる (KV はまだ書いていないので、次の要求は同じ状態から署名し直す)。
+  // 追記の後で KV 書き込みが失敗した envelope もログには残るが、使われない署名が載るだけで害はない。
+  if (transparencyLog) {
+    try {
+      await transparencyLog.append({
+        kind: 'signed-checkpoint',
+        payloadHash: await hashSignedCheckpointPayload(envelope.payload),
+      });
+    } catch (err) {
+      console.error('[checkpoint] transparency log append failed:', err);
+      return jsonResponse(
+        {
+          error: 'Failed to record the checkpoint in the transparency log; retry the signing request',
+          code: 'LOG_APPEND_FAILED',
+        } satisfies ErrorBody,
+        503,
+        responder.cors()
+      );
+    }
+  }
+
   // KV 更新 (best-effort)
   const nextRecord: SessionRecord = {
     firstSeenAt,
@@ -413,8 +491,10 @@ export async function handleSignCheckpoint(
   return jsonResponse({ envelope }, 200, responder.cors());
 }
 
-export function handlePublicKeys(responder: CorsResponder): Response {
-  // 公開鍵 registry はビルド時に git から固定 (削除しないので長期検証可能)。
-  const keys = CHECKPOINT_PUBLIC_KEYS.map(({ description, ...rest }) => rest);
+export async function handlePublicKeys(env: CheckpointEnv, responder: CorsResponder): Promise<Response> {
+  // 公開鍵 registry はビルド時に git から固定 (削除しないので長期検証可能)。key set (ADR-0048) の鍵も重ねて返すが、
+  // この応答は署名されていないので、検証器が新しい鍵を信頼するには /api/checkpoint/key-set の連鎖を検証する。
+  const { registry } = await resolveKeyRegistry(env);
+  const keys = registry.map(({ description, ...rest }) => rest);
   return jsonResponse({ keys, cacheTtlSec: 86400 }, 200, responder.cors({ 'Cache-Control': 'public, max-age=3600' }));
 }
@@ -0,0 +1,134 @@
+/**
+ * CORS の許可オリジン判定とレスポンスヘッダ。
+ *
+ * Cloudflare Workers (index.ts) と自前ホストの Node サーバ (anchor.ts 経由) で共有する。
+ * env は `ALLOWED_ORIGINS` / `ENVIRONMENT` だけを見るので、どちらの実行環境でも同じ変数名で設定する。
+ */
+
+import type { CorsResponder } from './checkpoint.js';
+
+/** CORS の許可判定に必要な env の最小サブセット */
+export interface CorsEnv {
+  /**
+   * CORS 許可オリジン (カンマ区切り)。例: "https://app.example.com,https://verify.example.com"。
+   * production / staging では設定必須 (未設定だと development 以外は全 Origin を拒否する)。
+   */
+  ALLOWED_ORIGINS?: string;
+  ENVIRONMENT: string;
+}
+
+/** ALLOWED_ORIGINS (カンマ区切り) を正規化した配列にする */
+export function parseAllowedOrigins(env: CorsEnv): string[] {
+  return (env.ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map((o) => o.trim())
+    .filter((o) => o.length > 0);
+}
+
+function isLocalhostOrigin(origin: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/.test(origin);
+}
+
+/**
+ * Origin を許可パターンと照合する。完全一致のほか、`https://*.example.com`
+ * 形式のサブドメイン wildcard に対応する。
+ *
+ * wildcard は **1 段以上のサブドメインを要求** する (apex は含めない)。先頭の
+ * リテラルドット (`.example.com`) を要求することで `https://evilexample.com`
+ * のような prefix 偽装を弾く。`*.<project>.pages.dev` のように自プロジェクト配下に
+ * 限定して使う前提で、`*.pages.dev` のような広すぎるパターンは設定しないこと。
+ */
+function originMatchesPattern(origin: string, pattern: string): boolean {
+  if (pattern === origin) return true;
+  const marker = '://*.';
+  const idx = pattern.indexOf(marker);
+  if (idx === -1) return false;
+  const scheme = pattern.slice(0, idx); // 例: "https"
+  const baseDomain = pattern.slice(idx + marker.length); // 例: "typedcode.pages.dev"
+  const prefix = `${scheme}://`;
+  if (!origin.startsWith(prefix)) return false;
+  const host = origin.slice(prefix.length); // origin は scheme://host[:port] でパスは持たない
+  return host.length > baseDomain.length + 1 && host.endsWith(`.${baseDomain}`);
+}
+
+/**
+ * リクエスト Origin を許可リストに照合し、許可するときのみその Origin を返す。
+ * 返り値を `Access-Control-Allow-Origin` にそのまま入れる (reflect)。許可しないときは null。
+ *
+ * 優先順位 (**fail-closed**):
+ *  1. `ALLOWED_ORIGINS` に一致 (完全一致 or `*.domain` サブドメイン wildcard) → 許可
+ *  2. `ENVIRONMENT === 'development'` のとき localhost / 127.0.0.1 → 許可 (開発体験)
+ *  3. それ以外 → 拒否 (ヘッダを付与しない)
+ *
+ * 旧実装は `ALLOWED_ORIGINS` 未設定時に任意 Origin を reflect する fail-open
+ * だったが、staging/production の wrangler config に値を commit したため廃止。
+ * 非 development で許可リストが空 / 不一致なら拒否する (新環境では設定必須)。
+ *
+ * なお CORS はブラウザのクロスオリジン**読み取り**のみを制限するもので、
+ * サーバ間アクセス (curl 等) は防げない。署名 API の濫用は per-session 上限
+ * (`SESSION_MAX_CHECKPOINTS`) と Cloudflare 側の rate limit で防ぐ。
+ */
+function resolveCorsOrigin(origin: string | null, env: CorsEnv): string | null {
+  if (!origin) return null;
+  const allowed = parseAllowedOrigins(env);
+  if (allowed.some((pattern) => originMatchesPattern(origin, pattern))) return origin;
+  if (env.ENVIRONMENT === 'development' && isLocalhostOrigin(origin)) return origin;
+  return null; // fail-closed: 許可リストに無い (or 未設定の) Origin は拒否
+}
+
+/**
+ * CORSヘッダーを返す。許可されない Origin には `Access-Control-Allow-Origin` を付けない。
+ */
+export function corsHeaders(origin: string | null, env: CorsEnv): HeadersInit {
+  const allowOrigin = resolveCorsOrigin(origin, env);
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+  };
+  if (allowOrigin) {
+    headers['Access-Control-Allow-Origin'] = allowOrigin;
+  }
+  return headers;
+}
+
+/**
+ * CORS preflight リクエストを処理
+ */
+export function handleCORS(request: Request, env: CorsEnv): Response {
+  const origin = request.headers.get('Origin');
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders(origin, env),
+  });
+}
+
+/** /api/checkpoint/*・/api/session/start・/api/submission/receipt・/api/log/* で使う CORS レスポンダ */
+export function checkpointResponder(origin: string | null, env: CorsEnv): CorsResponder {
+  return {
+    cors(extra: Record<string, string> = {}) {
+      return { ...corsHeaders(origin, env), ...extra };
+    },
+  };
+}
+
+/**
+ * 未捕捉例外の最終防衛で返す JSON 500 (#153)。
+ *
+ * 絶対に throw しない: CORS ヘッダ計算 (env 参照) 自体が失敗しても、ヘッダなしの JSON 500 を返す。
+ * ブラウザからは CORS ヘッダのない応答が不透明なエラーに見え、意図したエラー経路に乗らないため。
+ */
+export function internalErrorResponse(request: Request, env: CorsEnv): Response {
+  let headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  try {
+    const origin = request.headers.get('Origin');
+    headers = { ...headers, ...(corsHeaders(origin, env) as Record<string, string>) };
+  } catch {
+    /* env が壊れていても応答は返す */
+  }
+  return new Response(JSON.stringify({ success: false, message: 'Internal server error' }), {
+    status: 500,
+    headers,
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * `/api/session/start` の人間性チェック (human check) の差し替え口。
+ *
+ * Cloudflare Workers は Turnstile を使う。自前ホストの Node サーバは Turnstile のほか、
+ * 独自の検証器を実装して渡すか、チェックを無効にできる (閉じた学内ネットワーク等)。
+ * 無効時のトークンは `turnstileVerified: false` で発行され、proof にその事実がそのまま残る
+ * (root アンカーと checkpoint 署名の効力は変わらない)。
+ */
+
+import { parseAllowedOrigins, type CorsEnv } from './cors.js';
+
+/** human check の判定結果。成功時の値はセッション開始トークンの payload にそのまま焼かれる */
+export type HumanCheckResult =
+  | { ok: true; turnstileVerified: boolean; hostname: string | null; action: string | null }
+  | { ok: false; status: 400 | 403 | 503; message: string };
+
+export interface HumanCheck {
+  /** `/api/session/start` の body (入力検証済み) からトークン等を取り出して検証する。throw しないこと */
+  verify(body: Record<string, unknown>): Promise<HumanCheckResult>;
+}
+
+export interface TurnstileResponse {
+  success: boolean;
+  challenge_ts: string;
+  hostname: string;
+  'error-codes'?: string[];
+  action?: string;
+  cdata?: string;
+}
+
+/** Turnstile の検証に必要な env */
+export interface TurnstileEnv extends CorsEnv {
+  TURNSTILE_SECRET_KEY: string;
+}
+
+/**
+ * Turnstile siteverify が返す `hostname` を許可ドメインと照合する。
+ *
+ * Cloudflare は同一 sitekey/secret を使う別プロパティで解かれたトークンを弾くため、
+ * siteverify の hostname を検証することを推奨している。`ALLOWED_ORIGINS` の host 部分
+ * (CORS と同じ source of truth) と比較する。
+ * - `ALLOWED_ORIGINS` 未設定の環境では強制をスキップ (origin 制限は CORS が担うので
+ *   fail-open にはならない。development の localhost 等)。
+ * - 完全一致のほか `*.domain` は **1 段以上のサブドメイン** を要求 (CORS と同方針)。
+ */
+export function isTurnstileHostnameAllowed(hostname: string, env: CorsEnv): boolean {
+  const allowed = parseAllowedOrigins(env);
+  if (allowed.length === 0) return true;
+  if (env.ENVIRONMENT === 'development' && /^(localhost|127\.0\.0\.1)$/.test(hostname)) {
+    return true;
+  }
+  for (const pattern of allowed) {
+    const m = /^https?:\/\/(.+)$/.exec(pattern);
+    if (!m) continue;
+    const host = m[1]!.replace(/:\d+$/, ''); // ポートを除去
+    if (host.startsWith('*.')) {
+      const base = host.slice(2);
+      if (hostname.length > base.length + 1 && hostname.endsWith(`.${base}`)) return true;
+    } else if (hostname === host) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Turnstile検証を実行
+ */
+export async function verifyTurnstile(token: string, secretKey: string): Promise<TurnstileResponse> {
+  const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      secret: secretKey,
+      response: token,
+    }),
+  });
+
+  // siteverify が非 200 / HTML を返したケースを成功と誤判定しない (汎用 500 への fall-through 防止)。
+  if (!response.ok) {
+    return {
+      success: false,
+      challenge_ts: '',
+      hostname: '',
+      'error-codes': ['siteverify-http-error'],
+    };
+  }
+
+  return response.json();
+}
+
+/**
+ * Turnstile による human check (ADR-0017)。body の `turnstileToken` を siteverify で検証し、
+ * 解かれた hostname を許可ドメインと照合する (verify-captcha と同方針)。
+ *
+ * 上流 (Turnstile API) の fetch reject / 非 JSON 応答は未捕捉例外 (1101) にせず 503 で返す (#153)。
+ * editor は失敗時に非アンカーへフォールバックするため、一時障害を不透明な 1101 にすると
+ * 不必要にアンカーを失う。
+ */
+export function createTurnstileHumanCheck(env: TurnstileEnv): HumanCheck {
+  return {
+    async verify(body) {
+      const turnstileToken = body.turnstileToken;
+      if (typeof turnstileToken !== 'string' || turnstileToken.length === 0) {
+        return { ok: false, status: 400, message: 'turnstileToken is required' };
+      }
+      let result: TurnstileResponse;
+      try {
+        result = await verifyTurnstile(turnstileToken, env.TURNSTILE_SECRET_KEY);
+      } catch (err) {
+        console.error('[session/start] Turnstile verification unavailable:', err);
+        return { ok: false, status: 503, message: 'Turnstile verification temporarily unavailable' };
+      }
+      const hostnameOk = isTurnstileHostnameAllowed(result.hostname, env);
+      if (!result.success || !hostnameOk) {
+        if (result.success && !hostnameOk) {
+          console.warn('[session/start] Turnstile solved on disallowed hostname:', result.hostname);
+        }
+        return { ok: false, status: 403, message: 'Turnstile verification failed' };
+      }
+      return { ok: true, turnstileVerified: true, hostname: result.hostname || null, action: result.action ?? null };
+    },
+  };
+}
+
+/**
+ * human check を行わない (自前ホストで明示的に無効にしたとき)。
+ * sessionId の Turnstile 1 回への束縛 (ADR-0027) が無くなるので、公開ネットワークでは使わないこと。
+ */
+export const DISABLED_HUMAN_CHECK: HumanCheck = {
+  async verify() {
+    return { ok: true, turnstileVerified: false, hostname: null, action: null };
+  },
+};
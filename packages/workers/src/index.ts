@@ -3,30 +3,26 @@
  * Turnstile 検証エンドポイント with 署名付き証明書
  */
 
-import { handleSignCheckpoint, handlePublicKeys, getSigningKey, type CheckpointEnv } from './checkpoint.js';
-import { createSessionStartToken, validateSessionStartInput, arrayBufferToHex } from '@typedcode/shared/checkpoint';
-
-interface Env extends CheckpointEnv {
-  TURNSTILE_SECRET_KEY: string;
+import { routeAnchorRequest, type AnchorEnv } from './anchor.js';
+import { corsHeaders, handleCORS, internalErrorResponse } from './cors.js';
+import {
+  createTurnstileHumanCheck,
+  isTurnstileHostnameAllowed,
+  verifyTurnstile,
+  type TurnstileEnv,
+  type TurnstileResponse,
+} from './humanCheck.js';
+import { durableObjectTransparencyLog } from './transparencyLogObject.js';
+
+// 透明性ログ (ADR-0046) の Durable Object。wrangler の durable_objects binding が class_name で参照する。
+export { TransparencyLogObject } from './transparencyLogObject.js';
+
+interface Env extends AnchorEnv, TurnstileEnv {
+  /** Workers では KV binding (SessionStore を構造的に満たす) */
+  CHECKPOINT_SESSIONS: KVNamespace;
+  /** 透明性ログの Durable Object binding (ADR-0046)。未設定ならログ無しで動く */
+  TRANSPARENCY_LOG?: DurableObjectNamespace;
   ATTESTATION_SECRET_KEY: string; // 証明書署名用の秘密鍵
-  ENVIRONMENT: string;
-  /**
-   * CORS 許可オリジン (カンマ区切り)。例: "https://app.example.com,https://verify.example.com"。
-   * production / staging では設定必須 (未設定だと後方互換で任意 Origin を reflect する)。
-   */
-  ALLOWED_ORIGINS?: string;
-}
-
-/** CORS の許可判定に必要な env の最小サブセット */
-type CorsEnv = Pick<Env, 'ALLOWED_ORIGINS' | 'ENVIRONMENT'>;
-
-interface TurnstileResponse {
-  success: boolean;
-  challenge_ts: string;
-  hostname: string;
-  'error-codes'?: string[];
-  action?: string;
-  cdata?: string;
 }
 
 /**
@@ -48,135 +44,6 @@ interface VerifyResponse {
   attestation?: HumanAttestation; // 検証成功時のみ
 }
 
-/** ALLOWED_ORIGINS (カンマ区切り) を正規化した配列にする */
-function parseAllowedOrigins(env: CorsEnv): string[] {
-  return (env.ALLOWED_ORIGINS ?? '')
-    .split(',')
-    .map((o) => o.trim())
-    .filter((o) => o.length > 0);
-}
-
-function isLocalhostOrigin(origin: string): boolean {
-  return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/.test(origin);
-}
-
-/**
- * Turnstile siteverify が返す `hostname` を許可ドメインと照合する。
- *
- * Cloudflare は同一 sitekey/secret を使う別プロパティで解かれたトークンを弾くため、
- * siteverify の hostname を検証することを推奨している。`ALLOWED_ORIGINS` の host 部分
- * (CORS と同じ source of truth) と比較する。
- * - `ALLOWED_ORIGINS` 未設定の環境では強制をスキップ (origin 制限は CORS が担うので
- *   fail-open にはならない。development の localhost 等)。
- * - 完全一致のほか `*.domain` は **1 段以上のサブドメイン** を要求 (CORS と同方針)。
- */
-function isTurnstileHostnameAllowed(hostname: string, env: CorsEnv): boolean {
-  const allowed = parseAllowedOrigins(env);
-  if (allowed.length === 0) return true;
-  if (env.ENVIRONMENT === 'development' && /^(localhost|127\.0\.0\.1)$/.test(hostname)) {
-    return true;
-  }
-  for (const pattern of allowed) {
-    const m = /^https?:\/\/(.+)$/.exec(pattern);
-    if (!m) continue;
-    const host = m[1]!.replace(/:\d+$/, ''); // ポートを除去
-    if (host.startsWith('*.')) {
-      const base = host.slice(2);
-      if (hostname.length > base.length + 1 && hostname.endsWith(`.${base}`)) return true;
-    } else if (hostname === host) {
-      return true;
-    }
-  }
-  return false;
-}
-
-/**
- * Origin を許可パターンと照合する。完全一致のほか、`https://*.example.com`
- * 形式のサブドメイン wildcard に対応する。
- *
- * wildcard は **1 段以上のサブドメインを要求** する (apex は含めない)。先頭の
- * リテラルドット (`.example.com`) を要求することで `https://evilexample.com`
- * のような prefix 偽装を弾く。`*.<project>.pages.dev` のように自プロジェクト配下に
- * 限定して使う前提で、`*.pages.dev` のような広すぎるパターンは設定しないこと。
- */
-function originMatchesPattern(origin: string, pattern: string): boolean {
-  if (pattern === origin) return true;
-  const marker = '://*.';
-  const idx = pattern.indexOf(marker);
-  if (idx === -1) return false;
-  const scheme = pattern.slice(0, idx); // 例: "https"
-  const baseDomain = pattern.slice(idx + marker.length); // 例: "typedcode.pages.dev"
-  const prefix = `${scheme}://`;
-  if (!origin.startsWith(prefix)) return false;
-  const host = origin.slice(prefix.length); // origin は scheme://host[:port] でパスは持たない
-  return host.length > baseDomain.length + 1 && host.endsWith(`.${baseDomain}`);
-}
-
-/**
- * リクエスト Origin を許可リストに照合し、許可するときのみその Origin を返す。
- * 返り値を `Access-Control-Allow-Origin` にそのまま入れる (reflect)。許可しないときは null。
- *
- * 優先順位 (**fail-closed**):
- *  1. `ALLOWED_ORIGINS` に一致 (完全一致 or `*.domain` サブドメイン wildcard) → 許可
- *  2. `ENVIRONMENT === 'development'` のとき localhost / 127.0.0.1 → 許可 (開発体験)
- *  3. それ以外 → 拒否 (ヘッダを付与しない)
- *
- * 旧実装は `ALLOWED_ORIGINS` 未設定時に任意 Origin を reflect する fail-open
- * だったが、staging/production の wrangler config に値を commit したため廃止。
- * 非 development で許可リストが空 / 不一致なら拒否する (新環境では設定必須)。
- *
- * なお CORS はブラウザのクロスオリジン**読み取り**のみを制限するもので、
- * サーバ間アクセス (curl 等) は防げない。署名 API の濫用は per-session 上限
- * (`SESSION_MAX_CHECKPOINTS`) と Cloudflare 側の rate limit で防ぐ。
- */
-function resolveCorsOrigin(origin: string | null, env: CorsEnv): string | null {
-  if (!origin) return null;
-  const allowed = parseAllowedOrigins(env);
-  if (allowed.some((pattern) => originMatchesPattern(origin, pattern))) return origin;
-  if (env.ENVIRONMENT === 'development' && isLocalhostOrigin(origin)) return origin;
-  return null; // fail-closed: 許可リストに無い (or 未設定の) Origin は拒否
-}
-
-/**
- * CORSヘッダーを返す。許可されない Origin には `Access-Control-Allow-Origin` を付けない。
- */
-function corsHeaders(origin: string | null, env: CorsEnv): HeadersInit {
-  const allowOrigin = resolveCorsOrigin(origin, env);
-  const headers: Record<string, string> = {
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Max-Age': '86400',
-    Vary: 'Origin',
-  };
-  if (allowOrigin) {
-    headers['Access-Control-Allow-Origin'] = allowOrigin;
-  }
-  return headers;
-}
-
-/**
- * CORS preflight リクエストを処理
- */
-function handleCORS(request: Request, env: CorsEnv): Response {
-  const origin = request.headers.get('Origin');
-  return new Response(null, {
-    status: 204,
-    headers: corsHeaders(origin, env),
-  });
-}
-
-/** /api/checkpoint/* で使う CORS レスポンダ */
-function checkpointResponder(
-  origin: string | null,
-  env: CorsEnv
-): { cors(extra?: Record<string, string>): HeadersInit } {
-  return {
-    cors(extra: Record<string, string> = {}) {
-      return { ...corsHeaders(origin, env), ...extra };
-    },
-  };
-}
-
 /**
  * HMAC-SHA256署名を生成
  */
@@ -210,34 +77,6 @@ function timingSafeEqual(a: string, b: string): boolean {
   return mismatch === 0;
 }
 
-/**
- * Turnstile検証を実行
- */
-async function verifyTurnstile(token: string, secretKey: string): Promise<TurnstileResponse> {
-  const response = await fetch('https://challenges.cloudflare.com/turnstile/v0/siteverify', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      secret: secretKey,
-      response: token,
-    }),
-  });
-
-  // siteverify が非 200 / HTML を返したケースを成功と誤判定しない (汎用 500 への fall-through 防止)。
-  if (!response.ok) {
-    return {
-      success: false,
-      challenge_ts: '',
-      hostname: '',
-      'error-codes': ['siteverify-http-error'],
-    };
-  }
-
-  return response.json();
-}
-
 /**
  * 署名付き証明書を生成
  */
@@ -408,97 +247,6 @@ async function handleVerifyAttestation(request: Request, env: Env): Promise<Resp
   }
 }
 
-/**
- * セッション開始エンドポイント (ADR-0017)。
- *
- * Turnstile を検証し、成功したら serverNonce を焼いた ECDSA-P256 署名トークンを発行する。
- * クライアントは serverNonce を chain root (`SHA256(fp ‖ localNonce ‖ serverNonce)`) に焼き、
- * proof にトークンを同梱する (検証器が registry でオフライン検証する)。これにより
- * **Turnstile ゲート + root アンカー + 人間ゲート**を 1 リクエストで兼ね、HMAC attestation の
- * 作成経路を置換する。署名鍵は checkpoint と同一系統 (getSigningKey)。
- */
-async function handleSessionStart(request: Request, env: Env): Promise<Response> {
-  const origin = request.headers.get('Origin');
-  const json = (body: unknown, status: number): Response =>
-    new Response(JSON.stringify(body), {
-      status,
-      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin, env) },
-    });
-
-  let parsed: unknown;
-  try {
-    parsed = await request.json();
-  } catch {
-    return json({ success: false, message: 'Invalid JSON body' }, 400);
-  }
-
-  const turnstileToken = (parsed as { turnstileToken?: unknown })?.turnstileToken;
-  if (typeof turnstileToken !== 'string' || turnstileToken.length === 0) {
-    return json({ success: false, message: 'turnstileToken is required' }, 400);
-  }
-
-  // sessionId / fingerprintHash の検証 (shared の入力バリデーション)。
-  const validation = validateSessionStartInput(parsed);
-  if (!validation.ok) {
-    return json({ success: false, message: validation.reason }, 400);
-  }
-  const input = validation.input;
-
-  // Turnstile 検証 + hostname 照合 (verify-captcha と同方針)。
-  // 上流 (Turnstile API) の fetch reject / 非 JSON 応答は未捕捉例外 (1101) にせず 503 で返す (#153)。
-  // editor は失敗時に非アンカーへフォールバックするため、一時障害を不透明な 1101 にすると
-  // 不必要にアンカーを失う。
-  let result: Awaited<ReturnType<typeof verifyTurnstile>>;
-  try {
-    result = await verifyTurnstile(turnstileToken, env.TURNSTILE_SECRET_KEY);
-  } catch (err) {
-    console.error('[session/start] Turnstile verification unavailable:', err);
-    return json({ success: false, message: 'Turnstile verification temporarily unavailable' }, 503);
-  }
-  const hostnameOk = isTurnstileHostnameAllowed(result.hostname, env);
-  if (!result.success || !hostnameOk) {
-    if (result.success && !hostnameOk) {
-      console.warn('[session/start] Turnstile solved on disallowed hostname:', result.hostname);
-    }
-    return json({ success: false, message: 'Turnstile verification failed' }, 403);
-  }
-
-  // 署名鍵をロード (checkpoint と同一系統)。失敗詳細はサーバログのみ。
-  let signer: { keyId: string; key: CryptoKey };
-  try {
-    signer = await getSigningKey(env);
-  } catch (err) {
-    console.error('[session/start] signing key resolution failed:', err);
-    return json({ success: false, message: 'Signing key is not available' }, 500);
-  }
-
-  // serverNonce を生成し、ECDSA-P256 でトークンを署名発行。
-  const nonceBytes = new Uint8Array(32);
-  crypto.getRandomValues(nonceBytes);
-  const serverNonce = arrayBufferToHex(nonceBytes);
-  const issuedAt = new Date().toISOString();
-
-  let token;
-  try {
-    token = await createSessionStartToken(
-      input,
-      {
-        serverNonce,
-        issuedAt,
-        turnstileVerified: true,
-        hostname: result.hostname || null,
-        action: result.action ?? null,
-      },
-      { keyId: signer.keyId, privateKey: signer.key }
-    );
-  } catch (err) {
-    console.error('[session/start] token signing failed:', err);
-    return json({ success: false, message: 'Failed to issue session token' }, 500);
-  }
-
-  return json({ success: true, token }, 200);
-}
-
 async function route(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
 
@@ -512,32 +260,18 @@ async function route(request: Request, env: Env): Promise<Response> {
     return handleVerifyCaptcha(request, env);
   }
 
-  // セッション開始トークン発行 (ADR-0017)
-  if (url.pathname === '/api/session/start' && request.method === 'POST') {
-    return handleSessionStart(request, env);
-  }
-
   // 証明書検証エンドポイント
   if (url.pathname === '/api/verify-attestation' && request.method === 'POST') {
     return handleVerifyAttestation(request, env);
   }
 
-  // Signed checkpoint endpoints
-  if (url.pathname === '/api/checkpoint/sign' && request.method === 'POST') {
-    const origin = request.headers.get('Origin');
-    return handleSignCheckpoint(request, env, checkpointResponder(origin, env));
-  }
-  if (url.pathname === '/api/checkpoint/public-keys' && request.method === 'GET') {
-    const origin = request.headers.get('Origin');
-    return handlePublicKeys(checkpointResponder(origin, env));
-  }
-
-  // ヘルスチェック
-  if (url.pathname === '/health') {
-    return new Response(JSON.stringify({ status: 'ok', environment: env.ENVIRONMENT }), {
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
+  // session/start・checkpoint 署名・公開鍵・透明性ログ・health は自前ホストと共通 (anchor.ts)
+  const anchored = await routeAnchorRequest(request, {
+    env,
+    humanCheck: createTurnstileHumanCheck(env),
+    transparencyLog: env.TRANSPARENCY_LOG ? durableObjectTransparencyLog(env.TRANSPARENCY_LOG) : undefined,
+  });
+  if (anchored) return anchored;
 
   return new Response('Not Found', { status: 404 });
 }
@@ -550,19 +284,7 @@ export default {
       return await route(request, env);
     } catch (err) {
       console.error('[worker] unhandled exception:', err);
-      // 最終防衛は絶対に throw しない: CORS ヘッダ計算 (env 参照) 自体が失敗しても
-      // JSON 500 を返す (ヘッダなしのフォールバック)。
-      let headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      try {
-        const origin = request.headers.get('Origin');
-        headers = { ...headers, ...(corsHeaders(origin, env) as Record<string, string>) };
-      } catch {
-        /* env が壊れていても応答は返す */
-      }
-      return new Response(JSON.stringify({ success: false, message: 'Internal server error' }), {
-        status: 500,
-        headers,
-      });
+      return internalErrorResponse(request, env);
     }
   },
 };
@@ -0,0 +1,165 @@
+/**
+ * 署名鍵のローテーション (ADR-0048)。
+ *
+ * 設定:
+ * - `CHECKPOINT_SIGNING_KEYS`: 署名鍵 (秘密 JWK) の JSON 配列 `[{ "keyId": "...", "jwk": { ... } }]`。
+ *   有効期間が重なる鍵を並べておくと、`validFrom` を過ぎた新しい鍵へ自動で切り替わる (selectSigningKeyId)。
+ *   従来の単一鍵 (`CHECKPOINT_SIGNING_KEY_ID` / `CHECKPOINT_SIGNING_KEY_JWK`) も 1 本として数える。
+ * - `CHECKPOINT_KEY_SET`: key set の連鎖 (`scripts/endorse-checkpoint-key-set.mjs` の出力)。
+ *   組み込み registry から辿って検証し、通ったものだけを署名鍵の解決とトークン検証の registry に重ねる。
+ *
+ * 鍵の差し替えは secret / var の更新だけで済み、registry.ts の変更と検証側の再デプロイは要らない。
+ * 連鎖が壊れていれば組み込み registry だけで動き (`/api/checkpoint/key-set` は 500)、壊れた鍵は信頼しない。
+ */
+
+import {
+  CHECKPOINT_PUBLIC_KEYS,
+  parseCheckpointKeySetChain,
+  verifyCheckpointKeySetChain,
+  type CheckpointKeySetVerificationResult,
+  type CheckpointPublicKey,
+  type SignedCheckpointKeySet,
+} from '@typedcode/shared/checkpoint';
+import type { CorsResponder } from './checkpoint.js';
+
+export interface KeyRotationEnv {
+  /** ECDSA-P256 秘密鍵 JWK を JSON 文字列で注入 (単一鍵。CHECKPOINT_SIGNING_KEYS と併用可) */
+  CHECKPOINT_SIGNING_KEY_JWK?: string;
+  /** 秘密鍵に対応する keyId (registry に存在する必要あり) */
+  CHECKPOINT_SIGNING_KEY_ID?: string;
+  /** 署名鍵の JSON 配列 `[{ keyId, jwk }]` (ADR-0048) */
+  CHECKPOINT_SIGNING_KEYS?: string;
+  /** key set の連鎖の JSON (`{ chain }` か配列。ADR-0048) */
+  CHECKPOINT_KEY_SET?: string;
+}
+
+export interface ConfiguredSigningKey {
+  keyId: string;
+  jwk: JsonWebKey;
+}
+
+export interface ResolvedKeyRegistry {
+  /** 検証を通った key set の連鎖 (未設定・壊れていれば空) */
+  chain: SignedCheckpointKeySet[];
+  /** 組み込み registry に連鎖の鍵を重ねたもの (壊れていれば組み込み registry) */
+  registry: readonly CheckpointPublicKey[];
+  /** 連鎖が壊れていればその理由 */
+  invalidReason?: string;
+}
+
+/** /api/checkpoint/key-set の応答のキャッシュ期間 (秒)。鍵の追加は有効化の前に配る運用なので長めでよい */
+const KEY_SET_CACHE_TTL_SECONDS = 3600;
+
+function jsonResponse(body: unknown, status: number, cors: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...cors },
+  });
+}
+
+/**
+ * 設定済みの署名鍵を列挙する。`CHECKPOINT_SIGNING_KEYS` の形が壊れていれば
+ * `SIGNING_KEY_NOT_CONFIGURED` で throw する (一部だけ読んで黙って鍵を減らさない)。
+ */
+export function configuredSigningKeys(env: KeyRotationEnv): ConfiguredSigningKey[] {
+  const keys: ConfiguredSigningKey[] = [];
+  if (env.CHECKPOINT_SIGNING_KEYS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.CHECKPOINT_SIGNING_KEYS);
+    } catch {
+      parsed = null;
+    }
+    const valid =
+      Array.isArray(parsed) &&
+      parsed.every(
+        (k) =>
+          !!k &&
+          typeof k === 'object' &&
+          typeof (k as Record<string, unknown>).keyId === 'string' &&
+          !!(k as Record<string, unknown>).jwk &&
+          typeof (k as Record<string, unknown>).jwk === 'object'
+      );
+    if (!valid) {
+      throw Object.assign(new Error('CHECKPOINT_SIGNING_KEYS must be a JSON array of { keyId, jwk }'), {
+        code: 'SIGNING_KEY_NOT_CONFIGURED',
+      });
+    }
+    keys.push(...(parsed as ConfiguredSigningKey[]));
+  }
+  if (env.CHECKPOINT_SIGNING_KEY_JWK && env.CHECKPOINT_SIGNING_KEY_ID) {
+    const keyId = env.CHECKPOINT_SIGNING_KEY_ID;
+    if (!keys.some((k) => k.keyId === keyId)) {
+      keys.push({ keyId, jwk: JSON.parse(env.CHECKPOINT_SIGNING_KEY_JWK) as JsonWebKey });
+    }
+  }
+  return keys;
+}
+
+let cachedKeySet: {
+  raw: string;
+  baseRegistry: readonly CheckpointPublicKey[];
+  resolved: ResolvedKeyRegistry;
+} | null = null;
+
+/**
+ * `CHECKPOINT_KEY_SET` を組み込み registry から検証し、信頼できる registry を返す。
+ * 同じ文字列の検証結果はキャッシュする (署名のたびに連鎖の ECDSA を検証し直さない)。
+ */
+export async function resolveKeyRegistry(
+  env: KeyRotationEnv,
+  /** テスト用: 連鎖の起点にする組み込み registry の差し替え */
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<ResolvedKeyRegistry> {
+  const raw = env.CHECKPOINT_KEY_SET;
+  if (!raw) return { chain: [], registry: baseRegistry };
+  if (cachedKeySet && cachedKeySet.raw === raw && cachedKeySet.baseRegistry === baseRegistry) {
+    return cachedKeySet.resolved;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = null;
+  }
+  const chain = parseCheckpointKeySetChain(parsed);
+  const result: CheckpointKeySetVerificationResult = chain
+    ? await verifyCheckpointKeySetChain(chain, baseRegistry)
+    : { valid: false, reason: 'Malformed key set chain', sequence: null, registry: [], addedKeyIds: [] };
+
+  let resolved: ResolvedKeyRegistry;
+  if (chain && result.valid) {
+    resolved = { chain, registry: result.registry };
+  } else {
+    console.error('[keySet] CHECKPOINT_KEY_SET is invalid; using the built-in registry only:', result.reason);
+    resolved = { chain: [], registry: baseRegistry, invalidReason: result.reason };
+  }
+  cachedKeySet = { raw, baseRegistry, resolved };
+  return resolved;
+}
+
+/**
+ * GET /api/checkpoint/key-set: 検証器が取ってきてキャッシュし、組み込み registry からオフラインで検証する連鎖。
+ * 連鎖が壊れていれば配らない (500 KEY_SET_INVALID)。未設定なら空の連鎖。
+ */
+export async function handleKeySet(
+  env: KeyRotationEnv,
+  responder: CorsResponder,
+  /** テスト用: 連鎖の起点にする組み込み registry の差し替え */
+  baseRegistry: readonly CheckpointPublicKey[] = CHECKPOINT_PUBLIC_KEYS
+): Promise<Response> {
+  const { chain, invalidReason } = await resolveKeyRegistry(env, baseRegistry);
+  if (invalidReason !== undefined) {
+    return jsonResponse(
+      { error: 'Key set is not available', code: 'KEY_SET_INVALID' },
+      500,
+      responder.cors({ 'Cache-Control': 'no-store' })
+    );
+  }
+  return jsonResponse(
+    { chain, cacheTtlSec: KEY_SET_CACHE_TTL_SECONDS },
+    200,
+    responder.cors({ 'Cache-Control': `public, max-age=${KEY_SET_CACHE_TTL_SECONDS}` })
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * /api/session/start ハンドラ (ADR-0017)。
+ *
+ * human check (Workers では Turnstile) を通ったら、serverNonce を焼いた ECDSA-P256 署名トークンを発行する。
+ * クライアントは serverNonce を chain root (`SHA256(fp ‖ localNonce ‖ serverNonce)`) に焼き、
+ * proof にトークンを同梱する (検証器が registry でオフライン検証する)。これにより
+ * **human check + root アンカー + 人間ゲート**を 1 リクエストで兼ね、HMAC attestation の
+ * 作成経路を置換する。署名鍵は checkpoint と同一系統 (getSigningKey)。
+ */
+
+import {
+  createSessionStartToken,
+  validateSessionStartInput,
+  arrayBufferToHex,
+  hashSessionStartTokenPayload,
+  type SessionStartToken,
+} from '@typedcode/shared/checkpoint';
+import { getSigningKey, type CheckpointEnv, type CorsResponder } from './checkpoint.js';
+import type { HumanCheck } from './humanCheck.js';
+import type { TransparencyLog } from './transparencyLog.js';
+
+export async function handleSessionStart(
+  request: Request,
+  env: CheckpointEnv,
+  humanCheck: HumanCheck,
+  responder: CorsResponder,
+  /** 透明性ログ (ADR-0046)。あれば発行するトークンを必ずログに載せてから返す */
+  transparencyLog?: TransparencyLog
+): Promise<Response> {
+  const json = (body: unknown, status: number): Response =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...responder.cors() },
+    });
+
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return json({ success: false, message: 'Invalid JSON body' }, 400);
+  }
+
+  // sessionId / fingerprintHash の検証 (shared の入力バリデーション)。
+  const validation = validateSessionStartInput(parsed);
+  if (!validation.ok) {
+    return json({ success: false, message: validation.reason }, 400);
+  }
+  const input = validation.input;
+
+  // human check (Turnstile 検証 + hostname 照合、または自前ホストの差し替え)。
+  const human = await humanCheck.verify(parsed as Record<string, unknown>);
+  if (!human.ok) {
+    return json({ success: false, message: human.message }, human.status);
+  }
+
+  // 署名鍵をロード (checkpoint と同一系統)。失敗詳細はサーバログのみ。
+  let signer: { keyId: string; key: CryptoKey };
+  try {
+    signer = await getSigningKey(env);
+  } catch (err) {
+    console.error('[session/start] signing key resolution failed:', err);
+    return json({ success: false, message: 'Signing key is not available' }, 500);
+  }
+
+  // serverNonce を生成し、ECDSA-P256 でトークンを署名発行。
+  const nonceBytes = new Uint8Array(32);
+  crypto.getRandomValues(nonceBytes);
+  const serverNonce = arrayBufferToHex(nonceBytes);
+  const issuedAt = new Date().toISOString();
+
+  let token: SessionStartToken;
+  try {
+    token = await createSessionStartToken(
+      input,
+      {
+        serverNonce,
+        issuedAt,
+        turnstileVerified: human.turnstileVerified,
+        hostname: human.hostname,
+        action: human.action,
+      },
+      { keyId: signer.keyId, privateKey: signer.key }
+    );
+  } catch (err) {
+    console.error('[session/start] token signing failed:', err);
+    return json({ success: false, message: 'Failed to issue session token' }, 500);
+  }
+
+  // 透明性ログへの追記 (ADR-0046)。載せられなければトークンを返さない (クライアントは開始し直す)。
+  if (transparencyLog) {
+    try {
+      await transparencyLog.append({
+        kind: 'session-start-token',
+        payloadHash: await hashSessionStartTokenPayload(token.payload),
+      });
+    } catch (err) {
+      console.error('[session/start] transparency log append failed:', err);
+      return json({ success: false, message: 'Failed to record the session token in the transparency log' }, 503);
+    }
+  }
+
+  return json({ success: true, token }, 200);
+}
@@ -0,0 +1,16 @@
+/**
+ * 署名サービスのセッション状態の置き場 (KVNamespace の最小サブセット)。
+ *
+ * Cloudflare Workers では `KVNamespace` をそのまま渡す (構造的にこの interface を満たす)。
+ * 自前ホストの Node サーバ (`packages/anchor-server`) はファイル / SQLite の実装を渡す。
+ *
+ * 実装に求める約束:
+ * - 値は JSON 文字列で受け取り、`get(key, 'json')` でパースして返す。無いキーは null。
+ * - `expirationTtl` (秒) を過ぎた値は読めなくなればよい (実体の削除時期は実装任せ)。
+ * - 読み書きの失敗は null / 成功と区別して throw する。checkpoint.ts は read 失敗を
+ *   「既存セッション無し」と混同せず 503 で返す (#151/#153)。
+ */
+export interface SessionStore {
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
@@ -0,0 +1,180 @@
+/**
+ * /api/submission/receipt ハンドラ (ADR-0047)。
+ *
+ * export 時にエディタが全タブの最終 hash を送り、サーバは受領時刻 `serverTime` を付けて
+ * checkpoint と同じ鍵で署名した提出レシートを返す。最後の署名 cp より後の「提出したこと」の
+ * 証拠で、proof と一緒に ZIP に入り、verify / verify-cli がセッション終端のアンカーとして突合する。
+ *
+ * 設計:
+ * - 署名 cp と同じく sessionStartToken 前提 (checkSessionStartToken)。sessionId を Turnstile 1 回に束縛する。
+ * - サーバは最終 hash の中身を検証できない (proof を受け取らない)。レシートが言えるのは
+ *   「この sessionId のクライアントがこの時刻にこの hash を示した」ことだけ。
+ * - レシートの発行数は session:{sessionId}:receipts で数え、上限で弾く (透明性ログの水増し防止)。
+ *   台帳は best-effort の防御線で、読み書きに失敗しても発行は止めない (タブ台帳と同じ方針)。
+ */
+
+import {
+  createSubmissionReceipt,
+  hashSubmissionReceiptPayload,
+  validateSubmissionReceiptInput,
+  type CheckpointPublicKey,
+  type SubmissionReceipt,
+} from '@typedcode/shared/checkpoint';
+import { checkSessionStartToken, getSigningKey, type CheckpointEnv, type CorsResponder } from './checkpoint.js';
+import { resolveKeyRegistry } from './keySet.js';
+import type { TransparencyLog } from './transparencyLog.js';
+
+/** 1 セッションあたり発行するレシートの上限。再 export を何度かしても足りる値 */
+const MAX_RECEIPTS_PER_SESSION = 100;
+
+/** レシート台帳の TTL (秒)。session record と同じ */
+const RECEIPT_LEDGER_TTL_SECONDS = 7 * 24 * 3600;
+
+/** 要求 body の最大サイズ (bytes)。64 タブ分の id と hash 2 本 + token で ~25KB */
+const MAX_BODY_BYTES = 32 * 1024;
+
+interface ReceiptLedger {
+  issuedCount: number;
+}
+
+interface ErrorBody {
+  error: string;
+  code:
+    | 'SCHEMA_INVALID'
+    | 'RECEIPT_LIMIT_EXCEEDED'
+    | 'SIGNING_KEY_NOT_CONFIGURED'
+    | 'SIGNING_KEY_UNKNOWN'
+    | 'SIGNING_KEY_INACTIVE'
+    | 'SIGNING_ERROR'
+    | 'LOG_APPEND_FAILED';
+}
+
+function jsonResponse(body: unknown, status: number, cors: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...cors },
+  });
+}
+
+export async function handleSubmissionReceipt(
+  request: Request,
+  env: CheckpointEnv,
+  responder: CorsResponder,
+  /** テスト用: token 検証に使う公開鍵 registry の差し替え (既定は key set を重ねた本番 registry)。 */
+  tokenKeyRegistry?: readonly CheckpointPublicKey[],
+  /** 透明性ログ (ADR-0046)。あれば発行するレシートを必ずログに載せてから返す */
+  transparencyLog?: TransparencyLog
+): Promise<Response> {
+  const invalid = (error: string): Response =>
+    jsonResponse({ error, code: 'SCHEMA_INVALID' } satisfies ErrorBody, 400, responder.cors());
+
+  // body サイズ上限: Content-Length で先に弾き、欠落 / 詐称に備えて実バイト長でも強制する (署名 cp と同じ)。
+  const contentLength = Number(request.headers.get('Content-Length') ?? '');
+  if (Number.isFinite(contentLength) && contentLength > MAX_BODY_BYTES) {
+    return invalid(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+  let bodyText: string;
+  try {
+    bodyText = await request.text();
+  } catch {
+    return invalid('Invalid request body');
+  }
+  if (new TextEncoder().encode(bodyText).byteLength > MAX_BODY_BYTES) {
+    return invalid(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bodyText);
+  } catch {
+    return invalid('Invalid JSON body');
+  }
+
+  const validation = validateSubmissionReceiptInput(parsed);
+  if (!validation.ok) return invalid(validation.reason);
+  const input = validation.input;
+
+  // KV に触れる前に token を検証する (無認証リクエストには KV コストを払わない)。
+  const tokenRejection = await checkSessionStartToken(
+    parsed,
+    input.sessionId,
+    tokenKeyRegistry ?? (await resolveKeyRegistry(env)).registry,
+    responder,
+    'issue a submission receipt'
+  );
+  if (tokenRejection) return tokenRejection;
+
+  let signer: { keyId: string; key: CryptoKey };
+  try {
+    signer = await getSigningKey(env);
+  } catch (err) {
+    const code = (err as { code?: ErrorBody['code'] }).code ?? 'SIGNING_ERROR';
+    console.error('[receipt] signing key resolution failed:', err);
+    return jsonResponse({ error: 'Signing key is not available', code } satisfies ErrorBody, 500, responder.cors());
+  }
+
+  const ledgerKey = `session:${input.sessionId}:receipts`;
+  let ledger: ReceiptLedger | null;
+  try {
+    ledger = (await env.CHECKPOINT_SESSIONS.get<ReceiptLedger>(ledgerKey, 'json')) ?? { issuedCount: 0 };
+  } catch (err) {
+    console.error('[receipt] receipt ledger read failed:', err);
+    ledger = null;
+  }
+  if (ledger && ledger.issuedCount >= MAX_RECEIPTS_PER_SESSION) {
+    return jsonResponse(
+      {
+        error: `Session receipt count exceeds limit (${MAX_RECEIPTS_PER_SESSION})`,
+        code: 'RECEIPT_LIMIT_EXCEEDED',
+      } satisfies ErrorBody,
+      429,
+      responder.cors()
+    );
+  }
+
+  let receipt: SubmissionReceipt;
+  try {
+    receipt = await createSubmissionReceipt(input, new Date().toISOString(), {
+      keyId: signer.keyId,
+      privateKey: signer.key,
+    });
+  } catch (err) {
+    console.error('[receipt] signing failed:', err);
+    return jsonResponse(
+      { error: 'Failed to sign submission receipt', code: 'SIGNING_ERROR' } satisfies ErrorBody,
+      500,
+      responder.cors()
+    );
+  }
+
+  // 透明性ログ (ADR-0046) に載せられないレシートは返さない (署名 cp と同じ)。
+  if (transparencyLog) {
+    try {
+      await transparencyLog.append({
+        kind: 'submission-receipt',
+        payloadHash: await hashSubmissionReceiptPayload(receipt.payload),
+      });
+    } catch (err) {
+      console.error('[receipt] transparency log append failed:', err);
+      return jsonResponse(
+        {
+          error: 'Failed to record the receipt in the transparency log; retry the request',
+          code: 'LOG_APPEND_FAILED',
+        } satisfies ErrorBody,
+        503,
+        responder.cors()
+      );
+    }
+  }
+
+  if (ledger) {
+    try {
+      await env.CHECKPOINT_SESSIONS.put(ledgerKey, JSON.stringify({ issuedCount: ledger.issuedCount + 1 }), {
+        expirationTtl: RECEIPT_LEDGER_TTL_SECONDS,
+      });
+    } catch (err) {
+      console.error('[receipt] receipt ledger write failed:', err);
+    }
+  }
+
+  return jsonResponse({ receipt }, 200, responder.cors());
+}
@@ -0,0 +1,6 @@
+/**
+ * 自前ホストの置き場 (`packages/anchor-server`) と共有するテストスイート。
+ */
+
+export { describeCheckpointSigning } from './checkpointSigningSuite.js';
+export { describeTransparencyLog } from './transparencyLogSuite.js';
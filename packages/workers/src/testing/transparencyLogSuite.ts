@@ -0,0 +1,156 @@
+/**
+ * 透明性ログ (ADR-0046) の置き場 KeyValueTransparencyLog の共通テストスイート。
+ *
+ * セッション状態と同じく置き場は呼び出し側が渡す。Workers は in-memory の KV モック
+ * (Durable Object の storage も同じ SessionStore として見せる)、自前ホストの Node サーバ
+ * (`packages/anchor-server`) はファイル / SQLite で同じスイートを回す。
+ * 証明の検証は shared の実体 (verifyTransparencyLogInclusion / verifyTransparencyLogConsistency) で行う。
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EMPTY_TREE_ROOT,
+  computeMerkleRoot,
+  transparencyLogLeafData,
+  verifyTransparencyLogConsistency,
+  verifyTransparencyLogInclusion,
+  type TransparencyLogEntry,
+} from '@typedcode/shared/checkpoint';
+import type { SessionStore } from '../sessionStore.js';
+import { KeyValueTransparencyLog, TransparencyLogRangeError } from '../transparencyLog.js';
+
+function entry(i: number): TransparencyLogEntry {
+  return {
+    kind: i % 3 === 0 ? 'session-start-token' : 'signed-checkpoint',
+    payloadHash: i.toString(16).padStart(64, '0'),
+  };
+}
+
+/** `failAfter` 回の put を通したあと、次の put を 1 回だけ失敗させる (追記の途中で落ちた状態を作る) */
+class FailingPutStore implements SessionStore {
+  failAfter: number | null = null;
+
+  constructor(private readonly inner: SessionStore) {}
+
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null> {
+    return this.inner.get<T>(key, type);
+  }
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    if (this.failAfter !== null && this.failAfter-- === 0) {
+      this.failAfter = null;
+      throw new Error('simulated write failure');
+    }
+    await this.inner.put(key, value, options);
+  }
+}
+
+/**
+ * `createStore` が返す置き場で透明性ログのテスト一式を登録する。store はテストごとに新しく作ること。
+ */
+export function describeTransparencyLog(name: string, createStore: () => SessionStore | Promise<SessionStore>): void {
+  describe(name, () => {
+    let store: FailingPutStore;
+    let log: KeyValueTransparencyLog;
+
+    beforeEach(async () => {
+      store = new FailingPutStore(await createStore());
+      log = new KeyValueTransparencyLog(store);
+    });
+
+    async function appendAll(count: number): Promise<TransparencyLogEntry[]> {
+      const entries = Array.from({ length: count }, (_, i) => entry(i));
+      for (const e of entries) await log.append(e);
+      return entries;
+    }
+
+    it('starts empty with the RFC 6962 empty root', async () => {
+      expect(await log.head()).toEqual({ treeSize: 0, rootHash: EMPTY_TREE_ROOT });
+    });
+
+    it('appends in order and keeps the same root as the full Merkle tree', async () => {
+      const entries = Array.from({ length: 7 }, (_, i) => entry(i));
+      for (let i = 0; i < entries.length; i++) {
+        expect(await log.append(entries[i]!)).toBe(i);
+        const expected = await computeMerkleRoot(entries.slice(0, i + 1).map(transparencyLogLeafData));
+        expect(await log.head()).toEqual({ treeSize: i + 1, rootHash: expected });
+      }
+      expect(await log.entries(2, 5)).toEqual(entries.slice(2, 5));
+    });
+
+    it('does not append the same entry twice', async () => {
+      await appendAll(3);
+      expect(await log.append(entry(1))).toBe(1);
+      expect((await log.head()).treeSize).toBe(3);
+    });
+
+    it('serializes concurrent appends', async () => {
+      const entries = Array.from({ length: 6 }, (_, i) => entry(i));
+      const indexes = await Promise.all(entries.map((e) => log.append(e)));
+      expect(indexes).toEqual([0, 1, 2, 3, 4, 5]);
+      const expected = await computeMerkleRoot(entries.map(transparencyLogLeafData));
+      expect((await log.head()).rootHash).toBe(expected);
+    });
+
+    it('returns inclusion proofs that verify against the head, and omits entries not in the log', async () => {
+      const entries = await appendAll(9);
+      const head = await log.head();
+      const proofs = await log.proofs([entries[0]!, entry(100), entries[8]!, entries[5]!]);
+
+      expect(proofs.treeSize).toBe(9);
+      expect(proofs.rootHash).toBe(head.rootHash);
+      expect(proofs.inclusions.map((i) => i.leafIndex)).toEqual([0, 8, 5]);
+      for (const inclusion of proofs.inclusions) {
+        expect(await verifyTransparencyLogInclusion(inclusion, proofs)).toBe(true);
+      }
+    });
+
+    it('pins proofs to an older tree size', async () => {
+      const entries = await appendAll(6);
+      const proofs = await log.proofs([entries[1]!, entries[4]!], 4);
+      expect(proofs.treeSize).toBe(4);
+      expect(proofs.rootHash).toBe(await computeMerkleRoot(entries.slice(0, 4).map(transparencyLogLeafData)));
+      expect(proofs.inclusions.map((i) => i.leafIndex)).toEqual([1]);
+      expect(await verifyTransparencyLogInclusion(proofs.inclusions[0]!, proofs)).toBe(true);
+
+      await expect(log.proofs([entries[0]!], 7)).rejects.toThrow(TransparencyLogRangeError);
+    });
+
+    it('proves consistency between every pair of tree sizes', async () => {
+      const entries = Array.from({ length: 7 }, (_, i) => entry(i));
+      const heads = [await log.head()];
+      for (const e of entries) {
+        await log.append(e);
+        heads.push(await log.head());
+      }
+      for (let newSize = 0; newSize <= entries.length; newSize++) {
+        for (let oldSize = 0; oldSize <= newSize; oldSize++) {
+          const proof = await log.consistency(oldSize, newSize);
+          expect(await verifyTransparencyLogConsistency(proof, heads[oldSize]!, heads[newSize]!)).toBe(true);
+        }
+      }
+      await expect(log.consistency(3, 8)).rejects.toThrow(TransparencyLogRangeError);
+      await expect(log.consistency(4, 3)).rejects.toThrow(TransparencyLogRangeError);
+    });
+
+    it('rejects entry ranges outside the log', async () => {
+      await appendAll(2);
+      await expect(log.entries(1, 3)).rejects.toThrow(TransparencyLogRangeError);
+      expect(await log.entries(2, 2)).toEqual([]);
+    });
+
+    it('reuses the position of an append that failed partway', async () => {
+      const entries = await appendAll(3);
+      // 4 枚目 (index 3) は entry・葉・繰り上がった節 2 つを書いてから index を書く。その index で落とす。
+      store.failAfter = 4;
+      await expect(log.append(entry(3))).rejects.toThrow('simulated write failure');
+      expect((await log.head()).treeSize).toBe(3);
+
+      // 失敗した葉は載っておらず、次の追記が同じ位置に入る。
+      expect((await log.proofs([entry(3)])).inclusions).toEqual([]);
+      expect(await log.append(entry(50))).toBe(3);
+      expect(await log.append(entry(3))).toBe(4);
+      const expected = await computeMerkleRoot([...entries, entry(50), entry(3)].map(transparencyLogLeafData));
+      expect((await log.head()).rootHash).toBe(expected);
+    });
+  });
+}
@@ -0,0 +1,214 @@
+/**
+ * 透明性ログ (ADR-0046) の置き場。
+ *
+ * アンカー API が発行したセッション開始トークンと署名 cp の payload hash を、追記専用の Merkle 木に積む。
+ * 木の形は shared の merkle.ts (RFC 6962) と同じで、検証は shared の transparencyLog.ts が行う。
+ *
+ * 置き場は SessionStore (KV の最小サブセット) の上に次のキーで持つ (TTL 無し):
+ * - `log:size`             葉の枚数。追記の最後に書くので、ここまでが確定した葉
+ * - `log:entry:{i}`        i 番目のエントリ (監査者が全件をたどる `/api/log/entries` 用)
+ * - `log:index:{leafHash}` 葉 hash → i (含有証明を引くため)
+ * - `log:node:{h}:{i}`     高さ h の完全部分木 `[i·2^h, (i+1)·2^h)` の根 (h=0 は葉 hash)
+ *
+ * 完全部分木の根は一度できたら変わらないので、追記は O(log n) 回の書き込み、根・証明は
+ * 保存済みの節を O(log² n) 回読むだけで作れる (葉を全部読み直さない)。
+ *
+ * 追記は 1 インスタンスの中で直列化する。KV は原子的な追記ができないので、Workers では
+ * Durable Object (transparencyLogObject.ts) の中でこのクラスを動かし、ログを 1 か所にする。
+ * 自前ホストの Node サーバは 1 プロセスで動かす前提でそのまま使う。
+ */
+
+import {
+  EMPTY_TREE_ROOT,
+  collectMerkleConsistencyProof,
+  collectMerkleRangeProof,
+  merkleLeafHash,
+  merkleNodeHash,
+  transparencyLogLeafData,
+  type MerkleConsistencyProof,
+  type TransparencyLogEntry,
+  type TransparencyLogInclusion,
+} from '@typedcode/shared/checkpoint';
+import type { SessionStore } from './sessionStore.js';
+
+/** 木の大きさと根 (署名前のツリーヘッド) */
+export interface TransparencyLogHead {
+  treeSize: number;
+  rootHash: string;
+}
+
+/** 1 つのツリーヘッドに対する含有証明の束 (`/api/log/evidence` の署名前の中身) */
+export interface TransparencyLogProofs extends TransparencyLogHead {
+  /** ログに載っていたエントリの含有証明。載っていないエントリは含めない */
+  inclusions: TransparencyLogInclusion[];
+}
+
+/**
+ * アンカー API から見たログ。KeyValueTransparencyLog か、Workers では Durable Object への橋渡し
+ * (`durableObjectTransparencyLog`) が実装する。失敗は throw する (呼び出し側が 503 にする)。
+ */
+export interface TransparencyLog {
+  /** エントリを末尾に足し、葉の位置を返す。同じエントリが既にあれば足さずにその位置を返す */
+  append(entry: TransparencyLogEntry): Promise<number>;
+  /** いまの木の大きさと根 */
+  head(): Promise<TransparencyLogHead>;
+  /** `treeSize` (省略時はいまの大きさ) の木について、各エントリの含有証明を返す */
+  proofs(entries: readonly TransparencyLogEntry[], treeSize?: number): Promise<TransparencyLogProofs>;
+  /** `oldSize` 枚の木から `newSize` 枚の木への一貫性証明 */
+  consistency(oldSize: number, newSize: number): Promise<MerkleConsistencyProof>;
+  /** `[start, end)` のエントリ */
+  entries(start: number, end: number): Promise<TransparencyLogEntry[]>;
+}
+
+/** ログの範囲外を指す要求 (API は 400 にする) */
+export class TransparencyLogRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransparencyLogRangeError';
+  }
+}
+
+/** size 未満で最大の 2 のべき (size >= 2)。merkle.ts と同じ割り方 */
+function splitPoint(size: number): number {
+  let k = 1;
+  while (k * 2 < size) k *= 2;
+  return k;
+}
+
+export class KeyValueTransparencyLog implements TransparencyLog {
+  /** 追記の直列化 (前の追記が終わってから次を始める) */
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: SessionStore) {}
+
+  append(entry: TransparencyLogEntry): Promise<number> {
+    const run = this.tail.then(() => this.appendNow(entry));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  async head(): Promise<TransparencyLogHead> {
+    const treeSize = await this.size();
+    return { treeSize, rootHash: await this.rootAt(treeSize) };
+  }
+
+  async proofs(entries: readonly TransparencyLogEntry[], treeSize?: number): Promise<TransparencyLogProofs> {
+    const size = await this.resolveTreeSize(treeSize);
+    const inclusions: TransparencyLogInclusion[] = [];
+    for (const entry of entries) {
+      const leafIndex = await this.indexOf(entry, size);
+      if (leafIndex === null) continue;
+      const proof = await collectMerkleRangeProof(size, leafIndex, leafIndex, (from, to) => this.subtreeRoot(from, to));
+      inclusions.push({ entry, leafIndex, siblings: proof.siblings });
+    }
+    return { treeSize: size, rootHash: await this.rootAt(size), inclusions };
+  }
+
+  async consistency(oldSize: number, newSize: number): Promise<MerkleConsistencyProof> {
+    const size = await this.size();
+    if (
+      !Number.isInteger(oldSize) ||
+      !Number.isInteger(newSize) ||
+      oldSize < 0 ||
+      oldSize > newSize ||
+      newSize > size
+    ) {
+      throw new TransparencyLogRangeError(`Invalid consistency range ${oldSize} -> ${newSize} (tree size ${size})`);
+    }
+    // 空の木はどの木の先頭でもあるので証明は要らない。
+    if (oldSize === 0) return { oldSize, newSize, hashes: [] };
+    return collectMerkleConsistencyProof(oldSize, newSize, (from, to) => this.subtreeRoot(from, to));
+  }
+
+  async entries(start: number, end: number): Promise<TransparencyLogEntry[]> {
+    const size = await this.size();
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end > size) {
+      throw new TransparencyLogRangeError(`Invalid entry range [${start}, ${end}) (tree size ${size})`);
+    }
+    const out: TransparencyLogEntry[] = [];
+    for (let i = start; i < end; i++) {
+      out.push(await this.required<TransparencyLogEntry>(`log:entry:${i}`));
+    }
+    return out;
+  }
+
+  private async appendNow(entry: TransparencyLogEntry): Promise<number> {
+    const size = await this.size();
+    // 冪等: 確定済みの同じ葉があれば足さない。
+    const existing = await this.indexOf(entry, size);
+    if (existing !== null) return existing;
+
+    const leafHash = await merkleLeafHash(transparencyLogLeafData(entry));
+    await this.put(`log:entry:${size}`, entry);
+    await this.put(`log:node:0:${size}`, leafHash);
+    // 右端の葉で完全になった部分木の根を下から順に保存する (MerkleAccumulator の繰り上がりと同じ)。
+    let index = size;
+    let height = 0;
+    let hash = leafHash;
+    while (index % 2 === 1) {
+      hash = await merkleNodeHash(await this.node(height, index - 1), hash);
+      index = (index - 1) / 2;
+      height++;
+      await this.put(`log:node:${height}:${index}`, hash);
+    }
+    await this.put(`log:index:${leafHash}`, size);
+    // size を最後に書く: 途中で失敗しても葉は未確定のままで、次の追記が同じ位置を上書きする。
+    await this.put('log:size', size + 1);
+    return size;
+  }
+
+  private async size(): Promise<number> {
+    return (await this.store.get<number>('log:size', 'json')) ?? 0;
+  }
+
+  private async resolveTreeSize(treeSize: number | undefined): Promise<number> {
+    const size = await this.size();
+    if (treeSize === undefined) return size;
+    if (!Number.isInteger(treeSize) || treeSize < 0 || treeSize > size) {
+      throw new TransparencyLogRangeError(`Invalid tree size ${treeSize} (tree size ${size})`);
+    }
+    return treeSize;
+  }
+
+  /**
+   * `treeSize` 枚の木でのエントリの位置。無ければ null。書きかけの追記が残した index
+   * (size 以上を指す・別の葉で上書きされた位置を指す) は葉 hash を突き合わせて捨てる。
+   */
+  private async indexOf(entry: TransparencyLogEntry, treeSize: number): Promise<number | null> {
+    const leafHash = await merkleLeafHash(transparencyLogLeafData(entry));
+    const index = await this.store.get<number>(`log:index:${leafHash}`, 'json');
+    if (index === null || index >= treeSize) return null;
+    return (await this.node(0, index)) === leafHash ? index : null;
+  }
+
+  private async rootAt(treeSize: number): Promise<string> {
+    return treeSize === 0 ? EMPTY_TREE_ROOT : this.subtreeRoot(0, treeSize);
+  }
+
+  /** 葉 `[from, to)` の根。RFC 6962 の割り方で出てくる区間は、完全部分木なら保存済みの節 1 つで済む */
+  private async subtreeRoot(from: number, to: number): Promise<string> {
+    const width = to - from;
+    if ((width & (width - 1)) === 0 && from % width === 0) {
+      return this.node(Math.log2(width), from / width);
+    }
+    const k = splitPoint(width);
+    return merkleNodeHash(await this.subtreeRoot(from, from + k), await this.subtreeRoot(from + k, to));
+  }
+
+  private node(height: number, index: number): Promise<string> {
+    return this.required<string>(`log:node:${height}:${index}`);
+  }
+
+  /** 確定済みの範囲にあるはずのキー。無ければ置き場が壊れている */
+  private async required<T>(key: string): Promise<T> {
+    const value = await this.store.get<T>(key, 'json');
+    if (value === null) {
+      throw new Error(`Transparency log is missing ${key}`);
+    }
+    return value;
+  }
+
+  private put(key: string, value: unknown): Promise<void> {
+    return this.store.put(key, JSON.stringify(value));
+  }
+}
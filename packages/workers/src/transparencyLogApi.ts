@@ -0,0 +1,193 @@
+/**
+ * 透明性ログ (ADR-0046) の公開エンドポイント。
+ *
+ * - GET  /api/log/tree-head                        いまの木の署名済みツリーヘッド
+ * - POST /api/log/evidence { entries, treeSize? }  1 つのツリーヘッドと各エントリの含有証明
+ *                                                  (そのまま verifyProofSignedCheckpoints に渡せる)
+ * - GET  /api/log/consistency?first=&second=       2 つの大きさの木の一貫性証明
+ * - GET  /api/log/entries?start=&end=              `[start, end)` のエントリ (監査者が全件をたどる用)
+ *
+ * ツリーヘッドは要求のたびに checkpoint と同じ鍵 (getSigningKey) で署名する。ログの置き場は
+ * TransparencyLog の裏にあり、Workers は Durable Object、自前ホストはセッション状態と同じ置き場。
+ */
+
+import {
+  createSignedTreeHead,
+  isTransparencyLogEntry,
+  type SignedTreeHead,
+  type TransparencyLogEntry,
+  type TransparencyLogEvidence,
+} from '@typedcode/shared/checkpoint';
+import { getSigningKey, type CheckpointEnv, type CorsResponder } from './checkpoint.js';
+import {
+  TransparencyLogRangeError,
+  type TransparencyLog,
+  type TransparencyLogHead,
+  type TransparencyLogProofs,
+} from './transparencyLog.js';
+
+/** `/api/log/evidence` 1 回で引けるエントリ数の上限 (署名 cp の多い proof は分けて引く) */
+export const MAX_EVIDENCE_ENTRIES = 1000;
+/** `/api/log/entries` 1 回で返すエントリ数の上限 */
+export const MAX_LOG_ENTRIES_PER_REQUEST = 256;
+/** evidence の body の最大サイズ (bytes)。エントリ 1 件は ~110 bytes */
+const MAX_EVIDENCE_BODY_BYTES = 256 * 1024;
+
+interface ErrorBody {
+  error: string;
+  code: 'SCHEMA_INVALID' | 'LOG_RANGE_INVALID' | 'LOG_UNAVAILABLE' | 'SIGNING_KEY_UNAVAILABLE';
+}
+
+function jsonResponse(body: unknown, status: number, cors: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...cors },
+  });
+}
+
+/** ログ操作の失敗をレスポンスにする。範囲外は 400、それ以外は置き場の障害として 503 */
+function logFailure(err: unknown, responder: CorsResponder): Response {
+  if (err instanceof TransparencyLogRangeError) {
+    return jsonResponse({ error: err.message, code: 'LOG_RANGE_INVALID' } satisfies ErrorBody, 400, responder.cors());
+  }
+  console.error('[log] transparency log operation failed:', err);
+  return jsonResponse(
+    { error: 'Transparency log is unavailable', code: 'LOG_UNAVAILABLE' } satisfies ErrorBody,
+    503,
+    responder.cors()
+  );
+}
+
+/** ツリーヘッドに署名する。鍵が使えなければ null (詳細はサーバログのみ) */
+async function signTreeHead(env: CheckpointEnv, head: TransparencyLogHead): Promise<SignedTreeHead | null> {
+  try {
+    const signer = await getSigningKey(env);
+    return await createSignedTreeHead(
+      { treeSize: head.treeSize, rootHash: head.rootHash, timestamp: new Date().toISOString() },
+      { keyId: signer.keyId, privateKey: signer.key }
+    );
+  } catch (err) {
+    console.error('[log] tree head signing failed:', err);
+    return null;
+  }
+}
+
+function signingUnavailable(responder: CorsResponder): Response {
+  return jsonResponse(
+    { error: 'Signing key is not available', code: 'SIGNING_KEY_UNAVAILABLE' } satisfies ErrorBody,
+    500,
+    responder.cors()
+  );
+}
+
+/** クエリの非負整数。無い・数でなければ null */
+function intParam(url: URL, name: string): number | null {
+  const raw = url.searchParams.get(name);
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  const value = Number(raw);
+  return Number.isSafeInteger(value) ? value : null;
+}
+
+export async function handleLogTreeHead(
+  env: CheckpointEnv,
+  log: TransparencyLog,
+  responder: CorsResponder
+): Promise<Response> {
+  let head: TransparencyLogHead;
+  try {
+    head = await log.head();
+  } catch (err) {
+    return logFailure(err, responder);
+  }
+  const treeHead = await signTreeHead(env, head);
+  if (!treeHead) return signingUnavailable(responder);
+  return jsonResponse({ treeHead }, 200, responder.cors());
+}
+
+export async function handleLogEvidence(
+  request: Request,
+  env: CheckpointEnv,
+  log: TransparencyLog,
+  responder: CorsResponder
+): Promise<Response> {
+  const invalid = (error: string): Response =>
+    jsonResponse({ error, code: 'SCHEMA_INVALID' } satisfies ErrorBody, 400, responder.cors());
+
+  const bodyText = await request.text();
+  if (new TextEncoder().encode(bodyText).byteLength > MAX_EVIDENCE_BODY_BYTES) {
+    return invalid(`Request body exceeds ${MAX_EVIDENCE_BODY_BYTES} bytes`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bodyText);
+  } catch {
+    return invalid('Invalid JSON body');
+  }
+  const body = (parsed ?? {}) as { entries?: unknown; treeSize?: unknown };
+  if (!Array.isArray(body.entries) || !body.entries.every(isTransparencyLogEntry)) {
+    return invalid('entries must be an array of { kind, payloadHash }');
+  }
+  if (body.entries.length > MAX_EVIDENCE_ENTRIES) {
+    return invalid(`entries exceeds ${MAX_EVIDENCE_ENTRIES} items; request them in batches with a fixed treeSize`);
+  }
+  if (body.treeSize !== undefined && !(Number.isSafeInteger(body.treeSize) && (body.treeSize as number) >= 0)) {
+    return invalid('treeSize must be a non-negative integer');
+  }
+  // 形の検査を通ったものだけを渡す (kind / payloadHash 以外のフィールドは落とす)。
+  const entries: TransparencyLogEntry[] = body.entries.map(({ kind, payloadHash }) => ({ kind, payloadHash }));
+
+  let proofs: TransparencyLogProofs;
+  try {
+    proofs = await log.proofs(entries, body.treeSize as number | undefined);
+  } catch (err) {
+    return logFailure(err, responder);
+  }
+  const treeHead = await signTreeHead(env, proofs);
+  if (!treeHead) return signingUnavailable(responder);
+  return jsonResponse(
+    { treeHead, inclusions: proofs.inclusions } satisfies TransparencyLogEvidence,
+    200,
+    responder.cors()
+  );
+}
+
+export async function handleLogConsistency(
+  url: URL,
+  log: TransparencyLog,
+  responder: CorsResponder
+): Promise<Response> {
+  const first = intParam(url, 'first');
+  const second = intParam(url, 'second');
+  if (first === null || second === null) {
+    return jsonResponse(
+      { error: 'first and second must be non-negative integers', code: 'SCHEMA_INVALID' } satisfies ErrorBody,
+      400,
+      responder.cors()
+    );
+  }
+  try {
+    return jsonResponse({ proof: await log.consistency(first, second) }, 200, responder.cors());
+  } catch (err) {
+    return logFailure(err, responder);
+  }
+}
+
+export async function handleLogEntries(url: URL, log: TransparencyLog, responder: CorsResponder): Promise<Response> {
+  const start = intParam(url, 'start');
+  const end = intParam(url, 'end');
+  if (start === null || end === null || end - start > MAX_LOG_ENTRIES_PER_REQUEST) {
+    return jsonResponse(
+      {
+        error: `start and end must be non-negative integers at most ${MAX_LOG_ENTRIES_PER_REQUEST} apart`,
+        code: 'SCHEMA_INVALID',
+      } satisfies ErrorBody,
+      400,
+      responder.cors()
+    );
+  }
+  try {
+    return jsonResponse({ entries: await log.entries(start, end) }, 200, responder.cors());
+  } catch (err) {
+    return logFailure(err, responder);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Cloudflare Workers 用の透明性ログ (ADR-0046) の置き場: Durable Object。
+ *
+ * KV は原子的な追記ができず、同時に署名した 2 つの envelope が同じ葉の位置を取り合う。
+ * ログはこの Durable Object 1 つ (`idFromName('transparency-log')`) に集め、その中で
+ * KeyValueTransparencyLog を動かす。DO は 1 インスタンスなので追記の直列化がそのまま効き、
+ * storage は強い一貫性を持つ。
+ *
+ * Worker との間は DO の fetch に `POST https://transparency-log/{method}` (body は引数の配列)
+ * を送る素朴な RPC にする。`cloudflare:workers` の RPC を使わないのは、このモジュールを
+ * Workers ランタイムの外 (vitest) からも import できるようにするため。
+ */
+
+import type { MerkleConsistencyProof, TransparencyLogEntry } from '@typedcode/shared/checkpoint';
+import type { SessionStore } from './sessionStore.js';
+import {
+  KeyValueTransparencyLog,
+  TransparencyLogRangeError,
+  type TransparencyLog,
+  type TransparencyLogHead,
+  type TransparencyLogProofs,
+} from './transparencyLog.js';
+
+/** ログ 1 本を置く DO の名前 */
+const LOG_OBJECT_NAME = 'transparency-log';
+
+const LOG_METHODS = ['append', 'head', 'proofs', 'consistency', 'entries'] as const;
+type LogMethod = (typeof LOG_METHODS)[number];
+
+interface LogCallResponse {
+  result?: unknown;
+  error?: string;
+  /** 範囲外の要求 (TransparencyLogRangeError) を Worker 側で復元するため */
+  rangeError?: boolean;
+}
+
+/** DO の storage を SessionStore として見せる (値は put に渡された JSON 文字列のまま持つ) */
+export function durableObjectSessionStore(storage: DurableObjectStorage): SessionStore {
+  return {
+    async get<T = unknown>(key: string): Promise<T | null> {
+      const value = await storage.get<string>(key);
+      return value === undefined ? null : (JSON.parse(value) as T);
+    },
+    async put(key: string, value: string): Promise<void> {
+      await storage.put(key, value);
+    },
+  };
+}
+
+export class TransparencyLogObject {
+  private readonly log: KeyValueTransparencyLog;
+
+  constructor(state: DurableObjectState) {
+    this.log = new KeyValueTransparencyLog(durableObjectSessionStore(state.storage));
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const method = new URL(request.url).pathname.slice(1) as LogMethod;
+    if (request.method !== 'POST' || !LOG_METHODS.includes(method)) {
+      return new Response('Not Found', { status: 404 });
+    }
+    const json = (body: LogCallResponse, status: number): Response =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    try {
+      const args = (await request.json()) as unknown[];
+      const call = this.log[method] as (...args: unknown[]) => Promise<unknown>;
+      return json({ result: await call.apply(this.log, args) }, 200);
+    } catch (err) {
+      if (err instanceof TransparencyLogRangeError) {
+        return json({ error: err.message, rangeError: true }, 400);
+      }
+      console.error(`[transparency-log] ${method} failed:`, err);
+      return json({ error: 'Transparency log operation failed' }, 500);
+    }
+  }
+}
+
+/** Worker から DO のログを TransparencyLog として使う */
+export function durableObjectTransparencyLog(namespace: DurableObjectNamespace): TransparencyLog {
+  const stub = namespace.get(namespace.idFromName(LOG_OBJECT_NAME));
+  const call = async <T>(method: LogMethod, args: unknown[]): Promise<T> => {
+    const response = await stub.fetch(`https://transparency-log/${method}`, {
+      method: 'POST',
+      body: JSON.stringify(args),
+    });
+    const body = (await response.json()) as LogCallResponse;
+    if (body.rangeError) throw new TransparencyLogRangeError(body.error ?? 'Out of range');
+    if (!response.ok) throw new Error(body.error ?? `Transparency log ${method} failed (${response.status})`);
+    return body.result as T;
+  };
+  return {
+    append: (entry: TransparencyLogEntry) => call<number>('append', [entry]),
+    head: () => call<TransparencyLogHead>('head', []),
+    proofs: (entries: readonly TransparencyLogEntry[], treeSize?: number) =>
+      call<TransparencyLogProofs>('proofs', treeSize === undefined ? [entries] : [entries, treeSize]),
+    consistency: (oldSize: number, newSize: number) => call<MerkleConsistencyProof>('consistency', [oldSize, newSize]),
+    entries: (start: number, end: number) => call<TransparencyLogEntry[]>('entries', [start, end]),
+  };
+}